@@ -6,6 +6,7 @@ import Header from './components/Header';
 import Dashboard from './pages/Dashboard';
 import Tenants from './pages/Tenants';
 import AddTenant from './pages/AddTenant';
+import TenantDetail from './pages/TenantDetail';
 import Subscriptions from './pages/Subscriptions';
 import Reports from './pages/Reports';
 import Communication from './pages/Communication';
@@ -15,31 +16,37 @@ import SupportTickets from './pages/SupportTickets';
 import TenantWhatsAppChat from './pages/TenantWhatsAppChat';
 import LoginPage from './pages/LoginPage';
 import PaymentGateways from './pages/PaymentGateways';
+import AccountSecurity from './pages/AccountSecurity';
 import ProtectedRoute from './components/ProtectedRoute';
-import { Page, Tenant, TenantStatus } from './types';
+import { Page, Tenant } from './types';
 import { useAuditLog } from './context/AuditLogContext';
 import { useI18n } from './context/i18n';
 import { useUser } from './context/UserContext';
 import { useAlert } from './context/AlertContext';
 import { translateAdminApiError } from './utils/translateApiError';
-import { buildUpdateDiff } from './utils/buildUpdateDiff';
+import { buildUpdateDiff, buildAuditChanges } from './utils/buildUpdateDiff';
 import FullPageLoader from './components/FullPageLoader';
-import { getCompaniesAPI, getCompanyAPI, getSubscriptionsAPI, getPlansAPI, updateCompanyAPI, deleteCompanyAPI, createSubscriptionAPI, updateSubscriptionAPI, getSubscriptionAPI, invalidateListCache } from './services/api';
+import { getCompanyAPI, getSubscriptionsAPI, updateCompanyAPI, deleteCompanyAPI, createSubscriptionAPI, updateSubscriptionAPI, getSubscriptionAPI, invalidateListCache, getSystemSettingsAPI } from './services/api';
 import { fetchMaintenanceStatus } from './services/maintenance';
 import MaintenanceScreen from './components/MaintenanceScreen';
+import IdleLockScreen from './components/IdleLockScreen';
+import { clearIdleLockState } from './hooks/useIdleLock';
+import { useRealtimeEvent, useRealtimeStatus } from './hooks/useRealtime';
+import { startRealtime, stopRealtime, reconnectRealtime } from './services/realtime';
 import { subscribeAdminMaintenanceMode } from './utils/maintenanceMode';
+import { subscribeAdminSessionEnded } from './utils/sessionEvents';
 import type { MaintenanceRetryResult } from './utils/maintenanceDisplay';
 
-/** GET /plans/ row subset used when resolving tenant current plan label */
-type ApiPlanRow = { id: number; name?: string; name_ar?: string };
 /** GET /subscriptions/ list item — allows object spread for update payloads */
 type ApiSubscriptionRow = Record<string, unknown> & { id: number; company: number; is_active?: boolean };
 
 type RoutePermission = 'can_view_dashboard' | 'can_manage_tenants' | 'can_manage_subscriptions' | 'can_manage_payment_gateways' | 'can_view_reports' | 'can_manage_communication' | 'can_manage_content' | 'can_manage_settings' | 'can_manage_support_tickets';
 
 const PermissionGuard: React.FC<{ permission: RoutePermission; children: React.ReactNode }> = ({ permission, children }) => {
-  const { hasPermission, isSuperAdmin, loading } = useUser();
+  const { user, hasPermission, isSuperAdmin, loading } = useUser();
   if (loading) return <FullPageLoader />;
+  // Admins covered by the 2FA policy can only reach Account Security until they enroll
+  if (user?.two_factor_required && !user.two_factor_enabled) return <Navigate to="/account/security" replace />;
   if (isSuperAdmin() || hasPermission(permission)) return <>{children}</>;
   return <Navigate to="/dashboard" replace />;
 };
@@ -47,6 +54,7 @@ const PermissionGuard: React.FC<{ permission: RoutePermission; children: React.R
 const App: React.FC = () => {
   const { language, t } = useI18n();
   const { showAlert } = useAlert();
+  const { can, canAccessCompany } = useUser();
   const location = useLocation();
   const navigate = useNavigate();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
@@ -75,16 +83,17 @@ const App: React.FC = () => {
       '/content': 'Content',
       '/settings': 'Settings',
       '/support-tickets': 'SupportTickets',
+      '/account/security': 'AccountSecurity',
     };
-    return routeMap[pathname] || 'Dashboard';
+    if (routeMap[pathname]) return routeMap[pathname];
+    // Nested tenant routes (add form, detail page) keep the Tenants item highlighted
+    if (pathname.startsWith('/tenants/')) return 'Tenants';
+    return 'Dashboard';
   };
   
   const activePage = getActivePageFromRoute(location.pathname);
-  const [tenants, setTenants] = useState<Tenant[]>([]);
-  const [isLoadingTenants, setIsLoadingTenants] = useState(false);
   const { addLog } = useAuditLog();
   const [isPageLoading, setIsPageLoading] = useState(false);
-  const prevPathnameRef = useRef<string>(location.pathname);
 
   const checkMaintenanceStatus = React.useCallback(async (): Promise<MaintenanceRetryResult> => {
     try {
@@ -104,41 +113,91 @@ const App: React.FC = () => {
 
   useEffect(() => {
     void checkMaintenanceStatus();
-    const intervalId = window.setInterval(() => {
-      void checkMaintenanceStatus();
-    }, 30000);
-    const unsubscribe = subscribeAdminMaintenanceMode((message) => {
+    return subscribeAdminMaintenanceMode((message) => {
       setIsMaintenanceMode(true);
       setMaintenanceMessage(message);
     });
-    return () => {
-      window.clearInterval(intervalId);
-      unsubscribe();
-    };
   }, [checkMaintenanceStatus]);
 
-  // On any page navigation, clear list cache so the new page always gets fresh API data
+  // One realtime stream per signed-in session; pages subscribe to the events they display
   useEffect(() => {
-    invalidateListCache();
-  }, [location.pathname]);
+    if (!isAuthenticated) return;
+    startRealtime();
+    return () => stopRealtime();
+  }, [isAuthenticated]);
 
-  // Fetch tenants when authenticated (e.g. after login)
+  // Maintenance toggles arrive as events while the stream is open; poll otherwise (and on the login page).
+  // Checking once when the stream (re)opens catches a toggle missed while disconnected.
+  const realtimeStatus = useRealtimeStatus();
   useEffect(() => {
-    if (isAuthenticated) {
-      loadTenants();
+    if (realtimeStatus === 'open') {
+      void checkMaintenanceStatus();
+      return;
     }
-  }, [isAuthenticated]);
+    const intervalId = window.setInterval(() => {
+      void checkMaintenanceStatus();
+    }, 30000);
+    return () => window.clearInterval(intervalId);
+  }, [realtimeStatus, checkMaintenanceStatus]);
+
+  useRealtimeEvent(['maintenance.toggled'], (event) => {
+    setIsMaintenanceMode(event.maintenance_mode === true);
+    setMaintenanceMessage(event.maintenance_mode ? event.message || '' : '');
+  });
+
+  // Failed payments arrive as `payment_failed` notifications, which toast on their own and honour mutes
+  useRealtimeEvent(['payment.succeeded', 'payment.failed'], (event) => {
+    if (event.type !== 'payment.succeeded') return;
+    if (!can('subscriptions', 'read') || !canAccessCompany(event.company_id)) return;
+    const amount = event.amount != null ? `${event.amount} ${event.currency || ''}`.trim() : '';
+    showAlert(
+      t('realtime.paymentSucceeded').replace('{company}', event.company_name || `#${event.company_id}`).replace('{amount}', amount),
+      { variant: 'success' },
+    );
+  });
 
-  // When user navigates TO the companies/tenants page, refetch
+  // Revoked or expired session (from httpClient or a remote sign-out): drop auth and go to login once,
+  // even when several in-flight requests fail with 401 at the same time
+  const sessionEndedRef = useRef(false);
   useEffect(() => {
-    const currentPath = location.pathname;
-    const cameFromAnotherPage = prevPathnameRef.current !== '/tenants';
-    prevPathnameRef.current = currentPath;
+    return subscribeAdminSessionEnded((reason) => {
+      if (sessionEndedRef.current) return;
+      sessionEndedRef.current = true;
+      localStorage.removeItem('accessToken');
+      localStorage.removeItem('refreshToken');
+      localStorage.removeItem('isAuthenticated');
+      sessionStorage.removeItem('isAuthenticated');
+      clearIdleLockState();
+      setIsAuthenticated(false);
+      showAlert(reason === 'revoked' ? t('session.revoked') : t('session.expired'), { variant: 'warning' });
+      navigate('/login', { replace: true });
+    });
+  }, [navigate, showAlert, t]);
 
-    if (isAuthenticated && currentPath === '/tenants' && cameFromAnotherPage) {
-      loadTenants();
-    }
-  }, [isAuthenticated, location.pathname]);
+  // On any page navigation, clear list cache so the new page always gets fresh API data
+  useEffect(() => {
+    invalidateListCache();
+  }, [location.pathname]);
+
+  // Idle lock timeout: undefined until loaded, null when disabled (see useIdleLock)
+  const [idleTimeoutMinutes, setIdleTimeoutMinutes] = useState<number | null | undefined>(undefined);
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    let cancelled = false;
+    getSystemSettingsAPI()
+      .then((data) => {
+        if (cancelled) return;
+        const minutes = Number(data.idle_timeout_minutes) || 0;
+        setIdleTimeoutMinutes(data.idle_timeout_enabled === true && minutes > 0 ? minutes : null);
+      })
+      .catch((error) => {
+        console.error('Error loading idle timeout setting:', error);
+        if (!cancelled) setIdleTimeoutMinutes(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated]);
 
   useEffect(() => {
     const syncOnline = () => setIsInternetOnline(navigator.onLine);
@@ -165,124 +224,13 @@ const App: React.FC = () => {
         t('connectivity.backOnline'),
         { variant: 'success' }
       );
+      // Skip the remaining backoff delay now that the network is back
+      reconnectRealtime();
     }
 
     previousInternetStatusRef.current = isInternetOnline;
   }, [isInternetOnline, language, showAlert]);
 
-  const loadTenants = async () => {
-    setIsLoadingTenants(true);
-    try {
-      // Fetch companies, subscriptions, and plans
-      const [companiesResponse, subscriptionsResponse, plansResponse] = await Promise.all([
-        getCompaniesAPI(),
-        getSubscriptionsAPI(),
-        getPlansAPI()
-      ]);
-
-      const companies = companiesResponse.results || [];
-      const subscriptions = (subscriptionsResponse.results || []) as any[];
-      const plans = (plansResponse.results || []) as ApiPlanRow[];
-
-      // Create a map of company_id -> active subscription
-      const subscriptionMap = new Map();
-      subscriptions.forEach((sub: any) => {
-        if (sub.is_active && (!subscriptionMap.has(sub.company) || 
-            new Date(sub.end_date) > new Date(subscriptionMap.get(sub.company)?.end_date || 0))) {
-          subscriptionMap.set(sub.company, sub);
-        }
-      });
-
-      // Map companies to tenants using API field names
-      const mappedTenants: Tenant[] = companies.map((company: any) => {
-        const subscription = subscriptionMap.get(company.id);
-        const endDate = subscription?.end_date 
-          ? new Date(subscription.end_date).toISOString().split('T')[0]
-          : undefined;
-        const startDate = subscription?.start_date
-          ? new Date(subscription.start_date).toISOString().split('T')[0]
-          : company.created_at ? new Date(company.created_at).toISOString().split('T')[0] : undefined;
-
-        // Determine status based on API subscription data
-        let status = TenantStatus.Deactivated;
-        if (subscription) {
-          if (subscription.is_active) {
-            const now = new Date();
-            const end = new Date(subscription.end_date);
-            if (end < now) {
-              status = TenantStatus.Expired;
-            } else {
-              status = TenantStatus.Active;
-            }
-          } else {
-            status = TenantStatus.Deactivated;
-          }
-        }
-
-        // Get plan name with Arabic support
-        let currentPlan = '';
-        if (subscription?.plan) {
-          const plan = plans.find((p) => p.id === subscription.plan);
-          if (plan) {
-            currentPlan = language === 'ar' && plan.name_ar?.trim() ? plan.name_ar : plan.name;
-          } else {
-            currentPlan = subscription.plan_name || '';
-          }
-        }
-
-        return {
-          id: company.id,
-          name: company.name,
-          domain: company.domain,
-          specialization: company.specialization,
-          owner: company.owner,
-          owner_username: company.owner_username,
-          owner_email: company.owner_email,
-          owner_phone: company.owner_phone,
-          created_at: company.created_at,
-          updated_at: company.updated_at,
-          freeTrialConsumed: Boolean(company.free_trial_consumed),
-          // Legacy fields from subscriptions
-          currentPlan: currentPlan,
-          status: status,
-          startDate: startDate,
-          endDate: endDate,
-        };
-      });
-
-      setTenants(mappedTenants);
-    } catch (error: any) {
-      console.error('Error loading tenants:', error);
-      const status = error?.status as number | undefined;
-      const code = error?.code as string | undefined;
-      const errorMessage = error?.message || '';
-      if (
-        status === 401 ||
-        status === 403 ||
-        code === 'permission_denied' ||
-        code === 'authentication_failed' ||
-        errorMessage.includes('Forbidden') ||
-        errorMessage.includes('403') ||
-        errorMessage.includes('Session expired') ||
-        errorMessage.includes('401') ||
-        errorMessage.includes('Unauthorized')
-      ) {
-        // Clear auth and redirect to login
-        localStorage.removeItem('accessToken');
-        localStorage.removeItem('refreshToken');
-        localStorage.removeItem('isAuthenticated');
-        sessionStorage.removeItem('isAuthenticated');
-        setIsAuthenticated(false);
-        navigate('/login');
-      }
-      // Set empty array on error to show "no tenants" message
-      setTenants([]);
-    } finally {
-      setIsLoadingTenants(false);
-    }
-  };
-
-
   useEffect(() => {
     setIsPageLoading(true);
     const timer = setTimeout(() => setIsPageLoading(false), 300); // Simulate loading
@@ -290,6 +238,8 @@ const App: React.FC = () => {
   }, [activePage]);
 
   const handleLoginSuccess = () => {
+    sessionEndedRef.current = false;
+    clearIdleLockState();
     sessionStorage.setItem('isAuthenticated', 'true');
     setIsAuthenticated(true);
     // Navigate will be handled by LoginPage component
@@ -302,19 +252,18 @@ const App: React.FC = () => {
     localStorage.removeItem('isAuthenticated');
     localStorage.removeItem('accessToken');
     localStorage.removeItem('refreshToken');
+    clearIdleLockState();
     setIsAuthenticated(false);
     window.location.href = '/login';
   };
 
   const handleAddTenantSuccess = async (newTenant: Omit<Tenant, 'id'>) => {
     addLog('audit.log.tenantCreated', { companyName: newTenant.name });
-    await loadTenants();
     navigate('/tenants');
   };
   
-  const handleUpdateTenant = async (updatedTenant: Tenant) => {
+  const handleUpdateTenant = async (updatedTenant: Tenant, previous?: Tenant) => {
     try {
-      const previousTenant = tenants.find((t) => t.id === updatedTenant.id);
       const companyData = {
         name: updatedTenant.name,
         domain: updatedTenant.domain.replace('.platform.com', ''),
@@ -322,22 +271,22 @@ const App: React.FC = () => {
         free_trial_consumed: updatedTenant.freeTrialConsumed ?? false,
       };
 
-      const initial = previousTenant
+      const initial = previous
         ? {
-            name: previousTenant.name,
-            domain: previousTenant.domain.replace('.platform.com', ''),
-            specialization: previousTenant.specialization || 'real_estate',
-            free_trial_consumed: previousTenant.freeTrialConsumed ?? false,
+            name: previous.name,
+            domain: previous.domain.replace('.platform.com', ''),
+            specialization: previous.specialization || 'real_estate',
+            free_trial_consumed: previous.freeTrialConsumed ?? false,
           }
         : {};
       const diff = buildUpdateDiff(initial, companyData);
       if (Object.keys(diff).length === 0) return;
 
       await updateCompanyAPI(updatedTenant.id, diff);
-      addLog('audit.log.tenantUpdated', { companyName: updatedTenant.name });
-      
-      // Reload tenants to get updated list
-      await loadTenants();
+      addLog('audit.log.tenantUpdated', { companyName: updatedTenant.name }, {
+        changes: buildAuditChanges(initial, diff),
+        companyId: updatedTenant.id,
+      });
     } catch (error: any) {
       console.error('Error updating tenant:', error);
       showAlert(translateAdminApiError(error, t) || t('errors.updateTenant'), { variant: 'error' });
@@ -356,13 +305,7 @@ const App: React.FC = () => {
       } else if (company.owner && typeof company.owner === 'object' && 'id' in company.owner) {
         ownerId = company.owner.id;
       } else {
-        // Try to find owner from tenant data
-        const tenant = tenants.find(t => t.id === tenantId);
-        if (tenant?.owner) {
-          ownerId = tenant.owner;
-        } else {
-          throw new Error('Company owner is required. Please ensure the company has an owner assigned.');
-        }
+        throw new Error('Company owner is required. Please ensure the company has an owner assigned.');
       }
 
       // Use existing subscription for this company if any (active or not) so only one sub per company
@@ -382,15 +325,15 @@ const App: React.FC = () => {
       if (existingSubscription) {
         const diff = buildUpdateDiff(existingSubscription, subscriptionData);
         await updateSubscriptionAPI(existingSubscription.id, diff);
-        addLog('audit.log.tenantActivated', { companyName: company.name });
+        addLog('audit.log.tenantActivated', { companyName: company.name }, {
+          changes: buildAuditChanges(existingSubscription, diff),
+          companyId: tenantId,
+        });
       } else {
         // Create new subscription - backend will ensure only one active per company
         await createSubscriptionAPI(subscriptionData);
-        addLog('audit.log.tenantActivated', { companyName: company.name });
+        addLog('audit.log.tenantActivated', { companyName: company.name }, { companyId: tenantId });
       }
-
-      // Reload tenants to get updated list
-      await loadTenants();
     } catch (error: any) {
       console.error('Error activating tenant:', error);
       // Handle field-specific errors
@@ -419,11 +362,11 @@ const App: React.FC = () => {
 
       if (activeSubscription) {
         await updateSubscriptionAPI(activeSubscription.id, { is_active: false });
-        addLog('audit.log.tenantDeactivated', { companyName: company.name });
+        addLog('audit.log.tenantDeactivated', { companyName: company.name }, {
+          changes: { is_active: { before: true, after: false } },
+          companyId: tenantId,
+        });
       }
-
-      // Reload tenants to get updated list
-      await loadTenants();
     } catch (error: any) {
       console.error('Error deactivating tenant:', error);
       throw new Error(error.message || 'Failed to deactivate tenant');
@@ -434,8 +377,7 @@ const App: React.FC = () => {
     try {
       const company = await getCompanyAPI(tenantId);
       await deleteCompanyAPI(tenantId);
-      addLog('audit.log.tenantDeleted', { companyName: company.name });
-      await loadTenants();
+      addLog('audit.log.tenantDeleted', { companyName: company.name }, { companyId: tenantId });
     } catch (error: any) {
       console.error('Error deleting tenant:', error);
       showAlert(translateAdminApiError(error, t) || t('errors.deleteTenant'), { variant: 'error' });
@@ -443,7 +385,9 @@ const App: React.FC = () => {
     }
   };
 
-  const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // A render helper rather than a nested component: a component declared inside App gets a new
+  // identity on every App render, which remounted the whole page (and dropped its state) each time.
+  const renderLayout = (children: React.ReactNode) => {
     return (
       <div className="flex h-screen bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200">
         <Sidebar 
@@ -510,6 +454,8 @@ const App: React.FC = () => {
   }
 
   return (
+    <>
+    {isAuthenticated && <IdleLockScreen timeoutMinutes={idleTimeoutMinutes} onSignOut={handleLogout} />}
     <Routes>
       <Route path="/login" element={
         isAuthenticated ? <Navigate to="/dashboard" replace /> : <LoginPage onLoginSuccess={handleLoginSuccess} />
@@ -520,9 +466,9 @@ const App: React.FC = () => {
         element={
           <ProtectedRoute>
             <PermissionGuard permission="can_view_dashboard">
-              <Layout>
+              {renderLayout(
                 <Dashboard key={`dashboard-${language}`} />
-              </Layout>
+              )}
             </PermissionGuard>
           </ProtectedRoute>
         }
@@ -532,18 +478,15 @@ const App: React.FC = () => {
         element={
           <ProtectedRoute>
             <PermissionGuard permission="can_manage_tenants">
-              <Layout>
+              {renderLayout(
                 <Tenants 
                   key={`tenants-${language}`} 
-                  tenants={tenants} 
                   onUpdateTenant={handleUpdateTenant}
                   onActivateTenant={handleActivateTenant}
                   onDeactivateTenant={handleDeactivateTenant}
                   onDeleteTenant={handleDeleteTenant}
-                  isLoading={isLoadingTenants} 
-                  onRefresh={loadTenants} 
                 />
-              </Layout>
+              )}
             </PermissionGuard>
           </ProtectedRoute>
         }
@@ -553,9 +496,21 @@ const App: React.FC = () => {
         element={
           <ProtectedRoute>
             <PermissionGuard permission="can_manage_tenants">
-              <Layout>
+              {renderLayout(
                 <AddTenant key={`add-tenant-${language}`} onSave={handleAddTenantSuccess} />
-              </Layout>
+              )}
+            </PermissionGuard>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/tenants/:id"
+        element={
+          <ProtectedRoute>
+            <PermissionGuard permission="can_manage_tenants">
+              {renderLayout(
+                <TenantDetail key={`tenant-detail-${language}`} />
+              )}
             </PermissionGuard>
           </ProtectedRoute>
         }
@@ -565,9 +520,9 @@ const App: React.FC = () => {
         element={
           <ProtectedRoute>
             <PermissionGuard permission="can_manage_tenants">
-              <Layout>
+              {renderLayout(
                 <TenantWhatsAppChat key={`tenant-whatsapp-${language}`} />
-              </Layout>
+              )}
             </PermissionGuard>
           </ProtectedRoute>
         }
@@ -577,9 +532,9 @@ const App: React.FC = () => {
         element={
           <ProtectedRoute>
             <PermissionGuard permission="can_manage_subscriptions">
-              <Layout>
-                <Subscriptions key={`subscriptions-${language}`} tenants={tenants} />
-              </Layout>
+              {renderLayout(
+                <Subscriptions key={`subscriptions-${language}`} />
+              )}
             </PermissionGuard>
           </ProtectedRoute>
         }
@@ -589,9 +544,9 @@ const App: React.FC = () => {
         element={
           <ProtectedRoute>
             <PermissionGuard permission="can_manage_payment_gateways">
-              <Layout>
+              {renderLayout(
                 <PaymentGateways key={`payment-gateways-${language}`} />
-              </Layout>
+              )}
             </PermissionGuard>
           </ProtectedRoute>
         }
@@ -601,9 +556,9 @@ const App: React.FC = () => {
         element={
           <ProtectedRoute>
             <PermissionGuard permission="can_view_reports">
-              <Layout>
+              {renderLayout(
                 <Reports key={`reports-${language}`} />
-              </Layout>
+              )}
             </PermissionGuard>
           </ProtectedRoute>
         }
@@ -613,9 +568,9 @@ const App: React.FC = () => {
         element={
           <ProtectedRoute>
             <PermissionGuard permission="can_manage_communication">
-              <Layout>
+              {renderLayout(
                 <Communication key={`communication-${language}`} />
-              </Layout>
+              )}
             </PermissionGuard>
           </ProtectedRoute>
         }
@@ -625,9 +580,9 @@ const App: React.FC = () => {
         element={
           <ProtectedRoute>
             <PermissionGuard permission="can_manage_content">
-              <Layout>
+              {renderLayout(
                 <Content key={`content-${language}`} />
-              </Layout>
+              )}
             </PermissionGuard>
           </ProtectedRoute>
         }
@@ -637,9 +592,9 @@ const App: React.FC = () => {
         element={
           <ProtectedRoute>
             <PermissionGuard permission="can_manage_settings">
-              <Layout>
+              {renderLayout(
                 <SystemSettings key={`settings-${language}`} />
-              </Layout>
+              )}
             </PermissionGuard>
           </ProtectedRoute>
         }
@@ -649,15 +604,26 @@ const App: React.FC = () => {
         element={
           <ProtectedRoute>
             <PermissionGuard permission="can_manage_support_tickets">
-              <Layout>
+              {renderLayout(
                 <SupportTickets key={`support-tickets-${language}`} />
-              </Layout>
+              )}
             </PermissionGuard>
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/account/security"
+        element={
+          <ProtectedRoute>
+            {renderLayout(
+              <AccountSecurity key={`account-security-${language}`} />
+            )}
+          </ProtectedRoute>
+        }
+      />
       <Route path="*" element={<Navigate to="/dashboard" replace />} />
     </Routes>
+    </>
   );
 };
 
@@ -0,0 +1,399 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router';
+import Icon from './Icon';
+import FilterButton from './FilterButton';
+import RefreshButton from './RefreshButton';
+import LoadingSpinner from './LoadingSpinner';
+import AuditLogFilterDrawer, { AuditLogFilters, auditLogFilterDefaults } from './AuditLogFilterDrawer';
+import { hasActiveFilters as filtersAreActive } from './filters';
+import { AuditLog } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAuditLog, mapApiAuditLog } from '../context/AuditLogContext';
+import {
+  getSystemAuditLogsAPI,
+  getSystemAuditLogFacetsAPI,
+  getAllCompaniesAPI,
+  type AuditLogFacets,
+} from '../services/api';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { withLatinDigits } from '../utils/latinNumerals';
+
+const ITEMS_PER_PAGE = 20;
+
+type FacetCount = { value: string; count: number };
+
+/** Count actors/actions on the loaded rows; used when the facets endpoint is unavailable. */
+const facetsFromLogs = (logs: AuditLog[]): AuditLogFacets => {
+  const tally = (values: string[]): FacetCount[] => {
+    const counts = new Map<string, number>();
+    values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+    return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+  };
+  return {
+    actors: tally(logs.map((log) => log.user).filter(Boolean)),
+    actions: tally(logs.map((log) => log.action.key)),
+  };
+};
+
+/** Client-side check for queued entries, mirroring the server-side filters. */
+const matchesFilters = (log: AuditLog, filters: AuditLogFilters): boolean => {
+  if (filters.actor && log.user !== filters.actor) return false;
+  if (filters.action && log.action.key !== filters.action) return false;
+  if (filters.company && String(log.companyId ?? '') !== filters.company) return false;
+  const day = log.timestamp.slice(0, 10);
+  if (filters.dateFrom && day < filters.dateFrom) return false;
+  if (filters.dateTo && day > filters.dateTo) return false;
+  return true;
+};
+
+const AuditDiffTable: React.FC<{ changes: NonNullable<AuditLog['changes']> }> = ({ changes }) => {
+  const { t, language } = useI18n();
+
+  const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'boolean') return value ? t('common.yes') : t('common.no');
+    if (typeof value === 'number') return value.toLocaleString(language === 'ar' ? 'ar-EG' : 'en-US', withLatinDigits());
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-gray-500 dark:text-gray-400">
+          <th className="px-3 py-2 text-start font-medium">{t('settings.audit.diff.field')}</th>
+          <th className="px-3 py-2 text-start font-medium">{t('settings.audit.diff.before')}</th>
+          <th className="px-3 py-2 text-start font-medium">{t('settings.audit.diff.after')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {Object.entries(changes).map(([field, { before, after }]) => (
+          <tr key={field} className="border-t border-gray-100 dark:border-gray-700">
+            <td className="px-3 py-2 font-mono text-gray-700 dark:text-gray-300">{field}</td>
+            <td className="px-3 py-2 font-mono break-all text-red-700 dark:text-red-300 bg-red-50/60 dark:bg-red-900/10">{formatValue(before)}</td>
+            <td className="px-3 py-2 font-mono break-all text-green-700 dark:text-green-300 bg-green-50/60 dark:bg-green-900/10">{formatValue(after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+/**
+ * Settings → Audit log: server-filtered, paginated explorer with actor/action facets,
+ * optional grouping by action and a before/after view for entries that recorded `changes`.
+ */
+const AuditLogExplorer: React.FC = () => {
+  const { t, language } = useI18n();
+  const { pendingLogs, syncVersion } = useAuditLog();
+  const [searchParams] = useSearchParams();
+  // `?company=<id>` (linked from the tenant detail page) opens the explorer pre-filtered.
+  const [filters, setFilters] = useState<AuditLogFilters>(() => ({
+    ...auditLogFilterDefaults,
+    company: searchParams.get('company') || '',
+  }));
+  const [isFilterDrawerOpen, setIsFilterDrawerOpen] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [serverLogs, setServerLogs] = useState<AuditLog[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [facets, setFacets] = useState<AuditLogFacets | null>(null);
+  const [allFacets, setAllFacets] = useState<AuditLogFacets | null>(null);
+  const [companies, setCompanies] = useState<{ id: number; name: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [groupByAction, setGroupByAction] = useState(false);
+  const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set());
+
+  const queryParams = useMemo(() => ({
+    actor: filters.actor || undefined,
+    action: filters.action || undefined,
+    company: filters.company || undefined,
+    date_from: filters.dateFrom || undefined,
+    date_to: filters.dateTo || undefined,
+  }), [filters]);
+
+  const loadLogs = useCallback(async (page: number) => {
+    setIsLoading(true);
+    setLoadError('');
+    try {
+      const [response, facetResponse] = await Promise.all([
+        getSystemAuditLogsAPI({ ...queryParams, page, page_size: ITEMS_PER_PAGE }),
+        getSystemAuditLogFacetsAPI(queryParams).catch(() => null),
+      ]);
+      const mapped = (response.results || []).map(mapApiAuditLog);
+      setServerLogs(mapped);
+      setTotalCount(response.count ?? 0);
+      setFacets(facetResponse ?? facetsFromLogs(mapped));
+    } catch (error: any) {
+      setServerLogs([]);
+      setTotalCount(0);
+      setFacets(null);
+      setLoadError(translateAdminApiError(error, t) || t('settings.audit.loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [queryParams, t]);
+
+  useEffect(() => {
+    loadLogs(currentPage);
+  }, [currentPage, syncVersion, loadLogs]);
+
+  useEffect(() => {
+    getSystemAuditLogFacetsAPI()
+      .then(setAllFacets)
+      .catch(() => setAllFacets(null));
+  }, [syncVersion]);
+
+  useEffect(() => {
+    getAllCompaniesAPI()
+      .then((res) => {
+        setCompanies(
+          (res.results || [])
+            .map((c) => ({ id: Number(c.id), name: String(c.name ?? '') }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
+      })
+      .catch(() => setCompanies([]));
+  }, []);
+
+  const displayedLogs = useMemo(() => {
+    if (currentPage !== 1) return serverLogs;
+    const serverClientIds = new Set(serverLogs.map((log) => log.clientId).filter(Boolean));
+    const unsent = pendingLogs.filter(
+      (log) => (!log.clientId || !serverClientIds.has(log.clientId)) && matchesFilters(log, filters)
+    );
+    return [...unsent, ...serverLogs];
+  }, [serverLogs, pendingLogs, currentPage, filters]);
+
+  const groupedLogs = useMemo(() => {
+    const groups = new Map<string, AuditLog[]>();
+    displayedLogs.forEach((log) => {
+      const list = groups.get(log.action.key) ?? [];
+      list.push(log);
+      groups.set(log.action.key, list);
+    });
+    return Array.from(groups, ([key, logs]) => ({ key, logs }));
+  }, [displayedLogs]);
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / ITEMS_PER_PAGE));
+  const filtersActive = useMemo(() => filtersAreActive(filters, auditLogFilterDefaults), [filters]);
+  const companyNameById = useMemo(() => new Map(companies.map((c) => [c.id, c.name])), [companies]);
+
+  const formatAction = (action: AuditLog['action']) => {
+    let message = t(action.key);
+    if (!message) return action.key;
+    for (const key in action.params) {
+      message = message.replace(`{${key}}`, String(action.params[key]));
+    }
+    return message;
+  };
+
+  /** Action template without its parameters, e.g. "Updated plan: …". */
+  const actionLabel = (key: string) => t(key).replace(/\{[^}]+\}/g, '…');
+
+  // Drawer options come from the unfiltered facets so narrowing one field does not hide the others' choices.
+  const optionFacets = allFacets ?? facets;
+  const actionOptions = (optionFacets?.actions ?? []).map((facet) => ({ value: facet.value, label: actionLabel(facet.value) }));
+
+  const applyFilters = (next: AuditLogFilters) => {
+    setFilters(next);
+    setCurrentPage(1);
+    setExpandedKeys(new Set());
+  };
+
+  const toggleFacet = (field: 'actor' | 'action', value: string) => {
+    applyFilters({ ...filters, [field]: filters[field] === value ? '' : value });
+  };
+
+  const rowKey = (log: AuditLog) => log.clientId || String(log.id);
+
+  const toggleExpanded = (key: string) => {
+    setExpandedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const renderRow = (log: AuditLog) => {
+    const key = rowKey(log);
+    const hasChanges = !!log.changes && Object.keys(log.changes).length > 0;
+    const isExpanded = hasChanges && expandedKeys.has(key);
+    return (
+      <React.Fragment key={key}>
+        <tr className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
+          <td className="px-3 py-4 text-center w-10">
+            {hasChanges && (
+              <button
+                type="button"
+                onClick={() => toggleExpanded(key)}
+                className="p-1 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+                aria-expanded={isExpanded}
+                title={isExpanded ? t('settings.audit.diff.hide') : t('settings.audit.diff.show')}
+              >
+                <Icon name="chevronDown" className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+              </button>
+            )}
+          </td>
+          <td className="px-6 py-4 text-center font-mono">{log.user || '—'}</td>
+          <td className="px-6 py-4 text-center">
+            {formatAction(log.action)}
+            {log.pending && (
+              <span className="ms-2 px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200" title={t('settings.audit.pendingHint')}>
+                {t('settings.audit.pending')}
+              </span>
+            )}
+          </td>
+          <td className="px-6 py-4 text-center">
+            {log.companyId ? companyNameById.get(log.companyId) ?? `#${log.companyId}` : '—'}
+          </td>
+          <td className="px-6 py-4 text-center">{new Date(log.timestamp).toLocaleString(language === 'ar' ? 'ar-EG' : 'en-US', withLatinDigits({ dateStyle: 'medium', timeStyle: 'short' }))}</td>
+        </tr>
+        {isExpanded && log.changes && (
+          <tr className="bg-gray-50 dark:bg-gray-900/40 border-b dark:border-gray-700">
+            <td />
+            <td colSpan={4} className="px-6 py-3">
+              <AuditDiffTable changes={log.changes} />
+            </td>
+          </tr>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  const renderFacet = (title: string, field: 'actor' | 'action', items: FacetCount[]) => (
+    <div>
+      <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">{title}</p>
+      <div className="flex flex-wrap gap-2">
+        {items.slice(0, 8).map((item) => {
+          const active = filters[field] === item.value;
+          return (
+            <button
+              key={item.value}
+              type="button"
+              onClick={() => toggleFacet(field, item.value)}
+              className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs transition ${
+                active
+                  ? 'border-primary-500 bg-primary-50 text-primary-700 dark:border-primary-600 dark:bg-primary-900/30 dark:text-primary-200'
+                  : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:border-primary-400'
+              }`}
+            >
+              <span className={field === 'actor' ? 'font-mono' : undefined}>
+                {field === 'action' ? actionLabel(item.value) : item.value}
+              </span>
+              <span className="rounded-full bg-gray-100 dark:bg-gray-700 px-1.5 text-[10px] font-semibold">{item.count}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <h3 className="text-xl font-semibold">{t('settings.audit.title')}</h3>
+        <div className="flex items-center gap-2">
+          <label className="inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={groupByAction}
+              onChange={(e) => setGroupByAction(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            {t('settings.audit.groupByAction')}
+          </label>
+          <FilterButton onClick={() => setIsFilterDrawerOpen(true)} hasActiveFilters={filtersActive}>
+            {t('settings.audit.filters.open')}
+          </FilterButton>
+          <RefreshButton onClick={() => loadLogs(currentPage)} loading={isLoading} />
+        </div>
+      </div>
+
+      {facets && (facets.actors.length > 0 || facets.actions.length > 0) && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 rounded-lg border border-gray-100 dark:border-gray-700 p-4">
+          {renderFacet(t('settings.audit.facets.actors'), 'actor', facets.actors)}
+          {renderFacet(t('settings.audit.facets.actions'), 'action', facets.actions)}
+        </div>
+      )}
+
+      {loadError && (
+        <div className="p-3 rounded-md text-sm bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200">{loadError}</div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+            <tr>
+              <th className="px-3 py-3 w-10" />
+              <th className="px-6 py-3 text-center">{t('settings.audit.table.user')}</th>
+              <th className="px-6 py-3 text-center">{t('settings.audit.table.action')}</th>
+              <th className="px-6 py-3 text-center">{t('settings.audit.table.company')}</th>
+              <th className="px-6 py-3 text-center">{t('settings.audit.table.timestamp')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {isLoading && displayedLogs.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center">
+                  <div className="flex items-center justify-center"><LoadingSpinner /></div>
+                </td>
+              </tr>
+            ) : displayedLogs.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center">
+                  {filtersActive ? t('settings.audit.filters.noResults') : t('settings.audit.empty')}
+                </td>
+              </tr>
+            ) : groupByAction ? (
+              groupedLogs.map((group) => (
+                <React.Fragment key={group.key}>
+                  <tr className="bg-gray-100 dark:bg-gray-700/60">
+                    <td colSpan={5} className="px-6 py-2 text-xs font-semibold text-gray-700 dark:text-gray-200">
+                      {actionLabel(group.key)}
+                      <span className="ms-2 rounded-full bg-white dark:bg-gray-800 px-2 py-0.5 text-[10px]">{group.logs.length}</span>
+                    </td>
+                  </tr>
+                  {group.logs.map(renderRow)}
+                </React.Fragment>
+              ))
+            ) : (
+              displayedLogs.map(renderRow)
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {totalPages > 1 && (
+        <nav className="flex items-center justify-between pt-4" aria-label="Table navigation">
+          <span className="text-sm font-normal text-gray-500 dark:text-gray-400">{t('settings.security.pagination.page')} <span className="font-semibold text-gray-900 dark:text-white">{currentPage}</span> {t('settings.security.pagination.of')} <span className="font-semibold text-gray-900 dark:text-white">{totalPages}</span></span>
+          <div className="flex space-x-2 rtl:space-x-reverse">
+            <button onClick={() => setCurrentPage(p => Math.max(1, p - 1))} disabled={currentPage === 1 || isLoading} className="px-3 py-1 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-100 hover:text-gray-700 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white disabled:opacity-50 disabled:cursor-not-allowed">
+              {t('settings.security.pagination.previous')}
+            </button>
+            <button onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))} disabled={currentPage === totalPages || isLoading} className="px-3 py-1 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-100 hover:text-gray-700 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white disabled:opacity-50 disabled:cursor-not-allowed">
+              {t('settings.security.pagination.next')}
+            </button>
+          </div>
+        </nav>
+      )}
+
+      <AuditLogFilterDrawer
+        isOpen={isFilterDrawerOpen}
+        onClose={() => setIsFilterDrawerOpen(false)}
+        filters={filters}
+        onApply={(next) => {
+          applyFilters(next);
+          setIsFilterDrawerOpen(false);
+        }}
+        onReset={() => applyFilters(auditLogFilterDefaults)}
+        actorOptions={(optionFacets?.actors ?? []).map((facet) => facet.value)}
+        actionOptions={actionOptions}
+        companyOptions={companies}
+      />
+    </div>
+  );
+};
+
+export default AuditLogExplorer;
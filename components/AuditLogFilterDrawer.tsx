@@ -0,0 +1,172 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useI18n } from '../context/i18n';
+import {
+  FilterDrawerShell,
+  FilterSection,
+  FilterLabel,
+  FilterSelect,
+  FilterInput,
+} from './filters';
+
+export interface AuditLogFilters {
+  actor: string;
+  action: string;
+  company: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+export const auditLogFilterDefaults: AuditLogFilters = {
+  actor: '',
+  action: '',
+  company: '',
+  dateFrom: '',
+  dateTo: '',
+};
+
+interface AuditLogFilterDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  filters: AuditLogFilters;
+  onApply: (filters: AuditLogFilters) => void;
+  onReset: () => void;
+  actorOptions: string[];
+  actionOptions: { value: string; label: string }[];
+  companyOptions: { id: number; name: string }[];
+}
+
+const AuditLogFilterDrawer: React.FC<AuditLogFilterDrawerProps> = ({
+  isOpen,
+  onClose,
+  filters,
+  onApply,
+  onReset,
+  actorOptions,
+  actionOptions,
+  companyOptions,
+}) => {
+  const { t } = useI18n();
+  const [localFilters, setLocalFilters] = useState<AuditLogFilters>(filters);
+
+  const syncDraft = useCallback(() => {
+    setLocalFilters(filters);
+  }, [filters]);
+
+  const handleClose = () => {
+    setLocalFilters(filters);
+    onClose();
+  };
+
+  const updateField = (field: keyof AuditLogFilters, value: string) => {
+    setLocalFilters((prev) => ({
+      ...prev,
+      [field]: value,
+    }));
+  };
+
+  const isInvalidRange = useMemo(() => {
+    if (!localFilters.dateFrom || !localFilters.dateTo) return false;
+    return localFilters.dateFrom > localFilters.dateTo;
+  }, [localFilters.dateFrom, localFilters.dateTo]);
+
+  const handleApply = () => {
+    if (isInvalidRange) return;
+    onApply(localFilters);
+  };
+
+  const handleReset = () => {
+    setLocalFilters(auditLogFilterDefaults);
+    onReset();
+  };
+
+  return (
+    <FilterDrawerShell
+      isOpen={isOpen}
+      onClose={handleClose}
+      onOpen={syncDraft}
+      subtitle={t('settings.audit.filters.title')}
+      title={t('settings.audit.title')}
+      onReset={handleReset}
+      onApply={handleApply}
+      applyDisabled={isInvalidRange}
+    >
+      <FilterSection title={t('settings.audit.filters.who')}>
+        <div className="space-y-4 pt-2">
+          <div>
+            <FilterLabel htmlFor="audit-filter-actor">{t('settings.audit.filters.actor')}</FilterLabel>
+            <FilterSelect
+              id="audit-filter-actor"
+              value={localFilters.actor}
+              onChange={(event) => updateField('actor', event.target.value)}
+            >
+              <option value="">{t('settings.audit.filters.allActors')}</option>
+              {actorOptions.map((actor) => (
+                <option key={actor} value={actor}>
+                  {actor}
+                </option>
+              ))}
+            </FilterSelect>
+          </div>
+          <div>
+            <FilterLabel htmlFor="audit-filter-action">{t('settings.audit.filters.action')}</FilterLabel>
+            <FilterSelect
+              id="audit-filter-action"
+              value={localFilters.action}
+              onChange={(event) => updateField('action', event.target.value)}
+            >
+              <option value="">{t('settings.audit.filters.allActions')}</option>
+              {actionOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </FilterSelect>
+          </div>
+          <div>
+            <FilterLabel htmlFor="audit-filter-company">{t('settings.audit.filters.company')}</FilterLabel>
+            <FilterSelect
+              id="audit-filter-company"
+              value={localFilters.company}
+              onChange={(event) => updateField('company', event.target.value)}
+            >
+              <option value="">{t('settings.audit.filters.allCompanies')}</option>
+              {companyOptions.map((company) => (
+                <option key={company.id} value={String(company.id)}>
+                  {company.name}
+                </option>
+              ))}
+            </FilterSelect>
+          </div>
+        </div>
+      </FilterSection>
+
+      <FilterSection title={t('settings.audit.filters.dates')}>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pt-2">
+          <div>
+            <FilterLabel htmlFor="audit-filter-from">{t('settings.audit.filters.from')}</FilterLabel>
+            <FilterInput
+              id="audit-filter-from"
+              type="date"
+              value={localFilters.dateFrom}
+              onChange={(event) => updateField('dateFrom', event.target.value)}
+            />
+          </div>
+          <div>
+            <FilterLabel htmlFor="audit-filter-to">{t('settings.audit.filters.to')}</FilterLabel>
+            <FilterInput
+              id="audit-filter-to"
+              type="date"
+              value={localFilters.dateTo}
+              onChange={(event) => updateField('dateTo', event.target.value)}
+            />
+          </div>
+        </div>
+        {isInvalidRange && (
+          <p className="mt-2 text-xs text-red-600 dark:text-red-400">{t('settings.audit.filters.invalidRange')}</p>
+        )}
+      </FilterSection>
+    </FilterDrawerShell>
+  );
+};
+
+export default AuditLogFilterDrawer;
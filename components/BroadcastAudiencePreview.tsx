@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { BroadcastAudiencePreview as AudiencePreview, BroadcastAudienceRecipient, BroadcastChannel } from '../types';
+import { useI18n } from '../context/i18n';
+import { previewBroadcastAudienceAPI } from '../services/api';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { withLatinDigits } from '../utils/latinNumerals';
+import LoadingSpinner from './LoadingSpinner';
+import Icon from './Icon';
+
+const PREVIEW_DEBOUNCE_MS = 400;
+const SAMPLE_SIZE = 8;
+
+interface BroadcastAudiencePreviewProps {
+  /** Effective targets, i.e. `['all']` when none were picked. */
+  targets: string[];
+  channel: BroadcastChannel;
+  labelFor: (target: string) => string;
+}
+
+/** Push tokens are not shown, so push recipients fall back to a generic "can receive" label. */
+const contactFor = (recipient: BroadcastAudienceRecipient, channel: BroadcastChannel) => {
+  if (channel === 'sms') return recipient.phone;
+  return channel === 'email' ? recipient.email : null;
+};
+
+/** Live recipient counts for the broadcast and SMS forms: per target, the de-duplicated union and a sample. */
+const BroadcastAudiencePreview: React.FC<BroadcastAudiencePreviewProps> = ({ targets, channel, labelFor }) => {
+  const { t } = useI18n();
+  const [preview, setPreview] = useState<AudiencePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+  const targetsKey = targets.join(',');
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+    const timer = window.setTimeout(() => {
+      previewBroadcastAudienceAPI({ targets: targetsKey.split(','), channel, sample_size: SAMPLE_SIZE })
+        .then((res) => {
+          if (requestId === requestIdRef.current) setPreview(res);
+        })
+        .catch((err) => {
+          if (requestId !== requestIdRef.current) return;
+          setPreview(null);
+          setError(translateAdminApiError(err, t) || t('communication.audience.loadError'));
+        })
+        .finally(() => {
+          if (requestId === requestIdRef.current) setLoading(false);
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [targetsKey, channel, t]);
+
+  const formatCount = (value: number) => value.toLocaleString(undefined, withLatinDigits({}));
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40 p-3 text-sm space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium text-gray-800 dark:text-gray-100">{t('communication.audience.title')}</p>
+        {loading && <LoadingSpinner />}
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      ) : preview ? (
+        <>
+          <ul className="space-y-1">
+            {preview.per_target.map((row) => (
+              <li key={row.target} className="flex items-center justify-between gap-2 text-xs text-gray-600 dark:text-gray-300">
+                <span className="truncate">{labelFor(row.target)}</span>
+                <span className="shrink-0 tabular-nums">{formatCount(row.count)}</span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-2">
+            <p className="flex items-center justify-between gap-2 font-semibold text-gray-900 dark:text-white">
+              <span>{t('communication.audience.total')}</span>
+              <span className="tabular-nums">{formatCount(preview.total)}</span>
+            </p>
+            {preview.duplicates > 0 && (
+              <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">
+                {t('communication.audience.duplicates').replace('{count}', formatCount(preview.duplicates))}
+              </p>
+            )}
+          </div>
+
+          {preview.total === 0 ? (
+            <p className="text-xs text-amber-700 dark:text-amber-300">{t('communication.audience.empty')}</p>
+          ) : preview.unreachable > 0 && (
+            <div className="flex gap-2 rounded-md bg-amber-50 dark:bg-amber-900/30 px-2.5 py-2 text-xs text-amber-800 dark:text-amber-200">
+              <Icon name="alert" className="w-4 h-4 shrink-0" />
+              <div>
+                <p>
+                  {t(`communication.audience.unreachable.${channel}`)
+                    .replace('{count}', formatCount(preview.unreachable))
+                    .replace('{reachable}', formatCount(preview.reachable))}
+                </p>
+                {preview.unreachable_sample && preview.unreachable_sample.length > 0 && (
+                  <p className="mt-0.5 opacity-80">
+                    {preview.unreachable_sample.map((recipient) => recipient.name).join(', ')}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {preview.sample.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{t('communication.audience.sample')}</p>
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {preview.sample.map((recipient) => {
+                  const contact = recipient.reachable ? contactFor(recipient, channel) : null;
+                  return (
+                    <li key={recipient.id} className="flex items-center justify-between gap-2 py-1 text-xs">
+                      <span className="min-w-0 truncate text-gray-800 dark:text-gray-100">
+                        {recipient.name}
+                        {recipient.company_name && (
+                          <span className="text-gray-500 dark:text-gray-400"> · {recipient.company_name}</span>
+                        )}
+                      </span>
+                      <span
+                        className={`shrink-0 ${recipient.reachable ? 'text-gray-500 dark:text-gray-400' : 'text-amber-700 dark:text-amber-300'}`}
+                        dir={contact ? 'ltr' : undefined}
+                      >
+                        {contact ||
+                          t(`communication.audience.${recipient.reachable ? 'reachable' : 'missing'}.${channel}`)}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+};
+
+export default BroadcastAudiencePreview;
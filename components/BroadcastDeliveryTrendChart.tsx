@@ -0,0 +1,113 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { BroadcastDeliveryTrendPoint } from '../types';
+import { useI18n } from '../context/i18n';
+import { getBroadcastDeliveryTrendAPI } from '../services/api';
+import { getChartTheme, renderChartLegend, useIsDarkMode } from '../utils/chartTheme';
+import { cumulativeDelivery, deliveryPercent } from '../utils/broadcastDelivery';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { withLatinDigits } from '../utils/latinNumerals';
+import LoadingSpinner from './LoadingSpinner';
+
+const TREND_LIMIT = 20;
+
+/** Bounce/failure line; the chart theme only carries neutral and brand colours. */
+const FAILURE_COLOR = { light: '#ef4444', dark: '#f87171' };
+
+interface BroadcastDeliveryTrendChartProps {
+  /** Bumped by the history tab after a refresh or resend so the chart reloads too. */
+  reloadKey?: number;
+}
+
+/** Delivered, open, click and bounce rates across the latest email/push broadcasts. */
+const BroadcastDeliveryTrendChart: React.FC<BroadcastDeliveryTrendChartProps> = ({ reloadKey = 0 }) => {
+  const { t, language } = useI18n();
+  const isDark = useIsDarkMode();
+  const chartTheme = useMemo(() => getChartTheme(isDark), [isDark]);
+  const [points, setPoints] = useState<BroadcastDeliveryTrendPoint[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      setPoints(await getBroadcastDeliveryTrendAPI({ limit: TREND_LIMIT }));
+    } catch (err) {
+      setPoints([]);
+      setError(translateAdminApiError(err, t) || t('communication.delivery.trend.loadError'));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    load();
+  }, [load, reloadKey]);
+
+  const data = useMemo(
+    () =>
+      (points ?? []).map((point) => {
+        const reached = cumulativeDelivery(point);
+        return {
+          name: new Date(point.sent_at).toLocaleDateString(undefined, withLatinDigits({ month: 'short', day: 'numeric' })),
+          subject: point.subject,
+          delivered: deliveryPercent(reached.delivered, point.total),
+          opened: deliveryPercent(reached.opened, point.total),
+          clicked: deliveryPercent(reached.clicked, point.total),
+          bounced: deliveryPercent(point.bounced + point.failed, point.total),
+        };
+      }),
+    [points],
+  );
+
+  const failureColor = isDark ? FAILURE_COLOR.dark : FAILURE_COLOR.light;
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">{t('communication.delivery.trend.title')}</h3>
+      {points === null ? (
+        <div className="h-[260px] flex items-center justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : data.length === 0 ? (
+        <p className="py-10 text-center text-sm text-gray-500 dark:text-gray-400">{t('communication.delivery.trend.empty')}</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={260}>
+          <LineChart data={data} margin={{ top: 8, right: 16, left: 4, bottom: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={chartTheme.grid} strokeOpacity={isDark ? 0.55 : 0.4} />
+            <XAxis
+              dataKey="name"
+              tick={{ fontSize: 11, fill: chartTheme.axis }}
+              stroke={chartTheme.axis}
+              axisLine={{ stroke: chartTheme.grid }}
+            />
+            <YAxis
+              domain={[0, 100]}
+              tickFormatter={(value: number) => `${value}%`}
+              tick={{ fontSize: 11, dx: language === 'ar' ? -5 : 0, fill: chartTheme.axis }}
+              width={44}
+              stroke={chartTheme.axis}
+              axisLine={{ stroke: chartTheme.grid }}
+            />
+            <Tooltip
+              contentStyle={chartTheme.tooltipContent}
+              labelStyle={chartTheme.tooltipLabel}
+              itemStyle={chartTheme.tooltipItem}
+              labelFormatter={(label, payload) => {
+                const subject = payload?.[0]?.payload?.subject;
+                return subject ? `${subject} · ${label}` : String(label);
+              }}
+              formatter={(value: number, name: string) => [`${value}%`, name]}
+            />
+            <Legend content={renderChartLegend(chartTheme, language)} />
+            <Line type="monotone" dataKey="delivered" name={t('communication.delivery.status.delivered')} stroke={chartTheme.muted} strokeWidth={2} dot={false} />
+            <Line type="monotone" dataKey="opened" name={t('communication.delivery.status.opened')} stroke={chartTheme.primary} strokeWidth={2.5} dot={{ r: 3, fill: chartTheme.primary }} />
+            <Line type="monotone" dataKey="clicked" name={t('communication.delivery.status.clicked')} stroke={chartTheme.primaryLight} strokeWidth={2} dot={{ r: 3, fill: chartTheme.primaryLight }} />
+            <Line type="monotone" dataKey="bounced" name={t('communication.delivery.trend.bounced')} stroke={failureColor} strokeWidth={2} strokeDasharray="4 3" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
+
+export default BroadcastDeliveryTrendChart;
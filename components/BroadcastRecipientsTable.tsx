@@ -0,0 +1,183 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { BroadcastRecipient, BroadcastRecipientStatus } from '../types';
+import { useI18n } from '../context/i18n';
+import { getBroadcastRecipientsAPI } from '../services/api';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { withLatinDigits } from '../utils/latinNumerals';
+import LoadingSpinner from './LoadingSpinner';
+
+const PAGE_SIZE = 20;
+
+export const BROADCAST_RECIPIENT_STATUSES: BroadcastRecipientStatus[] = [
+  'queued',
+  'delivered',
+  'opened',
+  'clicked',
+  'bounced',
+  'failed',
+];
+
+export const recipientStatusColors: Record<BroadcastRecipientStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+  delivered: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+  opened: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  clicked: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-300',
+  bounced: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+};
+
+interface BroadcastRecipientsTableProps {
+  broadcastId: number;
+  companies: { id: number; name: string }[];
+  /** Preselected status filter, e.g. when opened from a stat tile. */
+  initialStatus?: BroadcastRecipientStatus | '';
+}
+
+/** Per-recipient drill-down of a sent broadcast, filterable by delivery status and company. */
+const BroadcastRecipientsTable: React.FC<BroadcastRecipientsTableProps> = ({ broadcastId, companies, initialStatus = '' }) => {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<BroadcastRecipientStatus | ''>(initialStatus);
+  const [companyId, setCompanyId] = useState<number | null>(null);
+  const [rows, setRows] = useState<BroadcastRecipient[]>([]);
+  const [count, setCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    setStatus(initialStatus);
+  }, [initialStatus]);
+
+  const load = useCallback(
+    async (nextPage: number) => {
+      const requestId = ++requestIdRef.current;
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await getBroadcastRecipientsAPI(broadcastId, {
+          status,
+          company: companyId,
+          page: nextPage,
+          page_size: PAGE_SIZE,
+        });
+        if (requestId !== requestIdRef.current) return;
+        setRows((prev) => (nextPage === 1 ? res.results : [...prev, ...res.results]));
+        setCount(res.count);
+        setPage(nextPage);
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        setError(translateAdminApiError(err, t) || t('communication.delivery.recipients.loadError'));
+      } finally {
+        if (requestId === requestIdRef.current) setLoading(false);
+      }
+    },
+    [broadcastId, status, companyId, t],
+  );
+
+  useEffect(() => {
+    load(1);
+  }, [load]);
+
+  const selectClasses =
+    'rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          aria-label={t('communication.delivery.recipients.status')}
+          value={status}
+          onChange={(e) => setStatus(e.target.value as BroadcastRecipientStatus | '')}
+          className={selectClasses}
+        >
+          <option value="">{t('communication.delivery.recipients.allStatuses')}</option>
+          {BROADCAST_RECIPIENT_STATUSES.map((option) => (
+            <option key={option} value={option}>
+              {t(`communication.delivery.status.${option}`)}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label={t('communication.delivery.recipients.company')}
+          value={companyId ?? ''}
+          onChange={(e) => setCompanyId(e.target.value ? Number(e.target.value) : null)}
+          className={`${selectClasses} min-w-0 flex-1`}
+        >
+          <option value="">{t('communication.delivery.recipients.allCompanies')}</option>
+          {companies.map((company) => (
+            <option key={company.id} value={company.id}>
+              {company.name}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {t('communication.delivery.recipients.count').replace(
+            '{count}',
+            count.toLocaleString(undefined, withLatinDigits({})),
+          )}
+        </span>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : loading && rows.length === 0 ? (
+        <div className="py-6 flex justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">{t('communication.delivery.recipients.empty')}</p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border border-gray-200 dark:border-gray-700">
+          <table className="w-full text-sm text-start">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+              <tr>
+                <th className="px-3 py-2 text-start">{t('communication.delivery.recipients.recipient')}</th>
+                <th className="px-3 py-2 text-start">{t('communication.delivery.recipients.company')}</th>
+                <th className="px-3 py-2 text-start">{t('communication.delivery.recipients.status')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {rows.map((row) => (
+                <tr key={row.id}>
+                  <td className="px-3 py-2">
+                    <p className="text-gray-900 dark:text-white">{row.name}</p>
+                    {row.email && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400" dir="ltr">
+                        {row.email}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{row.company_name || '—'}</td>
+                  <td className="px-3 py-2">
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${recipientStatusColors[row.status]}`}>
+                      {t(`communication.delivery.status.${row.status}`)}
+                    </span>
+                    {row.error_message && (row.status === 'bounced' || row.status === 'failed') && (
+                      <p className="mt-1 text-xs text-red-600 dark:text-red-400">{row.error_message}</p>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {!error && rows.length < count && (
+        <div className="flex justify-center">
+          <button
+            type="button"
+            onClick={() => load(page + 1)}
+            disabled={loading}
+            className="text-xs font-medium text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+          >
+            {loading ? t('common.loading') : t('communication.delivery.recipients.loadMore')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BroadcastRecipientsTable;
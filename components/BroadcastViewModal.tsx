@@ -1,10 +1,12 @@
 
-import React from 'react';
-import { Broadcast } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Broadcast, BroadcastRecipientStatus } from '../types';
 import { useI18n } from '../context/i18n';
 import Icon from './Icon';
 import LoadingSpinner from './LoadingSpinner';
 import { withLatinDigits } from '../utils/latinNumerals';
+import { deliveryPercent, failedRecipientCount } from '../utils/broadcastDelivery';
+import BroadcastRecipientsTable, { BROADCAST_RECIPIENT_STATUSES } from './BroadcastRecipientsTable';
 
 interface BroadcastViewModalProps {
   broadcast: Broadcast | null;
@@ -15,13 +17,38 @@ interface BroadcastViewModalProps {
   targetLabel?: string;
   /** Derived display status (e.g. "scheduled" when pending + scheduled_at). */
   displayStatus?: Broadcast['status'];
+  /** Companies offered in the recipient drill-down filter. */
+  companies?: { id: number; name: string }[];
+  /** Omitted when the admin may not send broadcasts. */
+  onResendFailed?: (broadcast: Broadcast) => void;
+  isResending?: boolean;
 }
 
-const BroadcastViewModal: React.FC<BroadcastViewModalProps> = ({ broadcast, isOpen, onClose, isLoading = false, targetLabel, displayStatus }) => {
+const BroadcastViewModal: React.FC<BroadcastViewModalProps> = ({
+  broadcast,
+  isOpen,
+  onClose,
+  isLoading = false,
+  targetLabel,
+  displayStatus,
+  companies = [],
+  onResendFailed,
+  isResending = false,
+}) => {
   const { t, language } = useI18n();
+  const [recipientStatus, setRecipientStatus] = useState<BroadcastRecipientStatus | ''>('');
+
+  const broadcastId = broadcast?.id;
+  useEffect(() => {
+    setRecipientStatus('');
+  }, [broadcastId]);
 
   if (!isOpen || !broadcast) return null;
 
+  const stats = broadcast.stats ?? null;
+  const failedCount = failedRecipientCount(stats);
+  const formatCount = (value: number) => value.toLocaleString(undefined, withLatinDigits({}));
+
   const statusTranslations: Record<Broadcast['status'], string> = {
     sent: t('communication.history.status.sent'),
     scheduled: t('communication.history.status.scheduled'),
@@ -64,7 +91,7 @@ const BroadcastViewModal: React.FC<BroadcastViewModalProps> = ({ broadcast, isOp
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
-      <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl transform transition-all" onClick={e => e.stopPropagation()}>
+      <div className={`relative bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full ${stats ? 'max-w-4xl' : 'max-w-2xl'} transform transition-all`} onClick={e => e.stopPropagation()}>
         <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
           <h2 className="text-xl font-semibold">
             {t('communication.viewModal.title')}
@@ -102,8 +129,64 @@ const BroadcastViewModal: React.FC<BroadcastViewModalProps> = ({ broadcast, isOp
               <p className="text-gray-800 dark:text-gray-200">{broadcast.content}</p>
             </div>
           </div>
+          {stats && (
+            <div className="space-y-4">
+              <div>
+                <label className={labelClasses}>{t('communication.delivery.currentStatus')}</label>
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2">
+                  {BROADCAST_RECIPIENT_STATUSES.map((status) => (
+                    <button
+                      key={status}
+                      type="button"
+                      onClick={() => setRecipientStatus((current) => (current === status ? '' : status))}
+                      aria-pressed={recipientStatus === status}
+                      className={`rounded-md border px-3 py-2 text-start transition-colors ${
+                        recipientStatus === status
+                          ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/30'
+                          : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                      }`}
+                    >
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">{t(`communication.delivery.status.${status}`)}</span>
+                      <span className="block text-lg font-semibold text-gray-900 dark:text-white">{formatCount(stats[status])}</span>
+                      <span className="block text-[11px] text-gray-500 dark:text-gray-400">{deliveryPercent(stats[status], stats.total)}%</span>
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {t('communication.delivery.total').replace('{count}', formatCount(stats.total))}
+                </p>
+              </div>
+              {stats.failure_reasons.length > 0 && (
+                <div>
+                  <label className={labelClasses}>{t('communication.delivery.failureReasons')}</label>
+                  <ul className="rounded-md border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                    {stats.failure_reasons.map((row) => (
+                      <li key={row.reason} className="flex items-center justify-between gap-2 px-3 py-1.5">
+                        <span className="text-gray-800 dark:text-gray-200 break-words">{row.reason}</span>
+                        <span className="shrink-0 text-gray-500 dark:text-gray-400">{formatCount(row.count)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <div>
+                <label className={labelClasses}>{t('communication.delivery.recipients.title')}</label>
+                <BroadcastRecipientsTable broadcastId={broadcast.id} companies={companies} initialStatus={recipientStatus} />
+              </div>
+            </div>
+          )}
         </div>
-        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end bg-gray-50 dark:bg-gray-800/50 rounded-b-lg">
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2 bg-gray-50 dark:bg-gray-800/50 rounded-b-lg">
+          {onResendFailed && failedCount > 0 && (
+            <button
+              onClick={() => onResendFailed(broadcast)}
+              disabled={isResending}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              <Icon name="restore" className="w-4 h-4" />
+              {t('communication.delivery.resendFailed').replace('{count}', formatCount(failedCount))}
+            </button>
+          )}
           <button onClick={onClose} className="px-6 py-2 bg-gray-100 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-500 font-medium">
             {t('tenants.modal.close')}
           </button>
@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CannedResponse, CannedResponseScope, TicketStatus } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { CANNED_RESPONSE_SCOPES, CANNED_RESPONSE_VARIABLES, insertTextAtCursor } from '../utils/cannedResponses';
+import Icon from './Icon';
+import LoadingButton from './LoadingButton';
+
+export type CannedResponseDraft = Omit<CannedResponse, 'id' | 'created_at' | 'updated_at'> & { id?: number };
+
+interface CannedResponseModalProps {
+  responseToEdit: CannedResponse | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (draft: CannedResponseDraft) => void;
+  isLoading?: boolean;
+}
+
+const TICKET_STATUSES: TicketStatus[] = ['open', 'in_progress', 'closed'];
+
+const emptyDraft = (): CannedResponseDraft => ({
+  title: '',
+  body_en: '',
+  body_ar: '',
+  scope: 'all',
+  set_ticket_status: null,
+});
+
+const CannedResponseModal: React.FC<CannedResponseModalProps> = ({
+  responseToEdit,
+  isOpen,
+  onClose,
+  onSave,
+  isLoading = false,
+}) => {
+  const { t, language } = useI18n();
+  const { showAlert } = useAlert();
+  const [formData, setFormData] = useState<CannedResponseDraft>(emptyDraft);
+  // Variable chips insert into whichever body was focused last
+  const [activeBody, setActiveBody] = useState<'body_en' | 'body_ar'>('body_en');
+  const bodyEnRef = useRef<HTMLTextAreaElement>(null);
+  const bodyArRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    setFormData(
+      responseToEdit
+        ? {
+            id: responseToEdit.id,
+            title: responseToEdit.title,
+            body_en: responseToEdit.body_en,
+            body_ar: responseToEdit.body_ar,
+            scope: responseToEdit.scope,
+            set_ticket_status: responseToEdit.set_ticket_status ?? null,
+          }
+        : emptyDraft(),
+    );
+    setActiveBody(language === 'ar' ? 'body_ar' : 'body_en');
+  }, [responseToEdit, isOpen, language]);
+
+  if (!isOpen) return null;
+
+  const insertVariable = (name: string) => {
+    const field = activeBody;
+    const el = field === 'body_en' ? bodyEnRef.current : bodyArRef.current;
+    insertTextAtCursor(el, formData[field], `{{${name}}}`, (next) => setFormData((prev) => ({ ...prev, [field]: next })));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.title.trim()) {
+      showAlert(t('cannedResponses.validation.title'), { variant: 'warning' });
+      return;
+    }
+    if (!formData.body_en.trim() && !formData.body_ar.trim()) {
+      showAlert(t('cannedResponses.validation.body'), { variant: 'warning' });
+      return;
+    }
+    onSave({
+      ...formData,
+      title: formData.title.trim(),
+      // A status change only makes sense where the response can reach a ticket
+      set_ticket_status: formData.scope === 'whatsapp' ? null : formData.set_ticket_status,
+    });
+  };
+
+  const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500";
+  const labelClasses = "block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl transform transition-all" onClick={e => e.stopPropagation()}>
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+            <h2 className="text-xl font-semibold">
+              {responseToEdit ? t('cannedResponses.editTitle') : t('cannedResponses.createTitle')}
+            </h2>
+            <button type="button" onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
+              <Icon name="x" className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="p-8 space-y-6 max-h-[70vh] overflow-y-auto">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="md:col-span-3">
+                <label htmlFor="cannedResponseTitle" className={labelClasses}>{t('cannedResponses.title')}</label>
+                <input
+                  id="cannedResponseTitle"
+                  value={formData.title}
+                  onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                  className={inputClasses}
+                  dir={language === 'ar' ? 'rtl' : 'ltr'}
+                  placeholder={t('cannedResponses.titlePlaceholder')}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="cannedResponseScope" className={labelClasses}>{t('cannedResponses.scope')}</label>
+                <select
+                  id="cannedResponseScope"
+                  value={formData.scope}
+                  onChange={(e) => setFormData(prev => ({ ...prev, scope: e.target.value as CannedResponseScope }))}
+                  className={inputClasses}
+                >
+                  {CANNED_RESPONSE_SCOPES.map(scope => (
+                    <option key={scope} value={scope}>{t(`cannedResponses.scope.${scope}`)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label htmlFor="cannedResponseStatus" className={labelClasses}>{t('cannedResponses.setStatus')}</label>
+                <select
+                  id="cannedResponseStatus"
+                  value={formData.scope === 'whatsapp' ? '' : formData.set_ticket_status || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, set_ticket_status: (e.target.value || null) as TicketStatus | null }))}
+                  disabled={formData.scope === 'whatsapp'}
+                  className={`${inputClasses} disabled:opacity-60`}
+                >
+                  <option value="">{t('cannedResponses.setStatus.none')}</option>
+                  {TICKET_STATUSES.map(status => (
+                    <option key={status} value={status}>{t(`tickets.status.${status}`)}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('cannedResponses.setStatusHint')}</p>
+              </div>
+            </div>
+
+            <div>
+              <p className={labelClasses}>{t('cannedResponses.variables')}</p>
+              <div className="flex flex-wrap gap-2">
+                {CANNED_RESPONSE_VARIABLES.map(name => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => insertVariable(name)}
+                    className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 text-xs font-mono text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    title={t(`cannedResponses.variable.${name}`)}
+                  >
+                    {`{{${name}}}`}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('cannedResponses.variablesHint')}</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="cannedResponseBodyEn" className={labelClasses}>{t('cannedResponses.bodyEn')}</label>
+                <textarea
+                  id="cannedResponseBodyEn"
+                  ref={bodyEnRef}
+                  rows={7}
+                  value={formData.body_en}
+                  onFocus={() => setActiveBody('body_en')}
+                  onChange={(e) => setFormData(prev => ({ ...prev, body_en: e.target.value }))}
+                  className={inputClasses}
+                  dir="ltr"
+                />
+              </div>
+              <div>
+                <label htmlFor="cannedResponseBodyAr" className={labelClasses}>{t('cannedResponses.bodyAr')}</label>
+                <textarea
+                  id="cannedResponseBodyAr"
+                  ref={bodyArRef}
+                  rows={7}
+                  value={formData.body_ar}
+                  onFocus={() => setActiveBody('body_ar')}
+                  onChange={(e) => setFormData(prev => ({ ...prev, body_ar: e.target.value }))}
+                  className={inputClasses}
+                  dir="rtl"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-4 rtl:space-x-reverse bg-gray-50 dark:bg-gray-800/50 rounded-b-lg">
+            <LoadingButton
+              type="button"
+              onClick={onClose}
+              variant="secondary"
+              disabled={isLoading}
+            >
+              {t('common.cancel')}
+            </LoadingButton>
+            <LoadingButton
+              type="submit"
+              variant="primary"
+              isLoading={isLoading}
+              loadingText={responseToEdit ? t('common.updating') : t('common.saving')}
+            >
+              {t('cannedResponses.save')}
+            </LoadingButton>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CannedResponseModal;
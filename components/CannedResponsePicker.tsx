@@ -0,0 +1,211 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CannedResponse } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import {
+  getAllCannedResponsesAPI,
+  getCompanyAPI,
+  getPlansAPI,
+  getSubscriptionsForCompaniesAPI,
+} from '../services/api';
+import {
+  CannedResponseLanguage,
+  buildCannedResponseValues,
+  cannedResponseBody,
+  cannedResponseMatchesScope,
+  fillCannedResponse,
+  usesCannedResponseVariables,
+} from '../utils/cannedResponses';
+import { ApiPlanRow } from '../utils/tenantMapping';
+import { translateAdminApiError } from '../utils/translateApiError';
+import LoadingSpinner from './LoadingSpinner';
+import Icon from './Icon';
+
+type TenantRecord = { company: Record<string, any>; subscriptions: any[]; plans: ApiPlanRow[] };
+
+interface CannedResponsePickerProps {
+  /** Which composer the picker sits in; responses scoped to the other one are hidden. */
+  scope: 'whatsapp' | 'tickets';
+  /** Tenant the `{{variables}}` are filled from. */
+  companyId: number | null;
+  disabled?: boolean;
+  onInsert: (text: string, response: CannedResponse) => void;
+}
+
+/** Composer button that lists canned responses and inserts one with its variables filled in. */
+const CannedResponsePicker: React.FC<CannedResponsePickerProps> = ({ scope, companyId, disabled, onInsert }) => {
+  const { t, language } = useI18n();
+  const { showAlert, showToast } = useAlert();
+  const [isOpen, setIsOpen] = useState(false);
+  const [responses, setResponses] = useState<CannedResponse[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [search, setSearch] = useState('');
+  const [responseLanguage, setResponseLanguage] = useState<CannedResponseLanguage>(language === 'ar' ? 'ar' : 'en');
+  const [insertingId, setInsertingId] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // One fetch per tenant while the composer stays mounted
+  const tenantCache = useRef(new Map<number, TenantRecord>());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || responses !== null) return;
+    setLoading(true);
+    getAllCannedResponsesAPI()
+      .then((res) => setResponses(res.results || []))
+      .catch((error) => {
+        showAlert(translateAdminApiError(error, t) || t('cannedResponses.loadError'), { variant: 'error' });
+        setIsOpen(false);
+      })
+      .finally(() => setLoading(false));
+  }, [isOpen, responses, showAlert, t]);
+
+  const visible = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return (responses || [])
+      .filter((response) => cannedResponseMatchesScope(response, scope))
+      .filter((response) =>
+        !q || `${response.title} ${response.body_en} ${response.body_ar}`.toLowerCase().includes(q),
+      );
+  }, [responses, scope, search]);
+
+  const loadTenant = async (id: number): Promise<TenantRecord> => {
+    const cached = tenantCache.current.get(id);
+    if (cached) return cached;
+    const [company, subscriptions, plans] = await Promise.all([
+      getCompanyAPI(id),
+      getSubscriptionsForCompaniesAPI([id]).then((res) => res.results || []),
+      getPlansAPI().then((res) => (res.results || []) as ApiPlanRow[]).catch(() => [] as ApiPlanRow[]),
+    ]);
+    const record = { company, subscriptions, plans };
+    tenantCache.current.set(id, record);
+    return record;
+  };
+
+  const handlePick = async (response: CannedResponse) => {
+    const body = cannedResponseBody(response, responseLanguage);
+    let text = body;
+    if (usesCannedResponseVariables(body)) {
+      setInsertingId(response.id);
+      let values = {};
+      try {
+        if (companyId != null) {
+          const tenant = await loadTenant(companyId);
+          values = buildCannedResponseValues(tenant.company, tenant.subscriptions, tenant.plans, responseLanguage);
+        }
+      } catch (error) {
+        console.error('Error loading tenant for canned response:', error);
+      } finally {
+        setInsertingId(null);
+      }
+      const filled = fillCannedResponse(body, values);
+      text = filled.text;
+      if (filled.unresolved.length > 0) {
+        showToast(
+          t('cannedResponses.unresolved').replace('{names}', filled.unresolved.map((name) => `{{${name}}}`).join(', ')),
+          { variant: 'warning' },
+        );
+      }
+    }
+    onInsert(text, response);
+    setIsOpen(false);
+    setSearch('');
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        aria-expanded={isOpen}
+        title={t('cannedResponses.insert')}
+        className="inline-flex h-7 items-center gap-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 text-xs text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Icon name="content" className="w-3.5 h-3.5" />
+        {t('cannedResponses.button')}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 start-0 w-80 max-w-[calc(100vw-2rem)] z-30 rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black ring-opacity-5">
+          <div className="p-2 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t('cannedResponses.search')}
+              autoFocus
+              className="flex-1 min-w-0 px-2 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <div className="inline-flex shrink-0 rounded border border-gray-300 dark:border-gray-600 overflow-hidden text-xs" role="group" aria-label={t('cannedResponses.language')}>
+              {(['en', 'ar'] as const).map((lang) => (
+                <button
+                  key={lang}
+                  type="button"
+                  onClick={() => setResponseLanguage(lang)}
+                  aria-pressed={responseLanguage === lang}
+                  className={`px-2 py-1 ${responseLanguage === lang ? 'bg-primary-600 text-white' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                >
+                  {lang.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="max-h-72 overflow-y-auto">
+            {loading ? (
+              <div className="py-6 flex justify-center">
+                <LoadingSpinner />
+              </div>
+            ) : visible.length === 0 ? (
+              <p className="px-3 py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                {responses && responses.length > 0 ? t('cannedResponses.noMatches') : t('cannedResponses.empty')}
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                {visible.map((response) => (
+                  <li key={response.id}>
+                    <button
+                      type="button"
+                      onClick={() => void handlePick(response)}
+                      disabled={insertingId !== null}
+                      className="w-full text-start px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700/60 disabled:opacity-60"
+                    >
+                      <span className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{response.title}</span>
+                        {insertingId === response.id ? (
+                          <LoadingSpinner />
+                        ) : (
+                          scope === 'tickets' &&
+                          response.set_ticket_status && (
+                            <span className="shrink-0 px-1.5 py-0.5 rounded text-[10px] font-semibold bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-200">
+                              {t('cannedResponses.macroBadge').replace('{status}', t(`tickets.status.${response.set_ticket_status}`))}
+                            </span>
+                          )
+                        )}
+                      </span>
+                      <span
+                        className="block mt-0.5 text-xs text-gray-500 dark:text-gray-400 line-clamp-2"
+                        dir={responseLanguage === 'ar' ? 'rtl' : 'ltr'}
+                      >
+                        {cannedResponseBody(response, responseLanguage)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CannedResponsePicker;
@@ -0,0 +1,225 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CannedResponse } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { useUser } from '../context/UserContext';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { buildUpdateDiff, buildAuditChanges } from '../utils/buildUpdateDiff';
+import {
+  getAllCannedResponsesAPI,
+  createCannedResponseAPI,
+  updateCannedResponseAPI,
+  deleteCannedResponseAPI,
+} from '../services/api';
+import CannedResponseModal, { CannedResponseDraft } from './CannedResponseModal';
+import RefreshButton from './RefreshButton';
+import LoadingSpinner from './LoadingSpinner';
+import AlertDialog from './AlertDialog';
+import Icon from './Icon';
+
+/** Canned responses tab in System Settings: the reply library used by the WhatsApp and ticket composers. */
+const CannedResponsesPanel: React.FC = () => {
+  const { t, language } = useI18n();
+  const { showAlert } = useAlert();
+  const { addLog } = useAuditLog();
+  const { can } = useUser();
+  const [responses, setResponses] = useState<CannedResponse[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingResponse, setEditingResponse] = useState<CannedResponse | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [responseToDelete, setResponseToDelete] = useState<CannedResponse | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // Support staff curate the library, so it follows the support tickets permission
+  const canWrite = can('supportTickets', 'write');
+  const canDelete = can('supportTickets', 'delete');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await getAllCannedResponsesAPI();
+      setResponses(res.results || []);
+    } catch (error) {
+      console.error('Error loading canned responses:', error);
+      showAlert(translateAdminApiError(error, t) || t('cannedResponses.loadError'), { variant: 'error' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showAlert, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleOpenModal = (response: CannedResponse | null) => {
+    setEditingResponse(response);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingResponse(null);
+  };
+
+  const handleSave = async (draft: CannedResponseDraft) => {
+    setIsSaving(true);
+    try {
+      const { id, ...payload } = draft;
+      if (id && editingResponse) {
+        const initialPayload = {
+          title: editingResponse.title,
+          body_en: editingResponse.body_en,
+          body_ar: editingResponse.body_ar,
+          scope: editingResponse.scope,
+          set_ticket_status: editingResponse.set_ticket_status ?? null,
+        };
+        const diff = buildUpdateDiff(initialPayload, payload);
+        if (Object.keys(diff).length === 0) {
+          handleCloseModal();
+          return;
+        }
+        await updateCannedResponseAPI(id, diff);
+        addLog('audit.log.cannedResponseUpdated', { title: payload.title }, {
+          changes: buildAuditChanges(initialPayload, diff),
+        });
+      } else {
+        await createCannedResponseAPI(payload);
+        addLog('audit.log.cannedResponseCreated', { title: payload.title });
+      }
+      await load();
+      handleCloseModal();
+    } catch (error) {
+      console.error('Error saving canned response:', error);
+      showAlert(translateAdminApiError(error, t) || t('cannedResponses.saveError'), { variant: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!responseToDelete) return;
+    setIsDeleting(true);
+    try {
+      await deleteCannedResponseAPI(responseToDelete.id);
+      addLog('audit.log.cannedResponseDeleted', { title: responseToDelete.title });
+      await load();
+    } catch (error) {
+      console.error('Error deleting canned response:', error);
+      showAlert(translateAdminApiError(error, t) || t('cannedResponses.deleteError'), { variant: 'error' });
+    } finally {
+      setIsDeleting(false);
+      setResponseToDelete(null);
+    }
+  };
+
+  const thClasses = 'px-6 py-3 text-center';
+  const tdClasses = 'px-6 py-4 text-center';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white">{t('cannedResponses.panelTitle')}</h3>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t('cannedResponses.subtitle')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <RefreshButton onClick={() => void load()} loading={isLoading} />
+          {canWrite && (
+            <button onClick={() => handleOpenModal(null)} className="bg-primary-600 text-white px-4 py-2 rounded-md hover:bg-primary-700 flex items-center shadow-md transition-transform transform hover:scale-105">
+              <Icon name="plus" className="w-5 h-5 mx-2" />
+              {t('cannedResponses.create')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+            <tr>
+              <th className={thClasses}>{t('cannedResponses.title')}</th>
+              <th className={thClasses}>{t('cannedResponses.preview')}</th>
+              <th className={thClasses}>{t('cannedResponses.scope')}</th>
+              <th className={thClasses}>{t('cannedResponses.setStatus')}</th>
+              {(canWrite || canDelete) && <th className={thClasses}>{t('limitedAdmins.table.actions')}</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {isLoading ? (
+              <tr>
+                <td colSpan={5} className={tdClasses}><LoadingSpinner /></td>
+              </tr>
+            ) : responses.length === 0 ? (
+              <tr>
+                <td colSpan={5} className={`${tdClasses} text-gray-500 dark:text-gray-400`}>{t('cannedResponses.empty')}</td>
+              </tr>
+            ) : (
+              responses.map((response) => (
+                <tr key={response.id} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
+                  <td className={`${tdClasses} font-medium text-gray-900 dark:text-white`}>{response.title}</td>
+                  <td className={`${tdClasses} text-xs max-w-sm`}>
+                    <span className="line-clamp-2" dir={language === 'ar' && response.body_ar ? 'rtl' : 'ltr'}>
+                      {(language === 'ar' ? response.body_ar || response.body_en : response.body_en || response.body_ar) || '—'}
+                    </span>
+                    {(!response.body_en || !response.body_ar) && (
+                      <span className="mt-1 inline-block px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200">
+                        {response.body_en ? t('cannedResponses.missingArabic') : t('cannedResponses.missingEnglish')}
+                      </span>
+                    )}
+                  </td>
+                  <td className={tdClasses}>{t(`cannedResponses.scope.${response.scope}`)}</td>
+                  <td className={tdClasses}>{response.set_ticket_status ? t(`tickets.status.${response.set_ticket_status}`) : '—'}</td>
+                  {(canWrite || canDelete) && (
+                    <td className={tdClasses}>
+                      <div className="flex items-center justify-center gap-2">
+                        {canWrite && (
+                          <button onClick={() => handleOpenModal(response)} className="p-2 text-gray-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" title={t('cannedResponses.editTitle')}>
+                            <Icon name="edit" className="w-5 h-5" />
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            onClick={() => setResponseToDelete(response)}
+                            className="p-2 text-gray-500 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"
+                            title={t('cannedResponses.delete')}
+                          >
+                            <Icon name="trash" className="w-5 h-5" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <CannedResponseModal
+        isOpen={isModalOpen}
+        onClose={handleCloseModal}
+        onSave={handleSave}
+        responseToEdit={editingResponse}
+        isLoading={isSaving}
+      />
+
+      <AlertDialog
+        isOpen={responseToDelete !== null}
+        onClose={() => !isDeleting && setResponseToDelete(null)}
+        title={t('cannedResponses.delete')}
+        message={t('cannedResponses.deleteConfirm').replace('{title}', responseToDelete?.title || '')}
+        type="warning"
+        confirmText={isDeleting ? t('common.deleting') : t('cannedResponses.delete')}
+        onConfirm={handleDelete}
+        showCancel
+        cancelText={t('common.cancel')}
+        disabled={isDeleting}
+      />
+    </div>
+  );
+};
+
+export default CannedResponsesPanel;
@@ -0,0 +1,337 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plan, Tenant } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { withLatinDigits } from '../utils/latinNumerals';
+import { mapApiPlan } from '../utils/planMapping';
+import {
+  EntitlementValue,
+  computeProration,
+  diffPlanEntitlements,
+  planChangeDirection,
+} from '../utils/planChange';
+import Icon from './Icon';
+import LoadingSpinner from './LoadingSpinner';
+import { Checkbox } from './Checkbox';
+import { ApiSubscriptionRow, subscriptionBillingCycle } from '../utils/subscriptionTimeline';
+import {
+  getAllPlansAPI,
+  getSubscriptionsForCompaniesAPI,
+  changeSubscriptionPlanAPI,
+} from '../services/api';
+
+const LIMIT_LABEL_KEYS: Record<string, string> = {
+  max_employees: 'subscriptions.plans.maxUsers',
+  max_clients: 'subscriptions.plans.maxClients',
+  max_deals: 'subscriptions.plans.maxDeals',
+  max_storage_bytes: 'subscriptions.plans.storageGB',
+  max_file_size_bytes: 'subscriptions.plans.maxFileSizeMB',
+};
+
+/** Byte limits are edited in GB / MB on the plan form; show them the same way here. */
+const LIMIT_DIVISORS: Record<string, number> = {
+  max_storage_bytes: 1024 * 1024 * 1024,
+  max_file_size_bytes: 1024 * 1024,
+};
+
+const toDay = (value: string) => String(value || '').slice(0, 10);
+
+interface ChangePlanModalProps {
+  tenant: Tenant | null;
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after the plan change has been applied. */
+  onChanged: () => void;
+}
+
+const ChangePlanModal: React.FC<ChangePlanModalProps> = ({ tenant, isOpen, onClose, onChanged }) => {
+  const { t, language } = useI18n();
+  const { showAlert } = useAlert();
+  const { addLog } = useAuditLog();
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [current, setCurrent] = useState<ApiSubscriptionRow | null>(null);
+  const [isLoadingData, setIsLoadingData] = useState(false);
+  const [loadError, setLoadError] = useState('');
+  const [targetPlanId, setTargetPlanId] = useState<number | ''>('');
+  const [changeDate, setChangeDate] = useState('');
+  const [issueInvoice, setIssueInvoice] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !tenant) return;
+    setTargetPlanId('');
+    setIssueInvoice(true);
+    setLoadError('');
+    setCurrent(null);
+    setChangeDate(new Date().toISOString().split('T')[0]);
+    setIsLoadingData(true);
+    Promise.all([getSubscriptionsForCompaniesAPI([tenant.id]), getAllPlansAPI()])
+      .then(([subsRes, plansRes]) => {
+        const subs = (subsRes.results || []) as unknown as ApiSubscriptionRow[];
+        setCurrent(subs.find((sub) => sub.is_active) ?? null);
+        setPlans((plansRes.results || []).map(mapApiPlan));
+      })
+      .catch((error) => {
+        console.error('Error loading plan change data:', error);
+        setLoadError(translateAdminApiError(error, t) || t('tenants.changePlan.loadError'));
+      })
+      .finally(() => setIsLoadingData(false));
+  }, [isOpen, tenant, t]);
+
+  const currentPlan = plans.find((plan) => plan.id === current?.plan);
+  const targetPlan = plans.find((plan) => plan.id === targetPlanId);
+
+  const preview = useMemo(() => {
+    if (!current || !currentPlan || !targetPlan || !changeDate) return null;
+    const proration = computeProration(
+      currentPlan,
+      targetPlan,
+      current.start_date,
+      current.end_date,
+      changeDate,
+      subscriptionBillingCycle(current),
+    );
+    return {
+      proration,
+      direction: planChangeDirection(currentPlan, targetPlan, proration.cycle),
+      entitlements: diffPlanEntitlements(currentPlan, targetPlan),
+    };
+  }, [current, currentPlan, targetPlan, changeDate]);
+
+  if (!isOpen || !tenant) return null;
+
+  const planLabel = (plan?: Plan) =>
+    plan ? (language === 'ar' && plan.nameAr?.trim() ? plan.nameAr : plan.name) : '—';
+
+  const formatUsd = (value: number) =>
+    `$${value.toLocaleString(undefined, withLatinDigits({ minimumFractionDigits: 2, maximumFractionDigits: 2 }))}`;
+
+  const formatEntitlement = (key: string, value: EntitlementValue) => {
+    if (typeof value === 'boolean') return value ? t('tenants.changePlan.enabled') : t('tenants.changePlan.disabled');
+    if (value === 'unlimited' || value == null) return t('subscriptions.plans.unlimited');
+    const divisor = LIMIT_DIVISORS[key];
+    return (divisor ? value / divisor : value).toLocaleString(undefined, withLatinDigits());
+  };
+
+  const entitlementLabel = (kind: 'limit' | 'feature', key: string) => {
+    const labelKey = kind === 'limit'
+      ? LIMIT_LABEL_KEYS[key]
+      : `settings.integrations.platform.${key.replace(/^integration_/, '')}`;
+    return (labelKey && t(labelKey)) || key;
+  };
+
+  const startDay = toDay(current?.start_date || '');
+  const endDay = toDay(current?.end_date || '');
+  const net = preview?.proration.net ?? 0;
+  const willInvoice = issueInvoice && net > 0;
+  const canSubmit = !!preview && !isSaving && changeDate >= startDay && changeDate <= endDay;
+
+  /**
+   * Applied by the server in one transaction (close the current subscription, open the target plan for
+   * the rest of the period, optional proration invoice), so a failure leaves the tenant untouched.
+   * The audit entry records the server's figures rather than the preview.
+   */
+  const handleConfirm = async () => {
+    if (!current || !currentPlan || !targetPlan || !preview) return;
+    setIsSaving(true);
+    try {
+      const result = await changeSubscriptionPlanAPI(current.id, {
+        plan: targetPlan.id,
+        change_date: changeDate,
+        billing_cycle: preview.proration.cycle,
+        issue_invoice: willInvoice,
+        invoice_line_description: `${t('tenants.changePlan.invoiceLine')} ${currentPlan.name} → ${targetPlan.name}`,
+      });
+      addLog('audit.log.tenantPlanChangedProrated', {
+        companyName: tenant.name,
+        fromPlan: currentPlan.name,
+        toPlan: targetPlan.name,
+        amount: formatUsd(result.proration.net),
+      }, {
+        changes: {
+          plan: { before: currentPlan.id, after: targetPlan.id },
+          subscription: { before: current.id, after: result.subscription.id },
+          change_date: { before: null, after: changeDate },
+          billing_cycle: { before: null, after: preview.proration.cycle },
+          proration_credit: { before: null, after: result.proration.credit },
+          proration_charge: { before: null, after: result.proration.charge },
+          invoice: { before: null, after: result.invoice?.id ?? null },
+        },
+        companyId: tenant.id,
+      });
+      showAlert(t('tenants.changePlan.success'), { variant: 'success' });
+      onChanged();
+      onClose();
+    } catch (error) {
+      console.error('Error changing plan:', error);
+      showAlert(translateAdminApiError(error, t) || t('tenants.changePlan.failed'), { variant: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500";
+  const labelClasses = "block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300";
+  const directionClasses = {
+    upgrade: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+    downgrade: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300',
+    lateral: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={() => !isSaving && onClose()}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            {t('tenants.changePlan.title')} — {tenant.name}
+          </h2>
+          <button onClick={onClose} disabled={isSaving} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
+            <Icon name="x" className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {isLoadingData ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner label={t('common.loading') || 'Loading'} />
+            </div>
+          ) : loadError ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>
+          ) : !current ? (
+            <p className="text-sm text-gray-600 dark:text-gray-300">{t('tenants.changePlan.noActiveSubscription')}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClasses}>{t('tenants.changePlan.currentPlan')}</label>
+                  <p className="px-3 py-2 text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-700 rounded-md">
+                    {planLabel(currentPlan)}
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">{startDay} → {endDay}</span>
+                  </p>
+                </div>
+                <div>
+                  <label htmlFor="targetPlan" className={labelClasses}>{t('tenants.changePlan.targetPlan')} *</label>
+                  <select
+                    id="targetPlan"
+                    value={targetPlanId}
+                    onChange={(e) => setTargetPlanId(e.target.value ? parseInt(e.target.value) : '')}
+                    className={inputClasses}
+                  >
+                    <option value="">{t('tenants.activation.selectPlan')}</option>
+                    {plans.filter((plan) => plan.id !== current.plan).map((plan) => (
+                      <option key={plan.id} value={plan.id}>{planLabel(plan)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="changeDate" className={labelClasses}>{t('tenants.changePlan.changeDate')}</label>
+                  <input
+                    id="changeDate"
+                    type="date"
+                    value={changeDate}
+                    min={startDay}
+                    max={endDay}
+                    onChange={(e) => setChangeDate(e.target.value)}
+                    className={inputClasses}
+                  />
+                </div>
+              </div>
+
+              {preview && (
+                <>
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${directionClasses[preview.direction]}`}>
+                      {t(`tenants.changePlan.direction.${preview.direction}`)}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {t(`subscriptions.lifecycle.cycle.${preview.proration.cycle}`)}
+                    </span>
+                  </div>
+
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">{t('tenants.changePlan.entitlements')}</h3>
+                    {preview.entitlements.length === 0 ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">{t('tenants.changePlan.noEntitlementChanges')}</p>
+                    ) : (
+                      <table className="w-full text-sm text-gray-500 dark:text-gray-400">
+                        <tbody>
+                          {preview.entitlements.map((row) => (
+                            <tr key={`${row.kind}-${row.key}`} className="border-b dark:border-gray-700">
+                              <td className="py-1.5 font-medium text-gray-900 dark:text-white">{entitlementLabel(row.kind, row.key)}</td>
+                              <td className="py-1.5 text-center">{formatEntitlement(row.key, row.from)}</td>
+                              <td className="py-1.5 text-center">→</td>
+                              <td className={`py-1.5 text-center font-medium ${row.change > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                {formatEntitlement(row.key, row.to)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+
+                  <div className="bg-gray-50 dark:bg-gray-700/50 rounded-md p-4 space-y-1.5 text-sm">
+                    <div className="flex justify-between">
+                      <span>{t('tenants.changePlan.remainingDays')}</span>
+                      <span>{preview.proration.remainingDays} / {preview.proration.totalDays}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>{t('tenants.changePlan.credit')}</span>
+                      <span>-{formatUsd(preview.proration.credit)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>{t('tenants.changePlan.charge')}</span>
+                      <span>{formatUsd(preview.proration.charge)}</span>
+                    </div>
+                    <div className="flex justify-between pt-1.5 border-t border-gray-200 dark:border-gray-600 font-semibold text-gray-900 dark:text-white">
+                      <span>{net >= 0 ? t('tenants.changePlan.netDue') : t('tenants.changePlan.netCredit')}</span>
+                      <span>{formatUsd(Math.abs(net))}</span>
+                    </div>
+                  </div>
+
+                  <Checkbox
+                    id="issueInvoice"
+                    checked={willInvoice}
+                    disabled={net <= 0}
+                    onChange={(e) => setIssueInvoice(e.target.checked)}
+                    label={t('tenants.changePlan.issueInvoice')}
+                  />
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-100 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-500 font-medium transition-colors"
+            disabled={isSaving}
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleConfirm()}
+            className="flex-1 px-4 py-2 text-white rounded-md font-medium transition-colors bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={!canSubmit}
+          >
+            {isSaving ? (
+              <span className="flex items-center justify-center">
+                <span className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></span>
+                {t('common.processing') || 'Processing...'}
+              </span>
+            ) : (
+              t('tenants.changePlan.confirm')
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePlanModal;
@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import { Coupon, Plan } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import Icon from './Icon';
+import LoadingButton from './LoadingButton';
+import { NumberInput } from './NumberInput';
+import { Checkbox } from './Checkbox';
+
+export type CouponDraft = Omit<Coupon, 'id' | 'timesRedeemed'> & { id?: number };
+
+interface CouponModalProps {
+  couponToEdit: Coupon | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (coupon: CouponDraft) => void;
+  isLoading?: boolean;
+  /** Plans the coupon can be limited to. */
+  plans: Plan[];
+}
+
+const emptyCoupon: CouponDraft = {
+  code: '',
+  description: '',
+  discountType: 'percent',
+  value: 10,
+  planIds: [],
+  maxRedemptions: null,
+  expiresAt: null,
+  duration: 'once',
+  isActive: true,
+};
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+const CouponModal: React.FC<CouponModalProps> = ({
+  couponToEdit,
+  isOpen,
+  onClose,
+  onSave,
+  isLoading = false,
+  plans,
+}) => {
+  const { t, language } = useI18n();
+  const { showAlert } = useAlert();
+  const [formData, setFormData] = useState<CouponDraft>(emptyCoupon);
+
+  useEffect(() => {
+    setFormData(couponToEdit ? { ...couponToEdit } : { ...emptyCoupon });
+  }, [couponToEdit, isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<CouponDraft>) => setFormData(prev => ({ ...prev, ...patch }));
+
+  const togglePlan = (planId: number, checked: boolean) =>
+    setFormData(prev => ({
+      ...prev,
+      planIds: checked ? [...prev.planIds, planId] : prev.planIds.filter(id => id !== planId),
+    }));
+
+  const validateCouponForm = (): string | null => {
+    if (!CODE_PATTERN.test(formData.code.trim())) {
+      return 'subscriptions.coupons.validation.code';
+    }
+    const value = Number(formData.value);
+    if (formData.discountType === 'percent' && (!Number.isFinite(value) || value <= 0 || value > 100)) {
+      return 'subscriptions.coupons.validation.percent';
+    }
+    if (formData.discountType === 'fixed' && (!Number.isFinite(value) || value <= 0)) {
+      return 'subscriptions.coupons.validation.fixed';
+    }
+    if (formData.maxRedemptions != null && formData.maxRedemptions < 1) {
+      return 'subscriptions.coupons.validation.maxRedemptions';
+    }
+    return null;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const errorKey = validateCouponForm();
+    if (errorKey) {
+      showAlert(t(errorKey), { variant: 'warning' });
+      return;
+    }
+    onSave({
+      ...formData,
+      code: formData.code.trim(),
+      description: formData.description.trim(),
+      expiresAt: formData.expiresAt || null,
+    });
+  };
+
+  const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500";
+  const labelClasses = "block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300";
+  const paidPlans = plans.filter(plan => plan.type === 'Paid');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl transform transition-all" onClick={e => e.stopPropagation()}>
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+            <h2 className="text-xl font-semibold">
+              {couponToEdit ? t('subscriptions.coupons.editTitle') : t('subscriptions.coupons.createTitle')}
+            </h2>
+            <button type="button" onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
+              <Icon name="x" className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="p-8 space-y-6 max-h-[70vh] overflow-y-auto">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="couponCode" className={labelClasses}>{t('subscriptions.coupons.code')}</label>
+                <input
+                  id="couponCode"
+                  value={formData.code}
+                  onChange={(e) => update({ code: e.target.value.toUpperCase() })}
+                  className={`${inputClasses} font-mono`}
+                  dir="ltr"
+                  placeholder="SPRING25"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="couponDescription" className={labelClasses}>{t('subscriptions.coupons.description')}</label>
+                <input
+                  id="couponDescription"
+                  value={formData.description}
+                  onChange={(e) => update({ description: e.target.value })}
+                  className={`${inputClasses} ${language === 'ar' ? 'text-right' : 'text-left'}`}
+                  dir={language === 'ar' ? 'rtl' : 'ltr'}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="couponType" className={labelClasses}>{t('subscriptions.coupons.discountType')}</label>
+                <select
+                  id="couponType"
+                  value={formData.discountType}
+                  onChange={(e) => update({ discountType: e.target.value as CouponDraft['discountType'] })}
+                  className={inputClasses}
+                >
+                  <option value="percent">{t('subscriptions.coupons.type.percent')}</option>
+                  <option value="fixed">{t('subscriptions.coupons.type.fixed')}</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="couponValue" className={labelClasses}>
+                  {formData.discountType === 'percent' ? t('subscriptions.coupons.valuePercent') : t('subscriptions.coupons.valueFixed')}
+                </label>
+                <NumberInput
+                  id="couponValue"
+                  value={formData.value}
+                  onChange={(e) => update({ value: parseFloat(e.target.value) || 0 })}
+                  min={0}
+                  max={formData.discountType === 'percent' ? 100 : undefined}
+                  step={formData.discountType === 'percent' ? 1 : 0.01}
+                  className={inputClasses}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="couponDuration" className={labelClasses}>{t('subscriptions.coupons.duration')}</label>
+                <select
+                  id="couponDuration"
+                  value={formData.duration}
+                  onChange={(e) => update({ duration: e.target.value as CouponDraft['duration'] })}
+                  className={inputClasses}
+                >
+                  <option value="once">{t('subscriptions.coupons.durationOption.once')}</option>
+                  <option value="recurring">{t('subscriptions.coupons.durationOption.recurring')}</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="couponExpires" className={labelClasses}>{t('subscriptions.coupons.expiresAt')}</label>
+                <input
+                  id="couponExpires"
+                  type="date"
+                  value={formData.expiresAt || ''}
+                  onChange={(e) => update({ expiresAt: e.target.value || null })}
+                  className={inputClasses}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="couponMaxRedemptions" className={labelClasses}>{t('subscriptions.coupons.maxRedemptions')}</label>
+              <div className="flex items-center gap-4">
+                <NumberInput
+                  id="couponMaxRedemptions"
+                  value={formData.maxRedemptions ?? ''}
+                  onChange={(e) => update({ maxRedemptions: parseInt(e.target.value) || 1 })}
+                  min={1}
+                  disabled={formData.maxRedemptions == null}
+                  placeholder={t('subscriptions.plans.unlimited')}
+                  className={inputClasses}
+                />
+                <Checkbox
+                  id="couponUnlimited"
+                  checked={formData.maxRedemptions == null}
+                  onChange={(e) => update({ maxRedemptions: e.target.checked ? null : 100 })}
+                  label={t('subscriptions.plans.unlimited')}
+                />
+              </div>
+            </div>
+
+            <div>
+              <p className={labelClasses}>{t('subscriptions.coupons.plans')}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{t('subscriptions.coupons.plansHint')}</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {paidPlans.map(plan => (
+                  <Checkbox
+                    key={plan.id}
+                    id={`couponPlan-${plan.id}`}
+                    checked={formData.planIds.includes(plan.id)}
+                    onChange={(e) => togglePlan(plan.id, e.target.checked)}
+                    label={language === 'ar' && plan.nameAr?.trim() ? plan.nameAr : plan.name}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <Checkbox
+              id="couponActive"
+              checked={formData.isActive}
+              onChange={(e) => update({ isActive: e.target.checked })}
+              label={t('subscriptions.coupons.active')}
+            />
+          </div>
+
+          <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-4 rtl:space-x-reverse bg-gray-50 dark:bg-gray-800/50 rounded-b-lg">
+            <LoadingButton
+              type="button"
+              onClick={onClose}
+              variant="secondary"
+              disabled={isLoading}
+            >
+              {t('common.cancel')}
+            </LoadingButton>
+            <LoadingButton
+              type="submit"
+              variant="primary"
+              isLoading={isLoading}
+              loadingText={couponToEdit ? t('common.updating') : t('common.saving')}
+            >
+              {t('subscriptions.coupons.save')}
+            </LoadingButton>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CouponModal;
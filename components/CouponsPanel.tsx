@@ -0,0 +1,350 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Coupon, CouponRedemption, Plan } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { useUser } from '../context/UserContext';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { buildUpdateDiff, buildAuditChanges } from '../utils/buildUpdateDiff';
+import { withLatinDigits } from '../utils/latinNumerals';
+import { mapApiPlan } from '../utils/planMapping';
+import { mapApiCoupon, mapApiCouponRedemption, couponToApiPayload } from '../utils/billingMapping';
+import { ExportColumn, createExportDateFormatter } from '../utils/exportData';
+import {
+  getAllCouponsAPI,
+  createCouponAPI,
+  updateCouponAPI,
+  deleteCouponAPI,
+  getAllCouponRedemptionsAPI,
+  getAllPlansAPI,
+} from '../services/api';
+import CouponModal, { CouponDraft } from './CouponModal';
+import ExportButton from './ExportButton';
+import RefreshButton from './RefreshButton';
+import LoadingSpinner from './LoadingSpinner';
+import AlertDialog from './AlertDialog';
+import Icon from './Icon';
+
+const todayIso = () => new Date().toISOString().split('T')[0];
+
+/** Why a coupon will not apply right now, or null when it is redeemable. */
+const couponBlockedReason = (coupon: Coupon): 'inactive' | 'expired' | 'exhausted' | null => {
+  if (!coupon.isActive) return 'inactive';
+  if (coupon.expiresAt && coupon.expiresAt < todayIso()) return 'expired';
+  if (coupon.maxRedemptions != null && coupon.timesRedeemed >= coupon.maxRedemptions) return 'exhausted';
+  return null;
+};
+
+const formatMoney = (amount: number, currency = 'USD') => {
+  const n = amount.toLocaleString(undefined, withLatinDigits({ minimumFractionDigits: 2, maximumFractionDigits: 2 }));
+  return currency === 'USD' ? `$${n}` : `${n} ${currency}`;
+};
+
+/** Coupons tab on the Subscriptions page: code management plus a redemption report. */
+const CouponsPanel: React.FC = () => {
+  const { t, language } = useI18n();
+  const { showAlert } = useAlert();
+  const { can } = useUser();
+  const { addLog } = useAuditLog();
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [redemptions, setRedemptions] = useState<CouponRedemption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [couponToDelete, setCouponToDelete] = useState<Coupon | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [reportCouponId, setReportCouponId] = useState<number | ''>('');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [couponsRes, plansRes, redemptionsRes] = await Promise.all([
+        getAllCouponsAPI(),
+        getAllPlansAPI(),
+        getAllCouponRedemptionsAPI({ ordering: '-created_at' }),
+      ]);
+      setCoupons((couponsRes.results || []).map(mapApiCoupon));
+      setPlans((plansRes.results || []).map(mapApiPlan));
+      setRedemptions((redemptionsRes.results || []).map(mapApiCouponRedemption));
+    } catch (error) {
+      console.error('Error loading coupons:', error);
+      showAlert(translateAdminApiError(error, t) || t('subscriptions.coupons.loadError'), { variant: 'error' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showAlert, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const planLabel = (planId: number) => {
+    const plan = plans.find(p => p.id === planId);
+    if (!plan) return `#${planId}`;
+    return language === 'ar' && plan.nameAr?.trim() ? plan.nameAr : plan.name;
+  };
+
+  const formatDiscount = (coupon: Coupon) =>
+    coupon.discountType === 'percent'
+      ? `${coupon.value.toLocaleString(undefined, withLatinDigits())}%`
+      : formatMoney(coupon.value);
+
+  const handleOpenModal = (coupon: Coupon | null) => {
+    setEditingCoupon(coupon);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingCoupon(null);
+  };
+
+  const handleSaveCoupon = async (draft: CouponDraft) => {
+    setIsSaving(true);
+    try {
+      const nextPayload = couponToApiPayload(draft);
+      if (draft.id) {
+        const initialPayload = editingCoupon ? couponToApiPayload(editingCoupon) : {};
+        const diff = buildUpdateDiff(initialPayload, nextPayload);
+        if (Object.keys(diff).length === 0) {
+          handleCloseModal();
+          return;
+        }
+        await updateCouponAPI(draft.id, diff);
+        addLog('audit.log.couponUpdated', { code: draft.code }, {
+          changes: buildAuditChanges(initialPayload, diff),
+        });
+      } else {
+        await createCouponAPI(nextPayload);
+        addLog('audit.log.couponCreated', { code: draft.code });
+      }
+      await load();
+      handleCloseModal();
+    } catch (error) {
+      console.error('Error saving coupon:', error);
+      showAlert(translateAdminApiError(error, t) || t('subscriptions.coupons.saveError'), { variant: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteCoupon = async () => {
+    if (!couponToDelete) return;
+    setIsDeleting(true);
+    try {
+      await deleteCouponAPI(couponToDelete.id);
+      addLog('audit.log.couponDeleted', { code: couponToDelete.code });
+      await load();
+    } catch (error) {
+      console.error('Error deleting coupon:', error);
+      showAlert(translateAdminApiError(error, t) || t('subscriptions.coupons.deleteError'), { variant: 'error' });
+    } finally {
+      setIsDeleting(false);
+      setCouponToDelete(null);
+    }
+  };
+
+  const reportRows = useMemo(
+    () => (reportCouponId === '' ? redemptions : redemptions.filter(r => r.couponId === reportCouponId)),
+    [redemptions, reportCouponId],
+  );
+
+  const reportTotals = useMemo(() => {
+    const byCurrency = new Map<string, number>();
+    reportRows.forEach(r => byCurrency.set(r.currency, (byCurrency.get(r.currency) || 0) + r.discountAmount));
+    return [...byCurrency.entries()].map(([currency, amount]) => formatMoney(amount, currency)).join(' · ');
+  }, [reportRows]);
+
+  const exportColumns = useMemo<ExportColumn<CouponRedemption>[]>(() => {
+    const formatDate = createExportDateFormatter(language);
+    return [
+      { key: 'date', label: t('subscriptions.coupons.report.date'), value: (r) => formatDate(r.redeemedAt) },
+      { key: 'code', label: t('subscriptions.coupons.code'), value: (r) => r.couponCode },
+      { key: 'company', label: t('subscriptions.coupons.report.company'), value: (r) => r.companyName },
+      { key: 'plan', label: t('subscriptions.coupons.report.plan'), value: (r) => r.planName },
+      { key: 'invoice', label: t('subscriptions.coupons.report.invoice'), value: (r) => r.invoiceNumber },
+      { key: 'discount', label: t('subscriptions.coupons.report.discount'), value: (r) => r.discountAmount },
+      { key: 'currency', label: t('export.fields.currency'), value: (r) => r.currency },
+    ];
+  }, [t, language]);
+
+  const thClasses = 'px-6 py-3 text-center';
+  const tdClasses = 'px-6 py-4 text-center';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end gap-2">
+        <RefreshButton onClick={() => void load()} loading={isLoading} />
+        {can('subscriptions', 'write') && (
+        <button onClick={() => handleOpenModal(null)} className="bg-primary-600 text-white px-4 py-2 rounded-md hover:bg-primary-700 flex items-center shadow-md transition-transform transform hover:scale-105">
+          <Icon name="plus" className="w-5 h-5 mx-2" />
+          {t('subscriptions.coupons.create')}
+        </button>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+              <tr>
+                <th className={thClasses}>{t('subscriptions.coupons.code')}</th>
+                <th className={thClasses}>{t('subscriptions.coupons.discount')}</th>
+                <th className={thClasses}>{t('subscriptions.coupons.duration')}</th>
+                <th className={thClasses}>{t('subscriptions.coupons.plans')}</th>
+                <th className={thClasses}>{t('subscriptions.coupons.redemptions')}</th>
+                <th className={thClasses}>{t('subscriptions.coupons.expiresAt')}</th>
+                <th className={thClasses}>{t('subscriptions.subscriptions.table.status')}</th>
+                <th className={thClasses}>{t('subscriptions.subscriptions.table.actions')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={8} className={tdClasses}><LoadingSpinner /></td>
+                </tr>
+              ) : coupons.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className={`${tdClasses} text-gray-500 dark:text-gray-400`}>{t('subscriptions.coupons.empty')}</td>
+                </tr>
+              ) : (
+                coupons.map(coupon => {
+                  const blocked = couponBlockedReason(coupon);
+                  return (
+                    <tr key={coupon.id} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
+                      <td className={`${tdClasses} font-mono font-medium text-gray-900 dark:text-white`}>
+                        {coupon.code}
+                        {coupon.description && <span className="block font-sans text-xs text-gray-500 dark:text-gray-400">{coupon.description}</span>}
+                      </td>
+                      <td className={tdClasses}>{formatDiscount(coupon)}</td>
+                      <td className={tdClasses}>{t(`subscriptions.coupons.durationOption.${coupon.duration}`)}</td>
+                      <td className={tdClasses}>
+                        {coupon.planIds.length === 0 ? t('subscriptions.coupons.allPlans') : coupon.planIds.map(planLabel).join(', ')}
+                      </td>
+                      <td className={tdClasses}>
+                        <button type="button" onClick={() => setReportCouponId(coupon.id)} className="text-primary-600 dark:text-primary-400 hover:underline">
+                          {coupon.timesRedeemed}{coupon.maxRedemptions != null ? ` / ${coupon.maxRedemptions}` : ''}
+                        </button>
+                      </td>
+                      <td className={tdClasses}>{coupon.expiresAt || '—'}</td>
+                      <td className={tdClasses}>
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                          blocked
+                            ? 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+                            : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300'
+                        }`}>
+                          {t(`subscriptions.coupons.state.${blocked || 'active'}`)}
+                        </span>
+                      </td>
+                      <td className={tdClasses}>
+                        <div className="flex items-center justify-center gap-2">
+                          {can('subscriptions', 'write') && (
+                          <button onClick={() => handleOpenModal(coupon)} className="p-2 text-gray-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" title={t('subscriptions.coupons.editTitle')}>
+                            <Icon name="edit" className="w-5 h-5" />
+                          </button>
+                          )}
+                          {can('subscriptions', 'delete') && (
+                          <button onClick={() => setCouponToDelete(coupon)} className="p-2 text-gray-500 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" title={t('subscriptions.coupons.delete')}>
+                            <Icon name="trash" className="w-5 h-5" />
+                          </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{t('subscriptions.coupons.report.title')}</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {t('subscriptions.coupons.report.summary').replace('{count}', String(reportRows.length)).replace('{total}', reportTotals || formatMoney(0))}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={reportCouponId}
+              onChange={(e) => setReportCouponId(e.target.value ? Number(e.target.value) : '')}
+              className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-primary-500 focus:border-primary-500 p-2 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            >
+              <option value="">{t('subscriptions.coupons.report.allCoupons')}</option>
+              {coupons.map(coupon => (
+                <option key={coupon.id} value={coupon.id}>{coupon.code}</option>
+              ))}
+            </select>
+            <ExportButton
+              filename="coupon-redemptions"
+              subtitle={t('subscriptions.coupons.report.title')}
+              columns={exportColumns}
+              loadRows={async () => reportRows}
+              filtersActive={reportCouponId !== ''}
+            />
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+              <tr>
+                <th className={thClasses}>{t('subscriptions.coupons.report.date')}</th>
+                <th className={thClasses}>{t('subscriptions.coupons.code')}</th>
+                <th className={thClasses}>{t('subscriptions.coupons.report.company')}</th>
+                <th className={thClasses}>{t('subscriptions.coupons.report.plan')}</th>
+                <th className={thClasses}>{t('subscriptions.coupons.report.invoice')}</th>
+                <th className={thClasses}>{t('subscriptions.coupons.report.discount')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {!isLoading && reportRows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className={`${tdClasses} text-gray-500 dark:text-gray-400`}>{t('subscriptions.coupons.report.empty')}</td>
+                </tr>
+              ) : (
+                reportRows.map(row => (
+                  <tr key={row.id} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
+                    <td className={tdClasses}>{row.redeemedAt ? row.redeemedAt.slice(0, 10) : '—'}</td>
+                    <td className={`${tdClasses} font-mono`}>{row.couponCode}</td>
+                    <td className={`${tdClasses} font-medium text-gray-900 dark:text-white`}>{row.companyName}</td>
+                    <td className={tdClasses}>{row.planName || '—'}</td>
+                    <td className={tdClasses}>{row.invoiceNumber || '—'}</td>
+                    <td className={tdClasses}>-{formatMoney(row.discountAmount, row.currency)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <CouponModal
+        isOpen={isModalOpen}
+        onClose={handleCloseModal}
+        onSave={handleSaveCoupon}
+        couponToEdit={editingCoupon}
+        isLoading={isSaving}
+        plans={plans}
+      />
+      <AlertDialog
+        isOpen={couponToDelete !== null}
+        onClose={() => !isDeleting && setCouponToDelete(null)}
+        title={t('subscriptions.coupons.delete')}
+        message={t('subscriptions.coupons.deleteConfirm').replace('{code}', couponToDelete?.code || '')}
+        type="warning"
+        confirmText={isDeleting ? t('common.deleting') : t('subscriptions.coupons.delete')}
+        onConfirm={handleDeleteCoupon}
+        showCancel
+        cancelText={t('common.cancel')}
+        disabled={isDeleting}
+      />
+    </div>
+  );
+};
+
+export default CouponsPanel;
@@ -0,0 +1,396 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router';
+import { DunningAction, DunningCase, DunningSchedule } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { useUser } from '../context/UserContext';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { buildUpdateDiff, buildAuditChanges } from '../utils/buildUpdateDiff';
+import { withLatinDigits } from '../utils/latinNumerals';
+import {
+  DUNNING_ACTIONS,
+  DEFAULT_DUNNING_SCHEDULE,
+  currentDunningStep,
+  dunningScheduleToApiPayload,
+  dunningStatusColors,
+  mapApiDunningCase,
+  mapApiDunningSchedule,
+  nextDunningStep,
+  validateDunningSchedule,
+} from '../utils/dunning';
+import {
+  getDunningScheduleAPI,
+  updateDunningScheduleAPI,
+  getAllDunningCasesAPI,
+  dunningCaseActionAPI,
+  type DunningCaseAction,
+} from '../services/api';
+import { ExportColumn, createExportDateFormatter } from '../utils/exportData';
+import ExportButton from './ExportButton';
+import RefreshButton from './RefreshButton';
+import LoadingSpinner from './LoadingSpinner';
+import LoadingButton from './LoadingButton';
+import { NumberInput } from './NumberInput';
+import { Checkbox } from './Checkbox';
+import Icon from './Icon';
+
+type QueueFilter = 'open' | DunningCase['status'] | 'all';
+
+const QUEUE_FILTERS: QueueFilter[] = ['open', 'active', 'paused', 'resolved', 'deactivated', 'all'];
+
+const CASE_ACTION_AUDIT_KEYS: Record<DunningCaseAction, string> = {
+  skip: 'audit.log.dunningStepSkipped',
+  pause: 'audit.log.dunningPaused',
+  resume: 'audit.log.dunningResumed',
+  resolve: 'audit.log.dunningResolved',
+};
+
+const toDay = (value: string | null) => (value ? String(value).slice(0, 10) : '—');
+
+/** Dunning tab on the Subscriptions page: reminder schedule plus the queue of tenants in dunning. */
+const DunningPanel: React.FC = () => {
+  const { t, language } = useI18n();
+  const { showAlert } = useAlert();
+  const { can, scopedCompanyIds } = useUser();
+  const canWrite = can('subscriptions', 'write');
+  const { addLog } = useAuditLog();
+  const [schedule, setSchedule] = useState<DunningSchedule>(DEFAULT_DUNNING_SCHEDULE);
+  const [draft, setDraft] = useState<DunningSchedule>(DEFAULT_DUNNING_SCHEDULE);
+  const [cases, setCases] = useState<DunningCase[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
+  const [pendingCaseId, setPendingCaseId] = useState<number | null>(null);
+  const [searchParams] = useSearchParams();
+  const [filter, setFilter] = useState<QueueFilter>('open');
+  const [search, setSearch] = useState(() => searchParams.get('q') || '');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [scheduleRes, casesRes] = await Promise.all([
+        getDunningScheduleAPI(),
+        getAllDunningCasesAPI({ ordering: 'next_action_at', company__in: scopedCompanyIds }),
+      ]);
+      const loaded = mapApiDunningSchedule(scheduleRes);
+      setSchedule(loaded);
+      setDraft(loaded);
+      setCases((casesRes.results || []).map(mapApiDunningCase));
+    } catch (error) {
+      console.error('Error loading dunning data:', error);
+      showAlert(translateAdminApiError(error, t) || t('subscriptions.dunning.loadError'), { variant: 'error' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showAlert, t, scopedCompanyIds]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const stepLabel = (step?: { day: number; action: DunningAction }) =>
+    step
+      ? t('subscriptions.dunning.stepLabel')
+          .replace('{day}', String(step.day))
+          .replace('{action}', t(`subscriptions.dunning.action.${step.action}`))
+      : '—';
+
+  const formatMoney = (amount: number, currency: string) => {
+    const n = amount.toLocaleString(undefined, withLatinDigits({ minimumFractionDigits: 2, maximumFractionDigits: 2 }));
+    return currency === 'USD' ? `$${n}` : `${n} ${currency}`;
+  };
+
+  const counts = useMemo(() => {
+    const result: Record<QueueFilter, number> = { open: 0, active: 0, paused: 0, resolved: 0, deactivated: 0, all: cases.length };
+    cases.forEach((c) => {
+      result[c.status] += 1;
+      if (c.status === 'active' || c.status === 'paused') result.open += 1;
+    });
+    return result;
+  }, [cases]);
+
+  const visibleCases = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return cases.filter((c) => {
+      if (filter === 'open' && c.status !== 'active' && c.status !== 'paused') return false;
+      if (filter !== 'open' && filter !== 'all' && c.status !== filter) return false;
+      return !term || c.companyName.toLowerCase().includes(term);
+    });
+  }, [cases, filter, search]);
+
+  const exportColumns = useMemo<ExportColumn<DunningCase>[]>(() => {
+    const formatDate = createExportDateFormatter(language);
+    return [
+      { key: 'company', label: t('subscriptions.dunning.table.company'), value: (c) => c.companyName },
+      { key: 'amount', label: t('subscriptions.payments.table.amount'), value: (c) => c.amount },
+      { key: 'currency', label: t('export.fields.currency'), value: (c) => c.currency },
+      { key: 'startedAt', label: t('subscriptions.dunning.table.since'), value: (c) => formatDate(c.startedAt) },
+      { key: 'stage', label: t('subscriptions.dunning.table.stage'), value: (c) => stepLabel(currentDunningStep(c, schedule)) },
+      { key: 'next', label: t('subscriptions.dunning.table.next'), value: (c) => stepLabel(nextDunningStep(c, schedule)) },
+      { key: 'nextAt', label: t('subscriptions.dunning.table.nextAt'), value: (c) => formatDate(c.nextActionAt) },
+      { key: 'status', label: t('subscriptions.dunning.table.status'), value: (c) => t(`subscriptions.dunning.status.${c.status}`) },
+    ];
+  }, [t, language, schedule]);
+
+  const handleCaseAction = async (dunningCase: DunningCase, action: DunningCaseAction) => {
+    setPendingCaseId(dunningCase.id);
+    try {
+      const updated = await dunningCaseActionAPI(dunningCase.id, action);
+      addLog(CASE_ACTION_AUDIT_KEYS[action], { companyName: dunningCase.companyName }, {
+        changes: updated?.status && updated.status !== dunningCase.status
+          ? { status: { before: dunningCase.status, after: updated.status } }
+          : undefined,
+        companyId: dunningCase.companyId,
+      });
+      if (updated && updated.id) {
+        setCases((prev) => prev.map((c) => (c.id === dunningCase.id ? mapApiDunningCase(updated) : c)));
+      } else {
+        await load();
+      }
+    } catch (error) {
+      console.error('Error updating dunning case:', error);
+      showAlert(translateAdminApiError(error, t) || t('subscriptions.dunning.actionError'), { variant: 'error' });
+    } finally {
+      setPendingCaseId(null);
+    }
+  };
+
+  const updateStep = (index: number, patch: Partial<DunningSchedule['steps'][number]>) =>
+    setDraft((prev) => ({ ...prev, steps: prev.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)) }));
+
+  const addStep = () =>
+    setDraft((prev) => {
+      const lastDay = prev.steps.reduce((max, step) => Math.max(max, step.day), 0);
+      return { ...prev, steps: [...prev.steps, { day: lastDay + 1, action: 'email', enabled: true }] };
+    });
+
+  const removeStep = (index: number) =>
+    setDraft((prev) => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }));
+
+  const handleSaveSchedule = async () => {
+    const errorKey = validateDunningSchedule(draft);
+    if (errorKey) {
+      showAlert(t(errorKey), { variant: 'warning' });
+      return;
+    }
+    const initialPayload = dunningScheduleToApiPayload(schedule);
+    const nextPayload = dunningScheduleToApiPayload(draft);
+    const diff = buildUpdateDiff(initialPayload, nextPayload);
+    if (Object.keys(diff).length === 0) return;
+    setIsSavingSchedule(true);
+    try {
+      const saved = await updateDunningScheduleAPI(nextPayload);
+      const next = mapApiDunningSchedule(saved ?? nextPayload);
+      setSchedule(next);
+      setDraft(next);
+      addLog('audit.log.dunningScheduleUpdated', {}, { changes: buildAuditChanges(initialPayload, diff) });
+      showAlert(t('subscriptions.dunning.scheduleSaved'), { variant: 'success' });
+    } catch (error) {
+      console.error('Error saving dunning schedule:', error);
+      showAlert(translateAdminApiError(error, t) || t('subscriptions.dunning.scheduleError'), { variant: 'error' });
+    } finally {
+      setIsSavingSchedule(false);
+    }
+  };
+
+  const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500";
+  const thClasses = 'px-6 py-3 text-center';
+  const tdClasses = 'px-6 py-4 text-center';
+  const actionButtonClasses = 'px-2 py-1 text-xs font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{t('subscriptions.dunning.scheduleTitle')}</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('subscriptions.dunning.scheduleHint')}</p>
+          </div>
+          <Checkbox
+            id="dunningEnabled"
+            disabled={!canWrite}
+            checked={draft.enabled}
+            onChange={(e) => setDraft((prev) => ({ ...prev, enabled: e.target.checked }))}
+            label={t('subscriptions.dunning.enabled')}
+          />
+        </div>
+        <fieldset className="space-y-2" disabled={!canWrite}>
+          {draft.steps.map((step, index) => (
+            <div key={index} className="grid grid-cols-12 items-center gap-3">
+              <div className="col-span-3">
+                <NumberInput
+                  value={step.day}
+                  min={0}
+                  onChange={(e) => updateStep(index, { day: parseInt(e.target.value) || 0 })}
+                  className={inputClasses}
+                />
+              </div>
+              <div className="col-span-5">
+                <select
+                  value={step.action}
+                  onChange={(e) => updateStep(index, { action: e.target.value as DunningAction })}
+                  className={inputClasses}
+                >
+                  {DUNNING_ACTIONS.map((action) => (
+                    <option key={action} value={action}>{t(`subscriptions.dunning.action.${action}`)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-3">
+                <Checkbox
+                  id={`dunningStep-${index}`}
+                  checked={step.enabled}
+                  onChange={(e) => updateStep(index, { enabled: e.target.checked })}
+                  label={t('subscriptions.dunning.stepEnabled')}
+                />
+              </div>
+              <div className="col-span-1 text-end">
+                <button
+                  type="button"
+                  onClick={() => removeStep(index)}
+                  className="p-2 text-gray-500 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"
+                  title={t('subscriptions.dunning.removeStep')}
+                >
+                  <Icon name="trash" className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </fieldset>
+        {canWrite && (
+        <div className="flex justify-between mt-4">
+          <button type="button" onClick={addStep} className="inline-flex items-center gap-1 text-sm font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400">
+            <Icon name="plus" className="w-4 h-4" />
+            {t('subscriptions.dunning.addStep')}
+          </button>
+          <LoadingButton type="button" variant="primary" onClick={() => void handleSaveSchedule()} isLoading={isSavingSchedule} loadingText={t('common.saving')}>
+            {t('subscriptions.dunning.saveSchedule')}
+          </LoadingButton>
+        </div>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="inline-flex flex-wrap rounded-md shadow-sm" role="group">
+            {QUEUE_FILTERS.map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setFilter(value)}
+                className={`px-3 py-2 text-sm font-medium border border-gray-200 dark:border-gray-600 first:rounded-s-md last:rounded-e-md ${
+                  filter === value
+                    ? 'bg-primary-600 text-white border-primary-600'
+                    : 'bg-white text-gray-700 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+                }`}
+              >
+                {t(`subscriptions.dunning.filter.${value}`)} ({counts[value]})
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t('subscriptions.dunning.searchPlaceholder')}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <ExportButton
+              filename="dunning-queue"
+              subtitle={t('subscriptions.tabs.dunning')}
+              columns={exportColumns}
+              loadRows={async () => visibleCases}
+              filtersActive={filter !== 'all' || search.trim() !== ''}
+            />
+            <RefreshButton onClick={() => void load()} loading={isLoading} />
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+              <tr>
+                <th className={thClasses}>{t('subscriptions.dunning.table.company')}</th>
+                <th className={thClasses}>{t('subscriptions.payments.table.amount')}</th>
+                <th className={thClasses}>{t('subscriptions.dunning.table.since')}</th>
+                <th className={thClasses}>{t('subscriptions.dunning.table.stage')}</th>
+                <th className={thClasses}>{t('subscriptions.dunning.table.next')}</th>
+                <th className={thClasses}>{t('subscriptions.dunning.table.status')}</th>
+                <th className={thClasses}>{t('subscriptions.subscriptions.table.actions')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={7} className={tdClasses}><LoadingSpinner /></td>
+                </tr>
+              ) : visibleCases.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className={`${tdClasses} text-gray-500 dark:text-gray-400`}>{t('subscriptions.dunning.empty')}</td>
+                </tr>
+              ) : (
+                visibleCases.map((c) => {
+                  const next = nextDunningStep(c, schedule);
+                  const isOpen = c.status === 'active' || c.status === 'paused';
+                  const isBusy = pendingCaseId === c.id;
+                  return (
+                    <tr key={c.id} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
+                      <td className={`${tdClasses} font-medium text-gray-900 whitespace-nowrap dark:text-white`}>
+                        <Link to={`/tenants/${c.companyId}`} className="hover:text-primary-600 dark:hover:text-primary-400 hover:underline">
+                          {c.companyName}
+                        </Link>
+                      </td>
+                      <td className={tdClasses}>
+                        {formatMoney(c.amount, c.currency)}
+                        <span className="block text-xs">{t(`status.${c.paymentStatus === 'pending' ? 'Pending' : 'Failed'}`)}</span>
+                      </td>
+                      <td className={tdClasses}>{toDay(c.startedAt)}</td>
+                      <td className={tdClasses}>{stepLabel(currentDunningStep(c, schedule))}</td>
+                      <td className={tdClasses}>
+                        {isOpen && next ? (
+                          <>
+                            {stepLabel(next)}
+                            <span className="block text-xs">{toDay(c.nextActionAt)}</span>
+                          </>
+                        ) : '—'}
+                      </td>
+                      <td className={tdClasses}>
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${dunningStatusColors[c.status]}`}>
+                          {t(`subscriptions.dunning.status.${c.status}`)}
+                        </span>
+                      </td>
+                      <td className={tdClasses}>
+                        {isOpen && canWrite ? (
+                          <div className="flex items-center justify-center gap-1.5">
+                            {c.status === 'active' && next && (
+                              <button type="button" disabled={isBusy} onClick={() => void handleCaseAction(c, 'skip')} className={actionButtonClasses}>
+                                {t('subscriptions.dunning.actions.skip')}
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              disabled={isBusy}
+                              onClick={() => void handleCaseAction(c, c.status === 'paused' ? 'resume' : 'pause')}
+                              className={actionButtonClasses}
+                            >
+                              {c.status === 'paused' ? t('subscriptions.dunning.actions.resume') : t('subscriptions.dunning.actions.pause')}
+                            </button>
+                            <button type="button" disabled={isBusy} onClick={() => void handleCaseAction(c, 'resolve')} className={actionButtonClasses}>
+                              {t('subscriptions.dunning.actions.resolve')}
+                            </button>
+                          </div>
+                        ) : '—'}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DunningPanel;
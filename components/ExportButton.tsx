@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import Icon from './Icon';
+import { Checkbox } from './Checkbox';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { ExportColumn, ExportFormat, exportTable } from '../utils/exportData';
+
+interface ExportButtonProps<T> {
+  /** Base file name (no extension); also keys the remembered column selection. */
+  filename: string;
+  /** Shown under the modal title, e.g. the page or tab name. */
+  subtitle?: string;
+  columns: ExportColumn<T>[];
+  /**
+   * Resolve the complete, filtered dataset to export. Call the `getAll*API`
+   * paginators here rather than reusing the rows currently on screen.
+   */
+  loadRows: () => Promise<T[]>;
+  /** Tells the user the page filters will narrow the export. */
+  filtersActive?: boolean;
+  disabled?: boolean;
+  hideLabelOnMobile?: boolean;
+}
+
+const FORMATS: Array<{ id: ExportFormat; labelKey: string }> = [
+  { id: 'xlsx', labelKey: 'export.formats.xlsx' },
+  { id: 'csv', labelKey: 'export.formats.csv' },
+];
+
+const columnsStorageKey = (filename: string) => `export.columns.${filename}`;
+
+const loadSavedColumns = (filename: string, available: string[]): string[] => {
+  try {
+    const raw = localStorage.getItem(columnsStorageKey(filename));
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(parsed)) {
+      const saved = parsed.filter((key): key is string => available.includes(key));
+      if (saved.length > 0) return saved;
+    }
+  } catch {
+    // ignore malformed storage
+  }
+  return available;
+};
+
+/**
+ * Header action that opens a column / format picker and downloads CSV or XLSX.
+ * Sized to match `FilterButton` and `RefreshButton` (`h-9`).
+ */
+function ExportButton<T>({
+  filename,
+  subtitle,
+  columns,
+  loadRows,
+  filtersActive = false,
+  disabled = false,
+  hideLabelOnMobile = true,
+}: ExportButtonProps<T>) {
+  const { t, language } = useI18n();
+  const { showAlert } = useAlert();
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleOpen = () => {
+    setSelectedKeys(loadSavedColumns(filename, columns.map((column) => column.key)));
+    setIsOpen(true);
+  };
+
+  const toggleColumn = (key: string) => {
+    setSelectedKeys((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  const allSelected = selectedKeys.length === columns.length;
+
+  const handleClose = () => {
+    if (!isExporting) setIsOpen(false);
+  };
+
+  const handleExport = async () => {
+    if (selectedKeys.length === 0) return;
+    setIsExporting(true);
+    try {
+      const rows = await loadRows();
+      if (rows.length === 0) {
+        showAlert(t('export.empty'), { variant: 'info' });
+        return;
+      }
+      // Keep the on-screen column order regardless of click order.
+      const selectedColumns = columns.filter((column) => selectedKeys.includes(column.key));
+      exportTable({ filename, format, columns: selectedColumns, rows, language, sheetName: subtitle });
+      localStorage.setItem(columnsStorageKey(filename), JSON.stringify(selectedKeys));
+      showAlert(t('export.success').replace('{count}', String(rows.length)), { variant: 'success' });
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Export failed:', error);
+      showAlert(translateAdminApiError(error, t) || t('export.error'), { variant: 'error' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleOpen}
+        disabled={disabled}
+        title={t('export.button')}
+        className="inline-flex h-9 items-center justify-center gap-1.5 px-3 text-sm font-semibold bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md text-gray-900 dark:text-white shadow-sm hover:border-primary-400 dark:hover:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/30 transition disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Icon name="export" className="w-4 h-4 shrink-0" />
+        <span className={hideLabelOnMobile ? 'hidden sm:inline' : undefined}>{t('export.button')}</span>
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex justify-center items-center p-4" onClick={handleClose}>
+          <div
+            className="relative bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-lg transform transition-all"
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="export-modal-title"
+          >
+            <div className="p-5 border-b border-gray-200 dark:border-gray-700 flex justify-between items-start gap-3">
+              <div>
+                <h2 id="export-modal-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {t('export.title')}
+                </h2>
+                {subtitle && <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{subtitle}</p>}
+              </div>
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={isExporting}
+                className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 shrink-0"
+                aria-label={t('common.close') || 'Close'}
+              >
+                <Icon name="x" className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="p-5 space-y-5">
+              <div>
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('export.format')}</p>
+                <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label={t('export.format')}>
+                  {FORMATS.map((option) => {
+                    const selected = format === option.id;
+                    return (
+                      <button
+                        key={option.id}
+                        type="button"
+                        role="radio"
+                        aria-checked={selected}
+                        disabled={isExporting}
+                        onClick={() => setFormat(option.id)}
+                        className={`rounded-lg border px-3 py-2 text-sm font-medium transition-colors ${
+                          selected
+                            ? 'border-primary-500 bg-primary-50 text-primary-700 ring-1 ring-primary-500 dark:bg-primary-900/30 dark:border-primary-400 dark:text-primary-200'
+                            : 'border-gray-200 text-gray-700 hover:border-gray-300 dark:border-gray-600 dark:text-gray-200 dark:hover:border-gray-500'
+                        }`}
+                      >
+                        {t(option.labelKey)}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('export.columns')}</p>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedKeys(allSelected ? [] : columns.map((column) => column.key))}
+                    disabled={isExporting}
+                    className="text-xs font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300"
+                  >
+                    {allSelected ? t('export.selectNone') : t('export.selectAll')}
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-60 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                  {columns.map((column) => (
+                    <Checkbox
+                      key={column.key}
+                      id={`export-col-${filename}-${column.key}`}
+                      checked={selectedKeys.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                      disabled={isExporting}
+                      label={column.label}
+                    />
+                  ))}
+                </div>
+                {selectedKeys.length === 0 && (
+                  <p className="mt-2 text-xs text-red-600 dark:text-red-400">{t('export.noColumns')}</p>
+                )}
+              </div>
+
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {filtersActive ? t('export.filtersApplied') : t('export.allRows')}
+              </p>
+            </div>
+
+            <div className="p-5 border-t border-gray-200 dark:border-gray-700 flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={isExporting}
+                className="px-4 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleExport()}
+                disabled={isExporting || selectedKeys.length === 0}
+                className="inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium rounded-md bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-60"
+              >
+                <Icon name="download" className="w-4 h-4" />
+                {isExporting ? t('export.exporting') : t('export.confirm')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default ExportButton;
@@ -24,9 +24,11 @@ interface GatewaySettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (gateway: PaymentGateway) => void;
+  /** Without the "edit gateway secrets" action the credentials are shown masked and read-only. */
+  canEditSecrets?: boolean;
 }
 
-const GatewaySettingsModal: React.FC<GatewaySettingsModalProps> = ({ gateway, isOpen, onClose, onSave }) => {
+const GatewaySettingsModal: React.FC<GatewaySettingsModalProps> = ({ gateway, isOpen, onClose, onSave, canEditSecrets = true }) => {
   const { t } = useI18n();
   const [formData, setFormData] = useState<PaymentGateway['config'] | null>(null);
   const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
@@ -306,6 +308,12 @@ const GatewaySettingsModal: React.FC<GatewaySettingsModalProps> = ({ gateway, is
             </div>
             
             <div className="p-8 space-y-6 overflow-y-auto flex-1 min-h-0">
+                {!canEditSecrets && (
+                    <p className="p-3 text-sm rounded-md bg-amber-50 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+                        {t('paymentGateways.modal.secretsReadOnly')}
+                    </p>
+                )}
+                <fieldset disabled={!canEditSecrets} className="space-y-6">
                 {isPaytabs ? (
                     <>
                         <div>
@@ -718,6 +726,7 @@ const GatewaySettingsModal: React.FC<GatewaySettingsModalProps> = ({ gateway, is
                     </div>
                 </div>
                 )}
+                </fieldset>
                 
                 <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
                      <button type="button" onClick={handleTestConnection} disabled={testStatus === 'testing'} className="w-full flex justify-center items-center px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:cursor-wait">
@@ -750,9 +759,11 @@ const GatewaySettingsModal: React.FC<GatewaySettingsModalProps> = ({ gateway, is
                 <button type="button" onClick={onClose} className="px-6 py-2 bg-gray-100 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-500 font-medium">
                 {t('common.cancel')}
                 </button>
+                {canEditSecrets && (
                 <button type="submit" className="px-6 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 font-medium">
                 {t('common.save')}
                 </button>
+                )}
             </div>
         </form>
       </div>
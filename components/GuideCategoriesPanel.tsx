@@ -2,6 +2,7 @@ import React, { useCallback, useEffect, useState } from 'react';
 import { GuideCategory } from '../types';
 import { useI18n } from '../context/i18n';
 import { useAlert } from '../context/AlertContext';
+import { useUser } from '../context/UserContext';
 import { translateAdminApiError } from '../utils/translateApiError';
 import {
   createGuideCategoryAPI,
@@ -34,6 +35,7 @@ const GuideCategoriesPanel: React.FC<GuideCategoriesPanelProps> = ({
 }) => {
   const { t, language } = useI18n();
   const { showAlert } = useAlert();
+  const { can } = useUser();
   const [categories, setCategories] = useState<GuideCategory[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -165,6 +167,7 @@ const GuideCategoriesPanel: React.FC<GuideCategoriesPanelProps> = ({
                 className="group inline-flex items-center gap-1 rounded-full border border-gray-200 bg-gray-50 py-1 ps-3 pe-1 text-sm text-gray-800 dark:border-gray-600 dark:bg-gray-700/60 dark:text-gray-100"
               >
                 <span className="max-w-[10rem] truncate">{displayName(item)}</span>
+                {can('content', 'write') && (
                 <button
                   type="button"
                   onClick={() => openEdit(item)}
@@ -173,6 +176,8 @@ const GuideCategoriesPanel: React.FC<GuideCategoriesPanelProps> = ({
                 >
                   <Icon name="edit" className="w-3.5 h-3.5" />
                 </button>
+                )}
+                {can('content', 'delete') && (
                 <button
                   type="button"
                   onClick={() => setDeleteTarget(item)}
@@ -181,10 +186,12 @@ const GuideCategoriesPanel: React.FC<GuideCategoriesPanelProps> = ({
                 >
                   <Icon name="trash" className="w-3.5 h-3.5" />
                 </button>
+                )}
               </span>
             ))
           )}
         </div>
+        {can('content', 'write') && (
         <button
           type="button"
           onClick={openCreate}
@@ -193,6 +200,7 @@ const GuideCategoriesPanel: React.FC<GuideCategoriesPanelProps> = ({
           <Icon name="plus" className="w-4 h-4" />
           {t('content.categories.add')}
         </button>
+        )}
       </div>
 
       {modalOpen && (
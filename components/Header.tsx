@@ -1,9 +1,12 @@
 
 import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router';
 import Icon from './Icon';
 import { useDarkMode } from '../hooks/useDarkMode';
 import { useI18n } from '../context/i18n';
 import ResetPasswordModal from './ResetPasswordModal';
+import NotificationCenter from './NotificationCenter';
+import { useRealtimeStatus } from '../hooks/useRealtime';
 
 interface HeaderProps {
   setIsSidebarOpen: (isOpen: boolean | ((isOpen: boolean) => boolean)) => void;
@@ -14,9 +17,11 @@ interface HeaderProps {
 const Header: React.FC<HeaderProps> = ({ setIsSidebarOpen, onLogoutClick, isInternetOnline }) => {
   const [colorTheme, toggleTheme] = useDarkMode();
   const { language, setLanguage, t } = useI18n();
+  const navigate = useNavigate();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const realtimeStatus = useRealtimeStatus();
 
   const toggleLanguage = () => {
     const newLang = language === 'ar' ? 'en' : 'ar';
@@ -51,8 +56,18 @@ const Header: React.FC<HeaderProps> = ({ setIsSidebarOpen, onLogoutClick, isInte
               <span className={`inline-block h-2 w-2 rounded-full ${isInternetOnline ? 'bg-green-500' : 'bg-red-500'}`} />
               <span>{isInternetOnline ? t('connectivity.online') : t('connectivity.offline')}</span>
             </div>
+            {isInternetOnline && realtimeStatus !== 'idle' && (
+              <div
+                className="hidden sm:flex items-center gap-1.5 ms-2 text-xs text-gray-500 dark:text-gray-400"
+                title={t(`realtime.statusHint.${realtimeStatus}`)}
+              >
+                <span className={`inline-block h-2 w-2 rounded-full ${realtimeStatus === 'open' ? 'bg-green-500 animate-pulse' : realtimeStatus === 'connecting' ? 'bg-amber-400' : 'bg-gray-400'}`} />
+                <span>{t(`realtime.status.${realtimeStatus}`)}</span>
+              </div>
+            )}
           </div>
           <div className="flex items-center gap-4">
+            <NotificationCenter />
             <button
               onClick={toggleLanguage}
               className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
@@ -89,6 +104,17 @@ const Header: React.FC<HeaderProps> = ({ setIsSidebarOpen, onLogoutClick, isInte
                       >
                           {t('header.changePassword')}
                       </a>
+                      <a
+                          href="/account/security"
+                          onClick={(e) => {
+                              e.preventDefault();
+                              navigate('/account/security');
+                              setIsDropdownOpen(false);
+                          }}
+                          className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                          {t('header.accountSecurity')}
+                      </a>
                       {onLogoutClick && (
                           <a
                               href="#"
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { useI18n } from '../context/i18n';
+import { useUser } from '../context/UserContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { useIdleLock } from '../hooks/useIdleLock';
+import { refreshTokenAPI, verifyPasswordAPI } from '../services/api';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { notifyAdminSessionEnded } from '../utils/sessionEvents';
+import LoadingButton from './LoadingButton';
+import Icon from './Icon';
+
+interface IdleLockScreenProps {
+  /** Idle timeout from system settings; `undefined` while loading, `null` when disabled. */
+  timeoutMinutes: number | null | undefined;
+  onSignOut: () => void;
+}
+
+/**
+ * Countdown warning and lock overlay. Rendered above the routes (not instead of them), so the
+ * current page and any unsaved form input are still there after unlocking.
+ */
+const IdleLockScreen: React.FC<IdleLockScreenProps> = ({ timeoutMinutes, onSignOut }) => {
+  const { t, language } = useI18n();
+  const { user } = useUser();
+  const { addLog } = useAuditLog();
+  const { isLocked, secondsLeft, stayActive, unlock } = useIdleLock(timeoutMinutes);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    if (!isLocked) {
+      setPassword('');
+      setError('');
+    }
+  }, [isLocked]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password || isVerifying) return;
+    setIsVerifying(true);
+    setError('');
+    try {
+      // verify-password never triggers the 401 refresh (a wrong password must not sign the admin out),
+      // so renew the access token first in case it expired while the screen was locked.
+      try {
+        await refreshTokenAPI();
+      } catch {
+        // No usable refresh token: no password can unlock this session, so end it and go to login.
+        notifyAdminSessionEnded('expired');
+        return;
+      }
+      await verifyPasswordAPI(password);
+      addLog('audit.log.idleLockUnlocked', { username: user?.username || '' });
+      unlock();
+    } catch (err) {
+      setError(translateAdminApiError(err, t) || t('idleLock.wrongPassword'));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (isLocked) {
+    return (
+      <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-gray-900/80 backdrop-blur-md">
+        <form
+          onSubmit={handleUnlock}
+          className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-lg shadow-xl p-8 space-y-5"
+        >
+          <div className="flex flex-col items-center text-center gap-2">
+            <div className="p-3 rounded-full bg-primary-100 text-primary-600 dark:bg-primary-900/40 dark:text-primary-300">
+              <Icon name="user" className="w-6 h-6" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t('idleLock.title')}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {t('idleLock.description').replace('{username}', user?.username || '')}
+            </p>
+          </div>
+          <div>
+            <label htmlFor="idle-lock-password" className="sr-only">{t('login.password')}</label>
+            <input
+              id="idle-lock-password"
+              type="password"
+              autoComplete="current-password"
+              autoFocus
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={t('login.password')}
+              dir={language === 'ar' ? 'rtl' : 'ltr'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+          </div>
+          <LoadingButton type="submit" variant="primary" className="w-full" isLoading={isVerifying} loadingText={t('common.loading')}>
+            {t('idleLock.unlock')}
+          </LoadingButton>
+          <button
+            type="button"
+            onClick={onSignOut}
+            className="w-full text-sm text-gray-500 hover:underline dark:text-gray-400"
+          >
+            {t('idleLock.signOut')}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  if (secondsLeft === null) return null;
+
+  return (
+    <div
+      role="alert"
+      className={`fixed bottom-4 ${language === 'ar' ? 'left-4' : 'right-4'} z-[90] max-w-sm bg-white dark:bg-gray-800 border border-amber-300 dark:border-amber-700 rounded-lg shadow-lg p-4 flex items-start gap-3`}
+    >
+      <Icon name="clock" className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+      <div className="flex-1 space-y-2">
+        <p className="text-sm text-gray-700 dark:text-gray-200">
+          {t('idleLock.warning').replace('{seconds}', String(secondsLeft))}
+        </p>
+        <LoadingButton type="button" variant="primary" onClick={stayActive}>
+          {t('idleLock.stay')}
+        </LoadingButton>
+      </div>
+    </div>
+  );
+};
+
+export default IdleLockScreen;
@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Tenant } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { useUser } from '../context/UserContext';
+import { getSupportTicketsAPI, getSystemSettingsAPI, impersonateAPI } from '../services/api';
+import {
+  DEFAULT_IMPERSONATION_MAX_MINUTES,
+  DEFAULT_IMPERSONATION_MINUTES,
+  IMPERSONATION_DURATION_OPTIONS,
+} from '../utils/impersonation';
+import { withLatinDigits } from '../utils/latinNumerals';
+import { translateAdminApiError } from '../utils/translateApiError';
+import LoadingButton from './LoadingButton';
+
+const CRM_APP_URL = import.meta.env.VITE_CRM_APP_URL || '';
+
+interface ImpersonateModalProps {
+  tenant: Tenant | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type TicketOption = { id: number; title: string; status: string };
+
+/** Asks for a reason, optional support ticket and duration, then opens the CRM as the company owner. */
+const ImpersonateModal: React.FC<ImpersonateModalProps> = ({ tenant, isOpen, onClose }) => {
+  const { t, language } = useI18n();
+  const { showAlert } = useAlert();
+  const { addLog } = useAuditLog();
+  const { can } = useUser();
+  const [reason, setReason] = useState('');
+  const [ticketId, setTicketId] = useState<number | ''>('');
+  const [tickets, setTickets] = useState<TicketOption[]>([]);
+  const [minutes, setMinutes] = useState(DEFAULT_IMPERSONATION_MINUTES);
+  const [maxMinutes, setMaxMinutes] = useState(DEFAULT_IMPERSONATION_MAX_MINUTES);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canSeeTickets = can('supportTickets', 'read');
+
+  useEffect(() => {
+    if (!isOpen || !tenant) return;
+    setReason('');
+    setTicketId('');
+    setError('');
+    let cancelled = false;
+    const load = async () => {
+      const [settingsRes, ticketsRes] = await Promise.allSettled([
+        getSystemSettingsAPI(),
+        canSeeTickets ? getSupportTicketsAPI({ company: tenant.id, page_size: 50 }) : Promise.resolve(null),
+      ]);
+      if (cancelled) return;
+      if (settingsRes.status === 'fulfilled' && settingsRes.value) {
+        const max = Number(settingsRes.value.impersonation_max_minutes) || DEFAULT_IMPERSONATION_MAX_MINUTES;
+        const preferred = Number(settingsRes.value.impersonation_default_minutes) || DEFAULT_IMPERSONATION_MINUTES;
+        setMaxMinutes(max);
+        setMinutes(Math.min(preferred, max));
+      }
+      if (ticketsRes.status === 'fulfilled' && ticketsRes.value) {
+        const rows = ((ticketsRes.value.results || []) as any[])
+          // Older API versions ignore the company filter
+          .filter((row) => row.company == null || Number(row.company) === tenant.id)
+          .map((row) => ({ id: Number(row.id), title: String(row.title || ''), status: String(row.status || 'open') }));
+        setTickets(rows);
+      } else {
+        setTickets([]);
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, tenant, canSeeTickets]);
+
+  const durationOptions = useMemo(() => {
+    const options = IMPERSONATION_DURATION_OPTIONS.filter((value) => value <= maxMinutes);
+    if (!options.includes(minutes)) options.push(minutes);
+    return options.sort((a, b) => a - b);
+  }, [maxMinutes, minutes]);
+
+  if (!isOpen || !tenant) return null;
+
+  const formatDuration = (value: number) =>
+    value % 60 === 0
+      ? t('impersonation.hours').replace('{count}', String(value / 60))
+      : t('impersonation.minutes').replace('{count}', String(value));
+
+  const openCrm = async (code: string) => {
+    const url = `${CRM_APP_URL.replace(/\/$/, '')}/impersonate?code=${encodeURIComponent(code)}`;
+    // Do not pass noopener in features: browsers then return null even when the tab
+    // opens successfully, which falsely triggers the "pop-up blocked" + clipboard path.
+    const w = window.open(url, '_blank');
+    if (w) {
+      try {
+        w.opener = null;
+      } catch {
+        // ignore
+      }
+      w.focus();
+      return true;
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      showAlert(`${t('tenants.impersonate.popupBlocked')} ${t('tenants.impersonate.urlCopied')}`, { variant: 'warning' });
+    } catch {
+      showAlert(`${t('tenants.impersonate.popupBlocked')} ${url}`, { variant: 'warning' });
+    }
+    return false;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+    if (!reason.trim()) {
+      setError(t('impersonation.reasonRequired'));
+      return;
+    }
+    if (!CRM_APP_URL) {
+      showAlert(t('tenants.impersonate.noCrmUrl'), { variant: 'warning' });
+      return;
+    }
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const data = await impersonateAPI({
+        company_id: tenant.id,
+        reason: reason.trim(),
+        ticket_id: ticketId === '' ? null : ticketId,
+        duration_minutes: minutes,
+      });
+      if (!data.impersonation_code) {
+        showAlert(t('tenants.impersonate.error'), { variant: 'error' });
+        return;
+      }
+      addLog('audit.log.impersonationStarted', {
+        companyName: tenant.name,
+        duration: formatDuration(minutes),
+        reason: reason.trim(),
+      });
+      const opened = await openCrm(data.impersonation_code);
+      if (opened) {
+        const expires = data.expires_at ? new Date(data.expires_at) : new Date(Date.now() + minutes * 60000);
+        showAlert(
+          t('impersonation.startedUntil').replace(
+            '{time}',
+            expires.toLocaleTimeString(language === 'ar' ? 'ar-EG' : 'en-US', withLatinDigits({ timeStyle: 'short' })),
+          ),
+          { variant: 'success' },
+        );
+      }
+      onClose();
+    } catch (err) {
+      setError(translateAdminApiError(err, t) || t('tenants.impersonate.error'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClasses = 'w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500';
+  const labelClasses = 'block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-center items-center p-4" onClick={() => !isSubmitting && onClose()}>
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">{t('tenants.impersonate.confirmTitle')}</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('tenants.impersonate.confirmMessage')}</p>
+          <p className="mt-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            {tenant.name} — {tenant.owner_username || tenant.owner_email || `#${tenant.owner}`}
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="impersonation-reason" className={labelClasses}>{t('impersonation.reason')} *</label>
+          <textarea
+            id="impersonation-reason"
+            rows={3}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={t('impersonation.reasonPlaceholder')}
+            dir={language === 'ar' ? 'rtl' : 'ltr'}
+            className={inputClasses}
+            autoFocus
+          />
+        </div>
+
+        {canSeeTickets && (
+          <div>
+            <label htmlFor="impersonation-ticket" className={labelClasses}>{t('impersonation.ticket')}</label>
+            <select
+              id="impersonation-ticket"
+              value={ticketId}
+              onChange={(e) => setTicketId(e.target.value ? Number(e.target.value) : '')}
+              className={inputClasses}
+            >
+              <option value="">{t('impersonation.noTicket')}</option>
+              {tickets.map((ticket) => (
+                <option key={ticket.id} value={ticket.id}>
+                  #{ticket.id} {ticket.title} ({t(`tickets.status.${ticket.status}`)})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="impersonation-duration" className={labelClasses}>{t('impersonation.duration')}</label>
+          <select
+            id="impersonation-duration"
+            value={minutes}
+            onChange={(e) => setMinutes(Number(e.target.value))}
+            className={inputClasses}
+          >
+            {durationOptions.map((value) => (
+              <option key={value} value={value}>{formatDuration(value)}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('impersonation.durationHint')}</p>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className={`flex gap-3 ${language === 'ar' ? 'flex-row-reverse' : ''}`}>
+          <LoadingButton type="button" variant="secondary" className="flex-1" onClick={onClose} disabled={isSubmitting}>
+            {t('common.cancel')}
+          </LoadingButton>
+          <LoadingButton type="submit" variant="primary" className="flex-1" isLoading={isSubmitting} loadingText={t('common.loading')}>
+            {t('tenants.actions.impersonate')}
+          </LoadingButton>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ImpersonateModal;
@@ -0,0 +1,256 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router';
+import { ImpersonationSession, ImpersonationStatus } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { useUser } from '../context/UserContext';
+import { getImpersonationSessionsAPI, revokeImpersonationAPI } from '../services/api';
+import { describeUserAgent } from '../utils/adminSessions';
+import { impersonationMinutesUsed, mapApiImpersonationSession } from '../utils/impersonation';
+import { withLatinDigits } from '../utils/latinNumerals';
+import { translateAdminApiError } from '../utils/translateApiError';
+import RefreshButton from './RefreshButton';
+import LoadingSpinner from './LoadingSpinner';
+import AlertDialog from './AlertDialog';
+
+const PAGE_SIZE = 20;
+
+const statusColors: Record<ImpersonationStatus, string> = {
+  active: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300',
+  expired: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  revoked: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  ended: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+};
+
+interface ImpersonationHistoryPanelProps {
+  /** Limit the history to one company (tenant detail page). */
+  companyId?: number;
+}
+
+/** Who impersonated which company, why, for how long and from where; active sessions can be revoked. */
+const ImpersonationHistoryPanel: React.FC<ImpersonationHistoryPanelProps> = ({ companyId }) => {
+  const { t, language } = useI18n();
+  const { showAlert } = useAlert();
+  const { addLog } = useAuditLog();
+  const { canAction, canAccessCompany } = useUser();
+  const [sessions, setSessions] = useState<ImpersonationSession[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<ImpersonationStatus | ''>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [sessionToRevoke, setSessionToRevoke] = useState<ImpersonationSession | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await getImpersonationSessionsAPI({
+        company: companyId,
+        status: statusFilter || undefined,
+        page,
+        page_size: PAGE_SIZE,
+      });
+      const now = new Date();
+      setSessions((data.results || []).map((row) => mapApiImpersonationSession(row, now)).filter((s) => canAccessCompany(s.companyId)));
+      setTotalCount(data.count ?? 0);
+    } catch (error) {
+      console.error('Error loading impersonation history:', error);
+      showAlert(translateAdminApiError(error, t) || t('impersonation.history.loadError'), { variant: 'error' });
+      setSessions([]);
+      setTotalCount(0);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [companyId, statusFilter, page, canAccessCompany, showAlert, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [statusFilter, companyId]);
+
+  const formatDateTime = (iso: string) => {
+    const d = new Date(iso);
+    if (!iso || Number.isNaN(d.getTime())) return '—';
+    return d.toLocaleString(language === 'ar' ? 'ar-EG' : 'en-US', withLatinDigits({ dateStyle: 'medium', timeStyle: 'short' }));
+  };
+
+  const formatUsed = (session: ImpersonationSession) => {
+    const used = impersonationMinutesUsed(session);
+    if (used === null) return '—';
+    return t('impersonation.history.usedOf')
+      .replace('{used}', String(used))
+      .replace('{allowed}', String(session.durationMinutes || '—'));
+  };
+
+  const handleRevoke = async () => {
+    if (!sessionToRevoke) return;
+    setIsRevoking(true);
+    try {
+      await revokeImpersonationAPI(sessionToRevoke.id);
+      addLog('audit.log.impersonationRevoked', {
+        adminName: sessionToRevoke.adminUsername,
+        companyName: sessionToRevoke.companyName,
+      });
+      showAlert(t('impersonation.history.revokeSuccess'), { variant: 'success' });
+      setSessionToRevoke(null);
+      await load();
+    } catch (error) {
+      console.error('Error revoking impersonation:', error);
+      showAlert(translateAdminApiError(error, t) || t('impersonation.history.revokeError'), { variant: 'error' });
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+  const canRevoke = canAction('impersonate');
+  const thClasses = 'px-4 py-3';
+  const tdClasses = 'px-4 py-3 align-top';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{t('impersonation.history.title')}</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('impersonation.history.description')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as ImpersonationStatus | '')}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm dark:bg-gray-700 dark:border-gray-600"
+            aria-label={t('impersonation.history.filterStatus')}
+          >
+            <option value="">{t('impersonation.history.allStatuses')}</option>
+            {(Object.keys(statusColors) as ImpersonationStatus[]).map((status) => (
+              <option key={status} value={status}>{t(`impersonation.status.${status}`)}</option>
+            ))}
+          </select>
+          <RefreshButton onClick={() => void load()} loading={isLoading} />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left rtl:text-right text-gray-500 dark:text-gray-400">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+            <tr>
+              <th className={thClasses}>{t('impersonation.history.admin')}</th>
+              {companyId == null && <th className={thClasses}>{t('impersonation.history.company')}</th>}
+              <th className={thClasses}>{t('impersonation.reason')}</th>
+              <th className={thClasses}>{t('impersonation.history.started')}</th>
+              <th className={thClasses}>{t('impersonation.duration')}</th>
+              <th className={thClasses}>{t('impersonation.history.from')}</th>
+              <th className={thClasses}>{t('impersonation.history.status')}</th>
+              {canRevoke && <th className={thClasses}>{t('impersonation.history.actions')}</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {isLoading && sessions.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-6 text-center"><LoadingSpinner /></td>
+              </tr>
+            ) : sessions.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-6 text-center">{t('impersonation.history.empty')}</td>
+              </tr>
+            ) : (
+              sessions.map((session) => {
+                const { browser, os } = describeUserAgent(session.userAgent);
+                return (
+                  <tr key={session.id} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
+                    <td className={`${tdClasses} font-medium text-gray-900 dark:text-white whitespace-nowrap`}>{session.adminUsername || '—'}</td>
+                    {companyId == null && (
+                      <td className={tdClasses}>
+                        <Link to={`/tenants/${session.companyId}`} className="text-primary-600 hover:underline dark:text-primary-400">
+                          {session.companyName || `#${session.companyId}`}
+                        </Link>
+                        {session.targetUsername && <span className="block text-xs">{session.targetUsername}</span>}
+                      </td>
+                    )}
+                    <td className={`${tdClasses} max-w-xs`}>
+                      <span className="whitespace-pre-line break-words">{session.reason || '—'}</span>
+                      {session.ticketId != null && (
+                        <Link to={`/support-tickets?q=${encodeURIComponent(session.ticketTitle || String(session.ticketId))}`} className="block text-xs text-primary-600 hover:underline dark:text-primary-400">
+                          {t('impersonation.history.ticketRef').replace('{id}', String(session.ticketId))}
+                          {session.ticketTitle && ` — ${session.ticketTitle}`}
+                        </Link>
+                      )}
+                    </td>
+                    <td className={`${tdClasses} whitespace-nowrap`}>
+                      {formatDateTime(session.startedAt)}
+                      <span className="block text-xs">
+                        {session.endedAt
+                          ? t('impersonation.history.endedAt').replace('{time}', formatDateTime(session.endedAt))
+                          : t('impersonation.history.expiresAt').replace('{time}', formatDateTime(session.expiresAt))}
+                      </span>
+                    </td>
+                    <td className={`${tdClasses} whitespace-nowrap`}>{formatUsed(session)}</td>
+                    <td className={`${tdClasses} whitespace-nowrap`}>
+                      <span dir="ltr">{session.ipAddress || '—'}</span>
+                      {session.location && <span className="block text-xs">{session.location}</span>}
+                      {(browser || os) && <span className="block text-xs" title={session.userAgent}>{[browser, os].filter(Boolean).join(' · ')}</span>}
+                    </td>
+                    <td className={tdClasses}>
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusColors[session.status]}`}>
+                        {t(`impersonation.status.${session.status}`)}
+                      </span>
+                      {session.status === 'revoked' && session.endedByUsername && (
+                        <span className="block mt-1 text-xs">{t('impersonation.history.revokedBy').replace('{username}', session.endedByUsername)}</span>
+                      )}
+                    </td>
+                    {canRevoke && (
+                      <td className={tdClasses}>
+                        {session.status === 'active' ? (
+                          <button type="button" onClick={() => setSessionToRevoke(session)} className="text-red-600 hover:underline dark:text-red-400">
+                            {t('impersonation.history.revoke')}
+                          </button>
+                        ) : '—'}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {totalPages > 1 && (
+        <nav className="flex items-center justify-between" aria-label="Table navigation">
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {t('settings.security.pagination.page')} <span className="font-semibold text-gray-900 dark:text-white">{page}</span> {t('settings.security.pagination.of')} <span className="font-semibold text-gray-900 dark:text-white">{totalPages}</span>
+          </span>
+          <div className="flex space-x-2 rtl:space-x-reverse">
+            <button type="button" onClick={() => setPage((p) => Math.max(1, p - 1))} disabled={page === 1 || isLoading} className="px-3 py-1 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-100 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed">
+              {t('settings.security.pagination.previous')}
+            </button>
+            <button type="button" onClick={() => setPage((p) => Math.min(totalPages, p + 1))} disabled={page >= totalPages || isLoading} className="px-3 py-1 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-100 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed">
+              {t('settings.security.pagination.next')}
+            </button>
+          </div>
+        </nav>
+      )}
+
+      <AlertDialog
+        isOpen={sessionToRevoke !== null}
+        onClose={() => !isRevoking && setSessionToRevoke(null)}
+        title={t('impersonation.history.revoke')}
+        message={t('impersonation.history.revokeConfirm')
+          .replace('{admin}', sessionToRevoke?.adminUsername || '')
+          .replace('{company}', sessionToRevoke?.companyName || '')}
+        type="warning"
+        confirmText={isRevoking ? t('common.loading') : t('impersonation.history.revoke')}
+        onConfirm={handleRevoke}
+        showCancel
+        cancelText={t('common.cancel')}
+        disabled={isRevoking}
+      />
+    </div>
+  );
+};
+
+export default ImpersonationHistoryPanel;
@@ -45,6 +45,9 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ invoice, logoUrl, bra
   const issuerLogo = branding?.logo_url || logoUrl;
   const issuerName = branding?.issuer_name?.trim();
   const addr = branding?.issuer_address?.trim();
+  const discount = invoice.discountAmount ?? 0;
+  const hasDiscount = discount > 0;
+  const subtotal = invoice.subtotal ?? invoice.amount + discount;
 
   return (
     <div className="bg-white p-8 md:p-12 text-gray-900 shadow-lg font-sans w-full max-w-[800px] mx-auto">
@@ -127,9 +130,20 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ invoice, logoUrl, bra
                     {invoice.lineDescription || invoice.planName}
                   </td>
                   <td className="px-3 py-4 text-sm text-center text-gray-500">
-                    {formatMoney(invoice.amount, invoice.currency)}
+                    {formatMoney(subtotal, invoice.currency)}
                   </td>
                 </tr>
+                {hasDiscount ? (
+                  <tr>
+                    <td className="py-4 pl-4 pr-3 text-sm text-center text-gray-900 sm:pl-0">
+                      {t('invoice.discount')}
+                      {invoice.couponCode ? <span className="ml-1 font-mono text-gray-500">({invoice.couponCode})</span> : null}
+                    </td>
+                    <td className="px-3 py-4 text-sm text-center text-green-700">
+                      -{formatMoney(discount, invoice.currency)}
+                    </td>
+                  </tr>
+                ) : null}
               </tbody>
             </table>
           </div>
@@ -140,8 +154,14 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ invoice, logoUrl, bra
         <div className="w-full max-w-xs space-y-2">
           <div className="flex justify-between text-gray-600">
             <dt>{t('invoice.subtotal')}</dt>
-            <dd>{formatMoney(invoice.amount, invoice.currency)}</dd>
+            <dd>{formatMoney(subtotal, invoice.currency)}</dd>
           </div>
+          {hasDiscount ? (
+            <div className="flex justify-between text-green-700">
+              <dt>{t('invoice.discount')}</dt>
+              <dd>-{formatMoney(discount, invoice.currency)}</dd>
+            </div>
+          ) : null}
           <div className="flex justify-between font-semibold text-lg border-t-2 border-gray-900 pt-2 text-gray-900">
             <dt>{t('invoice.total')}</dt>
             <dd>{formatMoney(invoice.amount, invoice.currency)}</dd>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { LimitedAdmin } from '../types';
+import { AdminRole, LimitedAdmin } from '../types';
 import { useI18n } from '../context/i18n';
 import { useAlert } from '../context/AlertContext';
 import Icon from './Icon';
@@ -16,6 +16,8 @@ interface LimitedAdminModalProps {
   }) => void;
   editingAdmin?: LimitedAdmin | null;
   isLoading?: boolean;
+  /** Reusable roles; picking one replaces the per-flag checkboxes below. */
+  roles?: AdminRole[];
 }
 
 const LimitedAdminModal: React.FC<LimitedAdminModalProps> = ({
@@ -24,6 +26,7 @@ const LimitedAdminModal: React.FC<LimitedAdminModalProps> = ({
   onSave,
   editingAdmin,
   isLoading = false,
+  roles = [],
 }) => {
   const { t, language } = useI18n();
   const { showAlert } = useAlert();
@@ -44,6 +47,7 @@ const LimitedAdminModal: React.FC<LimitedAdminModalProps> = ({
     can_manage_content: false,
     can_manage_settings: false,
     can_manage_limited_admins: false,
+    role: null as number | null,
   });
 
   useEffect(() => {
@@ -64,6 +68,7 @@ const LimitedAdminModal: React.FC<LimitedAdminModalProps> = ({
         can_manage_content: editingAdmin.can_manage_content,
         can_manage_settings: editingAdmin.can_manage_settings,
         can_manage_limited_admins: editingAdmin.can_manage_limited_admins,
+        role: editingAdmin.role ?? null,
       });
     } else {
       // Reset form for new admin
@@ -83,6 +88,7 @@ const LimitedAdminModal: React.FC<LimitedAdminModalProps> = ({
         can_manage_content: false,
         can_manage_settings: false,
         can_manage_limited_admins: false,
+        role: null,
       });
     }
   }, [editingAdmin, isOpen]);
@@ -237,6 +243,28 @@ const LimitedAdminModal: React.FC<LimitedAdminModalProps> = ({
             <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
               {t('limitedAdmins.modal.permissions') || 'Permissions'}
             </h3>
+            <div className="mb-4">
+              <label htmlFor="role" className={labelClasses}>
+                {t('limitedAdmins.modal.role')}
+              </label>
+              <select
+                id="role"
+                value={formData.role ?? ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value ? Number(e.target.value) : null }))}
+                className={inputClasses}
+              >
+                <option value="">{t('limitedAdmins.modal.customPermissions')}</option>
+                {roles.map(role => (
+                  <option key={role.id} value={role.id}>{role.name}</option>
+                ))}
+              </select>
+              {formData.role !== null && (
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  {t('limitedAdmins.modal.roleHint')}
+                </p>
+              )}
+            </div>
+            {formData.role === null && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <label className="flex items-center gap-2 cursor-pointer">
                 <input
@@ -347,6 +375,7 @@ const LimitedAdminModal: React.FC<LimitedAdminModalProps> = ({
                 </span>
               </label>
             </div>
+            )}
           </div>
 
           <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
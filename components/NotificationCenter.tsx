@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useI18n } from '../context/i18n';
+import { useNotifications } from '../context/NotificationContext';
+import { NOTIFICATION_TYPES, NOTIFICATION_TYPE_STYLES, formatNotificationMessage } from '../utils/notifications';
+import { withLatinDigits } from '../utils/latinNumerals';
+import { Checkbox } from './Checkbox';
+import LoadingSpinner from './LoadingSpinner';
+import Icon from './Icon';
+
+/** Header bell: unread badge, dropdown history with deep links, and per-type / desktop preferences. */
+const NotificationCenter: React.FC = () => {
+  const { t, language } = useI18n();
+  const {
+    notifications,
+    unreadCount,
+    isLoading,
+    hasMore,
+    loadMore,
+    openNotification,
+    markRead,
+    markAllRead,
+    preferences,
+    setTypeMuted,
+    setDesktopEnabled,
+    desktopPermission,
+  } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const formatTime = (iso: string) => {
+    const d = new Date(iso);
+    if (!iso || Number.isNaN(d.getTime())) return '';
+    return d.toLocaleString(language === 'ar' ? 'ar-EG' : 'en-US', withLatinDigits({ dateStyle: 'medium', timeStyle: 'short' }));
+  };
+
+  const desktopHint =
+    desktopPermission === 'unsupported'
+      ? t('notifications.desktop.unsupported')
+      : desktopPermission === 'denied'
+        ? t('notifications.desktop.denied')
+        : t('notifications.desktop.hint');
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="relative p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+        aria-label={unreadCount > 0 ? t('notifications.unreadLabel').replace('{count}', String(unreadCount)) : t('notifications.title')}
+        aria-expanded={isOpen}
+      >
+        <Icon name="bell" className="w-6 h-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -end-0.5 min-w-[1.125rem] px-1 py-0.5 rounded-full bg-red-500 text-white text-[10px] font-semibold leading-none text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className={`absolute ${language === 'ar' ? 'left-0' : 'right-0'} mt-2 w-96 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 rounded-md shadow-lg z-20 ring-1 ring-black ring-opacity-5`}>
+          <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+              {showPreferences ? t('notifications.preferences') : t('notifications.title')}
+            </h3>
+            <div className="flex items-center gap-3">
+              {!showPreferences && unreadCount > 0 && (
+                <button type="button" onClick={() => void markAllRead()} className="text-xs text-primary-600 hover:underline dark:text-primary-400">
+                  {t('notifications.markAllRead')}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setShowPreferences((value) => !value)}
+                className="p-1 rounded text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                title={showPreferences ? t('notifications.backToList') : t('notifications.preferences')}
+                aria-label={showPreferences ? t('notifications.backToList') : t('notifications.preferences')}
+              >
+                <Icon name={showPreferences ? 'bell' : 'settings'} className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {showPreferences ? (
+            <div className="p-4 space-y-4 max-h-[28rem] overflow-y-auto">
+              <div className="space-y-2">
+                <p className="text-xs text-gray-500 dark:text-gray-400">{t('notifications.mutedHint')}</p>
+                {NOTIFICATION_TYPES.map((type) => (
+                  <Checkbox
+                    key={type}
+                    id={`notification-type-${type}`}
+                    checked={!preferences.muted.includes(type)}
+                    onChange={(e) => setTypeMuted(type, !e.target.checked)}
+                    label={t(`notifications.type.${type}`)}
+                  />
+                ))}
+              </div>
+              <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-1">
+                <Checkbox
+                  id="notification-desktop"
+                  checked={preferences.desktop && desktopPermission === 'granted'}
+                  disabled={desktopPermission === 'unsupported' || desktopPermission === 'denied'}
+                  onChange={(e) => void setDesktopEnabled(e.target.checked)}
+                  label={t('notifications.desktop.label')}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">{desktopHint}</p>
+              </div>
+            </div>
+          ) : (
+            <div className="max-h-[28rem] overflow-y-auto">
+              {notifications.length === 0 ? (
+                <div className="px-4 py-10 text-center text-sm text-gray-500 dark:text-gray-400">
+                  {isLoading ? <LoadingSpinner /> : t('notifications.empty')}
+                </div>
+              ) : (
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {notifications.map((notification) => {
+                    const style = notification.type ? NOTIFICATION_TYPE_STYLES[notification.type] : null;
+                    return (
+                      <li key={notification.id} className={notification.readAt ? '' : 'bg-primary-50/60 dark:bg-primary-900/10'}>
+                        <div className="flex items-start gap-3 px-4 py-3">
+                          <span className={`shrink-0 p-1.5 rounded-full ${style?.className ?? 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-300'}`}>
+                            <Icon name={style?.icon ?? 'bell'} className="w-4 h-4" />
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              openNotification(notification);
+                              if (notification.link) setIsOpen(false);
+                            }}
+                            className="flex-1 min-w-0 text-start"
+                          >
+                            {notification.type && (
+                              <p className="text-xs font-semibold text-gray-900 dark:text-white">{t(`notifications.type.${notification.type}`)}</p>
+                            )}
+                            <p className="text-sm text-gray-700 dark:text-gray-200 break-words">{formatNotificationMessage(notification, t)}</p>
+                            <p className="mt-0.5 text-[11px] text-gray-500 dark:text-gray-400">{formatTime(notification.createdAt)}</p>
+                          </button>
+                          {!notification.readAt && (
+                            <button
+                              type="button"
+                              onClick={() => void markRead(notification.id)}
+                              className="shrink-0 mt-1 h-2.5 w-2.5 rounded-full bg-primary-500 hover:ring-4 hover:ring-primary-100 dark:hover:ring-primary-900"
+                              title={t('notifications.markRead')}
+                              aria-label={t('notifications.markRead')}
+                            />
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {hasMore && (
+                <div className="px-4 py-2 border-t border-gray-200 dark:border-gray-700 text-center">
+                  <button
+                    type="button"
+                    onClick={() => void loadMore()}
+                    disabled={isLoading}
+                    className="text-xs text-primary-600 hover:underline disabled:opacity-50 dark:text-primary-400"
+                  >
+                    {isLoading ? t('common.loading') : t('notifications.loadMore')}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationCenter;
@@ -1,6 +1,7 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useI18n } from '../context/i18n';
 import { useAlert } from '../context/AlertContext';
+import { useUser } from '../context/UserContext';
 import { translateAdminApiError } from '../utils/translateApiError';
 import {
   getPageHelpVideoKeysAPI,
@@ -25,6 +26,7 @@ type RowState = {
 const PageHelpVideosPanel: React.FC = () => {
   const { t } = useI18n();
   const { showAlert } = useAlert();
+  const canWrite = useUser().can('content', 'write');
   const [rows, setRows] = useState<RowState[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -144,6 +146,7 @@ const PageHelpVideosPanel: React.FC = () => {
                       dir="ltr"
                       value={row.youtube_url}
                       placeholder="https://www.youtube.com/watch?v=..."
+                      readOnly={!canWrite}
                       onChange={(e) => updateRow(row.page_key, { youtube_url: e.target.value })}
                     />
                   </td>
@@ -152,6 +155,7 @@ const PageHelpVideosPanel: React.FC = () => {
                       className={inputClasses}
                       dir="ltr"
                       value={row.title_en}
+                      readOnly={!canWrite}
                       onChange={(e) => updateRow(row.page_key, { title_en: e.target.value })}
                     />
                   </td>
@@ -160,13 +164,14 @@ const PageHelpVideosPanel: React.FC = () => {
                       className={inputClasses}
                       dir="rtl"
                       value={row.title_ar}
+                      readOnly={!canWrite}
                       onChange={(e) => updateRow(row.page_key, { title_ar: e.target.value })}
                     />
                   </td>
                   <td className="px-4 py-3 text-center">
                     <button
                       type="button"
-                      disabled={!row.dirty || row.saving}
+                      disabled={!canWrite || !row.dirty || row.saving}
                       onClick={() => void saveRow(row.page_key)}
                       className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-40"
                     >
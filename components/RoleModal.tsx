@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AdminRole, PermissionAction, PermissionLevel, PermissionResource } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { PERMISSION_ACTIONS, PERMISSION_LEVELS, PERMISSION_RESOURCES, emptyResourceLevels } from '../utils/permissions';
+import Icon from './Icon';
+import LoadingButton from './LoadingButton';
+import { Checkbox } from './Checkbox';
+
+export type RoleDraft = Omit<AdminRole, 'id' | 'adminCount'> & { id?: number };
+
+interface RoleModalProps {
+  roleToEdit: AdminRole | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (role: RoleDraft) => void;
+  isLoading?: boolean;
+  /** Companies available for scoping. */
+  companies: { id: number; name: string }[];
+}
+
+const emptyRole = (): RoleDraft => ({
+  name: '',
+  description: '',
+  resources: emptyResourceLevels(),
+  actions: [],
+  companyIds: null,
+});
+
+const RoleModal: React.FC<RoleModalProps> = ({
+  roleToEdit,
+  isOpen,
+  onClose,
+  onSave,
+  isLoading = false,
+  companies,
+}) => {
+  const { t, language } = useI18n();
+  const { showAlert } = useAlert();
+  const [formData, setFormData] = useState<RoleDraft>(emptyRole);
+  const [companySearch, setCompanySearch] = useState('');
+
+  useEffect(() => {
+    setFormData(roleToEdit ? { ...roleToEdit, resources: { ...roleToEdit.resources }, actions: [...roleToEdit.actions] } : emptyRole());
+    setCompanySearch('');
+  }, [roleToEdit, isOpen]);
+
+  const filteredCompanies = useMemo(() => {
+    const q = companySearch.trim().toLowerCase();
+    return q ? companies.filter(c => c.name.toLowerCase().includes(q)) : companies;
+  }, [companies, companySearch]);
+
+  if (!isOpen) return null;
+
+  const setLevel = (resource: PermissionResource, level: PermissionLevel) =>
+    setFormData(prev => ({ ...prev, resources: { ...prev.resources, [resource]: level } }));
+
+  const toggleAction = (action: PermissionAction, checked: boolean) =>
+    setFormData(prev => ({
+      ...prev,
+      actions: checked ? [...prev.actions, action] : prev.actions.filter(a => a !== action),
+    }));
+
+  const toggleCompany = (companyId: number, checked: boolean) =>
+    setFormData(prev => {
+      const current = prev.companyIds ?? [];
+      return { ...prev, companyIds: checked ? [...current, companyId] : current.filter(id => id !== companyId) };
+    });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      showAlert(t('roles.validation.name'), { variant: 'warning' });
+      return;
+    }
+    if (formData.companyIds !== null && formData.companyIds.length === 0) {
+      showAlert(t('roles.validation.companies'), { variant: 'warning' });
+      return;
+    }
+    onSave(formData);
+  };
+
+  const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500";
+  const labelClasses = "block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl transform transition-all" onClick={e => e.stopPropagation()}>
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+            <h2 className="text-xl font-semibold">
+              {roleToEdit ? t('roles.editTitle') : t('roles.createTitle')}
+            </h2>
+            <button type="button" onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
+              <Icon name="x" className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="p-8 space-y-6 max-h-[70vh] overflow-y-auto">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="roleName" className={labelClasses}>{t('roles.name')}</label>
+                <input
+                  id="roleName"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  className={inputClasses}
+                  dir={language === 'ar' ? 'rtl' : 'ltr'}
+                  placeholder={t('roles.namePlaceholder')}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="roleDescription" className={labelClasses}>{t('roles.description')}</label>
+                <input
+                  id="roleDescription"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  className={inputClasses}
+                  dir={language === 'ar' ? 'rtl' : 'ltr'}
+                />
+              </div>
+            </div>
+
+            <div>
+              <p className={labelClasses}>{t('roles.resources')}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{t('roles.resourcesHint')}</p>
+              <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-md">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-700 text-xs uppercase text-gray-700 dark:text-gray-300">
+                    <tr>
+                      <th className="px-4 py-2 text-start">{t('roles.resource')}</th>
+                      {PERMISSION_LEVELS.map(level => (
+                        <th key={level} className="px-4 py-2 text-center">{t(`roles.level.${level}`)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {PERMISSION_RESOURCES.map(resource => (
+                      <tr key={resource} className="border-t border-gray-200 dark:border-gray-700">
+                        <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{t(`roles.resourceName.${resource}`)}</td>
+                        {PERMISSION_LEVELS.map(level => (
+                          <td key={level} className="px-4 py-2 text-center">
+                            <input
+                              type="radio"
+                              name={`role-level-${resource}`}
+                              checked={formData.resources[resource] === level}
+                              onChange={() => setLevel(resource, level)}
+                              aria-label={`${t(`roles.resourceName.${resource}`)}: ${t(`roles.level.${level}`)}`}
+                              className="text-primary-600 focus:ring-primary-500"
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div>
+              <p className={labelClasses}>{t('roles.actions')}</p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {PERMISSION_ACTIONS.map(action => (
+                  <Checkbox
+                    key={action}
+                    id={`role-action-${action}`}
+                    checked={formData.actions.includes(action)}
+                    onChange={(e) => toggleAction(action, e.target.checked)}
+                    label={t(`roles.action.${action}`)}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className={labelClasses}>{t('roles.companyScope')}</p>
+              <Checkbox
+                id="role-all-companies"
+                checked={formData.companyIds === null}
+                onChange={(e) => setFormData(prev => ({ ...prev, companyIds: e.target.checked ? null : [] }))}
+                label={t('roles.allCompanies')}
+              />
+              {formData.companyIds !== null && (
+                <div className="mt-3 space-y-2">
+                  <input
+                    type="search"
+                    value={companySearch}
+                    onChange={(e) => setCompanySearch(e.target.value)}
+                    placeholder={t('roles.searchCompanies')}
+                    className={inputClasses}
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {t('roles.companiesSelected').replace('{count}', String(formData.companyIds.length))}
+                  </p>
+                  <div className="max-h-48 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-2 border border-gray-200 dark:border-gray-700 rounded-md p-3">
+                    {filteredCompanies.map(company => (
+                      <Checkbox
+                        key={company.id}
+                        id={`role-company-${company.id}`}
+                        checked={formData.companyIds?.includes(company.id) ?? false}
+                        onChange={(e) => toggleCompany(company.id, e.target.checked)}
+                        label={company.name}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-4 rtl:space-x-reverse bg-gray-50 dark:bg-gray-800/50 rounded-b-lg">
+            <LoadingButton
+              type="button"
+              onClick={onClose}
+              variant="secondary"
+              disabled={isLoading}
+            >
+              {t('common.cancel')}
+            </LoadingButton>
+            <LoadingButton
+              type="submit"
+              variant="primary"
+              isLoading={isLoading}
+              loadingText={roleToEdit ? t('common.updating') : t('common.saving')}
+            >
+              {t('roles.save')}
+            </LoadingButton>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RoleModal;
@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AdminRole } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { useUser } from '../context/UserContext';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { buildUpdateDiff, buildAuditChanges } from '../utils/buildUpdateDiff';
+import { PERMISSION_RESOURCES, mapApiRole, roleToApiPayload } from '../utils/permissions';
+import {
+  getAllAdminRolesAPI,
+  createAdminRoleAPI,
+  updateAdminRoleAPI,
+  deleteAdminRoleAPI,
+  getAllCompaniesAPI,
+} from '../services/api';
+import RoleModal, { RoleDraft } from './RoleModal';
+import RefreshButton from './RefreshButton';
+import LoadingSpinner from './LoadingSpinner';
+import AlertDialog from './AlertDialog';
+import Icon from './Icon';
+
+/** Roles tab in System Settings: reusable permission sets assigned to limited admins. */
+const RolesPanel: React.FC = () => {
+  const { t } = useI18n();
+  const { showAlert } = useAlert();
+  const { addLog } = useAuditLog();
+  const { can } = useUser();
+  const [roles, setRoles] = useState<AdminRole[]>([]);
+  const [companies, setCompanies] = useState<{ id: number; name: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<AdminRole | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [roleToDelete, setRoleToDelete] = useState<AdminRole | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const canWrite = can('limitedAdmins', 'write');
+  const canDelete = can('limitedAdmins', 'delete');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [rolesRes, companiesRes] = await Promise.all([getAllAdminRolesAPI(), getAllCompaniesAPI()]);
+      setRoles((rolesRes.results || []).map(mapApiRole));
+      setCompanies(
+        (companiesRes.results || [])
+          .map((c) => ({ id: Number(c.id), name: String(c.name || `#${c.id}`) }))
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      );
+    } catch (error) {
+      console.error('Error loading roles:', error);
+      showAlert(translateAdminApiError(error, t) || t('roles.loadError'), { variant: 'error' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showAlert, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleOpenModal = (role: AdminRole | null) => {
+    setEditingRole(role);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingRole(null);
+  };
+
+  const handleSaveRole = async (draft: RoleDraft) => {
+    setIsSaving(true);
+    try {
+      const nextPayload = roleToApiPayload(draft);
+      if (draft.id) {
+        const initialPayload = editingRole ? roleToApiPayload(editingRole) : {};
+        const diff = buildUpdateDiff(initialPayload, nextPayload);
+        if (Object.keys(diff).length === 0) {
+          handleCloseModal();
+          return;
+        }
+        await updateAdminRoleAPI(draft.id, diff);
+        addLog('audit.log.roleUpdated', { roleName: draft.name.trim() }, {
+          changes: buildAuditChanges(initialPayload, diff),
+        });
+      } else {
+        await createAdminRoleAPI(nextPayload);
+        addLog('audit.log.roleCreated', { roleName: draft.name.trim() });
+      }
+      await load();
+      handleCloseModal();
+    } catch (error) {
+      console.error('Error saving role:', error);
+      showAlert(translateAdminApiError(error, t) || t('roles.saveError'), { variant: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteRole = async () => {
+    if (!roleToDelete) return;
+    setIsDeleting(true);
+    try {
+      await deleteAdminRoleAPI(roleToDelete.id);
+      addLog('audit.log.roleDeleted', { roleName: roleToDelete.name });
+      await load();
+    } catch (error) {
+      console.error('Error deleting role:', error);
+      showAlert(translateAdminApiError(error, t) || t('roles.deleteError'), { variant: 'error' });
+    } finally {
+      setIsDeleting(false);
+      setRoleToDelete(null);
+    }
+  };
+
+  /** "Tenants: write · Reports: read" for the resources the role can reach. */
+  const accessSummary = (role: AdminRole) => {
+    const parts = PERMISSION_RESOURCES
+      .filter((resource) => role.resources[resource] !== 'none')
+      .map((resource) => `${t(`roles.resourceName.${resource}`)}: ${t(`roles.level.${role.resources[resource]}`)}`);
+    return parts.length ? parts.join(' · ') : t('roles.noAccess');
+  };
+
+  const thClasses = 'px-6 py-3 text-center';
+  const tdClasses = 'px-6 py-4 text-center';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white">{t('roles.title')}</h3>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t('roles.subtitle')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <RefreshButton onClick={() => void load()} loading={isLoading} />
+          {canWrite && (
+            <button onClick={() => handleOpenModal(null)} className="bg-primary-600 text-white px-4 py-2 rounded-md hover:bg-primary-700 flex items-center shadow-md transition-transform transform hover:scale-105">
+              <Icon name="plus" className="w-5 h-5 mx-2" />
+              {t('roles.create')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+            <tr>
+              <th className={thClasses}>{t('roles.name')}</th>
+              <th className={thClasses}>{t('roles.resources')}</th>
+              <th className={thClasses}>{t('roles.actions')}</th>
+              <th className={thClasses}>{t('roles.companyScope')}</th>
+              <th className={thClasses}>{t('roles.admins')}</th>
+              {(canWrite || canDelete) && <th className={thClasses}>{t('limitedAdmins.table.actions')}</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {isLoading ? (
+              <tr>
+                <td colSpan={6} className={tdClasses}><LoadingSpinner /></td>
+              </tr>
+            ) : roles.length === 0 ? (
+              <tr>
+                <td colSpan={6} className={`${tdClasses} text-gray-500 dark:text-gray-400`}>{t('roles.empty')}</td>
+              </tr>
+            ) : (
+              roles.map((role) => (
+                <tr key={role.id} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
+                  <td className={`${tdClasses} font-medium text-gray-900 dark:text-white`}>
+                    {role.name}
+                    {role.description && <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">{role.description}</span>}
+                  </td>
+                  <td className={`${tdClasses} text-xs max-w-xs`}>{accessSummary(role)}</td>
+                  <td className={`${tdClasses} text-xs`}>
+                    {role.actions.length ? role.actions.map((action) => t(`roles.action.${action}`)).join(', ') : '—'}
+                  </td>
+                  <td className={tdClasses}>
+                    {role.companyIds === null
+                      ? t('roles.allCompanies')
+                      : t('roles.companiesSelected').replace('{count}', String(role.companyIds.length))}
+                  </td>
+                  <td className={tdClasses}>{role.adminCount}</td>
+                  {(canWrite || canDelete) && (
+                    <td className={tdClasses}>
+                      <div className="flex items-center justify-center gap-2">
+                        {canWrite && (
+                          <button onClick={() => handleOpenModal(role)} className="p-2 text-gray-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" title={t('roles.editTitle')}>
+                            <Icon name="edit" className="w-5 h-5" />
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            onClick={() => setRoleToDelete(role)}
+                            disabled={role.adminCount > 0}
+                            className="p-2 text-gray-500 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                            title={role.adminCount > 0 ? t('roles.deleteInUse') : t('roles.delete')}
+                          >
+                            <Icon name="trash" className="w-5 h-5" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <RoleModal
+        isOpen={isModalOpen}
+        onClose={handleCloseModal}
+        onSave={handleSaveRole}
+        roleToEdit={editingRole}
+        isLoading={isSaving}
+        companies={companies}
+      />
+
+      <AlertDialog
+        isOpen={roleToDelete !== null}
+        onClose={() => !isDeleting && setRoleToDelete(null)}
+        title={t('roles.delete')}
+        message={t('roles.deleteConfirm').replace('{name}', roleToDelete?.name || '')}
+        type="warning"
+        confirmText={isDeleting ? t('common.deleting') : t('roles.delete')}
+        onConfirm={handleDeleteRole}
+        showCancel
+        cancelText={t('common.cancel')}
+        disabled={isDeleting}
+      />
+    </div>
+  );
+};
+
+export default RolesPanel;
@@ -0,0 +1,282 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { AdminSession } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { useUser } from '../context/UserContext';
+import {
+  getAllAdminSessionsAPI,
+  getMySessionsAPI,
+  revokeAllSessionsAPI,
+  revokeSessionAPI,
+} from '../services/api';
+import { describeUserAgent, elapsedParts, mapApiAdminSession } from '../utils/adminSessions';
+import { notifyAdminSessionEnded } from '../utils/sessionEvents';
+import { withLatinDigits } from '../utils/latinNumerals';
+import { translateAdminApiError } from '../utils/translateApiError';
+import RefreshButton from './RefreshButton';
+import LoadingButton from './LoadingButton';
+import LoadingSpinner from './LoadingSpinner';
+import AlertDialog from './AlertDialog';
+
+type SessionScope = 'mine' | 'limitedAdmins';
+
+/** What the confirm dialog is about to revoke. `all` with a userId targets another admin's sessions. */
+type PendingRevoke =
+  | { kind: 'one'; session: AdminSession }
+  | { kind: 'all'; userId?: number; username?: string };
+
+const SessionsPanel: React.FC = () => {
+  const { t, language } = useI18n();
+  const { showAlert } = useAlert();
+  const { addLog } = useAuditLog();
+  const { user, isSuperAdmin } = useUser();
+  const [scope, setScope] = useState<SessionScope>('mine');
+  const [sessions, setSessions] = useState<AdminSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [userFilter, setUserFilter] = useState<number | ''>('');
+  const [pendingRevoke, setPendingRevoke] = useState<PendingRevoke | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = scope === 'mine' ? await getMySessionsAPI() : await getAllAdminSessionsAPI();
+      setSessions((data.results || []).map(mapApiAdminSession));
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+      showAlert(translateAdminApiError(error, t) || t('account.sessions.loadError'), { variant: 'error' });
+      setSessions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [scope, showAlert, t]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  useEffect(() => {
+    setUserFilter('');
+  }, [scope]);
+
+  const admins = useMemo(() => {
+    const byId = new Map<number, string>();
+    sessions.forEach((s) => byId.set(s.userId, s.username));
+    return Array.from(byId.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [sessions]);
+
+  const visibleSessions = useMemo(
+    () =>
+      [...sessions]
+        .filter((s) => userFilter === '' || s.userId === userFilter)
+        .sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent) || b.lastActivityAt.localeCompare(a.lastActivityAt)),
+    [sessions, userFilter],
+  );
+
+  const formatDateTime = (iso: string) => {
+    const d = new Date(iso);
+    if (!iso || Number.isNaN(d.getTime())) return '—';
+    return d.toLocaleString(language === 'ar' ? 'ar-EG' : 'en-US', withLatinDigits({ dateStyle: 'medium', timeStyle: 'short' }));
+  };
+
+  const formatAge = (iso: string) => {
+    const parts = elapsedParts(iso);
+    if (!parts) return '—';
+    if (parts.days > 0) {
+      return t('account.sessions.age.daysHours').replace('{days}', String(parts.days)).replace('{hours}', String(parts.hours));
+    }
+    if (parts.hours > 0) {
+      return t('account.sessions.age.hoursMinutes').replace('{hours}', String(parts.hours)).replace('{minutes}', String(parts.minutes));
+    }
+    return t('account.sessions.age.minutes').replace('{minutes}', String(parts.minutes));
+  };
+
+  const deviceLabel = (session: AdminSession) => {
+    const { browser, os } = describeUserAgent(session.userAgent);
+    if (browser && os) return t('account.sessions.browserOnOs').replace('{browser}', browser).replace('{os}', os);
+    return browser || os || t('account.sessions.unknownDevice');
+  };
+
+  const handleConfirmRevoke = async () => {
+    if (!pendingRevoke) return;
+    setIsRevoking(true);
+    // Revoking the session this browser is using signs us out; App handles the redirect on the event
+    let endsOwnSession = false;
+    try {
+      if (pendingRevoke.kind === 'one') {
+        const { session } = pendingRevoke;
+        await revokeSessionAPI(session.id);
+        addLog('audit.log.sessionRevoked', {
+          username: session.username || user?.username || '',
+          device: deviceLabel(session),
+          ip: session.ipAddress || '—',
+        });
+        endsOwnSession = session.isCurrent;
+      } else {
+        await revokeAllSessionsAPI(pendingRevoke.userId != null ? { user: pendingRevoke.userId } : undefined);
+        addLog('audit.log.sessionsRevokedAll', { username: pendingRevoke.username || user?.username || '' });
+        endsOwnSession = pendingRevoke.userId == null || pendingRevoke.userId === user?.id;
+      }
+      setPendingRevoke(null);
+      if (endsOwnSession) {
+        notifyAdminSessionEnded('revoked');
+        return;
+      }
+      showAlert(t('account.sessions.revokeSuccess'), { variant: 'success' });
+      await loadSessions();
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      showAlert(translateAdminApiError(error, t) || t('account.sessions.revokeError'), { variant: 'error' });
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const selectedAdminName = admins.find(([id]) => id === userFilter)?.[1] || '';
+  const isAllScope = scope === 'limitedAdmins';
+  const thClasses = 'px-4 py-3';
+  const tdClasses = 'px-4 py-3 whitespace-nowrap';
+
+  const confirmMessage = () => {
+    if (!pendingRevoke) return '';
+    if (pendingRevoke.kind === 'one') {
+      return pendingRevoke.session.isCurrent
+        ? t('account.sessions.confirmRevokeCurrent')
+        : t('account.sessions.confirmRevoke').replace('{device}', deviceLabel(pendingRevoke.session));
+    }
+    return pendingRevoke.userId != null
+      ? t('account.sessions.confirmRevokeAllFor').replace('{username}', pendingRevoke.username || '')
+      : t('account.sessions.confirmRevokeAll');
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t('account.sessions.title')}</h2>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t('account.sessions.description')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <RefreshButton onClick={loadSessions} loading={isLoading} />
+          {!isAllScope && (
+            <LoadingButton type="button" variant="danger" onClick={() => setPendingRevoke({ kind: 'all' })}>
+              {t('account.sessions.signOutEverywhere')}
+            </LoadingButton>
+          )}
+        </div>
+      </div>
+
+      {isSuperAdmin() && (
+        <div className="flex flex-wrap items-center gap-2">
+          {(['mine', 'limitedAdmins'] as SessionScope[]).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setScope(value)}
+              className={`px-3 py-1.5 rounded-full text-sm font-medium ${scope === value ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600'}`}
+            >
+              {t(`account.sessions.scope.${value}`)}
+            </button>
+          ))}
+          {isAllScope && (
+            <>
+              <select
+                value={userFilter}
+                onChange={(e) => setUserFilter(e.target.value ? Number(e.target.value) : '')}
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-sm dark:bg-gray-700 dark:border-gray-600"
+                aria-label={t('account.sessions.filterAdmin')}
+              >
+                <option value="">{t('account.sessions.allAdmins')}</option>
+                {admins.map(([id, name]) => (
+                  <option key={id} value={id}>{name}</option>
+                ))}
+              </select>
+              {userFilter !== '' && (
+                <LoadingButton
+                  type="button"
+                  variant="danger"
+                  onClick={() => setPendingRevoke({ kind: 'all', userId: userFilter, username: selectedAdminName })}
+                >
+                  {t('account.sessions.signOutAdminEverywhere').replace('{username}', selectedAdminName)}
+                </LoadingButton>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {isLoading && sessions.length === 0 ? (
+        <div className="flex items-center gap-2 text-gray-500"><LoadingSpinner /><span>{t('common.loading')}</span></div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left rtl:text-right text-gray-500 dark:text-gray-400">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+              <tr>
+                {isAllScope && <th className={thClasses}>{t('account.sessions.table.admin')}</th>}
+                <th className={thClasses}>{t('account.sessions.table.device')}</th>
+                <th className={thClasses}>{t('account.sessions.table.ip')}</th>
+                <th className={thClasses}>{t('account.sessions.table.lastActivity')}</th>
+                <th className={thClasses}>{t('account.sessions.table.age')}</th>
+                <th className={thClasses}>{t('account.sessions.table.actions')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleSessions.length === 0 ? (
+                <tr>
+                  <td colSpan={isAllScope ? 6 : 5} className="px-4 py-6 text-center">{t('account.sessions.empty')}</td>
+                </tr>
+              ) : (
+                visibleSessions.map((session) => (
+                  <tr key={session.id} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
+                    {isAllScope && <td className={`${tdClasses} font-medium text-gray-900 dark:text-white`}>{session.username || '—'}</td>}
+                    <td className={tdClasses}>
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-900 dark:text-white" title={session.userAgent}>{deviceLabel(session)}</span>
+                        {session.isCurrent && (
+                          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+                            {t('account.sessions.current')}
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className={tdClasses}>
+                      <span dir="ltr">{session.ipAddress || '—'}</span>
+                      {session.location && <span className="block text-xs">{session.location}</span>}
+                    </td>
+                    <td className={tdClasses}>{formatDateTime(session.lastActivityAt)}</td>
+                    <td className={tdClasses} title={formatDateTime(session.createdAt)}>{formatAge(session.createdAt)}</td>
+                    <td className={tdClasses}>
+                      <button
+                        type="button"
+                        onClick={() => setPendingRevoke({ kind: 'one', session })}
+                        className="text-red-600 hover:underline dark:text-red-400"
+                      >
+                        {t('account.sessions.revoke')}
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <AlertDialog
+        isOpen={pendingRevoke !== null}
+        onClose={() => !isRevoking && setPendingRevoke(null)}
+        title={pendingRevoke?.kind === 'one' ? t('account.sessions.revoke') : t('account.sessions.signOutEverywhere')}
+        message={confirmMessage()}
+        type="warning"
+        confirmText={isRevoking ? t('common.loading') : t('account.sessions.revoke')}
+        onConfirm={handleConfirmRevoke}
+        showCancel
+        cancelText={t('common.cancel')}
+        disabled={isRevoking}
+      />
+    </section>
+  );
+};
+
+export default SessionsPanel;
@@ -1,9 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { NavLink, useLocation } from 'react-router';
 import Icon from './Icon';
 import { useI18n } from '../context/i18n';
 import { useDarkMode } from '../hooks/useDarkMode';
 import { useUser } from '../context/UserContext';
+import { useRealtimeEvent } from '../hooks/useRealtime';
+import { getSupportTicketsAPI, getWhatsAppConversationsAPI } from '../services/api';
 
 type PermissionKey = 'can_view_dashboard' | 'can_manage_tenants' | 'can_manage_subscriptions' | 'can_manage_payment_gateways' | 'can_view_reports' | 'can_manage_communication' | 'can_manage_content' | 'can_manage_settings' | 'can_manage_support_tickets';
 
@@ -15,7 +17,7 @@ interface SidebarProps {
 
 const Sidebar: React.FC<SidebarProps> = ({ activePage, isSidebarOpen, setIsSidebarOpen }) => {
   const { t, language } = useI18n();
-  const { hasPermission, isSuperAdmin } = useUser();
+  const { hasPermission, isSuperAdmin, canAccessCompany, scopedCompanyIds } = useUser();
   const [colorTheme] = useDarkMode();
   const location = useLocation();
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -38,6 +40,57 @@ const Sidebar: React.FC<SidebarProps> = ({ activePage, isSidebarOpen, setIsSideb
 
   const menuItems = allMenuItems.filter((item) => canAccess(item.permission));
   const canAccessSettings = canAccess('can_manage_settings');
+  const canSeeTickets = canAccess('can_manage_support_tickets');
+  const canSeeWhatsApp = canAccess('can_manage_tenants');
+
+  // Live badges: open tickets, and WhatsApp conversations with unread messages
+  const [openTicketCount, setOpenTicketCount] = useState(0);
+  const [unreadWhatsAppCount, setUnreadWhatsAppCount] = useState(0);
+
+  const loadOpenTicketCount = useCallback(async () => {
+    if (!canSeeTickets) return;
+    try {
+      const res = await getSupportTicketsAPI({ status: 'open', page_size: 1, company__in: scopedCompanyIds });
+      setOpenTicketCount(res.count ?? 0);
+    } catch {
+      // Keep the last known count
+    }
+  }, [canSeeTickets, scopedCompanyIds]);
+
+  useEffect(() => {
+    void loadOpenTicketCount();
+  }, [loadOpenTicketCount]);
+
+  useRealtimeEvent(['ticket.created', 'ticket.status_changed', 'resync'], () => {
+    void loadOpenTicketCount();
+  });
+
+  const loadUnreadWhatsAppCount = useCallback(async () => {
+    if (!canSeeWhatsApp) return;
+    try {
+      const res = await getWhatsAppConversationsAPI({ unread: true, page_size: 1, company__in: scopedCompanyIds });
+      setUnreadWhatsAppCount(res.count ?? 0);
+    } catch {
+      // Keep the last known count
+    }
+  }, [canSeeWhatsApp, scopedCompanyIds]);
+
+  // Refetched on navigation too, so threads read in the inbox drop off the badge
+  useEffect(() => {
+    void loadUnreadWhatsAppCount();
+  }, [loadUnreadWhatsAppCount, location.pathname]);
+
+  useRealtimeEvent(['whatsapp.message_received', 'resync'], (event) => {
+    if (event.type === 'whatsapp.message_received') {
+      if (event.message.direction === 'outbound' || !canAccessCompany(event.company_id)) return;
+    }
+    void loadUnreadWhatsAppCount();
+  });
+
+  const badges: Record<string, number> = {
+    '/support-tickets': openTicketCount,
+    '/tenant-whatsapp': unreadWhatsAppCount,
+  };
   
   // Monitor dark mode changes
   useEffect(() => {
@@ -115,6 +168,14 @@ const Sidebar: React.FC<SidebarProps> = ({ activePage, isSidebarOpen, setIsSideb
               >
                 <Icon name={item.icon} className="w-5 h-5 flex-shrink-0" />
                 <span>{t(item.labelKey)}</span>
+                {badges[item.path] > 0 && (
+                  <span
+                    className="ms-auto min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-red-500 text-white text-[11px] font-semibold leading-none text-center"
+                    aria-label={t('sidebar.badgeCount').replace('{count}', String(badges[item.path]))}
+                  >
+                    {badges[item.path] > 99 ? '99+' : badges[item.path]}
+                  </span>
+                )}
               </NavLink>
             );
           })}
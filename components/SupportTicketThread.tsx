@@ -0,0 +1,397 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { SupportTicket, TicketAttachment, TicketMessage, TicketStatus } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { useRealtimeEvent } from '../hooks/useRealtime';
+import { createSupportTicketMessageAPI, getSupportTicketMessagesAPI } from '../services/api';
+import { withLatinDigits } from '../utils/latinNumerals';
+import { translateAdminApiError } from '../utils/translateApiError';
+import {
+  WhatsAppFormattedText,
+  WhatsAppFormatToolbar,
+  WhatsAppFormatKind,
+  applyWhatsAppFormatToInput,
+} from '../utils/whatsappFormatting';
+import { insertTextAtCursor } from '../utils/cannedResponses';
+import { Checkbox } from './Checkbox';
+import CannedResponsePicker from './CannedResponsePicker';
+import LoadingButton from './LoadingButton';
+import LoadingSpinner from './LoadingSpinner';
+import Icon from './Icon';
+
+const MAX_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const ATTACHMENT_ACCEPT = 'image/*,application/pdf,.txt,.csv,.doc,.docx,.xls,.xlsx';
+
+const isImageAttachment = (att: TicketAttachment) =>
+  att.content_type ? att.content_type.startsWith('image/') : /\.(png|jpe?g|gif|webp|bmp|svg)(\?|$)/i.test(att.name || att.url);
+
+/** A malformed escape in the URL falls back to the raw file name rather than failing the render. */
+const decodeFileName = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+const attachmentName = (att: TicketAttachment) =>
+  att.name || decodeFileName(att.url.split('?')[0].split('/').pop() || '') || `#${att.id}`;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+interface SupportTicketThreadProps {
+  ticketId: number;
+  /** Tenant the canned response variables are filled from. */
+  companyId: number | null;
+  /** Replies, notes and attachments need `supportTickets: write`; the thread is readable without it. */
+  canReply: boolean;
+  /** Called when a message changed the ticket on the server (status, first response time). */
+  onTicketUpdate: (patch: Partial<SupportTicket>) => void;
+}
+
+/** Ticket conversation: staff/tenant replies and internal notes, with a composer for both. */
+const SupportTicketThread: React.FC<SupportTicketThreadProps> = ({ ticketId, companyId, canReply, onTicketUpdate }) => {
+  const { t, language } = useI18n();
+  const { showAlert } = useAlert();
+  const [messages, setMessages] = useState<TicketMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isInternal, setIsInternal] = useState(false);
+  const [notifyEmail, setNotifyEmail] = useState(true);
+  const [notifyWhatsApp, setNotifyWhatsApp] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+  /** Status from the last inserted macro, applied together with the next message. */
+  const [macroStatus, setMacroStatus] = useState<TicketStatus | null>(null);
+  const [sending, setSending] = useState(false);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  const loadMessages = useCallback(async (silent = false) => {
+    if (!silent) setLoading(true);
+    try {
+      const res = await getSupportTicketMessagesAPI(ticketId);
+      setMessages(res.results || []);
+      setLoadError(false);
+    } catch (error) {
+      console.error('Error loading ticket messages:', error);
+      if (!silent) setLoadError(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [ticketId]);
+
+  useEffect(() => {
+    setMessages([]);
+    setDraft('');
+    setFiles([]);
+    setIsInternal(false);
+    setMacroStatus(null);
+    void loadMessages();
+  }, [loadMessages]);
+
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length]);
+
+  useRealtimeEvent(['ticket.message_created', 'resync'], (event) => {
+    if (event.type === 'resync') {
+      void loadMessages(true);
+      return;
+    }
+    if (event.ticket_id !== ticketId) return;
+    const message = event.message as TicketMessage;
+    setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+    if (event.ticket_status) onTicketUpdate({ status: event.ticket_status as TicketStatus });
+  });
+
+  const handleFilesPicked = (picked: FileList | null) => {
+    if (!picked) return;
+    const tooLarge = Array.from(picked).filter((file) => file.size > MAX_ATTACHMENT_BYTES);
+    const accepted = Array.from(picked).filter((file) => file.size <= MAX_ATTACHMENT_BYTES);
+    const next = [...files, ...accepted];
+    if (tooLarge.length > 0) {
+      showAlert(
+        t('tickets.thread.fileTooLarge')
+          .replace('{names}', tooLarge.map((file) => file.name).join(', '))
+          .replace('{max}', formatBytes(MAX_ATTACHMENT_BYTES)),
+        { variant: 'warning' },
+      );
+    } else if (next.length > MAX_ATTACHMENTS) {
+      showAlert(t('tickets.thread.tooManyFiles').replace('{max}', String(MAX_ATTACHMENTS)), { variant: 'warning' });
+    }
+    setFiles(next.slice(0, MAX_ATTACHMENTS));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const canSend = canReply && !sending && (draft.trim().length > 0 || files.length > 0);
+
+  const handleSend = async () => {
+    if (!canSend) return;
+    setSending(true);
+    try {
+      const result = await createSupportTicketMessageAPI(ticketId, {
+        body: draft.trim(),
+        is_internal: isInternal,
+        notify_email: notifyEmail,
+        notify_whatsapp: notifyWhatsApp,
+        attachments: files,
+        status: macroStatus ?? undefined,
+      });
+      if (result?.message) {
+        setMessages((prev) => (prev.some((m) => m.id === result.message.id) ? prev : [...prev, result.message]));
+      } else {
+        await loadMessages(true);
+      }
+      if (result?.ticket) onTicketUpdate(result.ticket);
+      else if (macroStatus) onTicketUpdate({ status: macroStatus });
+      setDraft('');
+      setFiles([]);
+      setIsInternal(false);
+      setMacroStatus(null);
+    } catch (error) {
+      showAlert(translateAdminApiError(error, t) || t('tickets.thread.sendError'), { variant: 'error' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const formatTime = (iso: string) =>
+    iso ? new Date(iso).toLocaleString(language === 'ar' ? 'ar-EG' : 'en-US', withLatinDigits({ dateStyle: 'medium', timeStyle: 'short' })) : '';
+
+  const bubbleClass = (message: TicketMessage) => {
+    if (message.is_internal) {
+      return 'bg-amber-50 dark:bg-amber-900/20 border border-dashed border-amber-300 dark:border-amber-700 text-gray-900 dark:text-gray-100';
+    }
+    return message.author_role === 'staff'
+      ? 'bg-primary-600 text-white'
+      : 'bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+  };
+
+  return (
+    <section>
+      <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-3">
+        {t('tickets.thread.title')}
+      </h3>
+
+      {loading ? (
+        <div className="py-8 flex justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : loadError ? (
+        <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-4 text-sm text-red-700 dark:text-red-300 flex items-center justify-between gap-3">
+          <span>{t('tickets.thread.loadError')}</span>
+          <button type="button" onClick={() => void loadMessages()} className="font-medium underline">
+            {t('tickets.thread.retry')}
+          </button>
+        </div>
+      ) : messages.length === 0 ? (
+        <p className="rounded-xl bg-gray-50 dark:bg-gray-700/40 p-4 text-sm text-gray-500 dark:text-gray-400 text-center">
+          {t('tickets.thread.empty')}
+        </p>
+      ) : (
+        <ol className="space-y-3">
+          {messages.map((message) => {
+            const fromStaff = message.author_role === 'staff';
+            return (
+              <li key={message.id} className={`flex ${fromStaff ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[85%] rounded-2xl px-3.5 py-2.5 text-sm shadow-sm ${bubbleClass(message)}`}>
+                  <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5 text-[11px] font-semibold opacity-90 mb-1">
+                    <span>{message.author_name || (fromStaff ? t('tickets.thread.staff') : t('tickets.thread.tenant'))}</span>
+                    {message.is_internal && (
+                      <span className="px-1.5 py-0.5 rounded bg-amber-200 text-amber-900 dark:bg-amber-800 dark:text-amber-100">
+                        {t('tickets.thread.internalBadge')}
+                      </span>
+                    )}
+                  </div>
+                  {message.body && <WhatsAppFormattedText text={message.body} className="whitespace-pre-wrap break-words leading-relaxed" />}
+                  {message.attachments?.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {message.attachments.map((att) =>
+                        isImageAttachment(att) ? (
+                          <a
+                            key={att.id}
+                            href={att.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block rounded-lg overflow-hidden border border-black/10 hover:opacity-90"
+                          >
+                            <img src={att.url} alt={attachmentName(att)} className="h-20 w-auto max-w-[160px] object-cover" />
+                          </a>
+                        ) : (
+                          <a
+                            key={att.id}
+                            href={att.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1.5 max-w-[220px] rounded-lg bg-black/10 dark:bg-white/10 px-2 py-1 text-xs hover:underline"
+                          >
+                            <Icon name="download" className="w-3.5 h-3.5 shrink-0" />
+                            <span className="truncate">{attachmentName(att)}</span>
+                          </a>
+                        ),
+                      )}
+                    </div>
+                  )}
+                  <div className="mt-1.5 flex flex-wrap items-center gap-x-2 text-[10px] opacity-80">
+                    <span>{formatTime(message.created_at)}</span>
+                    {message.notified_via && message.notified_via.length > 0 && (
+                      <span>
+                        · {t('tickets.thread.notifiedVia')}{' '}
+                        {message.notified_via.map((channel) => t(`tickets.thread.channel.${channel}`)).join(', ')}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      <div ref={threadEndRef} />
+
+      {canReply && (
+        <div
+          className={`mt-4 rounded-xl border p-3 space-y-2 ${
+            isInternal
+              ? 'border-amber-300 dark:border-amber-700 bg-amber-50/60 dark:bg-amber-900/10'
+              : 'border-gray-200 dark:border-gray-700'
+          }`}
+        >
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap items-center gap-1">
+              <WhatsAppFormatToolbar
+                disabled={sending}
+                onFormat={(kind: WhatsAppFormatKind) => applyWhatsAppFormatToInput(composerRef.current, draft, kind, setDraft)}
+              />
+              <CannedResponsePicker
+                scope="tickets"
+                companyId={companyId}
+                disabled={sending}
+                onInsert={(text, response) => {
+                  insertTextAtCursor(composerRef.current, draft, text, setDraft);
+                  if (response.set_ticket_status) setMacroStatus(response.set_ticket_status);
+                }}
+              />
+            </div>
+            <Checkbox
+              id={`ticket-${ticketId}-internal`}
+              checked={isInternal}
+              onChange={(e) => setIsInternal(e.target.checked)}
+              disabled={sending}
+              label={t('tickets.thread.internalNote')}
+            />
+          </div>
+          <textarea
+            ref={composerRef}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                void handleSend();
+              }
+            }}
+            rows={3}
+            disabled={sending}
+            placeholder={isInternal ? t('tickets.thread.notePlaceholder') : t('tickets.thread.replyPlaceholder')}
+            className="w-full resize-y rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+          {macroStatus && (
+            <p className="inline-flex items-center gap-1.5 rounded-lg bg-purple-100 dark:bg-purple-900/40 px-2 py-1 text-xs text-purple-800 dark:text-purple-200">
+              {t('cannedResponses.macroPending').replace('{status}', t(`tickets.status.${macroStatus}`))}
+              <button
+                type="button"
+                onClick={() => setMacroStatus(null)}
+                disabled={sending}
+                className="p-0.5 rounded hover:bg-purple-200 dark:hover:bg-purple-800"
+                aria-label={t('cannedResponses.macroCancel')}
+                title={t('cannedResponses.macroCancel')}
+              >
+                <Icon name="x" className="w-3 h-3" />
+              </button>
+            </p>
+          )}
+          {files.length > 0 && (
+            <ul className="flex flex-wrap gap-2">
+              {files.map((file, index) => (
+                <li
+                  key={`${file.name}-${index}`}
+                  className="inline-flex items-center gap-1.5 max-w-[240px] rounded-lg bg-gray-100 dark:bg-gray-700 px-2 py-1 text-xs text-gray-700 dark:text-gray-200"
+                >
+                  <Icon name="paperclip" className="w-3.5 h-3.5 shrink-0" />
+                  <span className="truncate">{file.name}</span>
+                  <span className="shrink-0 text-gray-500 dark:text-gray-400">{formatBytes(file.size)}</span>
+                  <button
+                    type="button"
+                    onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={sending}
+                    className="shrink-0 p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                    aria-label={t('tickets.thread.removeFile')}
+                  >
+                    <Icon name="x" className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ATTACHMENT_ACCEPT}
+                className="hidden"
+                onChange={(e) => handleFilesPicked(e.target.files)}
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={sending || files.length >= MAX_ATTACHMENTS}
+                className="inline-flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white disabled:opacity-50"
+              >
+                <Icon name="paperclip" className="w-4 h-4" />
+                {t('tickets.thread.attach')}
+              </button>
+              {!isInternal && (
+                <>
+                  <Checkbox
+                    id={`ticket-${ticketId}-notify-email`}
+                    checked={notifyEmail}
+                    onChange={(e) => setNotifyEmail(e.target.checked)}
+                    disabled={sending}
+                    label={t('tickets.thread.notifyEmail')}
+                  />
+                  <Checkbox
+                    id={`ticket-${ticketId}-notify-whatsapp`}
+                    checked={notifyWhatsApp}
+                    onChange={(e) => setNotifyWhatsApp(e.target.checked)}
+                    disabled={sending}
+                    label={t('tickets.thread.notifyWhatsApp')}
+                  />
+                </>
+              )}
+            </div>
+            <LoadingButton
+              onClick={() => void handleSend()}
+              disabled={!canSend}
+              isLoading={sending}
+              loadingText={t('tickets.thread.sending')}
+              icon="send"
+              className="text-sm"
+            >
+              {isInternal ? t('tickets.thread.addNote') : t('tickets.thread.sendReply')}
+            </LoadingButton>
+          </div>
+          {isInternal && <p className="text-xs text-amber-700 dark:text-amber-300">{t('tickets.thread.internalHint')}</p>}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default SupportTicketThread;
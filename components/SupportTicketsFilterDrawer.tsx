@@ -11,6 +11,10 @@ import {
 export interface SupportTicketsFilters {
   search: string;
   status: string;
+  /** `me`, `unassigned`, or an admin user id */
+  assignee: string;
+  priority: string;
+  sla: string;
   fromDate: string;
   toDate: string;
 }
@@ -18,17 +22,25 @@ export interface SupportTicketsFilters {
 export const supportTicketsFilterDefaults: SupportTicketsFilters = {
   search: '',
   status: '',
+  assignee: '',
+  priority: '',
+  sla: '',
   fromDate: '',
   toDate: '',
 };
 
+type FilterOption = { value: string; label: string };
+
 interface SupportTicketsFilterDrawerProps {
   isOpen: boolean;
   onClose: () => void;
   filters: SupportTicketsFilters;
   onApply: (filters: SupportTicketsFilters) => void;
   onReset: () => void;
-  statusOptions: { value: string; label: string }[];
+  statusOptions: FilterOption[];
+  assigneeOptions: FilterOption[];
+  priorityOptions: FilterOption[];
+  slaOptions: FilterOption[];
 }
 
 const SupportTicketsFilterDrawer: React.FC<SupportTicketsFilterDrawerProps> = ({
@@ -38,6 +50,9 @@ const SupportTicketsFilterDrawer: React.FC<SupportTicketsFilterDrawerProps> = ({
   onApply,
   onReset,
   statusOptions,
+  assigneeOptions,
+  priorityOptions,
+  slaOptions,
 }) => {
   const { t } = useI18n();
   const [localFilters, setLocalFilters] = useState<SupportTicketsFilters>(filters);
@@ -116,6 +131,58 @@ const SupportTicketsFilterDrawer: React.FC<SupportTicketsFilterDrawerProps> = ({
         </div>
       </FilterSection>
 
+      <FilterSection title={t('tickets.filters.triage')}>
+        <div className="space-y-4 pt-2">
+          <div>
+            <FilterLabel htmlFor="tickets-filter-assignee">{t('tickets.assignee')}</FilterLabel>
+            <FilterSelect
+              id="tickets-filter-assignee"
+              value={localFilters.assignee}
+              onChange={(event) => updateField('assignee', event.target.value)}
+            >
+              <option value="">{t('filters.all')}</option>
+              <option value="me">{t('tickets.filters.assignedToMe')}</option>
+              <option value="unassigned">{t('tickets.unassigned')}</option>
+              {assigneeOptions.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </FilterSelect>
+          </div>
+          <div>
+            <FilterLabel htmlFor="tickets-filter-priority">{t('tickets.priority')}</FilterLabel>
+            <FilterSelect
+              id="tickets-filter-priority"
+              value={localFilters.priority}
+              onChange={(event) => updateField('priority', event.target.value)}
+            >
+              <option value="">{t('filters.all')}</option>
+              {priorityOptions.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </FilterSelect>
+          </div>
+          <div>
+            <FilterLabel htmlFor="tickets-filter-sla">{t('tickets.sla.label')}</FilterLabel>
+            <FilterSelect
+              id="tickets-filter-sla"
+              value={localFilters.sla}
+              onChange={(event) => updateField('sla', event.target.value)}
+            >
+              <option value="">{t('filters.all')}</option>
+              {slaOptions.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </FilterSelect>
+          </div>
+        </div>
+      </FilterSection>
+
       <FilterSection title={t('filters.dateRange')}>
         <div className="space-y-4 pt-2">
           <div>
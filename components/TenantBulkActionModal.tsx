@@ -0,0 +1,434 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Tenant } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAuditLog } from '../context/AuditLogContext';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { buildAuditChanges } from '../utils/buildUpdateDiff';
+import Icon from './Icon';
+import LoadingSpinner from './LoadingSpinner';
+import { NumberInput } from './NumberInput';
+import {
+  getPlansAPI,
+  getSubscriptionsForCompaniesAPI,
+  updateSubscriptionAPI,
+  createSubscriptionAPI,
+  sendAdminTenantWhatsAppAPI,
+  createBroadcastAPI,
+  sendBroadcastAPI,
+} from '../services/api';
+
+export type TenantBulkAction = 'extend' | 'changePlan' | 'activate' | 'deactivate' | 'whatsapp' | 'broadcast';
+
+type RowStatus = 'pending' | 'running' | 'success' | 'failed';
+type RowResult = { status: RowStatus; error?: string };
+type ApiSubscription = { id: number; company: number; plan: number; start_date: string; end_date: string; is_active: boolean };
+
+/** Parallel requests per batch; keeps 200-row runs quick without flooding the API. */
+const CONCURRENCY = 4;
+
+const addDays = (isoDate: string, days: number) => {
+  const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+/** The subscription a row action applies to: the active one, else the latest by end date. */
+const pickSubscription = (subs: ApiSubscription[]): ApiSubscription | undefined =>
+  [...subs].sort((a, b) => Number(b.is_active) - Number(a.is_active) || String(b.end_date).localeCompare(String(a.end_date)))[0];
+
+interface TenantBulkActionModalProps {
+  action: TenantBulkAction | null;
+  tenants: Tenant[];
+  onClose: () => void;
+  /** Called once when the dialog closes after a run that changed at least one row. */
+  onFinished: () => void;
+}
+
+const TenantBulkActionModal: React.FC<TenantBulkActionModalProps> = ({ action, tenants, onClose, onFinished }) => {
+  const { t, language } = useI18n();
+  const { addLog } = useAuditLog();
+  const [phase, setPhase] = useState<'form' | 'running' | 'done'>('form');
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+  const [plans, setPlans] = useState<any[]>([]);
+  const [isLoadingPlans, setIsLoadingPlans] = useState(false);
+  const [days, setDays] = useState('7');
+  const [planId, setPlanId] = useState<number | ''>('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [message, setMessage] = useState('');
+  const [subject, setSubject] = useState('');
+  const [broadcastType, setBroadcastType] = useState<'email' | 'push'>('email');
+  const [formError, setFormError] = useState('');
+
+  useEffect(() => {
+    if (!action) return;
+    setPhase('form');
+    setResults({});
+    setFormError('');
+    setDays('7');
+    setPlanId('');
+    setMessage('');
+    setSubject('');
+    const today = new Date();
+    const oneMonthLater = new Date();
+    oneMonthLater.setMonth(oneMonthLater.getMonth() + 1);
+    setStartDate(today.toISOString().split('T')[0]);
+    setEndDate(oneMonthLater.toISOString().split('T')[0]);
+    if (action === 'changePlan' || action === 'activate') {
+      setIsLoadingPlans(true);
+      getPlansAPI()
+        .then((response) => setPlans(response.results || []))
+        .catch((error) => console.error('Error loading plans:', error))
+        .finally(() => setIsLoadingPlans(false));
+    }
+  }, [action]);
+
+  const counts = useMemo(() => {
+    const values = Object.values(results);
+    return {
+      success: values.filter((r) => r.status === 'success').length,
+      failed: values.filter((r) => r.status === 'failed').length,
+      done: values.filter((r) => r.status === 'success' || r.status === 'failed').length,
+    };
+  }, [results]);
+
+  if (!action) return null;
+
+  const planLabel = (id: number) => {
+    const plan = plans.find((p) => p.id === id);
+    return (language === 'ar' && plan?.name_ar?.trim() ? plan.name_ar : plan?.name) || `#${id}`;
+  };
+
+  const setRow = (id: number, result: RowResult) => setResults((prev) => ({ ...prev, [id]: result }));
+
+  const describeError = (error: unknown) =>
+    translateAdminApiError(error, t) || (error instanceof Error ? error.message : '') || t('tenants.bulk.rowFailed');
+
+  /** Apply the chosen subscription change to one company. Throws with a user-facing message on failure. */
+  const runRow = async (tenant: Tenant, subs: ApiSubscription[]) => {
+    const subscription = pickSubscription(subs);
+    switch (action) {
+      case 'extend': {
+        if (!subscription?.end_date) throw new Error(t('tenants.bulk.errors.noSubscription'));
+        const diff = { end_date: addDays(subscription.end_date, Number(days)) };
+        await updateSubscriptionAPI(subscription.id, diff);
+        addLog('audit.log.tenantExtended', { companyName: tenant.name, days: Number(days) }, {
+          changes: buildAuditChanges(subscription, diff),
+          companyId: tenant.id,
+        });
+        return;
+      }
+      case 'changePlan': {
+        if (!subscription) throw new Error(t('tenants.bulk.errors.noSubscription'));
+        if (subscription.plan === planId) return;
+        const diff = { plan: planId as number };
+        await updateSubscriptionAPI(subscription.id, diff);
+        addLog('audit.log.tenantPlanChanged', { companyName: tenant.name, planName: planLabel(planId as number) }, {
+          changes: buildAuditChanges(subscription, diff),
+          companyId: tenant.id,
+        });
+        return;
+      }
+      case 'activate': {
+        const data = { plan: planId as number, start_date: startDate, end_date: endDate, is_active: true };
+        if (subscription) {
+          await updateSubscriptionAPI(subscription.id, data);
+          addLog('audit.log.tenantActivated', { companyName: tenant.name }, {
+            changes: buildAuditChanges(subscription, data),
+            companyId: tenant.id,
+          });
+        } else {
+          if (!tenant.owner) throw new Error(t('tenants.bulk.errors.noOwner'));
+          await createSubscriptionAPI({ ...data, company: tenant.id, owner: tenant.owner });
+          addLog('audit.log.tenantActivated', { companyName: tenant.name }, { companyId: tenant.id });
+        }
+        return;
+      }
+      case 'deactivate': {
+        const active = subs.find((sub) => sub.is_active);
+        if (!active) return;
+        await updateSubscriptionAPI(active.id, { is_active: false });
+        addLog('audit.log.tenantDeactivated', { companyName: tenant.name }, {
+          changes: { is_active: { before: true, after: false } },
+          companyId: tenant.id,
+        });
+        return;
+      }
+      case 'whatsapp':
+        await sendAdminTenantWhatsAppAPI(tenant.id, message.trim());
+        return;
+      default:
+        return;
+    }
+  };
+
+  const run = async (targets: Tenant[]) => {
+    setPhase('running');
+    setResults((prev) => {
+      const next = { ...prev };
+      targets.forEach((tenant) => { next[tenant.id] = { status: 'pending' }; });
+      return next;
+    });
+
+    // A broadcast is one request addressed to every selected company; its outcome applies to all rows.
+    if (action === 'broadcast') {
+      targets.forEach((tenant) => setRow(tenant.id, { status: 'running' }));
+      try {
+        const broadcast = await createBroadcastAPI({
+          subject: subject.trim(),
+          content: message.trim(),
+          targets: targets.map((tenant) => `company_${tenant.id}`),
+          broadcast_type: broadcastType,
+        });
+        await sendBroadcastAPI(broadcast.id);
+        targets.forEach((tenant) => setRow(tenant.id, { status: 'success' }));
+      } catch (error) {
+        const reason = describeError(error);
+        targets.forEach((tenant) => setRow(tenant.id, { status: 'failed', error: reason }));
+      }
+      setPhase('done');
+      return;
+    }
+
+    let subsByCompany = new Map<number, ApiSubscription[]>();
+    if (action !== 'whatsapp') {
+      try {
+        const response = await getSubscriptionsForCompaniesAPI(targets.map((tenant) => tenant.id));
+        subsByCompany = (response.results as unknown as ApiSubscription[]).reduce((map, sub) => {
+          map.set(sub.company, [...(map.get(sub.company) ?? []), sub]);
+          return map;
+        }, new Map<number, ApiSubscription[]>());
+      } catch (error) {
+        const reason = describeError(error);
+        targets.forEach((tenant) => setRow(tenant.id, { status: 'failed', error: reason }));
+        setPhase('done');
+        return;
+      }
+    }
+
+    for (let i = 0; i < targets.length; i += CONCURRENCY) {
+      await Promise.all(
+        targets.slice(i, i + CONCURRENCY).map(async (tenant) => {
+          setRow(tenant.id, { status: 'running' });
+          try {
+            await runRow(tenant, subsByCompany.get(tenant.id) ?? []);
+            setRow(tenant.id, { status: 'success' });
+          } catch (error) {
+            setRow(tenant.id, { status: 'failed', error: describeError(error) });
+          }
+        }),
+      );
+    }
+    setPhase('done');
+  };
+
+  const validate = (): string => {
+    if (action === 'extend' && !(Number(days) >= 1)) return t('tenants.bulk.errors.days');
+    if ((action === 'changePlan' || action === 'activate') && !planId) return t('tenants.activation.selectPlan');
+    if (action === 'activate') {
+      if (!startDate || !endDate) return t('tenants.activation.selectDates');
+      if (new Date(endDate) <= new Date(startDate)) return t('tenants.activation.invalidDates');
+    }
+    if ((action === 'whatsapp' || action === 'broadcast') && !message.trim()) return t('tenants.bulk.errors.message');
+    if (action === 'broadcast' && !subject.trim()) return t('tenants.bulk.errors.subject');
+    return '';
+  };
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = validate();
+    setFormError(error);
+    if (!error) void run(tenants);
+  };
+
+  const handleRetryFailed = () => {
+    void run(tenants.filter((tenant) => results[tenant.id]?.status === 'failed'));
+  };
+
+  const handleClose = () => {
+    if (phase === 'running') return;
+    if (counts.success > 0) onFinished();
+    onClose();
+  };
+
+  const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500";
+  const labelClasses = "block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300";
+
+  const statusBadge = (result?: RowResult) => {
+    switch (result?.status) {
+      case 'running':
+        return <LoadingSpinner size="sm" tone="muted" label={t('tenants.bulk.status.running')} />;
+      case 'success':
+        return <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">{t('tenants.bulk.status.success')}</span>;
+      case 'failed':
+        return <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300">{t('tenants.bulk.status.failed')}</span>;
+      default:
+        return <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">{t('tenants.bulk.status.pending')}</span>;
+    }
+  };
+
+  const renderPlanSelect = () => (
+    <div>
+      <label htmlFor="bulk-plan" className={labelClasses}>{t('tenants.activation.selectPlan')} *</label>
+      {isLoadingPlans ? (
+        <div className="px-3 py-2"><LoadingSpinner label={t('common.loading') || 'Loading'} /></div>
+      ) : (
+        <select
+          id="bulk-plan"
+          value={planId}
+          onChange={(e) => setPlanId(e.target.value ? parseInt(e.target.value) : '')}
+          className={inputClasses}
+        >
+          <option value="">{t('tenants.activation.selectPlan')}</option>
+          {plans.map((plan) => (
+            <option key={plan.id} value={plan.id}>{planLabel(plan.id)}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4" onClick={handleClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg transform transition-all" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-start gap-3">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t(`tenants.bulk.actions.${action}`)}</h2>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              {t('tenants.bulk.selectedCount').replace('{count}', String(tenants.length))}
+            </p>
+          </div>
+          <button onClick={handleClose} disabled={phase === 'running'} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50">
+            <Icon name="x" className="w-6 h-6" />
+          </button>
+        </div>
+
+        {phase === 'form' ? (
+          <form onSubmit={handleStart} className="p-6 space-y-4">
+            {action === 'extend' && (
+              <div>
+                <label htmlFor="bulk-days" className={labelClasses}>{t('tenants.bulk.days')} *</label>
+                <NumberInput id="bulk-days" value={days} min={1} max={3650} onChange={(e) => setDays(e.target.value)} className={inputClasses} />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('tenants.bulk.daysHint')}</p>
+              </div>
+            )}
+            {(action === 'changePlan' || action === 'activate') && renderPlanSelect()}
+            {action === 'activate' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="bulk-start" className={labelClasses}>{t('tenants.table.startDate')} *</label>
+                  <input id="bulk-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClasses} />
+                </div>
+                <div>
+                  <label htmlFor="bulk-end" className={labelClasses}>{t('tenants.table.endDate')} *</label>
+                  <input id="bulk-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClasses} />
+                </div>
+              </div>
+            )}
+            {action === 'deactivate' && (
+              <p className="text-sm text-gray-600 dark:text-gray-300">{t('tenants.bulk.deactivateWarning')}</p>
+            )}
+            {action === 'broadcast' && (
+              <>
+                <div>
+                  <label htmlFor="bulk-broadcast-type" className={labelClasses}>{t('communication.new.broadcastType')}</label>
+                  <select id="bulk-broadcast-type" value={broadcastType} onChange={(e) => setBroadcastType(e.target.value as 'email' | 'push')} className={inputClasses}>
+                    <option value="email">{t('communication.new.broadcastType.email')}</option>
+                    <option value="push">{t('communication.new.broadcastType.push')}</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="bulk-subject" className={labelClasses}>{t('communication.new.subject')} *</label>
+                  <input id="bulk-subject" value={subject} onChange={(e) => setSubject(e.target.value)} className={inputClasses} />
+                </div>
+              </>
+            )}
+            {(action === 'whatsapp' || action === 'broadcast') && (
+              <div>
+                <label htmlFor="bulk-message" className={labelClasses}>
+                  {action === 'broadcast' ? t('communication.new.content') : t('tenants.bulk.message')} *
+                </label>
+                <textarea id="bulk-message" rows={5} value={message} onChange={(e) => setMessage(e.target.value)} className={inputClasses} />
+                {action === 'whatsapp' && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('tenants.bulk.whatsappHint')}</p>
+                )}
+              </div>
+            )}
+            {formError && <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>}
+            <div className={`flex gap-3 pt-2 ${language === 'ar' ? 'flex-row-reverse' : ''}`}>
+              <button
+                type="button"
+                onClick={handleClose}
+                className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 font-medium transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                className={`flex-1 px-4 py-2 text-white rounded-lg font-medium transition-colors ${
+                  action === 'deactivate' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary-600 hover:bg-primary-700'
+                }`}
+              >
+                {t('tenants.bulk.run').replace('{count}', String(tenants.length))}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="p-6 space-y-4">
+            <div>
+              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-300 mb-1">
+                <span>{t('tenants.bulk.progress').replace('{done}', String(counts.done)).replace('{total}', String(tenants.length))}</span>
+                <span>
+                  <span className="text-green-600 dark:text-green-400">{counts.success}</span>
+                  {' / '}
+                  <span className="text-red-600 dark:text-red-400">{counts.failed}</span>
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className="h-full bg-primary-600 transition-all"
+                  style={{ width: `${tenants.length ? Math.round((counts.done / tenants.length) * 100) : 0}%` }}
+                />
+              </div>
+            </div>
+            <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+              {tenants.map((tenant) => {
+                const result = results[tenant.id];
+                return (
+                  <li key={tenant.id} className="px-3 py-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-sm text-gray-900 dark:text-white truncate">{tenant.name}</span>
+                      {statusBadge(result)}
+                    </div>
+                    {result?.error && <p className="mt-0.5 text-xs text-red-600 dark:text-red-400">{result.error}</p>}
+                  </li>
+                );
+              })}
+            </ul>
+            <div className={`flex gap-3 ${language === 'ar' ? 'flex-row-reverse' : ''}`}>
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={phase === 'running'}
+                className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 font-medium transition-colors disabled:opacity-50"
+              >
+                {t('common.close')}
+              </button>
+              {phase === 'done' && counts.failed > 0 && (
+                <button
+                  type="button"
+                  onClick={handleRetryFailed}
+                  className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 font-medium transition-colors"
+                >
+                  {t('tenants.bulk.retryFailed').replace('{count}', String(counts.failed))}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TenantBulkActionModal;
@@ -35,7 +35,8 @@ interface TenantsFilterDrawerProps {
   filters: TenantFilters;
   onApply: (filters: TenantFilters) => void;
   onReset: () => void;
-  plans: string[];
+  /** Plan options; `value` is the plan ID sent to the API. */
+  plans: { value: string; label: string }[];
 }
 
 const statusOptions = [
@@ -126,8 +127,8 @@ const TenantsFilterDrawer: React.FC<TenantsFilterDrawerProps> = ({
               <option value="">{t('tenants.filters.planPlaceholder')}</option>
               {hasPlans &&
                 plans.map((plan) => (
-                  <option key={plan} value={plan}>
-                    {plan}
+                  <option key={plan.value} value={plan.value}>
+                    {plan.label}
                   </option>
                 ))}
             </FilterSelect>
@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import { SupportTicket, TicketSlaTargets } from '../types';
+import { useI18n } from '../context/i18n';
+import { formatSlaDuration, summarizeTicketSla } from '../utils/ticketSla';
+
+interface TicketSlaReportProps {
+  /** Usually the filtered table rows, so the report follows the active filters. */
+  tickets: SupportTicket[];
+  targets: TicketSlaTargets;
+  now: Date;
+}
+
+const complianceClass = (ratio: number | null) => {
+  if (ratio == null) return 'text-gray-400 dark:text-gray-500';
+  if (ratio >= 0.9) return 'text-green-700 dark:text-green-300';
+  if (ratio >= 0.75) return 'text-amber-700 dark:text-amber-300';
+  return 'text-red-700 dark:text-red-300';
+};
+
+/** SLA compliance per priority: share of first responses and resolutions within target. */
+const TicketSlaReport: React.FC<TicketSlaReportProps> = ({ tickets, targets, now }) => {
+  const { t } = useI18n();
+  const rows = useMemo(() => summarizeTicketSla(tickets, targets, now), [tickets, targets, now]);
+
+  const renderCompliance = (met: number, measured: number) => {
+    const ratio = measured > 0 ? met / measured : null;
+    return (
+      <span className={`font-semibold ${complianceClass(ratio)}`}>
+        {ratio == null ? '—' : `${Math.round(ratio * 100)}%`}
+        {measured > 0 && <span className="ms-1 text-xs font-normal text-gray-500 dark:text-gray-400">({met}/{measured})</span>}
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-4">
+      <div className="mb-3">
+        <h2 className="text-base font-semibold text-gray-900 dark:text-white">{t('tickets.slaReport.title')}</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t('tickets.slaReport.description')}</p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-start text-gray-600 dark:text-gray-300">
+          <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            <tr>
+              <th scope="col" className="px-3 py-2 text-start">{t('tickets.priority')}</th>
+              <th scope="col" className="px-3 py-2 text-start">{t('tickets.slaReport.targets')}</th>
+              <th scope="col" className="px-3 py-2 text-end">{t('tickets.slaReport.tickets')}</th>
+              <th scope="col" className="px-3 py-2 text-end">{t('tickets.slaReport.firstResponse')}</th>
+              <th scope="col" className="px-3 py-2 text-end">{t('tickets.slaReport.resolution')}</th>
+              <th scope="col" className="px-3 py-2 text-end">{t('tickets.slaReport.openBreached')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.priority}
+                className={`border-b border-gray-100 dark:border-gray-700 last:border-b-0 ${row.priority === 'all' ? 'font-semibold bg-gray-50 dark:bg-gray-700/40' : ''}`}
+              >
+                <td className="px-3 py-2">{row.priority === 'all' ? t('tickets.slaReport.allPriorities') : t(`tickets.priority.${row.priority}`)}</td>
+                <td className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {row.priority === 'all'
+                    ? ''
+                    : `${formatSlaDuration(targets[row.priority].first_response_minutes * 60_000, t)} / ${formatSlaDuration(targets[row.priority].resolution_minutes * 60_000, t)}`}
+                </td>
+                <td className="px-3 py-2 text-end">{row.total}</td>
+                <td className="px-3 py-2 text-end">{renderCompliance(row.firstResponseMet, row.firstResponseMeasured)}</td>
+                <td className="px-3 py-2 text-end">{renderCompliance(row.resolutionMet, row.resolutionMeasured)}</td>
+                <td className={`px-3 py-2 text-end ${row.openBreached > 0 ? 'text-red-700 dark:text-red-300' : ''}`}>{row.openBreached}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TicketSlaReport;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { AlertVariant, useAlert } from '../context/AlertContext';
+import { useI18n } from '../context/i18n';
+import Icon from './Icon';
+
+const variantStyles: Record<AlertVariant, { icon: string; accent: string }> = {
+  error: { icon: 'alert', accent: 'border-red-300 dark:border-red-700 text-red-600 dark:text-red-400' },
+  warning: { icon: 'alert', accent: 'border-amber-300 dark:border-amber-700 text-amber-600 dark:text-amber-400' },
+  info: { icon: 'info', accent: 'border-blue-300 dark:border-blue-700 text-blue-600 dark:text-blue-400' },
+  success: { icon: 'check', accent: 'border-green-300 dark:border-green-700 text-green-600 dark:text-green-400' },
+};
+
+/** Toasts from `useAlert().showToast`, stacked under the header on the trailing side. */
+const ToastStack: React.FC = () => {
+  const { toasts, dismissToast } = useAlert();
+  const { t, language } = useI18n();
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div
+      aria-live="polite"
+      className={`fixed top-20 ${language === 'ar' ? 'left-4' : 'right-4'} z-[95] w-full max-w-sm space-y-2 pointer-events-none`}
+    >
+      {toasts.map((toast) => {
+        const style = variantStyles[toast.variant];
+        return (
+          <div
+            key={toast.id}
+            role="status"
+            className={`pointer-events-auto flex items-start gap-3 rounded-lg border bg-white dark:bg-gray-800 shadow-lg p-3 ${style.accent}`}
+          >
+            <Icon name={style.icon} className="w-5 h-5 mt-0.5 shrink-0" />
+            <button
+              type="button"
+              disabled={!toast.onClick}
+              onClick={() => {
+                toast.onClick?.();
+                dismissToast(toast.id);
+              }}
+              className="flex-1 min-w-0 text-start disabled:cursor-default"
+            >
+              {toast.title && <p className="text-sm font-semibold text-gray-900 dark:text-white">{toast.title}</p>}
+              <p className="text-sm text-gray-700 dark:text-gray-200 break-words">{toast.message}</p>
+            </button>
+            <button
+              type="button"
+              onClick={() => dismissToast(toast.id)}
+              className="p-1 -m-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+              aria-label={t('common.close')}
+            >
+              <Icon name="x" className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ToastStack;
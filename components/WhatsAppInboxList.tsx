@@ -0,0 +1,182 @@
+import React from 'react';
+import type { Tenant, WhatsAppConversation } from '../types';
+import { useI18n } from '../context/i18n';
+import { withLatinDigits } from '../utils/latinNumerals';
+import LoadingSpinner from './LoadingSpinner';
+import Icon from './Icon';
+
+export type WhatsAppInboxFilter = 'all' | 'awaiting' | 'unread';
+
+const INBOX_FILTERS: WhatsAppInboxFilter[] = ['all', 'awaiting', 'unread'];
+
+interface WhatsAppInboxListProps {
+  conversations: WhatsAppConversation[];
+  selectedId: number | null;
+  onSelect: (companyId: number) => void;
+  search: string;
+  onSearchChange: (value: string) => void;
+  filter: WhatsAppInboxFilter;
+  onFilterChange: (filter: WhatsAppInboxFilter) => void;
+  loading: boolean;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+  /** Companies offered in the "new conversation" picker, for tenants that have no thread yet. */
+  tenants: Tenant[];
+}
+
+/** Time of day for today's messages, otherwise a short date. */
+const formatInboxTime = (iso: string) => {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return date.toLocaleString(undefined, withLatinDigits(sameDay ? { timeStyle: 'short' } : { dateStyle: 'short' }));
+};
+
+/** Left pane of the tenant WhatsApp page: conversations across all companies, newest activity first. */
+const WhatsAppInboxList: React.FC<WhatsAppInboxListProps> = ({
+  conversations,
+  selectedId,
+  onSelect,
+  search,
+  onSearchChange,
+  filter,
+  onFilterChange,
+  loading,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  tenants,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-col border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 shadow-sm overflow-hidden min-h-[460px]">
+      <div className="p-3 space-y-2 border-b border-gray-200 dark:border-gray-700">
+        <div className="relative">
+          <Icon name="search" className="w-4 h-4 absolute top-1/2 -translate-y-1/2 start-3 text-gray-400 pointer-events-none" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            placeholder={t('tenantWhatsapp.inbox.search')}
+            className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 ps-9 pe-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+        </div>
+        <div className="flex gap-1" role="group" aria-label={t('tenantWhatsapp.inbox.filter')}>
+          {INBOX_FILTERS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onFilterChange(option)}
+              aria-pressed={filter === option}
+              className={`flex-1 rounded-md px-2 py-1 text-xs font-medium transition-colors ${
+                filter === option
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {t(`tenantWhatsapp.inbox.filter.${option}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto max-h-[420px]">
+        {loading && conversations.length === 0 ? (
+          <div className="py-8 flex justify-center">
+            <LoadingSpinner label={t('common.loading') || 'Loading'} />
+          </div>
+        ) : conversations.length === 0 ? (
+          <p className="px-4 py-10 text-center text-sm text-gray-500 dark:text-gray-400">
+            {search.trim() || filter !== 'all' ? t('tenantWhatsapp.inbox.noMatches') : t('tenantWhatsapp.inbox.empty')}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {conversations.map((c) => {
+              const active = c.company_id === selectedId;
+              const unread = c.unread_count > 0;
+              const preview =
+                search.trim() && c.matched_body
+                  ? c.matched_body
+                  : c.last_message_body || (c.last_message_media_type ? t(`tenantWhatsapp.media.kind.${c.last_message_media_type}`) : '');
+              return (
+                <li key={c.company_id}>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(c.company_id)}
+                    aria-current={active ? 'true' : undefined}
+                    className={`w-full text-start px-3 py-2.5 transition-colors ${
+                      active ? 'bg-primary-50 dark:bg-primary-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    }`}
+                  >
+                    <span className="flex items-center justify-between gap-2">
+                      <span className={`truncate text-sm ${unread ? 'font-semibold text-gray-900 dark:text-white' : 'font-medium text-gray-800 dark:text-gray-100'}`}>
+                        {c.company_name}
+                      </span>
+                      <span className={`shrink-0 text-[11px] ${unread ? 'text-primary-600 dark:text-primary-400 font-semibold' : 'text-gray-400 dark:text-gray-500'}`}>
+                        {formatInboxTime(c.last_message_at)}
+                      </span>
+                    </span>
+                    <span className="mt-0.5 flex items-center justify-between gap-2">
+                      <span className="truncate text-xs text-gray-500 dark:text-gray-400">
+                        {c.last_message_direction === 'outbound' && !(search.trim() && c.matched_body) && (
+                          <span className="text-gray-400 dark:text-gray-500">{t('tenantWhatsapp.inbox.you')} </span>
+                        )}
+                        {preview}
+                      </span>
+                      {unread ? (
+                        <span className="shrink-0 min-w-[1.25rem] h-5 px-1.5 inline-flex items-center justify-center rounded-full bg-primary-600 text-white text-[11px] font-semibold">
+                          {c.unread_count > 99 ? '99+' : c.unread_count}
+                        </span>
+                      ) : (
+                        c.awaiting_reply && (
+                          <span className="shrink-0 px-1.5 py-0.5 rounded text-[10px] font-semibold bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200">
+                            {t('tenantWhatsapp.inbox.awaitingBadge')}
+                          </span>
+                        )
+                      )}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {hasMore && (
+          <div className="p-2 flex justify-center">
+            <button
+              type="button"
+              onClick={onLoadMore}
+              disabled={loadingMore}
+              className="text-xs font-medium text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+            >
+              {loadingMore ? t('common.loading') : t('tenantWhatsapp.inbox.loadMore')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="p-3 border-t border-gray-200 dark:border-gray-700">
+        <label htmlFor="whatsappNewConversation" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+          {t('tenantWhatsapp.inbox.newConversation')}
+        </label>
+        <select
+          id="whatsappNewConversation"
+          className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          value=""
+          onChange={(e) => e.target.value && onSelect(Number(e.target.value))}
+        >
+          <option value="">{t('tenantWhatsapp.selectCompany')}</option>
+          {tenants.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name} {c.owner_phone ? `(${c.owner_phone})` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default WhatsAppInboxList;
@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Invoice } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { getAllInvoicesAPI } from '../services/api';
+import { invoiceStatusLabelKey, mapApiInvoice } from '../utils/billingMapping';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { withLatinDigits } from '../utils/latinNumerals';
+import LoadingSpinner from './LoadingSpinner';
+import Icon from './Icon';
+
+interface WhatsAppInvoicePickerProps {
+  companyId: number | null;
+  disabled?: boolean;
+  onPick: (invoice: Invoice) => void;
+}
+
+/** Composer button listing the tenant's invoices, so one can be attached to the chat as a PDF. */
+const WhatsAppInvoicePicker: React.FC<WhatsAppInvoicePickerProps> = ({ companyId, disabled, onPick }) => {
+  const { t } = useI18n();
+  const { showAlert } = useAlert();
+  const [isOpen, setIsOpen] = useState(false);
+  const [invoices, setInvoices] = useState<Invoice[] | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // A different tenant has different invoices
+  useEffect(() => {
+    setInvoices(null);
+    setIsOpen(false);
+  }, [companyId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || invoices !== null || companyId == null) return;
+    getAllInvoicesAPI({ company: companyId, ordering: '-created_at' })
+      .then((res) =>
+        setInvoices(
+          (res.results || [])
+            .filter((row) => row.company == null || Number(row.company) === companyId)
+            .map(mapApiInvoice),
+        ),
+      )
+      .catch((error) => {
+        showAlert(translateAdminApiError(error, t) || t('tenantWhatsapp.invoice.loadError'), { variant: 'error' });
+        setIsOpen(false);
+      });
+  }, [isOpen, invoices, companyId, showAlert, t]);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled || companyId == null}
+        aria-expanded={isOpen}
+        title={t('tenantWhatsapp.invoice.attach')}
+        className="inline-flex h-7 items-center gap-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 text-xs text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Icon name="pdf" className="w-3.5 h-3.5" />
+        {t('tenantWhatsapp.invoice.button')}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 start-0 w-80 max-w-[calc(100vw-2rem)] z-30 rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black ring-opacity-5">
+          <p className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 text-xs font-medium text-gray-600 dark:text-gray-300">
+            {t('tenantWhatsapp.invoice.attach')}
+          </p>
+          <div className="max-h-72 overflow-y-auto">
+            {invoices === null ? (
+              <div className="py-6 flex justify-center">
+                <LoadingSpinner />
+              </div>
+            ) : invoices.length === 0 ? (
+              <p className="px-3 py-6 text-center text-sm text-gray-500 dark:text-gray-400">{t('tenantWhatsapp.invoice.empty')}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                {invoices.map((invoice) => (
+                  <li key={invoice.numericId}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        onPick(invoice);
+                        setIsOpen(false);
+                      }}
+                      className="w-full text-start px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700/60"
+                    >
+                      <span className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{invoice.id}</span>
+                        <span className="shrink-0 text-xs text-gray-600 dark:text-gray-300">
+                          {invoice.amount.toLocaleString(undefined, withLatinDigits({ maximumFractionDigits: 2 }))} {invoice.currency}
+                        </span>
+                      </span>
+                      <span className="mt-0.5 flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+                        <span className="truncate">{invoice.lineDescription || invoice.planName}</span>
+                        <span className="shrink-0">{t(`status.${invoiceStatusLabelKey(invoice.paymentStatus)}`)}</span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WhatsAppInvoicePicker;
@@ -0,0 +1,99 @@
+import React from 'react';
+import type { WhatsAppMessage, WhatsAppMessageStatus } from '../types';
+import { useI18n } from '../context/i18n';
+import { withLatinDigits } from '../utils/latinNumerals';
+import { WhatsAppFormattedText } from '../utils/whatsappFormatting';
+import { formatMediaSize } from '../utils/whatsappMedia';
+import Icon from './Icon';
+
+const mediaName = (message: WhatsAppMessage) =>
+  message.media_filename ||
+  decodeURIComponent((message.media_url || '').split('?')[0].split('/').pop() || '') ||
+  `#${message.id}`;
+
+/** WhatsApp-style ticks: one for sent, two for delivered, two highlighted for read. */
+const ReceiptIcon: React.FC<{ status: WhatsAppMessageStatus }> = ({ status }) => {
+  if (status === 'pending') return <Icon name="clock" className="w-3 h-3" />;
+  if (status === 'failed') return <Icon name="alert" className="w-3.5 h-3.5 text-red-200" />;
+  if (status === 'sent') return <Icon name="check" className="w-3.5 h-3.5" />;
+  return (
+    <span className={`inline-flex ${status === 'read' ? 'text-sky-300' : ''}`}>
+      <Icon name="check" className="w-3.5 h-3.5" />
+      <Icon name="check" className="w-3.5 h-3.5 -ms-2" />
+    </span>
+  );
+};
+
+/** One message in the tenant WhatsApp thread: media preview, text or caption, time and receipt. */
+const WhatsAppMessageBubble: React.FC<{ message: WhatsAppMessage }> = ({ message: m }) => {
+  const { t } = useI18n();
+  const outbound = m.direction === 'outbound';
+  const status = outbound ? m.status ?? null : null;
+
+  const renderMedia = () => {
+    if (!m.media_type || !m.media_url) return null;
+    if (m.media_type === 'image') {
+      return (
+        <a href={m.media_url} target="_blank" rel="noopener noreferrer" className="block mb-1.5">
+          <img src={m.media_url} alt={mediaName(m)} loading="lazy" className="max-h-60 w-auto rounded-lg object-cover" />
+        </a>
+      );
+    }
+    if (m.media_type === 'audio') {
+      return <audio controls preload="none" src={m.media_url} className="mb-1.5 max-w-full" />;
+    }
+    if (m.media_type === 'video') {
+      return <video controls preload="metadata" src={m.media_url} className="mb-1.5 max-h-60 max-w-full rounded-lg" />;
+    }
+    return (
+      <a
+        href={m.media_url}
+        target="_blank"
+        rel="noopener noreferrer"
+        download={m.media_filename || undefined}
+        className={`mb-1.5 flex items-center gap-2 rounded-lg px-2.5 py-2 ${
+          outbound ? 'bg-primary-700/60 hover:bg-primary-700' : 'bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500'
+        }`}
+      >
+        <Icon name={m.media_mime_type === 'application/pdf' ? 'pdf' : 'paperclip'} className="w-5 h-5 shrink-0" />
+        <span className="min-w-0">
+          <span className="block truncate text-sm font-medium">{mediaName(m)}</span>
+          {m.media_size ? <span className="block text-[11px] opacity-80">{formatMediaSize(m.media_size)}</span> : null}
+        </span>
+        <Icon name="download" className="w-4 h-4 shrink-0 opacity-80" />
+      </a>
+    );
+  };
+
+  return (
+    <div className={`flex ${outbound ? 'justify-end' : 'justify-start'}`}>
+      <div
+        className={`max-w-[85%] rounded-2xl px-3.5 py-2.5 text-sm shadow-sm ${
+          outbound
+            ? `${status === 'failed' ? 'bg-red-600' : 'bg-primary-600'} text-white rounded-br-md`
+            : 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 border border-gray-100 dark:border-gray-600 rounded-bl-md'
+        }`}
+      >
+        {renderMedia()}
+        {m.body ? (
+          <WhatsAppFormattedText text={m.body} as="div" className="whitespace-pre-wrap break-words" />
+        ) : null}
+        <div className="text-[10px] opacity-80 mt-1.5 flex items-center justify-end gap-1">
+          <span>
+            {new Date(m.created_at).toLocaleString(undefined, withLatinDigits({ dateStyle: 'medium', timeStyle: 'short' }))}
+          </span>
+          {status && (
+            <span title={t(`tenantWhatsapp.receipt.${status}`)} aria-label={t(`tenantWhatsapp.receipt.${status}`)}>
+              <ReceiptIcon status={status} />
+            </span>
+          )}
+        </div>
+        {status === 'failed' && (
+          <p className="mt-1 text-[11px] text-red-100">{m.error_message || t('tenantWhatsapp.receipt.failedHint')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WhatsAppMessageBubble;
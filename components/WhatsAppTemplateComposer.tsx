@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { WhatsAppTemplate } from '../types';
+import { useI18n } from '../context/i18n';
+import { fillTemplateBody, templateLabel, templateSlotCount } from '../utils/whatsappTemplates';
+import { WhatsAppFormattedText } from '../utils/whatsappFormatting';
+import LoadingSpinner from './LoadingSpinner';
+import Icon from './Icon';
+
+interface WhatsAppTemplateComposerProps {
+  /** Approved templates; `null` while loading. */
+  templates: WhatsAppTemplate[] | null;
+  disabled?: boolean;
+  sending: boolean;
+  onSend: (template: WhatsAppTemplate, parameters: string[]) => void;
+}
+
+/** Composer used outside the 24h window: pick an approved template and fill its `{{n}}` slots. */
+const WhatsAppTemplateComposer: React.FC<WhatsAppTemplateComposerProps> = ({ templates, disabled, sending, onSend }) => {
+  const { t } = useI18n();
+  const [templateId, setTemplateId] = useState<number | null>(null);
+  const [parameters, setParameters] = useState<string[]>([]);
+
+  const template = useMemo(() => templates?.find((row) => row.id === templateId) ?? null, [templates, templateId]);
+  const slotCount = template ? templateSlotCount(template.body) : 0;
+
+  useEffect(() => {
+    setParameters(Array.from({ length: slotCount }, () => ''));
+  }, [templateId, slotCount]);
+
+  const complete = Boolean(template) && parameters.every((value) => value.trim().length > 0);
+
+  if (templates === null) {
+    return (
+      <div className="py-3 flex justify-center">
+        <LoadingSpinner label={t('common.loading') || 'Loading'} />
+      </div>
+    );
+  }
+
+  if (templates.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400 px-0.5 py-2">{t('tenantWhatsapp.templates.none')}</p>
+    );
+  }
+
+  const inputClasses =
+    'w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-60';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-end gap-2">
+        <div className="flex-1 min-w-0">
+          <label htmlFor="whatsappTemplate" className="sr-only">{t('tenantWhatsapp.templates.select')}</label>
+          <select
+            id="whatsappTemplate"
+            value={templateId ?? ''}
+            onChange={(e) => setTemplateId(e.target.value ? Number(e.target.value) : null)}
+            disabled={disabled || sending}
+            className={inputClasses}
+          >
+            <option value="">{t('tenantWhatsapp.templates.select')}</option>
+            {templates.map((row) => (
+              <option key={row.id} value={row.id}>
+                {templateLabel(row)} · {t(`whatsappTemplates.category.${row.category}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={() => template && onSend(template, parameters.map((value) => value.trim()))}
+          disabled={disabled || sending || !complete}
+          aria-label={t('tenantWhatsapp.templates.send')}
+          title={t('tenantWhatsapp.templates.send')}
+          className="shrink-0 inline-flex h-10 w-10 items-center justify-center rounded-full bg-primary-600 text-white shadow-sm hover:bg-primary-700 disabled:opacity-40 disabled:hover:bg-primary-600 disabled:cursor-not-allowed transition-colors"
+        >
+          {sending ? (
+            <span className="inline-block w-4 h-4 border-2 border-white/40 border-t-white rounded-full animate-spin" />
+          ) : (
+            <Icon name="send" className="w-5 h-5 rtl:-scale-x-100" />
+          )}
+        </button>
+      </div>
+
+      {template && slotCount > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {parameters.map((value, index) => (
+            <input
+              key={index}
+              type="text"
+              value={value}
+              onChange={(e) =>
+                setParameters((prev) => prev.map((current, i) => (i === index ? e.target.value : current)))
+              }
+              disabled={disabled || sending}
+              placeholder={t('tenantWhatsapp.templates.slot').replace('{slot}', `{{${index + 1}}}`)}
+              className={inputClasses}
+            />
+          ))}
+        </div>
+      )}
+
+      {template && (
+        <div className="rounded-lg border border-dashed border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900/50 px-2.5 py-1.5">
+          <p className="text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-0.5">
+            {t('tenantWhatsapp.templates.preview')}
+          </p>
+          {template.header_text && (
+            <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{template.header_text}</p>
+          )}
+          <WhatsAppFormattedText
+            text={fillTemplateBody(template.body, parameters)}
+            as="div"
+            className="text-sm whitespace-pre-wrap break-words text-gray-900 dark:text-gray-100"
+          />
+          {template.footer_text && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{template.footer_text}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WhatsAppTemplateComposer;
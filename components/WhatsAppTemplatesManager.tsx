@@ -0,0 +1,131 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { WhatsAppTemplate } from '../types';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { getWhatsAppTemplatesAPI, syncWhatsAppTemplatesAPI } from '../services/api';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { withLatinDigits } from '../utils/latinNumerals';
+import { templateSlotCount } from '../utils/whatsappTemplates';
+import LoadingButton from './LoadingButton';
+import LoadingSpinner from './LoadingSpinner';
+
+const CATEGORY_STYLES: Record<WhatsAppTemplate['category'], string> = {
+  UTILITY: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200',
+  MARKETING: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-200',
+  AUTHENTICATION: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+};
+
+/** Approved Meta message templates for the platform number, as last synced; shown in Settings → Platform WhatsApp. */
+const WhatsAppTemplatesManager: React.FC = () => {
+  const { t } = useI18n();
+  const { showAlert, showToast } = useAlert();
+  const { addLog } = useAuditLog();
+  const [templates, setTemplates] = useState<WhatsAppTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await getWhatsAppTemplatesAPI({ status: 'APPROVED' });
+      setTemplates(res.results || []);
+    } catch (error) {
+      console.error('Failed to load WhatsApp templates', error);
+      showAlert(translateAdminApiError(error, t) || t('whatsappTemplates.loadError'), { variant: 'error' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showAlert, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const res = await syncWhatsAppTemplatesAPI();
+      addLog('audit.log.whatsappTemplatesSynced', { count: res?.approved ?? 0 });
+      showToast(t('whatsappTemplates.syncSuccess').replace('{count}', String(res?.approved ?? 0)), { variant: 'success' });
+      await load();
+    } catch (error) {
+      showAlert(translateAdminApiError(error, t) || t('whatsappTemplates.syncError'), { variant: 'error' });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const lastSynced = useMemo(() => {
+    const times = templates.map((row) => (row.synced_at ? new Date(row.synced_at).getTime() : 0)).filter(Boolean);
+    return times.length ? new Date(Math.max(...times)) : null;
+  }, [templates]);
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-4 bg-white dark:bg-gray-900/40">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-white">{t('whatsappTemplates.title')}</h4>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('whatsappTemplates.description')}</p>
+          {lastSynced && (
+            <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">
+              {t('whatsappTemplates.lastSynced').replace(
+                '{time}',
+                lastSynced.toLocaleString(undefined, withLatinDigits({ dateStyle: 'medium', timeStyle: 'short' }))
+              )}
+            </p>
+          )}
+        </div>
+        <LoadingButton
+          type="button"
+          variant="secondary"
+          icon="refresh"
+          onClick={() => void handleSync()}
+          isLoading={isSyncing}
+          loadingText={t('whatsappTemplates.syncing')}
+        >
+          {t('whatsappTemplates.sync')}
+        </LoadingButton>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6"><LoadingSpinner /></div>
+      ) : templates.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('whatsappTemplates.empty')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-start text-gray-600 dark:text-gray-300">
+            <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+              <tr>
+                <th scope="col" className="px-3 py-2 text-start">{t('whatsappTemplates.name')}</th>
+                <th scope="col" className="px-3 py-2 text-start">{t('whatsappTemplates.language')}</th>
+                <th scope="col" className="px-3 py-2 text-start">{t('whatsappTemplates.category')}</th>
+                <th scope="col" className="px-3 py-2 text-start">{t('whatsappTemplates.body')}</th>
+                <th scope="col" className="px-3 py-2 text-end">{t('whatsappTemplates.variables')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map((row) => (
+                <tr key={row.id} className="border-b border-gray-100 dark:border-gray-700 last:border-b-0 align-top">
+                  <td className="px-3 py-2 font-mono text-xs text-gray-900 dark:text-white">{row.name}</td>
+                  <td className="px-3 py-2 text-xs">{row.language}</td>
+                  <td className="px-3 py-2">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${CATEGORY_STYLES[row.category] || CATEGORY_STYLES.UTILITY}`}>
+                      {t(`whatsappTemplates.category.${row.category}`)}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-xs max-w-md">
+                    <span className="line-clamp-3 whitespace-pre-wrap" dir="auto">{row.body}</span>
+                  </td>
+                  <td className="px-3 py-2 text-end text-xs">{templateSlotCount(row.body)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WhatsAppTemplatesManager;
@@ -1,5 +1,6 @@
-import React, { createContext, useState, useContext, useCallback, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useCallback, useRef, ReactNode } from 'react';
 import AlertDialog from '../components/AlertDialog';
+import ToastStack from '../components/ToastStack';
 
 export type AlertVariant = 'error' | 'warning' | 'info' | 'success';
 
@@ -8,18 +9,36 @@ export interface AlertOptions {
   variant?: AlertVariant;
 }
 
+export interface ToastOptions extends AlertOptions {
+  /** Runs when the toast body is clicked (the toast closes too), e.g. to open a deep link. */
+  onClick?: () => void;
+  durationMs?: number;
+}
+
 interface AlertState {
   message: string;
   title?: string;
   variant: AlertVariant;
 }
 
+export interface ToastState extends AlertState {
+  id: number;
+  onClick?: () => void;
+}
+
 interface AlertContextType {
   showAlert: (message: string, options?: AlertOptions) => void;
   alert: AlertState | null;
   closeAlert: () => void;
+  /** Non-blocking message in the corner that closes by itself; unlike `showAlert`, several can stack. */
+  showToast: (message: string, options?: ToastOptions) => void;
+  toasts: ToastState[];
+  dismissToast: (id: number) => void;
 }
 
+const DEFAULT_TOAST_MS = 6000;
+const MAX_TOASTS = 4;
+
 const AlertContext = createContext<AlertContextType | undefined>(undefined);
 
 export const AlertProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
@@ -35,10 +54,27 @@ export const AlertProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     });
   }, []);
 
+  const [toasts, setToasts] = useState<ToastState[]>([]);
+  const nextToastId = useRef(1);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts((prev) => prev.filter((toast) => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback((message: string, options?: ToastOptions) => {
+    const id = nextToastId.current++;
+    setToasts((prev) => [
+      ...prev.slice(-(MAX_TOASTS - 1)),
+      { id, message, title: options?.title, variant: options?.variant ?? 'info', onClick: options?.onClick },
+    ]);
+    window.setTimeout(() => dismissToast(id), options?.durationMs ?? DEFAULT_TOAST_MS);
+  }, [dismissToast]);
+
   return (
-    <AlertContext.Provider value={{ showAlert, alert, closeAlert }}>
+    <AlertContext.Provider value={{ showAlert, alert, closeAlert, showToast, toasts, dismissToast }}>
       {children}
       <AlertDialog />
+      <ToastStack />
     </AlertContext.Provider>
   );
 };
@@ -1,57 +1,207 @@
-
-import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect } from 'react';
-import { AuditLog } from '../types';
-import { getSystemAuditLogsAPI } from '../services/api';
+import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect, useRef } from 'react';
+import { AuditLog, AuditLogDetails } from '../types';
+import { createSystemAuditLogAPI, type ApiError } from '../services/api';
+import { useUser } from './UserContext';
 
 interface AuditLogContextType {
-  logs: AuditLog[];
-  addLog: (actionKey: string, params?: Record<string, string | number>) => void;
+  /** Entries recorded in this browser that the server has not stored yet (queued or in flight). */
+  pendingLogs: AuditLog[];
+  addLog: (actionKey: string, params?: Record<string, string | number>, details?: AuditLogDetails) => void;
+  /** Incremented each time queued entries reach the server, so server-backed lists can refetch. */
+  syncVersion: number;
 }
 
 const AuditLogContext = createContext<AuditLogContextType | undefined>(undefined);
 
+/** Shared queue from before it was kept per admin; migrated by actor on the next login. */
+const LEGACY_PENDING_STORAGE_KEY = 'auditLog.pendingQueue';
+const RETRY_INTERVAL_MS = 30000;
+/** Oldest entries are dropped beyond this so a long offline stretch cannot fill localStorage. */
+const MAX_PENDING_ENTRIES = 200;
+
+/** Each admin has their own queue, so entries are never replayed under another admin's session. */
+const pendingStorageKey = (userId: number) => `auditLog.pendingQueue.${userId}`;
+
+const readQueue = (key: string): AuditLog[] => {
+  try {
+    const raw = localStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as AuditLog[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const loadPendingQueue = (userId: number, actor: string): AuditLog[] => {
+  if (typeof window === 'undefined') return [];
+  const queue = readQueue(pendingStorageKey(userId));
+  const legacy = readQueue(LEGACY_PENDING_STORAGE_KEY);
+  if (legacy.length === 0) return queue;
+  // Only this admin's own entries move over; anyone else's cannot be sent with this session.
+  localStorage.removeItem(LEGACY_PENDING_STORAGE_KEY);
+  const migrated = [...queue, ...legacy.filter((entry) => entry.user === actor)];
+  persistPendingQueue(userId, migrated);
+  return migrated;
+};
+
+const persistPendingQueue = (userId: number, queue: AuditLog[]) => {
+  if (typeof window === 'undefined') return;
+  if (queue.length === 0) {
+    localStorage.removeItem(pendingStorageKey(userId));
+  } else {
+    localStorage.setItem(pendingStorageKey(userId), JSON.stringify(queue));
+  }
+};
+
+/** Network failures, 5xx and throttling are retried; other 4xx will be rejected again on every attempt. */
+const isRetryableError = (error: unknown) => {
+  const status = (error as Partial<ApiError>)?.status;
+  return status == null || status >= 500 || status === 401 || status === 408 || status === 429;
+};
+
+const createClientId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+/** Map a GET /settings/audit-logs/ row to the panel's AuditLog shape. */
+export const mapApiAuditLog = (log: any): AuditLog => {
+  const { changes, company_id, client_id, ...params } = log.metadata || {};
+  const companyId = Number(log.company ?? company_id);
+  return {
+    id: log.id,
+    user: log.actor_email || log.actor_username || 'system',
+    action: { key: log.action, params },
+    timestamp: log.occurred_at || log.created_at,
+    clientId: log.client_id || client_id || undefined,
+    changes: changes && typeof changes === 'object' && Object.keys(changes).length > 0 ? changes : undefined,
+    companyId: Number.isFinite(companyId) && companyId > 0 ? companyId : undefined,
+  };
+};
+
 export const AuditLogProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const { user } = useUser();
+  const [pendingLogs, setPendingLogs] = useState<AuditLog[]>([]);
+  const [syncVersion, setSyncVersion] = useState(0);
+  const queueRef = useRef<AuditLog[]>(pendingLogs);
+  /** Admin whose queue is loaded; null while signed out or while the profile is still loading. */
+  const ownerRef = useRef<number | null>(null);
+  const flushingRef = useRef(false);
 
-  const addLog = useCallback((actionKey: string, params: Record<string, string | number> = {}) => {
-    const newLog: AuditLog = {
-      id: Date.now(), // Use timestamp for unique ID
-      user: 'admin1@system.com', // Hardcoded for this example
-      action: { key: actionKey, params },
-      timestamp: new Date().toISOString(),
-    };
-    setLogs(prevLogs => [newLog, ...prevLogs]);
+  const updateQueue = useCallback((updater: (queue: AuditLog[]) => AuditLog[]) => {
+    const next = updater(queueRef.current).slice(0, MAX_PENDING_ENTRIES);
+    queueRef.current = next;
+    if (ownerRef.current != null) persistPendingQueue(ownerRef.current, next);
+    setPendingLogs(next);
   }, []);
 
-  const loadLogs = useCallback(async () => {
-    // Only load logs if user is authenticated
-    const hasToken = localStorage.getItem('accessToken');
-    if (!hasToken) {
+  // Swap to the signed-in admin's queue; on logout the previous queue stays stored under its owner.
+  // Entries logged before the profile resolved are only held in memory until then; they move into
+  // this admin's stored queue so a reload or a failed send does not lose them.
+  const userId = user?.id ?? null;
+  const actor = user?.email || user?.username || '';
+  useEffect(() => {
+    const previousOwner = ownerRef.current;
+    ownerRef.current = userId;
+    if (userId == null) {
+      if (previousOwner != null) {
+        queueRef.current = [];
+        setPendingLogs([]);
+      }
       return;
     }
-    
+    const buffered = previousOwner == null
+      ? queueRef.current.map((entry) => (entry.user ? entry : { ...entry, user: actor }))
+      : [];
+    const queue = [...buffered, ...loadPendingQueue(userId, actor)].slice(0, MAX_PENDING_ENTRIES);
+    if (buffered.length > 0) persistPendingQueue(userId, queue);
+    queueRef.current = queue;
+    setPendingLogs(queue);
+  }, [userId, actor]);
+
+  const flushQueue = useCallback(async () => {
+    if (flushingRef.current || queueRef.current.length === 0) return;
+    if (!localStorage.getItem('accessToken')) return;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+    flushingRef.current = true;
+    const owner = ownerRef.current;
+    let sent = 0;
     try {
-        const response = await getSystemAuditLogsAPI();
-        const apiLogs = (response.results || []).map((log: any) => ({
-            id: log.id,
-            user: log.actor_email || 'system',
-            action: { key: log.action, params: log.metadata || {} },
-            timestamp: log.created_at,
-        })) as AuditLog[];
-        setLogs(apiLogs);
-    } catch (error) {
-        console.error('Failed to load audit logs', error);
-        // Clear logs on error to prevent stale data
-        setLogs([]);
+      // Oldest first so the server receives entries in the order they happened.
+      const batch = [...queueRef.current].reverse();
+      for (const entry of batch) {
+        if (ownerRef.current !== owner) break;
+        try {
+          await createSystemAuditLogAPI({
+            action: entry.action.key,
+            metadata: {
+              ...entry.action.params,
+              ...(entry.changes ? { changes: entry.changes } : {}),
+              ...(entry.companyId != null ? { company_id: entry.companyId } : {}),
+            },
+            client_id: entry.clientId || String(entry.id),
+            occurred_at: entry.timestamp,
+            actor_email: entry.user || undefined,
+          });
+          updateQueue((queue) => queue.filter((item) => item.clientId !== entry.clientId));
+          sent += 1;
+        } catch (error) {
+          if (isRetryableError(error)) {
+            console.error('Failed to send audit log entry, will retry', error);
+            break;
+          }
+          // Rejected for good (validation, permissions): drop it so it does not block the rest.
+          console.error('Audit log entry rejected by the server, dropping it', error);
+          updateQueue((queue) => queue.filter((item) => item.clientId !== entry.clientId));
+        }
+      }
+    } finally {
+      flushingRef.current = false;
+      if (sent > 0) setSyncVersion((v) => v + 1);
     }
-  }, []);
+  }, [updateQueue]);
+
+  const addLog = useCallback((
+    actionKey: string,
+    params: Record<string, string | number> = {},
+    details?: AuditLogDetails,
+  ) => {
+    const newLog: AuditLog = {
+      id: Date.now(),
+      user: user?.email || user?.username || '',
+      action: { key: actionKey, params },
+      timestamp: new Date().toISOString(),
+      clientId: createClientId(),
+      pending: true,
+      changes: details?.changes && Object.keys(details.changes).length > 0 ? details.changes : undefined,
+      companyId: details?.companyId,
+    };
+    updateQueue((queue) => [newLog, ...queue]);
+    void flushQueue();
+  }, [user, updateQueue, flushQueue]);
+
+  // Retry queued entries after login, on reconnect, and periodically while anything is pending.
+  useEffect(() => {
+    if (user) void flushQueue();
+  }, [user, flushQueue]);
+
+  useEffect(() => {
+    const handleOnline = () => void flushQueue();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [flushQueue]);
 
   useEffect(() => {
-    loadLogs();
-  }, [loadLogs]);
+    if (pendingLogs.length === 0) return;
+    const intervalId = window.setInterval(() => void flushQueue(), RETRY_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [pendingLogs.length, flushQueue]);
 
   return (
-    <AuditLogContext.Provider value={{ logs, addLog }}>
+    <AuditLogContext.Provider value={{ pendingLogs, addLog, syncVersion }}>
       {children}
     </AuditLogContext.Provider>
   );
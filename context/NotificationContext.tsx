@@ -0,0 +1,275 @@
+import React, { createContext, useState, useContext, useCallback, useEffect, useMemo, ReactNode } from 'react';
+import { useNavigate } from 'react-router';
+import { AdminNotification, AdminNotificationType } from '../types';
+import { useAlert } from './AlertContext';
+import { useI18n } from './i18n';
+import { useUser } from './UserContext';
+import { useRealtimeEvent } from '../hooks/useRealtime';
+import {
+  getAdminNotificationsAPI,
+  markAdminNotificationReadAPI,
+  markAllAdminNotificationsReadAPI,
+} from '../services/api';
+import { NOTIFICATION_TYPE_STYLES, formatNotificationMessage, mapApiNotification } from '../utils/notifications';
+
+const PAGE_SIZE = 30;
+
+export interface NotificationPreferences {
+  /** Muted types are left out of the list, the unread count, toasts and desktop notifications. */
+  muted: AdminNotificationType[];
+  desktop: boolean;
+}
+
+const defaultPreferences: NotificationPreferences = { muted: [], desktop: false };
+
+// Kept per browser (desktop permission is per browser too) and per admin, so a shared machine does not mix them
+const preferencesKey = (userId: number) => `notifications.preferences.${userId}`;
+
+const readPreferences = (userId: number): NotificationPreferences => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(preferencesKey(userId)) || 'null');
+    return {
+      muted: Array.isArray(parsed?.muted) ? parsed.muted : [],
+      desktop: parsed?.desktop === true,
+    };
+  } catch {
+    return defaultPreferences;
+  }
+};
+
+export type DesktopPermission = NotificationPermission | 'unsupported';
+
+const currentDesktopPermission = (): DesktopPermission =>
+  typeof window !== 'undefined' && 'Notification' in window ? Notification.permission : 'unsupported';
+
+interface NotificationContextType {
+  /** Loaded notifications, newest first, without muted types. */
+  notifications: AdminNotification[];
+  /** Server-side count of unread, unmuted notifications, not just the loaded pages. */
+  unreadCount: number;
+  isLoading: boolean;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+  /** Marks it read and follows its deep link. */
+  openNotification: (notification: AdminNotification) => void;
+  markRead: (id: number) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  preferences: NotificationPreferences;
+  setTypeMuted: (type: AdminNotificationType, muted: boolean) => void;
+  /** Asks the browser for permission first; resolves to whether desktop notifications are now on. */
+  setDesktopEnabled: (enabled: boolean) => Promise<boolean>;
+  desktopPermission: DesktopPermission;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, canAccessCompany } = useUser();
+  const { showToast } = useAlert();
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const [items, setItems] = useState<AdminNotification[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [preferences, setPreferences] = useState<NotificationPreferences>(defaultPreferences);
+  const [desktopPermission, setDesktopPermission] = useState<DesktopPermission>(currentDesktopPermission);
+
+  const userId = user?.id ?? null;
+
+  /** Reloads the first page; rows already loaded from later pages are kept. */
+  const refreshList = useCallback(async () => {
+    if (userId == null) return;
+    setIsLoading(true);
+    try {
+      const data = await getAdminNotificationsAPI({ page: 1, page_size: PAGE_SIZE });
+      const fresh = (data.results || []).map(mapApiNotification);
+      setItems((prev) => {
+        const freshIds = new Set(fresh.map((n) => n.id));
+        const oldest = fresh.length ? fresh[fresh.length - 1].createdAt : '';
+        return [...fresh, ...prev.filter((n) => !freshIds.has(n.id) && n.createdAt < oldest)];
+      });
+      setHasMore((prev) => prev || Boolean(data.next));
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  const loadMore = useCallback(async () => {
+    if (userId == null || !hasMore) return;
+    setIsLoading(true);
+    try {
+      const data = await getAdminNotificationsAPI({ page: page + 1, page_size: PAGE_SIZE });
+      const rows = (data.results || []).map(mapApiNotification);
+      setItems((prev) => [...prev, ...rows.filter((n) => !prev.some((p) => p.id === n.id))]);
+      setPage(page + 1);
+      setHasMore(Boolean(data.next));
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, hasMore, page]);
+
+  const mutedKey = preferences.muted.join(',');
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (userId == null) return;
+    try {
+      const data = await getAdminNotificationsAPI({ unread: true, page_size: 1, exclude_type: mutedKey });
+      setUnreadCount(data.count ?? 0);
+    } catch (error) {
+      console.error('Error loading unread notifications count:', error);
+    }
+  }, [userId, mutedKey]);
+
+  const refresh = useCallback(async () => {
+    await Promise.all([refreshList(), refreshUnreadCount()]);
+  }, [refreshList, refreshUnreadCount]);
+
+  useEffect(() => {
+    setItems([]);
+    setPage(1);
+    setHasMore(false);
+    setUnreadCount(0);
+    if (userId == null) {
+      setPreferences(defaultPreferences);
+      return;
+    }
+    setPreferences(readPreferences(userId));
+    void refreshList();
+  }, [userId, refreshList]);
+
+  // Also reruns when a type is muted or unmuted, since muted types are left out of the count
+  useEffect(() => {
+    void refreshUnreadCount();
+  }, [refreshUnreadCount]);
+
+  const savePreferences = useCallback((next: NotificationPreferences) => {
+    setPreferences(next);
+    if (userId != null) localStorage.setItem(preferencesKey(userId), JSON.stringify(next));
+  }, [userId]);
+
+  const isVisible = useCallback(
+    (n: AdminNotification) => !preferences.muted.includes(n.type) && (n.companyId == null || canAccessCompany(n.companyId)),
+    [preferences.muted, canAccessCompany],
+  );
+
+  const notifications = useMemo(() => items.filter(isVisible), [items, isVisible]);
+
+  const markRead = useCallback(async (id: number) => {
+    const target = items.find((n) => n.id === id);
+    if (!target || target.readAt) return;
+    const readAt = new Date().toISOString();
+    const counted = isVisible(target);
+    setItems((prev) => prev.map((n) => (n.id === id ? { ...n, readAt } : n)));
+    if (counted) setUnreadCount((count) => Math.max(0, count - 1));
+    try {
+      await markAdminNotificationReadAPI(id);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      setItems((prev) => prev.map((n) => (n.id === id ? { ...n, readAt: null } : n)));
+      if (counted) setUnreadCount((count) => count + 1);
+    }
+  }, [items, isVisible]);
+
+  const markAllRead = useCallback(async () => {
+    const previous = items;
+    const previousCount = unreadCount;
+    const readAt = new Date().toISOString();
+    setItems((prev) => prev.map((n) => (n.readAt ? n : { ...n, readAt })));
+    setUnreadCount(0);
+    try {
+      await markAllAdminNotificationsReadAPI();
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      setItems(previous);
+      setUnreadCount(previousCount);
+    }
+  }, [items, unreadCount]);
+
+  const openNotification = useCallback((notification: AdminNotification) => {
+    void markRead(notification.id);
+    if (notification.link) navigate(notification.link);
+  }, [markRead, navigate]);
+
+  const setTypeMuted = useCallback((type: AdminNotificationType, muted: boolean) => {
+    const rest = preferences.muted.filter((m) => m !== type);
+    savePreferences({ ...preferences, muted: muted ? [...rest, type] : rest });
+  }, [preferences, savePreferences]);
+
+  const setDesktopEnabled = useCallback(async (enabled: boolean) => {
+    if (!enabled) {
+      savePreferences({ ...preferences, desktop: false });
+      return false;
+    }
+    if (currentDesktopPermission() === 'unsupported') return false;
+    const permission = Notification.permission === 'default' ? await Notification.requestPermission() : Notification.permission;
+    setDesktopPermission(permission);
+    savePreferences({ ...preferences, desktop: permission === 'granted' });
+    return permission === 'granted';
+  }, [preferences, savePreferences]);
+
+  useRealtimeEvent(['notification.created'], (event) => {
+    const notification = mapApiNotification(event.notification);
+    if (!notification.id || items.some((n) => n.id === notification.id)) return;
+    setItems((prev) => (prev.some((n) => n.id === notification.id) ? prev : [notification, ...prev]));
+    if (!isVisible(notification) || !notification.type) return;
+    if (!notification.readAt) setUnreadCount((count) => count + 1);
+
+    const title = t(`notifications.type.${notification.type}`);
+    const message = formatNotificationMessage(notification, t);
+    showToast(message, {
+      title,
+      variant: NOTIFICATION_TYPE_STYLES[notification.type].variant,
+      onClick: () => openNotification(notification),
+    });
+    // Desktop notifications only while the panel is in the background; the toast covers the visible case
+    if (preferences.desktop && currentDesktopPermission() === 'granted' && document.hidden) {
+      const desktop = new Notification(title, { body: message, tag: `admin-notification-${notification.id}` });
+      desktop.onclick = () => {
+        window.focus();
+        openNotification(notification);
+        desktop.close();
+      };
+    }
+  });
+
+  useRealtimeEvent(['resync'], () => {
+    void refresh();
+  });
+
+  return (
+    <NotificationContext.Provider
+      value={{
+        notifications,
+        unreadCount,
+        isLoading,
+        hasMore,
+        loadMore,
+        refresh,
+        openNotification,
+        markRead,
+        markAllRead,
+        preferences,
+        setTypeMuted,
+        setDesktopEnabled,
+        desktopPermission,
+      }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+};
+
+export const useNotifications = (): NotificationContextType => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
@@ -1,5 +1,13 @@
-import React, { createContext, useState, useContext, useEffect, useCallback, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useCallback, useMemo, ReactNode } from 'react';
 import { getCurrentUserAPI } from '../services/api';
+import { PermissionAction, PermissionLevel, PermissionResource } from '../types';
+import {
+  EffectivePermissions,
+  LEGACY_FLAG_RESOURCE,
+  levelAllows,
+  mapApiRole,
+  permissionsFromLegacyFlags,
+} from '../utils/permissions';
 
 interface LimitedAdminPermissions {
   can_view_dashboard: boolean;
@@ -18,6 +26,8 @@ interface LimitedAdmin {
   id: number;
   is_active: boolean;
   permissions: LimitedAdminPermissions;
+  /** Expanded role (see `/admin-roles/`); overrides `permissions` when present. */
+  role?: unknown;
 }
 
 interface User {
@@ -36,6 +46,9 @@ interface User {
   email_verified: boolean;
   is_superuser: boolean;
   limited_admin?: LimitedAdmin;
+  two_factor_enabled?: boolean;
+  /** Set when the 2FA policy applies to this account (limited admins while enforcement is on). */
+  two_factor_required?: boolean;
 }
 
 interface UserContextType {
@@ -44,6 +57,13 @@ interface UserContextType {
   refreshUser: () => Promise<void>;
   hasPermission: (permission: keyof LimitedAdminPermissions) => boolean;
   isSuperAdmin: () => boolean;
+  /** Role-level check, e.g. `can('tenants', 'delete')`; super admins can do everything. */
+  can: (resource: PermissionResource, level?: PermissionLevel) => boolean;
+  canAction: (action: PermissionAction) => boolean;
+  /** False when the admin's role is scoped to other companies. */
+  canAccessCompany: (companyId: number | null | undefined) => boolean;
+  /** Companies the admin's role is limited to; null when it covers every company. */
+  scopedCompanyIds: number[] | null;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
@@ -77,26 +97,52 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     await loadUser();
   }, [loadUser]);
 
+  const effectivePermissions = useMemo((): EffectivePermissions | null => {
+    const limitedAdmin = user?.limited_admin;
+    if (!limitedAdmin) return null;
+    if (limitedAdmin.role && typeof limitedAdmin.role === 'object') return mapApiRole(limitedAdmin.role);
+    return permissionsFromLegacyFlags(limitedAdmin.permissions || {});
+  }, [user]);
+
+  const can = useCallback((resource: PermissionResource, level: PermissionLevel = 'read'): boolean => {
+    if (!user) return false;
+    if (user.is_superuser) return true;
+    return levelAllows(effectivePermissions?.resources[resource], level);
+  }, [user, effectivePermissions]);
+
+  const canAction = useCallback((action: PermissionAction): boolean => {
+    if (!user) return false;
+    if (user.is_superuser) return true;
+    return effectivePermissions?.actions.includes(action) ?? false;
+  }, [user, effectivePermissions]);
+
+  const scopedCompanyIds = useMemo((): number[] | null => {
+    if (!user || user.is_superuser) return null;
+    return effectivePermissions?.companyIds ?? null;
+  }, [user, effectivePermissions]);
+
+  const canAccessCompany = useCallback((companyId: number | null | undefined): boolean => {
+    if (!user) return false;
+    if (user.is_superuser || !effectivePermissions?.companyIds) return true;
+    return companyId != null && effectivePermissions.companyIds.includes(Number(companyId));
+  }, [user, effectivePermissions]);
+
+  // Page-level flag check; with a role assigned, a flag means at least read access to its resource
   const hasPermission = useCallback((permission: keyof LimitedAdminPermissions): boolean => {
     if (!user) return false;
     
     // Super admin has all permissions
     if (user.is_superuser) return true;
     
-    // Check limited admin permissions
-    if (user.limited_admin?.permissions) {
-      return user.limited_admin.permissions[permission] || false;
-    }
-    
-    return false;
-  }, [user]);
+    return can(LEGACY_FLAG_RESOURCE[permission], 'read');
+  }, [user, can]);
 
   const isSuperAdmin = useCallback((): boolean => {
     return user?.is_superuser || false;
   }, [user]);
 
   return (
-    <UserContext.Provider value={{ user, loading, refreshUser, hasPermission, isSuperAdmin }}>
+    <UserContext.Provider value={{ user, loading, refreshUser, hasPermission, isSuperAdmin, can, canAction, canAccessCompany, scopedCompanyIds }}>
       {children}
     </UserContext.Provider>
   );
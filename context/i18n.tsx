@@ -878,7 +878,7 @@ const arTranslations = {
   "communication.filters.title": "تصفية السجل",
   "communication.filters.searchPlaceholder": "ابحث بالموضوع",
   "tenantWhatsapp.title": "مراسلة الشركات عبر واتساب",
-  "tenantWhatsapp.subtitle": "اختر شركة وأرسل رسالة إلى رقم مالك الشركة عبر رقم واتساب المنصة (Cloud API).",
+  "tenantWhatsapp.subtitle": "محادثات مالكي الشركات عبر رقم واتساب المنصة (Cloud API)، الأحدث نشاطًا أولًا.",
   "tenantWhatsapp.selectCompany": "الشركة",
   "tenantWhatsapp.ownerPhone": "هاتف المالك",
   "tenantWhatsapp.noMessages": "لا توجد رسائل بعد. اضبط واتساب المنصة من الإعدادات، ثم أرسل رسالة.",
@@ -975,6 +975,751 @@ const arTranslations = {
   "content.notify.action": "إشعار",
   "content.status.notified": "تم الإشعار",
   "content.table.notified": "الإشعار",
+  "settings.audit.empty": "لا توجد سجلات أنشطة بعد.",
+  "settings.audit.loadError": "فشل تحميل سجل الأنشطة.",
+  "settings.audit.pending": "بانتظار المزامنة",
+  "settings.audit.pendingHint": "محفوظ في هذا المتصفح وسيُرسل إلى الخادم تلقائياً.",
+  "common.yes": "نعم",
+  "common.no": "لا",
+  "settings.audit.table.company": "الشركة",
+  "settings.audit.groupByAction": "تجميع حسب الإجراء",
+  "settings.audit.facets.actors": "أكثر المستخدمين نشاطاً",
+  "settings.audit.facets.actions": "أكثر الإجراءات تكراراً",
+  "settings.audit.diff.field": "الحقل",
+  "settings.audit.diff.before": "قبل",
+  "settings.audit.diff.after": "بعد",
+  "settings.audit.diff.show": "عرض التغييرات",
+  "settings.audit.diff.hide": "إخفاء التغييرات",
+  "settings.audit.filters.open": "الفلاتر",
+  "settings.audit.filters.title": "فلترة سجل الأنشطة",
+  "settings.audit.filters.who": "المستخدم والإجراء",
+  "settings.audit.filters.actor": "المستخدم",
+  "settings.audit.filters.allActors": "كل المستخدمين",
+  "settings.audit.filters.action": "الإجراء",
+  "settings.audit.filters.allActions": "كل الإجراءات",
+  "settings.audit.filters.company": "الشركة المتأثرة",
+  "settings.audit.filters.allCompanies": "كل الشركات",
+  "settings.audit.filters.dates": "نطاق التاريخ",
+  "settings.audit.filters.from": "من",
+  "settings.audit.filters.to": "إلى",
+  "settings.audit.filters.invalidRange": "يجب أن يكون تاريخ البداية قبل تاريخ النهاية.",
+  "settings.audit.filters.noResults": "لا توجد سجلات مطابقة للفلاتر المحددة.",
+  "export.button": "تصدير",
+  "export.title": "تصدير البيانات",
+  "export.format": "صيغة الملف",
+  "export.formats.xlsx": "Excel (XLSX)",
+  "export.formats.csv": "CSV",
+  "export.columns": "الأعمدة",
+  "export.selectAll": "تحديد الكل",
+  "export.selectNone": "إلغاء الكل",
+  "export.noColumns": "اختر عموداً واحداً على الأقل.",
+  "export.filtersApplied": "سيتم تطبيق الفلاتر الحالية. يتم تصدير جميع الصفوف المطابقة وليس المعروضة فقط.",
+  "export.allRows": "سيتم تصدير جميع الصفوف وليس المعروضة فقط.",
+  "export.confirm": "تصدير",
+  "export.exporting": "جاري تجهيز الملف...",
+  "export.empty": "لا توجد صفوف للتصدير.",
+  "export.error": "تعذر تصدير البيانات. يرجى المحاولة مرة أخرى.",
+  "export.success": "تم تصدير {count} صف.",
+  "export.fields.currency": "العملة",
+  "export.fields.amountUsd": "المبلغ (بالدولار)",
+  "export.fields.description": "الوصف",
+  "export.fields.createdAt": "تاريخ الإنشاء",
+  "tenants.loadError": "تعذر تحميل المستأجرين. يرجى المحاولة مرة أخرى.",
+  "tenants.actions.openDetail": "فتح صفحة الشركة",
+  "tenants.detail.back": "→ العودة إلى الشركات",
+  "tenants.detail.notFound": "تعذر العثور على هذه الشركة. ربما تم حذفها.",
+  "tenants.detail.loadError": "تعذر تحميل تفاصيل الشركة. يرجى المحاولة مرة أخرى.",
+  "tenants.detail.sectionError": "تعذر تحميل هذا القسم.",
+  "tenants.detail.profile": "ملف الشركة",
+  "tenants.detail.owner": "بيانات تواصل المالك",
+  "tenants.detail.subscriptions": "سجل الاشتراكات",
+  "tenants.detail.payments": "المدفوعات",
+  "tenants.detail.invoices": "الفواتير",
+  "tenants.detail.tickets": "تذاكر الدعم",
+  "tenants.detail.whatsapp": "محادثة واتساب",
+  "tenants.detail.policies": "استثناءات التكاملات والميزات",
+  "tenants.detail.audit": "سجل التدقيق",
+  "tenants.detail.viewAll": "عرض الكل",
+  "tenants.detail.openThread": "فتح المحادثة",
+  "tenants.detail.manage": "إدارة",
+  "tenants.detail.empty.subscriptions": "لا توجد اشتراكات بعد.",
+  "tenants.detail.empty.payments": "لا توجد مدفوعات لهذه الشركة.",
+  "tenants.detail.empty.invoices": "لا توجد فواتير لهذه الشركة.",
+  "tenants.detail.empty.tickets": "لا توجد تذاكر دعم من هذه الشركة.",
+  "tenants.detail.empty.policies": "لا توجد استثناءات خاصة بهذه الشركة؛ تنطبق الإعدادات العامة.",
+  "tenants.detail.empty.audit": "لا توجد سجلات تدقيق لهذه الشركة.",
+  "tenants.detail.policy.integration": "تكامل",
+  "tenants.detail.policy.feature": "ميزة",
+  "tenants.detail.policy.global": "الإعداد العام: {state}",
+  "tenants.bulk.selectedCount": "تم تحديد {count}",
+  "tenants.bulk.selectAllMatching": "تحديد جميع الشركات المطابقة ({count})",
+  "tenants.bulk.clear": "إلغاء التحديد",
+  "tenants.bulk.actions.extend": "تمديد تاريخ الانتهاء",
+  "tenants.bulk.actions.changePlan": "تغيير الخطة",
+  "tenants.bulk.actions.activate": "تفعيل",
+  "tenants.bulk.actions.deactivate": "تعطيل",
+  "tenants.bulk.actions.whatsapp": "إرسال واتساب",
+  "tenants.bulk.actions.broadcast": "إرسال تعميم",
+  "tenants.bulk.days": "عدد الأيام المضافة",
+  "tenants.bulk.daysHint": "يتم تأخير تاريخ انتهاء الاشتراك الحالي لكل شركة بهذا العدد من الأيام.",
+  "tenants.bulk.deactivateWarning": "سيتم تعطيل الاشتراك النشط لكل شركة محددة. يتم تخطي الشركات التي ليس لديها اشتراك نشط.",
+  "tenants.bulk.message": "الرسالة",
+  "tenants.bulk.whatsappHint": "تُرسل من رقم واتساب المنصة إلى هاتف مالك كل شركة.",
+  "tenants.bulk.run": "تطبيق على {count} شركة",
+  "tenants.bulk.progress": "تمت معالجة {done} من {total}",
+  "tenants.bulk.retryFailed": "إعادة محاولة {count} فاشلة",
+  "tenants.bulk.rowFailed": "فشل الطلب",
+  "tenants.bulk.status.pending": "في الانتظار",
+  "tenants.bulk.status.running": "قيد التنفيذ",
+  "tenants.bulk.status.success": "تم",
+  "tenants.bulk.status.failed": "فشل",
+  "tenants.bulk.errors.noSubscription": "لا يوجد اشتراك لهذه الشركة.",
+  "tenants.bulk.errors.noOwner": "لا يوجد مالك لهذه الشركة لإنشاء اشتراك له.",
+  "tenants.bulk.errors.days": "أدخل عدد أيام لا يقل عن 1.",
+  "tenants.bulk.errors.message": "أدخل الرسالة.",
+  "tenants.bulk.errors.subject": "أدخل الموضوع.",
+  "audit.log.tenantExtended": "مدّد اشتراك {companyName} بمقدار {days} يوم",
+  "audit.log.tenantPlanChanged": "غيّر خطة {companyName} إلى {planName}",
+  "subscriptions.tabs.lifecycle": "التجديدات ودورة الاشتراك",
+  "subscriptions.lifecycle.loadError": "فشل تحميل بيانات دورة الاشتراك.",
+  "subscriptions.lifecycle.window": "الـ {days} يومًا القادمة",
+  "subscriptions.lifecycle.renewalsTitle": "التجديدات القادمة",
+  "subscriptions.lifecycle.noRenewals": "لا توجد اشتراكات نشطة تتجدد خلال هذه الفترة.",
+  "subscriptions.lifecycle.summary.count": "التجديدات المستحقة",
+  "subscriptions.lifecycle.summary.expectedUsd": "الإيراد المتوقع (دولار)",
+  "subscriptions.lifecycle.summary.expectedIqd": "الإيراد المتوقع (دينار)",
+  "subscriptions.lifecycle.summary.rate": "بسعر 1 دولار = {rate} دينار",
+  "subscriptions.lifecycle.table.daysLeft": "الأيام المتبقية",
+  "subscriptions.lifecycle.table.cycle": "دورة الفوترة",
+  "subscriptions.lifecycle.table.expectedUsd": "المتوقع (دولار)",
+  "subscriptions.lifecycle.table.expectedIqd": "المتوقع (دينار)",
+  "subscriptions.lifecycle.cycle.monthly": "شهري",
+  "subscriptions.lifecycle.cycle.yearly": "سنوي",
+  "subscriptions.lifecycle.timelineTitle": "الخط الزمني للشركة",
+  "subscriptions.lifecycle.selectCompany": "اختر شركة",
+  "subscriptions.lifecycle.selectCompanyHint": "اختر شركة (أو انقر عليها في جدول التجديدات) لعرض سجل اشتراكاتها.",
+  "subscriptions.lifecycle.noEvents": "لا يوجد سجل اشتراكات لهذه الشركة.",
+  "subscriptions.lifecycle.event.period": "فترة اشتراك",
+  "subscriptions.lifecycle.event.trial": "تجريبي",
+  "subscriptions.lifecycle.event.planChange": "تغيير الخطة",
+  "subscriptions.lifecycle.event.gap": "انقطاع في الاشتراك ({days} يوم)",
+  "subscriptions.lifecycle.event.payment": "دفعة",
+  "tenants.changePlan.open": "تغيير الخطة",
+  "tenants.changePlan.title": "تغيير الخطة",
+  "tenants.changePlan.loadError": "فشل تحميل اشتراك الشركة والخطط.",
+  "tenants.changePlan.noActiveSubscription": "لا يوجد اشتراك نشط لهذه الشركة. قم بتفعيلها أولاً لتغيير خطتها.",
+  "tenants.changePlan.currentPlan": "الخطة الحالية",
+  "tenants.changePlan.targetPlan": "الخطة الجديدة",
+  "tenants.changePlan.changeDate": "تاريخ السريان",
+  "tenants.changePlan.direction.upgrade": "ترقية",
+  "tenants.changePlan.direction.downgrade": "تخفيض",
+  "tenants.changePlan.direction.lateral": "نفس المستوى",
+  "tenants.changePlan.entitlements": "تغييرات الصلاحيات",
+  "tenants.changePlan.noEntitlementChanges": "الخطتان تمنحان نفس الحدود والميزات.",
+  "tenants.changePlan.enabled": "مفعّل",
+  "tenants.changePlan.disabled": "معطّل",
+  "tenants.changePlan.remainingDays": "الأيام المتبقية في الفترة",
+  "tenants.changePlan.credit": "رصيد الخطة الحالية غير المستخدم",
+  "tenants.changePlan.charge": "تكلفة الخطة الجديدة",
+  "tenants.changePlan.netDue": "المبلغ المستحق",
+  "tenants.changePlan.netCredit": "رصيد مستحق للشركة",
+  "tenants.changePlan.issueInvoice": "إصدار فاتورة بالمبلغ المستحق",
+  "tenants.changePlan.invoiceLine": "تسوية تغيير الخطة:",
+  "tenants.changePlan.confirm": "تأكيد تغيير الخطة",
+  "tenants.changePlan.success": "تم تغيير الخطة بنجاح.",
+  "tenants.changePlan.failed": "فشل تغيير الخطة.",
+  "audit.log.tenantPlanChangedProrated": "غيّر خطة {companyName} من {fromPlan} إلى {toPlan} (تسوية {amount})",
+  "subscriptions.tabs.coupons": "القسائم",
+  "invoice.discount": "الخصم",
+  "subscriptions.coupons.create": "إنشاء قسيمة",
+  "subscriptions.coupons.createTitle": "إنشاء قسيمة",
+  "subscriptions.coupons.editTitle": "تعديل القسيمة",
+  "subscriptions.coupons.save": "حفظ القسيمة",
+  "subscriptions.coupons.delete": "حذف القسيمة",
+  "subscriptions.coupons.deleteConfirm": "حذف القسيمة {code}؟ تبقى الاستخدامات السابقة على فواتيرها.",
+  "subscriptions.coupons.loadError": "فشل تحميل القسائم.",
+  "subscriptions.coupons.saveError": "فشل حفظ القسيمة.",
+  "subscriptions.coupons.deleteError": "فشل حذف القسيمة.",
+  "subscriptions.coupons.empty": "لا توجد قسائم بعد.",
+  "subscriptions.coupons.code": "الرمز",
+  "subscriptions.coupons.description": "الوصف",
+  "subscriptions.coupons.discount": "الخصم",
+  "subscriptions.coupons.discountType": "نوع الخصم",
+  "subscriptions.coupons.type.percent": "نسبة مئوية",
+  "subscriptions.coupons.type.fixed": "مبلغ ثابت",
+  "subscriptions.coupons.valuePercent": "نسبة الخصم",
+  "subscriptions.coupons.valueFixed": "مبلغ الخصم (دولار)",
+  "subscriptions.coupons.duration": "يُطبق على",
+  "subscriptions.coupons.durationOption.once": "الدفعة الأولى فقط",
+  "subscriptions.coupons.durationOption.recurring": "كل دفعة",
+  "subscriptions.coupons.expiresAt": "تاريخ الانتهاء",
+  "subscriptions.coupons.maxRedemptions": "الحد الأقصى للاستخدام",
+  "subscriptions.coupons.redemptions": "الاستخدامات",
+  "subscriptions.coupons.plans": "الخطط المشمولة",
+  "subscriptions.coupons.plansHint": "اترك الكل دون تحديد للسماح بجميع الخطط المدفوعة.",
+  "subscriptions.coupons.allPlans": "جميع الخطط",
+  "subscriptions.coupons.active": "نشطة",
+  "subscriptions.coupons.state.active": "نشطة",
+  "subscriptions.coupons.state.inactive": "غير نشطة",
+  "subscriptions.coupons.state.expired": "منتهية",
+  "subscriptions.coupons.state.exhausted": "مستنفدة",
+  "subscriptions.coupons.validation.code": "يجب أن يكون الرمز من 3 إلى 32 حرفًا: أحرف لاتينية أو أرقام أو شرطة أو شرطة سفلية.",
+  "subscriptions.coupons.validation.percent": "يجب أن تكون نسبة الخصم بين 1 و 100.",
+  "subscriptions.coupons.validation.fixed": "يجب أن يكون مبلغ الخصم أكبر من صفر.",
+  "subscriptions.coupons.validation.maxRedemptions": "يجب ألا يقل الحد الأقصى للاستخدام عن 1.",
+  "subscriptions.coupons.report.title": "تقرير الاستخدام",
+  "subscriptions.coupons.report.summary": "{count} استخدام · إجمالي الخصم {total}",
+  "subscriptions.coupons.report.allCoupons": "جميع القسائم",
+  "subscriptions.coupons.report.empty": "لا توجد استخدامات بعد.",
+  "subscriptions.coupons.report.date": "التاريخ",
+  "subscriptions.coupons.report.company": "الشركة",
+  "subscriptions.coupons.report.plan": "الخطة",
+  "subscriptions.coupons.report.invoice": "الفاتورة",
+  "subscriptions.coupons.report.discount": "الخصم",
+  "audit.log.couponCreated": "أنشأ القسيمة {code}",
+  "audit.log.couponUpdated": "عدّل القسيمة {code}",
+  "audit.log.couponDeleted": "حذف القسيمة {code}",
+  "subscriptions.tabs.dunning": "تحصيل المتأخرات",
+  "subscriptions.dunning.loadError": "فشل تحميل قائمة تحصيل المتأخرات.",
+  "subscriptions.dunning.actionError": "فشل تحديث حالة التحصيل.",
+  "subscriptions.dunning.scheduleError": "فشل حفظ جدول التحصيل.",
+  "subscriptions.dunning.scheduleSaved": "تم حفظ جدول التحصيل.",
+  "subscriptions.dunning.scheduleTitle": "جدول التحصيل",
+  "subscriptions.dunning.scheduleHint": "تُنفَّذ الخطوات تلقائياً بعد فشل الدفع أو بقائه معلقاً. تُحسب الأيام من أول محاولة فاشلة.",
+  "subscriptions.dunning.enabled": "تفعيل التحصيل",
+  "subscriptions.dunning.stepEnabled": "مفعّلة",
+  "subscriptions.dunning.addStep": "إضافة خطوة",
+  "subscriptions.dunning.removeStep": "حذف الخطوة",
+  "subscriptions.dunning.saveSchedule": "حفظ الجدول",
+  "subscriptions.dunning.stepLabel": "اليوم {day} · {action}",
+  "subscriptions.dunning.action.email": "تذكير بالبريد الإلكتروني",
+  "subscriptions.dunning.action.whatsapp": "تذكير عبر واتساب",
+  "subscriptions.dunning.action.sms": "تذكير برسالة نصية",
+  "subscriptions.dunning.action.deactivate": "تعطيل الشركة",
+  "subscriptions.dunning.filter.open": "مفتوحة",
+  "subscriptions.dunning.filter.active": "نشطة",
+  "subscriptions.dunning.filter.paused": "متوقفة",
+  "subscriptions.dunning.filter.resolved": "محلولة",
+  "subscriptions.dunning.filter.deactivated": "معطّلة",
+  "subscriptions.dunning.filter.all": "الكل",
+  "subscriptions.dunning.status.active": "قيد التحصيل",
+  "subscriptions.dunning.status.paused": "متوقفة",
+  "subscriptions.dunning.status.resolved": "محلولة",
+  "subscriptions.dunning.status.deactivated": "معطّلة",
+  "subscriptions.dunning.table.company": "الشركة",
+  "subscriptions.dunning.table.since": "منذ",
+  "subscriptions.dunning.table.stage": "الخطوة الحالية",
+  "subscriptions.dunning.table.next": "الخطوة التالية",
+  "subscriptions.dunning.table.nextAt": "الإجراء التالي",
+  "subscriptions.dunning.table.status": "الحالة",
+  "subscriptions.dunning.searchPlaceholder": "البحث حسب الشركة...",
+  "subscriptions.dunning.empty": "لا توجد حالات تحصيل تطابق هذا الفلتر.",
+  "subscriptions.dunning.actions.skip": "تخطي الخطوة",
+  "subscriptions.dunning.actions.pause": "إيقاف مؤقت",
+  "subscriptions.dunning.actions.resume": "استئناف",
+  "subscriptions.dunning.actions.resolve": "تعليم كمحلولة",
+  "subscriptions.dunning.validation.empty": "أضف خطوة واحدة على الأقل.",
+  "subscriptions.dunning.validation.day": "يجب أن تكون أيام الخطوات أعداداً صحيحة من 0 فأكثر.",
+  "subscriptions.dunning.validation.duplicateDay": "لا يمكن تنفيذ خطوتين في اليوم نفسه.",
+  "subscriptions.dunning.validation.deactivateLast": "يجب أن يكون التعطيل هو الخطوة الأخيرة.",
+  "audit.log.dunningStepSkipped": "تخطي خطوة التحصيل الحالية لـ {companyName}",
+  "audit.log.dunningPaused": "إيقاف التحصيل مؤقتاً لـ {companyName}",
+  "audit.log.dunningResumed": "استئناف التحصيل لـ {companyName}",
+  "audit.log.dunningResolved": "تعليم التحصيل كمحلول لـ {companyName}",
+  "audit.log.dunningScheduleUpdated": "تحديث جدول التحصيل",
+  "tenants.detail.dunning": "تحصيل المتأخرات",
+  "tenants.detail.empty.dunning": "لا توجد حالات تحصيل لهذه الشركة.",
+  "tenants.detail.inDunning": "قيد التحصيل",
+  "login.twoFactor.title": "التحقق بخطوتين",
+  "login.twoFactor.hint": "أدخل الرمز المكوّن من 6 أرقام من تطبيق المصادقة.",
+  "login.twoFactor.backupHint": "أدخل أحد رموزك الاحتياطية. كل رمز يعمل مرة واحدة فقط.",
+  "login.twoFactor.code": "رمز التحقق",
+  "login.twoFactor.backupCode": "رمز احتياطي",
+  "login.twoFactor.verify": "تحقق",
+  "login.twoFactor.useBackup": "استخدام رمز احتياطي",
+  "login.twoFactor.useApp": "استخدام تطبيق المصادقة",
+  "login.twoFactor.back": "العودة لتسجيل الدخول",
+  "login.twoFactor.invalidCode": "رمز التحقق غير صحيح",
+  "login.twoFactor.challengeExpired": "انتهت صلاحية محاولة تسجيل الدخول. يرجى تسجيل الدخول مرة أخرى.",
+  "header.accountSecurity": "أمان الحساب",
+  "account.security.title": "أمان الحساب",
+  "account.security.twoFactorTitle": "المصادقة الثنائية",
+  "account.security.twoFactorDescription": "طلب رمز من تطبيق المصادقة بالإضافة إلى كلمة المرور عند تسجيل الدخول.",
+  "account.security.disabledDescription": "المصادقة الثنائية غير مفعّلة. استخدم تطبيق مصادقة مثل Google Authenticator أو Microsoft Authenticator أو 1Password.",
+  "account.security.enable": "تفعيل المصادقة الثنائية",
+  "account.security.disable": "تعطيل المصادقة الثنائية",
+  "account.security.regenerate": "إعادة إنشاء الرموز الاحتياطية",
+  "account.security.confirmDisable": "أدخل رمزاً حالياً من تطبيق المصادقة لتعطيل المصادقة الثنائية.",
+  "account.security.confirmRegenerate": "أدخل رمزاً حالياً من تطبيق المصادقة. ستتوقف رموزك الاحتياطية القديمة عن العمل.",
+  "account.security.backupCodesRemaining": "الرموز الاحتياطية المتبقية: {count}",
+  "account.security.requiredByPolicy": "المصادقة الثنائية إلزامية لحسابك وفق سياسة المنصة.",
+  "account.security.enrollmentRequired": "يشترط المسؤول تفعيل المصادقة الثنائية. قم بإعدادها أدناه لمتابعة استخدام اللوحة.",
+  "account.security.loadError": "فشل تحميل حالة المصادقة الثنائية.",
+  "account.security.setupError": "فشل بدء إعداد المصادقة الثنائية.",
+  "account.security.codeInvalid": "أدخل الرمز المكوّن من 6 أرقام من تطبيق المصادقة.",
+  "account.security.codeRejected": "لم يتم قبول الرمز. تحقق من وقت جهازك وحاول مرة أخرى.",
+  "account.security.enabledSuccess": "تم تفعيل المصادقة الثنائية.",
+  "account.security.disabledSuccess": "تم تعطيل المصادقة الثنائية.",
+  "account.security.setup.step1": "امسح رمز QR بتطبيق المصادقة، أو أدخل المفتاح يدوياً.",
+  "account.security.setup.step2": "أدخل الرمز المكوّن من 6 أرقام الذي يظهره التطبيق لإنهاء الإعداد.",
+  "account.security.setup.qrAlt": "رمز QR للمصادقة",
+  "account.security.setup.manualKey": "مفتاح الإعداد",
+  "account.security.setup.openApp": "فتح في تطبيق المصادقة",
+  "account.security.setup.codeLabel": "رمز التحقق",
+  "account.security.setup.confirm": "تحقق وفعّل",
+  "account.security.backupCodes.warning": "احفظ هذه الرموز الاحتياطية في مكان آمن. كل رمز يتيح لك تسجيل الدخول مرة واحدة إذا فقدت جهازك. لن تظهر مرة أخرى.",
+  "account.security.backupCodes.copy": "نسخ",
+  "account.security.backupCodes.copied": "تم نسخ الرموز الاحتياطية.",
+  "account.security.backupCodes.copyError": "تعذر النسخ إلى الحافظة.",
+  "account.security.backupCodes.download": "تنزيل",
+  "account.security.backupCodes.saved": "لقد حفظتها",
+  "settings.menu.twoFactor": "سياسة المصادقة الثنائية",
+  "settings.twoFactor.title": "سياسة المصادقة الثنائية",
+  "settings.twoFactor.description": "التحكم فيما إذا كان يجب على المسؤولين المحدودين استخدام المصادقة الثنائية لتسجيل الدخول.",
+  "settings.twoFactor.requiredLabel": "إلزام جميع المسؤولين المحدودين بالمصادقة الثنائية",
+  "settings.twoFactor.requiredHint": "سيتم توجيه المسؤولين المحدودين بدون مصادقة ثنائية إلى أمان الحساب بعد تسجيل الدخول، ولن يتمكنوا من استخدام اللوحة حتى يفعّلوها.",
+  "settings.twoFactor.loadError": "فشل تحميل سياسة المصادقة الثنائية.",
+  "settings.twoFactor.saveError": "فشل حفظ سياسة المصادقة الثنائية.",
+  "settings.twoFactor.saveSuccess": "تم حفظ سياسة المصادقة الثنائية.",
+  "audit.log.twoFactorEnabled": "تفعيل المصادقة الثنائية لـ {username}",
+  "audit.log.twoFactorDisabled": "تعطيل المصادقة الثنائية لـ {username}",
+  "audit.log.twoFactorBackupCodesRegenerated": "إعادة إنشاء الرموز الاحتياطية للمصادقة الثنائية لـ {username}",
+  "audit.log.twoFactorPolicyUpdated": "إلزام المسؤولين المحدودين بالمصادقة الثنائية: {state}",
+  "session.revoked": "تم تسجيل خروجك لأنه تم إلغاء هذه الجلسة.",
+  "session.expired": "انتهت صلاحية جلستك. يرجى تسجيل الدخول مرة أخرى.",
+  "account.sessions.title": "الجلسات النشطة",
+  "account.sessions.description": "الأجهزة المسجّل دخولها حالياً إلى لوحة الإدارة. ألغِ أي جلسة لا تتعرف عليها.",
+  "account.sessions.loadError": "فشل تحميل الجلسات.",
+  "account.sessions.revokeError": "فشل إلغاء الجلسة.",
+  "account.sessions.revokeSuccess": "تم إلغاء الجلسة.",
+  "account.sessions.signOutEverywhere": "تسجيل الخروج من كل الأجهزة",
+  "account.sessions.signOutAdminEverywhere": "تسجيل خروج {username} من كل الأجهزة",
+  "account.sessions.scope.mine": "جلساتي",
+  "account.sessions.scope.limitedAdmins": "المسؤولون المحدودون",
+  "account.sessions.filterAdmin": "تصفية حسب المسؤول",
+  "account.sessions.allAdmins": "كل المسؤولين",
+  "account.sessions.table.admin": "المسؤول",
+  "account.sessions.table.device": "الجهاز",
+  "account.sessions.table.ip": "عنوان IP",
+  "account.sessions.table.lastActivity": "آخر نشاط",
+  "account.sessions.table.age": "عمر الرمز",
+  "account.sessions.table.actions": "الإجراءات",
+  "account.sessions.current": "هذا الجهاز",
+  "account.sessions.revoke": "إلغاء",
+  "account.sessions.empty": "لا توجد جلسات نشطة.",
+  "account.sessions.unknownDevice": "جهاز غير معروف",
+  "account.sessions.browserOnOs": "{browser} على {os}",
+  "account.sessions.age.daysHours": "{days} ي {hours} س",
+  "account.sessions.age.hoursMinutes": "{hours} س {minutes} د",
+  "account.sessions.age.minutes": "{minutes} د",
+  "account.sessions.confirmRevoke": "إلغاء الجلسة على {device}؟ سيتم تسجيل خروج ذلك الجهاز فوراً.",
+  "account.sessions.confirmRevokeCurrent": "هذه هي الجلسة التي تستخدمها الآن. إلغاؤها سيؤدي إلى تسجيل خروجك.",
+  "account.sessions.confirmRevokeAll": "تسجيل الخروج من كل الأجهزة، بما فيها هذا الجهاز؟",
+  "account.sessions.confirmRevokeAllFor": "تسجيل خروج {username} من كل الأجهزة؟",
+  "audit.log.sessionRevoked": "إلغاء جلسة لـ {username} ({device}، {ip})",
+  "audit.log.sessionsRevokedAll": "تسجيل خروج كل جلسات {username}",
+  "idleLock.title": "الجلسة مقفلة",
+  "idleLock.description": "لم يكن هناك نشاط لفترة طويلة. أدخل كلمة مرور {username} للمتابعة من حيث توقفت.",
+  "idleLock.unlock": "فتح القفل",
+  "idleLock.signOut": "تسجيل الخروج بدلاً من ذلك",
+  "idleLock.wrongPassword": "كلمة المرور غير صحيحة",
+  "idleLock.warning": "سيتم قفل اللوحة خلال {seconds} ثانية بسبب عدم النشاط.",
+  "idleLock.stay": "البقاء متصلاً",
+  "settings.menu.idleTimeout": "مهلة الخمول",
+  "settings.idleTimeout.title": "مهلة الخمول",
+  "settings.idleTimeout.description": "قفل اللوحة بعد فترة من عدم النشاط. يتطلب فتح القفل كلمة مرور المسؤول، مع الاحتفاظ بالصفحة المفتوحة والبيانات غير المحفوظة.",
+  "settings.idleTimeout.enabledLabel": "قفل اللوحة عند الخمول",
+  "settings.idleTimeout.minutes": "القفل بعد (دقائق)",
+  "settings.idleTimeout.minutesHint": "يرى المسؤولون عداً تنازلياً قبل القفل بدقيقة. يُحتسب النشاط في أي تبويب مفتوح. يُطبّق في المرة التالية التي يفتح فيها المسؤول اللوحة.",
+  "settings.idleTimeout.loadError": "فشل تحميل إعدادات مهلة الخمول.",
+  "settings.idleTimeout.saveError": "فشل حفظ إعدادات مهلة الخمول.",
+  "settings.idleTimeout.saveSuccess": "تم حفظ إعدادات مهلة الخمول.",
+  "audit.log.idleTimeoutUpdated": "مهلة الخمول: {state}، {minutes} دقيقة",
+  "audit.log.idleLockUnlocked": "قام {username} بفتح قفل اللوحة بعد قفل الخمول",
+  "settings.menu.roles": "الأدوار",
+  "settings.readOnly": "دورك يسمح بعرض الإعدادات فقط. لا يمكن حفظ التغييرات.",
+  "roles.title": "أدوار المسؤولين",
+  "roles.subtitle": "مجموعات صلاحيات قابلة لإعادة الاستخدام. عيّن دوراً للمدير المحدود بدلاً من تحديد الصلاحيات واحدة واحدة.",
+  "roles.create": "إنشاء دور",
+  "roles.createTitle": "إنشاء دور",
+  "roles.editTitle": "تعديل الدور",
+  "roles.delete": "حذف الدور",
+  "roles.deleteConfirm": "حذف الدور \"{name}\"؟ لا يمكن التراجع عن ذلك.",
+  "roles.deleteInUse": "أعد تعيين المسؤولين الذين يستخدمون هذا الدور قبل حذفه",
+  "roles.loadError": "تعذر تحميل الأدوار",
+  "roles.saveError": "تعذر حفظ الدور",
+  "roles.deleteError": "تعذر حذف الدور",
+  "roles.empty": "لا توجد أدوار بعد",
+  "roles.name": "الاسم",
+  "roles.namePlaceholder": "مثال: المالية، الدعم المستوى 1",
+  "roles.description": "الوصف",
+  "roles.resources": "الوصول",
+  "roles.resourcesHint": "كل مستوى يشمل ما قبله: الكتابة تشمل القراءة، والحذف يشمل الكتابة.",
+  "roles.resource": "القسم",
+  "roles.noAccess": "بدون وصول",
+  "roles.actions": "إجراءات حساسة",
+  "roles.admins": "المسؤولون",
+  "roles.companyScope": "الشركات",
+  "roles.allCompanies": "جميع الشركات",
+  "roles.searchCompanies": "البحث عن شركة",
+  "roles.companiesSelected": "{count} شركة",
+  "roles.save": "حفظ الدور",
+  "roles.validation.name": "أدخل اسم الدور",
+  "roles.validation.companies": "اختر شركة واحدة على الأقل أو اسمح بجميع الشركات",
+  "roles.level.none": "لا شيء",
+  "roles.level.read": "قراءة",
+  "roles.level.write": "كتابة",
+  "roles.level.delete": "حذف",
+  "roles.resourceName.dashboard": "لوحة التحكم",
+  "roles.resourceName.tenants": "المستأجرون",
+  "roles.resourceName.subscriptions": "الاشتراكات",
+  "roles.resourceName.paymentGateways": "بوابات الدفع",
+  "roles.resourceName.reports": "التقارير",
+  "roles.resourceName.communication": "التواصل",
+  "roles.resourceName.content": "المحتوى",
+  "roles.resourceName.settings": "الإعدادات",
+  "roles.resourceName.limitedAdmins": "المسؤولون والأدوار",
+  "roles.resourceName.supportTickets": "تذاكر الدعم",
+  "roles.action.impersonate": "انتحال هوية المستأجرين",
+  "roles.action.restoreBackup": "استعادة النسخ الاحتياطية",
+  "roles.action.editGatewaySecrets": "تعديل أسرار البوابات",
+  "limitedAdmins.modal.role": "الدور",
+  "limitedAdmins.modal.customPermissions": "صلاحيات مخصصة",
+  "limitedAdmins.modal.roleHint": "الصلاحيات مأخوذة من الدور. عدّل الدور لتغييرها لكل المسؤولين الذين يستخدمونه.",
+  "limitedAdmins.table.role": "الدور",
+  "paymentGateways.modal.secretsReadOnly": "دورك لا يسمح بتعديل بيانات اعتماد البوابة. تُعرض للقراءة فقط.",
+  "audit.log.roleCreated": "أنشأ دور مسؤول: {roleName}",
+  "audit.log.roleUpdated": "حدّث دور مسؤول: {roleName}",
+  "audit.log.roleDeleted": "حذف دور مسؤول: {roleName}",
+  "impersonation.reason": "السبب",
+  "impersonation.reasonPlaceholder": "لماذا تحتاج إلى الدخول بحساب هذه الشركة؟ يُسجَّل ذلك في سجل التدقيق.",
+  "impersonation.reasonRequired": "أدخل سبب الدخول بحساب هذه الشركة",
+  "impersonation.ticket": "تذكرة الدعم المرتبطة",
+  "impersonation.noTicket": "بدون تذكرة",
+  "impersonation.duration": "المدة",
+  "impersonation.durationHint": "تنتهي جلسة CRM تلقائياً عند انقضاء هذه المدة.",
+  "impersonation.hours": "{count} ساعة",
+  "impersonation.minutes": "{count} دقيقة",
+  "impersonation.startedUntil": "تم فتح تطبيق CRM بحساب مالك الشركة حتى {time}",
+  "impersonation.status.active": "نشطة",
+  "impersonation.status.expired": "منتهية",
+  "impersonation.status.revoked": "ملغاة",
+  "impersonation.status.ended": "مكتملة",
+  "impersonation.history.title": "سجل الدخول كمالك الشركة",
+  "impersonation.history.description": "من دخل بحساب أي شركة، ولماذا، ولأي مدة، ومن أين.",
+  "impersonation.history.loadError": "فشل تحميل سجل الدخول كمالك الشركة",
+  "impersonation.history.filterStatus": "تصفية حسب الحالة",
+  "impersonation.history.allStatuses": "جميع الحالات",
+  "impersonation.history.admin": "المسؤول",
+  "impersonation.history.company": "الشركة",
+  "impersonation.history.started": "البداية",
+  "impersonation.history.from": "من",
+  "impersonation.history.status": "الحالة",
+  "impersonation.history.actions": "الإجراءات",
+  "impersonation.history.empty": "لا توجد جلسات دخول كمالك شركة بعد",
+  "impersonation.history.ticketRef": "التذكرة #{id}",
+  "impersonation.history.endedAt": "انتهت {time}",
+  "impersonation.history.expiresAt": "تنتهي {time}",
+  "impersonation.history.usedOf": "{used} من {allowed} دقيقة",
+  "impersonation.history.revokedBy": "بواسطة {username}",
+  "impersonation.history.revoke": "إلغاء الجلسة",
+  "impersonation.history.revokeConfirm": "إنهاء دخول {admin} بحساب {company} الآن؟ سيتم تسجيل خروج جلسة CRM فوراً.",
+  "impersonation.history.revokeSuccess": "تم إلغاء جلسة الدخول كمالك الشركة",
+  "impersonation.history.revokeError": "فشل إلغاء جلسة الدخول كمالك الشركة",
+  "settings.menu.impersonation": "الدخول كمالك الشركة",
+  "settings.impersonation.title": "الدخول كمالك الشركة",
+  "settings.impersonation.description": "المدة التي يمكن للمسؤول البقاء فيها مسجلاً بحساب مالك الشركة. كل جلسة تتطلب سبباً وتظهر أدناه.",
+  "settings.impersonation.defaultMinutes": "المدة الافتراضية",
+  "settings.impersonation.maxMinutes": "المدة القصوى",
+  "settings.impersonation.maxMinutesHint": "لا يمكن للمسؤولين اختيار مدة أطول عند بدء الجلسة.",
+  "settings.impersonation.defaultAboveMax": "لا يمكن أن تكون المدة الافتراضية أطول من المدة القصوى",
+  "settings.impersonation.loadError": "فشل تحميل إعدادات الدخول كمالك الشركة",
+  "settings.impersonation.saveSuccess": "تم حفظ إعدادات الدخول كمالك الشركة",
+  "settings.impersonation.saveError": "فشل حفظ إعدادات الدخول كمالك الشركة",
+  "audit.log.impersonationStarted": "الدخول بحساب {companyName} لمدة {duration}: {reason}",
+  "audit.log.impersonationRevoked": "إلغاء دخول {adminName} بحساب {companyName}",
+  "audit.log.impersonationSettingsUpdated": "مدة الدخول كمالك الشركة: الافتراضية {defaultDuration}، القصوى {maxDuration}",
+  "realtime.status.open": "مباشر",
+  "realtime.status.connecting": "جارٍ الاتصال…",
+  "realtime.status.polling": "تحديث تلقائي",
+  "realtime.statusHint.open": "تتحدث التذاكر ورسائل واتساب والمدفوعات فور حدوثها",
+  "realtime.statusHint.connecting": "جارٍ الاتصال بالتحديثات المباشرة…",
+  "realtime.statusHint.polling": "التحديثات المباشرة غير متاحة؛ يتم تحديث الصفحات كل 30 ثانية",
+  "sidebar.badgeCount": "{count} جديد",
+  "notifications.title": "الإشعارات",
+  "notifications.unreadLabel": "الإشعارات، {count} غير مقروءة",
+  "notifications.empty": "لا توجد إشعارات جديدة",
+  "notifications.markAllRead": "تعليم الكل كمقروء",
+  "notifications.markRead": "تعليم كمقروء",
+  "notifications.loadMore": "عرض الأقدم",
+  "notifications.preferences": "تفضيلات الإشعارات",
+  "notifications.backToList": "العودة إلى الإشعارات",
+  "notifications.mutedHint": "الأنواع غير المحددة مكتومة: لا تظهر هنا ولا تنبثق.",
+  "notifications.desktop.label": "إشعارات سطح المكتب",
+  "notifications.desktop.hint": "يعرضها المتصفح عندما تكون اللوحة في تبويب في الخلفية.",
+  "notifications.desktop.denied": "محظورة في هذا المتصفح. اسمح بالإشعارات لهذا الموقع من إعدادات المتصفح.",
+  "notifications.desktop.unsupported": "هذا المتصفح لا يدعم إشعارات سطح المكتب.",
+  "notifications.type.ticket_created": "تذكرة دعم جديدة",
+  "notifications.type.payment_failed": "فشل الدفع",
+  "notifications.type.subscription_expiring": "اشتراك على وشك الانتهاء",
+  "notifications.type.backup_failed": "فشل النسخ الاحتياطي",
+  "notifications.type.gateway_test_failed": "فشل اختبار بوابة الدفع",
+  "notifications.message.ticket_created": "{company}: {title}",
+  "notifications.message.payment_failed": "{company} — {amount}",
+  "notifications.message.subscription_expiring": "ينتهي اشتراك {company} في باقة {plan} خلال {days} أيام",
+  "notifications.message.backup_failed": "لم يكتمل النسخ الاحتياطي المجدول: {error}",
+  "notifications.message.gateway_test_failed": "{gateway}: {error}",
+  "tickets.thread.title": "المحادثة",
+  "tickets.thread.empty": "لا توجد ردود بعد. ابدأ المحادثة بالأسفل.",
+  "tickets.thread.loadError": "تعذر تحميل المحادثة.",
+  "tickets.thread.retry": "إعادة المحاولة",
+  "tickets.thread.staff": "فريق الدعم",
+  "tickets.thread.tenant": "المستأجر",
+  "tickets.thread.internalBadge": "ملاحظة داخلية",
+  "tickets.thread.internalNote": "ملاحظة داخلية (للفريق فقط)",
+  "tickets.thread.internalHint": "الملاحظات الداخلية مرئية لفريق المنصة فقط ولا يتم إشعار المستأجر.",
+  "tickets.thread.replyPlaceholder": "اكتب ردًا للمستأجر… (Ctrl+Enter للإرسال)",
+  "tickets.thread.notePlaceholder": "اكتب ملاحظة داخلية… (Ctrl+Enter للحفظ)",
+  "tickets.thread.attach": "إرفاق ملفات",
+  "tickets.thread.removeFile": "إزالة الملف",
+  "tickets.thread.fileTooLarge": "هذه الملفات أكبر من {max} وتم تجاهلها: {names}",
+  "tickets.thread.tooManyFiles": "يمكنك إرفاق {max} ملفات كحد أقصى لكل رسالة.",
+  "tickets.thread.notifyEmail": "إشعار عبر البريد الإلكتروني",
+  "tickets.thread.notifyWhatsApp": "إشعار عبر واتساب",
+  "tickets.thread.notifiedVia": "تم الإشعار عبر",
+  "tickets.thread.channel.email": "البريد الإلكتروني",
+  "tickets.thread.channel.whatsapp": "واتساب",
+  "tickets.thread.sendReply": "إرسال الرد",
+  "tickets.thread.addNote": "إضافة ملاحظة",
+  "tickets.thread.sending": "جارٍ الإرسال…",
+  "tickets.thread.sendError": "تعذر إرسال الرسالة.",
+  "tickets.triage": "الفرز",
+  "tickets.assignee": "المسؤول",
+  "tickets.unassigned": "غير مُسند",
+  "tickets.priority": "الأولوية",
+  "tickets.priority.low": "منخفضة",
+  "tickets.priority.normal": "عادية",
+  "tickets.priority.high": "عالية",
+  "tickets.priority.urgent": "عاجلة",
+  "tickets.category": "الفئة",
+  "tickets.category.none": "بدون فئة",
+  "tickets.category.billing": "الفوترة",
+  "tickets.category.technical": "تقنية",
+  "tickets.category.account": "الحساب",
+  "tickets.category.whatsapp": "واتساب",
+  "tickets.category.feature_request": "طلب ميزة",
+  "tickets.category.other": "أخرى",
+  "tickets.sla.label": "اتفاقية الخدمة",
+  "tickets.sla.state.on_track": "ضمن المهلة",
+  "tickets.sla.state.at_risk": "معرضة للتأخر",
+  "tickets.sla.state.breached": "متجاوزة",
+  "tickets.sla.state.met": "مستوفاة",
+  "tickets.sla.phase.first_response": "الرد الأول",
+  "tickets.sla.phase.resolution": "الحل",
+  "tickets.sla.dueIn": "متبقٍ {duration}",
+  "tickets.sla.overdueBy": "متأخر {duration}",
+  "tickets.sla.unit.days": "{count} ي",
+  "tickets.sla.unit.hours": "{count} س",
+  "tickets.sla.unit.minutes": "{count} د",
+  "tickets.filters.triage": "الإسناد واتفاقية الخدمة",
+  "tickets.filters.assignedToMe": "المسندة إليّ",
+  "tickets.view.all": "كل التذاكر",
+  "tickets.view.mine": "تذاكري ({count} مفتوحة)",
+  "tickets.slaReport.toggle": "تقرير اتفاقية الخدمة",
+  "tickets.slaReport.title": "الالتزام باتفاقية الخدمة",
+  "tickets.slaReport.description": "نسبة التذاكر التي تم الرد عليها وحلها ضمن المهلة، للتذاكر المطابقة للفلاتر الحالية.",
+  "tickets.slaReport.targets": "المهل (الرد / الحل)",
+  "tickets.slaReport.tickets": "التذاكر",
+  "tickets.slaReport.firstResponse": "الرد الأول",
+  "tickets.slaReport.resolution": "الحل",
+  "tickets.slaReport.openBreached": "مفتوحة ومتأخرة",
+  "tickets.slaReport.allPriorities": "كل الأولويات",
+  "settings.menu.ticketSla": "اتفاقية خدمة الدعم",
+  "settings.ticketSla.title": "اتفاقية خدمة تذاكر الدعم",
+  "settings.ticketSla.description": "المهل لكل أولوية لأول رد من الفريق ولإغلاق التذكرة، محسوبة من وقت فتح التذكرة.",
+  "settings.ticketSla.firstResponseHours": "الرد الأول (ساعات)",
+  "settings.ticketSla.resolutionHours": "الحل (ساعات)",
+  "settings.ticketSla.hint": "تصبح التذكرة \"معرضة للتأخر\" عندما يتبقى أقل من ربع المهلة. تُطبق التغييرات على التذاكر الحالية أيضًا.",
+  "settings.ticketSla.invalidValue": "يجب أن تكون كل مهلة أكبر من صفر.",
+  "settings.ticketSla.firstResponseAboveResolution": "{priority}: لا يمكن أن تكون مهلة الرد الأول أطول من مهلة الحل.",
+  "settings.ticketSla.loadError": "فشل تحميل مهل اتفاقية الخدمة.",
+  "settings.ticketSla.saveError": "فشل حفظ مهل اتفاقية الخدمة.",
+  "settings.ticketSla.saveSuccess": "تم حفظ مهل اتفاقية الخدمة.",
+  "audit.log.ticketSlaUpdated": "مهل اتفاقية خدمة الدعم: {targets}",
+  "settings.menu.cannedResponses": "الردود الجاهزة",
+  "audit.log.cannedResponseCreated": "أنشأ ردًا جاهزًا: {title}",
+  "audit.log.cannedResponseUpdated": "حدّث ردًا جاهزًا: {title}",
+  "audit.log.cannedResponseDeleted": "حذف ردًا جاهزًا: {title}",
+  "cannedResponses.panelTitle": "الردود الجاهزة",
+  "cannedResponses.subtitle": "ردود قابلة لإعادة الاستخدام في محادثات واتساب وتذاكر الدعم. تُملأ المتغيرات من بيانات المستأجر عند الإدراج.",
+  "cannedResponses.button": "ردود جاهزة",
+  "cannedResponses.insert": "إدراج رد جاهز",
+  "cannedResponses.search": "ابحث في الردود...",
+  "cannedResponses.language": "لغة الرد",
+  "cannedResponses.noMatches": "لا توجد ردود مطابقة للبحث.",
+  "cannedResponses.empty": "لا توجد ردود جاهزة بعد.",
+  "cannedResponses.loadError": "فشل تحميل الردود الجاهزة.",
+  "cannedResponses.saveError": "فشل حفظ الرد الجاهز.",
+  "cannedResponses.deleteError": "فشل حذف الرد الجاهز.",
+  "cannedResponses.unresolved": "تعذّر ملء بعض المتغيرات وبقيت في النص: {names}",
+  "cannedResponses.macroBadge": "يغيّر إلى {status}",
+  "cannedResponses.macroPending": "سيؤدي الإرسال إلى تغيير حالة التذكرة إلى {status}",
+  "cannedResponses.macroCancel": "الإبقاء على الحالة الحالية",
+  "cannedResponses.create": "رد جديد",
+  "cannedResponses.createTitle": "رد جاهز جديد",
+  "cannedResponses.editTitle": "تعديل الرد الجاهز",
+  "cannedResponses.delete": "حذف الرد",
+  "cannedResponses.deleteConfirm": "حذف الرد الجاهز \"{title}\"؟ لا يمكن التراجع عن ذلك.",
+  "cannedResponses.save": "حفظ الرد",
+  "cannedResponses.title": "العنوان",
+  "cannedResponses.titlePlaceholder": "مثال: تذكير بالتجديد",
+  "cannedResponses.preview": "معاينة",
+  "cannedResponses.scope": "متاح في",
+  "cannedResponses.scope.all": "واتساب والتذاكر",
+  "cannedResponses.scope.whatsapp": "واتساب فقط",
+  "cannedResponses.scope.tickets": "التذاكر فقط",
+  "cannedResponses.setStatus": "ماكرو حالة التذكرة",
+  "cannedResponses.setStatus.none": "عدم تغيير الحالة",
+  "cannedResponses.setStatusHint": "عند استخدامه في رد على تذكرة، يؤدي إرساله أيضًا إلى نقل التذكرة إلى هذه الحالة.",
+  "cannedResponses.variables": "المتغيرات",
+  "cannedResponses.variablesHint": "انقر للإدراج في آخر نص تم التركيز عليه.",
+  "cannedResponses.variable.company_name": "اسم شركة المستأجر",
+  "cannedResponses.variable.owner_name": "اسم مالك المستأجر",
+  "cannedResponses.variable.plan": "خطة الاشتراك الحالية",
+  "cannedResponses.variable.end_date": "تاريخ انتهاء الاشتراك",
+  "cannedResponses.bodyEn": "النص الإنجليزي",
+  "cannedResponses.bodyAr": "النص العربي",
+  "cannedResponses.missingArabic": "لا يوجد نص عربي",
+  "cannedResponses.missingEnglish": "لا يوجد نص إنجليزي",
+  "cannedResponses.validation.title": "يرجى إدخال عنوان.",
+  "cannedResponses.validation.body": "يرجى إدخال نص الرد بلغة واحدة على الأقل.",
+  "tenantWhatsapp.inbox.search": "ابحث في الشركات والرسائل...",
+  "tenantWhatsapp.inbox.filter": "عرض",
+  "tenantWhatsapp.inbox.filter.all": "الكل",
+  "tenantWhatsapp.inbox.filter.awaiting": "بانتظار الرد",
+  "tenantWhatsapp.inbox.filter.unread": "غير مقروءة",
+  "tenantWhatsapp.inbox.empty": "لا توجد محادثات بعد.",
+  "tenantWhatsapp.inbox.noMatches": "لا توجد محادثات مطابقة.",
+  "tenantWhatsapp.inbox.loadMore": "تحميل المزيد",
+  "tenantWhatsapp.inbox.loadError": "فشل تحميل المحادثات",
+  "tenantWhatsapp.inbox.you": "أنت:",
+  "tenantWhatsapp.inbox.awaitingBadge": "بانتظار الرد",
+  "tenantWhatsapp.inbox.newConversation": "بدء محادثة جديدة",
+  "tenantWhatsapp.inbox.selectConversation": "لم يتم اختيار محادثة",
+  "tenantWhatsapp.inbox.selectConversationHint": "اختر محادثة من صندوق الوارد، أو ابدأ محادثة جديدة مع شركة.",
+  "tenantWhatsapp.inbox.markHandled": "تمييز كمعالجة",
+  "tenantWhatsapp.inbox.reopen": "إعادة فتح",
+  "tenantWhatsapp.inbox.handled": "تمت المعالجة",
+  "tenantWhatsapp.inbox.handledBy": "عالجها {user}",
+  "tenantWhatsapp.inbox.handledError": "فشل تحديث المحادثة",
+  "audit.log.whatsappTemplatesSynced": "زامن قوالب رسائل واتساب ({count} معتمد)",
+  "tenantWhatsapp.session.open": "نافذة الـ24 ساعة مفتوحة: يُسمح بالرسائل الحرة",
+  "tenantWhatsapp.session.openUntil": "نافذة الـ24 ساعة مفتوحة حتى {time}",
+  "tenantWhatsapp.session.closed": "نافذة الـ24 ساعة مغلقة. لا يمكن إرسال سوى قوالب الرسائل المعتمدة حتى يرد المستأجر.",
+  "tenantWhatsapp.session.closedError": "أُغلقت نافذة الـ24 ساعة فرفض واتساب الرسالة الحرة. أرسل قالبًا معتمدًا بدلًا منها.",
+  "tenantWhatsapp.session.useTemplate": "استخدام قالب",
+  "tenantWhatsapp.session.useText": "كتابة رسالة",
+  "tenantWhatsapp.templates.select": "اختر قالبًا معتمدًا…",
+  "tenantWhatsapp.templates.none": "لا توجد قوالب معتمدة. زامنها من الإعدادات ← واتساب المنصة.",
+  "tenantWhatsapp.templates.loadError": "فشل تحميل قوالب الرسائل",
+  "tenantWhatsapp.templates.slot": "قيمة {slot}",
+  "tenantWhatsapp.templates.preview": "معاينة",
+  "tenantWhatsapp.templates.send": "إرسال القالب",
+  "whatsappTemplates.title": "قوالب الرسائل",
+  "whatsappTemplates.description": "القوالب المعتمدة من حساب Meta للأعمال. خارج نافذة الـ24 ساعة لا يمكن للمحادثات إرسال غيرها.",
+  "whatsappTemplates.lastSynced": "آخر مزامنة {time}",
+  "whatsappTemplates.sync": "مزامنة من Meta",
+  "whatsappTemplates.syncing": "جارٍ المزامنة...",
+  "whatsappTemplates.syncSuccess": "تمت مزامنة القوالب: {count} معتمد",
+  "whatsappTemplates.syncError": "فشلت مزامنة القوالب من Meta",
+  "whatsappTemplates.loadError": "فشل تحميل قوالب الرسائل",
+  "whatsappTemplates.empty": "لا توجد قوالب معتمدة بعد. أنشئها في WhatsApp Manager ثم زامنها.",
+  "whatsappTemplates.name": "الاسم",
+  "whatsappTemplates.language": "اللغة",
+  "whatsappTemplates.category": "الفئة",
+  "whatsappTemplates.body": "النص",
+  "whatsappTemplates.variables": "المتغيرات",
+  "whatsappTemplates.category.UTILITY": "خدمية",
+  "whatsappTemplates.category.MARKETING": "تسويقية",
+  "whatsappTemplates.category.AUTHENTICATION": "مصادقة",
+  "tenantWhatsapp.receipt.pending": "جارٍ الإرسال",
+  "tenantWhatsapp.receipt.sent": "أُرسلت",
+  "tenantWhatsapp.receipt.delivered": "تم التسليم",
+  "tenantWhatsapp.receipt.read": "مقروءة",
+  "tenantWhatsapp.receipt.failed": "فشلت",
+  "tenantWhatsapp.receipt.failedHint": "تعذّر على واتساب تسليم هذه الرسالة.",
+  "tenantWhatsapp.media.button": "إرفاق",
+  "tenantWhatsapp.media.attach": "إرفاق صورة أو مستند أو ملف صوتي",
+  "tenantWhatsapp.media.remove": "إزالة المرفق",
+  "tenantWhatsapp.media.captionHint": "يُرسل نص الرسالة كتعليق عليه",
+  "tenantWhatsapp.media.audioCaptionHint": "يُرسل نص الرسالة منفصلًا",
+  "tenantWhatsapp.media.tooLarge": "حجم {name} أكبر مما يسمح به واتساب لهذا النوع ({max}).",
+  "tenantWhatsapp.media.kind.image": "صورة",
+  "tenantWhatsapp.media.kind.document": "مستند",
+  "tenantWhatsapp.media.kind.audio": "صوت",
+  "tenantWhatsapp.media.kind.video": "فيديو",
+  "tenantWhatsapp.invoice.button": "فاتورة",
+  "tenantWhatsapp.invoice.attach": "إرفاق فاتورة PDF",
+  "tenantWhatsapp.invoice.empty": "لا توجد فواتير لهذه الشركة.",
+  "tenantWhatsapp.invoice.loadError": "فشل تحميل الفواتير",
+  "tenantWhatsapp.invoice.pdfError": "فشل تنزيل ملف الفاتورة",
+  "tenantWhatsapp.invoice.preparing": "جارٍ تجهيز ملف الفاتورة...",
+  "communication.audience.title": "معاينة الجمهور",
+  "communication.audience.total": "المستلمون الفريدون",
+  "communication.audience.duplicates": "{count} مستلم يطابقون أكثر من هدف ويُحتسبون مرة واحدة.",
+  "communication.audience.empty": "لا يوجد مستلمون مطابقون لهذه الأهداف.",
+  "communication.audience.unreachable.email": "{count} مستلم ليس لديهم بريد إلكتروني وسيتم تخطيهم؛ سيستلمها {reachable}.",
+  "communication.audience.unreachable.push": "{count} مستلم ليس لديهم جهاز مسجل للإشعارات وسيتم تخطيهم؛ سيستلمها {reachable}.",
+  "communication.audience.unreachable.sms": "{count} مستلم ليس لديهم رقم هاتف وسيتم تخطيهم؛ سيستلمها {reachable}.",
+  "communication.audience.sample": "عينة من المستلمين",
+  "communication.audience.reachable.email": "لديه بريد",
+  "communication.audience.reachable.push": "الإشعارات مفعلة",
+  "communication.audience.reachable.sms": "لديه هاتف",
+  "communication.audience.missing.email": "بدون بريد",
+  "communication.audience.missing.push": "بدون جهاز",
+  "communication.audience.missing.sms": "بدون هاتف",
+  "communication.audience.loadError": "تعذر تحميل معاينة الجمهور.",
+  "communication.history.table.delivery": "التسليم",
+  "communication.history.delivery.delivered": "تم تسليم {delivered} من {total}",
+  "communication.history.delivery.opened": "فُتح {percent}%",
+  "communication.history.delivery.failed": "فشل {count}",
+  "communication.delivery.total": "إجمالي المستلمين {count}، ويُحتسب كل مستلم مرة واحدة حسب حالته الحالية، لذا لا يُحتسب البريد المفتوح ضمن المُسلَّم كما في السجل. اختر حالة لتصفية المستلمين أدناه.",
+  "communication.delivery.failureReasons": "أسباب الفشل",
+  "communication.delivery.status.queued": "في الانتظار",
+  "communication.delivery.status.delivered": "تم التسليم",
+  "communication.delivery.status.opened": "تم الفتح",
+  "communication.delivery.status.clicked": "تم النقر",
+  "communication.delivery.status.bounced": "مرتد",
+  "communication.delivery.status.failed": "فشل",
+  "communication.delivery.recipients.title": "المستلمون",
+  "communication.delivery.recipients.status": "الحالة",
+  "communication.delivery.recipients.company": "الشركة",
+  "communication.delivery.recipients.recipient": "المستلم",
+  "communication.delivery.recipients.allStatuses": "كل الحالات",
+  "communication.delivery.recipients.allCompanies": "كل الشركات",
+  "communication.delivery.recipients.count": "{count} مستلم",
+  "communication.delivery.recipients.empty": "لا يوجد مستلمون مطابقون لهذه الفلاتر.",
+  "communication.delivery.recipients.loadMore": "تحميل المزيد",
+  "communication.delivery.recipients.loadError": "تعذر تحميل المستلمين.",
+  "communication.delivery.resendFailed": "إعادة الإرسال إلى {count} فاشل",
+  "communication.delivery.trend.title": "اتجاه التسليم (أحدث البثوث)",
+  "communication.delivery.trend.bounced": "مرتد / فاشل",
+  "communication.delivery.trend.empty": "لا توجد بثوث بريد أو إشعارات مرسلة بعد.",
+  "communication.delivery.trend.loadError": "تعذر تحميل اتجاه التسليم.",
+  "communication.alerts.resendConfirm.title": "إعادة الإرسال إلى المستلمين الفاشلين",
+  "communication.alerts.resendConfirm.message": "سيتم إرسال بث جديد بنفس المحتوى إلى {count} مستلم ارتدت رسائلهم أو فشلت.",
+  "communication.alerts.resendConfirm.confirm": "إعادة الإرسال",
+  "communication.alerts.resendSuccess.title": "تمت إعادة الإرسال",
+  "communication.alerts.resendSuccess.message": "تم إنشاء بث جديد للمستلمين الفاشلين.",
+  "communication.alerts.resendError.title": "خطأ",
+  "communication.alerts.resendError.message": "فشل في إعادة إرسال البث",
+  "realtime.paymentSucceeded": "تم استلام دفعة من {company} {amount}",
+  "tickets.triageError": "تعذر تحديث التذكرة.",
+  "tenantWhatsapp.readOnly": "يمكن لدورك قراءة هذه المحادثات دون الرد عليها.",
+  "communication.delivery.currentStatus": "التسليم حسب الحالة الحالية",
+  "subscriptions.plans.usageError": "تعذر التحقق من الخطط التي لديها مشتركون، لذا لا يمكن حذف هذه الخطط حالياً.",
+  "subscriptions.plans.usageRetry": "إعادة المحاولة",
+  "subscriptions.plans.usageUnknownTooltip": "تعذر التحقق مما إذا كانت هذه الخطة لديها مشتركون.",
 };
 
 const enTranslations = {
@@ -1860,7 +2605,7 @@ const enTranslations = {
   "communication.filters.title": "Filter history",
   "communication.filters.searchPlaceholder": "Search by subject",
   "tenantWhatsapp.title": "Company WhatsApp",
-  "tenantWhatsapp.subtitle": "Select a company and message the owner via the platform WhatsApp Cloud API number.",
+  "tenantWhatsapp.subtitle": "Conversations with company owners on the platform WhatsApp Cloud API number, newest activity first.",
   "tenantWhatsapp.selectCompany": "Company",
   "tenantWhatsapp.ownerPhone": "Owner phone",
   "tenantWhatsapp.noMessages": "No messages yet. Configure Platform WhatsApp in Settings, then send.",
@@ -1957,6 +2702,751 @@ const enTranslations = {
   "content.notify.action": "Notify",
   "content.status.notified": "Notified",
   "content.table.notified": "Notified",
+  "settings.audit.empty": "No audit entries yet.",
+  "settings.audit.loadError": "Failed to load audit logs.",
+  "settings.audit.pending": "Pending sync",
+  "settings.audit.pendingHint": "Saved in this browser and will be sent to the server automatically.",
+  "common.yes": "Yes",
+  "common.no": "No",
+  "settings.audit.table.company": "Company",
+  "settings.audit.groupByAction": "Group by action",
+  "settings.audit.facets.actors": "Top actors",
+  "settings.audit.facets.actions": "Top actions",
+  "settings.audit.diff.field": "Field",
+  "settings.audit.diff.before": "Before",
+  "settings.audit.diff.after": "After",
+  "settings.audit.diff.show": "Show changes",
+  "settings.audit.diff.hide": "Hide changes",
+  "settings.audit.filters.open": "Filters",
+  "settings.audit.filters.title": "Filter audit log",
+  "settings.audit.filters.who": "Actor and action",
+  "settings.audit.filters.actor": "Actor",
+  "settings.audit.filters.allActors": "All actors",
+  "settings.audit.filters.action": "Action",
+  "settings.audit.filters.allActions": "All actions",
+  "settings.audit.filters.company": "Affected company",
+  "settings.audit.filters.allCompanies": "All companies",
+  "settings.audit.filters.dates": "Date range",
+  "settings.audit.filters.from": "From",
+  "settings.audit.filters.to": "To",
+  "settings.audit.filters.invalidRange": "The start date must be before the end date.",
+  "settings.audit.filters.noResults": "No audit entries match the selected filters.",
+  "export.button": "Export",
+  "export.title": "Export data",
+  "export.format": "File format",
+  "export.formats.xlsx": "Excel (XLSX)",
+  "export.formats.csv": "CSV",
+  "export.columns": "Columns",
+  "export.selectAll": "Select all",
+  "export.selectNone": "Clear all",
+  "export.noColumns": "Select at least one column.",
+  "export.filtersApplied": "The active filters will be applied. All matching rows are exported, not just the ones on screen.",
+  "export.allRows": "All rows will be exported, not just the ones on screen.",
+  "export.confirm": "Export",
+  "export.exporting": "Preparing file...",
+  "export.empty": "There are no rows to export.",
+  "export.error": "Could not export the data. Please try again.",
+  "export.success": "Exported {count} rows.",
+  "export.fields.currency": "Currency",
+  "export.fields.amountUsd": "Amount (USD)",
+  "export.fields.description": "Description",
+  "export.fields.createdAt": "Created at",
+  "tenants.loadError": "Failed to load tenants. Please try again.",
+  "tenants.actions.openDetail": "Open company page",
+  "tenants.detail.back": "← Back to companies",
+  "tenants.detail.notFound": "This company could not be found. It may have been deleted.",
+  "tenants.detail.loadError": "Failed to load company details. Please try again.",
+  "tenants.detail.sectionError": "This section could not be loaded.",
+  "tenants.detail.profile": "Company profile",
+  "tenants.detail.owner": "Owner contact",
+  "tenants.detail.subscriptions": "Subscription history",
+  "tenants.detail.payments": "Payments",
+  "tenants.detail.invoices": "Invoices",
+  "tenants.detail.tickets": "Support tickets",
+  "tenants.detail.whatsapp": "WhatsApp thread",
+  "tenants.detail.policies": "Integration & feature overrides",
+  "tenants.detail.audit": "Audit trail",
+  "tenants.detail.viewAll": "View all",
+  "tenants.detail.openThread": "Open chat",
+  "tenants.detail.manage": "Manage",
+  "tenants.detail.empty.subscriptions": "No subscriptions yet.",
+  "tenants.detail.empty.payments": "No payments for this company.",
+  "tenants.detail.empty.invoices": "No invoices for this company.",
+  "tenants.detail.empty.tickets": "No support tickets from this company.",
+  "tenants.detail.empty.policies": "No company-specific overrides; the global settings apply.",
+  "tenants.detail.empty.audit": "No audit entries for this company.",
+  "tenants.detail.policy.integration": "Integration",
+  "tenants.detail.policy.feature": "Feature",
+  "tenants.detail.policy.global": "Global: {state}",
+  "tenants.bulk.selectedCount": "{count} selected",
+  "tenants.bulk.selectAllMatching": "Select all {count} matching companies",
+  "tenants.bulk.clear": "Clear selection",
+  "tenants.bulk.actions.extend": "Extend end date",
+  "tenants.bulk.actions.changePlan": "Change plan",
+  "tenants.bulk.actions.activate": "Activate",
+  "tenants.bulk.actions.deactivate": "Deactivate",
+  "tenants.bulk.actions.whatsapp": "Send WhatsApp",
+  "tenants.bulk.actions.broadcast": "Send broadcast",
+  "tenants.bulk.days": "Days to add",
+  "tenants.bulk.daysHint": "Each company's current subscription end date moves forward by this many days.",
+  "tenants.bulk.deactivateWarning": "The active subscription of every selected company will be deactivated. Companies without an active subscription are skipped.",
+  "tenants.bulk.message": "Message",
+  "tenants.bulk.whatsappHint": "Sent from the platform WhatsApp number to each company owner's phone.",
+  "tenants.bulk.run": "Apply to {count} companies",
+  "tenants.bulk.progress": "{done} of {total} processed",
+  "tenants.bulk.retryFailed": "Retry {count} failed",
+  "tenants.bulk.rowFailed": "Request failed",
+  "tenants.bulk.status.pending": "Waiting",
+  "tenants.bulk.status.running": "In progress",
+  "tenants.bulk.status.success": "Done",
+  "tenants.bulk.status.failed": "Failed",
+  "tenants.bulk.errors.noSubscription": "This company has no subscription.",
+  "tenants.bulk.errors.noOwner": "This company has no owner to create a subscription for.",
+  "tenants.bulk.errors.days": "Enter a number of days of at least 1.",
+  "tenants.bulk.errors.message": "Enter a message.",
+  "tenants.bulk.errors.subject": "Enter a subject.",
+  "audit.log.tenantExtended": "Extended subscription for {companyName} by {days} days",
+  "audit.log.tenantPlanChanged": "Changed plan for {companyName} to {planName}",
+  "subscriptions.tabs.lifecycle": "Renewals & Lifecycle",
+  "subscriptions.lifecycle.loadError": "Failed to load subscription lifecycle data.",
+  "subscriptions.lifecycle.window": "Next {days} days",
+  "subscriptions.lifecycle.renewalsTitle": "Upcoming renewals",
+  "subscriptions.lifecycle.noRenewals": "No active subscriptions renew in this window.",
+  "subscriptions.lifecycle.summary.count": "Renewals due",
+  "subscriptions.lifecycle.summary.expectedUsd": "Expected revenue (USD)",
+  "subscriptions.lifecycle.summary.expectedIqd": "Expected revenue (IQD)",
+  "subscriptions.lifecycle.summary.rate": "At 1 USD = {rate} IQD",
+  "subscriptions.lifecycle.table.daysLeft": "Days Left",
+  "subscriptions.lifecycle.table.cycle": "Billing Cycle",
+  "subscriptions.lifecycle.table.expectedUsd": "Expected (USD)",
+  "subscriptions.lifecycle.table.expectedIqd": "Expected (IQD)",
+  "subscriptions.lifecycle.cycle.monthly": "Monthly",
+  "subscriptions.lifecycle.cycle.yearly": "Yearly",
+  "subscriptions.lifecycle.timelineTitle": "Company timeline",
+  "subscriptions.lifecycle.selectCompany": "Select a company",
+  "subscriptions.lifecycle.selectCompanyHint": "Pick a company (or click one in the renewals table) to see its subscription history.",
+  "subscriptions.lifecycle.noEvents": "No subscription history for this company.",
+  "subscriptions.lifecycle.event.period": "Subscription period",
+  "subscriptions.lifecycle.event.trial": "Trial",
+  "subscriptions.lifecycle.event.planChange": "Plan changed",
+  "subscriptions.lifecycle.event.gap": "Coverage gap ({days} days)",
+  "subscriptions.lifecycle.event.payment": "Payment",
+  "tenants.changePlan.open": "Change plan",
+  "tenants.changePlan.title": "Change plan",
+  "tenants.changePlan.loadError": "Failed to load the company's subscription and plans.",
+  "tenants.changePlan.noActiveSubscription": "This company has no active subscription. Activate it first to change its plan.",
+  "tenants.changePlan.currentPlan": "Current plan",
+  "tenants.changePlan.targetPlan": "New plan",
+  "tenants.changePlan.changeDate": "Effective date",
+  "tenants.changePlan.direction.upgrade": "Upgrade",
+  "tenants.changePlan.direction.downgrade": "Downgrade",
+  "tenants.changePlan.direction.lateral": "Same tier",
+  "tenants.changePlan.entitlements": "Entitlement changes",
+  "tenants.changePlan.noEntitlementChanges": "Both plans grant the same limits and features.",
+  "tenants.changePlan.enabled": "Enabled",
+  "tenants.changePlan.disabled": "Disabled",
+  "tenants.changePlan.remainingDays": "Days remaining in period",
+  "tenants.changePlan.credit": "Credit for unused current plan",
+  "tenants.changePlan.charge": "Charge for new plan",
+  "tenants.changePlan.netDue": "Amount due",
+  "tenants.changePlan.netCredit": "Credit owed to company",
+  "tenants.changePlan.issueInvoice": "Issue an invoice for the amount due",
+  "tenants.changePlan.invoiceLine": "Plan change proration:",
+  "tenants.changePlan.confirm": "Confirm plan change",
+  "tenants.changePlan.success": "Plan changed successfully.",
+  "tenants.changePlan.failed": "Failed to change plan.",
+  "audit.log.tenantPlanChangedProrated": "Changed plan for {companyName} from {fromPlan} to {toPlan} (prorated {amount})",
+  "subscriptions.tabs.coupons": "Coupons",
+  "invoice.discount": "Discount",
+  "subscriptions.coupons.create": "Create coupon",
+  "subscriptions.coupons.createTitle": "Create coupon",
+  "subscriptions.coupons.editTitle": "Edit coupon",
+  "subscriptions.coupons.save": "Save coupon",
+  "subscriptions.coupons.delete": "Delete coupon",
+  "subscriptions.coupons.deleteConfirm": "Delete coupon {code}? Past redemptions stay on their invoices.",
+  "subscriptions.coupons.loadError": "Failed to load coupons.",
+  "subscriptions.coupons.saveError": "Failed to save coupon.",
+  "subscriptions.coupons.deleteError": "Failed to delete coupon.",
+  "subscriptions.coupons.empty": "No coupons yet.",
+  "subscriptions.coupons.code": "Code",
+  "subscriptions.coupons.description": "Description",
+  "subscriptions.coupons.discount": "Discount",
+  "subscriptions.coupons.discountType": "Discount type",
+  "subscriptions.coupons.type.percent": "Percentage",
+  "subscriptions.coupons.type.fixed": "Fixed amount",
+  "subscriptions.coupons.valuePercent": "Percent off",
+  "subscriptions.coupons.valueFixed": "Amount off (USD)",
+  "subscriptions.coupons.duration": "Applies to",
+  "subscriptions.coupons.durationOption.once": "First payment only",
+  "subscriptions.coupons.durationOption.recurring": "Every payment",
+  "subscriptions.coupons.expiresAt": "Expires on",
+  "subscriptions.coupons.maxRedemptions": "Max redemptions",
+  "subscriptions.coupons.redemptions": "Redemptions",
+  "subscriptions.coupons.plans": "Applicable plans",
+  "subscriptions.coupons.plansHint": "Leave all unchecked to allow every paid plan.",
+  "subscriptions.coupons.allPlans": "All plans",
+  "subscriptions.coupons.active": "Active",
+  "subscriptions.coupons.state.active": "Active",
+  "subscriptions.coupons.state.inactive": "Inactive",
+  "subscriptions.coupons.state.expired": "Expired",
+  "subscriptions.coupons.state.exhausted": "Fully redeemed",
+  "subscriptions.coupons.validation.code": "Code must be 3-32 characters: letters, digits, dash or underscore.",
+  "subscriptions.coupons.validation.percent": "Percent off must be between 1 and 100.",
+  "subscriptions.coupons.validation.fixed": "Amount off must be greater than zero.",
+  "subscriptions.coupons.validation.maxRedemptions": "Max redemptions must be at least 1.",
+  "subscriptions.coupons.report.title": "Redemption report",
+  "subscriptions.coupons.report.summary": "{count} redemptions · {total} discounted",
+  "subscriptions.coupons.report.allCoupons": "All coupons",
+  "subscriptions.coupons.report.empty": "No redemptions yet.",
+  "subscriptions.coupons.report.date": "Date",
+  "subscriptions.coupons.report.company": "Company",
+  "subscriptions.coupons.report.plan": "Plan",
+  "subscriptions.coupons.report.invoice": "Invoice",
+  "subscriptions.coupons.report.discount": "Discount",
+  "audit.log.couponCreated": "Created coupon {code}",
+  "audit.log.couponUpdated": "Updated coupon {code}",
+  "audit.log.couponDeleted": "Deleted coupon {code}",
+  "subscriptions.tabs.dunning": "Dunning",
+  "subscriptions.dunning.loadError": "Failed to load the dunning queue.",
+  "subscriptions.dunning.actionError": "Failed to update the dunning case.",
+  "subscriptions.dunning.scheduleError": "Failed to save the dunning schedule.",
+  "subscriptions.dunning.scheduleSaved": "Dunning schedule saved.",
+  "subscriptions.dunning.scheduleTitle": "Dunning schedule",
+  "subscriptions.dunning.scheduleHint": "Steps run automatically after a payment fails or stays pending. Days are counted from the first failed attempt.",
+  "subscriptions.dunning.enabled": "Dunning enabled",
+  "subscriptions.dunning.stepEnabled": "Enabled",
+  "subscriptions.dunning.addStep": "Add step",
+  "subscriptions.dunning.removeStep": "Remove step",
+  "subscriptions.dunning.saveSchedule": "Save schedule",
+  "subscriptions.dunning.stepLabel": "Day {day} · {action}",
+  "subscriptions.dunning.action.email": "Email reminder",
+  "subscriptions.dunning.action.whatsapp": "WhatsApp reminder",
+  "subscriptions.dunning.action.sms": "SMS reminder",
+  "subscriptions.dunning.action.deactivate": "Deactivate company",
+  "subscriptions.dunning.filter.open": "Open",
+  "subscriptions.dunning.filter.active": "Active",
+  "subscriptions.dunning.filter.paused": "Paused",
+  "subscriptions.dunning.filter.resolved": "Resolved",
+  "subscriptions.dunning.filter.deactivated": "Deactivated",
+  "subscriptions.dunning.filter.all": "All",
+  "subscriptions.dunning.status.active": "In dunning",
+  "subscriptions.dunning.status.paused": "Paused",
+  "subscriptions.dunning.status.resolved": "Resolved",
+  "subscriptions.dunning.status.deactivated": "Deactivated",
+  "subscriptions.dunning.table.company": "Company",
+  "subscriptions.dunning.table.since": "Since",
+  "subscriptions.dunning.table.stage": "Current step",
+  "subscriptions.dunning.table.next": "Next step",
+  "subscriptions.dunning.table.nextAt": "Next action",
+  "subscriptions.dunning.table.status": "Status",
+  "subscriptions.dunning.searchPlaceholder": "Search by company...",
+  "subscriptions.dunning.empty": "No dunning cases match this filter.",
+  "subscriptions.dunning.actions.skip": "Skip step",
+  "subscriptions.dunning.actions.pause": "Pause",
+  "subscriptions.dunning.actions.resume": "Resume",
+  "subscriptions.dunning.actions.resolve": "Mark resolved",
+  "subscriptions.dunning.validation.empty": "Add at least one step.",
+  "subscriptions.dunning.validation.day": "Step days must be whole numbers of 0 or more.",
+  "subscriptions.dunning.validation.duplicateDay": "Two steps cannot run on the same day.",
+  "subscriptions.dunning.validation.deactivateLast": "Deactivation must be the last step.",
+  "audit.log.dunningStepSkipped": "Skipped the current dunning step for {companyName}",
+  "audit.log.dunningPaused": "Paused dunning for {companyName}",
+  "audit.log.dunningResumed": "Resumed dunning for {companyName}",
+  "audit.log.dunningResolved": "Marked dunning as resolved for {companyName}",
+  "audit.log.dunningScheduleUpdated": "Updated the dunning schedule",
+  "tenants.detail.dunning": "Dunning",
+  "tenants.detail.empty.dunning": "No dunning cases for this company.",
+  "tenants.detail.inDunning": "In dunning",
+  "login.twoFactor.title": "Two-factor verification",
+  "login.twoFactor.hint": "Enter the 6-digit code from your authenticator app.",
+  "login.twoFactor.backupHint": "Enter one of your backup codes. Each code works only once.",
+  "login.twoFactor.code": "Verification code",
+  "login.twoFactor.backupCode": "Backup code",
+  "login.twoFactor.verify": "Verify",
+  "login.twoFactor.useBackup": "Use a backup code",
+  "login.twoFactor.useApp": "Use authenticator app",
+  "login.twoFactor.back": "Back to sign in",
+  "login.twoFactor.invalidCode": "Invalid verification code",
+  "login.twoFactor.challengeExpired": "The sign-in attempt expired. Please sign in again.",
+  "header.accountSecurity": "Account Security",
+  "account.security.title": "Account Security",
+  "account.security.twoFactorTitle": "Two-factor authentication",
+  "account.security.twoFactorDescription": "Require a code from an authenticator app in addition to your password when signing in.",
+  "account.security.disabledDescription": "Two-factor authentication is off. Use an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.",
+  "account.security.enable": "Enable two-factor authentication",
+  "account.security.disable": "Disable 2FA",
+  "account.security.regenerate": "Regenerate backup codes",
+  "account.security.confirmDisable": "Enter a current code from your authenticator app to disable 2FA.",
+  "account.security.confirmRegenerate": "Enter a current code from your authenticator app. Your old backup codes will stop working.",
+  "account.security.backupCodesRemaining": "Backup codes remaining: {count}",
+  "account.security.requiredByPolicy": "2FA is required for your account by the platform policy.",
+  "account.security.enrollmentRequired": "Your administrator requires two-factor authentication. Set it up below to continue using the panel.",
+  "account.security.loadError": "Failed to load two-factor authentication status.",
+  "account.security.setupError": "Failed to start two-factor setup.",
+  "account.security.codeInvalid": "Enter the 6-digit code from your authenticator app.",
+  "account.security.codeRejected": "The code was not accepted. Check your device time and try again.",
+  "account.security.enabledSuccess": "Two-factor authentication enabled.",
+  "account.security.disabledSuccess": "Two-factor authentication disabled.",
+  "account.security.setup.step1": "Scan the QR code with your authenticator app, or enter the key manually.",
+  "account.security.setup.step2": "Enter the 6-digit code the app shows to finish.",
+  "account.security.setup.qrAlt": "Authenticator QR code",
+  "account.security.setup.manualKey": "Setup key",
+  "account.security.setup.openApp": "Open in authenticator app",
+  "account.security.setup.codeLabel": "Verification code",
+  "account.security.setup.confirm": "Verify and enable",
+  "account.security.backupCodes.warning": "Save these backup codes somewhere safe. Each one signs you in once if you lose your device. They will not be shown again.",
+  "account.security.backupCodes.copy": "Copy",
+  "account.security.backupCodes.copied": "Backup codes copied.",
+  "account.security.backupCodes.copyError": "Could not copy to the clipboard.",
+  "account.security.backupCodes.download": "Download",
+  "account.security.backupCodes.saved": "I have saved them",
+  "settings.menu.twoFactor": "Two-Factor Policy",
+  "settings.twoFactor.title": "Two-factor authentication policy",
+  "settings.twoFactor.description": "Control whether limited admins must use two-factor authentication to sign in.",
+  "settings.twoFactor.requiredLabel": "Require 2FA for all limited admins",
+  "settings.twoFactor.requiredHint": "Limited admins without 2FA will be sent to Account Security after signing in and cannot use the panel until they enroll.",
+  "settings.twoFactor.loadError": "Failed to load the 2FA policy.",
+  "settings.twoFactor.saveError": "Failed to save the 2FA policy.",
+  "settings.twoFactor.saveSuccess": "2FA policy saved.",
+  "audit.log.twoFactorEnabled": "Enabled two-factor authentication for {username}",
+  "audit.log.twoFactorDisabled": "Disabled two-factor authentication for {username}",
+  "audit.log.twoFactorBackupCodesRegenerated": "Regenerated 2FA backup codes for {username}",
+  "audit.log.twoFactorPolicyUpdated": "Limited admin 2FA requirement: {state}",
+  "session.revoked": "You have been signed out because this session was revoked.",
+  "session.expired": "Your session has expired. Please sign in again.",
+  "account.sessions.title": "Active sessions",
+  "account.sessions.description": "Devices currently signed in to the admin panel. Revoke any session you do not recognise.",
+  "account.sessions.loadError": "Failed to load sessions.",
+  "account.sessions.revokeError": "Failed to revoke the session.",
+  "account.sessions.revokeSuccess": "Session revoked.",
+  "account.sessions.signOutEverywhere": "Sign out everywhere",
+  "account.sessions.signOutAdminEverywhere": "Sign out {username} everywhere",
+  "account.sessions.scope.mine": "My sessions",
+  "account.sessions.scope.limitedAdmins": "Limited admins",
+  "account.sessions.filterAdmin": "Filter by admin",
+  "account.sessions.allAdmins": "All admins",
+  "account.sessions.table.admin": "Admin",
+  "account.sessions.table.device": "Device",
+  "account.sessions.table.ip": "IP address",
+  "account.sessions.table.lastActivity": "Last activity",
+  "account.sessions.table.age": "Token age",
+  "account.sessions.table.actions": "Actions",
+  "account.sessions.current": "This device",
+  "account.sessions.revoke": "Revoke",
+  "account.sessions.empty": "No active sessions.",
+  "account.sessions.unknownDevice": "Unknown device",
+  "account.sessions.browserOnOs": "{browser} on {os}",
+  "account.sessions.age.daysHours": "{days}d {hours}h",
+  "account.sessions.age.hoursMinutes": "{hours}h {minutes}m",
+  "account.sessions.age.minutes": "{minutes}m",
+  "account.sessions.confirmRevoke": "Revoke the session on {device}? That device will be signed out immediately.",
+  "account.sessions.confirmRevokeCurrent": "This is the session you are using now. Revoking it will sign you out.",
+  "account.sessions.confirmRevokeAll": "Sign out of every device, including this one?",
+  "account.sessions.confirmRevokeAllFor": "Sign {username} out of every device?",
+  "audit.log.sessionRevoked": "Revoked a session of {username} ({device}, {ip})",
+  "audit.log.sessionsRevokedAll": "Signed out all sessions of {username}",
+  "idleLock.title": "Session locked",
+  "idleLock.description": "You were inactive for too long. Enter the password for {username} to continue where you left off.",
+  "idleLock.unlock": "Unlock",
+  "idleLock.signOut": "Sign out instead",
+  "idleLock.wrongPassword": "Incorrect password",
+  "idleLock.warning": "The panel will lock in {seconds} seconds because of inactivity.",
+  "idleLock.stay": "Stay signed in",
+  "settings.menu.idleTimeout": "Idle Timeout",
+  "settings.idleTimeout.title": "Idle timeout",
+  "settings.idleTimeout.description": "Lock the panel after a period without activity. Unlocking requires the admin's password; the open page and unsaved input are kept.",
+  "settings.idleTimeout.enabledLabel": "Lock the panel when idle",
+  "settings.idleTimeout.minutes": "Lock after (minutes)",
+  "settings.idleTimeout.minutesHint": "Admins see a countdown one minute before the lock. Activity in any open tab counts. Applies the next time an admin opens the panel.",
+  "settings.idleTimeout.loadError": "Failed to load idle timeout settings.",
+  "settings.idleTimeout.saveError": "Failed to save idle timeout settings.",
+  "settings.idleTimeout.saveSuccess": "Idle timeout settings saved.",
+  "audit.log.idleTimeoutUpdated": "Idle timeout: {state}, {minutes} minutes",
+  "audit.log.idleLockUnlocked": "{username} unlocked the panel after an idle lock",
+  "settings.menu.roles": "Roles",
+  "settings.readOnly": "Your role has read-only access to settings. Changes cannot be saved.",
+  "roles.title": "Admin roles",
+  "roles.subtitle": "Reusable permission sets. Assign a role to a limited admin instead of ticking individual permissions.",
+  "roles.create": "Create role",
+  "roles.createTitle": "Create role",
+  "roles.editTitle": "Edit role",
+  "roles.delete": "Delete role",
+  "roles.deleteConfirm": "Delete the role \"{name}\"? This cannot be undone.",
+  "roles.deleteInUse": "Reassign the admins using this role before deleting it",
+  "roles.loadError": "Could not load roles",
+  "roles.saveError": "Could not save the role",
+  "roles.deleteError": "Could not delete the role",
+  "roles.empty": "No roles yet",
+  "roles.name": "Name",
+  "roles.namePlaceholder": "e.g. Finance, Support L1",
+  "roles.description": "Description",
+  "roles.resources": "Access",
+  "roles.resourcesHint": "Each level includes the ones before it: write includes read, delete includes write.",
+  "roles.resource": "Area",
+  "roles.noAccess": "No access",
+  "roles.actions": "Sensitive actions",
+  "roles.admins": "Admins",
+  "roles.companyScope": "Companies",
+  "roles.allCompanies": "All companies",
+  "roles.searchCompanies": "Search companies",
+  "roles.companiesSelected": "{count} companies",
+  "roles.save": "Save role",
+  "roles.validation.name": "Enter a role name",
+  "roles.validation.companies": "Select at least one company or allow all companies",
+  "roles.level.none": "None",
+  "roles.level.read": "Read",
+  "roles.level.write": "Write",
+  "roles.level.delete": "Delete",
+  "roles.resourceName.dashboard": "Dashboard",
+  "roles.resourceName.tenants": "Tenants",
+  "roles.resourceName.subscriptions": "Subscriptions",
+  "roles.resourceName.paymentGateways": "Payment gateways",
+  "roles.resourceName.reports": "Reports",
+  "roles.resourceName.communication": "Communication",
+  "roles.resourceName.content": "Content",
+  "roles.resourceName.settings": "Settings",
+  "roles.resourceName.limitedAdmins": "Admins & roles",
+  "roles.resourceName.supportTickets": "Support tickets",
+  "roles.action.impersonate": "Impersonate tenants",
+  "roles.action.restoreBackup": "Restore backups",
+  "roles.action.editGatewaySecrets": "Edit gateway secrets",
+  "limitedAdmins.modal.role": "Role",
+  "limitedAdmins.modal.customPermissions": "Custom permissions",
+  "limitedAdmins.modal.roleHint": "Access comes from the role. Edit the role to change it for every admin that uses it.",
+  "limitedAdmins.table.role": "Role",
+  "paymentGateways.modal.secretsReadOnly": "Your role cannot edit gateway credentials. They are shown read-only.",
+  "audit.log.roleCreated": "Created admin role: {roleName}",
+  "audit.log.roleUpdated": "Updated admin role: {roleName}",
+  "audit.log.roleDeleted": "Deleted admin role: {roleName}",
+  "impersonation.reason": "Reason",
+  "impersonation.reasonPlaceholder": "Why do you need to sign in as this company? This is recorded in the audit trail.",
+  "impersonation.reasonRequired": "Enter a reason for impersonating this company",
+  "impersonation.ticket": "Related support ticket",
+  "impersonation.noTicket": "No ticket",
+  "impersonation.duration": "Duration",
+  "impersonation.durationHint": "The CRM session ends automatically when this time runs out.",
+  "impersonation.hours": "{count} h",
+  "impersonation.minutes": "{count} min",
+  "impersonation.startedUntil": "CRM app opened as company owner until {time}",
+  "impersonation.status.active": "Active",
+  "impersonation.status.expired": "Expired",
+  "impersonation.status.revoked": "Revoked",
+  "impersonation.status.ended": "Ended",
+  "impersonation.history.title": "Impersonation history",
+  "impersonation.history.description": "Who signed in as which company, why, for how long and from where.",
+  "impersonation.history.loadError": "Failed to load impersonation history",
+  "impersonation.history.filterStatus": "Filter by status",
+  "impersonation.history.allStatuses": "All statuses",
+  "impersonation.history.admin": "Admin",
+  "impersonation.history.company": "Company",
+  "impersonation.history.started": "Started",
+  "impersonation.history.from": "From",
+  "impersonation.history.status": "Status",
+  "impersonation.history.actions": "Actions",
+  "impersonation.history.empty": "No impersonation sessions yet",
+  "impersonation.history.ticketRef": "Ticket #{id}",
+  "impersonation.history.endedAt": "Ended {time}",
+  "impersonation.history.expiresAt": "Expires {time}",
+  "impersonation.history.usedOf": "{used} of {allowed} min",
+  "impersonation.history.revokedBy": "by {username}",
+  "impersonation.history.revoke": "Revoke",
+  "impersonation.history.revokeConfirm": "End {admin}'s impersonation of {company} now? Their CRM session will be signed out immediately.",
+  "impersonation.history.revokeSuccess": "Impersonation session revoked",
+  "impersonation.history.revokeError": "Failed to revoke impersonation session",
+  "settings.menu.impersonation": "Impersonation",
+  "settings.impersonation.title": "Impersonation",
+  "settings.impersonation.description": "How long an admin may stay signed in as a company owner. Every session requires a reason and is listed below.",
+  "settings.impersonation.defaultMinutes": "Default duration",
+  "settings.impersonation.maxMinutes": "Maximum duration",
+  "settings.impersonation.maxMinutesHint": "Admins cannot pick a longer duration when starting an impersonation.",
+  "settings.impersonation.defaultAboveMax": "The default duration cannot be longer than the maximum",
+  "settings.impersonation.loadError": "Failed to load impersonation settings",
+  "settings.impersonation.saveSuccess": "Impersonation settings saved",
+  "settings.impersonation.saveError": "Failed to save impersonation settings",
+  "audit.log.impersonationStarted": "Impersonated {companyName} for {duration}: {reason}",
+  "audit.log.impersonationRevoked": "Revoked {adminName}'s impersonation of {companyName}",
+  "audit.log.impersonationSettingsUpdated": "Impersonation duration: default {defaultDuration}, maximum {maxDuration}",
+  "realtime.status.open": "Live",
+  "realtime.status.connecting": "Connecting…",
+  "realtime.status.polling": "Auto-refresh",
+  "realtime.statusHint.open": "Tickets, WhatsApp messages and payments update as they happen",
+  "realtime.statusHint.connecting": "Connecting to live updates…",
+  "realtime.statusHint.polling": "Live updates are unavailable; pages refresh every 30 seconds",
+  "sidebar.badgeCount": "{count} new",
+  "notifications.title": "Notifications",
+  "notifications.unreadLabel": "Notifications, {count} unread",
+  "notifications.empty": "You're all caught up",
+  "notifications.markAllRead": "Mark all as read",
+  "notifications.markRead": "Mark as read",
+  "notifications.loadMore": "Load older",
+  "notifications.preferences": "Notification preferences",
+  "notifications.backToList": "Back to notifications",
+  "notifications.mutedHint": "Unchecked types are muted: they are hidden here and do not pop up.",
+  "notifications.desktop.label": "Desktop notifications",
+  "notifications.desktop.hint": "Shown by the browser while the panel is in a background tab.",
+  "notifications.desktop.denied": "Blocked in this browser. Allow notifications for this site in the browser settings.",
+  "notifications.desktop.unsupported": "This browser does not support desktop notifications.",
+  "notifications.type.ticket_created": "New support ticket",
+  "notifications.type.payment_failed": "Payment failed",
+  "notifications.type.subscription_expiring": "Subscription expiring",
+  "notifications.type.backup_failed": "Backup failed",
+  "notifications.type.gateway_test_failed": "Gateway test failed",
+  "notifications.message.ticket_created": "{company}: {title}",
+  "notifications.message.payment_failed": "{company} — {amount}",
+  "notifications.message.subscription_expiring": "{company}'s {plan} subscription ends in {days} days",
+  "notifications.message.backup_failed": "The scheduled backup did not complete: {error}",
+  "notifications.message.gateway_test_failed": "{gateway}: {error}",
+  "tickets.thread.title": "Conversation",
+  "tickets.thread.empty": "No replies yet. Start the conversation below.",
+  "tickets.thread.loadError": "Could not load the conversation.",
+  "tickets.thread.retry": "Try again",
+  "tickets.thread.staff": "Support team",
+  "tickets.thread.tenant": "Tenant",
+  "tickets.thread.internalBadge": "Internal note",
+  "tickets.thread.internalNote": "Internal note (staff only)",
+  "tickets.thread.internalHint": "Internal notes are only visible to platform staff. The tenant is not notified.",
+  "tickets.thread.replyPlaceholder": "Write a reply to the tenant… (Ctrl+Enter to send)",
+  "tickets.thread.notePlaceholder": "Write an internal note… (Ctrl+Enter to save)",
+  "tickets.thread.attach": "Attach files",
+  "tickets.thread.removeFile": "Remove file",
+  "tickets.thread.fileTooLarge": "These files are larger than {max} and were skipped: {names}",
+  "tickets.thread.tooManyFiles": "You can attach up to {max} files per message.",
+  "tickets.thread.notifyEmail": "Notify by email",
+  "tickets.thread.notifyWhatsApp": "Notify by WhatsApp",
+  "tickets.thread.notifiedVia": "Notified via",
+  "tickets.thread.channel.email": "email",
+  "tickets.thread.channel.whatsapp": "WhatsApp",
+  "tickets.thread.sendReply": "Send reply",
+  "tickets.thread.addNote": "Add note",
+  "tickets.thread.sending": "Sending…",
+  "tickets.thread.sendError": "Could not send the message.",
+  "tickets.triage": "Triage",
+  "tickets.assignee": "Assignee",
+  "tickets.unassigned": "Unassigned",
+  "tickets.priority": "Priority",
+  "tickets.priority.low": "Low",
+  "tickets.priority.normal": "Normal",
+  "tickets.priority.high": "High",
+  "tickets.priority.urgent": "Urgent",
+  "tickets.category": "Category",
+  "tickets.category.none": "No category",
+  "tickets.category.billing": "Billing",
+  "tickets.category.technical": "Technical",
+  "tickets.category.account": "Account",
+  "tickets.category.whatsapp": "WhatsApp",
+  "tickets.category.feature_request": "Feature request",
+  "tickets.category.other": "Other",
+  "tickets.sla.label": "SLA",
+  "tickets.sla.state.on_track": "On track",
+  "tickets.sla.state.at_risk": "At risk",
+  "tickets.sla.state.breached": "Breached",
+  "tickets.sla.state.met": "Met",
+  "tickets.sla.phase.first_response": "First response",
+  "tickets.sla.phase.resolution": "Resolution",
+  "tickets.sla.dueIn": "due in {duration}",
+  "tickets.sla.overdueBy": "overdue by {duration}",
+  "tickets.sla.unit.days": "{count}d",
+  "tickets.sla.unit.hours": "{count}h",
+  "tickets.sla.unit.minutes": "{count}m",
+  "tickets.filters.triage": "Assignment & SLA",
+  "tickets.filters.assignedToMe": "Assigned to me",
+  "tickets.view.all": "All tickets",
+  "tickets.view.mine": "My tickets ({count} open)",
+  "tickets.slaReport.toggle": "SLA report",
+  "tickets.slaReport.title": "SLA compliance",
+  "tickets.slaReport.description": "Share of tickets answered and resolved within target, for the tickets matching the current filters.",
+  "tickets.slaReport.targets": "Targets (response / resolution)",
+  "tickets.slaReport.tickets": "Tickets",
+  "tickets.slaReport.firstResponse": "First response",
+  "tickets.slaReport.resolution": "Resolution",
+  "tickets.slaReport.openBreached": "Open & overdue",
+  "tickets.slaReport.allPriorities": "All priorities",
+  "settings.menu.ticketSla": "Support SLA",
+  "settings.ticketSla.title": "Support ticket SLA",
+  "settings.ticketSla.description": "Targets per priority for the first staff reply and for closing a ticket, counted from when the ticket was opened.",
+  "settings.ticketSla.firstResponseHours": "First response (hours)",
+  "settings.ticketSla.resolutionHours": "Resolution (hours)",
+  "settings.ticketSla.hint": "Tickets turn \"At risk\" when less than a quarter of the target is left. Changes apply to existing tickets too.",
+  "settings.ticketSla.invalidValue": "Every target must be greater than zero.",
+  "settings.ticketSla.firstResponseAboveResolution": "{priority}: the first response target cannot be longer than the resolution target.",
+  "settings.ticketSla.loadError": "Failed to load SLA targets.",
+  "settings.ticketSla.saveError": "Failed to save SLA targets.",
+  "settings.ticketSla.saveSuccess": "SLA targets saved.",
+  "audit.log.ticketSlaUpdated": "Support SLA targets: {targets}",
+  "settings.menu.cannedResponses": "Canned Responses",
+  "audit.log.cannedResponseCreated": "Created canned response: {title}",
+  "audit.log.cannedResponseUpdated": "Updated canned response: {title}",
+  "audit.log.cannedResponseDeleted": "Deleted canned response: {title}",
+  "cannedResponses.panelTitle": "Canned Responses",
+  "cannedResponses.subtitle": "Reusable replies for WhatsApp chats and support tickets. Variables are filled from the tenant record when inserted.",
+  "cannedResponses.button": "Canned",
+  "cannedResponses.insert": "Insert a canned response",
+  "cannedResponses.search": "Search responses...",
+  "cannedResponses.language": "Response language",
+  "cannedResponses.noMatches": "No responses match your search.",
+  "cannedResponses.empty": "No canned responses yet.",
+  "cannedResponses.loadError": "Failed to load canned responses.",
+  "cannedResponses.saveError": "Failed to save the canned response.",
+  "cannedResponses.deleteError": "Failed to delete the canned response.",
+  "cannedResponses.unresolved": "Some variables could not be filled and were left in the text: {names}",
+  "cannedResponses.macroBadge": "Sets {status}",
+  "cannedResponses.macroPending": "Sending will set the ticket to {status}",
+  "cannedResponses.macroCancel": "Keep current status",
+  "cannedResponses.create": "New Response",
+  "cannedResponses.createTitle": "New Canned Response",
+  "cannedResponses.editTitle": "Edit Canned Response",
+  "cannedResponses.delete": "Delete Response",
+  "cannedResponses.deleteConfirm": "Delete the canned response \"{title}\"? This cannot be undone.",
+  "cannedResponses.save": "Save Response",
+  "cannedResponses.title": "Title",
+  "cannedResponses.titlePlaceholder": "e.g. Renewal reminder",
+  "cannedResponses.preview": "Preview",
+  "cannedResponses.scope": "Available in",
+  "cannedResponses.scope.all": "WhatsApp and tickets",
+  "cannedResponses.scope.whatsapp": "WhatsApp only",
+  "cannedResponses.scope.tickets": "Tickets only",
+  "cannedResponses.setStatus": "Ticket status macro",
+  "cannedResponses.setStatus.none": "Don't change status",
+  "cannedResponses.setStatusHint": "When used in a ticket reply, sending it also moves the ticket to this status.",
+  "cannedResponses.variables": "Variables",
+  "cannedResponses.variablesHint": "Click to insert into the body you last focused.",
+  "cannedResponses.variable.company_name": "Tenant company name",
+  "cannedResponses.variable.owner_name": "Tenant owner's name",
+  "cannedResponses.variable.plan": "Current subscription plan",
+  "cannedResponses.variable.end_date": "Subscription end date",
+  "cannedResponses.bodyEn": "English text",
+  "cannedResponses.bodyAr": "Arabic text",
+  "cannedResponses.missingArabic": "No Arabic text",
+  "cannedResponses.missingEnglish": "No English text",
+  "cannedResponses.validation.title": "Please enter a title.",
+  "cannedResponses.validation.body": "Please enter the response text in at least one language.",
+  "tenantWhatsapp.inbox.search": "Search companies and messages...",
+  "tenantWhatsapp.inbox.filter": "Show",
+  "tenantWhatsapp.inbox.filter.all": "All",
+  "tenantWhatsapp.inbox.filter.awaiting": "Awaiting reply",
+  "tenantWhatsapp.inbox.filter.unread": "Unread",
+  "tenantWhatsapp.inbox.empty": "No conversations yet.",
+  "tenantWhatsapp.inbox.noMatches": "No conversations match.",
+  "tenantWhatsapp.inbox.loadMore": "Load more",
+  "tenantWhatsapp.inbox.loadError": "Failed to load conversations",
+  "tenantWhatsapp.inbox.you": "You:",
+  "tenantWhatsapp.inbox.awaitingBadge": "Awaiting reply",
+  "tenantWhatsapp.inbox.newConversation": "Start a new conversation",
+  "tenantWhatsapp.inbox.selectConversation": "No conversation selected",
+  "tenantWhatsapp.inbox.selectConversationHint": "Pick a conversation from the inbox, or start a new one with a company.",
+  "tenantWhatsapp.inbox.markHandled": "Mark handled",
+  "tenantWhatsapp.inbox.reopen": "Reopen",
+  "tenantWhatsapp.inbox.handled": "Handled",
+  "tenantWhatsapp.inbox.handledBy": "Handled by {user}",
+  "tenantWhatsapp.inbox.handledError": "Failed to update the conversation",
+  "audit.log.whatsappTemplatesSynced": "Synced WhatsApp message templates ({count} approved)",
+  "tenantWhatsapp.session.open": "24-hour window open: free-form messages allowed",
+  "tenantWhatsapp.session.openUntil": "24-hour window open until {time}",
+  "tenantWhatsapp.session.closed": "24-hour window closed. Only approved template messages can be sent until the tenant writes back.",
+  "tenantWhatsapp.session.closedError": "The 24-hour window has closed, so WhatsApp rejected the free-form message. Send an approved template instead.",
+  "tenantWhatsapp.session.useTemplate": "Use a template",
+  "tenantWhatsapp.session.useText": "Write a message",
+  "tenantWhatsapp.templates.select": "Choose an approved template…",
+  "tenantWhatsapp.templates.none": "No approved templates. Sync them in Settings → Platform WhatsApp.",
+  "tenantWhatsapp.templates.loadError": "Failed to load message templates",
+  "tenantWhatsapp.templates.slot": "Value for {slot}",
+  "tenantWhatsapp.templates.preview": "Preview",
+  "tenantWhatsapp.templates.send": "Send template",
+  "whatsappTemplates.title": "Message templates",
+  "whatsappTemplates.description": "Approved templates from your Meta Business account. Outside the 24-hour window, chats can only send these.",
+  "whatsappTemplates.lastSynced": "Last synced {time}",
+  "whatsappTemplates.sync": "Sync from Meta",
+  "whatsappTemplates.syncing": "Syncing...",
+  "whatsappTemplates.syncSuccess": "Templates synced: {count} approved",
+  "whatsappTemplates.syncError": "Failed to sync templates from Meta",
+  "whatsappTemplates.loadError": "Failed to load message templates",
+  "whatsappTemplates.empty": "No approved templates yet. Create them in WhatsApp Manager, then sync.",
+  "whatsappTemplates.name": "Name",
+  "whatsappTemplates.language": "Language",
+  "whatsappTemplates.category": "Category",
+  "whatsappTemplates.body": "Body",
+  "whatsappTemplates.variables": "Variables",
+  "whatsappTemplates.category.UTILITY": "Utility",
+  "whatsappTemplates.category.MARKETING": "Marketing",
+  "whatsappTemplates.category.AUTHENTICATION": "Authentication",
+  "tenantWhatsapp.receipt.pending": "Sending",
+  "tenantWhatsapp.receipt.sent": "Sent",
+  "tenantWhatsapp.receipt.delivered": "Delivered",
+  "tenantWhatsapp.receipt.read": "Read",
+  "tenantWhatsapp.receipt.failed": "Failed",
+  "tenantWhatsapp.receipt.failedHint": "WhatsApp could not deliver this message.",
+  "tenantWhatsapp.media.button": "Attach",
+  "tenantWhatsapp.media.attach": "Attach a photo, document or audio file",
+  "tenantWhatsapp.media.remove": "Remove attachment",
+  "tenantWhatsapp.media.captionHint": "the message text is sent as its caption",
+  "tenantWhatsapp.media.audioCaptionHint": "the message text is sent separately",
+  "tenantWhatsapp.media.tooLarge": "{name} is larger than WhatsApp allows for this file type ({max}).",
+  "tenantWhatsapp.media.kind.image": "Photo",
+  "tenantWhatsapp.media.kind.document": "Document",
+  "tenantWhatsapp.media.kind.audio": "Audio",
+  "tenantWhatsapp.media.kind.video": "Video",
+  "tenantWhatsapp.invoice.button": "Invoice",
+  "tenantWhatsapp.invoice.attach": "Attach an invoice PDF",
+  "tenantWhatsapp.invoice.empty": "This company has no invoices.",
+  "tenantWhatsapp.invoice.loadError": "Failed to load invoices",
+  "tenantWhatsapp.invoice.pdfError": "Failed to download the invoice PDF",
+  "tenantWhatsapp.invoice.preparing": "Preparing invoice PDF...",
+  "communication.audience.title": "Audience preview",
+  "communication.audience.total": "Unique recipients",
+  "communication.audience.duplicates": "{count} recipients match more than one target and are counted once.",
+  "communication.audience.empty": "No recipients match these targets.",
+  "communication.audience.unreachable.email": "{count} recipients have no email address and will be skipped; {reachable} will receive it.",
+  "communication.audience.unreachable.push": "{count} recipients have no registered device for push and will be skipped; {reachable} will receive it.",
+  "communication.audience.unreachable.sms": "{count} recipients have no phone number and will be skipped; {reachable} will receive it.",
+  "communication.audience.sample": "Sample recipients",
+  "communication.audience.reachable.email": "Has email",
+  "communication.audience.reachable.push": "Push enabled",
+  "communication.audience.reachable.sms": "Has phone",
+  "communication.audience.missing.email": "No email",
+  "communication.audience.missing.push": "No device",
+  "communication.audience.missing.sms": "No phone",
+  "communication.audience.loadError": "Could not load the audience preview.",
+  "communication.history.table.delivery": "Delivery",
+  "communication.history.delivery.delivered": "{delivered} of {total} delivered",
+  "communication.history.delivery.opened": "{percent}% opened",
+  "communication.history.delivery.failed": "{count} failed",
+  "communication.delivery.total": "{count} recipients in total, each counted once by current status, so an opened email is not also counted as delivered as it is in the history. Select a status to filter the recipients below.",
+  "communication.delivery.failureReasons": "Failure reasons",
+  "communication.delivery.status.queued": "Queued",
+  "communication.delivery.status.delivered": "Delivered",
+  "communication.delivery.status.opened": "Opened",
+  "communication.delivery.status.clicked": "Clicked",
+  "communication.delivery.status.bounced": "Bounced",
+  "communication.delivery.status.failed": "Failed",
+  "communication.delivery.recipients.title": "Recipients",
+  "communication.delivery.recipients.status": "Status",
+  "communication.delivery.recipients.company": "Company",
+  "communication.delivery.recipients.recipient": "Recipient",
+  "communication.delivery.recipients.allStatuses": "All statuses",
+  "communication.delivery.recipients.allCompanies": "All companies",
+  "communication.delivery.recipients.count": "{count} recipients",
+  "communication.delivery.recipients.empty": "No recipients match these filters.",
+  "communication.delivery.recipients.loadMore": "Load more",
+  "communication.delivery.recipients.loadError": "Could not load recipients.",
+  "communication.delivery.resendFailed": "Resend to {count} failed",
+  "communication.delivery.trend.title": "Delivery trend (latest broadcasts)",
+  "communication.delivery.trend.bounced": "Bounced / failed",
+  "communication.delivery.trend.empty": "No sent email or push broadcasts yet.",
+  "communication.delivery.trend.loadError": "Could not load the delivery trend.",
+  "communication.alerts.resendConfirm.title": "Resend to failed recipients",
+  "communication.alerts.resendConfirm.message": "A new broadcast with the same content will be sent to the {count} recipients that bounced or failed.",
+  "communication.alerts.resendConfirm.confirm": "Resend",
+  "communication.alerts.resendSuccess.title": "Broadcast resent",
+  "communication.alerts.resendSuccess.message": "A new broadcast was created for the failed recipients.",
+  "communication.alerts.resendError.title": "Error",
+  "communication.alerts.resendError.message": "Failed to resend the broadcast",
+  "realtime.paymentSucceeded": "Payment received from {company} {amount}",
+  "tickets.triageError": "Could not update the ticket.",
+  "tenantWhatsapp.readOnly": "Your role can read these conversations but not reply to them.",
+  "communication.delivery.currentStatus": "Delivery by current status",
+  "subscriptions.plans.usageError": "Could not check which plans have subscribers, so those plans cannot be deleted yet.",
+  "subscriptions.plans.usageRetry": "Try again",
+  "subscriptions.plans.usageUnknownTooltip": "Checking whether this plan has subscribers failed.",
 };
 
 type Language = 'en' | 'ar';
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Shared through localStorage so every open tab counts the same activity and locks/unlocks together
+const LAST_ACTIVITY_KEY = 'idleLock.lastActivityAt';
+const LOCKED_AT_KEY = 'idleLock.lockedAt';
+
+export const IDLE_WARNING_SECONDS = 60;
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+const ACTIVITY_WRITE_THROTTLE_MS = 5000;
+
+const readNumber = (key: string): number | null => {
+  const value = Number(localStorage.getItem(key));
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+const markActivity = () => localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+
+/** Forget lock state, e.g. on login/logout, so a stale timestamp from an earlier session cannot lock a fresh one. */
+export const clearIdleLockState = () => {
+  localStorage.removeItem(LAST_ACTIVITY_KEY);
+  localStorage.removeItem(LOCKED_AT_KEY);
+};
+
+/**
+ * Idle timer for the admin panel.
+ * `timeoutMinutes`: `undefined` while the setting is loading (an existing lock is kept, nothing counts down),
+ * `null` when idle lock is disabled.
+ */
+export const useIdleLock = (timeoutMinutes: number | null | undefined) => {
+  const [isLocked, setIsLocked] = useState(() => readNumber(LOCKED_AT_KEY) !== null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastWriteRef = useRef(0);
+
+  const isEnabled = typeof timeoutMinutes === 'number' && timeoutMinutes > 0;
+
+  const stayActive = useCallback(() => {
+    lastWriteRef.current = Date.now();
+    markActivity();
+    setSecondsLeft(null);
+  }, []);
+
+  const unlock = useCallback(() => {
+    localStorage.removeItem(LOCKED_AT_KEY);
+    setIsLocked(false);
+    stayActive();
+  }, [stayActive]);
+
+  useEffect(() => {
+    if (timeoutMinutes === null) {
+      clearIdleLockState();
+      setIsLocked(false);
+      setSecondsLeft(null);
+    }
+  }, [timeoutMinutes]);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    const timeoutMs = (timeoutMinutes as number) * 60_000;
+    if (readNumber(LAST_ACTIVITY_KEY) === null) markActivity();
+
+    const tick = () => {
+      if (readNumber(LOCKED_AT_KEY) !== null) {
+        setIsLocked(true);
+        setSecondsLeft(null);
+        return;
+      }
+      // Another tab unlocked (or this one just did): resume counting
+      setIsLocked(false);
+      const last = readNumber(LAST_ACTIVITY_KEY) ?? Date.now();
+      const remainingMs = last + timeoutMs - Date.now();
+      if (remainingMs <= 0) {
+        localStorage.setItem(LOCKED_AT_KEY, String(Date.now()));
+        setIsLocked(true);
+        setSecondsLeft(null);
+      } else if (remainingMs <= IDLE_WARNING_SECONDS * 1000) {
+        setSecondsLeft(Math.ceil(remainingMs / 1000));
+      } else {
+        setSecondsLeft(null);
+      }
+    };
+
+    const handleActivity = () => {
+      if (readNumber(LOCKED_AT_KEY) !== null) return;
+      const now = Date.now();
+      if (now - lastWriteRef.current < ACTIVITY_WRITE_THROTTLE_MS) return;
+      lastWriteRef.current = now;
+      markActivity();
+    };
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === LOCKED_AT_KEY || e.key === LAST_ACTIVITY_KEY) tick();
+    };
+
+    tick();
+    const intervalId = window.setInterval(tick, 1000);
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, handleActivity, { passive: true }));
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.clearInterval(intervalId);
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, handleActivity));
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [isEnabled, timeoutMinutes]);
+
+  return { isLocked, secondsLeft, stayActive, unlock };
+};
@@ -0,0 +1,32 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  getRealtimeStatus,
+  subscribeRealtime,
+  subscribeRealtimeStatus,
+  type RealtimeEventOf,
+  type RealtimeEventType,
+  type RealtimeStatus,
+} from '../services/realtime';
+
+/**
+ * Runs `handler` for each realtime event of the given types while the component is mounted.
+ * The latest handler is always used, so it may close over state without resubscribing.
+ */
+export const useRealtimeEvent = <T extends RealtimeEventType>(
+  types: T[],
+  handler: (event: RealtimeEventOf<T>) => void,
+) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const typesKey = types.join('|');
+
+  useEffect(() => {
+    return subscribeRealtime(typesKey.split('|') as T[], (event) => handlerRef.current(event));
+  }, [typesKey]);
+};
+
+export const useRealtimeStatus = (): RealtimeStatus => {
+  const [status, setStatus] = useState<RealtimeStatus>(getRealtimeStatus);
+  useEffect(() => subscribeRealtimeStatus(setStatus), []);
+  return status;
+};
@@ -8,6 +8,7 @@ import { ThemeProvider } from './context/ThemeContext';
 import { AuditLogProvider } from './context/AuditLogContext';
 import { UserProvider } from './context/UserContext';
 import { AlertProvider } from './context/AlertContext';
+import { NotificationProvider } from './context/NotificationContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -23,7 +24,9 @@ root.render(
           <UserProvider>
             <AlertProvider>
               <AuditLogProvider>
-                <App />
+                <NotificationProvider>
+                  <App />
+                </NotificationProvider>
               </AuditLogProvider>
             </AlertProvider>
           </UserProvider>
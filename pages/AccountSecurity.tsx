@@ -0,0 +1,341 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { useI18n } from '../context/i18n';
+import { useAlert } from '../context/AlertContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { useUser } from '../context/UserContext';
+import LoadingButton from '../components/LoadingButton';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Icon from '../components/Icon';
+import SessionsPanel from '../components/SessionsPanel';
+import {
+    TwoFactorStatus,
+    confirmTwoFactorSetupAPI,
+    disableTwoFactorAPI,
+    getTwoFactorStatusAPI,
+    regenerateTwoFactorBackupCodesAPI,
+    startTwoFactorSetupAPI,
+} from '../services/api';
+import { translateAdminApiError } from '../utils/translateApiError';
+
+type SetupState = { secret: string; otpauthUrl: string; qrCode?: string };
+
+/** Confirmation step shared by "regenerate backup codes" and "disable 2FA"; both need a current code. */
+type PendingAction = 'regenerate' | 'disable';
+
+const CODE_PATTERN = /^\d{6}$/;
+
+const BackupCodesList: React.FC<{ codes: string[]; onDone: () => void }> = ({ codes, onDone }) => {
+    const { t } = useI18n();
+    const { showAlert } = useAlert();
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(codes.join('\n'));
+            showAlert(t('account.security.backupCodes.copied'), { variant: 'success' });
+        } catch {
+            showAlert(t('account.security.backupCodes.copyError'), { variant: 'error' });
+        }
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([`${codes.join('\n')}\n`], { type: 'text/plain;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'admin-backup-codes.txt';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="p-3 rounded-md text-sm bg-yellow-50 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200">
+                {t('account.security.backupCodes.warning')}
+            </div>
+            <ul className="grid grid-cols-2 gap-2 max-w-sm font-mono text-sm" dir="ltr">
+                {codes.map((code) => (
+                    <li key={code} className="px-3 py-2 rounded bg-gray-100 dark:bg-gray-700 text-center">{code}</li>
+                ))}
+            </ul>
+            <div className="flex flex-wrap gap-2">
+                <LoadingButton type="button" variant="secondary" onClick={handleCopy}>
+                    {t('account.security.backupCodes.copy')}
+                </LoadingButton>
+                <LoadingButton type="button" variant="secondary" onClick={handleDownload}>
+                    <Icon name="download" className="w-4 h-4" />
+                    <span className="mx-1">{t('account.security.backupCodes.download')}</span>
+                </LoadingButton>
+                <LoadingButton type="button" variant="primary" onClick={onDone}>
+                    {t('account.security.backupCodes.saved')}
+                </LoadingButton>
+            </div>
+        </div>
+    );
+};
+
+const AccountSecurity: React.FC = () => {
+    const { t } = useI18n();
+    const { showAlert } = useAlert();
+    const { addLog } = useAuditLog();
+    const { user, refreshUser, isSuperAdmin } = useUser();
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [setup, setSetup] = useState<SetupState | null>(null);
+    const [code, setCode] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+    const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+
+    const loadStatus = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setStatus(await getTwoFactorStatusAPI());
+        } catch (error) {
+            console.error('Error loading 2FA status:', error);
+            showAlert(translateAdminApiError(error, t) || t('account.security.loadError'), { variant: 'error' });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [showAlert, t]);
+
+    useEffect(() => {
+        loadStatus();
+    }, [loadStatus]);
+
+    const resetCodeForm = () => {
+        setCode('');
+        setPendingAction(null);
+    };
+
+    const handleStartSetup = async () => {
+        setIsSubmitting(true);
+        try {
+            const data = await startTwoFactorSetupAPI();
+            // Drawn in the browser from the otpauth URL; the server image is only a fallback.
+            const qrCode = await QRCode.toDataURL(data.otpauth_url, { margin: 1, width: 352 }).catch((qrError) => {
+                console.error('Error rendering 2FA QR code:', qrError);
+                return data.qr_code;
+            });
+            setSetup({ secret: data.secret, otpauthUrl: data.otpauth_url, qrCode });
+            setCode('');
+        } catch (error) {
+            console.error('Error starting 2FA setup:', error);
+            showAlert(translateAdminApiError(error, t) || t('account.security.setupError'), { variant: 'error' });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleConfirmSetup = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!CODE_PATTERN.test(code)) {
+            showAlert(t('account.security.codeInvalid'), { variant: 'warning' });
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            const data = await confirmTwoFactorSetupAPI(code);
+            setBackupCodes(data.backup_codes || []);
+            setSetup(null);
+            resetCodeForm();
+            addLog('audit.log.twoFactorEnabled', { username: user?.username || '' });
+            showAlert(t('account.security.enabledSuccess'), { variant: 'success' });
+            await Promise.all([loadStatus(), refreshUser()]);
+        } catch (error) {
+            console.error('Error confirming 2FA setup:', error);
+            showAlert(translateAdminApiError(error, t) || t('account.security.codeRejected'), { variant: 'error' });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleConfirmPending = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pendingAction) return;
+        if (!CODE_PATTERN.test(code)) {
+            showAlert(t('account.security.codeInvalid'), { variant: 'warning' });
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            if (pendingAction === 'regenerate') {
+                const data = await regenerateTwoFactorBackupCodesAPI(code);
+                setBackupCodes(data.backup_codes || []);
+                addLog('audit.log.twoFactorBackupCodesRegenerated', { username: user?.username || '' });
+            } else {
+                await disableTwoFactorAPI(code);
+                addLog('audit.log.twoFactorDisabled', { username: user?.username || '' });
+                showAlert(t('account.security.disabledSuccess'), { variant: 'success' });
+            }
+            resetCodeForm();
+            await Promise.all([loadStatus(), refreshUser()]);
+        } catch (error) {
+            console.error('Error updating 2FA:', error);
+            showAlert(translateAdminApiError(error, t) || t('account.security.codeRejected'), { variant: 'error' });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const isRequired = Boolean(status?.required ?? user?.two_factor_required);
+    const mustEnroll = isRequired && !status?.enabled;
+    // The policy only binds limited admins; a super admin can always switch 2FA off for their own account
+    const canDisable = !isRequired || isSuperAdmin();
+
+    const inputClasses = "w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500 font-mono tracking-widest text-center";
+
+    const codeInput = (
+        <input
+            id="account-2fa-code"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            dir="ltr"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            placeholder="123456"
+            className={inputClasses}
+        />
+    );
+
+    const renderTwoFactorBody = () => {
+        if (backupCodes) {
+            return <BackupCodesList codes={backupCodes} onDone={() => setBackupCodes(null)} />;
+        }
+
+        if (setup) {
+            return (
+                <form className="space-y-4" onSubmit={handleConfirmSetup}>
+                    <ol className="list-decimal ps-5 space-y-1 text-sm text-gray-600 dark:text-gray-300">
+                        <li>{t('account.security.setup.step1')}</li>
+                        <li>{t('account.security.setup.step2')}</li>
+                    </ol>
+                    <div className="flex flex-col sm:flex-row gap-6 items-start">
+                        {setup.qrCode ? (
+                            <img
+                                src={setup.qrCode}
+                                alt={t('account.security.setup.qrAlt')}
+                                className="w-44 h-44 bg-white p-2 rounded border border-gray-200 dark:border-gray-600"
+                            />
+                        ) : null}
+                        <div className="space-y-2 text-sm">
+                            <p className="text-gray-500 dark:text-gray-400">{t('account.security.setup.manualKey')}</p>
+                            <code className="block px-3 py-2 rounded bg-gray-100 dark:bg-gray-700 font-mono break-all" dir="ltr">
+                                {setup.secret}
+                            </code>
+                            <a href={setup.otpauthUrl} className="text-primary-600 hover:underline dark:text-primary-400">
+                                {t('account.security.setup.openApp')}
+                            </a>
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="account-2fa-code" className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">
+                            {t('account.security.setup.codeLabel')}
+                        </label>
+                        {codeInput}
+                    </div>
+                    <div className="flex gap-2">
+                        <LoadingButton type="button" variant="secondary" onClick={() => { setSetup(null); setCode(''); }} disabled={isSubmitting}>
+                            {t('common.cancel')}
+                        </LoadingButton>
+                        <LoadingButton type="submit" variant="primary" isLoading={isSubmitting} loadingText={t('common.saving')}>
+                            {t('account.security.setup.confirm')}
+                        </LoadingButton>
+                    </div>
+                </form>
+            );
+        }
+
+        if (!status?.enabled) {
+            return (
+                <div className="space-y-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-300">{t('account.security.disabledDescription')}</p>
+                    <LoadingButton type="button" variant="primary" onClick={handleStartSetup} isLoading={isSubmitting} loadingText={t('common.loading')}>
+                        {t('account.security.enable')}
+                    </LoadingButton>
+                </div>
+            );
+        }
+
+        return (
+            <div className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                    {t('account.security.backupCodesRemaining').replace('{count}', String(status.backup_codes_remaining ?? 0))}
+                </p>
+                {pendingAction ? (
+                    <form className="space-y-3" onSubmit={handleConfirmPending}>
+                        <label htmlFor="account-2fa-code" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            {pendingAction === 'disable' ? t('account.security.confirmDisable') : t('account.security.confirmRegenerate')}
+                        </label>
+                        {codeInput}
+                        <div className="flex gap-2">
+                            <LoadingButton type="button" variant="secondary" onClick={resetCodeForm} disabled={isSubmitting}>
+                                {t('common.cancel')}
+                            </LoadingButton>
+                            <LoadingButton
+                                type="submit"
+                                variant={pendingAction === 'disable' ? 'danger' : 'primary'}
+                                isLoading={isSubmitting}
+                                loadingText={t('common.saving')}
+                            >
+                                {pendingAction === 'disable' ? t('account.security.disable') : t('account.security.regenerate')}
+                            </LoadingButton>
+                        </div>
+                    </form>
+                ) : (
+                    <div className="flex flex-wrap gap-2">
+                        <LoadingButton type="button" variant="secondary" onClick={() => setPendingAction('regenerate')}>
+                            {t('account.security.regenerate')}
+                        </LoadingButton>
+                        {canDisable ? (
+                            <LoadingButton type="button" variant="danger" onClick={() => setPendingAction('disable')}>
+                                {t('account.security.disable')}
+                            </LoadingButton>
+                        ) : (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 self-center">{t('account.security.requiredByPolicy')}</p>
+                        )}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-6">{t('account.security.title')}</h1>
+            {mustEnroll && (
+                <div className="mb-6 p-4 rounded-md text-sm bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200 flex items-start gap-2">
+                    <Icon name="alert" className="w-5 h-5 flex-shrink-0" />
+                    <span>{t('account.security.enrollmentRequired')}</span>
+                </div>
+            )}
+            <section className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t('account.security.twoFactorTitle')}</h2>
+                        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t('account.security.twoFactorDescription')}</p>
+                    </div>
+                    {status && (
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${status.enabled ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300' : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'}`}>
+                            {status.enabled ? t('common.enabled') : t('common.disabled')}
+                        </span>
+                    )}
+                </div>
+                {isLoading && !status ? (
+                    <div className="flex items-center gap-2 text-gray-500"><LoadingSpinner /><span>{t('common.loading')}</span></div>
+                ) : (
+                    renderTwoFactorBody()
+                )}
+            </section>
+            {!mustEnroll && (
+                <div className="mt-6">
+                    <SessionsPanel />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AccountSecurity;
@@ -3,12 +3,15 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import Icon from '../components/Icon';
 import FilterButton from '../components/FilterButton';
 import RefreshButton from '../components/RefreshButton';
-import { Broadcast } from '../types';
+import { Broadcast, BroadcastDeliveryStats } from '../types';
 import { useI18n } from '../context/i18n';
+import { useUser } from '../context/UserContext';
 import BroadcastViewModal from '../components/BroadcastViewModal';
 import AlertDialog from '../components/AlertDialog';
-import { getBroadcastsAPI, createBroadcastAPI, deleteBroadcastAPI, sendBroadcastAPI, scheduleBroadcastAPI, getBroadcastAPI, getPlansAPI, getCompaniesAPI, sendSmsBroadcastAPI } from '../services/api';
+import { getBroadcastsAPI, getAllBroadcastsAPI, createBroadcastAPI, deleteBroadcastAPI, sendBroadcastAPI, scheduleBroadcastAPI, getBroadcastAPI, getPlansAPI, getCompaniesAPI, sendSmsBroadcastAPI, resendFailedBroadcastRecipientsAPI } from '../services/api';
 import LoadingSpinner from '../components/LoadingSpinner';
+import BroadcastAudiencePreview from '../components/BroadcastAudiencePreview';
+import BroadcastDeliveryTrendChart from '../components/BroadcastDeliveryTrendChart';
 import { ADMIN_PAGE_TAB_ACTIVE, ADMIN_PAGE_TAB_INACTIVE } from '../utils/pageTabNavClasses';
 import { withLatinDigits } from '../utils/latinNumerals';
 import CommunicationFilterDrawer, {
@@ -16,6 +19,9 @@ import CommunicationFilterDrawer, {
   communicationFilterDefaults,
 } from '../components/CommunicationFilterDrawer';
 import { hasActiveFilters as filtersAreActive } from '../components/filters';
+import ExportButton from '../components/ExportButton';
+import { ExportColumn, createExportDateFormatter } from '../utils/exportData';
+import { cumulativeDelivery, deliveryPercent, failedRecipientCount } from '../utils/broadcastDelivery';
 
 const dateInRange = (dateStr: string | undefined | null, fromDate: string, toDate: string): boolean => {
     if (!fromDate && !toDate) return true;
@@ -41,6 +47,8 @@ const mapBroadcastFromApi = (broadcast: any): Broadcast => {
         createdAt: broadcast.created_at,
         scheduledAt: broadcast.scheduled_at,
         sentAt: broadcast.sent_at,
+        stats: broadcast.delivery_stats ?? null,
+        resendOf: broadcast.resend_of ?? null,
     };
 };
 
@@ -90,6 +98,24 @@ function getDisplayStatus(broadcast: Broadcast): Broadcast['status'] {
     return broadcast.status;
 }
 
+function broadcastMatchesFilters(item: Broadcast, filters: CommunicationFilters): boolean {
+    const searchTerm = filters.search.trim().toLowerCase();
+    if (searchTerm && !(item.subject || '').toLowerCase().includes(searchTerm)) {
+        return false;
+    }
+    if (filters.status && getDisplayStatus(item) !== filters.status) {
+        return false;
+    }
+    if (filters.type && item.broadcast_type !== filters.type) {
+        return false;
+    }
+    const dateValue = item.sentAt || item.scheduledAt || item.createdAt;
+    if (!dateInRange(dateValue, filters.fromDate, filters.toDate)) {
+        return false;
+    }
+    return true;
+}
+
 interface NewBroadcastProps {
     onBroadcastCreated: () => void;
 }
@@ -312,6 +338,11 @@ const NewBroadcast: React.FC<NewBroadcastPropsWithPlans> = ({ onBroadcastCreated
                     <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('communication.new.target.emptyHint')}</p>
                 )}
             </div>
+            <BroadcastAudiencePreview
+                targets={targets.length > 0 ? targets : ['all']}
+                channel={broadcastType}
+                labelFor={(tgt) => getTargetDisplayLabel(tgt, plans, companies, language, t)}
+            />
             <div>
                 <label className="block text-sm font-medium mb-1">{t('communication.new.subject')}</label>
                 <input 
@@ -497,6 +528,11 @@ const SendSMS: React.FC<SendSMSProps> = ({ plans, companies }) => {
                         <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('communication.new.target.emptyHint')}</p>
                     )}
                 </div>
+                <BroadcastAudiencePreview
+                    targets={targets.length > 0 ? targets : ['all']}
+                    channel="sms"
+                    labelFor={(tgt) => getTargetDisplayLabel(tgt, plans, companies, language, t)}
+                />
                 <div>
                     <label className="block text-sm font-medium mb-1">{t('communication.sms.content')}</label>
                     <textarea
@@ -530,7 +566,8 @@ const SendSMS: React.FC<SendSMSProps> = ({ plans, companies }) => {
 interface HistoryProps {
     history: Broadcast[];
     onView: (broadcast: Broadcast) => void;
-    onDelete: (id: number) => void;
+    /** Omitted when the admin may not delete broadcasts. */
+    onDelete?: (id: number) => void;
     onRefresh?: () => void;
     isLoading?: boolean;
     lastUpdated?: string | null;
@@ -540,8 +577,15 @@ interface HistoryProps {
 
 const History: React.FC<HistoryProps> = ({ history, onView, onDelete, onRefresh, isLoading = false, lastUpdated, plans, companies }) => {
     const { t, language } = useI18n();
+    const { scopedCompanyIds } = useUser();
     const [filters, setFilters] = useState<CommunicationFilters>(communicationFilterDefaults);
     const [isFilterDrawerOpen, setIsFilterDrawerOpen] = useState(false);
+    const [trendReloadKey, setTrendReloadKey] = useState(0);
+
+    const handleRefresh = () => {
+        onRefresh?.();
+        setTrendReloadKey((key) => key + 1);
+    };
 
     const statusLabels: Record<Broadcast['status'], string> = {
         sent: t('communication.history.status.sent'),
@@ -570,6 +614,31 @@ const History: React.FC<HistoryProps> = ({ history, onView, onDelete, onRefresh,
         [t],
     );
 
+    const formatCount = (value: number) => value.toLocaleString(undefined, withLatinDigits({}));
+
+    const renderDeliveryCell = (stats: BroadcastDeliveryStats) => {
+        const delivery = cumulativeDelivery(stats);
+        const failed = failedRecipientCount(stats);
+        return (
+            <div className="text-xs">
+                <p className="text-gray-900 dark:text-white">
+                    {t('communication.history.delivery.delivered')
+                        .replace('{delivered}', formatCount(delivery.delivered))
+                        .replace('{total}', formatCount(stats.total))}
+                </p>
+                <p>
+                    {t('communication.history.delivery.opened').replace('{percent}', String(deliveryPercent(delivery.opened, stats.total)))}
+                    {failed > 0 && (
+                        <span className="text-red-600 dark:text-red-400">
+                            {' · '}
+                            {t('communication.history.delivery.failed').replace('{count}', formatCount(failed))}
+                        </span>
+                    )}
+                </p>
+            </div>
+        );
+    };
+
     const getDisplayDate = (record: Broadcast) => {
         const value = record.sentAt || record.scheduledAt || record.createdAt;
         if (!value) {
@@ -604,23 +673,7 @@ const History: React.FC<HistoryProps> = ({ history, onView, onDelete, onRefresh,
     })();
 
     const filteredHistory = useMemo(() => {
-        return history.filter((item) => {
-            const searchTerm = filters.search.trim().toLowerCase();
-            if (searchTerm && !(item.subject || '').toLowerCase().includes(searchTerm)) {
-                return false;
-            }
-            if (filters.status && getDisplayStatus(item) !== filters.status) {
-                return false;
-            }
-            if (filters.type && item.broadcast_type !== filters.type) {
-                return false;
-            }
-            const dateValue = item.sentAt || item.scheduledAt || item.createdAt;
-            if (!dateInRange(dateValue, filters.fromDate, filters.toDate)) {
-                return false;
-            }
-            return true;
-        });
+        return history.filter((item) => broadcastMatchesFilters(item, filters));
     }, [history, filters]);
 
     const filtersActive = useMemo(
@@ -628,6 +681,27 @@ const History: React.FC<HistoryProps> = ({ history, onView, onDelete, onRefresh,
         [filters],
     );
 
+    const exportColumns = useMemo<ExportColumn<Broadcast>[]>(() => {
+        const formatDateTime = createExportDateFormatter(language, true);
+        return [
+            { key: 'subject', label: t('communication.history.table.subject'), value: (item) => item.subject },
+            {
+                key: 'type',
+                label: t('communication.history.table.type'),
+                value: (item) => (item.broadcast_type === 'push' ? t('communication.new.broadcastType.push') : t('communication.new.broadcastType.email')),
+            },
+            { key: 'target', label: t('communication.history.table.target'), value: (item) => getTargetsDisplayLabel(item.targets ?? [item.target], plans, companies, language, t) },
+            { key: 'date', label: t('communication.history.table.date'), value: (item) => formatDateTime(item.sentAt || item.scheduledAt || item.createdAt) },
+            { key: 'status', label: t('communication.history.table.status'), value: (item) => t(`communication.history.status.${getDisplayStatus(item)}`) },
+            { key: 'createdAt', label: t('export.fields.createdAt'), value: (item) => formatDateTime(item.createdAt) },
+        ];
+    }, [t, language, plans, companies]);
+
+    const loadExportRows = async () => {
+        const response = await getAllBroadcastsAPI({ ordering: '-created_at', company__in: scopedCompanyIds });
+        return (response.results || []).map(mapBroadcastFromApi).filter((item) => broadcastMatchesFilters(item, filters));
+    };
+
     const handleApplyFilters = (next: CommunicationFilters) => {
         setFilters(next);
         setIsFilterDrawerOpen(false);
@@ -655,11 +729,19 @@ const History: React.FC<HistoryProps> = ({ history, onView, onDelete, onRefresh,
                     >
                         {t('communication.filters.open')}
                     </FilterButton>
+                    <ExportButton
+                        filename="broadcast-history"
+                        subtitle={t('communication.history.title')}
+                        columns={exportColumns}
+                        loadRows={loadExportRows}
+                        filtersActive={filtersActive}
+                    />
                     {onRefresh && (
-                        <RefreshButton onClick={onRefresh} loading={isLoading} hideLabelOnMobile={false} />
+                        <RefreshButton onClick={handleRefresh} loading={isLoading} hideLabelOnMobile={false} />
                     )}
                 </div>
             </div>
+            <BroadcastDeliveryTrendChart reloadKey={trendReloadKey} />
             <div className="overflow-x-auto">
                 <table className={`w-full text-sm ${language === 'ar' ? 'text-right' : 'text-left'} text-gray-500 dark:text-gray-400`}>
                     <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
@@ -669,13 +751,14 @@ const History: React.FC<HistoryProps> = ({ history, onView, onDelete, onRefresh,
                             <th className="px-6 py-3 text-center">{t('communication.history.table.target')}</th>
                             <th className="px-6 py-3 text-center">{t('communication.history.table.date')}</th>
                             <th className="px-6 py-3 text-center">{t('communication.history.table.status')}</th>
+                            <th className="px-6 py-3 text-center">{t('communication.history.table.delivery')}</th>
                             <th className="px-6 py-3 text-center">{t('communication.history.table.actions')}</th>
                         </tr>
                     </thead>
                     <tbody>
                         {isLoading ? (
                             <tr>
-                                <td colSpan={6} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
+                                <td colSpan={7} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
                                     <div className="flex items-center justify-center">
                                         <LoadingSpinner label={t('communication.history.loading') || 'Loading history'} />
                                     </div>
@@ -683,13 +766,13 @@ const History: React.FC<HistoryProps> = ({ history, onView, onDelete, onRefresh,
                             </tr>
                         ) : history.length === 0 ? (
                             <tr>
-                                <td colSpan={6} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
+                                <td colSpan={7} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
                                     {t('communication.history.empty')}
                                 </td>
                             </tr>
                         ) : filteredHistory.length === 0 ? (
                             <tr>
-                                <td colSpan={6} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
+                                <td colSpan={7} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
                                     {t('filters.noResults')}
                                 </td>
                             </tr>
@@ -716,12 +799,15 @@ const History: React.FC<HistoryProps> = ({ history, onView, onDelete, onRefresh,
                                             {statusLabels[getDisplayStatus(item)] || item.status}
                                         </span>
                                     </td>
+                                    <td className="px-6 py-4 text-center whitespace-nowrap">
+                                        {item.stats ? renderDeliveryCell(item.stats) : '—'}
+                                    </td>
                                     <td className="px-6 py-4 text-center">
                                         <div className="flex items-center justify-center gap-2">
                                             <button onClick={() => onView(item)} className="p-1 text-blue-600 hover:text-blue-800" title={t('communication.history.actions.view')}>
                                                 <Icon name="view" className="w-5 h-5" />
                                             </button>
-                                            {(getDisplayStatus(item) === 'scheduled' || item.status === 'draft') && (
+                                            {onDelete && (getDisplayStatus(item) === 'scheduled' || item.status === 'draft') && (
                                                 <button onClick={() => onDelete(item.id)} className="p-1 text-red-600 hover:text-red-800" title={t('communication.history.actions.delete')}>
                                                     <Icon name="trash" className="w-5 h-5" />
                                                 </button>
@@ -748,9 +834,18 @@ const History: React.FC<HistoryProps> = ({ history, onView, onDelete, onRefresh,
 
 const Communication: React.FC = () => {
     const { t, language } = useI18n();
+    const { can, scopedCompanyIds } = useUser();
+    const canWrite = can('communication', 'write');
     const [activeTab, setActiveTab] = useState(() => {
         return localStorage.getItem('communication_activeTab') || 'new';
     });
+
+    // Read-only roles only get the history tab
+    useEffect(() => {
+        if (!canWrite && activeTab !== 'history') {
+            setActiveTab('history');
+        }
+    }, [canWrite, activeTab]);
     
     // Save active tab to localStorage when it changes
     useEffect(() => {
@@ -763,11 +858,13 @@ const Communication: React.FC = () => {
     const [isViewModalOpen, setIsViewModalOpen] = useState(false);
     const [isHistoryLoading, setIsHistoryLoading] = useState(true);
     const [isViewLoading, setIsViewLoading] = useState(false);
+    const [isResending, setIsResending] = useState(false);
     const [lastUpdatedAt, setLastUpdatedAt] = useState<string | null>(null);
     const [confirmDialog, setConfirmDialog] = useState<{
         isOpen: boolean;
         title: string;
         message: string;
+        confirmText?: string;
         onConfirm: () => void;
     }>({
         isOpen: false,
@@ -788,15 +885,17 @@ const Communication: React.FC = () => {
     });
 
     const tabs = [
-        { id: 'new', label: t('communication.tabs.new') },
-        { id: 'sms', label: t('communication.tabs.sms') },
+        ...(canWrite ? [
+            { id: 'new', label: t('communication.tabs.new') },
+            { id: 'sms', label: t('communication.tabs.sms') },
+        ] : []),
         { id: 'history', label: t('communication.tabs.history') },
     ];
 
     const loadBroadcasts = useCallback(async () => {
         setIsHistoryLoading(true);
         try {
-            const response = await getBroadcastsAPI({ ordering: '-created_at' });
+            const response = await getBroadcastsAPI({ ordering: '-created_at', company__in: scopedCompanyIds });
             const apiBroadcasts: Broadcast[] = (response.results || []).map(mapBroadcastFromApi);
             setHistory(apiBroadcasts);
             setLastUpdatedAt(new Date().toISOString());
@@ -811,7 +910,7 @@ const Communication: React.FC = () => {
         } finally {
             setIsHistoryLoading(false);
         }
-    }, [t]);
+    }, [t, scopedCompanyIds]);
 
     useEffect(() => {
         loadBroadcasts();
@@ -822,16 +921,17 @@ const Communication: React.FC = () => {
             try {
                 const [plansRes, companiesRes] = await Promise.all([
                     getPlansAPI(),
-                    getCompaniesAPI(),
+                    getCompaniesAPI({ id__in: scopedCompanyIds }),
                 ]);
                 setPlans((plansRes.results || []) as { id: number; name: string; name_ar?: string }[]);
-                setCompanies((companiesRes.results || []).map((c: any) => ({ id: c.id, name: c.name || c.company_name || String(c.id) })));
+                setCompanies((companiesRes.results || [])
+                    .map((c: any) => ({ id: c.id, name: c.name || c.company_name || String(c.id) })));
             } catch (e) {
                 console.error('Error fetching plans/companies:', e);
             }
         };
         fetchPlansAndCompanies();
-    }, []);
+    }, [scopedCompanyIds]);
 
     useEffect(() => {
         if (activeTab === 'history') {
@@ -894,6 +994,40 @@ const Communication: React.FC = () => {
         setSelectedBroadcast(null);
     };
 
+    const handleResendFailed = (broadcast: Broadcast) => {
+        setConfirmDialog({
+            isOpen: true,
+            title: t('communication.alerts.resendConfirm.title'),
+            message: t('communication.alerts.resendConfirm.message').replace('{count}', String(failedRecipientCount(broadcast.stats))),
+            confirmText: t('communication.alerts.resendConfirm.confirm'),
+            onConfirm: async () => {
+                setConfirmDialog(prev => ({ ...prev, isOpen: false }));
+                setIsResending(true);
+                try {
+                    await resendFailedBroadcastRecipientsAPI(broadcast.id);
+                    handleCloseModal();
+                    await loadBroadcasts();
+                    setAlertDialog({
+                        isOpen: true,
+                        title: t('communication.alerts.resendSuccess.title'),
+                        message: t('communication.alerts.resendSuccess.message'),
+                        type: 'success',
+                    });
+                } catch (error: any) {
+                    console.error('Error resending broadcast:', error);
+                    setAlertDialog({
+                        isOpen: true,
+                        title: t('communication.alerts.resendError.title'),
+                        message: error?.message || t('communication.alerts.resendError.message'),
+                        type: 'error',
+                    });
+                } finally {
+                    setIsResending(false);
+                }
+            },
+        });
+    };
+
     return (
         <div>
             <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-6">{t('communication.title')}</h1>
@@ -914,13 +1048,13 @@ const Communication: React.FC = () => {
                 ))}
                 </nav>
             </div>
-            {activeTab === 'new' && <NewBroadcast onBroadcastCreated={loadBroadcasts} plans={plans} companies={companies} />}
-            {activeTab === 'sms' && <SendSMS plans={plans} companies={companies} />}
+            {canWrite && activeTab === 'new' && <NewBroadcast onBroadcastCreated={loadBroadcasts} plans={plans} companies={companies} />}
+            {canWrite && activeTab === 'sms' && <SendSMS plans={plans} companies={companies} />}
             {activeTab === 'history' && (
                 <History
                     history={history}
                     onView={handleViewBroadcast}
-                    onDelete={handleDeleteBroadcast}
+                    onDelete={can('communication', 'delete') ? handleDeleteBroadcast : undefined}
                     onRefresh={loadBroadcasts}
                     isLoading={isHistoryLoading}
                     lastUpdated={lastUpdatedAt}
@@ -935,6 +1069,9 @@ const Communication: React.FC = () => {
                 isLoading={isViewLoading}
                 targetLabel={selectedBroadcast ? getTargetsDisplayLabel(selectedBroadcast.targets ?? [selectedBroadcast.target], plans, companies, language, t) : ''}
                 displayStatus={selectedBroadcast ? getDisplayStatus(selectedBroadcast) : undefined}
+                companies={companies}
+                onResendFailed={canWrite ? handleResendFailed : undefined}
+                isResending={isResending}
             />
             <AlertDialog
                 isOpen={confirmDialog.isOpen}
@@ -943,7 +1080,7 @@ const Communication: React.FC = () => {
                 message={confirmDialog.message}
                 type="warning"
                 showCancel={true}
-                confirmText={t('common.delete')}
+                confirmText={confirmDialog.confirmText ?? t('common.delete')}
                 onConfirm={confirmDialog.onConfirm}
             />
             <AlertDialog
@@ -11,6 +11,7 @@ import AlertDialog from '../components/AlertDialog';
 import { GuideArticle, GuideCategory, NewsPost } from '../types';
 import { useI18n } from '../context/i18n';
 import { useAlert } from '../context/AlertContext';
+import { useUser } from '../context/UserContext';
 import { translateAdminApiError } from '../utils/translateApiError';
 import { ADMIN_PAGE_TAB_ACTIVE, ADMIN_PAGE_TAB_INACTIVE } from '../utils/pageTabNavClasses';
 import { withLatinDigits } from '../utils/latinNumerals';
@@ -33,6 +34,9 @@ type TabId = 'guide' | 'news' | 'tutorials';
 const Content: React.FC = () => {
   const { t, language } = useI18n();
   const { showAlert } = useAlert();
+  const { can } = useUser();
+  const canWrite = can('content', 'write');
+  const canDelete = can('content', 'delete');
   const [activeTab, setActiveTab] = useState<TabId>(() => {
     const saved = localStorage.getItem('content_activeTab');
     return saved === 'news' || saved === 'guide' || saved === 'tutorials' ? saved : 'guide';
@@ -295,7 +299,7 @@ const Content: React.FC = () => {
         </h1>
         <div className="flex items-center gap-2">
           <RefreshButton onClick={() => void loadAll()} loading={loading} />
-          {activeTab !== 'tutorials' && (
+          {canWrite && activeTab !== 'tutorials' && (
             <button
               type="button"
               onClick={openCreate}
@@ -385,6 +389,7 @@ const Content: React.FC = () => {
                         <button
                           type="button"
                           onClick={() => void handleTogglePublish('guide', item.id, !item.is_published)}
+                          disabled={!canWrite}
                           className={`px-2 py-1 text-xs rounded-full font-medium ${
                             item.is_published
                               ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200'
@@ -407,6 +412,7 @@ const Content: React.FC = () => {
                           >
                             <Icon name="view" className="w-5 h-5" />
                           </button>
+                          {canWrite && (
                           <button
                             type="button"
                             onClick={() => void openEditGuide(item)}
@@ -415,6 +421,8 @@ const Content: React.FC = () => {
                           >
                             <Icon name="edit" className="w-5 h-5" />
                           </button>
+                          )}
+                          {canDelete && (
                           <button
                             type="button"
                             onClick={() =>
@@ -429,6 +437,7 @@ const Content: React.FC = () => {
                           >
                             <Icon name="trash" className="w-5 h-5" />
                           </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -471,6 +480,7 @@ const Content: React.FC = () => {
                           <button
                             type="button"
                             onClick={() => void handleTogglePublish('news', item.id, !item.is_published)}
+                            disabled={!canWrite}
                             className={`px-2 py-1 text-xs rounded-full font-medium ${
                               item.is_published
                                 ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200'
@@ -506,6 +516,8 @@ const Content: React.FC = () => {
                             >
                               <Icon name="view" className="w-5 h-5" />
                             </button>
+                            {canWrite && (
+                            <>
                             <button
                               type="button"
                               disabled={!item.is_published}
@@ -531,6 +543,9 @@ const Content: React.FC = () => {
                             >
                               <Icon name="edit" className="w-5 h-5" />
                             </button>
+                            </>
+                            )}
+                            {canDelete && (
                             <button
                               type="button"
                               onClick={() =>
@@ -545,6 +560,7 @@ const Content: React.FC = () => {
                             >
                               <Icon name="trash" className="w-5 h-5" />
                             </button>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -5,7 +5,7 @@ import { useI18n } from '../context/i18n';
 import { useDarkMode } from '../hooks/useDarkMode';
 import LoadingSpinner from '../components/LoadingSpinner';
 import Icon from '../components/Icon';
-import { loginAPI } from '../services/api';
+import { loginAPI, verifyTwoFactorLoginAPI } from '../services/api';
 import { useUser } from '../context/UserContext';
 
 interface LoginPageProps {
@@ -20,6 +20,10 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
   const [passwordVisible, setPasswordVisible] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Set when the account has 2FA: the password was accepted and a code is still needed
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [otpCode, setOtpCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
   const { t, language, setLanguage } = useI18n();
   const [colorTheme, toggleTheme] = useDarkMode();
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -76,6 +80,12 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
       return t('login.throttled') || 'Too many requests. Please wait a moment and try again.';
     }
     
+    if (code === 'INVALID_2FA_CODE' || lowerMessage.includes('invalid code') || lowerMessage.includes('invalid backup code')) {
+      return t('login.twoFactor.invalidCode') || 'Invalid verification code';
+    }
+    if (code === 'CHALLENGE_EXPIRED' || lowerMessage.includes('challenge')) {
+      return t('login.twoFactor.challengeExpired') || 'The sign-in attempt expired. Please sign in again.';
+    }
     if (lowerMessage.includes('no active account') || lowerMessage.includes('active account')) {
       return t('login.errorNoActiveAccount') || 'No active account found with the given credentials';
     }
@@ -95,6 +105,23 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
     return t('login.invalidCredentials') || 'Invalid username or password';
   };
 
+  const completeLogin = async () => {
+    // Store authentication state
+    localStorage.setItem('isAuthenticated', 'true');
+    sessionStorage.setItem('isAuthenticated', 'true');
+    
+    // Load user into UserContext before navigating so dashboard has permission data
+    await refreshUser();
+    
+    // Call success callback if provided
+    if (onLoginSuccess) {
+      onLoginSuccess();
+    }
+    
+    // Navigate to dashboard
+    navigate('/dashboard');
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     if (isLoading) return;
@@ -104,29 +131,52 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
 
     try {
       // Login and get tokens (loginAPI stores accessToken/refreshToken in localStorage)
-      await loginAPI(username, password);
-      
-      // Store authentication state
-      localStorage.setItem('isAuthenticated', 'true');
-      sessionStorage.setItem('isAuthenticated', 'true');
-      
-      // Load user into UserContext before navigating so dashboard has permission data
-      await refreshUser();
-      
-      // Call success callback if provided
-      if (onLoginSuccess) {
-        onLoginSuccess();
+      const data = await loginAPI(username, password);
+      if (data?.two_factor_required && data.challenge_token) {
+        setChallengeToken(data.challenge_token);
+        setOtpCode('');
+        setUseBackupCode(false);
+        setIsLoading(false);
+        return;
       }
-      
-      // Navigate to dashboard
-      navigate('/dashboard');
+      await completeLogin();
+    } catch (error: any) {
+      const errorMessage = error.message || '';
+      setError(translateLoginError(errorMessage, error));
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isLoading || !challengeToken) return;
+    const code = otpCode.trim();
+    if (!code) return;
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await verifyTwoFactorLoginAPI(challengeToken, useBackupCode ? { backup_code: code } : { code });
+      await completeLogin();
     } catch (error: any) {
       const errorMessage = error.message || '';
+      if (String(error?.code || '').toUpperCase() === 'CHALLENGE_EXPIRED') {
+        setChallengeToken(null);
+        setPassword('');
+      }
       setError(translateLoginError(errorMessage, error));
       setIsLoading(false);
     }
   };
 
+  const handleBackToPassword = () => {
+    setChallengeToken(null);
+    setOtpCode('');
+    setPassword('');
+    setError('');
+  };
+
   return (
     <div className="flex items-center justify-center min-h-screen bg-gray-50 dark:bg-gray-900">
       {/* Theme and Language Toggle Buttons */}
@@ -168,12 +218,74 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
                 className="h-12 w-auto object-contain mb-4 md:hidden" 
               />
               <h2 className="text-2xl font-semibold text-center text-gray-700 dark:text-white">
-                  {t('login.welcomeBack')}
+                  {challengeToken ? t('login.twoFactor.title') : t('login.welcomeBack')}
               </h2>
               <p className="mt-2 text-sm text-center text-gray-600 dark:text-gray-400">
-                  {t('login.signInToAccess')}
+                  {challengeToken
+                    ? (useBackupCode ? t('login.twoFactor.backupHint') : t('login.twoFactor.hint'))
+                    : t('login.signInToAccess')}
               </p>
             </div>
+            {challengeToken ? (
+            <form className="mt-8 space-y-6" onSubmit={handleVerifyCode}>
+            <div>
+                <label htmlFor="otp-code" className="sr-only">
+                    {useBackupCode ? t('login.twoFactor.backupCode') : t('login.twoFactor.code')}
+                </label>
+                <input
+                    id="otp-code"
+                    name="otp-code"
+                    type="text"
+                    inputMode={useBackupCode ? 'text' : 'numeric'}
+                    autoComplete="one-time-code"
+                    autoFocus
+                    required
+                    maxLength={useBackupCode ? 20 : 6}
+                    dir="ltr"
+                    className="relative block w-full px-3 py-3 text-center tracking-widest font-mono text-gray-900 placeholder-gray-500 bg-gray-50 border border-gray-300 rounded-md appearance-none focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white"
+                    placeholder={useBackupCode ? 'xxxx-xxxx' : '123456'}
+                    value={otpCode}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setOtpCode(useBackupCode ? e.target.value : e.target.value.replace(/\D/g, ''))
+                    }
+                />
+            </div>
+
+            {error && (
+                <p className="text-sm text-center text-red-500">{error}</p>
+            )}
+
+            <div className="space-y-3">
+                <button
+                type="submit"
+                disabled={isLoading}
+                className="relative flex justify-center w-full px-4 py-3 text-sm font-medium text-white border border-transparent rounded-md group bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:bg-primary-400 dark:disabled:bg-primary-800 transition-colors"
+                >
+                {isLoading ? <LoadingSpinner size="sm" tone="light" label={t('common.loading') || 'Loading'} /> : t('login.twoFactor.verify')}
+                </button>
+                <div className="flex justify-between text-sm">
+                    <button
+                        type="button"
+                        onClick={() => {
+                            setUseBackupCode(!useBackupCode);
+                            setOtpCode('');
+                            setError('');
+                        }}
+                        className="text-primary-600 hover:underline dark:text-primary-400"
+                    >
+                        {useBackupCode ? t('login.twoFactor.useApp') : t('login.twoFactor.useBackup')}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleBackToPassword}
+                        className="text-gray-500 hover:underline dark:text-gray-400"
+                    >
+                        {t('login.twoFactor.back')}
+                    </button>
+                </div>
+            </div>
+            </form>
+            ) : (
             <form className="mt-8 space-y-6" onSubmit={handleLogin}>
             <div className="rounded-md shadow-sm">
                 <div>
@@ -240,6 +352,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
                 </button>
             </div>
             </form>
+            )}
         </div>
       </div>
     </div>
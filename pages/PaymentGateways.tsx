@@ -8,9 +8,10 @@ import GatewaySettingsModal from '../components/GatewaySettingsModal';
 import AddGatewayModal from '../components/AddGatewayModal';
 import AlertDialog from '../components/AlertDialog';
 import { useAuditLog } from '../context/AuditLogContext';
+import { useUser } from '../context/UserContext';
 import GatewayCardSkeleton from '../components/GatewayCardSkeleton';
 import { getPaymentGatewaysAPI, getPaymentGatewayAPI, updatePaymentGatewayAPI, togglePaymentGatewayAPI, createPaymentGatewayAPI } from '../services/api';
-import { buildUpdateDiff } from '../utils/buildUpdateDiff';
+import { buildUpdateDiff, buildAuditChanges } from '../utils/buildUpdateDiff';
 import { enabledCardRivals } from '../utils/cardGateways';
 
 function gatewayStatusToApi(status: PaymentGatewayStatus | string): string {
@@ -29,7 +30,7 @@ function gatewayToApiPayload(gateway: PaymentGateway): Record<string, unknown> {
     };
 }
 
-const GatewayCard: React.FC<{ gateway: PaymentGateway, onManage: () => void, onToggle: (enabled: boolean) => void }> = ({ gateway, onManage, onToggle }) => {
+const GatewayCard: React.FC<{ gateway: PaymentGateway, onManage: () => void, onToggle: (enabled: boolean) => void, canToggle: boolean }> = ({ gateway, onManage, onToggle, canToggle }) => {
     const { t } = useI18n();
 
     const statusMap: { [key in PaymentGatewayStatus]: { text: string; bg: string; text_color: string } } = {
@@ -39,7 +40,7 @@ const GatewayCard: React.FC<{ gateway: PaymentGateway, onManage: () => void, onT
     };
     
     const currentStatus = statusMap[gateway.status];
-    const isToggleDisabled = gateway.status === PaymentGatewayStatus.SetupRequired;
+    const isToggleDisabled = gateway.status === PaymentGatewayStatus.SetupRequired || !canToggle;
     const gatewayNameLower = gateway.name.toLowerCase();
     const isPaytabs = gatewayNameLower.includes('paytabs');
     const isStripe = gatewayNameLower.includes('stripe');
@@ -112,6 +113,7 @@ const GatewayCard: React.FC<{ gateway: PaymentGateway, onManage: () => void, onT
 const PaymentGateways: React.FC = () => {
     const { t } = useI18n();
     const { addLog } = useAuditLog();
+    const { can, canAction } = useUser();
     const [gateways, setGateways] = useState<PaymentGateway[]>([]);
     const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
@@ -243,7 +245,9 @@ const PaymentGateways: React.FC = () => {
             }
             const response = await updatePaymentGatewayAPI(parseInt(updatedGateway.id), diff);
             await loadGateways();
-            addLog('audit.log.gatewaySettingsUpdated', { gatewayName: updatedGateway.name });
+            addLog('audit.log.gatewaySettingsUpdated', { gatewayName: updatedGateway.name }, {
+                changes: buildAuditChanges(initialPayload, diff),
+            });
             setIsSettingsModalOpen(false);
             setSelectedGateway(null);
 
@@ -315,6 +319,7 @@ const PaymentGateways: React.FC = () => {
                 </div>
                 <div className="flex items-center gap-2">
                     <RefreshButton onClick={() => void loadGateways()} loading={isLoading} />
+                    {can('paymentGateways', 'write') && canAction('editGatewaySecrets') && (
                     <button
                         onClick={() => setIsAddModalOpen(true)}
                         className="flex items-center space-x-2 rtl:space-x-reverse px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 font-medium transition-colors"
@@ -322,6 +327,7 @@ const PaymentGateways: React.FC = () => {
                         <Icon name="plus" className="w-5 h-5" />
                         <span>{t('paymentGateways.addGateway')}</span>
                     </button>
+                    )}
                 </div>
             </div>
 
@@ -347,6 +353,7 @@ const PaymentGateways: React.FC = () => {
                             gateway={gw}
                             onManage={() => handleManage(gw)}
                             onToggle={(enabled) => handleToggle(gw.id, enabled)}
+                            canToggle={can('paymentGateways', 'write')}
                         />
                     ))
                 )}
@@ -357,6 +364,7 @@ const PaymentGateways: React.FC = () => {
                 onClose={() => setIsSettingsModalOpen(false)}
                 gateway={selectedGateway}
                 onSave={handleSaveSettings}
+                canEditSecrets={can('paymentGateways', 'write') && canAction('editGatewaySecrets')}
             />
             
             <AddGatewayModal
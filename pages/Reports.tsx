@@ -1,10 +1,10 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import Icon from '../components/Icon';
 import FilterButton from '../components/FilterButton';
 import RefreshButton from '../components/RefreshButton';
 import { useI18n } from '../context/i18n';
+import { useUser } from '../context/UserContext';
 import {
   getAllPaymentsAPI,
   getAllSubscriptionsAPI,
@@ -17,6 +17,8 @@ import { hasActiveFilters as filtersAreActive } from '../components/filters';
 import { ADMIN_PAGE_TAB_ACTIVE, ADMIN_PAGE_TAB_INACTIVE } from '../utils/pageTabNavClasses';
 import { withLatinDigits } from '../utils/latinNumerals';
 import { getChartTheme, renderChartLegend, useIsDarkMode } from '../utils/chartTheme';
+import ExportButton from '../components/ExportButton';
+import { ExportColumn } from '../utils/exportData';
 
 const MONTH_KEYS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
 
@@ -111,16 +113,17 @@ const RevenueReports: React.FC<{
   onLoadingChange?: (loading: boolean) => void;
 }> = ({ filters, refreshNonce = 0, onLoadingChange }) => {
     const { t, language } = useI18n();
+    const { scopedCompanyIds } = useUser();
     const isDark = useIsDarkMode();
     const chartTheme = useMemo(() => getChartTheme(isDark), [isDark]);
-    const [mrrData, setMrrData] = useState<Array<{month: string; MRR: number; ARR: number}>>([]);
+    const [mrrData, setMrrData] = useState<Array<{month: string; year: number; MRR: number; ARR: number}>>([]);
     const [summary, setSummary] = useState({ totalMrr: 0, paymentCount: 0 });
     const [isLoading, setIsLoading] = useState(true);
     const [loadError, setLoadError] = useState(false);
 
     useEffect(() => {
         loadRevenueData();
-    }, [language, t, filters, refreshNonce]);
+    }, [language, t, filters, refreshNonce, scopedCompanyIds]);
 
     useEffect(() => {
         onLoadingChange?.(isLoading);
@@ -130,7 +133,7 @@ const RevenueReports: React.FC<{
         setIsLoading(true);
         setLoadError(false);
         try {
-            const paymentsRes = await getAllPaymentsAPI();
+            const paymentsRes = await getAllPaymentsAPI({ subscription__company__in: scopedCompanyIds });
             const payments = paymentsRes.results || [];
 
             const monthSequence = buildMonthSequence(filters);
@@ -141,6 +144,7 @@ const RevenueReports: React.FC<{
                 return {
                     key: `${date.getFullYear()}-${monthIndex}`,
                     month: monthName,
+                    year: date.getFullYear(),
                     MRR: 0,
                     ARR: 0,
                 };
@@ -194,18 +198,12 @@ const RevenueReports: React.FC<{
         }
     };
 
-    const handleExport = () => {
-        const csvContent = [
-            ['Month', 'MRR', 'ARR'],
-            ...mrrData.map(d => [d.month, d.MRR.toString(), d.ARR.toString()])
-        ].map(row => row.join(',')).join('\n');
-        
-        const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement('a');
-        link.href = URL.createObjectURL(blob);
-        link.download = 'revenue-report.csv';
-        link.click();
-    };
+    const exportColumns = useMemo<ExportColumn<{ month: string; year: number; MRR: number; ARR: number }>[]>(() => [
+        { key: 'year', label: t('common.year'), value: (row) => row.year },
+        { key: 'month', label: t('common.month'), value: (row) => row.month },
+        { key: 'mrr', label: t('reports.revenue.mrr'), value: (row) => Math.round(row.MRR * 100) / 100 },
+        { key: 'arr', label: t('reports.revenue.arr'), value: (row) => Math.round(row.ARR * 100) / 100 },
+    ], [t]);
 
     const currencyFormatter = useMemo(
       () =>
@@ -227,13 +225,14 @@ const RevenueReports: React.FC<{
                 </p>
             </div>
             <div className="flex items-center gap-2 w-full sm:w-auto">
-                <button 
-                    onClick={handleExport} 
-                    className="bg-gray-200 dark:bg-gray-700 px-4 py-2 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 flex items-center justify-center w-full sm:w-auto text-gray-900 dark:text-white"
-                    disabled={isLoading || mrrData.length === 0}
-                >
-                    <Icon name="pdf" className="w-5 h-5 mx-2"/> {t('reports.revenue.export')}
-                </button>
+                <ExportButton
+                    filename="revenue-report"
+                    subtitle={t('reports.revenue.title')}
+                    columns={exportColumns}
+                    loadRows={async () => mrrData}
+                    filtersActive={Boolean(filters.fromDate || filters.toDate)}
+                    disabled={isLoading || loadError || mrrData.length === 0}
+                />
             </div>
         </div>
 
@@ -289,9 +288,10 @@ const SubscriberReports: React.FC<{
   onLoadingChange?: (loading: boolean) => void;
 }> = ({ filters, refreshNonce = 0, onLoadingChange }) => {
     const { t, language } = useI18n();
+    const { scopedCompanyIds } = useUser();
     const isDark = useIsDarkMode();
     const chartTheme = useMemo(() => getChartTheme(isDark), [isDark]);
-    const [subscriberData, setSubscriberData] = useState<Array<{month: string; new: number; churned: number}>>([]);
+    const [subscriberData, setSubscriberData] = useState<Array<{month: string; year: number; new: number; churned: number}>>([]);
     const [conversionData, setConversionData] = useState<Array<{name: string; value: number}>>([]);
     const [summary, setSummary] = useState({ totalNew: 0, totalChurned: 0 });
     const [isLoading, setIsLoading] = useState(true);
@@ -299,7 +299,7 @@ const SubscriberReports: React.FC<{
 
     useEffect(() => {
         loadSubscriberData();
-    }, [language, t, filters, refreshNonce]);
+    }, [language, t, filters, refreshNonce, scopedCompanyIds]);
 
     useEffect(() => {
         onLoadingChange?.(isLoading);
@@ -310,8 +310,8 @@ const SubscriberReports: React.FC<{
         setLoadError(false);
         try {
             const [subscriptionsRes, companiesRes] = await Promise.all([
-                getAllSubscriptionsAPI(),
-                getAllCompaniesAPI(),
+                getAllSubscriptionsAPI({ company__in: scopedCompanyIds }),
+                getAllCompaniesAPI({ id__in: scopedCompanyIds }),
             ]);
 
             const subscriptions = subscriptionsRes.results || [];
@@ -325,6 +325,7 @@ const SubscriberReports: React.FC<{
                 return {
                     key: `${date.getFullYear()}-${monthIndex}`,
                     month: monthName,
+                    year: date.getFullYear(),
                     new: 0,
                     churned: 0,
                 };
@@ -400,18 +401,12 @@ const SubscriberReports: React.FC<{
         }
     };
 
-    const handleExport = () => {
-        const csvContent = [
-            ['Month', 'New', 'Churned'],
-            ...subscriberData.map(d => [d.month, d.new.toString(), d.churned.toString()])
-        ].map(row => row.join(',')).join('\n');
-        
-        const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement('a');
-        link.href = URL.createObjectURL(blob);
-        link.download = 'subscriber-report.csv';
-        link.click();
-    };
+    const exportColumns = useMemo<ExportColumn<{ month: string; year: number; new: number; churned: number }>[]>(() => [
+        { key: 'year', label: t('common.year'), value: (row) => row.year },
+        { key: 'month', label: t('common.month'), value: (row) => row.month },
+        { key: 'new', label: t('reports.subscribers.new'), value: (row) => row.new },
+        { key: 'churned', label: t('reports.subscribers.churned'), value: (row) => row.churned },
+    ], [t]);
 
     return (
      <div className="space-y-6">
@@ -423,13 +418,14 @@ const SubscriberReports: React.FC<{
                 </p>
             </div>
              <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 w-full sm:w-auto">
-                <button 
-                    onClick={handleExport} 
-                    className="bg-gray-200 dark:bg-gray-700 px-4 py-2 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 flex items-center justify-center w-full sm:w-auto text-gray-900 dark:text-white"
-                    disabled={isLoading || subscriberData.length === 0}
-                >
-                    <Icon name="pdf" className="w-5 h-5 mx-2"/> {t('reports.revenue.export')}
-                </button>
+                <ExportButton
+                    filename="subscriber-report"
+                    subtitle={t('reports.subscribers.title')}
+                    columns={exportColumns}
+                    loadRows={async () => subscriberData}
+                    filtersActive={Boolean(filters.fromDate || filters.toDate)}
+                    disabled={isLoading || loadError || subscriberData.length === 0}
+                />
             </div>
         </div>
 
@@ -1,9 +1,10 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router';
 import Icon from '../components/Icon';
 import FilterButton from '../components/FilterButton';
 import RefreshButton from '../components/RefreshButton';
-import { Plan, Payment, Invoice, PaymentStatus, Tenant, type InvoicePaymentStatus, type BillingBranding } from '../types';
+import { Plan, Payment, Invoice, PaymentStatus, type InvoicePaymentStatus, type BillingBranding } from '../types';
 import { useI18n } from '../context/i18n';
 import PlanModal from '../components/PlanModal';
 import InvoiceModal from '../components/InvoiceModal';
@@ -19,24 +20,58 @@ import {
   getSubscriptionsAPI,
   updateSubscriptionAPI,
   getCompaniesAPI,
+  getCompaniesPageAPI,
   getInvoicesAPI,
   checkHasSuccessfulPaymentForSubscription,
   downloadInvoicePdfAPI,
   sendInvoiceEmailAPI,
   getBillingSettingsAPI,
+  getAllPlansAPI,
+  getAllPaymentsAPI,
+  getAllInvoicesAPI,
+  getAllSubscriptionsAPI,
+  getAllCompaniesAPI,
+  getSystemSettingsAPI,
 } from '../services/api';
 import { getPaymentsAPI } from '../services/api';
 import { useAlert } from '../context/AlertContext';
+import { useUser } from '../context/UserContext';
 import { translateAdminApiError } from '../utils/translateApiError';
-import { buildUpdateDiff } from '../utils/buildUpdateDiff';
+import { buildUpdateDiff, buildAuditChanges } from '../utils/buildUpdateDiff';
 import AlertDialog from '../components/AlertDialog';
 import { ADMIN_PAGE_TAB_ACTIVE, ADMIN_PAGE_TAB_INACTIVE } from '../utils/pageTabNavClasses';
 import { withLatinDigits } from '../utils/latinNumerals';
+import { useRealtimeEvent } from '../hooks/useRealtime';
 import SubscriptionsFilterDrawer, {
   SubscriptionsFilters,
   subscriptionsFilterDefaults,
 } from '../components/SubscriptionsFilterDrawer';
 import { hasActiveFilters as filtersAreActive } from '../components/filters';
+import ExportButton from '../components/ExportButton';
+import CouponsPanel from '../components/CouponsPanel';
+import DunningPanel from '../components/DunningPanel';
+import {
+  mapApiPayment,
+  mapApiInvoice,
+  invoiceStatusLabelKey,
+  paymentStatusColors,
+  invoicePaymentStatusColors,
+} from '../utils/billingMapping';
+import { ExportColumn, createExportDateFormatter } from '../utils/exportData';
+import { mapApiPlan, sanitizePlanFeatures } from '../utils/planMapping';
+import {
+  ApiSubscriptionRow,
+  RenewalRow,
+  TimelineEvent,
+  buildCompanyTimeline,
+  buildRenewalForecast,
+} from '../utils/subscriptionTimeline';
+
+/** Seed a tab's filters from `?q=` so other pages can link to a pre-searched list. */
+const useLinkedFilters = (): SubscriptionsFilters => {
+  const [searchParams] = useSearchParams();
+  return { ...subscriptionsFilterDefaults, search: searchParams.get('q') || '' };
+};
 
 const dateInRange = (dateStr: string | undefined | null, fromDate: string, toDate: string): boolean => {
   if (!fromDate && !toDate) return true;
@@ -46,38 +81,6 @@ const dateInRange = (dateStr: string | undefined | null, fromDate: string, toDat
   if (toDate && d > toDate) return false;
   return true;
 };
-function classifyPlanTypeFromApi(plan: {
-  price_monthly?: string | number;
-  price_yearly?: string | number;
-  trial_days?: number;
-}): 'Paid' | 'Trial' | 'Free' {
-  const pm = parseFloat(String(plan.price_monthly ?? 0)) || 0;
-  const py = parseFloat(String(plan.price_yearly ?? 0)) || 0;
-  const td = Number(plan.trial_days ?? 0) || 0;
-  if (pm > 0 || py > 0) return 'Paid';
-  if (td > 0) return 'Trial';
-  return 'Free';
-}
-
-const CANONICAL_PLAN_FEATURE_KEYS = [
-  'integration_meta',
-  'integration_tiktok',
-  'integration_whatsapp',
-  'integration_twilio',
-  'integration_otpiq',
-  'integration_openai',
-  'integration_api',
-  'integration_mujeb',
-  'integration_pbx',
-] as const;
-
-function sanitizePlanFeatures(raw: unknown): Record<string, boolean> {
-  const source = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
-  return Object.fromEntries(
-    CANONICAL_PLAN_FEATURE_KEYS.map((key) => [key, source[key] === undefined ? true : !!source[key]])
-  ) as Record<string, boolean>;
-}
-
 function planToApiPayload(plan: Omit<Plan, 'id'> & { id?: number }): Record<string, unknown> {
   const maxEmployees = plan.entitlementsLimits?.max_employees ?? plan.users ?? 'unlimited';
   const maxClients = plan.entitlementsLimits?.max_clients ?? plan.clients ?? 'unlimited';
@@ -99,14 +102,12 @@ function planToApiPayload(plan: Omit<Plan, 'id'> & { id?: number }): Record<stri
   };
 }
 
-interface SubscriptionsProps {
-    tenants: Tenant[];
-}
-
-const PlansTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
+const PlansTab: React.FC = () => {
     const { t, language } = useI18n();
     const { addLog } = useAuditLog();
     const { showAlert } = useAlert();
+    const { can } = useUser();
+    const canWrite = can('subscriptions', 'write');
     const [plans, setPlans] = useState<Plan[]>([]);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingPlan, setEditingPlan] = useState<Plan | null>(null);
@@ -117,41 +118,39 @@ const PlansTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
     const [planToToggleVisibility, setPlanToToggleVisibility] = useState<Plan | null>(null);
     const [isVisibilityDialogOpen, setIsVisibilityDialogOpen] = useState(false);
     const [isTogglingVisibility, setIsTogglingVisibility] = useState(false);
+    /** Current subscribers per plan; a plan missing here (still counting, or its count failed) keeps delete disabled. */
+    const [planUsage, setPlanUsage] = useState<Map<number, number>>(new Map());
+    const [planUsageFailed, setPlanUsageFailed] = useState(false);
 
     useEffect(() => {
         loadPlans();
     }, []);
 
+    // One count per plan from the server's current-subscription filter instead of loading every tenant;
+    // a failed count only blocks deleting that plan
+    const loadPlanUsage = async (planIds: number[]) => {
+        setPlanUsageFailed(false);
+        const results = await Promise.allSettled(
+            planIds.map((id) => getCompaniesPageAPI({ plan: id, page_size: 1 }).then((res) => [id, res.count] as const)),
+        );
+        const usage = new Map<number, number>();
+        results.forEach((result) => {
+            if (result.status === 'fulfilled') usage.set(result.value[0], result.value[1]);
+            else console.error('Error loading plan usage:', result.reason);
+        });
+        setPlanUsage(usage);
+        setPlanUsageFailed(usage.size < planIds.length);
+    };
+
     const loadPlans = async () => {
         setIsLoading(true);
         try {
             const response = await getPlansAPI();
             // Map API plan fields to frontend format
-            const apiPlans = (response.results || []).map((plan: any) => ({
-                id: plan.id,
-                name: plan.name, // API field: name
-                nameAr: plan.name_ar || '', // API field: name_ar
-                type: classifyPlanTypeFromApi(plan),
-                priceMonthly: parseFloat(plan.price_monthly || 0), // API field: price_monthly
-                priceYearly: parseFloat(plan.price_yearly || 0), // API field: price_yearly
-                trialDays: plan.trial_days || 0, // API field: trial_days
-                users: (plan.limits?.max_employees ?? plan.users ?? 'unlimited') as number | 'unlimited',
-                clients: (plan.limits?.max_clients ?? plan.clients ?? 'unlimited') as number | 'unlimited',
-                features: plan.description || '', // API field: description
-                featuresAr: plan.description_ar || '', // API field: description_ar (if available)
-                entitlementsFeatures: sanitizePlanFeatures(plan.features),
-                entitlementsLimits: {
-                    max_employees: plan.limits?.max_employees ?? plan.users ?? null,
-                    max_clients: plan.limits?.max_clients ?? plan.clients ?? null,
-                    max_deals: plan.limits?.max_deals ?? null,
-                    max_storage_bytes: plan.limits?.max_storage_bytes ?? (1 * 1024 * 1024 * 1024),
-                    max_file_size_bytes: plan.limits?.max_file_size_bytes ?? (20 * 1024 * 1024),
-                },
-                entitlementsUsageLimitsMonthly: plan.usage_limits_monthly || {},
-                tier: typeof plan.tier === 'number' ? plan.tier : 0,
-                visible: plan.visible !== false, // API field: visible
-            }));
+            const apiPlans = (response.results || []).map(mapApiPlan);
             setPlans(apiPlans);
+            setPlanUsage(new Map());
+            void loadPlanUsage(apiPlans.map((plan) => plan.id));
         } catch (error) {
             console.error('Error loading plans:', error);
         } finally {
@@ -159,6 +158,26 @@ const PlansTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
         }
     };
 
+    const exportColumns = useMemo<ExportColumn<Plan>[]>(() => {
+        const limit = (value: number | 'unlimited') => (value === 'unlimited' ? t('subscriptions.plans.unlimited') : value);
+        return [
+            { key: 'name', label: t('subscriptions.plans.planName'), value: (plan) => plan.name },
+            { key: 'nameAr', label: t('subscriptions.plans.planNameAr'), value: (plan) => plan.nameAr },
+            { key: 'type', label: t('subscriptions.plans.planType'), value: (plan) => t(`subscriptions.plans.type.${plan.type}`) },
+            { key: 'priceMonthly', label: t('subscriptions.plans.priceMonthly'), value: (plan) => plan.priceMonthly },
+            { key: 'priceYearly', label: t('subscriptions.plans.priceYearly'), value: (plan) => plan.priceYearly },
+            { key: 'trialDays', label: t('subscriptions.plans.trialDays'), value: (plan) => plan.trialDays },
+            { key: 'users', label: t('subscriptions.plans.maxUsers'), value: (plan) => limit(plan.users) },
+            { key: 'clients', label: t('subscriptions.plans.maxClients'), value: (plan) => limit(plan.clients) },
+            { key: 'visible', label: t('subscriptions.plans.show'), value: (plan) => (plan.visible ? t('common.yes') : t('common.no')) },
+        ];
+    }, [t]);
+
+    const loadExportRows = async () => {
+        const response = await getAllPlansAPI();
+        return (response.results || []).map(mapApiPlan);
+    };
+
     const handleOpenModal = (plan: Plan | null) => {
         setEditingPlan(plan);
         setIsModalOpen(true);
@@ -183,7 +202,9 @@ const PlansTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
                     return;
                 }
                 await updatePlanAPI(planToSave.id, diff);
-            addLog('audit.log.planUpdated', { planName: planToSave.name });
+            addLog('audit.log.planUpdated', { planName: planToSave.name }, {
+                changes: buildAuditChanges(initialPayload, diff),
+            });
         } else {
                 // Use API field names
                 const maxEmployees = planToSave.entitlementsLimits?.max_employees ?? planToSave.users ?? 'unlimited';
@@ -275,12 +296,32 @@ const PlansTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
     return (
     <div>
         <div className="flex justify-end gap-2 mb-6">
+            <ExportButton
+                filename="plans"
+                subtitle={t('subscriptions.tabs.plans')}
+                columns={exportColumns}
+                loadRows={loadExportRows}
+            />
             <RefreshButton onClick={() => void loadPlans()} loading={isLoading} />
+            {canWrite && (
             <button onClick={() => handleOpenModal(null)} className="bg-primary-600 text-white px-4 py-2 rounded-md hover:bg-primary-700 flex items-center shadow-md transition-transform transform hover:scale-105">
                 <Icon name="plus" className="w-5 h-5 mx-2" />
                 {t('subscriptions.plans.createPlan')}
             </button>
+            )}
         </div>
+        {planUsageFailed && !isLoading && (
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2 rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 px-3 py-2 text-sm text-amber-800 dark:text-amber-200">
+                <span>{t('subscriptions.plans.usageError')}</span>
+                <button
+                    type="button"
+                    onClick={() => void loadPlanUsage(plans.map((plan) => plan.id))}
+                    className="font-medium underline-offset-2 hover:underline"
+                >
+                    {t('subscriptions.plans.usageRetry')}
+                </button>
+            </div>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
             {isLoading ? (
                 [...Array(4)].map((_, i) => <PlanCardSkeleton key={i} />)
@@ -296,7 +337,8 @@ const PlansTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
                     const planNameForDisplay = language === 'ar' && (plan.nameAr?.trim()?.length)
                         ? plan.nameAr
                         : plan.name;
-                    const isDeletable = !tenants.some(tenant => tenant.currentPlan === plan.name);
+                    const subscriberCount = planUsage.get(plan.id);
+                    const isDeletable = subscriberCount === 0;
                     return (
                         <div key={plan.id} className="bg-primary-50 dark:bg-gray-800 rounded-lg shadow-md p-6 border-t-4 border-primary-500 flex flex-col transition-all duration-300 hover:shadow-xl hover:-translate-y-1">
                             <h3 className="text-2xl font-bold text-gray-900 dark:text-white">{planNameForDisplay}</h3>
@@ -347,8 +389,8 @@ const PlansTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
                                             {t('subscriptions.plans.show')}
                                         </span>
                                     )}
-                                    <label className="relative inline-flex items-center cursor-pointer">
-                                        <input type="checkbox" checked={plan.visible} onChange={() => openVisibilityDialog(plan)} className="sr-only peer" />
+                                    <label className={`relative inline-flex items-center ${canWrite ? 'cursor-pointer' : 'cursor-not-allowed opacity-60'}`}>
+                                        <input type="checkbox" checked={plan.visible} onChange={() => openVisibilityDialog(plan)} disabled={!canWrite} className="sr-only peer" />
                                         <div className="w-11 h-6 bg-gray-200 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-600"></div>
                                     </label>
                                     {language === 'ar' && (
@@ -358,15 +400,23 @@ const PlansTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
                                     )}
                                 </div>
                                 <div className={`flex items-center gap-2 ${language === 'ar' ? 'flex-row-reverse justify-end' : 'justify-start'}`}>
-                                    <button onClick={() => handleOpenModal(plan)} className="p-2 text-gray-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" title={t('subscriptions.plans.editPlan')}><Icon name="edit" className="w-5 h-5"/></button>
+                                    {canWrite && <button onClick={() => handleOpenModal(plan)} className="p-2 text-gray-500 hover:text-primary-600 dark:hover:text-primary-400 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" title={t('subscriptions.plans.editPlan')}><Icon name="edit" className="w-5 h-5"/></button>}
+                                    {can('subscriptions', 'delete') && (
                                     <button 
                                         onClick={() => openDeleteDialog(plan)} 
                                         disabled={!isDeletable}
                                         className="p-2 text-gray-500 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:text-gray-500"
-                                        title={isDeletable ? t('subscriptions.plans.deletePlan') : t('subscriptions.plans.deleteDisabledTooltip')}
+                                        title={
+                                            isDeletable
+                                                ? t('subscriptions.plans.deletePlan')
+                                                : subscriberCount === undefined && planUsageFailed
+                                                ? t('subscriptions.plans.usageUnknownTooltip')
+                                                : t('subscriptions.plans.deleteDisabledTooltip')
+                                        }
                                     >
                                         <Icon name="trash" className="w-5 h-5"/>
                                     </button>
+                                    )}
                                 </div>
                             </div>
                         </div>
@@ -410,6 +460,17 @@ const PlansTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
     </div>
 )};
 
+const paymentMatchesFilters = (p: Payment, filters: SubscriptionsFilters): boolean => {
+    const searchTerm = filters.search.trim().toLowerCase();
+    if (searchTerm) {
+        const haystack = `${p.id} ${p.companyName} ${p.plan}`.toLowerCase();
+        if (!haystack.includes(searchTerm)) return false;
+    }
+    if (filters.status && p.status !== filters.status) return false;
+    if (!dateInRange(p.date, filters.fromDate, filters.toDate)) return false;
+    return true;
+};
+
 const PAYMENT_STATUS_OPTIONS = [
     PaymentStatus.Successful,
     PaymentStatus.Pending,
@@ -419,57 +480,28 @@ const PAYMENT_STATUS_OPTIONS = [
 
 const PaymentsTab: React.FC = () => {
     const { t, language } = useI18n();
+    const { scopedCompanyIds } = useUser();
     const [payments, setPayments] = useState<Payment[]>([]);
     const [isLoading, setIsLoading] = useState(true);
-    const [filters, setFilters] = useState<SubscriptionsFilters>(subscriptionsFilterDefaults);
+    const linkedFilters = useLinkedFilters();
+  const [filters, setFilters] = useState<SubscriptionsFilters>(linkedFilters);
     const [isFilterDrawerOpen, setIsFilterDrawerOpen] = useState(false);
 
     useEffect(() => {
         loadPayments();
     }, []);
 
-    const loadPayments = async () => {
-        setIsLoading(true);
+    useRealtimeEvent(['payment.succeeded', 'payment.failed', 'resync'], () => {
+        void loadPayments(true);
+    });
+
+    /** `silent` keeps the current rows on screen while a realtime refresh runs. */
+    const loadPayments = async (silent = false) => {
+        if (!silent) setIsLoading(true);
         try {
-            const response = await getPaymentsAPI();
+            const response = await getPaymentsAPI({ subscription__company__in: scopedCompanyIds });
             // Map API payment fields to frontend format
-            const apiPayments: Payment[] = (response.results || []).map((payment: any) => {
-                // Backend PaymentStatus enum values: 'completed', 'pending', 'failed', 'canceled'
-                // Map to frontend PaymentStatus enum
-                const paymentStatus = payment.payment_status?.toLowerCase() || '';
-                let status: PaymentStatus;
-                
-                switch (paymentStatus) {
-                    case 'completed':
-                    case 'successful':
-                    case 'success':
-                        status = PaymentStatus.Successful;
-                        break;
-                    case 'pending':
-                        status = PaymentStatus.Pending;
-                        break;
-                    case 'canceled':
-                    case 'cancelled':
-                        status = PaymentStatus.Canceled;
-                        break;
-                    case 'failed':
-                    default:
-                        status = PaymentStatus.Failed;
-                        break;
-                }
-                
-                const amountUsd = payment.amount_usd != null ? parseFloat(payment.amount_usd) : null;
-                return {
-                    id: payment.id.toString(), // API field: id
-                    companyName: payment.subscription_company_name || 'Unknown', // From subscription relation
-                    amount: parseFloat(payment.amount || 0), // API field: amount (original currency)
-                    amountUsd, // Display in USD
-                    currency: (payment.currency || 'USD').toUpperCase(),
-                    plan: payment.subscription_plan_name || 'Unknown', // From subscription relation
-                    status: status,
-                    date: payment.created_at ? new Date(payment.created_at).toISOString().split('T')[0] : '', // API field: created_at
-                };
-            });
+            const apiPayments: Payment[] = (response.results || []).map(mapApiPayment);
             setPayments(apiPayments);
         } catch (error) {
             console.error('Error loading payments:', error);
@@ -478,24 +510,8 @@ const PaymentsTab: React.FC = () => {
         }
     };
 
-    const statusColors: { [key in PaymentStatus]: string } = {
-        [PaymentStatus.Successful]: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
-        [PaymentStatus.Failed]: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
-        [PaymentStatus.Pending]: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
-        [PaymentStatus.Canceled]: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
-    };
-
     const filteredPayments = useMemo(() => {
-        return payments.filter((p) => {
-            const searchTerm = filters.search.trim().toLowerCase();
-            if (searchTerm) {
-                const haystack = `${p.id} ${p.companyName} ${p.plan}`.toLowerCase();
-                if (!haystack.includes(searchTerm)) return false;
-            }
-            if (filters.status && p.status !== filters.status) return false;
-            if (!dateInRange(p.date, filters.fromDate, filters.toDate)) return false;
-            return true;
-        });
+        return payments.filter((p) => paymentMatchesFilters(p, filters));
     }, [payments, filters]);
 
     const filtersActive = useMemo(
@@ -503,6 +519,25 @@ const PaymentsTab: React.FC = () => {
         [filters],
     );
 
+    const exportColumns = useMemo<ExportColumn<Payment>[]>(() => {
+        const formatDate = createExportDateFormatter(language);
+        return [
+            { key: 'id', label: t('subscriptions.payments.table.transactionId'), value: (p) => p.id },
+            { key: 'company', label: t('subscriptions.payments.table.companyName'), value: (p) => p.companyName },
+            { key: 'plan', label: t('subscriptions.subscriptions.table.plan'), value: (p) => p.plan },
+            { key: 'amount', label: t('subscriptions.payments.table.amount'), value: (p) => p.amount },
+            { key: 'currency', label: t('export.fields.currency'), value: (p) => p.currency },
+            { key: 'amountUsd', label: t('export.fields.amountUsd'), value: (p) => p.amountUsd ?? (p.currency === 'USD' ? p.amount : null) },
+            { key: 'status', label: t('subscriptions.payments.table.status'), value: (p) => t(`status.${p.status}`) },
+            { key: 'date', label: t('subscriptions.payments.table.date'), value: (p) => formatDate(p.date) },
+        ];
+    }, [t, language]);
+
+    const loadExportRows = async () => {
+        const response = await getAllPaymentsAPI({ subscription__company__in: scopedCompanyIds });
+        return (response.results || []).map(mapApiPayment).filter((p) => paymentMatchesFilters(p, filters));
+    };
+
     const handleApplyFilters = (next: SubscriptionsFilters) => {
         setFilters(next);
         setIsFilterDrawerOpen(false);
@@ -521,6 +556,13 @@ const PaymentsTab: React.FC = () => {
                 >
                     {t('subscriptions.filters.open')}
                 </FilterButton>
+                <ExportButton
+                    filename="payments"
+                    subtitle={t('subscriptions.tabs.payments')}
+                    columns={exportColumns}
+                    loadRows={loadExportRows}
+                    filtersActive={filtersActive}
+                />
                 <RefreshButton onClick={() => void loadPayments()} loading={isLoading} />
             </div>
             <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
@@ -560,7 +602,7 @@ const PaymentsTab: React.FC = () => {
                                     <td className="px-6 py-4 text-center font-mono">{p.id}</td>
                                     <td className="px-6 py-4 text-center">{p.companyName}</td>
                                     <td className="px-6 py-4 text-center">${(p.amountUsd != null ? p.amountUsd : p.amount).toLocaleString(undefined, withLatinDigits({ minimumFractionDigits: 2, maximumFractionDigits: 2 }))}</td>
-                                    <td className="px-6 py-4 text-center"><span className={`px-2 py-1 text-xs font-medium rounded-full ${statusColors[p.status]}`}>{t(`status.${p.status}`)}</span></td>
+                                    <td className="px-6 py-4 text-center"><span className={`px-2 py-1 text-xs font-medium rounded-full ${paymentStatusColors[p.status]}`}>{t(`status.${p.status}`)}</span></td>
                                     <td className="px-6 py-4 text-center">{p.date}</td>
                                 </tr>
                                 ))
@@ -583,35 +625,16 @@ const PaymentsTab: React.FC = () => {
     )
 };
 
-function normalizeInvoicePaymentStatus(raw: string | undefined): InvoicePaymentStatus {
-    const s = (raw || '').toLowerCase();
-    if (s === 'completed') return 'completed';
-    if (s === 'pending') return 'pending';
-    if (s === 'failed') return 'failed';
-    if (s === 'canceled' || s === 'cancelled') return 'canceled';
-    return 'pending';
-}
-
-function invoiceStatusLabelKey(ps: InvoicePaymentStatus): 'Successful' | 'Pending' | 'Failed' | 'Canceled' {
-    switch (ps) {
-        case 'completed':
-            return 'Successful';
-        case 'pending':
-            return 'Pending';
-        case 'failed':
-            return 'Failed';
-        case 'canceled':
-            return 'Canceled';
-        default:
-            return 'Pending';
+const invoiceMatchesFilters = (inv: Invoice, filters: SubscriptionsFilters): boolean => {
+    const searchTerm = filters.search.trim().toLowerCase();
+    if (searchTerm) {
+        const haystack = `${inv.id} ${inv.companyName} ${inv.planName} ${inv.lineDescription}`.toLowerCase();
+        if (!haystack.includes(searchTerm)) return false;
     }
-}
-
-const invoicePaymentStatusColors: Record<InvoicePaymentStatus, string> = {
-    completed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
-    pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
-    failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
-    canceled: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+    if (filters.status && inv.paymentStatus !== filters.status) return false;
+    const dateValue = inv.dueDate || (inv.createdAt ? String(inv.createdAt).slice(0, 10) : '');
+    if (!dateInRange(dateValue, filters.fromDate, filters.toDate)) return false;
+    return true;
 };
 
 const INVOICE_STATUS_OPTIONS: InvoicePaymentStatus[] = ['completed', 'pending', 'failed', 'canceled'];
@@ -620,6 +643,7 @@ const InvoicesTab: React.FC = () => {
     const { t, language } = useI18n();
     const { logoUrl } = useTheme();
     const { showAlert } = useAlert();
+    const { can, scopedCompanyIds } = useUser();
     const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [downloadingId, setDownloadingId] = useState<number | null>(null);
@@ -627,7 +651,8 @@ const InvoicesTab: React.FC = () => {
     const [invoices, setInvoices] = useState<Invoice[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [branding, setBranding] = useState<Partial<BillingBranding> | null>(null);
-    const [filters, setFilters] = useState<SubscriptionsFilters>(subscriptionsFilterDefaults);
+    const linkedFilters = useLinkedFilters();
+  const [filters, setFilters] = useState<SubscriptionsFilters>(linkedFilters);
     const [isFilterDrawerOpen, setIsFilterDrawerOpen] = useState(false);
 
     useEffect(() => {
@@ -651,20 +676,8 @@ const InvoicesTab: React.FC = () => {
     const loadInvoices = async () => {
         setIsLoading(true);
         try {
-            const response = await getInvoicesAPI();
-            const apiInvoices: Invoice[] = (response.results || []).map((invoice: any) => ({
-                numericId: invoice.id,
-                id: invoice.invoice_number || `inv_${invoice.id}`,
-                companyName: invoice.company_name || 'Unknown',
-                amount: parseFloat(invoice.amount || 0),
-                currency: (invoice.currency || 'USD').toUpperCase(),
-                dueDate: invoice.due_date ? new Date(invoice.due_date).toISOString().split('T')[0] : '',
-                paymentStatus: normalizeInvoicePaymentStatus(invoice.payment_status),
-                lineDescription: invoice.line_description || '',
-                planName: invoice.plan_name || '',
-                createdAt: invoice.created_at,
-                paymentId: invoice.payment ?? null,
-            }));
+            const response = await getInvoicesAPI({ company__in: scopedCompanyIds });
+            const apiInvoices: Invoice[] = (response.results || []).map(mapApiInvoice);
             setInvoices(apiInvoices);
         } catch (error) {
             console.error('Error loading invoices:', error);
@@ -721,17 +734,7 @@ const InvoicesTab: React.FC = () => {
     };
 
     const filteredInvoices = useMemo(() => {
-        return invoices.filter((inv) => {
-            const searchTerm = filters.search.trim().toLowerCase();
-            if (searchTerm) {
-                const haystack = `${inv.id} ${inv.companyName} ${inv.planName} ${inv.lineDescription}`.toLowerCase();
-                if (!haystack.includes(searchTerm)) return false;
-            }
-            if (filters.status && inv.paymentStatus !== filters.status) return false;
-            const dateValue = inv.dueDate || (inv.createdAt ? String(inv.createdAt).slice(0, 10) : '');
-            if (!dateInRange(dateValue, filters.fromDate, filters.toDate)) return false;
-            return true;
-        });
+        return invoices.filter((inv) => invoiceMatchesFilters(inv, filters));
     }, [invoices, filters]);
 
     const filtersActive = useMemo(
@@ -739,6 +742,28 @@ const InvoicesTab: React.FC = () => {
         [filters],
     );
 
+    const exportColumns = useMemo<ExportColumn<Invoice>[]>(() => {
+        const formatDate = createExportDateFormatter(language);
+        return [
+            { key: 'invoiceNo', label: t('subscriptions.invoices.table.invoiceNo'), value: (inv) => inv.id },
+            { key: 'company', label: t('subscriptions.invoices.table.companyName'), value: (inv) => inv.companyName },
+            { key: 'plan', label: t('subscriptions.subscriptions.table.plan'), value: (inv) => inv.planName },
+            { key: 'description', label: t('export.fields.description'), value: (inv) => inv.lineDescription },
+            { key: 'amount', label: t('subscriptions.invoices.table.amount'), value: (inv) => inv.amount },
+            { key: 'discount', label: t('invoice.discount'), value: (inv) => inv.discountAmount ?? 0 },
+            { key: 'coupon', label: t('subscriptions.coupons.code'), value: (inv) => inv.couponCode ?? '' },
+            { key: 'currency', label: t('export.fields.currency'), value: (inv) => inv.currency },
+            { key: 'status', label: t('subscriptions.invoices.table.status'), value: (inv) => t(`status.${invoiceStatusLabelKey(inv.paymentStatus)}`) },
+            { key: 'dueDate', label: t('subscriptions.invoices.table.dueDate'), value: (inv) => formatDate(inv.dueDate) },
+            { key: 'createdAt', label: t('export.fields.createdAt'), value: (inv) => formatDate(inv.createdAt) },
+        ];
+    }, [t, language]);
+
+    const loadExportRows = async () => {
+        const response = await getAllInvoicesAPI({ company__in: scopedCompanyIds });
+        return (response.results || []).map(mapApiInvoice).filter((inv) => invoiceMatchesFilters(inv, filters));
+    };
+
     const handleApplyFilters = (next: SubscriptionsFilters) => {
         setFilters(next);
         setIsFilterDrawerOpen(false);
@@ -758,6 +783,13 @@ const InvoicesTab: React.FC = () => {
                     >
                         {t('subscriptions.filters.open')}
                     </FilterButton>
+                    <ExportButton
+                        filename="invoices"
+                        subtitle={t('subscriptions.tabs.invoices')}
+                        columns={exportColumns}
+                        loadRows={loadExportRows}
+                        filtersActive={filtersActive}
+                    />
                     <RefreshButton onClick={() => void loadInvoices()} loading={isLoading} />
                 </div>
                 <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
@@ -797,7 +829,14 @@ const InvoicesTab: React.FC = () => {
                                     <tr key={i.numericId} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
                                         <td className="px-6 py-4 text-center font-mono">{i.id}</td>
                                         <td className="px-6 py-4 text-center">{i.companyName}</td>
-                                        <td className="px-6 py-4 text-center">{formatAmount(i.amount, i.currency)}</td>
+                                        <td className="px-6 py-4 text-center">
+                                            {formatAmount(i.amount, i.currency)}
+                                            {i.couponCode ? (
+                                                <span className="block text-xs text-green-700 dark:text-green-400 font-mono">
+                                                    {i.couponCode} −{formatAmount(i.discountAmount ?? 0, i.currency)}
+                                                </span>
+                                            ) : null}
+                                        </td>
                                         <td className="px-6 py-4 text-center"><span className={`px-2 py-1 text-xs font-medium rounded-full ${invoicePaymentStatusColors[i.paymentStatus]}`}>{t(`status.${invoiceStatusLabelKey(i.paymentStatus)}`)}</span></td>
                                         <td className="px-6 py-4 text-center">{i.dueDate || '—'}</td>
                                         <td className="px-6 py-4 text-center">
@@ -817,6 +856,7 @@ const InvoicesTab: React.FC = () => {
                                                         <Icon name="download" className="w-5 h-5" />
                                                     )}
                                                 </button>
+                                                {can('subscriptions', 'write') && (
                                                 <button
                                                     type="button"
                                                     onClick={() => handleSendEmail(i)}
@@ -831,6 +871,7 @@ const InvoicesTab: React.FC = () => {
                                                         <Icon name="mail" className="w-5 h-5" />
                                                     )}
                                                 </button>
+                                                )}
                                             </div>
                                         </td>
                                     </tr>
@@ -863,18 +904,52 @@ const InvoicesTab: React.FC = () => {
     )
 };
 
+/** Attach company / plan names to raw subscription rows for display and export. */
+const joinSubscriptionNames = (
+  subs: any[],
+  companies: { id: number; name?: string }[],
+  plans: { id: number; name?: string; name_ar?: string }[],
+) =>
+  subs.map((sub: any) => {
+    const company = companies.find((c) => c.id === sub.company);
+    const plan = plans.find((p) => p.id === sub.plan);
+    return {
+      ...sub,
+      company_name: company?.name || 'Unknown',
+      plan_name: plan?.name || 'Unknown',
+      plan_name_ar: plan?.name_ar || '',
+    };
+  });
+
+const subscriptionPlanName = (sub: any, language: string): string =>
+  language === 'ar' && sub.plan_name_ar?.trim()?.length ? sub.plan_name_ar : sub.plan_name;
+
+const subscriptionMatchesFilters = (sub: any, filters: SubscriptionsFilters, language: string): boolean => {
+  const searchTerm = filters.search.trim().toLowerCase();
+  if (searchTerm) {
+    const haystack = `${sub.company_name || ''} ${subscriptionPlanName(sub, language) || ''} ${sub.id || ''}`.toLowerCase();
+    if (!haystack.includes(searchTerm)) return false;
+  }
+  if (filters.status === 'Active' && !sub.is_active) return false;
+  if (filters.status === 'Inactive' && sub.is_active) return false;
+  return true;
+};
+
 const SUBSCRIPTION_STATUS_OPTIONS = ['Active', 'Inactive'];
 
-const SubscriptionsTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
+const SubscriptionsTab: React.FC = () => {
   const { t, language } = useI18n();
   const { showAlert } = useAlert();
+  const { can, scopedCompanyIds } = useUser();
+  const canWrite = can('subscriptions', 'write');
   const [subscriptions, setSubscriptions] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showFirstConfirm, setShowFirstConfirm] = useState(false);
   const [showNoPaymentConfirm, setShowNoPaymentConfirm] = useState(false);
   const [pendingActivateSub, setPendingActivateSub] = useState<any | null>(null);
   const [isTogglingSub, setIsTogglingSub] = useState(false);
-  const [filters, setFilters] = useState<SubscriptionsFilters>(subscriptionsFilterDefaults);
+  const linkedFilters = useLinkedFilters();
+  const [filters, setFilters] = useState<SubscriptionsFilters>(linkedFilters);
   const [isFilterDrawerOpen, setIsFilterDrawerOpen] = useState(false);
 
   useEffect(() => {
@@ -885,8 +960,8 @@ const SubscriptionsTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
     setIsLoading(true);
     try {
       const [subscriptionsRes, companiesRes, plansRes] = await Promise.all([
-        getSubscriptionsAPI(),
-        getCompaniesAPI(),
+        getSubscriptionsAPI({ company__in: scopedCompanyIds }),
+        getCompaniesAPI({ id__in: scopedCompanyIds }),
         getPlansAPI()
       ]);
 
@@ -894,19 +969,7 @@ const SubscriptionsTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
       const companies = (companiesRes.results || []) as { id: number; name?: string }[];
       const plans = (plansRes.results || []) as { id: number; name?: string; name_ar?: string }[];
 
-      // Map subscriptions with company and plan names
-      const mappedSubs = subs.map((sub: any) => {
-        const company = companies.find((c) => c.id === sub.company);
-        const plan = plans.find((p) => p.id === sub.plan);
-        return {
-          ...sub,
-          company_name: company?.name || 'Unknown',
-          plan_name: plan?.name || 'Unknown',
-          plan_name_ar: plan?.name_ar || '',
-        };
-      });
-
-      setSubscriptions(mappedSubs);
+      setSubscriptions(joinSubscriptionNames(subs, companies, plans));
     } catch (error) {
       console.error('Error loading subscriptions:', error);
     } finally {
@@ -972,19 +1035,7 @@ const SubscriptionsTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
   };
 
   const filteredSubscriptions = useMemo(() => {
-    return subscriptions.filter((sub: any) => {
-      const searchTerm = filters.search.trim().toLowerCase();
-      if (searchTerm) {
-        const planName = language === 'ar' && sub.plan_name_ar?.trim()?.length
-          ? sub.plan_name_ar
-          : sub.plan_name;
-        const haystack = `${sub.company_name || ''} ${planName || ''} ${sub.id || ''}`.toLowerCase();
-        if (!haystack.includes(searchTerm)) return false;
-      }
-      if (filters.status === 'Active' && !sub.is_active) return false;
-      if (filters.status === 'Inactive' && sub.is_active) return false;
-      return true;
-    });
+    return subscriptions.filter((sub: any) => subscriptionMatchesFilters(sub, filters, language));
   }, [subscriptions, filters, language]);
 
   const filtersActive = useMemo(
@@ -992,6 +1043,30 @@ const SubscriptionsTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
     [filters],
   );
 
+  const exportColumns = useMemo<ExportColumn<any>[]>(() => {
+    const formatDate = createExportDateFormatter(language);
+    return [
+      { key: 'company', label: t('subscriptions.subscriptions.table.companyName'), value: (sub) => sub.company_name },
+      { key: 'plan', label: t('subscriptions.subscriptions.table.plan'), value: (sub) => subscriptionPlanName(sub, language) },
+      { key: 'startDate', label: t('subscriptions.subscriptions.table.startDate'), value: (sub) => formatDate(sub.start_date) },
+      { key: 'endDate', label: t('subscriptions.subscriptions.table.endDate'), value: (sub) => formatDate(sub.end_date) },
+      { key: 'status', label: t('subscriptions.subscriptions.table.status'), value: (sub) => (sub.is_active ? t('status.Active') : t('status.Inactive')) },
+    ];
+  }, [t, language]);
+
+  const loadExportRows = async () => {
+    const [subscriptionsRes, companiesRes, plansRes] = await Promise.all([
+      getAllSubscriptionsAPI({ company__in: scopedCompanyIds }),
+      getAllCompaniesAPI({ id__in: scopedCompanyIds }),
+      getAllPlansAPI(),
+    ]);
+    return joinSubscriptionNames(
+      subscriptionsRes.results || [],
+      (companiesRes.results || []) as unknown as { id: number; name?: string }[],
+      (plansRes.results || []) as unknown as { id: number; name?: string; name_ar?: string }[],
+    ).filter((sub) => subscriptionMatchesFilters(sub, filters, language));
+  };
+
   const handleApplyFilters = (next: SubscriptionsFilters) => {
     setFilters(next);
     setIsFilterDrawerOpen(false);
@@ -1010,6 +1085,13 @@ const SubscriptionsTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
         >
           {t('subscriptions.filters.open')}
         </FilterButton>
+        <ExportButton
+          filename="subscriptions"
+          subtitle={t('subscriptions.tabs.subscriptions')}
+          columns={exportColumns}
+          loadRows={loadExportRows}
+          filtersActive={filtersActive}
+        />
         <RefreshButton onClick={() => void loadSubscriptions()} loading={isLoading} />
       </div>
       <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
@@ -1046,9 +1128,7 @@ const SubscriptionsTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
                 </tr>
               ) : (
                 filteredSubscriptions.map((sub: any) => {
-                  const planNameForDisplay = language === 'ar' && (sub.plan_name_ar?.trim()?.length)
-                    ? sub.plan_name_ar
-                    : sub.plan_name;
+                  const planNameForDisplay = subscriptionPlanName(sub, language);
                   return (
                   <tr key={sub.id} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
                     <td className="px-6 py-4 text-center font-medium text-gray-900 whitespace-nowrap dark:text-white">
@@ -1072,11 +1152,12 @@ const SubscriptionsTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
                     </td>
                     <td className="px-6 py-4 text-center">
                       <div className="flex items-center justify-center">
-                        <label className="relative inline-flex items-center cursor-pointer">
+                        <label className={`relative inline-flex items-center ${canWrite ? 'cursor-pointer' : 'cursor-not-allowed opacity-60'}`}>
                           <input 
                             type="checkbox" 
                             checked={sub.is_active} 
                             onChange={() => handleToggleActive(sub)} 
+                            disabled={!canWrite}
                             className="sr-only peer" 
                           />
                           <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-primary-600"></div>
@@ -1127,9 +1208,293 @@ const SubscriptionsTab: React.FC<SubscriptionsProps> = ({ tenants }) => {
   );
 };
 
-const Subscriptions: React.FC<SubscriptionsProps> = ({ tenants }) => {
+const RENEWAL_WINDOWS = [7, 30, 90];
+
+const todayIso = () => new Date().toISOString().split('T')[0];
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString(undefined, withLatinDigits({ minimumFractionDigits: 2, maximumFractionDigits: 2 }))}`;
+
+const formatIqd = (value: number) =>
+  `${Math.round(value).toLocaleString(undefined, withLatinDigits())} IQD`;
+
+/**
+ * Renewals due in the next 7/30/90 days with expected revenue, plus a per-company lifecycle timeline
+ * (periods, trials, plan changes, gaps and payments).
+ */
+const LifecycleTab: React.FC = () => {
+  const { t, language } = useI18n();
+  const { scopedCompanyIds } = useUser();
+  const [subscriptions, setSubscriptions] = useState<ApiSubscriptionRow[]>([]);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [rawPayments, setRawPayments] = useState<any[]>([]);
+  const [usdToIqdRate, setUsdToIqdRate] = useState(1300);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [windowDays, setWindowDays] = useState(30);
+  const [selectedCompanyId, setSelectedCompanyId] = useState<number | null>(null);
+
+  const loadLifecycle = async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const [subscriptionsRes, companiesRes, plansRes, paymentsRes, settings] = await Promise.all([
+        getAllSubscriptionsAPI({ company__in: scopedCompanyIds }),
+        getAllCompaniesAPI({ id__in: scopedCompanyIds }),
+        getAllPlansAPI(),
+        getAllPaymentsAPI({ subscription__company__in: scopedCompanyIds }),
+        getSystemSettingsAPI(),
+      ]);
+      const rawPlans = (plansRes.results || []) as unknown as { id: number; name?: string; name_ar?: string }[];
+      setSubscriptions(joinSubscriptionNames(
+        subscriptionsRes.results || [],
+        (companiesRes.results || []) as unknown as { id: number; name?: string }[],
+        rawPlans,
+      ));
+      setPlans(rawPlans.map(mapApiPlan));
+      setRawPayments(paymentsRes.results || []);
+      const rate = parseFloat(settings?.usd_to_iqd_rate);
+      setUsdToIqdRate(Number.isFinite(rate) && rate > 0 ? rate : 1300);
+    } catch (error) {
+      console.error('Error loading subscription lifecycle:', error);
+      setLoadError(translateAdminApiError(error, t) || t('subscriptions.lifecycle.loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLifecycle();
+  }, []);
+
+  const planName = (planId: number) => {
+    const plan = plans.find((p) => p.id === planId);
+    if (!plan) return `#${planId}`;
+    return language === 'ar' && plan.nameAr?.trim() ? plan.nameAr : plan.name;
+  };
+
+  const renewals = useMemo(
+    () => buildRenewalForecast(subscriptions, plans, windowDays, todayIso()),
+    [subscriptions, plans, windowDays],
+  );
+
+  const expectedUsd = useMemo(() => renewals.reduce((sum, row) => sum + row.expectedUsd, 0), [renewals]);
+
+  const companies = useMemo(() => {
+    const byId = new Map<number, string>();
+    subscriptions.forEach((sub) => byId.set(sub.company, sub.company_name || `#${sub.company}`));
+    return [...byId.entries()]
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [subscriptions]);
+
+  const timeline = useMemo(() => {
+    if (selectedCompanyId == null) return [];
+    const companySubs = subscriptions.filter((sub) => sub.company === selectedCompanyId);
+    const subscriptionIds = new Set(companySubs.map((sub) => sub.id));
+    const payments = rawPayments.filter((p) => subscriptionIds.has(p.subscription)).map(mapApiPayment);
+    return buildCompanyTimeline(companySubs, payments, plans);
+  }, [selectedCompanyId, subscriptions, rawPayments, plans]);
+
+  const exportColumns = useMemo<ExportColumn<RenewalRow>[]>(() => {
+    const formatDate = createExportDateFormatter(language);
+    return [
+      { key: 'company', label: t('subscriptions.subscriptions.table.companyName'), value: (row) => row.companyName },
+      { key: 'plan', label: t('subscriptions.subscriptions.table.plan'), value: (row) => planName(row.planId) },
+      { key: 'endDate', label: t('subscriptions.subscriptions.table.endDate'), value: (row) => formatDate(row.endDate) },
+      { key: 'daysLeft', label: t('subscriptions.lifecycle.table.daysLeft'), value: (row) => row.daysLeft },
+      { key: 'cycle', label: t('subscriptions.lifecycle.table.cycle'), value: (row) => t(`subscriptions.lifecycle.cycle.${row.cycle}`) },
+      { key: 'expectedUsd', label: t('subscriptions.lifecycle.table.expectedUsd'), value: (row) => row.expectedUsd },
+      { key: 'expectedIqd', label: t('subscriptions.lifecycle.table.expectedIqd'), value: (row) => Math.round(row.expectedUsd * usdToIqdRate) },
+    ];
+  }, [t, language, plans, usdToIqdRate]);
+
+  const renderEvent = (event: TimelineEvent) => {
+    switch (event.kind) {
+      case 'period':
+        return {
+          dot: event.isTrial ? 'bg-amber-400' : 'bg-primary-600',
+          title: `${event.isTrial ? t('subscriptions.lifecycle.event.trial') : t('subscriptions.lifecycle.event.period')} · ${planName(event.planId)}`,
+          detail: `${event.date} → ${event.endDate || '—'} · ${t(`subscriptions.lifecycle.cycle.${event.cycle}`)}${event.isActive ? ` · ${t('status.Active')}` : ''}`,
+        };
+      case 'planChange':
+        return {
+          dot: 'bg-indigo-500',
+          title: t('subscriptions.lifecycle.event.planChange'),
+          detail: `${planName(event.fromPlanId)} → ${planName(event.toPlanId)}`,
+        };
+      case 'gap':
+        return {
+          dot: 'bg-red-500',
+          title: t('subscriptions.lifecycle.event.gap').replace('{days}', String(event.days)),
+          detail: `${event.date} → ${event.endDate}`,
+        };
+      case 'payment':
+        return {
+          dot: 'bg-green-500',
+          title: `${t('subscriptions.lifecycle.event.payment')} · ${formatUsd(event.payment.amountUsd != null ? event.payment.amountUsd : event.payment.amount)}`,
+          detail: t(`status.${event.payment.status}`),
+        };
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="inline-flex rounded-md shadow-sm" role="group">
+          {RENEWAL_WINDOWS.map((days) => (
+            <button
+              key={days}
+              type="button"
+              onClick={() => setWindowDays(days)}
+              className={`px-4 py-2 text-sm font-medium border border-gray-200 dark:border-gray-600 first:rounded-s-md last:rounded-e-md ${
+                windowDays === days
+                  ? 'bg-primary-600 text-white border-primary-600'
+                  : 'bg-white text-gray-700 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+              }`}
+            >
+              {t('subscriptions.lifecycle.window').replace('{days}', String(days))}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <ExportButton
+            filename="renewals"
+            subtitle={t('subscriptions.lifecycle.renewalsTitle')}
+            columns={exportColumns}
+            loadRows={async () => renewals}
+          />
+          <RefreshButton onClick={() => void loadLifecycle()} loading={isLoading} />
+        </div>
+      </div>
+
+      {loadError && (
+        <div className="p-3 rounded-md bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300 text-sm">{loadError}</div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('subscriptions.lifecycle.summary.count')}</p>
+          <p className="text-2xl font-semibold text-gray-900 dark:text-white">{renewals.length.toLocaleString(undefined, withLatinDigits())}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('subscriptions.lifecycle.summary.expectedUsd')}</p>
+          <p className="text-2xl font-semibold text-gray-900 dark:text-white">{formatUsd(expectedUsd)}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('subscriptions.lifecycle.summary.expectedIqd')}</p>
+          <p className="text-2xl font-semibold text-gray-900 dark:text-white">{formatIqd(expectedUsd * usdToIqdRate)}</p>
+          <p className="text-xs text-gray-400 mt-1">{t('subscriptions.lifecycle.summary.rate').replace('{rate}', usdToIqdRate.toLocaleString(undefined, withLatinDigits()))}</p>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">{t('subscriptions.lifecycle.renewalsTitle')}</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
+              <tr>
+                <th className="px-6 py-3 text-center">{t('subscriptions.subscriptions.table.companyName')}</th>
+                <th className="px-6 py-3 text-center">{t('subscriptions.subscriptions.table.plan')}</th>
+                <th className="px-6 py-3 text-center">{t('subscriptions.subscriptions.table.endDate')}</th>
+                <th className="px-6 py-3 text-center">{t('subscriptions.lifecycle.table.daysLeft')}</th>
+                <th className="px-6 py-3 text-center">{t('subscriptions.lifecycle.table.cycle')}</th>
+                <th className="px-6 py-3 text-center">{t('subscriptions.lifecycle.table.expectedUsd')}</th>
+                <th className="px-6 py-3 text-center">{t('subscriptions.lifecycle.table.expectedIqd')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-4 text-center">
+                    <LoadingSpinner />
+                  </td>
+                </tr>
+              ) : renewals.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
+                    {t('subscriptions.lifecycle.noRenewals')}
+                  </td>
+                </tr>
+              ) : (
+                renewals.map((row) => (
+                  <tr key={row.subscriptionId} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
+                    <td className="px-6 py-4 text-center font-medium text-gray-900 whitespace-nowrap dark:text-white">
+                      <button
+                        type="button"
+                        onClick={() => setSelectedCompanyId(row.companyId)}
+                        className="text-primary-600 dark:text-primary-400 hover:underline"
+                      >
+                        {row.companyName}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 text-center">
+                      {planName(row.planId)}
+                      {row.isTrial && (
+                        <span className="ms-2 px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300">
+                          {t('subscriptions.lifecycle.event.trial')}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-center">{row.endDate}</td>
+                    <td className="px-6 py-4 text-center">{row.daysLeft}</td>
+                    <td className="px-6 py-4 text-center">{t(`subscriptions.lifecycle.cycle.${row.cycle}`)}</td>
+                    <td className="px-6 py-4 text-center">{formatUsd(row.expectedUsd)}</td>
+                    <td className="px-6 py-4 text-center">{formatIqd(row.expectedUsd * usdToIqdRate)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{t('subscriptions.lifecycle.timelineTitle')}</h3>
+          <select
+            value={selectedCompanyId ?? ''}
+            onChange={(e) => setSelectedCompanyId(e.target.value ? Number(e.target.value) : null)}
+            className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-primary-500 focus:border-primary-500 p-2 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            <option value="">{t('subscriptions.lifecycle.selectCompany')}</option>
+            {companies.map((company) => (
+              <option key={company.id} value={company.id}>{company.name}</option>
+            ))}
+          </select>
+        </div>
+        {selectedCompanyId == null ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('subscriptions.lifecycle.selectCompanyHint')}</p>
+        ) : timeline.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('subscriptions.lifecycle.noEvents')}</p>
+        ) : (
+          <ol className="relative border-s border-gray-200 dark:border-gray-700 ms-2">
+            {timeline.map((event, index) => {
+              const view = renderEvent(event);
+              return (
+                <li key={`${event.kind}-${event.date}-${index}`} className="mb-5 ms-5">
+                  <span className={`absolute -start-1.5 mt-1.5 w-3 h-3 rounded-full ${view.dot}`} />
+                  <time className="text-xs text-gray-400">{event.date}</time>
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">{view.title}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{view.detail}</p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SUBSCRIPTIONS_TAB_IDS = ['plans', 'subscriptions', 'payments', 'invoices', 'dunning', 'coupons', 'lifecycle'];
+
+const Subscriptions: React.FC = () => {
   const { t } = useI18n();
+  const [searchParams] = useSearchParams();
   const [activeTab, setActiveTab] = useState(() => {
+    const linked = searchParams.get('tab');
+    if (linked && SUBSCRIPTIONS_TAB_IDS.includes(linked)) return linked;
     return localStorage.getItem('subscriptions_activeTab') || 'plans';
   });
   
@@ -1143,6 +1508,9 @@ const Subscriptions: React.FC<SubscriptionsProps> = ({ tenants }) => {
     { id: 'subscriptions', label: t('subscriptions.tabs.subscriptions') || 'Subscriptions' },
     { id: 'payments', label: t('subscriptions.tabs.payments') },
     { id: 'invoices', label: t('subscriptions.tabs.invoices') },
+    { id: 'dunning', label: t('subscriptions.tabs.dunning') },
+    { id: 'coupons', label: t('subscriptions.tabs.coupons') },
+    { id: 'lifecycle', label: t('subscriptions.tabs.lifecycle') },
   ];
 
   return (
@@ -1166,10 +1534,13 @@ const Subscriptions: React.FC<SubscriptionsProps> = ({ tenants }) => {
         </nav>
       </div>
       
-      {activeTab === 'plans' && <PlansTab tenants={tenants} />}
-      {activeTab === 'subscriptions' && <SubscriptionsTab tenants={tenants} />}
+      {activeTab === 'plans' && <PlansTab />}
+      {activeTab === 'subscriptions' && <SubscriptionsTab />}
       {activeTab === 'payments' && <PaymentsTab />}
       {activeTab === 'invoices' && <InvoicesTab />}
+      {activeTab === 'dunning' && <DunningPanel />}
+      {activeTab === 'coupons' && <CouponsPanel />}
+      {activeTab === 'lifecycle' && <LifecycleTab />}
     </div>
   );
 };
@@ -1,20 +1,45 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { useSearchParams } from 'react-router';
 import Icon from '../components/Icon';
 import FilterButton from '../components/FilterButton';
 import RefreshButton from '../components/RefreshButton';
 import { useI18n } from '../context/i18n';
+import { useUser } from '../context/UserContext';
+import { useAlert } from '../context/AlertContext';
+import { useRealtimeEvent } from '../hooks/useRealtime';
 import {
-  getSupportTicketsAPI,
+  getAllSupportTicketsAPI,
   updateSupportTicketStatusAPI,
+  updateSupportTicketAPI,
   deleteSupportTicketAPI,
+  getLimitedAdminsAPI,
+  getSystemSettingsAPI,
 } from '../services/api';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { withLatinDigits } from '../utils/latinNumerals';
+import { translateAdminApiError } from '../utils/translateApiError';
 import SupportTicketsFilterDrawer, {
   SupportTicketsFilters,
   supportTicketsFilterDefaults,
 } from '../components/SupportTicketsFilterDrawer';
 import { hasActiveFilters as filtersAreActive } from '../components/filters';
+import ExportButton from '../components/ExportButton';
+import SupportTicketThread from '../components/SupportTicketThread';
+import TicketSlaReport from '../components/TicketSlaReport';
+import { ExportColumn, createExportDateFormatter } from '../utils/exportData';
+import { SupportTicket, TicketCategory, TicketPriority, TicketSlaTargets } from '../types';
+import {
+  DEFAULT_TICKET_SLA_TARGETS,
+  TICKET_CATEGORIES,
+  TICKET_PRIORITIES,
+  TICKET_PRIORITY_STYLES,
+  TICKET_SLA_STATES,
+  TICKET_SLA_STATE_STYLES,
+  computeTicketSla,
+  formatSlaDuration,
+  normalizeSlaTargets,
+  ticketPriority,
+} from '../utils/ticketSla';
 
 const STATUS_OPTIONS = [
   { value: 'open', labelKey: 'tickets.status.open', className: 'bg-amber-100 text-amber-900 dark:bg-amber-900/50 dark:text-amber-100 border-amber-300 dark:border-amber-700' },
@@ -31,35 +56,127 @@ const dateInRange = (dateStr: string | undefined | null, fromDate: string, toDat
   return true;
 };
 
+interface TicketFilterContext {
+  userId: number | null;
+  slaTargets: TicketSlaTargets;
+  now: Date;
+}
+
+const ticketMatchesFilters = (ticket: any, filters: SupportTicketsFilters, context: TicketFilterContext): boolean => {
+  const searchTerm = filters.search.trim().toLowerCase();
+  if (searchTerm) {
+    const haystack = `${ticket.title || ''} ${ticket.company_name || ''} ${ticket.description || ''}`.toLowerCase();
+    if (!haystack.includes(searchTerm)) return false;
+  }
+  if (filters.status && (ticket.status || 'open') !== filters.status) return false;
+  if (filters.assignee) {
+    const assignee = ticket.assigned_to ?? null;
+    if (filters.assignee === 'unassigned' ? assignee != null : filters.assignee === 'me' ? assignee == null || assignee !== context.userId : String(assignee) !== filters.assignee) {
+      return false;
+    }
+  }
+  if (filters.priority && ticketPriority(ticket) !== filters.priority) return false;
+  if (filters.sla && computeTicketSla(ticket, context.slaTargets, context.now).state !== filters.sla) return false;
+  const dateValue = ticket.created_at || ticket.updated_at;
+  if (!dateInRange(dateValue, filters.fromDate, filters.toDate)) return false;
+  return true;
+};
+
 const SupportTickets: React.FC = () => {
   const { t, language } = useI18n();
+  const { user, can, canAccessCompany, scopedCompanyIds } = useUser();
+  const { showAlert } = useAlert();
+  const userId = user?.id ?? null;
+  const canWrite = can('supportTickets', 'write');
+  const canDelete = can('supportTickets', 'delete');
   const [tickets, setTickets] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [updatingId, setUpdatingId] = useState<number | null>(null);
   const [deletingId, setDeletingId] = useState<number | null>(null);
   const [ticketToDelete, setTicketToDelete] = useState<any | null>(null);
   const [selectedTicket, setSelectedTicket] = useState<any | null>(null);
+  const [triageSavingId, setTriageSavingId] = useState<number | null>(null);
+  const [slaTargets, setSlaTargets] = useState<TicketSlaTargets>(DEFAULT_TICKET_SLA_TARGETS);
+  const [admins, setAdmins] = useState<{ id: number; username: string }[]>([]);
+  const [showSlaReport, setShowSlaReport] = useState(false);
+  // SLA countdowns and states are derived from the clock; refresh them every minute
+  const [now, setNow] = useState(() => new Date());
   const [openStatusDropdownId, setOpenStatusDropdownId] = useState<number | null>(null);
   const statusDropdownRef = useRef<HTMLDivElement>(null);
-  const [filters, setFilters] = useState<SupportTicketsFilters>(supportTicketsFilterDefaults);
+  const [searchParams] = useSearchParams();
+  const [filters, setFilters] = useState<SupportTicketsFilters>(() => ({
+    ...supportTicketsFilterDefaults,
+    search: searchParams.get('q') || '',
+    assignee: searchParams.get('assignee') || '',
+  }));
   const [isFilterDrawerOpen, setIsFilterDrawerOpen] = useState(false);
 
-  const loadTickets = useCallback(async () => {
-    setLoading(true);
+  /**
+   * Every page, since the SLA report, the "My tickets" count and the filters all run client-side.
+   * `silent` refreshes in place (realtime resync) instead of swapping the table for a spinner.
+   */
+  const loadTickets = useCallback(async (silent = false) => {
+    if (!silent) setLoading(true);
     try {
-      const res = await getSupportTicketsAPI();
+      const res = await getAllSupportTicketsAPI({ company__in: scopedCompanyIds });
       setTickets(res.results || []);
     } catch {
       setTickets([]);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [scopedCompanyIds]);
 
   useEffect(() => {
     loadTickets();
   }, [loadTickets]);
 
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 60_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Both are optional for this page: admins without settings or admin-list access get default
+  // targets and an assignee list built from the loaded tickets
+  useEffect(() => {
+    getSystemSettingsAPI()
+      .then((data) => setSlaTargets(normalizeSlaTargets(data?.ticket_sla_targets)))
+      .catch(() => setSlaTargets(DEFAULT_TICKET_SLA_TARGETS));
+    getLimitedAdminsAPI()
+      .then((res) =>
+        setAdmins(
+          (res.results || [])
+            .filter((admin) => admin.is_active)
+            .map((admin) => ({ id: admin.user.id, username: admin.user.username })),
+        ),
+      )
+      .catch(() => setAdmins([]));
+  }, []);
+
+  useRealtimeEvent(['ticket.created', 'ticket.status_changed', 'ticket.message_created', 'resync'], (event) => {
+    if (event.type === 'resync') {
+      void loadTickets(true);
+    } else if (event.type === 'ticket.created') {
+      const ticket = event.ticket;
+      if (ticket.company != null && !canAccessCompany(Number(ticket.company))) return;
+      setTickets((prev) => (prev.some((row) => row.id === ticket.id) ? prev : [ticket, ...prev]));
+    } else if (event.type === 'ticket.message_created') {
+      // The open thread patches the selected ticket itself; only the table row is updated here
+      const { ticket_id, ticket_status, message } = event;
+      setTickets((prev) =>
+        prev.map((row) =>
+          row.id === ticket_id
+            ? { ...row, status: ticket_status ?? row.status, last_message_at: message.created_at ?? row.last_message_at }
+            : row
+        )
+      );
+    } else {
+      const patch = (row: any) => (row.id === event.ticket_id ? { ...row, status: event.status } : row);
+      setTickets((prev) => prev.map(patch));
+      setSelectedTicket((prev: any | null) => (prev ? patch(prev) : prev));
+    }
+  });
+
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
       if (statusDropdownRef.current && !statusDropdownRef.current.contains(e.target as Node)) {
@@ -83,6 +200,38 @@ const SupportTickets: React.FC = () => {
     }
   };
 
+  const applyTicketPatch = (id: number, changes: Partial<SupportTicket>) => {
+    const patch = (row: any) => (row.id === id ? { ...row, ...changes } : row);
+    setTickets((prev) => prev.map(patch));
+    setSelectedTicket((prev: any | null) => (prev ? patch(prev) : prev));
+  };
+
+  const handleTriageChange = async (
+    id: number,
+    changes: { priority?: TicketPriority; category?: TicketCategory | null; assigned_to?: number | null },
+  ) => {
+    setTriageSavingId(id);
+    try {
+      const updated = await updateSupportTicketAPI(id, changes);
+      const assignedName =
+        changes.assigned_to === undefined
+          ? undefined
+          : changes.assigned_to == null
+          ? null
+          : assigneeOptions.find((opt) => opt.value === String(changes.assigned_to))?.label ?? null;
+      applyTicketPatch(id, {
+        ...changes,
+        ...(assignedName !== undefined ? { assigned_to_username: assignedName } : {}),
+        ...(updated && typeof updated === 'object' ? updated : {}),
+      });
+    } catch (error) {
+      console.error('Error updating ticket:', error);
+      showAlert(translateAdminApiError(error, t) || t('tickets.triageError'), { variant: 'error' });
+    } finally {
+      setTriageSavingId(null);
+    }
+  };
+
   const handleDeleteConfirm = async () => {
     if (!ticketToDelete) return;
     const id = ticketToDelete.id as number;
@@ -108,19 +257,16 @@ const SupportTickets: React.FC = () => {
     return t('tickets.status.open');
   };
 
+  const filterContext = useMemo<TicketFilterContext>(() => ({ userId, slaTargets, now }), [userId, slaTargets, now]);
+
   const filteredTickets = useMemo(() => {
-    return tickets.filter((ticket) => {
-      const searchTerm = filters.search.trim().toLowerCase();
-      if (searchTerm) {
-        const haystack = `${ticket.title || ''} ${ticket.company_name || ''} ${ticket.description || ''}`.toLowerCase();
-        if (!haystack.includes(searchTerm)) return false;
-      }
-      if (filters.status && (ticket.status || 'open') !== filters.status) return false;
-      const dateValue = ticket.created_at || ticket.updated_at;
-      if (!dateInRange(dateValue, filters.fromDate, filters.toDate)) return false;
-      return true;
-    });
-  }, [tickets, filters]);
+    return tickets.filter((ticket) => ticketMatchesFilters(ticket, filters, filterContext));
+  }, [tickets, filters, filterContext]);
+
+  const myOpenCount = useMemo(
+    () => tickets.filter((ticket) => userId != null && ticket.assigned_to === userId && ticket.status !== 'closed').length,
+    [tickets, userId],
+  );
 
   const filtersActive = useMemo(
     () => filtersAreActive(filters, supportTicketsFilterDefaults),
@@ -132,6 +278,64 @@ const SupportTickets: React.FC = () => {
     [t],
   );
 
+  const priorityOptions = useMemo(
+    () => TICKET_PRIORITIES.map((priority) => ({ value: priority, label: t(`tickets.priority.${priority}`) })),
+    [t],
+  );
+
+  const slaOptions = useMemo(
+    () => TICKET_SLA_STATES.map((state) => ({ value: state, label: t(`tickets.sla.state.${state}`) })),
+    [t],
+  );
+
+  /** Limited admins, plus anyone already assigned to a loaded ticket (e.g. a super admin). */
+  const assigneeOptions = useMemo(() => {
+    const byId = new Map<number, string>();
+    admins.forEach((admin) => byId.set(admin.id, admin.username));
+    if (userId != null && user?.username && !byId.has(userId)) byId.set(userId, user.username);
+    tickets.forEach((ticket) => {
+      if (ticket.assigned_to != null && !byId.has(ticket.assigned_to)) {
+        byId.set(ticket.assigned_to, ticket.assigned_to_username || `#${ticket.assigned_to}`);
+      }
+    });
+    return Array.from(byId, ([id, username]) => ({ value: String(id), label: username })).sort((a, b) =>
+      a.label.localeCompare(b.label),
+    );
+  }, [admins, tickets, userId, user?.username]);
+
+  const getSlaCell = (ticket: any) => {
+    const sla = computeTicketSla(ticket, slaTargets, now);
+    let detail = '';
+    if (sla.remainingMs != null) {
+      const duration = formatSlaDuration(sla.remainingMs, t);
+      const template = sla.remainingMs < 0 ? 'tickets.sla.overdueBy' : 'tickets.sla.dueIn';
+      detail = `${t(`tickets.sla.phase.${sla.phase}`)}: ${t(template).replace('{duration}', duration)}`;
+    }
+    return { sla, detail };
+  };
+
+  const exportColumns = useMemo<ExportColumn<any>[]>(() => {
+    const formatDateTime = createExportDateFormatter(language, true);
+    return [
+      { key: 'id', label: '#', value: (ticket) => ticket.id },
+      { key: 'company', label: t('tickets.company'), value: (ticket) => ticket.company_name },
+      { key: 'sender', label: t('tickets.sender'), value: (ticket) => ticket.created_by_username },
+      { key: 'subject', label: t('tickets.subject'), value: (ticket) => ticket.title },
+      { key: 'description', label: t('tickets.description'), value: (ticket) => ticket.description },
+      { key: 'status', label: t('tickets.statusLabel'), value: (ticket) => getStatusLabel(ticket.status) },
+      { key: 'priority', label: t('tickets.priority'), value: (ticket) => t(`tickets.priority.${ticketPriority(ticket)}`) },
+      { key: 'category', label: t('tickets.category'), value: (ticket) => (ticket.category ? t(`tickets.category.${ticket.category}`) : '') },
+      { key: 'assignee', label: t('tickets.assignee'), value: (ticket) => ticket.assigned_to_username || '' },
+      { key: 'sla', label: t('tickets.sla.label'), value: (ticket) => t(`tickets.sla.state.${computeTicketSla(ticket, slaTargets).state}`) },
+      { key: 'createdAt', label: t('tickets.date'), value: (ticket) => formatDateTime(ticket.created_at) },
+      { key: 'updatedAt', label: t('tickets.updatedAt'), value: (ticket) => formatDateTime(ticket.updated_at) },
+    ];
+  }, [t, language, slaTargets]);
+
+  const loadExportRows = async () => {
+    return tickets.filter((ticket) => ticketMatchesFilters(ticket, filters, { userId, slaTargets, now: new Date() }));
+  };
+
   const handleApplyFilters = (next: SupportTicketsFilters) => {
     setFilters(next);
     setIsFilterDrawerOpen(false);
@@ -142,6 +346,7 @@ const SupportTickets: React.FC = () => {
   };
 
   const isRtl = language === 'ar';
+  const selectedSla = selectedTicket ? getSlaCell(selectedTicket) : null;
 
   return (
     <div className="space-y-4">
@@ -150,16 +355,60 @@ const SupportTickets: React.FC = () => {
           {t('tickets.title')}
         </h1>
         <div className={`flex items-center gap-2 ${isRtl ? 'flex-row-reverse' : ''}`}>
+          <button
+            type="button"
+            onClick={() => setShowSlaReport((value) => !value)}
+            aria-pressed={showSlaReport}
+            className={`inline-flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium border transition-colors ${
+              showSlaReport
+                ? 'bg-primary-50 border-primary-300 text-primary-700 dark:bg-primary-900/30 dark:border-primary-700 dark:text-primary-300'
+                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-700'
+            }`}
+          >
+            <Icon name="reports" className="w-4 h-4" />
+            {t('tickets.slaReport.toggle')}
+          </button>
           <FilterButton
             onClick={() => setIsFilterDrawerOpen(true)}
             hasActiveFilters={filtersActive}
           >
             {t('tickets.filters.open')}
           </FilterButton>
-          <RefreshButton onClick={loadTickets} loading={loading} />
+          <ExportButton
+            filename="support-tickets"
+            subtitle={t('tickets.title')}
+            columns={exportColumns}
+            loadRows={loadExportRows}
+            filtersActive={filtersActive}
+          />
+          <RefreshButton onClick={() => loadTickets()} loading={loading} />
         </div>
       </div>
 
+      <div className="inline-flex rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-1" role="tablist">
+        {([
+          { id: 'all', label: t('tickets.view.all'), active: filters.assignee !== 'me' },
+          { id: 'me', label: t('tickets.view.mine').replace('{count}', String(myOpenCount)), active: filters.assignee === 'me' },
+        ] as const).map((view) => (
+          <button
+            key={view.id}
+            type="button"
+            role="tab"
+            aria-selected={view.active}
+            onClick={() => setFilters((prev) => ({ ...prev, assignee: view.id === 'me' ? 'me' : '' }))}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+              view.active
+                ? 'bg-primary-600 text-white'
+                : 'text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+            }`}
+          >
+            {view.label}
+          </button>
+        ))}
+      </div>
+
+      {showSlaReport && <TicketSlaReport tickets={filteredTickets} targets={slaTargets} now={now} />}
+
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden border border-gray-200 dark:border-gray-700">
         {loading ? (
           <div className="flex justify-center py-12">
@@ -187,6 +436,15 @@ const SupportTickets: React.FC = () => {
                   <th scope="col" className="px-6 py-3">
                     {t('tickets.subject')}
                   </th>
+                  <th scope="col" className="px-6 py-3">
+                    {t('tickets.priority')}
+                  </th>
+                  <th scope="col" className="px-6 py-3">
+                    {t('tickets.assignee')}
+                  </th>
+                  <th scope="col" className="px-6 py-3">
+                    {t('tickets.sla.label')}
+                  </th>
                   <th scope="col" className="px-6 py-3">
                     {t('tickets.date')}
                   </th>
@@ -199,10 +457,18 @@ const SupportTickets: React.FC = () => {
                 </tr>
               </thead>
               <tbody>
-                {filteredTickets.map((ticket) => (
+                {filteredTickets.map((ticket) => {
+                  const { sla, detail: slaDetail } = getSlaCell(ticket);
+                  const overdue = sla.phase != null && sla.state === 'breached';
+                  const priority = ticketPriority(ticket);
+                  return (
                   <tr
                     key={ticket.id}
-                    className="bg-white dark:bg-gray-800 border-b dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    className={`border-b dark:border-gray-700 ${
+                      overdue
+                        ? 'bg-red-50/70 dark:bg-red-900/10 hover:bg-red-100/70 dark:hover:bg-red-900/20'
+                        : 'bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
                   >
                     <td className="px-6 py-3 font-medium text-gray-900 dark:text-white whitespace-nowrap">
                       {ticket.company_name ?? '—'}
@@ -219,6 +485,30 @@ const SupportTickets: React.FC = () => {
                         {ticket.title}
                       </button>
                     </td>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <span className={`inline-block px-2 py-0.5 text-xs font-semibold rounded ${TICKET_PRIORITY_STYLES[priority]}`}>
+                        {t(`tickets.priority.${priority}`)}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {ticket.assigned_to != null ? (
+                        <span className={ticket.assigned_to === userId ? 'font-medium text-primary-700 dark:text-primary-300' : ''}>
+                          {ticket.assigned_to_username || `#${ticket.assigned_to}`}
+                        </span>
+                      ) : (
+                        <span className="italic">{t('tickets.unassigned')}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <span className={`inline-block px-2 py-0.5 text-xs font-semibold rounded ${TICKET_SLA_STATE_STYLES[sla.state]}`}>
+                        {t(`tickets.sla.state.${sla.state}`)}
+                      </span>
+                      {slaDetail && (
+                        <p className={`mt-0.5 text-[11px] ${overdue ? 'text-red-700 dark:text-red-300 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>
+                          {slaDetail}
+                        </p>
+                      )}
+                    </td>
                     <td className="px-6 py-3 text-gray-500 dark:text-gray-400 whitespace-nowrap">
                       {ticket.created_at
                         ? new Date(ticket.created_at).toLocaleDateString(language === 'ar' ? 'ar-EG' : 'en-US', withLatinDigits())
@@ -232,7 +522,7 @@ const SupportTickets: React.FC = () => {
                         <button
                           type="button"
                           onClick={() => updatingId !== ticket.id && setOpenStatusDropdownId((id) => (id === ticket.id ? null : ticket.id))}
-                          disabled={updatingId === ticket.id}
+                          disabled={updatingId === ticket.id || !canWrite}
                           className={`inline-flex items-center justify-between gap-1.5 w-full text-sm font-medium rounded border px-2 py-1.5 ${getStatusStyle(ticket.status || 'open')} ${isRtl ? 'flex-row-reverse' : ''} disabled:opacity-60`}
                         >
                           <span>{getStatusLabel(ticket.status || 'open')}</span>
@@ -269,6 +559,7 @@ const SupportTickets: React.FC = () => {
                         >
                           <Icon name="eye" className="w-5 h-5" />
                         </button>
+                        {canDelete && (
                         <button
                           type="button"
                           onClick={() => setTicketToDelete(ticket)}
@@ -279,10 +570,12 @@ const SupportTickets: React.FC = () => {
                         >
                           <Icon name="trash" className="w-5 h-5" />
                         </button>
+                        )}
                       </div>
                     </td>
                   </tr>
-                ))}
+                  );
+                })}
               </tbody>
             </table>
           </div>
@@ -296,6 +589,9 @@ const SupportTickets: React.FC = () => {
         onApply={handleApplyFilters}
         onReset={handleResetFilters}
         statusOptions={statusFilterOptions}
+        assigneeOptions={assigneeOptions}
+        priorityOptions={priorityOptions}
+        slaOptions={slaOptions}
       />
 
       {selectedTicket && (
@@ -307,7 +603,7 @@ const SupportTickets: React.FC = () => {
           aria-labelledby="ticket-detail-title"
         >
           <div
-            className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-gray-200/50 dark:border-gray-700/50"
+            className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col border border-gray-200/50 dark:border-gray-700/50"
             onClick={(e) => e.stopPropagation()}
           >
             <div className="px-5 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-start gap-3 flex-shrink-0">
@@ -334,6 +630,76 @@ const SupportTickets: React.FC = () => {
                   </p>
                 </div>
               </section>
+              <section>
+                <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-3">
+                  {t('tickets.triage')}
+                </h3>
+                <fieldset disabled={!canWrite || triageSavingId === selectedTicket.id} className="grid grid-cols-1 sm:grid-cols-3 gap-3 disabled:opacity-70">
+                  <div>
+                    <label htmlFor="ticket-triage-assignee" className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                      {t('tickets.assignee')}
+                    </label>
+                    <select
+                      id="ticket-triage-assignee"
+                      value={selectedTicket.assigned_to != null ? String(selectedTicket.assigned_to) : ''}
+                      onChange={(e) => handleTriageChange(selectedTicket.id, { assigned_to: e.target.value ? Number(e.target.value) : null })}
+                      className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2.5 py-2 text-sm text-gray-900 dark:text-gray-100"
+                    >
+                      <option value="">{t('tickets.unassigned')}</option>
+                      {assigneeOptions.map((opt) => (
+                        <option key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="ticket-triage-priority" className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                      {t('tickets.priority')}
+                    </label>
+                    <select
+                      id="ticket-triage-priority"
+                      value={ticketPriority(selectedTicket)}
+                      onChange={(e) => handleTriageChange(selectedTicket.id, { priority: e.target.value as TicketPriority })}
+                      className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2.5 py-2 text-sm text-gray-900 dark:text-gray-100"
+                    >
+                      {priorityOptions.map((opt) => (
+                        <option key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="ticket-triage-category" className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                      {t('tickets.category')}
+                    </label>
+                    <select
+                      id="ticket-triage-category"
+                      value={selectedTicket.category || ''}
+                      onChange={(e) => handleTriageChange(selectedTicket.id, { category: (e.target.value || null) as TicketCategory | null })}
+                      className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2.5 py-2 text-sm text-gray-900 dark:text-gray-100"
+                    >
+                      <option value="">{t('tickets.category.none')}</option>
+                      {TICKET_CATEGORIES.map((category) => (
+                        <option key={category} value={category}>
+                          {t(`tickets.category.${category}`)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </fieldset>
+                {selectedSla && (
+                  <p className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                    <span className={`inline-block px-2 py-0.5 text-xs font-semibold rounded ${TICKET_SLA_STATE_STYLES[selectedSla.sla.state]}`}>
+                      {t(`tickets.sla.state.${selectedSla.sla.state}`)}
+                    </span>
+                    {selectedSla.detail && (
+                      <span className={selectedSla.sla.state === 'breached' ? 'text-red-700 dark:text-red-300 font-medium' : ''}>{selectedSla.detail}</span>
+                    )}
+                  </p>
+                )}
+              </section>
               <section>
                 <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-3">
                   {t('tickets.details') || 'Details'}
@@ -422,7 +788,14 @@ const SupportTickets: React.FC = () => {
                   </div>
                 </section>
               )}
+              <SupportTicketThread
+                ticketId={selectedTicket.id}
+                companyId={selectedTicket.company != null ? Number(selectedTicket.company) : null}
+                canReply={canWrite}
+                onTicketUpdate={(changes) => applyTicketPatch(selectedTicket.id, changes)}
+              />
             </div>
+            {canDelete && (
             <div className="px-5 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end flex-shrink-0">
               <button
                 type="button"
@@ -433,6 +806,7 @@ const SupportTickets: React.FC = () => {
                 {t('tickets.delete') || 'Delete'}
               </button>
             </div>
+            )}
           </div>
         </div>
       )}
@@ -1,20 +1,29 @@
 
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router';
 import Icon from '../components/Icon';
 import RefreshButton from '../components/RefreshButton';
-import { SystemBackup, LimitedAdmin } from '../types';
+import { SystemBackup, LimitedAdmin, AdminRole, TicketPriority, TicketSlaTargets } from '../types';
 import { useI18n } from '../context/i18n';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { useAuditLog } from '../context/AuditLogContext';
 import { useAlert } from '../context/AlertContext';
 import { useUser } from '../context/UserContext';
 import { translateAdminApiError } from '../utils/translateApiError';
-import { buildUpdateDiff } from '../utils/buildUpdateDiff';
+import { buildUpdateDiff, buildAuditChanges } from '../utils/buildUpdateDiff';
 import { messageFromParsedErrorBody } from '../services/api';
 import LimitedAdminModal from '../components/LimitedAdminModal';
+import AuditLogExplorer from '../components/AuditLogExplorer';
+import RolesPanel from '../components/RolesPanel';
+import CannedResponsesPanel from '../components/CannedResponsesPanel';
+import WhatsAppTemplatesManager from '../components/WhatsAppTemplatesManager';
+import ImpersonationHistoryPanel from '../components/ImpersonationHistoryPanel';
 import AlertDialog from '../components/AlertDialog';
-import { getSystemBackupsAPI, createSystemBackupAPI, deleteSystemBackupAPI, restoreSystemBackupAPI, getSystemBackupDownloadResponse, getSystemSettingsAPI, updateSystemSettingsAPI, getPlatformTwilioSettingsAPI, updatePlatformTwilioSettingsAPI, getPlatformWhatsAppSettingsAPI, updatePlatformWhatsAppSettingsAPI, getLimitedAdminsAPI, createLimitedAdminAPI, updateLimitedAdminAPI, deleteLimitedAdminAPI, toggleLimitedAdminActiveAPI, getCompaniesAPI, getPhoneOtpRequirementAPI, updatePhoneOtpRequirementAPI, getRegistrationEmailRequirementAPI, updateRegistrationEmailRequirementAPI, type PhoneOtpChannel, getBillingSettingsAPI, updateBillingSettingsAPI } from '../services/api';
+import { getSystemBackupsAPI, createSystemBackupAPI, deleteSystemBackupAPI, restoreSystemBackupAPI, getSystemBackupDownloadResponse, getSystemSettingsAPI, updateSystemSettingsAPI, getPlatformTwilioSettingsAPI, updatePlatformTwilioSettingsAPI, getPlatformWhatsAppSettingsAPI, updatePlatformWhatsAppSettingsAPI, getLimitedAdminsAPI, getAllAdminRolesAPI, createLimitedAdminAPI, updateLimitedAdminAPI, deleteLimitedAdminAPI, toggleLimitedAdminActiveAPI, revokeAllSessionsAPI, getCompaniesAPI, getPhoneOtpRequirementAPI, updatePhoneOtpRequirementAPI, getRegistrationEmailRequirementAPI, updateRegistrationEmailRequirementAPI, type PhoneOtpChannel, getBillingSettingsAPI, updateBillingSettingsAPI } from '../services/api';
 import { withLatinDigits } from '../utils/latinNumerals';
+import { mapApiRole } from '../utils/permissions';
+import { DEFAULT_IMPERSONATION_MAX_MINUTES, DEFAULT_IMPERSONATION_MINUTES, IMPERSONATION_DURATION_OPTIONS } from '../utils/impersonation';
+import { DEFAULT_TICKET_SLA_TARGETS, TICKET_PRIORITIES, formatSlaDuration, normalizeSlaTargets } from '../utils/ticketSla';
 
 type BackupSchedule = 'daily' | 'weekly' | 'monthly';
 
@@ -749,6 +758,8 @@ const FeaturesControlSettings: React.FC = () => {
 const SecurityBackups: React.FC = () => {
     const { t, language } = useI18n();
     const { addLog } = useAuditLog();
+    const { can, canAction } = useUser();
+    const canWriteSettings = can('settings', 'write');
     const [backupStatus, setBackupStatus] = useState<'idle' | 'in-progress'>('idle');
     const [backups, setBackups] = useState<SystemBackup[]>([]);
     const [backupSchedule, setBackupSchedule] = useState<BackupSchedule>(() => loadStoredSchedule());
@@ -975,7 +986,7 @@ const SecurityBackups: React.FC = () => {
                 <select
                     value={backupSchedule}
                     onChange={handleScheduleChange}
-                    disabled={scheduleSaving}
+                    disabled={scheduleSaving || !canWriteSettings}
                     className="max-w-lg w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-800 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-60 disabled:cursor-not-allowed"
                 >
                     {scheduleOptions.map(option => (
@@ -989,6 +1000,7 @@ const SecurityBackups: React.FC = () => {
             <div className="border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-4 bg-white dark:bg-gray-900/40">
                 <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
                 <div className="flex items-center space-x-4 rtl:space-x-reverse">
+                    {canWriteSettings && (
                     <button 
                         onClick={handleBackupNow}
                         disabled={backupStatus === 'in-progress'}
@@ -1003,6 +1015,7 @@ const SecurityBackups: React.FC = () => {
                             t('settings.security.backupNow')
                         )}
                     </button>
+                    )}
                 </div>
                  <div>
                         <h4 className="text-sm font-medium text-gray-600 dark:text-gray-300">{t('settings.security.lastBackup')}:</h4>
@@ -1062,6 +1075,7 @@ const SecurityBackups: React.FC = () => {
                                                     >
                                                         <Icon name="download" className="w-5 h-5" />
                                                     </button>
+                                                    {canAction('restoreBackup') && (
                                                     <button
                                                         onClick={() => handleRestoreBackup(backup)}
                                                         disabled={restoringId === backup.id}
@@ -1076,6 +1090,8 @@ const SecurityBackups: React.FC = () => {
                                                             <Icon name="restore" className="w-5 h-5" />
                                                         )}
                                                     </button>
+                                                    )}
+                                                    {can('settings', 'delete') && (
                                                     <button
                                                         onClick={() => handleDeleteBackup(backup)}
                                                         disabled={restoringId === backup.id}
@@ -1084,6 +1100,7 @@ const SecurityBackups: React.FC = () => {
                                                     >
                                                         <Icon name="trash" className="w-5 h-5" />
                                                     </button>
+                                                    )}
                                                 </div>
                                             </td>
                                         </tr>
@@ -1216,7 +1233,7 @@ const TwilioSmsSettings: React.FC = () => {
                 return;
             }
             await updatePlatformTwilioSettingsAPI(diff);
-            addLog('audit.log.twilioSettingsSaved');
+            addLog('audit.log.twilioSettingsSaved', {}, { changes: buildAuditChanges(loadedSettings ?? {}, diff) });
             setFeedback({ type: 'success', message: t('settings.twilio.saveSuccess') || 'Twilio settings saved.' });
             setAuthToken('');
             setLoadedSettings({
@@ -1417,7 +1434,7 @@ const PlatformWhatsAppSettingsPanel: React.FC = () => {
                 return;
             }
             await updatePlatformWhatsAppSettingsAPI(diff);
-            addLog('audit.log.platformWhatsappSaved');
+            addLog('audit.log.platformWhatsappSaved', {}, { changes: buildAuditChanges(loadedSettings ?? {}, diff) });
             setFeedback({ type: 'success', message: t('settings.platformWhatsapp.saveSuccess') });
             setAccessToken('');
             setLoadedSettings({
@@ -1510,6 +1527,8 @@ const PlatformWhatsAppSettingsPanel: React.FC = () => {
                         </div>
                     </div>
 
+                    <WhatsAppTemplatesManager />
+
                     <div className="border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-4 bg-white dark:bg-gray-900/40">
                         <div>
                             <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
@@ -1869,73 +1888,505 @@ const LoginLockoutSettings: React.FC = () => {
     );
 };
 
-const AuditLog: React.FC = () => {
-    const { t, language } = useI18n();
-    const { logs } = useAuditLog();
-    const [currentPage, setCurrentPage] = useState(1);
-    const ITEMS_PER_PAGE = 10;
+/** Lock must leave room for the one-minute warning countdown. */
+const MIN_IDLE_TIMEOUT_MINUTES = 2;
 
-    const paginatedLogs = useMemo(() => {
-        const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-        return logs.slice(startIndex, startIndex + ITEMS_PER_PAGE);
-    }, [logs, currentPage]);
+const IdleTimeoutSettings: React.FC = () => {
+    const { t } = useI18n();
+    const { addLog } = useAuditLog();
+    const [enabled, setEnabled] = useState(false);
+    const [minutes, setMinutes] = useState(15);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
 
-    const totalPages = Math.ceil(logs.length / ITEMS_PER_PAGE);
-    
-    const formatAction = (action: { key: string; params: Record<string, string | number> }) => {
-        let message = t(action.key);
-        if (!message) return action.key;
+    const loadSettings = async () => {
+        setIsLoading(true);
+        try {
+            const data = await getSystemSettingsAPI();
+            setEnabled(data.idle_timeout_enabled === true);
+            setMinutes(Math.max(MIN_IDLE_TIMEOUT_MINUTES, Number(data.idle_timeout_minutes) || 15));
+        } catch (error: any) {
+            setFeedback({ type: 'error', message: translateAdminApiError(error, t) || t('settings.idleTimeout.loadError') });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadSettings();
+    }, []);
 
-        for (const key in action.params) {
-            message = message.replace(`{${key}}`, String(action.params[key]));
+    useEffect(() => {
+        if (!feedback) return;
+        const timer = setTimeout(() => setFeedback(null), 6000);
+        return () => clearTimeout(timer);
+    }, [feedback]);
+
+    const handleSave = async () => {
+        const value = Math.max(MIN_IDLE_TIMEOUT_MINUTES, Math.floor(Number(minutes) || MIN_IDLE_TIMEOUT_MINUTES));
+        setIsSaving(true);
+        setFeedback(null);
+        try {
+            const data = await updateSystemSettingsAPI({
+                idle_timeout_enabled: enabled,
+                idle_timeout_minutes: value,
+            });
+            setEnabled(data.idle_timeout_enabled === true);
+            setMinutes(Math.max(MIN_IDLE_TIMEOUT_MINUTES, Number(data.idle_timeout_minutes) || value));
+            addLog('audit.log.idleTimeoutUpdated', {
+                state: enabled ? t('common.enabled') : t('common.disabled'),
+                minutes: String(value),
+            });
+            setFeedback({ type: 'success', message: t('settings.idleTimeout.saveSuccess') });
+        } catch (error: any) {
+            setFeedback({ type: 'error', message: translateAdminApiError(error, t) || t('settings.idleTimeout.saveError') });
+        } finally {
+            setIsSaving(false);
         }
-        return message;
     };
 
-    return(
-    <div className="space-y-6">
-        <h3 className="text-xl font-semibold">{t('settings.audit.title')}</h3>
-        <div className="overflow-x-auto">
-            <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
-                <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
-                    <tr>
-                        <th className="px-6 py-3 text-center">{t('settings.audit.table.user')}</th>
-                        <th className="px-6 py-3 text-center">{t('settings.audit.table.action')}</th>
-                        <th className="px-6 py-3 text-center">{t('settings.audit.table.timestamp')}</th>
-                    </tr>
-                </thead>
-                <tbody>
-                    {paginatedLogs.map(log => (
-                        <tr key={log.id} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700">
-                            <td className="px-6 py-4 text-center font-mono">{log.user}</td>
-                            <td className="px-6 py-4 text-center">{formatAction(log.action)}</td>
-                            <td className="px-6 py-4 text-center">{new Date(log.timestamp).toLocaleString(language === 'ar' ? 'ar-EG' : 'en-US', withLatinDigits({ dateStyle: 'medium', timeStyle: 'short' }))}</td>
-                        </tr>
-                    ))}
-                </tbody>
-            </table>
+    return (
+        <div className="space-y-6">
+            <div>
+                <h3 className="text-xl font-semibold text-gray-900 dark:text-white">{t('settings.idleTimeout.title')}</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t('settings.idleTimeout.description')}</p>
+            </div>
+            {feedback && (
+                <div className={`p-3 rounded-md text-sm ${feedback.type === 'success' ? 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-200' : 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200'}`}>
+                    {feedback.message}
+                </div>
+            )}
+            {isLoading ? (
+                <div className="flex items-center gap-2 text-gray-500"><LoadingSpinner /><span>{t('common.loading') || 'Loading...'}</span></div>
+            ) : (
+                <div className="space-y-6 max-w-xl">
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            id="idle-timeout-enabled"
+                            checked={enabled}
+                            onChange={(e) => setEnabled(e.target.checked)}
+                            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        <label htmlFor="idle-timeout-enabled" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                            {t('settings.idleTimeout.enabledLabel')}
+                        </label>
+                    </div>
+                    <div className={enabled ? '' : 'opacity-60'}>
+                        <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300" htmlFor="idle-timeout-minutes">
+                            {t('settings.idleTimeout.minutes')}
+                        </label>
+                        <input
+                            id="idle-timeout-minutes"
+                            type="number"
+                            min={MIN_IDLE_TIMEOUT_MINUTES}
+                            disabled={!enabled}
+                            value={minutes}
+                            onChange={(e) => setMinutes(Number(e.target.value))}
+                            className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-800 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        />
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('settings.idleTimeout.minutesHint')}</p>
+                    </div>
+                    <div>
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="px-5 py-2.5 bg-primary-600 text-white rounded-lg text-sm font-semibold flex items-center justify-center transition-colors hover:bg-primary-700 disabled:bg-primary-400 dark:disabled:bg-primary-800 disabled:cursor-wait shadow-sm"
+                        >
+                            {isSaving ? <><LoadingSpinner /><span className="mx-2">{t('settings.general.saving') || 'Saving...'}</span></> : (t('settings.general.save') || 'Save Changes')}
+                        </button>
+                    </div>
+                </div>
+            )}
         </div>
-        {totalPages > 1 && (
-            <nav className="flex items-center justify-between pt-4" aria-label="Table navigation">
-                <span className="text-sm font-normal text-gray-500 dark:text-gray-400">{t('settings.security.pagination.page')} <span className="font-semibold text-gray-900 dark:text-white">{currentPage}</span> {t('settings.security.pagination.of')} <span className="font-semibold text-gray-900 dark:text-white">{totalPages}</span></span>
-                <div className="flex space-x-2 rtl:space-x-reverse">
-                    <button onClick={() => setCurrentPage(p => Math.max(1, p - 1))} disabled={currentPage === 1} className="px-3 py-1 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-100 hover:text-gray-700 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white disabled:opacity-50 disabled:cursor-not-allowed">
-                        {t('settings.security.pagination.previous')}
-                    </button>
-                    <button onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))} disabled={currentPage === totalPages} className="px-3 py-1 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-100 hover:text-gray-700 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white disabled:opacity-50 disabled:cursor-not-allowed">
-                        {t('settings.security.pagination.next')}
-                    </button>
+    );
+};
+
+const ImpersonationSettings: React.FC = () => {
+    const { t } = useI18n();
+    const { addLog } = useAuditLog();
+    const { can } = useUser();
+    const [defaultMinutes, setDefaultMinutes] = useState(DEFAULT_IMPERSONATION_MINUTES);
+    const [maxMinutes, setMaxMinutes] = useState(DEFAULT_IMPERSONATION_MAX_MINUTES);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    const canWrite = can('settings', 'write');
+
+    const loadSettings = async () => {
+        setIsLoading(true);
+        try {
+            const data = await getSystemSettingsAPI();
+            setDefaultMinutes(Number(data.impersonation_default_minutes) || DEFAULT_IMPERSONATION_MINUTES);
+            setMaxMinutes(Number(data.impersonation_max_minutes) || DEFAULT_IMPERSONATION_MAX_MINUTES);
+        } catch (error: any) {
+            setFeedback({ type: 'error', message: translateAdminApiError(error, t) || t('settings.impersonation.loadError') });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadSettings();
+    }, []);
+
+    useEffect(() => {
+        if (!feedback) return;
+        const timer = setTimeout(() => setFeedback(null), 6000);
+        return () => clearTimeout(timer);
+    }, [feedback]);
+
+    const formatDuration = (value: number) =>
+        value % 60 === 0
+            ? t('impersonation.hours').replace('{count}', String(value / 60))
+            : t('impersonation.minutes').replace('{count}', String(value));
+
+    const handleSave = async () => {
+        if (defaultMinutes > maxMinutes) {
+            setFeedback({ type: 'error', message: t('settings.impersonation.defaultAboveMax') });
+            return;
+        }
+        setIsSaving(true);
+        setFeedback(null);
+        try {
+            const data = await updateSystemSettingsAPI({
+                impersonation_default_minutes: defaultMinutes,
+                impersonation_max_minutes: maxMinutes,
+            });
+            setDefaultMinutes(Number(data.impersonation_default_minutes) || defaultMinutes);
+            setMaxMinutes(Number(data.impersonation_max_minutes) || maxMinutes);
+            addLog('audit.log.impersonationSettingsUpdated', {
+                defaultDuration: formatDuration(defaultMinutes),
+                maxDuration: formatDuration(maxMinutes),
+            });
+            setFeedback({ type: 'success', message: t('settings.impersonation.saveSuccess') });
+        } catch (error: any) {
+            setFeedback({ type: 'error', message: translateAdminApiError(error, t) || t('settings.impersonation.saveError') });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const selectClasses = "w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-800 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500";
+
+    return (
+        <div className="space-y-8">
+            <div className="space-y-6">
+                <div>
+                    <h3 className="text-xl font-semibold text-gray-900 dark:text-white">{t('settings.impersonation.title')}</h3>
+                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t('settings.impersonation.description')}</p>
                 </div>
-            </nav>
-        )}
-    </div>
-)};
+                {feedback && (
+                    <div className={`p-3 rounded-md text-sm ${feedback.type === 'success' ? 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-200' : 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200'}`}>
+                        {feedback.message}
+                    </div>
+                )}
+                {isLoading ? (
+                    <div className="flex items-center gap-2 text-gray-500"><LoadingSpinner /><span>{t('common.loading') || 'Loading...'}</span></div>
+                ) : (
+                    <fieldset disabled={!canWrite} className="space-y-6 max-w-xl">
+                        <div>
+                            <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300" htmlFor="impersonation-default-minutes">
+                                {t('settings.impersonation.defaultMinutes')}
+                            </label>
+                            <select
+                                id="impersonation-default-minutes"
+                                value={defaultMinutes}
+                                onChange={(e) => setDefaultMinutes(Number(e.target.value))}
+                                className={selectClasses}
+                            >
+                                {IMPERSONATION_DURATION_OPTIONS.map((value) => (
+                                    <option key={value} value={value}>{formatDuration(value)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300" htmlFor="impersonation-max-minutes">
+                                {t('settings.impersonation.maxMinutes')}
+                            </label>
+                            <select
+                                id="impersonation-max-minutes"
+                                value={maxMinutes}
+                                onChange={(e) => setMaxMinutes(Number(e.target.value))}
+                                className={selectClasses}
+                            >
+                                {IMPERSONATION_DURATION_OPTIONS.map((value) => (
+                                    <option key={value} value={value}>{formatDuration(value)}</option>
+                                ))}
+                            </select>
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('settings.impersonation.maxMinutesHint')}</p>
+                        </div>
+                        {canWrite && (
+                            <div>
+                                <button
+                                    onClick={handleSave}
+                                    disabled={isSaving}
+                                    className="px-5 py-2.5 bg-primary-600 text-white rounded-lg text-sm font-semibold flex items-center justify-center transition-colors hover:bg-primary-700 disabled:bg-primary-400 dark:disabled:bg-primary-800 disabled:cursor-wait shadow-sm"
+                                >
+                                    {isSaving ? <><LoadingSpinner /><span className="mx-2">{t('settings.general.saving') || 'Saving...'}</span></> : (t('settings.general.save') || 'Save Changes')}
+                                </button>
+                            </div>
+                        )}
+                    </fieldset>
+                )}
+            </div>
+            <div className="pt-6 border-t border-gray-200 dark:border-gray-700">
+                <ImpersonationHistoryPanel />
+            </div>
+        </div>
+    );
+};
+
+const toHourFields = (targets: TicketSlaTargets) =>
+    TICKET_PRIORITIES.reduce((acc, priority) => {
+        acc[priority] = {
+            firstResponse: String(targets[priority].first_response_minutes / 60),
+            resolution: String(targets[priority].resolution_minutes / 60),
+        };
+        return acc;
+    }, {} as Record<TicketPriority, { firstResponse: string; resolution: string }>);
+
+const TicketSlaSettings: React.FC = () => {
+    const { t } = useI18n();
+    const { addLog } = useAuditLog();
+    // Edited in hours; stored in minutes
+    const [hours, setHours] = useState<Record<TicketPriority, { firstResponse: string; resolution: string }>>(() => toHourFields(DEFAULT_TICKET_SLA_TARGETS));
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    const loadSettings = async () => {
+        setIsLoading(true);
+        try {
+            const data = await getSystemSettingsAPI();
+            setHours(toHourFields(normalizeSlaTargets(data.ticket_sla_targets)));
+        } catch (error: any) {
+            setFeedback({ type: 'error', message: translateAdminApiError(error, t) || t('settings.ticketSla.loadError') });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadSettings();
+    }, []);
+
+    useEffect(() => {
+        if (!feedback) return;
+        const timer = setTimeout(() => setFeedback(null), 6000);
+        return () => clearTimeout(timer);
+    }, [feedback]);
+
+    const updateField = (priority: TicketPriority, field: 'firstResponse' | 'resolution', value: string) => {
+        setHours((prev) => ({ ...prev, [priority]: { ...prev[priority], [field]: value } }));
+    };
+
+    const handleSave = async () => {
+        const targets = {} as TicketSlaTargets;
+        for (const priority of TICKET_PRIORITIES) {
+            const firstResponse = Math.round(Number(hours[priority].firstResponse) * 60);
+            const resolution = Math.round(Number(hours[priority].resolution) * 60);
+            if (!(firstResponse > 0) || !(resolution > 0)) {
+                setFeedback({ type: 'error', message: t('settings.ticketSla.invalidValue') });
+                return;
+            }
+            if (firstResponse > resolution) {
+                setFeedback({ type: 'error', message: t('settings.ticketSla.firstResponseAboveResolution').replace('{priority}', t(`tickets.priority.${priority}`)) });
+                return;
+            }
+            targets[priority] = { first_response_minutes: firstResponse, resolution_minutes: resolution };
+        }
+        setIsSaving(true);
+        setFeedback(null);
+        try {
+            const data = await updateSystemSettingsAPI({ ticket_sla_targets: targets });
+            const saved = normalizeSlaTargets(data.ticket_sla_targets ?? targets);
+            setHours(toHourFields(saved));
+            addLog('audit.log.ticketSlaUpdated', {
+                targets: TICKET_PRIORITIES.map((priority) =>
+                    `${t(`tickets.priority.${priority}`)} ${formatSlaDuration(saved[priority].first_response_minutes * 60_000, t)} / ${formatSlaDuration(saved[priority].resolution_minutes * 60_000, t)}`
+                ).join(', '),
+            });
+            setFeedback({ type: 'success', message: t('settings.ticketSla.saveSuccess') });
+        } catch (error: any) {
+            setFeedback({ type: 'error', message: translateAdminApiError(error, t) || t('settings.ticketSla.saveError') });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const inputClasses = "w-28 px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-800 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500";
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h3 className="text-xl font-semibold text-gray-900 dark:text-white">{t('settings.ticketSla.title')}</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t('settings.ticketSla.description')}</p>
+            </div>
+            {feedback && (
+                <div className={`p-3 rounded-md text-sm ${feedback.type === 'success' ? 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-200' : 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200'}`}>
+                    {feedback.message}
+                </div>
+            )}
+            {isLoading ? (
+                <div className="flex items-center gap-2 text-gray-500"><LoadingSpinner /><span>{t('common.loading') || 'Loading...'}</span></div>
+            ) : (
+                <div className="space-y-6 max-w-xl">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                                <th className="py-2 text-start">{t('tickets.priority')}</th>
+                                <th className="py-2 text-start">{t('settings.ticketSla.firstResponseHours')}</th>
+                                <th className="py-2 text-start">{t('settings.ticketSla.resolutionHours')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {TICKET_PRIORITIES.map((priority) => (
+                                <tr key={priority} className="border-b border-gray-100 dark:border-gray-700 last:border-b-0">
+                                    <td className="py-2 font-medium text-gray-700 dark:text-gray-300">{t(`tickets.priority.${priority}`)}</td>
+                                    <td className="py-2">
+                                        <input
+                                            type="number"
+                                            min={0.25}
+                                            step={0.25}
+                                            aria-label={`${t(`tickets.priority.${priority}`)} — ${t('settings.ticketSla.firstResponseHours')}`}
+                                            value={hours[priority].firstResponse}
+                                            onChange={(e) => updateField(priority, 'firstResponse', e.target.value)}
+                                            className={inputClasses}
+                                        />
+                                    </td>
+                                    <td className="py-2">
+                                        <input
+                                            type="number"
+                                            min={0.25}
+                                            step={0.25}
+                                            aria-label={`${t(`tickets.priority.${priority}`)} — ${t('settings.ticketSla.resolutionHours')}`}
+                                            value={hours[priority].resolution}
+                                            onChange={(e) => updateField(priority, 'resolution', e.target.value)}
+                                            className={inputClasses}
+                                        />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.ticketSla.hint')}</p>
+                    <div>
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="px-5 py-2.5 bg-primary-600 text-white rounded-lg text-sm font-semibold flex items-center justify-center transition-colors hover:bg-primary-700 disabled:bg-primary-400 dark:disabled:bg-primary-800 disabled:cursor-wait shadow-sm"
+                        >
+                            {isSaving ? <><LoadingSpinner /><span className="mx-2">{t('settings.general.saving') || 'Saving...'}</span></> : (t('settings.general.save') || 'Save Changes')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const TwoFactorPolicySettings: React.FC = () => {
+    const { t } = useI18n();
+    const { addLog } = useAuditLog();
+    const [required, setRequired] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    const loadSettings = async () => {
+        setIsLoading(true);
+        try {
+            const data = await getSystemSettingsAPI();
+            setRequired(data.require_2fa_for_limited_admins === true);
+        } catch (error: any) {
+            setFeedback({ type: 'error', message: translateAdminApiError(error, t) || t('settings.twoFactor.loadError') });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadSettings();
+    }, []);
+
+    useEffect(() => {
+        if (!feedback) return;
+        const timer = setTimeout(() => setFeedback(null), 6000);
+        return () => clearTimeout(timer);
+    }, [feedback]);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setFeedback(null);
+        try {
+            const data = await updateSystemSettingsAPI({ require_2fa_for_limited_admins: required });
+            setRequired(data.require_2fa_for_limited_admins === true);
+            addLog('audit.log.twoFactorPolicyUpdated', {
+                state: required ? t('common.enabled') : t('common.disabled'),
+            });
+            setFeedback({ type: 'success', message: t('settings.twoFactor.saveSuccess') });
+        } catch (error: any) {
+            setFeedback({ type: 'error', message: translateAdminApiError(error, t) || t('settings.twoFactor.saveError') });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h3 className="text-xl font-semibold text-gray-900 dark:text-white">{t('settings.twoFactor.title')}</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{t('settings.twoFactor.description')}</p>
+            </div>
+            {feedback && (
+                <div className={`p-3 rounded-md text-sm ${feedback.type === 'success' ? 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-200' : 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200'}`}>
+                    {feedback.message}
+                </div>
+            )}
+            {isLoading ? (
+                <div className="flex items-center gap-2 text-gray-500"><LoadingSpinner /><span>{t('common.loading') || 'Loading...'}</span></div>
+            ) : (
+                <div className="space-y-6 max-w-xl">
+                    <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                id="require-2fa-limited-admins"
+                                checked={required}
+                                onChange={(e) => setRequired(e.target.checked)}
+                                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                            />
+                            <label htmlFor="require-2fa-limited-admins" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                                {t('settings.twoFactor.requiredLabel')}
+                            </label>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.twoFactor.requiredHint')}</p>
+                    </div>
+                    <div>
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="px-5 py-2.5 bg-primary-600 text-white rounded-lg text-sm font-semibold flex items-center justify-center transition-colors hover:bg-primary-700 disabled:bg-primary-400 dark:disabled:bg-primary-800 disabled:cursor-wait shadow-sm"
+                        >
+                            {isSaving ? <><LoadingSpinner /><span className="mx-2">{t('settings.general.saving') || 'Saving...'}</span></> : (t('settings.general.save') || 'Save Changes')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
 
 const LimitedAdmins: React.FC = () => {
     const { t, language } = useI18n();
     const { addLog } = useAuditLog();
     const { showAlert } = useAlert();
+    const { can } = useUser();
     const [limitedAdmins, setLimitedAdmins] = useState<LimitedAdmin[]>([]);
+    const [roles, setRoles] = useState<AdminRole[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingAdmin, setEditingAdmin] = useState<LimitedAdmin | null>(null);
@@ -1943,6 +2394,8 @@ const LimitedAdmins: React.FC = () => {
     const [adminToDelete, setAdminToDelete] = useState<LimitedAdmin | null>(null);
     const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
     const [isDeleting, setIsDeleting] = useState(false);
+    const [adminToSignOut, setAdminToSignOut] = useState<LimitedAdmin | null>(null);
+    const [isSigningOut, setIsSigningOut] = useState(false);
 
     useEffect(() => {
         loadLimitedAdmins();
@@ -1951,8 +2404,9 @@ const LimitedAdmins: React.FC = () => {
     const loadLimitedAdmins = async () => {
         setIsLoading(true);
         try {
-            const response = await getLimitedAdminsAPI();
+            const [response, rolesResponse] = await Promise.all([getLimitedAdminsAPI(), getAllAdminRolesAPI()]);
             setLimitedAdmins((response.results ?? []) as LimitedAdmin[]);
+            setRoles((rolesResponse.results ?? []).map(mapApiRole));
         } catch (error) {
             console.error('Error loading limited admins:', error);
         } finally {
@@ -1987,6 +2441,7 @@ const LimitedAdmins: React.FC = () => {
                     can_manage_content: editingAdmin.can_manage_content,
                     can_manage_settings: editingAdmin.can_manage_settings,
                     can_manage_limited_admins: editingAdmin.can_manage_limited_admins,
+                    role: editingAdmin.role ?? null,
                 };
                 const next: Record<string, unknown> = {
                     first_name: adminData.first_name,
@@ -2001,6 +2456,7 @@ const LimitedAdmins: React.FC = () => {
                     can_manage_content: adminData.can_manage_content,
                     can_manage_settings: adminData.can_manage_settings,
                     can_manage_limited_admins: adminData.can_manage_limited_admins,
+                    role: adminData.role ?? null,
                 };
                 if (adminData.password?.trim()) {
                     next.password = adminData.password.trim();
@@ -2011,7 +2467,9 @@ const LimitedAdmins: React.FC = () => {
                     return;
                 }
                 await updateLimitedAdminAPI(editingAdmin.id, diff);
-                addLog('audit.log.limitedAdminUpdated', { adminName: `${adminData.first_name} ${adminData.last_name}` });
+                addLog('audit.log.limitedAdminUpdated', { adminName: `${adminData.first_name} ${adminData.last_name}` }, {
+                    changes: buildAuditChanges(initial, diff),
+                });
             } else {
                 await createLimitedAdminAPI(adminData);
                 addLog('audit.log.limitedAdminCreated', { adminName: `${adminData.first_name} ${adminData.last_name}` });
@@ -2054,6 +2512,22 @@ const LimitedAdmins: React.FC = () => {
         }
     };
 
+    const handleSignOutEverywhere = async () => {
+        if (!adminToSignOut) return;
+        setIsSigningOut(true);
+        try {
+            await revokeAllSessionsAPI({ user: adminToSignOut.user.id });
+            addLog('audit.log.sessionsRevokedAll', { username: adminToSignOut.user.username });
+            showAlert(t('account.sessions.revokeSuccess'), { variant: 'success' });
+            setAdminToSignOut(null);
+        } catch (error: any) {
+            console.error('Error revoking limited admin sessions:', error);
+            showAlert(translateAdminApiError(error, t) || t('account.sessions.revokeError'), { variant: 'error' });
+        } finally {
+            setIsSigningOut(false);
+        }
+    };
+
     return (
         <div className="space-y-6">
             <div className="flex justify-between items-center">
@@ -2062,6 +2536,7 @@ const LimitedAdmins: React.FC = () => {
                 </h3>
                 <div className="flex items-center gap-2">
                     <RefreshButton onClick={() => void loadLimitedAdmins()} loading={isLoading} />
+                    {can('limitedAdmins', 'write') && (
                     <button
                         onClick={() => handleOpenModal()}
                         className="bg-primary-600 text-white px-4 py-2 rounded-md hover:bg-primary-700 flex items-center gap-2"
@@ -2069,6 +2544,7 @@ const LimitedAdmins: React.FC = () => {
                         <Icon name="plus" className="w-5 h-5" />
                         {t('limitedAdmins.add') || 'Add Limited Admin'}
                     </button>
+                    )}
                 </div>
             </div>
 
@@ -2117,6 +2593,12 @@ const LimitedAdmins: React.FC = () => {
                                         </td>
                                         <td className="px-6 py-4 text-center">
                                             <div className="flex flex-wrap gap-1 justify-center">
+                                                {admin.role != null ? (
+                                                    <span className="px-2 py-1 text-xs bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-300 rounded">
+                                                        {admin.role_name || roles.find(role => role.id === admin.role)?.name || t('limitedAdmins.table.role')}
+                                                    </span>
+                                                ) : (
+                                                <>
                                                 {admin.can_view_dashboard && (
                                                     <span className="px-2 py-1 text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300 rounded">
                                                         {t('limitedAdmins.permissions.viewDashboard') || 'Dashboard'}
@@ -2145,10 +2627,14 @@ const LimitedAdmins: React.FC = () => {
                                                 }).filter(Boolean).length === 0 && (
                                                     <span className="text-xs text-gray-400">{t('limitedAdmins.noPermissions') || 'No permissions'}</span>
                                                 )}
+                                                </>
+                                                )}
                                             </div>
                                         </td>
                                         <td className="px-6 py-4 text-center">
                                             <div className="flex items-center justify-center gap-2">
+                                                {can('limitedAdmins', 'write') && (
+                                                <>
                                                 <button
                                                     onClick={() => handleOpenModal(admin)}
                                                     className="p-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
@@ -2165,6 +2651,16 @@ const LimitedAdmins: React.FC = () => {
                                                     />
                                                     <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 dark:peer-focus:ring-primary-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-primary-600"></div>
                                                 </label>
+                                                <button
+                                                    onClick={() => setAdminToSignOut(admin)}
+                                                    className="p-2 text-amber-600 hover:text-amber-800 dark:text-amber-400 dark:hover:text-amber-300"
+                                                    title={t('account.sessions.signOutEverywhere')}
+                                                >
+                                                    <Icon name="logout" className="w-5 h-5" />
+                                                </button>
+                                                </>
+                                                )}
+                                                {can('limitedAdmins', 'delete') && (
                                                 <button
                                                     onClick={() => {
                                                         setAdminToDelete(admin);
@@ -2175,6 +2671,7 @@ const LimitedAdmins: React.FC = () => {
                                                 >
                                                     <Icon name="trash" className="w-5 h-5" />
                                                 </button>
+                                                )}
                                             </div>
                                         </td>
                                     </tr>
@@ -2191,6 +2688,7 @@ const LimitedAdmins: React.FC = () => {
                 onSave={handleSave}
                 editingAdmin={editingAdmin}
                 isLoading={isSaving}
+                roles={roles}
             />
 
             <AlertDialog
@@ -2207,6 +2705,19 @@ const LimitedAdmins: React.FC = () => {
                 showCancel
                 cancelText={t('common.cancel')}
             />
+
+            <AlertDialog
+                isOpen={adminToSignOut !== null}
+                onClose={() => !isSigningOut && setAdminToSignOut(null)}
+                title={t('account.sessions.signOutEverywhere')}
+                message={t('account.sessions.confirmRevokeAllFor').replace('{username}', adminToSignOut?.user.username || '')}
+                type="warning"
+                confirmText={isSigningOut ? t('common.loading') : t('account.sessions.revoke')}
+                onConfirm={handleSignOutEverywhere}
+                showCancel
+                cancelText={t('common.cancel')}
+                disabled={isSigningOut}
+            />
         </div>
     );
 };
@@ -2401,18 +2912,25 @@ const BillingInvoiceSettings: React.FC = () => {
 const SystemSettings: React.FC = () => {
     const { t, language } = useI18n();
     const { addLog } = useAuditLog();
-    const { isSuperAdmin, hasPermission } = useUser();
+    const { isSuperAdmin, hasPermission, can } = useUser();
 
     // Limited Admins tab only for super admin or users with can_manage_limited_admins (not for edit-settings-only)
     const canSeeLimitedAdmins = isSuperAdmin() || hasPermission('can_manage_limited_admins');
+    // The 2FA policy applies to limited admins, so only a super admin may change it
+    const canSeeTwoFactorPolicy = isSuperAdmin();
 
     const SETTINGS_TAB_STORAGE_KEY = 'systemSettings.activeTab';
+    const [searchParams] = useSearchParams();
 
-    // Load saved tab from localStorage or default to 'general'
+    // Deep links (`/settings?tab=audit`) win over the tab saved in localStorage; default to 'general'
     const loadSavedTab = (): string => {
         if (typeof window === 'undefined') return 'general';
+        const validTabs = ['general', 'integrations', 'features', 'security', 'twilio', 'platformWhatsapp', 'registrationOtp', 'idleTimeout', 'impersonation', 'ticketSla', 'cannedResponses', 'twoFactor', 'limitedAdmins', 'roles', 'audit', 'billing'];
+        const linked = searchParams.get('tab');
+        if (linked && validTabs.includes(linked)) {
+            return linked;
+        }
         const saved = localStorage.getItem(SETTINGS_TAB_STORAGE_KEY);
-        const validTabs = ['general', 'integrations', 'features', 'security', 'twilio', 'platformWhatsapp', 'registrationOtp', 'limitedAdmins', 'audit', 'billing'];
         if (saved && validTabs.includes(saved)) {
             return saved;
         }
@@ -2423,11 +2941,17 @@ const SystemSettings: React.FC = () => {
 
     // If user cannot see Limited Admins, switch away from that tab when they don't have permission
     useEffect(() => {
-        if (!canSeeLimitedAdmins && activeSetting === 'limitedAdmins') {
+        if (!canSeeLimitedAdmins && (activeSetting === 'limitedAdmins' || activeSetting === 'roles')) {
             setActiveSetting('general');
         }
     }, [canSeeLimitedAdmins, activeSetting]);
 
+    useEffect(() => {
+        if (!canSeeTwoFactorPolicy && activeSetting === 'twoFactor') {
+            setActiveSetting('general');
+        }
+    }, [canSeeTwoFactorPolicy, activeSetting]);
+
     // Save tab to localStorage when it changes
     useEffect(() => {
         if (typeof window !== 'undefined') {
@@ -2444,13 +2968,24 @@ const SystemSettings: React.FC = () => {
         { id: 'platformWhatsapp', label: t('settings.menu.platformWhatsapp') || 'Platform WhatsApp' },
         { id: 'registrationOtp', label: t('settings.menu.registrationOtp') || 'Registration OTP' },
         { id: 'loginLockout', label: t('settings.menu.loginLockout') || 'Login Lockout' },
+        { id: 'idleTimeout', label: t('settings.menu.idleTimeout') },
+        { id: 'impersonation', label: t('settings.menu.impersonation') },
+        { id: 'ticketSla', label: t('settings.menu.ticketSla') },
+        { id: 'cannedResponses', label: t('settings.menu.cannedResponses') },
+        ...(canSeeTwoFactorPolicy ? [{ id: 'twoFactor' as const, label: t('settings.menu.twoFactor') }] : []),
         ...(canSeeLimitedAdmins ? [{ id: 'limitedAdmins' as const, label: t('settings.menu.limitedAdmins') || 'Limited Admins' }] : []),
+        ...(canSeeLimitedAdmins ? [{ id: 'roles' as const, label: t('settings.menu.roles') }] : []),
         { id: 'audit', label: t('settings.menu.audit') },
         { id: 'billing', label: t('settings.menu.billing') || 'Billing' },
     ];
 
+    // Configuration tabs render read-only for a role with only read access to settings; the
+    // admins, roles, audit, backups, impersonation and canned responses tabs gate their own buttons
+    const SELF_GATED_TABS = ['security', 'impersonation', 'cannedResponses', 'limitedAdmins', 'roles', 'audit'];
+    const isReadOnlySetting = !can('settings', 'write') && !SELF_GATED_TABS.includes(activeSetting);
+
     const renderSetting = () => {
-        if (activeSetting === 'limitedAdmins' && !canSeeLimitedAdmins) {
+        if (((activeSetting === 'limitedAdmins' || activeSetting === 'roles') && !canSeeLimitedAdmins) || (activeSetting === 'twoFactor' && !canSeeTwoFactorPolicy)) {
             return <GeneralSettings />;
         }
         switch (activeSetting) {
@@ -2462,8 +2997,14 @@ const SystemSettings: React.FC = () => {
             case 'platformWhatsapp': return <PlatformWhatsAppSettingsPanel />;
             case 'registrationOtp': return <RegistrationOtpSettings />;
             case 'loginLockout': return <LoginLockoutSettings />;
+            case 'idleTimeout': return <IdleTimeoutSettings />;
+            case 'impersonation': return <ImpersonationSettings />;
+            case 'ticketSla': return <TicketSlaSettings />;
+            case 'cannedResponses': return <CannedResponsesPanel />;
+            case 'twoFactor': return <TwoFactorPolicySettings />;
             case 'limitedAdmins': return <LimitedAdmins />;
-            case 'audit': return <AuditLog />;
+            case 'roles': return <RolesPanel />;
+            case 'audit': return <AuditLogExplorer />;
             case 'billing': return <BillingInvoiceSettings />;
             default: return <GeneralSettings />;
         }
@@ -2491,7 +3032,16 @@ const SystemSettings: React.FC = () => {
                     </nav>
                 </aside>
                 <div className="flex-1 bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md">
-                   {renderSetting()}
+                   {isReadOnlySetting ? (
+                       <>
+                           <p className="mb-4 p-3 text-sm rounded-md bg-amber-50 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+                               {t('settings.readOnly')}
+                           </p>
+                           <fieldset disabled>{renderSetting()}</fieldset>
+                       </>
+                   ) : (
+                       renderSetting()
+                   )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,734 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router';
+import Icon from '../components/Icon';
+import RefreshButton from '../components/RefreshButton';
+import LoadingSpinner from '../components/LoadingSpinner';
+import ChangePlanModal from '../components/ChangePlanModal';
+import ImpersonationHistoryPanel from '../components/ImpersonationHistoryPanel';
+import { AuditLog, DunningCase, DunningSchedule, Invoice, Payment, Tenant, TenantStatus } from '../types';
+import { useI18n } from '../context/i18n';
+import { useUser } from '../context/UserContext';
+import { mapApiAuditLog } from '../context/AuditLogContext';
+import { useRealtimeEvent } from '../hooks/useRealtime';
+import {
+    getCompanyAPI,
+    getSubscriptionsForCompaniesAPI,
+    getPlansAPI,
+    getAllPaymentsAPI,
+    getAllInvoicesAPI,
+    getAllSupportTicketsAPI,
+    getAdminTenantWhatsAppMessagesAPI,
+    getSystemSettingsAPI,
+    getSystemAuditLogsAPI,
+    getAllDunningCasesAPI,
+    getDunningScheduleAPI,
+    isApiNotFoundError,
+} from '../services/api';
+import { mapCompaniesToTenants, type ApiPlanRow } from '../utils/tenantMapping';
+import {
+    mapApiPayment,
+    mapApiInvoice,
+    invoiceStatusLabelKey,
+    paymentStatusColors,
+    invoicePaymentStatusColors,
+} from '../utils/billingMapping';
+import {
+    DEFAULT_DUNNING_SCHEDULE,
+    currentDunningStep,
+    dunningStatusColors,
+    mapApiDunningCase,
+    mapApiDunningSchedule,
+    nextDunningStep,
+} from '../utils/dunning';
+import { translateAdminApiError } from '../utils/translateApiError';
+import { withLatinDigits } from '../utils/latinNumerals';
+
+/** Rows shown per card; each card links to the full, pre-filtered page. */
+const PREVIEW_LIMIT = 5;
+
+const statusColors: { [key in TenantStatus]: string } = {
+    [TenantStatus.Active]: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+    [TenantStatus.Trial]: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+    [TenantStatus.Expired]: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+    [TenantStatus.Deactivated]: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const ticketStatusColors: Record<string, string> = {
+    open: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+    in_progress: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+    closed: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const FEATURE_LABEL_KEYS: Record<string, string> = {
+    field_visit: 'settings.features.platform.fieldVisit',
+};
+
+type SectionKey = 'subscriptions' | 'dunning' | 'payments' | 'invoices' | 'tickets' | 'whatsapp' | 'policies' | 'audit';
+
+type SubscriptionRow = {
+    id: number;
+    planName: string;
+    startDate: string;
+    endDate: string;
+    isActive: boolean;
+};
+
+type WhatsAppRow = { id: number; direction: string; body: string; created_at: string };
+
+type PolicyOverrideRow = {
+    kind: 'integration' | 'feature';
+    key: string;
+    enabled: boolean;
+    globalEnabled: boolean;
+    message: string;
+};
+
+type PolicyMap = Record<string, {
+    global_enabled?: boolean;
+    company_overrides?: Record<string, { enabled?: boolean; message?: string }>;
+}>;
+
+/** Overrides in `integration_policies` / `feature_policies` that name this company. */
+const collectPolicyOverrides = (
+    kind: PolicyOverrideRow['kind'],
+    policies: PolicyMap | undefined,
+    companyId: number,
+): PolicyOverrideRow[] =>
+    Object.entries(policies || {}).flatMap(([key, policy]) => {
+        const override = policy?.company_overrides?.[String(companyId)];
+        if (!override) return [];
+        return [{
+            kind,
+            key,
+            enabled: override.enabled !== false,
+            globalEnabled: policy.global_enabled !== false,
+            message: override.message || '',
+        }];
+    });
+
+const toDay = (value: unknown) => (value ? new Date(String(value)).toISOString().split('T')[0] : '');
+
+const byNewest = <T,>(getDate: (row: T) => string | undefined) => (a: T, b: T) =>
+    String(getDate(b) || '').localeCompare(String(getDate(a) || ''));
+
+const TenantDetail: React.FC = () => {
+    const { id } = useParams();
+    const companyId = Number(id);
+    const { t, language } = useI18n();
+    const { hasPermission, isSuperAdmin, can, canAction, canAccessCompany } = useUser();
+    const [tenant, setTenant] = useState<Tenant | null>(null);
+    const [notFound, setNotFound] = useState(false);
+    const [loadError, setLoadError] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [subscriptions, setSubscriptions] = useState<SubscriptionRow[]>([]);
+    const [payments, setPayments] = useState<Payment[]>([]);
+    const [invoices, setInvoices] = useState<Invoice[]>([]);
+    const [tickets, setTickets] = useState<any[]>([]);
+    const [messages, setMessages] = useState<WhatsAppRow[]>([]);
+    const [messageCount, setMessageCount] = useState(0);
+    const [policyOverrides, setPolicyOverrides] = useState<PolicyOverrideRow[]>([]);
+    const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
+    const [auditCount, setAuditCount] = useState(0);
+    const [sectionErrors, setSectionErrors] = useState<Partial<Record<SectionKey, boolean>>>({});
+    const [isChangePlanOpen, setIsChangePlanOpen] = useState(false);
+    const [dunningCases, setDunningCases] = useState<DunningCase[]>([]);
+    const [dunningSchedule, setDunningSchedule] = useState<DunningSchedule>(DEFAULT_DUNNING_SCHEDULE);
+
+    const locale = language === 'ar' ? 'ar-EG' : 'en-US';
+    const formatDate = (value?: string | null) =>
+        value ? new Date(value).toLocaleDateString(locale, withLatinDigits({ year: 'numeric', month: 'short', day: 'numeric' })) : '—';
+    const formatDateTime = (value?: string | null) =>
+        value ? new Date(value).toLocaleString(locale, withLatinDigits({ dateStyle: 'medium', timeStyle: 'short' })) : '—';
+    const formatUsd = (value: number) =>
+        `$${value.toLocaleString(undefined, withLatinDigits({ minimumFractionDigits: 2, maximumFractionDigits: 2 }))}`;
+
+    const canOpen = (permission: Parameters<typeof hasPermission>[0]) => isSuperAdmin() || hasPermission(permission);
+
+    const loadTenant = useCallback(async () => {
+        // A company outside the admin's role scope is treated like a missing one
+        if (!Number.isFinite(companyId) || companyId <= 0 || !canAccessCompany(companyId)) {
+            setNotFound(true);
+            setIsLoading(false);
+            return;
+        }
+        setIsLoading(true);
+        setLoadError('');
+        setNotFound(false);
+        let company: Record<string, unknown>;
+        try {
+            company = await getCompanyAPI(companyId);
+        } catch (error) {
+            if (isApiNotFoundError(error)) {
+                setNotFound(true);
+            } else {
+                console.error('Error loading company:', error);
+                setLoadError(translateAdminApiError(error, t) || t('tenants.detail.loadError'));
+            }
+            setTenant(null);
+            setIsLoading(false);
+            return;
+        }
+
+        // Each section loads on its own so one failing endpoint (or a missing permission) does not blank the page.
+        const [subsRes, plansRes, paymentsRes, invoicesRes, ticketsRes, messagesRes, settingsRes, auditRes, dunningRes, dunningScheduleRes] = await Promise.allSettled([
+            getSubscriptionsForCompaniesAPI([companyId]),
+            getPlansAPI(),
+            getAllPaymentsAPI({ subscription__company: companyId }),
+            getAllInvoicesAPI({ company: companyId }),
+            getAllSupportTicketsAPI({ company: companyId }),
+            getAdminTenantWhatsAppMessagesAPI(companyId, { page: 1, page_size: 50 }),
+            getSystemSettingsAPI(),
+            getSystemAuditLogsAPI({ company: companyId, page_size: PREVIEW_LIMIT }),
+            getAllDunningCasesAPI({ company: companyId, ordering: '-started_at' }),
+            getDunningScheduleAPI(),
+        ]);
+        const errors: Partial<Record<SectionKey, boolean>> = {};
+
+        const rawSubscriptions = subsRes.status === 'fulfilled' ? (subsRes.value.results || []) as any[] : [];
+        const plans = plansRes.status === 'fulfilled' ? (plansRes.value.results || []) as ApiPlanRow[] : [];
+        const planName = (planId: number) => {
+            const plan = plans.find((p) => p.id === planId);
+            return (language === 'ar' && plan?.name_ar?.trim() ? plan.name_ar : plan?.name) || `#${planId}`;
+        };
+        setTenant(mapCompaniesToTenants([company], rawSubscriptions, plans, language)[0] ?? null);
+        if (subsRes.status === 'rejected') errors.subscriptions = true;
+        setSubscriptions(
+            rawSubscriptions
+                .map((sub) => ({
+                    id: sub.id,
+                    planName: planName(sub.plan),
+                    startDate: toDay(sub.start_date),
+                    endDate: toDay(sub.end_date),
+                    isActive: Boolean(sub.is_active),
+                }))
+                .sort(byNewest((row) => row.startDate)),
+        );
+
+        // Filtered on the server; the checks below only guard against a backend that ignores the filter.
+        // Payments are linked through the subscription, invoices and tickets carry the company directly.
+        const subscriptionIds = new Set(rawSubscriptions.map((sub) => sub.id));
+        if (paymentsRes.status === 'fulfilled' && subsRes.status === 'fulfilled') {
+            setPayments(
+                (paymentsRes.value.results || [])
+                    .filter((p) => subscriptionIds.has(p.subscription))
+                    .map(mapApiPayment)
+                    .sort(byNewest((p) => p.date)),
+            );
+        } else {
+            errors.payments = true;
+            setPayments([]);
+        }
+        const belongsToCompany = (row: Record<string, unknown>) =>
+            row.company != null ? Number(row.company) === companyId : row.company_name === company.name;
+        if (invoicesRes.status === 'fulfilled') {
+            setInvoices(
+                (invoicesRes.value.results || [])
+                    .filter(belongsToCompany)
+                    .map(mapApiInvoice)
+                    .sort(byNewest((inv) => inv.createdAt || inv.dueDate)),
+            );
+        } else {
+            errors.invoices = true;
+            setInvoices([]);
+        }
+        if (ticketsRes.status === 'fulfilled') {
+            setTickets((ticketsRes.value.results || []).filter(belongsToCompany).sort(byNewest((row: any) => row.created_at)));
+        } else {
+            errors.tickets = true;
+            setTickets([]);
+        }
+
+        if (messagesRes.status === 'fulfilled') {
+            const rows = (messagesRes.value.results || []) as WhatsAppRow[];
+            setMessages(rows.slice(-PREVIEW_LIMIT));
+            setMessageCount(messagesRes.value.count ?? rows.length);
+        } else {
+            errors.whatsapp = true;
+            setMessages([]);
+            setMessageCount(0);
+        }
+
+        if (settingsRes.status === 'fulfilled') {
+            setPolicyOverrides([
+                ...collectPolicyOverrides('integration', settingsRes.value?.integration_policies, companyId),
+                ...collectPolicyOverrides('feature', settingsRes.value?.feature_policies, companyId),
+            ]);
+        } else {
+            errors.policies = true;
+            setPolicyOverrides([]);
+        }
+
+        if (auditRes.status === 'fulfilled') {
+            setAuditLogs((auditRes.value.results || []).map(mapApiAuditLog));
+            setAuditCount(auditRes.value.count ?? 0);
+        } else {
+            errors.audit = true;
+            setAuditLogs([]);
+            setAuditCount(0);
+        }
+
+        if (dunningRes.status === 'fulfilled') {
+            setDunningCases((dunningRes.value.results || []).map(mapApiDunningCase));
+        } else {
+            errors.dunning = true;
+            setDunningCases([]);
+        }
+        setDunningSchedule(dunningScheduleRes.status === 'fulfilled' ? mapApiDunningSchedule(dunningScheduleRes.value) : DEFAULT_DUNNING_SCHEDULE);
+
+        setSectionErrors(errors);
+        setIsLoading(false);
+    }, [companyId, language, t, canAccessCompany]);
+
+    useEffect(() => {
+        void loadTenant();
+    }, [loadTenant]);
+
+    // Tickets, WhatsApp messages and payments for this company refresh live; the page stays on screen while reloading
+    useRealtimeEvent(['ticket.created', 'ticket.status_changed', 'whatsapp.message_received', 'payment.succeeded', 'payment.failed'], (event) => {
+        const eventCompany = event.type === 'ticket.created' ? Number(event.ticket.company) : event.company_id;
+        if (eventCompany === companyId) void loadTenant();
+    });
+
+    const formatAction = (action: AuditLog['action']) => {
+        let message = t(action.key);
+        if (!message) return action.key;
+        for (const key in action.params) {
+            message = message.replace(`{${key}}`, String(action.params[key]));
+        }
+        return message;
+    };
+
+    const policyLabel = (row: PolicyOverrideRow) => {
+        const labelKey = row.kind === 'integration'
+            ? `settings.integrations.platform.${row.key}`
+            : FEATURE_LABEL_KEYS[row.key];
+        return (labelKey && t(labelKey)) || row.key;
+    };
+
+    const search = useMemo(() => encodeURIComponent(tenant?.name || ''), [tenant?.name]);
+
+    const renderSection = (
+        key: SectionKey,
+        title: string,
+        icon: string,
+        count: number,
+        link: { to: string; label: string; allowed: boolean } | null,
+        isEmpty: boolean,
+        emptyLabel: string,
+        children: React.ReactNode,
+    ) => (
+        <section className="bg-white dark:bg-gray-800 rounded-lg shadow-md flex flex-col">
+            <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+                <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+                    <Icon name={icon} className="w-4 h-4 text-gray-400" />
+                    {title}
+                    <span className="rounded-full bg-gray-100 dark:bg-gray-700 px-2 text-[11px] font-semibold text-gray-600 dark:text-gray-300">{count}</span>
+                </h2>
+                {link?.allowed && (
+                    <Link to={link.to} className="text-xs font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300">
+                        {link.label}
+                    </Link>
+                )}
+            </div>
+            <div className="flex-1">
+                {sectionErrors[key] ? (
+                    <p className="px-4 py-6 text-sm text-center text-red-600 dark:text-red-400">{t('tenants.detail.sectionError')}</p>
+                ) : isEmpty ? (
+                    <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">{emptyLabel}</p>
+                ) : (
+                    children
+                )}
+            </div>
+        </section>
+    );
+
+    const tableClasses = `w-full text-sm ${language === 'ar' ? 'text-right' : 'text-left'} text-gray-500 dark:text-gray-400`;
+    const headClasses = 'text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400';
+    const labelClasses = 'text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400';
+    const valueClasses = 'text-sm font-medium text-gray-900 dark:text-white break-words';
+
+    if (isLoading && !tenant) {
+        return (
+            <div className="flex justify-center py-16">
+                <LoadingSpinner size="lg" label={t('tenants.loading') || 'Loading'} />
+            </div>
+        );
+    }
+
+    if (notFound || loadError || !tenant) {
+        return (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md px-6 py-12 text-center space-y-4">
+                <p className="text-gray-600 dark:text-gray-300">{loadError || t('tenants.detail.notFound')}</p>
+                <Link to="/tenants" className="inline-flex items-center gap-1.5 text-sm font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400">
+                    {t('tenants.detail.back')}
+                </Link>
+            </div>
+        );
+    }
+
+    const status = tenant.status || TenantStatus.Deactivated;
+    const openDunningCase = dunningCases.find((c) => c.status === 'active' || c.status === 'paused');
+    const dunningStepLabel = (step?: { day: number; action: string }) =>
+        step
+            ? t('subscriptions.dunning.stepLabel')
+                .replace('{day}', String(step.day))
+                .replace('{action}', t(`subscriptions.dunning.action.${step.action}`))
+            : '—';
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                <div>
+                    <Link to="/tenants" className="text-sm font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300">
+                        {t('tenants.detail.back')}
+                    </Link>
+                    <div className="mt-1 flex flex-wrap items-center gap-3">
+                        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{tenant.name}</h1>
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusColors[status]}`}>{t(`status.${status}`)}</span>
+                        {openDunningCase && (
+                            <span className={`px-2 py-1 text-xs font-medium rounded-full ${dunningStatusColors[openDunningCase.status]}`}>
+                                {t('tenants.detail.inDunning')}
+                            </span>
+                        )}
+                    </div>
+                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                        {tenant.domain} · {tenant.currentPlan || t('dashboard.noPlan')}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    {can('subscriptions', 'write') && subscriptions.some((sub) => sub.isActive) && (
+                        <button
+                            type="button"
+                            onClick={() => setIsChangePlanOpen(true)}
+                            className="inline-flex h-9 items-center gap-1.5 px-3 text-sm font-semibold bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+                        >
+                            <Icon name="subscriptions" className="w-4 h-4" />
+                            {t('tenants.changePlan.open')}
+                        </button>
+                    )}
+                    <RefreshButton onClick={() => void loadTenant()} loading={isLoading} />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <section className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+                    <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white mb-4">
+                        <Icon name="building" className="w-4 h-4 text-gray-400" />
+                        {t('tenants.detail.profile')}
+                    </h2>
+                    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <dt className={labelClasses}>{t('tenants.table.subdomain')}</dt>
+                            <dd className={valueClasses}>{tenant.domain || '—'}</dd>
+                        </div>
+                        <div>
+                            <dt className={labelClasses}>{t('tenants.modal.specialization')}</dt>
+                            <dd className={valueClasses}>{tenant.specialization ? t(`specialization.${tenant.specialization}`) || tenant.specialization : '—'}</dd>
+                        </div>
+                        <div>
+                            <dt className={labelClasses}>{t('tenants.table.currentPlan')}</dt>
+                            <dd className={valueClasses}>{tenant.currentPlan || t('dashboard.noPlan')}</dd>
+                        </div>
+                        <div>
+                            <dt className={labelClasses}>{t('tenants.table.endDate')}</dt>
+                            <dd className={valueClasses}>{formatDate(tenant.endDate)}</dd>
+                        </div>
+                        <div>
+                            <dt className={labelClasses}>{t('tenants.modal.createdAt')}</dt>
+                            <dd className={valueClasses}>{formatDate(tenant.created_at)}</dd>
+                        </div>
+                        <div>
+                            <dt className={labelClasses}>{t('tenants.modal.freeTrialConsumed')}</dt>
+                            <dd className={valueClasses}>{tenant.freeTrialConsumed ? t('common.yes') : t('common.no')}</dd>
+                        </div>
+                    </dl>
+                </section>
+
+                <section className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+                    <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white mb-4">
+                        <Icon name="user" className="w-4 h-4 text-gray-400" />
+                        {t('tenants.detail.owner')}
+                    </h2>
+                    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <dt className={labelClasses}>{t('tenants.modal.owner')}</dt>
+                            <dd className={valueClasses}>{tenant.owner_username || `#${tenant.owner}`}</dd>
+                        </div>
+                        <div>
+                            <dt className={labelClasses}>{t('tenants.modal.email')}</dt>
+                            <dd className={valueClasses}>
+                                {tenant.owner_email ? (
+                                    <a href={`mailto:${tenant.owner_email}`} className="hover:text-primary-600 dark:hover:text-primary-400">{tenant.owner_email}</a>
+                                ) : '—'}
+                            </dd>
+                        </div>
+                        <div>
+                            <dt className={labelClasses}>{t('tenants.modal.phone')}</dt>
+                            <dd className={valueClasses}>
+                                {tenant.owner_phone ? (
+                                    <a href={`tel:${tenant.owner_phone}`} className="hover:text-primary-600 dark:hover:text-primary-400" dir="ltr">{tenant.owner_phone}</a>
+                                ) : '—'}
+                            </dd>
+                        </div>
+                    </dl>
+                </section>
+            </div>
+
+            {renderSection(
+                'subscriptions',
+                t('tenants.detail.subscriptions'),
+                'subscriptions',
+                subscriptions.length,
+                { to: `/subscriptions?tab=subscriptions&q=${search}`, label: t('tenants.detail.viewAll'), allowed: canOpen('can_manage_subscriptions') },
+                subscriptions.length === 0,
+                t('tenants.detail.empty.subscriptions'),
+                <div className="overflow-x-auto">
+                    <table className={tableClasses}>
+                        <thead className={headClasses}>
+                            <tr>
+                                <th className="px-4 py-2">{t('subscriptions.subscriptions.table.plan')}</th>
+                                <th className="px-4 py-2">{t('subscriptions.subscriptions.table.startDate')}</th>
+                                <th className="px-4 py-2">{t('subscriptions.subscriptions.table.endDate')}</th>
+                                <th className="px-4 py-2">{t('subscriptions.subscriptions.table.status')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {subscriptions.map((sub) => (
+                                <tr key={sub.id} className="border-b dark:border-gray-700">
+                                    <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{sub.planName}</td>
+                                    <td className="px-4 py-2">{sub.startDate || 'N/A'}</td>
+                                    <td className="px-4 py-2">{sub.endDate || 'N/A'}</td>
+                                    <td className="px-4 py-2">
+                                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                                            sub.isActive
+                                                ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300'
+                                                : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+                                        }`}>
+                                            {sub.isActive ? t('status.Active') : t('status.Inactive')}
+                                        </span>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>,
+            )}
+
+            {renderSection(
+                'dunning',
+                t('tenants.detail.dunning'),
+                'alert',
+                dunningCases.length,
+                { to: `/subscriptions?tab=dunning&q=${search}`, label: t('tenants.detail.viewAll'), allowed: canOpen('can_manage_subscriptions') },
+                dunningCases.length === 0,
+                t('tenants.detail.empty.dunning'),
+                <div className="overflow-x-auto">
+                    <table className={tableClasses}>
+                        <thead className={headClasses}>
+                            <tr>
+                                <th className="px-4 py-2">{t('subscriptions.dunning.table.since')}</th>
+                                <th className="px-4 py-2">{t('subscriptions.payments.table.amount')}</th>
+                                <th className="px-4 py-2">{t('subscriptions.dunning.table.stage')}</th>
+                                <th className="px-4 py-2">{t('subscriptions.dunning.table.next')}</th>
+                                <th className="px-4 py-2">{t('subscriptions.dunning.table.status')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {dunningCases.slice(0, PREVIEW_LIMIT).map((c) => {
+                                const isOpen = c.status === 'active' || c.status === 'paused';
+                                return (
+                                    <tr key={c.id} className="border-b dark:border-gray-700">
+                                        <td className="px-4 py-2">{toDay(c.startedAt) || '—'}</td>
+                                        <td className="px-4 py-2">{formatUsd(c.amount)}{c.currency !== 'USD' ? ` ${c.currency}` : ''}</td>
+                                        <td className="px-4 py-2">{dunningStepLabel(currentDunningStep(c, dunningSchedule))}</td>
+                                        <td className="px-4 py-2">
+                                            {isOpen ? `${dunningStepLabel(nextDunningStep(c, dunningSchedule))} · ${formatDate(c.nextActionAt)}` : '—'}
+                                        </td>
+                                        <td className="px-4 py-2">
+                                            <span className={`px-2 py-1 text-xs font-medium rounded-full ${dunningStatusColors[c.status]}`}>
+                                                {t(`subscriptions.dunning.status.${c.status}`)}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>,
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {renderSection(
+                    'payments',
+                    t('tenants.detail.payments'),
+                    'cash',
+                    payments.length,
+                    { to: `/subscriptions?tab=payments&q=${search}`, label: t('tenants.detail.viewAll'), allowed: canOpen('can_manage_subscriptions') },
+                    payments.length === 0,
+                    t('tenants.detail.empty.payments'),
+                    <table className={tableClasses}>
+                        <thead className={headClasses}>
+                            <tr>
+                                <th className="px-4 py-2">{t('subscriptions.payments.table.date')}</th>
+                                <th className="px-4 py-2">{t('subscriptions.payments.table.amount')}</th>
+                                <th className="px-4 py-2">{t('subscriptions.payments.table.status')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {payments.slice(0, PREVIEW_LIMIT).map((p) => (
+                                <tr key={p.id} className="border-b dark:border-gray-700">
+                                    <td className="px-4 py-2">{p.date}</td>
+                                    <td className="px-4 py-2">{formatUsd(p.amountUsd != null ? p.amountUsd : p.amount)}</td>
+                                    <td className="px-4 py-2"><span className={`px-2 py-1 text-xs font-medium rounded-full ${paymentStatusColors[p.status]}`}>{t(`status.${p.status}`)}</span></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>,
+                )}
+
+                {renderSection(
+                    'invoices',
+                    t('tenants.detail.invoices'),
+                    'pdf',
+                    invoices.length,
+                    { to: `/subscriptions?tab=invoices&q=${search}`, label: t('tenants.detail.viewAll'), allowed: canOpen('can_manage_subscriptions') },
+                    invoices.length === 0,
+                    t('tenants.detail.empty.invoices'),
+                    <table className={tableClasses}>
+                        <thead className={headClasses}>
+                            <tr>
+                                <th className="px-4 py-2">{t('subscriptions.invoices.table.invoiceNo')}</th>
+                                <th className="px-4 py-2">{t('subscriptions.invoices.table.amount')}</th>
+                                <th className="px-4 py-2">{t('subscriptions.invoices.table.dueDate')}</th>
+                                <th className="px-4 py-2">{t('subscriptions.invoices.table.status')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {invoices.slice(0, PREVIEW_LIMIT).map((inv) => (
+                                <tr key={inv.numericId} className="border-b dark:border-gray-700">
+                                    <td className="px-4 py-2 font-mono">{inv.id}</td>
+                                    <td className="px-4 py-2">{inv.amount.toLocaleString(undefined, withLatinDigits({ minimumFractionDigits: 2, maximumFractionDigits: 2 }))} {inv.currency}</td>
+                                    <td className="px-4 py-2">{inv.dueDate || '—'}</td>
+                                    <td className="px-4 py-2"><span className={`px-2 py-1 text-xs font-medium rounded-full ${invoicePaymentStatusColors[inv.paymentStatus]}`}>{t(`status.${invoiceStatusLabelKey(inv.paymentStatus)}`)}</span></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>,
+                )}
+
+                {renderSection(
+                    'tickets',
+                    t('tenants.detail.tickets'),
+                    'supportTickets',
+                    tickets.length,
+                    { to: `/support-tickets?q=${search}`, label: t('tenants.detail.viewAll'), allowed: canOpen('can_manage_support_tickets') },
+                    tickets.length === 0,
+                    t('tenants.detail.empty.tickets'),
+                    <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                        {tickets.slice(0, PREVIEW_LIMIT).map((ticket) => (
+                            <li key={ticket.id} className="flex items-center justify-between gap-3 px-4 py-2.5">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{ticket.title}</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">{ticket.created_by_username ?? '—'} · {formatDate(ticket.created_at)}</p>
+                                </div>
+                                <span className={`shrink-0 px-2 py-1 text-xs font-medium rounded-full ${ticketStatusColors[ticket.status || 'open'] || ticketStatusColors.open}`}>
+                                    {t(`tickets.status.${ticket.status || 'open'}`)}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>,
+                )}
+
+                {renderSection(
+                    'whatsapp',
+                    t('tenants.detail.whatsapp'),
+                    'communication',
+                    messageCount,
+                    { to: `/tenant-whatsapp?company=${tenant.id}`, label: t('tenants.detail.openThread'), allowed: canOpen('can_manage_tenants') },
+                    messages.length === 0,
+                    t('tenantWhatsapp.noMessages'),
+                    <div className="space-y-2 p-4 bg-gray-50 dark:bg-gray-900/40">
+                        {messages.map((m) => (
+                            <div key={m.id} className={`flex ${m.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}>
+                                <div className={`max-w-[85%] rounded-2xl px-3 py-2 text-sm ${
+                                    m.direction === 'outbound'
+                                        ? 'bg-primary-600 text-white'
+                                        : 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 border border-gray-100 dark:border-gray-600'
+                                }`}>
+                                    <p className="whitespace-pre-wrap break-words line-clamp-3">{m.body}</p>
+                                    <p className="text-[10px] opacity-80 mt-1">{formatDateTime(m.created_at)}</p>
+                                </div>
+                            </div>
+                        ))}
+                    </div>,
+                )}
+
+                {renderSection(
+                    'policies',
+                    t('tenants.detail.policies'),
+                    'settings',
+                    policyOverrides.length,
+                    { to: '/settings?tab=integrations', label: t('tenants.detail.manage'), allowed: canOpen('can_manage_settings') },
+                    policyOverrides.length === 0,
+                    t('tenants.detail.empty.policies'),
+                    <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                        {policyOverrides.map((row) => (
+                            <li key={`${row.kind}-${row.key}`} className="px-4 py-2.5">
+                                <div className="flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 dark:text-white">{policyLabel(row)}</p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            {t(`tenants.detail.policy.${row.kind}`)} · {t('tenants.detail.policy.global').replace('{state}', row.globalEnabled ? t('common.enabled') : t('common.disabled'))}
+                                        </p>
+                                    </div>
+                                    <span className={`shrink-0 px-2 py-1 text-xs font-medium rounded-full ${
+                                        row.enabled
+                                            ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300'
+                                            : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300'
+                                    }`}>
+                                        {row.enabled ? t('common.enabled') : t('common.disabled')}
+                                    </span>
+                                </div>
+                                {row.message && <p className="mt-1 text-xs text-gray-600 dark:text-gray-300">{row.message}</p>}
+                            </li>
+                        ))}
+                    </ul>,
+                )}
+            </div>
+
+            {renderSection(
+                'audit',
+                t('tenants.detail.audit'),
+                'clock',
+                auditCount,
+                { to: `/settings?tab=audit&company=${tenant.id}`, label: t('tenants.detail.viewAll'), allowed: canOpen('can_manage_settings') },
+                auditLogs.length === 0,
+                t('tenants.detail.empty.audit'),
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {auditLogs.map((log) => (
+                        <li key={log.clientId || log.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-1 px-4 py-2.5">
+                            <p className="text-sm text-gray-900 dark:text-white">{formatAction(log.action)}</p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 shrink-0">
+                                <span className="font-mono">{log.user || '—'}</span> · {formatDateTime(log.timestamp)}
+                            </p>
+                        </li>
+                    ))}
+                </ul>,
+            )}
+
+            {canAction('impersonate') && (
+                <section className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+                    <ImpersonationHistoryPanel companyId={tenant.id} />
+                </section>
+            )}
+            <ChangePlanModal
+                tenant={tenant}
+                isOpen={isChangePlanOpen}
+                onClose={() => setIsChangePlanOpen(false)}
+                onChanged={() => void loadTenant()}
+            />
+        </div>
+    );
+};
+
+export default TenantDetail;
@@ -1,17 +1,48 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { Link } from 'react-router';
+import { Link, useSearchParams } from 'react-router';
 import { useI18n } from '../context/i18n';
+import { useUser } from '../context/UserContext';
 import {
-  getCompaniesAPI,
+  getAllCompaniesAPI,
   sendAdminTenantWhatsAppAPI,
   getAdminTenantWhatsAppMessagesAPI,
+  getWhatsAppConversationsAPI,
+  markWhatsAppConversationReadAPI,
+  setWhatsAppConversationHandledAPI,
+  sendAdminTenantWhatsAppTemplateAPI,
+  getAdminTenantWhatsAppSessionAPI,
+  getWhatsAppTemplatesAPI,
+  sendAdminTenantWhatsAppMediaAPI,
+  downloadInvoicePdfAPI,
   type ApiError,
 } from '../services/api';
-import type { Tenant } from '../types';
+import type {
+  Invoice,
+  Tenant,
+  WhatsAppConversation,
+  WhatsAppMessage,
+  WhatsAppSessionWindow,
+  WhatsAppTemplate,
+} from '../types';
 import LoadingSpinner from '../components/LoadingSpinner';
 import Icon from '../components/Icon';
 import RefreshButton from '../components/RefreshButton';
+import CannedResponsePicker from '../components/CannedResponsePicker';
+import WhatsAppInboxList, { type WhatsAppInboxFilter } from '../components/WhatsAppInboxList';
+import WhatsAppTemplateComposer from '../components/WhatsAppTemplateComposer';
+import WhatsAppMessageBubble from '../components/WhatsAppMessageBubble';
+import WhatsAppInvoicePicker from '../components/WhatsAppInvoicePicker';
 import { withLatinDigits } from '../utils/latinNumerals';
+import { useRealtimeEvent } from '../hooks/useRealtime';
+import { insertTextAtCursor } from '../utils/cannedResponses';
+import { isSessionWindowOpen, sessionWindowFromInbound } from '../utils/whatsappTemplates';
+import {
+  WHATSAPP_MEDIA_ACCEPT,
+  WHATSAPP_MEDIA_MAX_BYTES,
+  applyWhatsAppStatus,
+  formatMediaSize,
+  whatsappMediaTypeForMime,
+} from '../utils/whatsappMedia';
 import {
   WhatsAppFormattedText,
   WhatsAppFormatToolbar,
@@ -20,13 +51,17 @@ import {
   type WhatsAppFormatKind,
 } from '../utils/whatsappFormatting';
 
-type ChatRow = {
-  id: number;
-  direction: string;
-  body: string;
-  created_at: string;
-  whatsapp_message_id?: string | null;
-};
+/** File waiting in the composer; the draft text is sent as its caption. */
+type PendingMedia = { file: Blob; filename: string; mimeType: string; previewUrl: string | null };
+
+/** Meta error 131047 ("re-engagement message"): free-form text sent after the 24h window closed. */
+function isSessionClosedError(e: unknown): boolean {
+  const err = e as ApiError;
+  if (err?.code === 'whatsapp_session_closed') return true;
+  const d = err?.details as Record<string, unknown> | undefined;
+  const graph = d && typeof d.error === 'object' ? (d.error as { code?: number }) : null;
+  return graph?.code === 131047;
+}
 
 function formatSendError(e: unknown, fallback: string): string {
   const err = e as ApiError;
@@ -55,42 +90,99 @@ function formatSendError(e: unknown, fallback: string): string {
   return fallback;
 }
 
+const INBOX_PAGE_SIZE = 30;
+
 const TenantWhatsAppChat: React.FC = () => {
   const { t, language } = useI18n();
+  const { can, canAccessCompany, scopedCompanyIds } = useUser();
+  // Reading the inbox needs tenant access; replying, attaching and marking handled need write
+  const canWrite = can('tenants', 'write');
+  const [searchParams] = useSearchParams();
   const [tenants, setTenants] = useState<Tenant[]>([]);
-  const [selectedId, setSelectedId] = useState<number | null>(null);
-  const [messages, setMessages] = useState<ChatRow[]>([]);
+  // `?company=<id>` preselects a thread (linked from the tenant detail page).
+  const [selectedId, setSelectedId] = useState<number | null>(() => {
+    const linked = Number(searchParams.get('company'));
+    return Number.isFinite(linked) && linked > 0 ? linked : null;
+  });
+  const [conversations, setConversations] = useState<WhatsAppConversation[]>([]);
+  const [inboxPage, setInboxPage] = useState(1);
+  const [inboxHasMore, setInboxHasMore] = useState(false);
+  const [inboxSearch, setInboxSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [inboxFilter, setInboxFilter] = useState<WhatsAppInboxFilter>('all');
+  const [messages, setMessages] = useState<WhatsAppMessage[]>([]);
   const [loadingList, setLoadingList] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [loadingMessages, setLoadingMessages] = useState(false);
   const [sending, setSending] = useState(false);
+  const [savingHandled, setSavingHandled] = useState(false);
   const [draft, setDraft] = useState('');
+  const [media, setMedia] = useState<PendingMedia | null>(null);
+  const [preparingInvoice, setPreparingInvoice] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  /** `null` until checked; an unknown window lets free-form text through and relies on the send error. */
+  const [session, setSession] = useState<WhatsAppSessionWindow | null>(null);
+  const [templates, setTemplates] = useState<WhatsAppTemplate[] | null>(null);
+  /** Template composer picked by hand while the window is still open. */
+  const [preferTemplate, setPreferTemplate] = useState(false);
+  const [now, setNow] = useState(() => new Date());
   const threadEndRef = useRef<HTMLDivElement | null>(null);
   const composerRef = useRef<HTMLTextAreaElement | null>(null);
+  const mediaInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedSearch(inboxSearch.trim()), 300);
+    return () => window.clearTimeout(timer);
+  }, [inboxSearch]);
 
   const loadTenants = useCallback(async () => {
-    setLoadingList(true);
-    setError(null);
     try {
-      const res = await getCompaniesAPI();
-      const rows = (res.results || []) as Tenant[];
-      setTenants(rows);
-      if (rows.length && selectedId == null) {
-        setSelectedId(rows[0].id);
-      }
+      // Every page, so names and new chats work for all of the admin's companies
+      const res = await getAllCompaniesAPI({ id__in: scopedCompanyIds });
+      setTenants((res.results || []) as unknown as Tenant[]);
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : 'Failed to load companies');
-    } finally {
-      setLoadingList(false);
     }
-  }, [selectedId]);
+  }, [scopedCompanyIds]);
+
+  /** Page 1 replaces the list; later pages append. `silent` skips the spinner for live refreshes. */
+  const loadConversations = useCallback(
+    async (page = 1, silent = false) => {
+      if (page === 1 && !silent) setLoadingList(true);
+      if (page > 1) setLoadingMore(true);
+      try {
+        const res = await getWhatsAppConversationsAPI({
+          search: debouncedSearch || undefined,
+          awaiting_reply: inboxFilter === 'awaiting',
+          unread: inboxFilter === 'unread',
+          page,
+          page_size: INBOX_PAGE_SIZE,
+          company__in: scopedCompanyIds,
+        });
+        const rows = res.results || [];
+        setConversations((prev) => {
+          if (page === 1) return rows;
+          const seen = new Set(prev.map((c) => c.company_id));
+          return [...prev, ...rows.filter((c) => !seen.has(c.company_id))];
+        });
+        setInboxPage(page);
+        setInboxHasMore(Boolean(res.next));
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : t('tenantWhatsapp.inbox.loadError'));
+      } finally {
+        setLoadingList(false);
+        setLoadingMore(false);
+      }
+    },
+    [debouncedSearch, inboxFilter, scopedCompanyIds, t]
+  );
 
   const loadMessages = useCallback(async (companyId: number) => {
     setLoadingMessages(true);
     setError(null);
     try {
       const data = await getAdminTenantWhatsAppMessagesAPI(companyId, { page: 1, page_size: 100 });
-      setMessages((data.results || []) as ChatRow[]);
+      setMessages((data.results || []) as WhatsAppMessage[]);
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : 'Failed to load messages');
       setMessages([]);
@@ -99,32 +191,226 @@ const TenantWhatsAppChat: React.FC = () => {
     }
   }, []);
 
+  const loadSession = useCallback(async (companyId: number) => {
+    try {
+      setSession(await getAdminTenantWhatsAppSessionAPI(companyId));
+    } catch {
+      setSession(null);
+    }
+  }, []);
+
+  const patchConversation = useCallback((companyId: number, patch: Partial<WhatsAppConversation>) => {
+    setConversations((prev) => prev.map((c) => (c.company_id === companyId ? { ...c, ...patch } : c)));
+  }, []);
+
+  /** Opening a thread reads it; the server count is cleared in the background. */
+  const markRead = useCallback(
+    (companyId: number) => {
+      patchConversation(companyId, { unread_count: 0 });
+      markWhatsAppConversationReadAPI(companyId).catch(() => {
+        // The next inbox refresh shows the server's count again
+      });
+    },
+    [patchConversation]
+  );
+
   useEffect(() => {
     void loadTenants();
   }, [loadTenants]);
 
+  // A `?company=` link to a tenant outside the admin's scope opens nothing
+  useEffect(() => {
+    if (selectedId != null && !canAccessCompany(selectedId)) setSelectedId(null);
+  }, [selectedId, canAccessCompany]);
+
+  useEffect(() => {
+    void loadConversations(1);
+  }, [loadConversations]);
+
   useEffect(() => {
     if (selectedId != null) {
       void loadMessages(selectedId);
     }
   }, [selectedId, loadMessages]);
 
+  useEffect(() => {
+    if (!media?.previewUrl) return;
+    const url = media.previewUrl;
+    return () => URL.revokeObjectURL(url);
+  }, [media]);
+
+  useEffect(() => {
+    setMedia(null);
+    setSession(null);
+    setPreferTemplate(false);
+    if (selectedId != null) void loadSession(selectedId);
+  }, [selectedId, loadSession]);
+
+  // The window closes on its own; re-evaluate it every minute
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 60_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const sessionOpen = session ? isSessionWindowOpen(session, now) : true;
+  const templateMode = selectedId != null && (!sessionOpen || preferTemplate);
+
+  useEffect(() => {
+    if (!templateMode || templates !== null) return;
+    getWhatsAppTemplatesAPI({ status: 'APPROVED' })
+      .then((res) => setTemplates(res.results || []))
+      .catch((e: unknown) => {
+        setTemplates([]);
+        setError(e instanceof Error ? e.message : t('tenantWhatsapp.templates.loadError'));
+      });
+  }, [templateMode, templates, t]);
+
+  const selectedConversation = conversations.find((c) => c.company_id === selectedId);
+  const selectedUnread = selectedConversation?.unread_count ?? 0;
+
+  useEffect(() => {
+    if (selectedId != null && selectedUnread > 0) markRead(selectedId);
+  }, [selectedId, selectedUnread, markRead]);
+
   useEffect(() => {
     threadEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, loadingMessages]);
 
+  useRealtimeEvent(['whatsapp.message_received', 'resync'], (event) => {
+    if (event.type === 'resync') {
+      void loadConversations(1, true);
+      if (selectedId != null) {
+        void loadMessages(selectedId);
+        void loadSession(selectedId);
+      }
+      return;
+    }
+    if (!canAccessCompany(event.company_id)) return;
+    const inbound = event.message.direction !== 'outbound';
+    if (event.company_id === selectedId) {
+      setMessages((prev) => (prev.some((m) => m.id === event.message.id) ? prev : [...prev, event.message]));
+      // A tenant message reopens the window for another 24h
+      if (inbound) setSession(sessionWindowFromInbound(event.message.created_at));
+    }
+    const known = conversations.some((c) => c.company_id === event.company_id);
+    // A searched or filtered list may not include the thread; let the server decide
+    if (!known || debouncedSearch || inboxFilter !== 'all') {
+      void loadConversations(1, true);
+      return;
+    }
+    setConversations((prev) => {
+      const current = prev.find((c) => c.company_id === event.company_id);
+      if (!current) return prev;
+      const updated: WhatsAppConversation = {
+        ...current,
+        last_message_body: event.message.body,
+        last_message_direction: inbound ? 'inbound' : 'outbound',
+        last_message_media_type: event.message.media_type ?? null,
+        last_message_at: event.message.created_at,
+        unread_count: inbound && event.company_id !== selectedId ? current.unread_count + 1 : current.unread_count,
+        awaiting_reply: inbound,
+        handled_at: inbound ? null : current.handled_at,
+      };
+      return [updated, ...prev.filter((c) => c.company_id !== event.company_id)];
+    });
+    if (inbound && event.company_id === selectedId) {
+      markWhatsAppConversationReadAPI(event.company_id).catch(() => {});
+    }
+  });
+
+  useRealtimeEvent(['whatsapp.message_status'], (event) => {
+    if (event.company_id !== selectedId) return;
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.id === event.message_id || (event.whatsapp_message_id && m.whatsapp_message_id === event.whatsapp_message_id)
+          ? applyWhatsAppStatus(m, event.status, { error_message: event.error_message, timestamp: event.timestamp })
+          : m
+      )
+    );
+  });
+
+  const attachMedia = (file: Blob, filename: string) => {
+    const mimeType = file.type || 'application/octet-stream';
+    const kind = whatsappMediaTypeForMime(mimeType);
+    const max = WHATSAPP_MEDIA_MAX_BYTES[kind];
+    if (file.size > max) {
+      setError(t('tenantWhatsapp.media.tooLarge').replace('{name}', filename).replace('{max}', formatMediaSize(max)));
+      return;
+    }
+    setError(null);
+    setMedia({ file, filename, mimeType, previewUrl: kind === 'image' ? URL.createObjectURL(file) : null });
+  };
+
+  const handleMediaPicked = (files: FileList | null) => {
+    const file = files?.[0];
+    if (file) attachMedia(file, file.name);
+    if (mediaInputRef.current) mediaInputRef.current.value = '';
+  };
+
+  const handleInvoicePicked = async (invoice: Invoice) => {
+    if (!canWrite) return;
+    setPreparingInvoice(true);
+    try {
+      const blob = await downloadInvoicePdfAPI(invoice.numericId, language);
+      attachMedia(blob.type ? blob : new Blob([blob], { type: 'application/pdf' }), `${invoice.id}.pdf`);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t('tenantWhatsapp.invoice.pdfError'));
+    } finally {
+      setPreparingInvoice(false);
+    }
+  };
+
   const handleSend = async () => {
     const text = draft.trim();
-    if (!selectedId || !text || sending) return;
+    if (!canWrite || !selectedId || (!text && !media) || sending) return;
     setSending(true);
     setError(null);
     try {
-      await sendAdminTenantWhatsAppAPI(selectedId, text);
+      if (media) {
+        // Meta drops captions on audio, so the text follows as its own message
+        const isAudio = whatsappMediaTypeForMime(media.mimeType) === 'audio';
+        await sendAdminTenantWhatsAppMediaAPI(selectedId, {
+          file: media.file,
+          filename: media.filename,
+          caption: isAudio ? undefined : text || undefined,
+        });
+        setMedia(null);
+        if (isAudio && text) await sendAdminTenantWhatsAppAPI(selectedId, text);
+      } else {
+        await sendAdminTenantWhatsAppAPI(selectedId, text);
+      }
       setDraft('');
       if (composerRef.current) {
         composerRef.current.style.height = 'auto';
       }
       await loadMessages(selectedId);
+      void loadConversations(1, true);
+    } catch (e: unknown) {
+      if (isSessionClosedError(e)) {
+        // Keep the draft; the composer switches to templates
+        setSession((prev) => ({ last_inbound_at: prev?.last_inbound_at ?? null, expires_at: prev?.expires_at ?? null, is_open: false }));
+        setError(t('tenantWhatsapp.session.closedError'));
+      } else {
+        setError(formatSendError(e, 'Send failed'));
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSendTemplate = async (template: WhatsAppTemplate, parameters: string[]) => {
+    if (!canWrite || !selectedId || sending) return;
+    setSending(true);
+    setError(null);
+    try {
+      await sendAdminTenantWhatsAppTemplateAPI(selectedId, {
+        name: template.name,
+        language: template.language,
+        parameters,
+      });
+      setPreferTemplate(false);
+      await loadMessages(selectedId);
+      void loadConversations(1, true);
     } catch (e: unknown) {
       setError(formatSendError(e, 'Send failed'));
     } finally {
@@ -132,6 +418,28 @@ const TenantWhatsAppChat: React.FC = () => {
     }
   };
 
+  const handleToggleHandled = async () => {
+    if (!canWrite || !selectedId || !selectedConversation) return;
+    const handled = selectedConversation.awaiting_reply;
+    setSavingHandled(true);
+    setError(null);
+    try {
+      const updated = await setWhatsAppConversationHandledAPI(selectedId, handled);
+      patchConversation(
+        selectedId,
+        updated && typeof updated === 'object'
+          ? updated
+          : { awaiting_reply: !handled, handled_at: handled ? new Date().toISOString() : null }
+      );
+      // Handled threads drop out of the "awaiting reply" view
+      if (inboxFilter === 'awaiting') void loadConversations(1, true);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : t('tenantWhatsapp.inbox.handledError'));
+    } finally {
+      setSavingHandled(false);
+    }
+  };
+
   const onComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -139,11 +447,13 @@ const TenantWhatsAppChat: React.FC = () => {
     }
   };
 
-  const selected = tenants.find((x) => x.id === selectedId);
-  const canSend = Boolean(selectedId && draft.trim() && !sending);
+  const selectedTenant = tenants.find((x) => x.id === selectedId);
+  const selectedName = selectedConversation?.company_name || selectedTenant?.name;
+  const selectedPhone = selectedConversation?.owner_phone || selectedTenant?.owner_phone;
+  const canSend = Boolean(canWrite && selectedId && (draft.trim() || media) && !sending && !preparingInvoice);
 
   return (
-    <div className="p-6 max-w-5xl mx-auto" dir={language === 'ar' ? 'rtl' : 'ltr'}>
+    <div className="p-6 max-w-6xl mx-auto" dir={language === 'ar' ? 'rtl' : 'ltr'}>
       <h1 className="text-2xl font-semibold text-gray-900 dark:text-white mb-2">
         {t('tenantWhatsapp.title')}
       </h1>
@@ -162,62 +472,92 @@ const TenantWhatsAppChat: React.FC = () => {
       )}
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        <div className="md:col-span-1 border border-gray-200 dark:border-gray-700 rounded-xl p-4 bg-white dark:bg-gray-800 shadow-sm">
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            {t('tenantWhatsapp.selectCompany')}
-          </label>
-          {loadingList ? (
-            <div className="py-2">
-              <LoadingSpinner label={t('common.loading') || 'Loading'} />
-            </div>
-          ) : (
-            <select
-              className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
-              value={selectedId ?? ''}
-              onChange={(e) => setSelectedId(Number(e.target.value))}
-            >
-              {tenants.map((c) => (
-                <option key={c.id} value={c.id}>
-                  {c.name} {c.owner_phone ? `(${c.owner_phone})` : ''}
-                </option>
-              ))}
-            </select>
-          )}
-          {selected && (
-            <div className="mt-4 flex items-start gap-2 rounded-lg bg-gray-50 dark:bg-gray-900/60 px-3 py-2.5">
-              <Icon name="phone" className="w-4 h-4 mt-0.5 text-gray-400 shrink-0" />
-              <div className="min-w-0">
-                <p className="text-[11px] uppercase tracking-wide text-gray-500 dark:text-gray-400">
-                  {t('tenantWhatsapp.ownerPhone')}
-                </p>
-                <p className="text-sm font-medium text-gray-800 dark:text-gray-100 truncate">
-                  {selected.owner_phone || '—'}
-                </p>
-              </div>
-            </div>
-          )}
+        <div className="md:col-span-1">
+          <WhatsAppInboxList
+            conversations={conversations}
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+            search={inboxSearch}
+            onSearchChange={setInboxSearch}
+            filter={inboxFilter}
+            onFilterChange={setInboxFilter}
+            loading={loadingList}
+            hasMore={inboxHasMore}
+            loadingMore={loadingMore}
+            onLoadMore={() => void loadConversations(inboxPage + 1)}
+            tenants={tenants}
+          />
         </div>
 
         <div className="md:col-span-2 flex flex-col border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 min-h-[460px] shadow-sm overflow-hidden">
           <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50/80 dark:bg-gray-900/40">
             <div className="min-w-0">
               <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">
-                {selected?.name || t('tenantWhatsapp.selectCompany')}
+                {selectedName || t('tenantWhatsapp.inbox.selectConversation')}
               </p>
-              {selected?.owner_phone ? (
-                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{selected.owner_phone}</p>
+              {selectedPhone ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate flex items-center gap-1">
+                  <Icon name="phone" className="w-3 h-3 shrink-0" />
+                  {selectedPhone}
+                </p>
               ) : null}
             </div>
-            <RefreshButton
-              iconOnly
-              disabled={selectedId == null}
-              loading={loadingMessages}
-              onClick={() => selectedId != null && void loadMessages(selectedId)}
-            />
+            <div className="flex items-center gap-2 shrink-0">
+              {selectedConversation && (
+                selectedConversation.awaiting_reply ? (
+                  canWrite && (
+                    <button
+                      type="button"
+                      onClick={() => void handleToggleHandled()}
+                      disabled={savingHandled}
+                      className="inline-flex items-center gap-1 rounded-md border border-gray-300 dark:border-gray-600 px-2.5 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                    >
+                      <Icon name="check" className="w-3.5 h-3.5" />
+                      {t('tenantWhatsapp.inbox.markHandled')}
+                    </button>
+                  )
+                ) : (
+                  <>
+                    {selectedConversation.handled_at && (
+                      <span className="hidden sm:inline text-[11px] text-gray-500 dark:text-gray-400">
+                        {(selectedConversation.handled_by_username
+                          ? t('tenantWhatsapp.inbox.handledBy').replace('{user}', selectedConversation.handled_by_username)
+                          : t('tenantWhatsapp.inbox.handled'))}
+                      </span>
+                    )}
+                    {canWrite && (
+                      <button
+                        type="button"
+                        onClick={() => void handleToggleHandled()}
+                        disabled={savingHandled}
+                        className="inline-flex items-center gap-1 rounded-md px-2.5 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                      >
+                        <Icon name="restore" className="w-3.5 h-3.5" />
+                        {t('tenantWhatsapp.inbox.reopen')}
+                      </button>
+                    )}
+                  </>
+                )
+              )}
+              <RefreshButton
+                iconOnly
+                disabled={selectedId == null}
+                loading={loadingMessages}
+                onClick={() => selectedId != null && void loadMessages(selectedId)}
+              />
+            </div>
           </div>
-
           <div className="flex-1 overflow-y-auto p-4 space-y-3 max-h-[420px] bg-gray-50/40 dark:bg-gray-900/20">
-            {loadingMessages && messages.length === 0 ? (
+            {selectedId == null ? (
+              <div className="flex flex-col items-center justify-center py-16 px-4 text-center">
+                <div className="mb-3 rounded-full bg-primary-100 dark:bg-primary-900/40 p-3 text-primary-600 dark:text-primary-300">
+                  <Icon name="communication" className="w-6 h-6" />
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400 max-w-sm">
+                  {t('tenantWhatsapp.inbox.selectConversationHint')}
+                </p>
+              </div>
+            ) : loadingMessages && messages.length === 0 ? (
               <div className="flex justify-center py-10">
                 <LoadingSpinner label={t('common.loading') || 'Loading'} />
               </div>
@@ -231,87 +571,171 @@ const TenantWhatsAppChat: React.FC = () => {
                 </p>
               </div>
             ) : (
-              messages.map((m) => (
-                <div
-                  key={m.id}
-                  className={`flex ${m.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}
-                >
-                  <div
-                    className={`max-w-[85%] rounded-2xl px-3.5 py-2.5 text-sm shadow-sm ${
-                      m.direction === 'outbound'
-                        ? 'bg-primary-600 text-white rounded-br-md'
-                        : 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 border border-gray-100 dark:border-gray-600 rounded-bl-md'
-                    }`}
-                  >
-                    <WhatsAppFormattedText
-                      text={m.body}
-                      as="div"
-                      className="whitespace-pre-wrap break-words"
-                    />
-                    <div className="text-[10px] opacity-80 mt-1.5">
-                      {new Date(m.created_at).toLocaleString(
-                        undefined,
-                        withLatinDigits({ dateStyle: 'medium', timeStyle: 'short' })
-                      )}
-                    </div>
-                  </div>
-                </div>
-              ))
+              messages.map((m) => <WhatsAppMessageBubble key={m.id} message={m} />)
             )}
             <div ref={threadEndRef} />
           </div>
 
           <div className="border-t border-gray-200 dark:border-gray-700 p-3 bg-white dark:bg-gray-800 space-y-1.5">
-            <WhatsAppFormatToolbar
-              disabled={sending || !selectedId}
-              onFormat={(kind: WhatsAppFormatKind) =>
-                applyWhatsAppFormatToInput(composerRef.current, draft, kind, setDraft)
-              }
-            />
-            <div className="flex items-end gap-2">
-              <textarea
-                ref={composerRef}
-                className="flex-1 resize-none rounded-xl border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900 px-3.5 py-2.5 text-sm leading-5 text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 min-h-[44px] max-h-28"
-                rows={1}
-                value={draft}
-                placeholder={t('tenantWhatsapp.messagePlaceholder')}
-                onChange={(e) => {
-                  setDraft(e.target.value);
-                  const el = e.target;
-                  el.style.height = 'auto';
-                  el.style.height = `${Math.min(el.scrollHeight, 112)}px`;
-                }}
-                onKeyDown={onComposerKeyDown}
-                disabled={sending || !selectedId}
-              />
-              <button
-                type="button"
-                onClick={() => void handleSend()}
-                disabled={!canSend}
-                aria-label={t('tenantWhatsapp.send')}
-                title={t('tenantWhatsapp.send')}
-                className="shrink-0 inline-flex h-11 w-11 items-center justify-center rounded-full bg-primary-600 text-white shadow-sm hover:bg-primary-700 disabled:opacity-40 disabled:hover:bg-primary-600 disabled:cursor-not-allowed transition-colors"
+            {selectedId != null && session && (
+              <div
+                className={`flex flex-wrap items-center justify-between gap-2 rounded-lg px-2.5 py-1.5 text-xs ${
+                  sessionOpen
+                    ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-200'
+                    : 'bg-amber-50 text-amber-800 dark:bg-amber-900/20 dark:text-amber-200'
+                }`}
               >
-                {sending ? (
-                  <span className="inline-block w-4 h-4 border-2 border-white/40 border-t-white rounded-full animate-spin" />
-                ) : (
-                  <Icon name="send" className="w-5 h-5 rtl:-scale-x-100" />
+                <span className="flex items-center gap-1.5">
+                  <Icon name={sessionOpen ? 'clock' : 'alert'} className="w-3.5 h-3.5 shrink-0" />
+                  {sessionOpen
+                    ? session.expires_at
+                      ? t('tenantWhatsapp.session.openUntil').replace(
+                          '{time}',
+                          new Date(session.expires_at).toLocaleString(undefined, withLatinDigits({ dateStyle: 'short', timeStyle: 'short' }))
+                        )
+                      : t('tenantWhatsapp.session.open')
+                    : t('tenantWhatsapp.session.closed')}
+                </span>
+                {sessionOpen && canWrite && (
+                  <button
+                    type="button"
+                    onClick={() => setPreferTemplate((v) => !v)}
+                    disabled={sending}
+                    className="font-medium underline-offset-2 hover:underline disabled:opacity-50"
+                  >
+                    {preferTemplate ? t('tenantWhatsapp.session.useText') : t('tenantWhatsapp.session.useTemplate')}
+                  </button>
                 )}
-              </button>
-            </div>
-            {textLooksWhatsAppFormatted(draft) && (
-              <div className="rounded-lg border border-dashed border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900/50 px-2.5 py-1.5">
-                <p className="text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-0.5">Preview</p>
-                <WhatsAppFormattedText
-                  text={draft}
-                  as="div"
-                  className="text-sm whitespace-pre-wrap break-words text-gray-900 dark:text-gray-100"
-                />
               </div>
             )}
-            <p className="text-[11px] text-gray-400 dark:text-gray-500 px-0.5">
-              Format: *bold* _italic_ ~strike~ ```code``` · Enter to send · Shift+Enter for new line
-            </p>
+            {!canWrite ? (
+              <p className="px-0.5 py-2 text-xs text-gray-500 dark:text-gray-400">{t('tenantWhatsapp.readOnly')}</p>
+            ) : templateMode ? (
+              <WhatsAppTemplateComposer
+                templates={templates}
+                disabled={!selectedId}
+                sending={sending}
+                onSend={(template, parameters) => void handleSendTemplate(template, parameters)}
+              />
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-1">
+                  <WhatsAppFormatToolbar
+                    disabled={sending || !selectedId}
+                    onFormat={(kind: WhatsAppFormatKind) =>
+                      applyWhatsAppFormatToInput(composerRef.current, draft, kind, setDraft)
+                    }
+                  />
+                  <CannedResponsePicker
+                    scope="whatsapp"
+                    companyId={selectedId}
+                    disabled={sending || !selectedId}
+                    onInsert={(text) => insertTextAtCursor(composerRef.current, draft, text, setDraft)}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => mediaInputRef.current?.click()}
+                    disabled={sending || !selectedId || preparingInvoice}
+                    title={t('tenantWhatsapp.media.attach')}
+                    className="inline-flex h-7 items-center gap-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 text-xs text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Icon name="paperclip" className="w-3.5 h-3.5" />
+                    {t('tenantWhatsapp.media.button')}
+                  </button>
+                  <input
+                    ref={mediaInputRef}
+                    type="file"
+                    accept={WHATSAPP_MEDIA_ACCEPT}
+                    className="hidden"
+                    onChange={(e) => handleMediaPicked(e.target.files)}
+                  />
+                  <WhatsAppInvoicePicker
+                    companyId={selectedId}
+                    disabled={sending || preparingInvoice}
+                    onPick={(invoice) => void handleInvoicePicked(invoice)}
+                  />
+                </div>
+                {(media || preparingInvoice) && (
+                  <div className="flex items-center gap-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 px-2.5 py-1.5 text-xs">
+                    {preparingInvoice ? (
+                      <LoadingSpinner label={t('tenantWhatsapp.invoice.preparing')} />
+                    ) : media ? (
+                      <>
+                        {media.previewUrl ? (
+                          <img src={media.previewUrl} alt={media.filename} className="h-10 w-10 rounded object-cover shrink-0" />
+                        ) : (
+                          <Icon name={media.mimeType === 'application/pdf' ? 'pdf' : 'paperclip'} className="w-5 h-5 shrink-0 text-gray-500" />
+                        )}
+                        <span className="min-w-0 flex-1">
+                          <span className="block truncate font-medium text-gray-800 dark:text-gray-100">{media.filename}</span>
+                          <span className="block text-gray-500 dark:text-gray-400">
+                            {formatMediaSize(media.file.size)}
+                            {' · '}
+                            {whatsappMediaTypeForMime(media.mimeType) === 'audio'
+                              ? t('tenantWhatsapp.media.audioCaptionHint')
+                              : t('tenantWhatsapp.media.captionHint')}
+                          </span>
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => setMedia(null)}
+                          disabled={sending}
+                          aria-label={t('tenantWhatsapp.media.remove')}
+                          title={t('tenantWhatsapp.media.remove')}
+                          className="p-1 rounded-full text-gray-500 hover:text-red-600 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+                        >
+                          <Icon name="x" className="w-4 h-4" />
+                        </button>
+                      </>
+                    ) : null}
+                  </div>
+                )}
+                <div className="flex items-end gap-2">
+                  <textarea
+                    ref={composerRef}
+                    className="flex-1 resize-none rounded-xl border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900 px-3.5 py-2.5 text-sm leading-5 text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 min-h-[44px] max-h-28"
+                    rows={1}
+                    value={draft}
+                    placeholder={t('tenantWhatsapp.messagePlaceholder')}
+                    onChange={(e) => {
+                      setDraft(e.target.value);
+                      const el = e.target;
+                      el.style.height = 'auto';
+                      el.style.height = `${Math.min(el.scrollHeight, 112)}px`;
+                    }}
+                    onKeyDown={onComposerKeyDown}
+                    disabled={sending || !selectedId}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => void handleSend()}
+                    disabled={!canSend}
+                    aria-label={t('tenantWhatsapp.send')}
+                    title={t('tenantWhatsapp.send')}
+                    className="shrink-0 inline-flex h-11 w-11 items-center justify-center rounded-full bg-primary-600 text-white shadow-sm hover:bg-primary-700 disabled:opacity-40 disabled:hover:bg-primary-600 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {sending ? (
+                      <span className="inline-block w-4 h-4 border-2 border-white/40 border-t-white rounded-full animate-spin" />
+                    ) : (
+                      <Icon name="send" className="w-5 h-5 rtl:-scale-x-100" />
+                    )}
+                  </button>
+                </div>
+                {textLooksWhatsAppFormatted(draft) && (
+                  <div className="rounded-lg border border-dashed border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900/50 px-2.5 py-1.5">
+                    <p className="text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-0.5">Preview</p>
+                    <WhatsAppFormattedText
+                      text={draft}
+                      as="div"
+                      className="text-sm whitespace-pre-wrap break-words text-gray-900 dark:text-gray-100"
+                    />
+                  </div>
+                )}
+                <p className="text-[11px] text-gray-400 dark:text-gray-500 px-0.5">
+                  Format: *bold* _italic_ ~strike~ ```code``` · Enter to send · Shift+Enter for new line
+                </p>
+              </>
+            )}
           </div>
         </div>
       </div>
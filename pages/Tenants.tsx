@@ -1,20 +1,35 @@
 
-import React, { useMemo, useState } from 'react';
-import { useNavigate } from 'react-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router';
 import Icon from '../components/Icon';
 import FilterButton from '../components/FilterButton';
 import RefreshButton from '../components/RefreshButton';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { Tenant, TenantStatus, Page } from '../types';
+import { Tenant, TenantStatus, Page, PermissionResource } from '../types';
 import { useI18n } from '../context/i18n';
 import { useUser } from '../context/UserContext';
 import TenantModal from '../components/TenantModal';
+import ImpersonateModal from '../components/ImpersonateModal';
 import TenantActivationModal from '../components/TenantActivationModal';
+import ChangePlanModal from '../components/ChangePlanModal';
+import TenantBulkActionModal, { TenantBulkAction } from '../components/TenantBulkActionModal';
+import { Checkbox } from '../components/Checkbox';
 import { useAuditLog } from '../context/AuditLogContext';
 import { useAlert } from '../context/AlertContext';
 import TenantsFilterDrawer, { TenantFilters, tenantFilterDefaults } from '../components/TenantsFilterDrawer';
 import { hasActiveFilters as filtersAreActive } from '../components/filters';
-import { impersonateAPI } from '../services/api';
+import {
+    getAllCompaniesAPI,
+    getAllPlansAPI,
+    getCompaniesPageAPI,
+    getSubscriptionsForCompaniesAPI,
+    getPlansAPI,
+    type CompanyListParams,
+} from '../services/api';
+import { translateAdminApiError } from '../utils/translateApiError';
+import ExportButton from '../components/ExportButton';
+import { ExportColumn, createExportDateFormatter } from '../utils/exportData';
+import { mapCompaniesToTenants, type ApiPlanRow } from '../utils/tenantMapping';
 
 const statusColors: { [key in TenantStatus]: string } = {
     [TenantStatus.Active]: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
@@ -23,45 +38,122 @@ const statusColors: { [key in TenantStatus]: string } = {
     [TenantStatus.Deactivated]: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
 };
 
+const PAGE_SIZE = 20;
+
+const TENANT_STATUS_VALUES = Object.values(TenantStatus) as TenantStatus[];
+
+/** Columns the API can order by; keys match the `ordering` query param. */
+type TenantSortField = 'name' | 'domain' | 'end_date';
+
+/** URL query keys for the committed filters, page and ordering. */
+const QUERY_KEYS = {
+    search: 'q',
+    plan: 'plan',
+    statuses: 'status',
+    startDateFrom: 'start_from',
+    startDateTo: 'start_to',
+    endDateFrom: 'end_from',
+    endDateTo: 'end_to',
+    page: 'page',
+    ordering: 'ordering',
+} as const;
+
+const readTenantQuery = (params: URLSearchParams) => {
+    const filters: TenantFilters = {
+        search: params.get(QUERY_KEYS.search) || '',
+        plan: params.get(QUERY_KEYS.plan) || '',
+        statuses: (params.get(QUERY_KEYS.statuses) || '')
+            .split(',')
+            .filter((value): value is TenantStatus => TENANT_STATUS_VALUES.includes(value as TenantStatus)),
+        startDateFrom: params.get(QUERY_KEYS.startDateFrom) || '',
+        startDateTo: params.get(QUERY_KEYS.startDateTo) || '',
+        endDateFrom: params.get(QUERY_KEYS.endDateFrom) || '',
+        endDateTo: params.get(QUERY_KEYS.endDateTo) || '',
+    };
+    const page = Math.max(1, parseInt(params.get(QUERY_KEYS.page) || '1', 10) || 1);
+    const ordering = params.get(QUERY_KEYS.ordering) || '';
+    return { filters, page, ordering };
+};
+
+const buildTenantQuery = (filters: TenantFilters, page: number, ordering: string) => {
+    const params = new URLSearchParams();
+    const set = (key: string, value: string) => {
+        if (value) params.set(key, value);
+    };
+    set(QUERY_KEYS.search, filters.search.trim());
+    set(QUERY_KEYS.plan, filters.plan);
+    set(QUERY_KEYS.statuses, filters.statuses.join(','));
+    set(QUERY_KEYS.startDateFrom, filters.startDateFrom);
+    set(QUERY_KEYS.startDateTo, filters.startDateTo);
+    set(QUERY_KEYS.endDateFrom, filters.endDateFrom);
+    set(QUERY_KEYS.endDateTo, filters.endDateTo);
+    if (page > 1) params.set(QUERY_KEYS.page, String(page));
+    set(QUERY_KEYS.ordering, ordering);
+    return params;
+};
+
+/**
+ * Map committed filters to `GET /companies/` params (shared by the table, the export and select-all).
+ * A company-scoped role also sends its company IDs so counts and pages match what it can open;
+ * a role scoped to no companies gets the empty state without a request.
+ */
+const toCompanyListParams = (
+    filters: TenantFilters,
+    ordering: string,
+    scopedCompanyIds: number[] | null,
+): CompanyListParams => ({
+    search: filters.search.trim() || undefined,
+    plan: filters.plan || undefined,
+    status: filters.statuses.length > 0 ? filters.statuses.join(',') : undefined,
+    start_date_from: filters.startDateFrom || undefined,
+    start_date_to: filters.startDateTo || undefined,
+    end_date_from: filters.endDateFrom || undefined,
+    end_date_to: filters.endDateTo || undefined,
+    ordering: ordering || undefined,
+    id__in: scopedCompanyIds,
+});
+
 interface TenantsProps {
-    tenants: Tenant[];
-    onUpdateTenant: (tenant: Tenant) => void;
+    onUpdateTenant: (tenant: Tenant, previous?: Tenant) => Promise<void>;
     onActivateTenant: (tenantId: number, planId: number, startDate: string, endDate: string) => Promise<void>;
     onDeactivateTenant: (tenantId: number) => Promise<void>;
     onDeleteTenant: (tenantId: number) => Promise<void>;
-    isLoading?: boolean;
-    onRefresh?: () => void;
 }
 
-const CRM_APP_URL = import.meta.env.VITE_CRM_APP_URL || '';
-
 const Tenants: React.FC<TenantsProps> = ({ 
-    tenants, 
     onUpdateTenant, 
     onActivateTenant,
     onDeactivateTenant,
     onDeleteTenant,
-    isLoading = false,
-    onRefresh
 }) => {
     const { t, language } = useI18n();
     const navigate = useNavigate();
     const { addLog } = useAuditLog();
-    const { isSuperAdmin } = useUser();
+    const { can, canAction, scopedCompanyIds } = useUser();
+    const canWriteTenants = can('tenants', 'write');
+    const canChangePlans = can('subscriptions', 'write');
     const { showAlert } = useAlert();
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [selectedTenant, setSelectedTenant] = useState<Tenant | null>(null);
     const [modalMode, setModalMode] = useState<'view' | 'edit'>('view');
-    const [filters, setFilters] = useState<TenantFilters>(tenantFilterDefaults);
+    const [searchParams, setSearchParams] = useSearchParams();
+    const { filters, page: currentPage, ordering } = useMemo(() => readTenantQuery(searchParams), [searchParams]);
+    const [tenants, setTenants] = useState<Tenant[]>([]);
+    const [totalCount, setTotalCount] = useState(0);
+    const [plans, setPlans] = useState<ApiPlanRow[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
     const [isFilterDrawerOpen, setIsFilterDrawerOpen] = useState(false);
     const [isActivationModalOpen, setIsActivationModalOpen] = useState(false);
     const [tenantToActivate, setTenantToActivate] = useState<Tenant | null>(null);
-    const [isImpersonateConfirmOpen, setIsImpersonateConfirmOpen] = useState(false);
     const [tenantToImpersonate, setTenantToImpersonate] = useState<Tenant | null>(null);
-    const [isImpersonating, setIsImpersonating] = useState(false);
     const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
     const [tenantToDelete, setTenantToDelete] = useState<Tenant | null>(null);
     const [isDeleting, setIsDeleting] = useState(false);
+    // Selection survives paging so a bulk action can span the whole filtered list.
+    const [selected, setSelected] = useState<Map<number, Tenant>>(new Map());
+    const [isSelectingAll, setIsSelectingAll] = useState(false);
+    const [bulkAction, setBulkAction] = useState<TenantBulkAction | null>(null);
+    const [tenantToChangePlan, setTenantToChangePlan] = useState<Tenant | null>(null);
 
     const handleViewDetails = (tenant: Tenant) => {
         setSelectedTenant(tenant);
@@ -75,9 +167,11 @@ const Tenants: React.FC<TenantsProps> = ({
         setSelectedTenant(null);
     };
 
-    const handleSaveTenant = (updatedTenant: Tenant) => {
-        onUpdateTenant(updatedTenant);
+    const handleSaveTenant = async (updatedTenant: Tenant) => {
+        const previous = selectedTenant ?? undefined;
         handleCloseModal();
+        await onUpdateTenant(updatedTenant, previous);
+        await loadTenants();
     };
 
     const handleToggleStatus = (tenant: Tenant) => {
@@ -85,136 +179,188 @@ const Tenants: React.FC<TenantsProps> = ({
         setIsActivationModalOpen(true);
     };
 
-    const uniquePlans = useMemo(() => {
-        const planSet = new Set<string>();
-        tenants.forEach((tenant) => {
-            if (tenant.currentPlan) {
-                planSet.add(tenant.currentPlan);
-            }
-        });
-        return Array.from(planSet).sort((a, b) => a.localeCompare(b));
-    }, [tenants]);
-
-    const filteredTenants = useMemo(() => {
-        return tenants.filter((tenant) => {
-            const searchTerm = filters.search.trim().toLowerCase();
-            if (searchTerm) {
-                const matchesSearch =
-                    tenant.name.toLowerCase().includes(searchTerm) ||
-                    tenant.domain.toLowerCase().includes(searchTerm);
-                if (!matchesSearch) {
-                    return false;
-                }
-            }
-
-            if (filters.plan && tenant.currentPlan !== filters.plan) {
-                return false;
-            }
-
-            if (filters.statuses.length > 0 && !filters.statuses.includes(tenant.status)) {
-                return false;
-            }
-
-            const startDateValue = tenant.startDate ? new Date(tenant.startDate) : null;
-            const endDateValue = tenant.endDate ? new Date(tenant.endDate) : null;
-
-            if (filters.startDateFrom) {
-                const from = new Date(filters.startDateFrom);
-                if (!startDateValue || startDateValue < from) {
-                    return false;
-                }
-            }
-
-            if (filters.startDateTo) {
-                const to = new Date(filters.startDateTo);
-                if (!startDateValue || startDateValue > to) {
-                    return false;
-                }
-            }
-
-            if (filters.endDateFrom) {
-                const from = new Date(filters.endDateFrom);
-                if (!endDateValue || endDateValue < from) {
-                    return false;
-                }
-            }
-
-            if (filters.endDateTo) {
-                const to = new Date(filters.endDateTo);
-                if (!endDateValue || endDateValue > to) {
-                    return false;
-                }
-            }
-
-            return true;
-        });
-    }, [tenants, filters]);
+    const updateQuery = useCallback(
+        (nextFilters: TenantFilters, nextPage: number, nextOrdering: string) => {
+            setSearchParams(buildTenantQuery(nextFilters, nextPage, nextOrdering));
+        },
+        [setSearchParams],
+    );
+
+    const loadTenants = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const [pageRes, plansRes] = await Promise.all([
+                getCompaniesPageAPI({ ...toCompanyListParams(filters, ordering, scopedCompanyIds), page: currentPage, page_size: PAGE_SIZE }),
+                getPlansAPI(),
+            ]);
+            const companies = pageRes.results || [];
+            const planRows = (plansRes.results || []) as ApiPlanRow[];
+            // Plan / status are derived from each company's subscriptions exactly as before,
+            // but only for the companies on this page.
+            const subscriptionsRes = await getSubscriptionsForCompaniesAPI(companies.map((company) => Number(company.id)));
+            setPlans(planRows);
+            const rows = mapCompaniesToTenants(companies, subscriptionsRes.results || [], planRows, language);
+            setTenants(rows);
+            setSelected((prev) => {
+                if (prev.size === 0) return prev;
+                const next = new Map(prev);
+                rows.forEach((row) => {
+                    if (next.has(row.id)) next.set(row.id, row);
+                });
+                return next;
+            });
+            setTotalCount(pageRes.count ?? companies.length);
+        } catch (error) {
+            console.error('Error loading tenants:', error);
+            setTenants([]);
+            setTotalCount(0);
+            showAlert(translateAdminApiError(error, t) || t('tenants.loadError'), { variant: 'error' });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [filters, ordering, currentPage, language, t, showAlert, scopedCompanyIds]);
+
+    useEffect(() => {
+        void loadTenants();
+    }, [loadTenants]);
+
+    const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+    // A delete or a narrower filter can leave the URL pointing past the last page.
+    useEffect(() => {
+        if (!isLoading && totalCount > 0 && currentPage > totalPages) {
+            updateQuery(filters, totalPages, ordering);
+        }
+    }, [isLoading, totalCount, currentPage, totalPages, filters, ordering, updateQuery]);
+
+    const planOptions = useMemo(
+        () =>
+            plans.map((plan) => ({
+                value: String(plan.id),
+                label: (language === 'ar' && plan.name_ar?.trim() ? plan.name_ar : plan.name) || String(plan.id),
+            })),
+        [plans, language],
+    );
+
+    const handleSort = (field: TenantSortField) => {
+        const nextOrdering = ordering === field ? `-${field}` : field;
+        updateQuery(filters, 1, nextOrdering);
+    };
+
+    const renderSortHeader = (field: TenantSortField, label: string) => {
+        const active = ordering === field || ordering === `-${field}`;
+        const descending = ordering === `-${field}`;
+        return (
+            <button
+                type="button"
+                onClick={() => handleSort(field)}
+                className="inline-flex items-center gap-1 uppercase hover:text-gray-900 dark:hover:text-white"
+                aria-sort={active ? (descending ? 'descending' : 'ascending') : undefined}
+            >
+                {label}
+                <Icon
+                    name="chevronDown"
+                    className={`w-3 h-3 transition-transform ${active ? 'opacity-100' : 'opacity-30'} ${active && !descending ? 'rotate-180' : ''}`}
+                />
+            </button>
+        );
+    };
 
     const filtersActive = useMemo(
         () => filtersAreActive(filters, tenantFilterDefaults),
         [filters],
     );
 
-    const handleApplyFilters = (nextFilters: TenantFilters) => {
-        setFilters(nextFilters);
-        setIsFilterDrawerOpen(false);
+    const exportColumns = useMemo<ExportColumn<Tenant>[]>(() => {
+        const formatDate = createExportDateFormatter(language);
+        return [
+            { key: 'name', label: t('tenants.table.companyName'), value: (tenant) => tenant.name },
+            { key: 'domain', label: t('tenants.table.subdomain'), value: (tenant) => tenant.domain },
+            { key: 'specialization', label: t('tenants.modal.specialization'), value: (tenant) => tenant.specialization },
+            { key: 'owner', label: t('tenants.modal.owner'), value: (tenant) => tenant.owner_username },
+            { key: 'ownerEmail', label: t('tenants.modal.email'), value: (tenant) => tenant.owner_email },
+            { key: 'ownerPhone', label: t('tenants.modal.phone'), value: (tenant) => tenant.owner_phone },
+            { key: 'plan', label: t('tenants.table.currentPlan'), value: (tenant) => tenant.currentPlan || t('dashboard.noPlan') },
+            { key: 'status', label: t('tenants.table.status'), value: (tenant) => t(`status.${tenant.status || TenantStatus.Deactivated}`) },
+            { key: 'startDate', label: t('tenants.table.startDate'), value: (tenant) => formatDate(tenant.startDate) },
+            { key: 'endDate', label: t('tenants.table.endDate'), value: (tenant) => formatDate(tenant.endDate) },
+            { key: 'createdAt', label: t('tenants.modal.createdAt'), value: (tenant) => formatDate(tenant.created_at) },
+        ];
+    }, [t, language]);
+
+    /** Every tenant matching the committed filters (all pages). */
+    const loadAllMatchingTenants = async () => {
+        const [companiesRes, plansRes] = await Promise.all([
+            getAllCompaniesAPI(toCompanyListParams(filters, ordering, scopedCompanyIds)),
+            getAllPlansAPI(),
+        ]);
+        const companies = companiesRes.results || [];
+        const subscriptionsRes = await getSubscriptionsForCompaniesAPI(companies.map((company) => Number(company.id)));
+        return mapCompaniesToTenants(
+            companies,
+            subscriptionsRes.results || [],
+            (plansRes.results || []) as unknown as ApiPlanRow[],
+            language,
+        );
     };
 
-    const handleResetFilters = () => {
-        setFilters(tenantFilterDefaults);
+    const selectedTenants = useMemo(() => Array.from(selected.values()), [selected]);
+    const pageFullySelected = tenants.length > 0 && tenants.every((tenant) => selected.has(tenant.id));
+
+    const toggleSelected = (tenant: Tenant) => {
+        setSelected((prev) => {
+            const next = new Map(prev);
+            if (next.has(tenant.id)) next.delete(tenant.id);
+            else next.set(tenant.id, tenant);
+            return next;
+        });
     };
 
-    const handleImpersonateClick = (tenant: Tenant) => {
-        setTenantToImpersonate(tenant);
-        setIsImpersonateConfirmOpen(true);
+    const togglePageSelected = () => {
+        setSelected((prev) => {
+            const next = new Map(prev);
+            tenants.forEach((tenant) => {
+                if (pageFullySelected) next.delete(tenant.id);
+                else next.set(tenant.id, tenant);
+            });
+            return next;
+        });
     };
 
-    const handleImpersonateConfirm = async () => {
-        if (!tenantToImpersonate || isImpersonating) return;
-        setIsImpersonating(true);
+    const handleSelectAllMatching = async () => {
+        setIsSelectingAll(true);
         try {
-            const data = await impersonateAPI({ company_id: tenantToImpersonate.id });
-            if (data.impersonation_code && CRM_APP_URL) {
-                const url = `${CRM_APP_URL.replace(/\/$/, '')}/impersonate?code=${encodeURIComponent(data.impersonation_code)}`;
-                // Do not pass noopener in features: browsers then return null even when the tab
-                // opens successfully, which falsely triggers the "pop-up blocked" + clipboard path.
-                const w = window.open(url, '_blank');
-                if (w) {
-                    try {
-                        w.opener = null;
-                    } catch {
-                        // ignore
-                    }
-                    w.focus();
-                    showAlert(t('tenants.impersonate.success'), { variant: 'success' });
-                } else {
-                    try {
-                        await navigator.clipboard.writeText(url);
-                        showAlert(
-                            `${t('tenants.impersonate.popupBlocked')} ${t('tenants.impersonate.urlCopied')}`,
-                            { variant: 'warning' }
-                        );
-                    } catch {
-                        showAlert(
-                            `${t('tenants.impersonate.popupBlocked')} ${url}`,
-                            { variant: 'warning' }
-                        );
-                    }
-                }
-            } else if (!CRM_APP_URL) {
-                showAlert(t('tenants.impersonate.noCrmUrl'), { variant: 'warning' });
-            } else {
-                showAlert(t('tenants.impersonate.error'), { variant: 'error' });
-            }
-            setIsImpersonateConfirmOpen(false);
-            setTenantToImpersonate(null);
-        } catch (err: any) {
-            showAlert(err?.message || t('tenants.impersonate.error'), { variant: 'error' });
+            const rows = await loadAllMatchingTenants();
+            setSelected(new Map(rows.map((row) => [row.id, row])));
+        } catch (error) {
+            showAlert(translateAdminApiError(error, t) || t('tenants.loadError'), { variant: 'error' });
         } finally {
-            setIsImpersonating(false);
+            setIsSelectingAll(false);
         }
     };
 
+    const bulkActions = ([
+        { id: 'extend', icon: 'calendar', resource: 'subscriptions' },
+        { id: 'changePlan', icon: 'subscriptions', resource: 'subscriptions' },
+        { id: 'activate', icon: 'check', resource: 'tenants' },
+        { id: 'deactivate', icon: 'x', resource: 'tenants' },
+        { id: 'whatsapp', icon: 'communication', resource: 'communication' },
+        { id: 'broadcast', icon: 'send', resource: 'communication' },
+    ] as { id: TenantBulkAction; icon: string; resource: PermissionResource }[]).filter((item) => can(item.resource, 'write'));
+
+    const handleApplyFilters = (nextFilters: TenantFilters) => {
+        updateQuery(nextFilters, 1, ordering);
+        setIsFilterDrawerOpen(false);
+    };
+
+    const handleResetFilters = () => {
+        updateQuery(tenantFilterDefaults, 1, ordering);
+    };
+
+    const handleImpersonateClick = (tenant: Tenant) => {
+        setTenantToImpersonate(tenant);
+    };
+
     const handleDeleteClick = (tenant: Tenant) => {
         setTenantToDelete(tenant);
         setIsDeleteConfirmOpen(true);
@@ -228,7 +374,7 @@ const Tenants: React.FC<TenantsProps> = ({
             showAlert(t('tenants.delete.success'), { variant: 'success' });
             setIsDeleteConfirmOpen(false);
             setTenantToDelete(null);
-            if (onRefresh) await onRefresh();
+            await loadTenants();
         } catch {
             // Error already shown by App handleDeleteTenant
         } finally {
@@ -241,6 +387,7 @@ const Tenants: React.FC<TenantsProps> = ({
             <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
                 <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('tenants.title')}</h1>
                 <div className="flex items-center gap-2 self-start md:self-auto">
+                    {canWriteTenants && (
                     <button
                         onClick={() => navigate('/tenants/add')}
                         className="inline-flex h-9 items-center gap-1.5 px-3 text-sm font-semibold bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
@@ -249,35 +396,97 @@ const Tenants: React.FC<TenantsProps> = ({
                         <Icon name="plus" className="w-4 h-4" />
                         <span>{t('tenants.add.button')}</span>
                     </button>
+                    )}
                     <FilterButton
                         onClick={() => setIsFilterDrawerOpen(true)}
                         hasActiveFilters={filtersActive}
                     >
                         {t('tenants.filters.open')}
                     </FilterButton>
-                    {onRefresh && (
-                        <RefreshButton onClick={() => void onRefresh()} loading={isLoading} />
-                    )}
+                    <ExportButton
+                        filename="tenants"
+                        subtitle={t('tenants.title')}
+                        columns={exportColumns}
+                        loadRows={loadAllMatchingTenants}
+                        filtersActive={filtersActive}
+                    />
+                    <RefreshButton onClick={() => void loadTenants()} loading={isLoading} />
                 </div>
             </div>
 
             <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
+                {selected.size > 0 && (
+                    <div className="mb-4 flex flex-col gap-3 rounded-lg border border-primary-200 dark:border-primary-800 bg-primary-50 dark:bg-primary-900/20 px-4 py-3">
+                        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-primary-900 dark:text-primary-100">
+                            <span className="font-medium">{t('tenants.bulk.selectedCount').replace('{count}', String(selected.size))}</span>
+                            <div className="flex flex-wrap items-center gap-3">
+                                {pageFullySelected && totalCount > selected.size && (
+                                    <button
+                                        type="button"
+                                        onClick={() => void handleSelectAllMatching()}
+                                        disabled={isSelectingAll}
+                                        className="font-medium text-primary-700 hover:underline dark:text-primary-300 disabled:opacity-60"
+                                    >
+                                        {isSelectingAll ? t('common.loading') : t('tenants.bulk.selectAllMatching').replace('{count}', String(totalCount))}
+                                    </button>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={() => setSelected(new Map())}
+                                    className="font-medium text-gray-600 hover:underline dark:text-gray-300"
+                                >
+                                    {t('tenants.bulk.clear')}
+                                </button>
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2">
+                            {bulkActions.map((item) => (
+                                <button
+                                    key={item.id}
+                                    type="button"
+                                    onClick={() => setBulkAction(item.id)}
+                                    className={`inline-flex h-9 items-center gap-1.5 px-3 text-sm font-semibold bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-sm hover:border-primary-400 dark:hover:border-primary-500 transition ${
+                                        item.id === 'deactivate' ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'
+                                    }`}
+                                >
+                                    <Icon name={item.icon} className="w-4 h-4 shrink-0" />
+                                    <span>{t(`tenants.bulk.actions.${item.id}`)}</span>
+                                </button>
+                            ))}
+                            <ExportButton
+                                filename="tenants"
+                                subtitle={t('tenants.bulk.selectedCount').replace('{count}', String(selected.size))}
+                                columns={exportColumns}
+                                loadRows={async () => selectedTenants}
+                                hideLabelOnMobile={false}
+                            />
+                        </div>
+                    </div>
+                )}
                 <div className="overflow-x-auto">
                     <table className={`w-full text-sm ${language === 'ar' ? 'text-right' : 'text-left'} text-gray-500 dark:text-gray-400`}>
                         <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-400">
                             <tr>
-                                <th scope="col" className="px-6 py-3 text-center">{t('tenants.table.companyName')}</th>
-                                <th scope="col" className="px-6 py-3 text-center">{t('tenants.table.subdomain')}</th>
+                                <th scope="col" className="ps-4 py-3 w-10">
+                                    <Checkbox
+                                        id="tenants-select-page"
+                                        checked={pageFullySelected}
+                                        onChange={togglePageSelected}
+                                        disabled={isLoading || tenants.length === 0}
+                                    />
+                                </th>
+                                <th scope="col" className="px-6 py-3 text-center">{renderSortHeader('name', t('tenants.table.companyName'))}</th>
+                                <th scope="col" className="px-6 py-3 text-center">{renderSortHeader('domain', t('tenants.table.subdomain'))}</th>
                                 <th scope="col" className="px-6 py-3 text-center">{t('tenants.table.currentPlan')}</th>
                                 <th scope="col" className="px-6 py-3 text-center">{t('tenants.table.status')}</th>
-                                <th scope="col" className="px-6 py-3 text-center">{t('tenants.table.endDate')}</th>
+                                <th scope="col" className="px-6 py-3 text-center">{renderSortHeader('end_date', t('tenants.table.endDate'))}</th>
                                 <th scope="col" className="px-6 py-3 text-center">{t('tenants.table.actions')}</th>
                             </tr>
                         </thead>
                         <tbody>
                             {isLoading ? (
                                 <tr>
-                                    <td colSpan={6} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
+                                    <td colSpan={7} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
                                         <div className="flex items-center justify-center">
                                             <LoadingSpinner label={t('tenants.loading') || 'Loading tenants'} />
                                         </div>
@@ -285,20 +494,25 @@ const Tenants: React.FC<TenantsProps> = ({
                                 </tr>
                             ) : tenants.length === 0 ? (
                                 <tr>
-                                    <td colSpan={6} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
-                                        {t('tenants.noTenants')}
-                                    </td>
-                                </tr>
-                            ) : filteredTenants.length === 0 ? (
-                                <tr>
-                                    <td colSpan={6} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
-                                        {t('tenants.filters.noResults')}
+                                    <td colSpan={7} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
+                                        {filtersActive ? t('tenants.filters.noResults') : t('tenants.noTenants')}
                                     </td>
                                 </tr>
                             ) : (
-                                filteredTenants.map((tenant) => (
-                                <tr key={tenant.id} className="bg-white border-b dark:bg-gray-800 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
-                                    <td className="px-6 py-4 text-center font-medium text-gray-900 whitespace-nowrap dark:text-white">{tenant.name}</td>
+                                tenants.map((tenant) => (
+                                <tr key={tenant.id} className={`border-b dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 ${selected.has(tenant.id) ? 'bg-primary-50/60 dark:bg-primary-900/20' : 'bg-white dark:bg-gray-800'}`}>
+                                    <td className="ps-4 py-4 w-10">
+                                        <Checkbox
+                                            id={`tenant-select-${tenant.id}`}
+                                            checked={selected.has(tenant.id)}
+                                            onChange={() => toggleSelected(tenant)}
+                                        />
+                                    </td>
+                                    <td className="px-6 py-4 text-center font-medium text-gray-900 whitespace-nowrap dark:text-white">
+                                        <Link to={`/tenants/${tenant.id}`} className="hover:text-primary-600 dark:hover:text-primary-400 hover:underline" title={t('tenants.actions.openDetail')}>
+                                            {tenant.name}
+                                        </Link>
+                                    </td>
                                     <td className="px-6 py-4 text-center">{tenant.domain}</td>
                                     <td className="px-6 py-4 text-center">{tenant.currentPlan || t('dashboard.noPlan')}</td>
                                     <td className="px-6 py-4 text-center">
@@ -307,7 +521,7 @@ const Tenants: React.FC<TenantsProps> = ({
                                     <td className="px-6 py-4 text-center">{tenant.endDate || 'N/A'}</td>
                                     <td className="px-6 py-4 text-center">
                                         <div className="flex items-center justify-center gap-3">
-                                            {isSuperAdmin() && (
+                                            {canAction('impersonate') && (
                                                 <button
                                                     onClick={() => handleImpersonateClick(tenant)}
                                                     className="p-2 text-amber-600 hover:text-amber-800 dark:text-amber-400 dark:hover:text-amber-300 transition-colors rounded-md hover:bg-amber-50 dark:hover:bg-amber-900/20"
@@ -316,6 +530,15 @@ const Tenants: React.FC<TenantsProps> = ({
                                                     <Icon name="impersonate" className="w-5 h-5" />
                                                 </button>
                                             )}
+                                            {canChangePlans && (tenant.status === TenantStatus.Active || tenant.status === TenantStatus.Trial) && (
+                                                <button
+                                                    onClick={() => setTenantToChangePlan(tenant)}
+                                                    className="p-2 text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300 transition-colors rounded-md hover:bg-primary-50 dark:hover:bg-primary-900/20"
+                                                    title={t('tenants.changePlan.open')}
+                                                >
+                                                    <Icon name="subscriptions" className="w-5 h-5" />
+                                                </button>
+                                            )}
                                             <button 
                                                 onClick={() => handleViewDetails(tenant)} 
                                                 className="p-2 text-purple-600 hover:text-purple-800 dark:text-purple-400 dark:hover:text-purple-300 transition-colors rounded-md hover:bg-purple-50 dark:hover:bg-purple-900/20" 
@@ -323,6 +546,7 @@ const Tenants: React.FC<TenantsProps> = ({
                                             >
                                                 <Icon name="view" className="w-5 h-5"/>
                                             </button>
+                                            {can('tenants', 'delete') && (
                                             <button
                                                 onClick={() => handleDeleteClick(tenant)}
                                                 className="p-2 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 transition-colors rounded-md hover:bg-red-50 dark:hover:bg-red-900/20"
@@ -330,6 +554,8 @@ const Tenants: React.FC<TenantsProps> = ({
                                             >
                                                 <Icon name="trash" className="w-5 h-5" />
                                             </button>
+                                            )}
+                                            {canWriteTenants && (
                                             <label 
                                                 className="relative inline-flex items-center cursor-pointer" 
                                                 title={(tenant.status === TenantStatus.Active || tenant.status === TenantStatus.Trial) ? t('tenants.actions.deactivate') : t('tenants.actions.activate')}
@@ -342,6 +568,7 @@ const Tenants: React.FC<TenantsProps> = ({
                                                 />
                                                 <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 dark:peer-focus:ring-primary-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-primary-600"></div>
                                             </label>
+                                            )}
                                         </div>
                                     </td>
                                 </tr>
@@ -350,6 +577,19 @@ const Tenants: React.FC<TenantsProps> = ({
                         </tbody>
                     </table>
                 </div>
+                {totalPages > 1 && (
+                    <nav className="flex items-center justify-between pt-4" aria-label="Table navigation">
+                        <span className="text-sm font-normal text-gray-500 dark:text-gray-400">{t('settings.security.pagination.page')} <span className="font-semibold text-gray-900 dark:text-white">{currentPage}</span> {t('settings.security.pagination.of')} <span className="font-semibold text-gray-900 dark:text-white">{totalPages}</span></span>
+                        <div className="flex space-x-2 rtl:space-x-reverse">
+                            <button onClick={() => updateQuery(filters, Math.max(1, currentPage - 1), ordering)} disabled={currentPage === 1 || isLoading} className="px-3 py-1 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-100 hover:text-gray-700 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white disabled:opacity-50 disabled:cursor-not-allowed">
+                                {t('settings.security.pagination.previous')}
+                            </button>
+                            <button onClick={() => updateQuery(filters, Math.min(totalPages, currentPage + 1), ordering)} disabled={currentPage >= totalPages || isLoading} className="px-3 py-1 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-100 hover:text-gray-700 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-white disabled:opacity-50 disabled:cursor-not-allowed">
+                                {t('settings.security.pagination.next')}
+                            </button>
+                        </div>
+                    </nav>
+                )}
             </div>
             <TenantModal 
                 isOpen={isModalOpen}
@@ -364,7 +604,19 @@ const Tenants: React.FC<TenantsProps> = ({
                 filters={filters}
                 onApply={handleApplyFilters}
                 onReset={handleResetFilters}
-                plans={uniquePlans}
+                plans={planOptions}
+            />
+            <TenantBulkActionModal
+                action={bulkAction}
+                tenants={selectedTenants}
+                onClose={() => setBulkAction(null)}
+                onFinished={() => void loadTenants()}
+            />
+            <ChangePlanModal
+                tenant={tenantToChangePlan}
+                isOpen={tenantToChangePlan !== null}
+                onClose={() => setTenantToChangePlan(null)}
+                onChanged={() => void loadTenants()}
             />
             <TenantActivationModal
                 tenant={tenantToActivate}
@@ -375,48 +627,18 @@ const Tenants: React.FC<TenantsProps> = ({
                 }}
                 onActivate={async (tenantId, planId, startDate, endDate) => {
                     await onActivateTenant(tenantId, planId, startDate, endDate);
-                    if (onRefresh) {
-                        await onRefresh();
-                    }
+                    await loadTenants();
                 }}
                 onDeactivate={async (tenantId) => {
                     await onDeactivateTenant(tenantId);
-                    if (onRefresh) {
-                        await onRefresh();
-                    }
+                    await loadTenants();
                 }}
             />
-            {isImpersonateConfirmOpen && tenantToImpersonate && (
-                <div className="fixed inset-0 bg-black/50 z-50 flex justify-center items-center p-4" onClick={() => !isImpersonating && (setIsImpersonateConfirmOpen(false), setTenantToImpersonate(null))}>
-                    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md p-6" onClick={e => e.stopPropagation()}>
-                        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
-                            {t('tenants.impersonate.confirmTitle')}
-                        </h3>
-                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-                            {t('tenants.impersonate.confirmMessage')}
-                        </p>
-                        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-4">
-                            {tenantToImpersonate.name} — {tenantToImpersonate.owner_username || tenantToImpersonate.owner_email || `#${tenantToImpersonate.owner}`}
-                        </p>
-                        <div className={`flex gap-3 ${language === 'ar' ? 'flex-row-reverse' : ''}`}>
-                            <button
-                                onClick={() => { setIsImpersonateConfirmOpen(false); setTenantToImpersonate(null); }}
-                                disabled={isImpersonating}
-                                className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 font-medium transition-colors disabled:opacity-50"
-                            >
-                                {t('common.cancel')}
-                            </button>
-                            <button
-                                onClick={handleImpersonateConfirm}
-                                disabled={isImpersonating}
-                                className="flex-1 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 font-medium transition-colors disabled:opacity-50"
-                            >
-                                {isImpersonating ? '...' : t('tenants.actions.impersonate')}
-                            </button>
-                        </div>
-                    </div>
-                </div>
-            )}
+            <ImpersonateModal
+                tenant={tenantToImpersonate}
+                isOpen={tenantToImpersonate !== null}
+                onClose={() => setTenantToImpersonate(null)}
+            />
             {isDeleteConfirmOpen && tenantToDelete && (
                 <div className="fixed inset-0 bg-black/50 z-50 flex justify-center items-center p-4" onClick={() => !isDeleting && (setIsDeleteConfirmOpen(false), setTenantToDelete(null))}>
                     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md p-6" onClick={e => e.stopPropagation()}>
@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+/**
+ * Local mock of the realtime event stream (SSE) for developing services/realtime.ts without the backend.
+ *
+ *   npm run mock:realtime                  # listen on :4010
+ *   npm run mock:realtime -- --auto 5      # also emit a random sample event every 5 seconds
+ *
+ * Point the panel at it with VITE_REALTIME_URL=http://localhost:4010/events. The stream ticket is still requested
+ * from VITE_API_URL; with no backend that serves POST /realtime/ticket/, set VITE_API_URL=http://localhost:4010
+ * as well and this server answers it. Then push events by hand:
+ *
+ *   curl -X POST localhost:4010/emit -d '{"type":"ticket.status_changed","ticket_id":1,"status":"closed"}'
+ *   curl -X POST localhost:4010/emit/payment.failed       # one of the built-in samples
+ *   curl -X POST localhost:4010/drop                      # close every stream to exercise reconnect/backoff
+ *
+ * Stop the server (Ctrl+C) to watch the client fall back to polling.
+ */
+import http from 'node:http';
+
+const args = process.argv.slice(2);
+const argValue = (name, fallback) => {
+  const i = args.indexOf(name);
+  return i >= 0 && args[i + 1] ? args[i + 1] : fallback;
+};
+const PORT = Number(argValue('--port', process.env.PORT || 4010));
+const AUTO_SECONDS = Number(argValue('--auto', 0));
+
+let nextId = 1000;
+const now = () => new Date().toISOString();
+
+const samples = {
+  'ticket.created': () => ({
+    type: 'ticket.created',
+    ticket: {
+      id: ++nextId,
+      company: 1,
+      company_name: 'Demo Realty',
+      created_by_username: 'owner',
+      title: `Mock ticket ${nextId}`,
+      description: 'Created by the mock realtime server',
+      status: 'open',
+      created_at: now(),
+      updated_at: now(),
+    },
+  }),
+  'ticket.status_changed': () => ({ type: 'ticket.status_changed', ticket_id: nextId, status: 'in_progress', company_id: 1 }),
+  'ticket.message_created': () => ({
+    type: 'ticket.message_created',
+    ticket_id: nextId,
+    company_id: 1,
+    ticket_status: 'open',
+    message: {
+      id: ++nextId,
+      author_name: 'owner',
+      author_role: 'tenant',
+      body: `Tenant reply from the mock server (${nextId})`,
+      is_internal: false,
+      attachments: [],
+      created_at: now(),
+    },
+  }),
+  'whatsapp.message_received': () => ({
+    type: 'whatsapp.message_received',
+    company_id: 1,
+    company_name: 'Demo Realty',
+    message: { id: ++nextId, direction: 'inbound', body: `Hello from the mock server (${nextId})`, created_at: now() },
+  }),
+  'whatsapp.message_status': () => ({
+    type: 'whatsapp.message_status',
+    company_id: 1,
+    message_id: nextId,
+    status: 'delivered',
+    timestamp: now(),
+  }),
+  'payment.succeeded': () => ({ type: 'payment.succeeded', payment_id: ++nextId, company_id: 1, company_name: 'Demo Realty', amount: 49, currency: 'USD' }),
+  'payment.failed': () => ({ type: 'payment.failed', payment_id: ++nextId, company_id: 1, company_name: 'Demo Realty', amount: 49, currency: 'USD' }),
+  'maintenance.toggled': () => ({ type: 'maintenance.toggled', maintenance_mode: false, message: '' }),
+  'notification.created': () => ({
+    type: 'notification.created',
+    notification: {
+      id: ++nextId,
+      type: 'payment_failed',
+      params: { company: 'Demo Realty', amount: '49 USD' },
+      company: 1,
+      created_at: now(),
+      read_at: null,
+    },
+  }),
+};
+
+const clients = new Set();
+
+const broadcast = (event) => {
+  const frame = `data: ${JSON.stringify(event)}\n\n`;
+  clients.forEach((res) => res.write(frame));
+  console.log(`→ ${event.type} (${clients.size} client${clients.size === 1 ? '' : 's'})`);
+};
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+  });
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors).end();
+    return;
+  }
+
+  // Stands in for the API's stream ticket when VITE_API_URL points here
+  if (req.method === 'POST' && url.pathname === '/api/v1/realtime/ticket/') {
+    res.writeHead(200, { ...cors, 'Content-Type': 'application/json' })
+      .end(JSON.stringify({ ticket: `mock-${Date.now()}`, expires_in: 60 }));
+    return;
+  }
+
+  // Same path as the real API as well, so VITE_API_URL=http://localhost:4010 works too
+  if (req.method === 'GET' && (url.pathname === '/events' || url.pathname === '/api/v1/realtime/events/')) {
+    res.writeHead(200, { ...cors, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.write(': connected\n\n');
+    clients.add(res);
+    console.log(`+ client (ticket ${url.searchParams.get('ticket') ? 'present' : 'missing'}), ${clients.size} open`);
+    const keepAlive = setInterval(() => res.write(': ping\n\n'), 15000);
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      clients.delete(res);
+      console.log(`- client, ${clients.size} open`);
+    });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/drop') {
+    const count = clients.size;
+    clients.forEach((client) => client.end());
+    clients.clear();
+    res.writeHead(200, { ...cors, 'Content-Type': 'application/json' }).end(JSON.stringify({ dropped: count }));
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname.startsWith('/emit')) {
+    const sampleType = decodeURIComponent(url.pathname.slice('/emit/'.length));
+    let event;
+    if (sampleType) {
+      event = samples[sampleType]?.();
+    } else {
+      try {
+        event = JSON.parse(await readBody(req));
+      } catch {
+        event = undefined;
+      }
+    }
+    if (!event || typeof event.type !== 'string') {
+      res.writeHead(400, { ...cors, 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ error: 'Expected a JSON event with a "type", or /emit/<sample>', samples: Object.keys(samples) }));
+      return;
+    }
+    broadcast(event);
+    res.writeHead(200, { ...cors, 'Content-Type': 'application/json' }).end(JSON.stringify({ sent: event, clients: clients.size }));
+    return;
+  }
+
+  res.writeHead(404, cors).end();
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock realtime server on http://localhost:${PORT}/events`);
+  console.log(`Samples: ${Object.keys(samples).join(', ')}`);
+  if (AUTO_SECONDS > 0) {
+    const types = Object.keys(samples).filter((type) => type !== 'maintenance.toggled');
+    setInterval(() => broadcast(samples[types[Math.floor(Math.random() * types.length)]]()), AUTO_SECONDS * 1000);
+  }
+});
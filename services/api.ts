@@ -91,6 +91,25 @@ async function fetchAllPaginatedPages<T>(initialEndpoint: string): Promise<Pagin
 
 // ==================== Helpers ====================
 
+/**
+ * Companies a company-scoped role is limited to; `null` means every company. List APIs send it
+ * as `company__in` (or the resource's path to the company), so paging and counts stay scoped.
+ */
+export type CompanyScope = number[] | null;
+
+/** A role scoped to no companies sees nothing; sending the empty filter would return everything. */
+export function isEmptyCompanyScope(scope?: CompanyScope): boolean {
+  return Array.isArray(scope) && scope.length === 0;
+}
+
+function companyScopeQuery(scope?: CompanyScope): string | undefined {
+  return scope ? scope.join(',') : undefined;
+}
+
+function emptyPage<T>(): PaginatedResponse<T> {
+  return { count: 0, next: null, previous: null, results: [] };
+}
+
 /** Build query string from params; skips null/undefined and empty values. */
 function buildQueryString(params: Record<string, string | number | undefined | null> = {}): string {
   const searchParams = new URLSearchParams();
@@ -163,13 +182,35 @@ async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promi
 // ==================== Authentication APIs ====================
 
 /**
- * Login - Get JWT tokens
+ * Login - Get JWT tokens. Accounts with 2FA get a challenge instead of tokens
+ * (`two_factor_required` + `challenge_token`), answered through `verifyTwoFactorLoginAPI`.
  * POST .../auth/login/
  */
 export const loginAPI = async (username: string, password: string) => {
+  const res = await adminHttp.post<{
+    access?: string;
+    refresh?: string;
+    user?: unknown;
+    two_factor_required?: boolean;
+    challenge_token?: string;
+  }>('auth/login/', { username, password });
+  const data = res.data;
+  if (data?.access) localStorage.setItem('accessToken', data.access);
+  if (data?.refresh) localStorage.setItem('refreshToken', data.refresh);
+  return data;
+};
+
+/**
+ * Second login step - exchange the challenge for JWT tokens using a TOTP code or a backup code
+ * POST .../auth/login/2fa/
+ */
+export const verifyTwoFactorLoginAPI = async (
+  challengeToken: string,
+  payload: { code: string } | { backup_code: string }
+) => {
   const res = await adminHttp.post<{ access?: string; refresh?: string; user?: unknown }>(
-    'auth/login/',
-    { username, password }
+    'auth/login/2fa/',
+    { challenge_token: challengeToken, ...payload }
   );
   const data = res.data;
   if (data?.access) localStorage.setItem('accessToken', data.access);
@@ -185,6 +226,17 @@ export const refreshTokenAPI = async () => {
   return { access: localStorage.getItem('accessToken') ?? undefined };
 };
 
+/**
+ * Re-check the signed-in admin's password (idle lock screen); tokens are left untouched
+ * POST /api/auth/verify-password/
+ */
+export const verifyPasswordAPI = async (password: string) => {
+  return apiRequest<void>('/auth/verify-password/', {
+    method: 'POST',
+    body: JSON.stringify({ password }),
+  });
+};
+
 /**
  * Get current user
  * GET /api/users/me/
@@ -193,25 +245,169 @@ export const getCurrentUserAPI = async () => {
   return apiRequest<any>('/users/me/');
 };
 
+// ==================== Two-Factor Authentication APIs ====================
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** True when the super admin policy requires 2FA for this account. */
+  required: boolean;
+  backup_codes_remaining: number;
+  confirmed_at: string | null;
+}
+
+/**
+ * 2FA state of the current admin
+ * GET /api/auth/2fa/
+ */
+export const getTwoFactorStatusAPI = async () => {
+  return apiRequest<TwoFactorStatus>('/auth/2fa/');
+};
+
+/**
+ * Start enrollment - returns a fresh TOTP secret; 2FA stays off until the first code is confirmed
+ * POST /api/auth/2fa/setup/
+ */
+export const startTwoFactorSetupAPI = async () => {
+  return apiRequest<{ secret: string; otpauth_url: string; qr_code?: string }>('/auth/2fa/setup/', {
+    method: 'POST',
+  });
+};
+
+/**
+ * Confirm enrollment with a code from the authenticator app; returns one-time backup codes
+ * POST /api/auth/2fa/confirm/
+ */
+export const confirmTwoFactorSetupAPI = async (code: string) => {
+  return apiRequest<{ backup_codes: string[] }>('/auth/2fa/confirm/', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+};
+
+/**
+ * Replace all backup codes (requires a current TOTP code)
+ * POST /api/auth/2fa/backup-codes/
+ */
+export const regenerateTwoFactorBackupCodesAPI = async (code: string) => {
+  return apiRequest<{ backup_codes: string[] }>('/auth/2fa/backup-codes/', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+};
+
+/**
+ * Turn 2FA off (requires a current TOTP code). Rejected while the policy requires it.
+ * POST /api/auth/2fa/disable/
+ */
+export const disableTwoFactorAPI = async (code: string) => {
+  return apiRequest<void>('/auth/2fa/disable/', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+};
+
+// ==================== Admin Sessions APIs ====================
+
+/**
+ * Sessions of the current admin (the one making the request is flagged `is_current`)
+ * GET /api/auth/sessions/
+ */
+export const getMySessionsAPI = async () => {
+  return fetchAllPaginatedPages<Record<string, unknown>>('/auth/sessions/');
+};
+
+/**
+ * Sessions of every limited admin (super admin only)
+ * GET /api/auth/sessions/all/?user=
+ */
+export const getAllAdminSessionsAPI = async (params?: { user?: number }) => {
+  const query = buildQueryString(params ?? {});
+  return fetchAllPaginatedPages<Record<string, unknown>>(`/auth/sessions/all/${query}`);
+};
+
+/**
+ * Revoke one session; its access and refresh tokens stop working immediately
+ * DELETE /api/auth/sessions/{id}/
+ */
+export const revokeSessionAPI = async (sessionId: string) => {
+  return apiRequest<void>(`/auth/sessions/${sessionId}/`, {
+    method: 'DELETE',
+  });
+};
+
+/**
+ * Sign out everywhere - revokes all sessions of `user` (super admin), or of the current admin when omitted
+ * POST /api/auth/sessions/revoke-all/
+ */
+export const revokeAllSessionsAPI = async (params?: { user?: number }) => {
+  return apiRequest<{ revoked: number }>('/auth/sessions/revoke-all/', {
+    method: 'POST',
+    body: JSON.stringify(params ?? {}),
+  });
+};
+
+// ==================== Realtime APIs ====================
+
+/**
+ * Single-use ticket for opening the realtime event stream; valid for `expires_in` seconds.
+ * POST /api/realtime/ticket/
+ */
+export const createRealtimeTicketAPI = async () => {
+  return apiRequest<{ ticket: string; expires_in: number }>('/realtime/ticket/', { method: 'POST' });
+};
+
 // ==================== Companies (Tenants) APIs ====================
 
 /**
  * Get all companies (tenants). Uses short-lived cache to avoid duplicate calls across pages.
  * GET /api/companies/
  */
-export const getCompaniesAPI = async (params?: { search?: string; ordering?: string }) => {
-  const query = buildQueryString(params ?? {});
+export const getCompaniesAPI = async (params?: { search?: string; ordering?: string; id__in?: CompanyScope }) => {
+  if (isEmptyCompanyScope(params?.id__in)) return emptyPage<unknown>();
+  const query = buildQueryString({ ...params, id__in: companyScopeQuery(params?.id__in) });
   const cacheKey = `companies${query}`;
   return getCached(cacheKey, () =>
     apiRequest<PaginatedResponse<unknown>>(`/companies/${query}`)
   );
 };
 
-export const getAllCompaniesAPI = async (params?: { search?: string; ordering?: string }) => {
-  const query = buildQueryString(params ?? {});
+/**
+ * Server-side filters for the Tenants table. `status` and `plan` filter on the company's
+ * current subscription (same derivation as the panel: Active / Trial / Expired / Deactivated).
+ */
+export interface CompanyListParams {
+  page?: number;
+  page_size?: number;
+  search?: string;
+  ordering?: string;
+  /** Comma-separated TenantStatus values. */
+  status?: string;
+  /** Plan ID of the current subscription. */
+  plan?: string | number;
+  start_date_from?: string;
+  start_date_to?: string;
+  end_date_from?: string;
+  end_date_to?: string;
+  /** Limits the list to a company-scoped role's companies. */
+  id__in?: CompanyScope;
+}
+
+export const getAllCompaniesAPI = async (params?: Omit<CompanyListParams, 'page' | 'page_size'>) => {
+  if (isEmptyCompanyScope(params?.id__in)) return emptyPage<Record<string, unknown>>();
+  const query = buildQueryString({ ...params, id__in: companyScopeQuery(params?.id__in) });
   return fetchAllPaginatedPages<Record<string, unknown>>(`/companies/${query}`);
 };
 
+/**
+ * Get one page of companies with filters and ordering applied on the server
+ * GET /api/companies/?page=&page_size=&search=&ordering=&status=&plan=&start_date_from=...
+ */
+export const getCompaniesPageAPI = async (params: CompanyListParams = {}) => {
+  if (isEmptyCompanyScope(params.id__in)) return emptyPage<Record<string, unknown>>();
+  const query = buildQueryString({ ...params, id__in: companyScopeQuery(params.id__in) });
+  return apiRequest<PaginatedResponse<Record<string, unknown>>>(`/companies/${query}`);
+};
+
 export type AdminDashboardSummary = {
   mrr: number;
   active_tenants: number;
@@ -303,19 +499,41 @@ export const deleteCompanyAPI = async (id: number) => {
  * Get all subscriptions. Uses short-lived cache to avoid duplicate calls across pages.
  * GET /api/subscriptions/
  */
-export const getSubscriptionsAPI = async (params?: { search?: string; ordering?: string }) => {
-  const query = buildQueryString(params ?? {});
+export const getSubscriptionsAPI = async (params?: { search?: string; ordering?: string; company__in?: CompanyScope }) => {
+  if (isEmptyCompanyScope(params?.company__in)) return emptyPage<unknown>();
+  const query = buildQueryString({ ...params, company__in: companyScopeQuery(params?.company__in) });
   const cacheKey = `subscriptions${query}`;
   return getCached(cacheKey, () =>
     apiRequest<PaginatedResponse<unknown>>(`/subscriptions/${query}`)
   );
 };
 
-export const getAllSubscriptionsAPI = async (params?: { search?: string; ordering?: string }) => {
-  const query = buildQueryString(params ?? {});
+export const getAllSubscriptionsAPI = async (params?: { search?: string; ordering?: string; company__in?: CompanyScope }) => {
+  if (isEmptyCompanyScope(params?.company__in)) return emptyPage<Record<string, unknown>>();
+  const query = buildQueryString({ ...params, company__in: companyScopeQuery(params?.company__in) });
   return fetchAllPaginatedPages<Record<string, unknown>>(`/subscriptions/${query}`);
 };
 
+/** Company IDs per `company__in` request, so long selections stay within URL limits. */
+const SUBSCRIPTIONS_COMPANY_CHUNK = 100;
+
+/**
+ * Get every subscription belonging to the given companies (used to derive tenant plan / status for a page,
+ * an export or a "select all"); large ID lists are requested in chunks.
+ * GET /api/subscriptions/?company__in=1,2,3
+ */
+export const getSubscriptionsForCompaniesAPI = async (companyIds: number[]) => {
+  if (companyIds.length === 0) return emptyPage<Record<string, unknown>>();
+  const results: Record<string, unknown>[] = [];
+  for (let i = 0; i < companyIds.length; i += SUBSCRIPTIONS_COMPANY_CHUNK) {
+    const chunk = companyIds.slice(i, i + SUBSCRIPTIONS_COMPANY_CHUNK);
+    const query = buildQueryString({ company__in: chunk.join(',') });
+    const page = await fetchAllPaginatedPages<Record<string, unknown>>(`/subscriptions/${query}`);
+    results.push(...page.results);
+  }
+  return { count: results.length, next: null, previous: null, results } as PaginatedResponse<Record<string, unknown>>;
+};
+
 /**
  * Get subscription by ID
  * GET /api/subscriptions/{id}/
@@ -350,6 +568,29 @@ export const updateSubscriptionAPI = async (id: number, subscriptionData: any) =
   return result;
 };
 
+/**
+ * Move a subscription to another plan in one server transaction: closes it on `change_date`, opens the
+ * target plan for the rest of the period with the same billing cycle, and optionally invoices the prorated
+ * difference. Nothing is changed if any step fails.
+ * POST /api/subscriptions/{id}/change-plan/
+ */
+export const changeSubscriptionPlanAPI = async (
+  id: number,
+  body: { plan: number; change_date: string; billing_cycle: 'monthly' | 'yearly'; issue_invoice: boolean; invoice_line_description?: string },
+) => {
+  const result = await apiRequest<{
+    subscription: { id: number };
+    invoice: { id: number } | null;
+    proration: { credit: number; charge: number; net: number; remaining_days: number; total_days: number };
+  }>(`/subscriptions/${id}/change-plan/`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+  invalidateListCache('subscriptions');
+  invalidateListCache('companies');
+  return result;
+};
+
 /**
  * Delete subscription
  * DELETE /api/subscriptions/{id}/
@@ -375,6 +616,11 @@ export const getPlansAPI = async (params?: { search?: string; ordering?: string
   );
 };
 
+export const getAllPlansAPI = async (params?: { search?: string; ordering?: string }) => {
+  const query = buildQueryString(params ?? {});
+  return fetchAllPaginatedPages<Record<string, unknown>>(`/plans/${query}`);
+};
+
 /**
  * Get plan by ID
  * GET /api/plans/{id}/
@@ -431,13 +677,26 @@ export const deletePlanAPI = async (id: number) => {
  * Get all payments
  * GET /api/payments/
  */
-export const getPaymentsAPI = async (params?: { search?: string; ordering?: string }) => {
-  const query = buildQueryString(params ?? {});
+export const getPaymentsAPI = async (params?: { search?: string; ordering?: string; subscription__company__in?: CompanyScope }) => {
+  if (isEmptyCompanyScope(params?.subscription__company__in)) return emptyPage<unknown>();
+  const query = buildQueryString({
+    ...params,
+    subscription__company__in: companyScopeQuery(params?.subscription__company__in),
+  });
   return apiRequest<PaginatedResponse<unknown>>(`/payments/${query}`);
 };
 
-export const getAllPaymentsAPI = async (params?: { search?: string; ordering?: string }) => {
-  const query = buildQueryString(params ?? {});
+export const getAllPaymentsAPI = async (params?: {
+  search?: string;
+  ordering?: string;
+  subscription__company?: number;
+  subscription__company__in?: CompanyScope;
+}) => {
+  if (isEmptyCompanyScope(params?.subscription__company__in)) return emptyPage<Record<string, unknown>>();
+  const query = buildQueryString({
+    ...params,
+    subscription__company__in: companyScopeQuery(params?.subscription__company__in),
+  });
   return fetchAllPaginatedPages<Record<string, unknown>>(`/payments/${query}`);
 };
 
@@ -528,24 +787,99 @@ export const getUsersAPI = async (params?: { search?: string; ordering?: string
 };
 
 /**
- * Impersonate a company owner (Super Admin only).
+ * Impersonate a company owner (admins with the impersonate action).
  * POST /api/auth/impersonate/
- * Body: { company_id?: number; user_id?: number }
- * Returns: { access, refresh, user, impersonated_by, impersonation_code }
- */
-export const impersonateAPI = async (payload: { company_id?: number; user_id?: number }) => {
+ * Body: { company_id?, user_id?, reason, ticket_id?, duration_minutes? }
+ * Returns: { access, refresh, user, impersonated_by, impersonation_code, session_id, expires_at }
+ * The CRM tokens stop working at `expires_at` or when the session is revoked.
+ */
+export const impersonateAPI = async (payload: {
+  company_id?: number;
+  user_id?: number;
+  reason: string;
+  ticket_id?: number | null;
+  duration_minutes?: number;
+}) => {
   return apiRequest<{
     access: string;
     refresh: string;
     user: any;
     impersonated_by: { id: number; username: string; email: string };
     impersonation_code: string;
+    session_id?: number;
+    expires_at?: string;
   }>('/auth/impersonate/', {
     method: 'POST',
     body: JSON.stringify(payload),
   });
 };
 
+/**
+ * Impersonation history, newest first
+ * GET /api/auth/impersonations/?company=&admin=&status=
+ */
+export const getImpersonationSessionsAPI = async (params?: {
+  company?: number;
+  admin?: number;
+  status?: string;
+  page?: number;
+  page_size?: number;
+}) => {
+  const query = buildQueryString({ ordering: '-started_at', ...(params ?? {}) });
+  return apiRequest<PaginatedResponse<unknown>>(`/auth/impersonations/${query}`);
+};
+
+/**
+ * Header notification center, newest first
+ * GET /api/notifications/
+ */
+export const getAdminNotificationsAPI = async (params?: {
+  unread?: boolean;
+  page?: number;
+  page_size?: number;
+  /** Comma-separated notification types to leave out, e.g. the admin's muted ones. */
+  exclude_type?: string;
+}) => {
+  const query = buildQueryString({
+    ordering: '-created_at',
+    page: params?.page,
+    page_size: params?.page_size,
+    unread: params?.unread ? 'true' : undefined,
+    exclude_type: params?.exclude_type,
+  });
+  return apiRequest<PaginatedResponse<unknown>>(`/notifications/${query}`);
+};
+
+/**
+ * Mark one notification as read
+ * POST /api/notifications/{id}/read/
+ */
+export const markAdminNotificationReadAPI = async (id: number) => {
+  return apiRequest<any>(`/notifications/${id}/read/`, {
+    method: 'POST',
+  });
+};
+
+/**
+ * Mark every notification of the current admin as read
+ * POST /api/notifications/read-all/
+ */
+export const markAllAdminNotificationsReadAPI = async () => {
+  return apiRequest<any>('/notifications/read-all/', {
+    method: 'POST',
+  });
+};
+
+/**
+ * End an active impersonation; the CRM tokens issued for it stop working immediately
+ * POST /api/auth/impersonations/{id}/revoke/
+ */
+export const revokeImpersonationAPI = async (sessionId: number) => {
+  return apiRequest<any>(`/auth/impersonations/${sessionId}/revoke/`, {
+    method: 'POST',
+  });
+};
+
 /**
  * Exchange one-time impersonation code for tokens (used by CRM app).
  * GET /api/auth/impersonate-exchange/?code=...
@@ -618,6 +952,43 @@ export const sendAdminTenantWhatsAppAPI = async (companyId: number, message: str
   );
 };
 
+/** POST /companies/{id}/admin-whatsapp/send/ - approved template message, the only kind Meta accepts outside the 24h window */
+export const sendAdminTenantWhatsAppTemplateAPI = async (
+  companyId: number,
+  template: { name: string; language: string; parameters: string[] }
+) => {
+  return apiRequest<{ whatsapp_message_id?: string | null }>(
+    `/companies/${companyId}/admin-whatsapp/send/`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ template }),
+    }
+  );
+};
+
+/**
+ * POST /companies/{id}/admin-whatsapp/send-media/ - image, document or audio file (multipart).
+ * `caption` is dropped by Meta for audio.
+ */
+export const sendAdminTenantWhatsAppMediaAPI = async (
+  companyId: number,
+  payload: { file: Blob; filename: string; caption?: string }
+) => {
+  const formData = new FormData();
+  formData.append('file', payload.file, payload.filename);
+  if (payload.caption) formData.append('caption', payload.caption);
+  const res = await adminHttp.post<import('../types').WhatsAppMessage>(
+    `companies/${companyId}/admin-whatsapp/send-media/`,
+    formData
+  );
+  return res.data;
+};
+
+/** GET /companies/{id}/admin-whatsapp/session/ - whether the 24h customer service window is open */
+export const getAdminTenantWhatsAppSessionAPI = async (companyId: number) => {
+  return apiRequest<import('../types').WhatsAppSessionWindow>(`/companies/${companyId}/admin-whatsapp/session/`);
+};
+
 /** GET /companies/{id}/admin-whatsapp/messages/ */
 export const getAdminTenantWhatsAppMessagesAPI = async (
   companyId: number,
@@ -635,17 +1006,68 @@ export const getAdminTenantWhatsAppMessagesAPI = async (
   }>(`/companies/${companyId}/admin-whatsapp/messages/${q}`)
 };
 
+/**
+ * GET /admin-whatsapp/conversations/ - inbox across all companies, newest activity first.
+ * `search` also matches message bodies; `awaiting_reply` / `unread` narrow the list.
+ */
+export const getWhatsAppConversationsAPI = async (params?: {
+  search?: string;
+  awaiting_reply?: boolean;
+  unread?: boolean;
+  page?: number;
+  page_size?: number;
+  company__in?: CompanyScope;
+}) => {
+  if (isEmptyCompanyScope(params?.company__in)) return emptyPage<import('../types').WhatsAppConversation>();
+  const q = buildQueryString({
+    search: params?.search?.trim(),
+    awaiting_reply: params?.awaiting_reply ? 'true' : undefined,
+    unread: params?.unread ? 'true' : undefined,
+    page: params?.page,
+    page_size: params?.page_size,
+    company__in: companyScopeQuery(params?.company__in),
+  });
+  return apiRequest<PaginatedResponse<import('../types').WhatsAppConversation>>(`/admin-whatsapp/conversations/${q}`);
+};
+
+/** POST /companies/{id}/admin-whatsapp/read/ - clears the thread's unread count */
+export const markWhatsAppConversationReadAPI = async (companyId: number) => {
+  return apiRequest<import('../types').WhatsAppConversation>(`/companies/${companyId}/admin-whatsapp/read/`, {
+    method: 'POST',
+  });
+};
+
+/** POST /companies/{id}/admin-whatsapp/handled/ - mark the thread handled, or reopen it with `handled: false` */
+export const setWhatsAppConversationHandledAPI = async (companyId: number, handled: boolean) => {
+  return apiRequest<import('../types').WhatsAppConversation>(`/companies/${companyId}/admin-whatsapp/handled/`, {
+    method: 'POST',
+    body: JSON.stringify({ handled }),
+  });
+};
+
 // ==================== Invoices APIs ====================
 
 /**
  * Get all invoices
  * GET /api/invoices/
  */
-export const getInvoicesAPI = async (params?: { search?: string; ordering?: string }) => {
-  const query = buildQueryString(params ?? {});
+export const getInvoicesAPI = async (params?: { search?: string; ordering?: string; company__in?: CompanyScope }) => {
+  if (isEmptyCompanyScope(params?.company__in)) return emptyPage<unknown>();
+  const query = buildQueryString({ ...params, company__in: companyScopeQuery(params?.company__in) });
   return apiRequest<PaginatedResponse<unknown>>(`/invoices/${query}`);
 };
 
+export const getAllInvoicesAPI = async (params?: {
+  search?: string;
+  ordering?: string;
+  company?: number;
+  company__in?: CompanyScope;
+}) => {
+  if (isEmptyCompanyScope(params?.company__in)) return emptyPage<Record<string, unknown>>();
+  const query = buildQueryString({ ...params, company__in: companyScopeQuery(params?.company__in) });
+  return fetchAllPaginatedPages<Record<string, unknown>>(`/invoices/${query}`);
+};
+
 /**
  * Get invoice by ID
  * GET /api/invoices/{id}/
@@ -654,6 +1076,24 @@ export const getInvoiceAPI = async (id: number) => {
   return apiRequest<any>(`/invoices/${id}/`);
 };
 
+/**
+ * Create a manual invoice (e.g. a proration charge after a plan change)
+ * POST /api/invoices/
+ */
+export const createInvoiceAPI = async (invoiceData: {
+  company: number;
+  subscription?: number;
+  amount: number;
+  currency?: string;
+  due_date: string;
+  line_description: string;
+}) => {
+  return apiRequest<any>('/invoices/', {
+    method: 'POST',
+    body: JSON.stringify(invoiceData),
+  });
+};
+
 /** GET /api/invoices/{id}/pdf/ — raw PDF (not JSON envelope), language-aware via X-Language header. */
 export const downloadInvoicePdfAPI = async (id: number, language?: string): Promise<Blob> => {
   const res = await adminHttp.get<Blob>(`invoices/${id}/pdf/`, {
@@ -682,6 +1122,117 @@ export const updateBillingSettingsAPI = async (formData: FormData) => {
   return res.data;
 };
 
+// ==================== Coupons APIs ====================
+
+/**
+ * Get coupons
+ * GET /api/coupons/
+ */
+export const getCouponsAPI = async (params?: { search?: string; ordering?: string }) => {
+  const query = buildQueryString(params ?? {});
+  return apiRequest<PaginatedResponse<unknown>>(`/coupons/${query}`);
+};
+
+export const getAllCouponsAPI = async (params?: { search?: string; ordering?: string }) => {
+  const query = buildQueryString(params ?? {});
+  return fetchAllPaginatedPages<Record<string, unknown>>(`/coupons/${query}`);
+};
+
+/**
+ * Create coupon
+ * POST /api/coupons/
+ */
+export const createCouponAPI = async (couponData: Record<string, unknown>) => {
+  return apiRequest<any>('/coupons/', {
+    method: 'POST',
+    body: JSON.stringify(couponData),
+  });
+};
+
+/**
+ * Update coupon (partial)
+ * PATCH /api/coupons/{id}/
+ */
+export const updateCouponAPI = async (id: number, couponData: Record<string, unknown>) => {
+  return apiRequest<any>(`/coupons/${id}/`, {
+    method: 'PATCH',
+    body: JSON.stringify(couponData),
+  });
+};
+
+/**
+ * Delete coupon
+ * DELETE /api/coupons/{id}/
+ */
+export const deleteCouponAPI = async (id: number) => {
+  await apiRequest<void>(`/coupons/${id}/`, {
+    method: 'DELETE',
+  });
+};
+
+/**
+ * All coupon redemptions, optionally for one coupon
+ * GET /api/coupon-redemptions/?coupon={id}
+ */
+export const getAllCouponRedemptionsAPI = async (params?: { coupon?: number; ordering?: string }) => {
+  const query = buildQueryString(params ?? {});
+  return fetchAllPaginatedPages<Record<string, unknown>>(`/coupon-redemptions/${query}`);
+};
+
+// ==================== Dunning APIs ====================
+
+/**
+ * Get the dunning schedule (singleton)
+ * GET /api/settings/dunning/1/
+ */
+export const getDunningScheduleAPI = async () => {
+  try {
+    return await apiRequest<any>('/settings/dunning/1/');
+  } catch (error: unknown) {
+    if (isApiNotFoundError(error)) return null;
+    throw error;
+  }
+};
+
+/**
+ * Update the dunning schedule
+ * PATCH /api/settings/dunning/1/
+ */
+export const updateDunningScheduleAPI = async (scheduleData: Record<string, unknown>) => {
+  return apiRequest<any>('/settings/dunning/1/', {
+    method: 'PATCH',
+    body: JSON.stringify(scheduleData),
+  });
+};
+
+/**
+ * All dunning cases, optionally for one company or status
+ * GET /api/dunning-cases/
+ */
+export const getAllDunningCasesAPI = async (params?: {
+  company?: number;
+  company__in?: CompanyScope;
+  status?: string;
+  ordering?: string;
+}) => {
+  if (isEmptyCompanyScope(params?.company__in)) return emptyPage<Record<string, unknown>>();
+  const query = buildQueryString({ ...params, company__in: companyScopeQuery(params?.company__in) });
+  return fetchAllPaginatedPages<Record<string, unknown>>(`/dunning-cases/${query}`);
+};
+
+export type DunningCaseAction = 'skip' | 'pause' | 'resume' | 'resolve';
+
+/**
+ * Manually move a dunning case: skip the next step, pause / resume the schedule, or mark it resolved
+ * POST /api/dunning-cases/{id}/{action}/
+ */
+export const dunningCaseActionAPI = async (id: number, action: DunningCaseAction) => {
+  return apiRequest<any>(`/dunning-cases/${id}/${action}/`, {
+    method: 'POST',
+    body: JSON.stringify({}),
+  });
+};
+
 // ==================== Platform Content (Guide + News) ====================
 
 export type GuideCategoryPayload = {
@@ -904,11 +1455,18 @@ export const upsertPageHelpVideoAPI = async (payload: {
  * Get all broadcasts
  * GET /api/broadcasts/
  */
-export const getBroadcastsAPI = async (params?: { search?: string; ordering?: string }) => {
-  const query = buildQueryString(params ?? {});
+export const getBroadcastsAPI = async (params?: { search?: string; ordering?: string; company__in?: CompanyScope }) => {
+  if (isEmptyCompanyScope(params?.company__in)) return emptyPage<unknown>();
+  const query = buildQueryString({ ...params, company__in: companyScopeQuery(params?.company__in) });
   return apiRequest<PaginatedResponse<unknown>>(`/broadcasts/${query}`);
 };
 
+export const getAllBroadcastsAPI = async (params?: { search?: string; ordering?: string; company__in?: CompanyScope }) => {
+  if (isEmptyCompanyScope(params?.company__in)) return emptyPage<Record<string, unknown>>();
+  const query = buildQueryString({ ...params, company__in: companyScopeQuery(params?.company__in) });
+  return fetchAllPaginatedPages<Record<string, unknown>>(`/broadcasts/${query}`);
+};
+
 /**
  * Get broadcast by ID
  * GET /api/broadcasts/{id}/
@@ -970,6 +1528,49 @@ export const scheduleBroadcastAPI = async (id: number, scheduledAt: string) => {
   });
 };
 
+/** GET /broadcasts/{id}/recipients/ - per-recipient delivery status, filterable by status and company */
+export const getBroadcastRecipientsAPI = async (
+  id: number,
+  params?: {
+    status?: import('../types').BroadcastRecipientStatus | '';
+    company?: number | null;
+    search?: string;
+    page?: number;
+    page_size?: number;
+  },
+) => {
+  const query = buildQueryString(params ?? {});
+  return apiRequest<PaginatedResponse<import('../types').BroadcastRecipient>>(`/broadcasts/${id}/recipients/${query}`);
+};
+
+/** GET /broadcasts/delivery-trend/ - delivery counters of the latest sent email/push broadcasts */
+export const getBroadcastDeliveryTrendAPI = async (params?: { broadcast_type?: string; limit?: number }) => {
+  const query = buildQueryString(params ?? {});
+  return apiRequest<import('../types').BroadcastDeliveryTrendPoint[]>(`/broadcasts/delivery-trend/${query}`);
+};
+
+/** POST /broadcasts/{id}/resend-failed/ - creates and sends a new broadcast to the bounced/failed recipients */
+export const resendFailedBroadcastRecipientsAPI = async (id: number) => {
+  return apiRequest<any>(`/broadcasts/${id}/resend-failed/`, {
+    method: 'POST',
+  });
+};
+
+/**
+ * Resolve targets to recipients without sending: counts per target, the de-duplicated union and a sample.
+ * POST /api/broadcasts/preview-audience/
+ */
+export const previewBroadcastAudienceAPI = async (body: {
+  targets: string[];
+  channel: import('../types').BroadcastChannel;
+  sample_size?: number;
+}) => {
+  return apiRequest<import('../types').BroadcastAudiencePreview>('/broadcasts/preview-audience/', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+};
+
 /**
  * Send SMS broadcast to targets (same as broadcast: all, plan_X, role_*, company_X).
  * POST /api/broadcasts/send-sms/
@@ -1107,15 +1708,66 @@ export async function getSystemBackupDownloadResponse(id: string): Promise<Respo
   });
 }
 
+export type AuditLogQueryParams = {
+  page?: number;
+  page_size?: number;
+  /** Actor email (exact match). */
+  actor?: string;
+  /** Action key, e.g. `audit.log.tenantUpdated`. */
+  action?: string;
+  /** Company id the entry touched (metadata `company_id`). */
+  company?: number | string;
+  /** Inclusive YYYY-MM-DD bounds on the entry timestamp. */
+  date_from?: string;
+  date_to?: string;
+};
+
 /**
  * Get audit logs for system actions
- * GET /api/settings/audit-logs/
+ * GET /api/settings/audit-logs/?actor=&action=&company=&date_from=&date_to=
  */
-export const getSystemAuditLogsAPI = async (params?: { page?: number }) => {
+export const getSystemAuditLogsAPI = async (params?: AuditLogQueryParams) => {
   const query = buildQueryString(params ?? {});
   return apiRequest<PaginatedResponse<unknown>>(`/settings/audit-logs/${query}`);
 };
 
+export type AuditLogFacets = {
+  actors: Array<{ value: string; count: number }>;
+  actions: Array<{ value: string; count: number }>;
+};
+
+/**
+ * Actor / action counts for the filtered audit log (whole result set, not one page)
+ * GET /api/settings/audit-logs/facets/
+ */
+export const getSystemAuditLogFacetsAPI = async (
+  params?: Omit<AuditLogQueryParams, 'page' | 'page_size'>
+) => {
+  const query = buildQueryString(params ?? {});
+  return apiRequest<AuditLogFacets>(`/settings/audit-logs/facets/${query}`);
+};
+
+export type AuditLogEntryPayload = {
+  action: string;
+  metadata: Record<string, unknown>;
+  /** Browser-generated id so a retried send is not recorded twice. */
+  client_id: string;
+  /** When the action happened in the panel (may be earlier than the send for queued entries). */
+  occurred_at: string;
+  actor_email?: string;
+};
+
+/**
+ * Record a panel-side action in the server audit log
+ * POST /api/settings/audit-logs/
+ */
+export const createSystemAuditLogAPI = async (entry: AuditLogEntryPayload) => {
+  return apiRequest<any>('/settings/audit-logs/', {
+    method: 'POST',
+    body: JSON.stringify(entry),
+  });
+};
+
 // ==================== System Settings APIs ====================
 
 /**
@@ -1161,6 +1813,12 @@ export const updateSystemSettingsAPI = async (settingsData: {
   login_lockout_enabled?: boolean;
   login_max_failed_attempts?: number;
   login_lockout_duration_minutes?: number;
+  require_2fa_for_limited_admins?: boolean;
+  idle_timeout_enabled?: boolean;
+  idle_timeout_minutes?: number;
+  impersonation_default_minutes?: number;
+  impersonation_max_minutes?: number;
+  ticket_sla_targets?: import('../types').TicketSlaTargets;
 }) => {
   return apiRequest<any>('/settings/system/1/', {
     method: 'PATCH',
@@ -1283,6 +1941,19 @@ export const updatePlatformWhatsAppSettingsAPI = async (data: {
   });
 };
 
+/** GET /settings/platform-whatsapp/templates/ - templates last synced from Meta, every page */
+export const getWhatsAppTemplatesAPI = async (params?: { status?: import('../types').WhatsAppTemplateStatus }) => {
+  const query = buildQueryString({ status: params?.status, ordering: 'name' });
+  return fetchAllPaginatedPages<import('../types').WhatsAppTemplate>(`/settings/platform-whatsapp/templates/${query}`);
+};
+
+/** POST /settings/platform-whatsapp/templates/sync/ - refetch templates from the Meta Business account */
+export const syncWhatsAppTemplatesAPI = async () => {
+  return apiRequest<{ synced: number; approved: number }>('/settings/platform-whatsapp/templates/sync/', {
+    method: 'POST',
+  });
+};
+
 // ==================== Limited Admins APIs ====================
 
 /**
@@ -1322,6 +1993,7 @@ export const createLimitedAdminAPI = async (adminData: {
   can_manage_content?: boolean;
   can_manage_settings?: boolean;
   can_manage_limited_admins?: boolean;
+  role?: number | null;
 }) => {
   return apiRequest<any>('/limited-admins/', {
     method: 'POST',
@@ -1360,12 +2032,68 @@ export const toggleLimitedAdminActiveAPI = async (id: number) => {
   });
 };
 
+// ==================== Admin Roles APIs ====================
+
+/**
+ * Get every admin role
+ * GET /api/admin-roles/
+ */
+export const getAllAdminRolesAPI = async () => {
+  return fetchAllPaginatedPages<Record<string, unknown>>('/admin-roles/');
+};
+
+/**
+ * Create admin role
+ * POST /api/admin-roles/
+ */
+export const createAdminRoleAPI = async (payload: Record<string, unknown>) => {
+  return apiRequest<any>('/admin-roles/', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+};
+
+/**
+ * Update admin role; limited admins holding it pick up the change on their next request
+ * PATCH /api/admin-roles/{id}/
+ */
+export const updateAdminRoleAPI = async (id: number, payload: Record<string, unknown>) => {
+  return apiRequest<any>(`/admin-roles/${id}/`, {
+    method: 'PATCH',
+    body: JSON.stringify(payload),
+  });
+};
+
+/**
+ * Delete admin role (rejected while limited admins still hold it)
+ * DELETE /api/admin-roles/{id}/
+ */
+export const deleteAdminRoleAPI = async (id: number) => {
+  return apiRequest<void>(`/admin-roles/${id}/`, {
+    method: 'DELETE',
+  });
+};
+
 /** GET /api/support-tickets/ - list all support tickets (super admin) */
-export const getSupportTicketsAPI = async (params?: { page?: number; page_size?: number }) => {
-  const query = buildQueryString(params ?? {});
+export const getSupportTicketsAPI = async (params?: {
+  page?: number;
+  page_size?: number;
+  company?: number;
+  company__in?: CompanyScope;
+  status?: string;
+}) => {
+  if (isEmptyCompanyScope(params?.company__in)) return emptyPage<unknown>();
+  const query = buildQueryString({ ...params, company__in: companyScopeQuery(params?.company__in) });
   return apiRequest<PaginatedResponse<unknown>>(`/support-tickets/${query}`);
 };
 
+/** GET /api/support-tickets/ - every page, for the tickets page, tenant details and exports */
+export const getAllSupportTicketsAPI = async (params?: { company?: number; company__in?: CompanyScope; ordering?: string }) => {
+  if (isEmptyCompanyScope(params?.company__in)) return emptyPage<Record<string, unknown>>();
+  const query = buildQueryString({ ...params, company__in: companyScopeQuery(params?.company__in) });
+  return fetchAllPaginatedPages<Record<string, unknown>>(`/support-tickets/${query}`);
+};
+
 /** GET /api/support-tickets/{id}/ - get one ticket */
 export const getSupportTicketAPI = async (id: number) => {
   return apiRequest<any>(`/support-tickets/${id}/`);
@@ -1379,6 +2107,57 @@ export const updateSupportTicketStatusAPI = async (id: number, data: { status: s
   });
 };
 
+/** PATCH /api/support-tickets/{id}/ - triage fields; `assigned_to: null` unassigns */
+export const updateSupportTicketAPI = async (
+  id: number,
+  data: Partial<{
+    status: import('../types').TicketStatus;
+    priority: import('../types').TicketPriority;
+    category: import('../types').TicketCategory | null;
+    assigned_to: number | null;
+  }>,
+) => {
+  return apiRequest<import('../types').SupportTicket>(`/support-tickets/${id}/`, {
+    method: 'PATCH',
+    body: JSON.stringify(data),
+  });
+};
+
+/** GET /api/support-tickets/{id}/messages/ - the ticket thread, oldest first (includes internal notes) */
+export const getSupportTicketMessagesAPI = async (ticketId: number) => {
+  return fetchAllPaginatedPages<import('../types').TicketMessage>(`/support-tickets/${ticketId}/messages/`);
+};
+
+export type SupportTicketReplyPayload = {
+  body: string;
+  /** Internal notes stay with staff; the notify flags are ignored for them */
+  is_internal: boolean;
+  notify_email: boolean;
+  notify_whatsapp: boolean;
+  attachments: File[];
+  /** Macro status change applied by the server together with the message */
+  status?: import('../types').TicketStatus;
+};
+
+/**
+ * POST /api/support-tickets/{id}/messages/ - reply or add an internal note (multipart, `attachments` repeated per file).
+ * Returns the created message and the ticket as updated by the server (e.g. a staff reply moves `open` to `in_progress`).
+ */
+export const createSupportTicketMessageAPI = async (ticketId: number, payload: SupportTicketReplyPayload) => {
+  const formData = new FormData();
+  formData.append('body', payload.body);
+  formData.append('is_internal', payload.is_internal ? 'true' : 'false');
+  formData.append('notify_email', !payload.is_internal && payload.notify_email ? 'true' : 'false');
+  formData.append('notify_whatsapp', !payload.is_internal && payload.notify_whatsapp ? 'true' : 'false');
+  payload.attachments.forEach((file) => formData.append('attachments', file));
+  if (payload.status) formData.append('status', payload.status);
+  const res = await adminHttp.post<{
+    message: import('../types').TicketMessage;
+    ticket?: import('../types').SupportTicket;
+  }>(`support-tickets/${ticketId}/messages/`, formData);
+  return res.data;
+};
+
 /** DELETE /api/support-tickets/{id}/ - delete a support ticket (super admin) */
 export const deleteSupportTicketAPI = async (id: number) => {
   await apiRequest<void>(`/support-tickets/${id}/`, {
@@ -1386,3 +2165,33 @@ export const deleteSupportTicketAPI = async (id: number) => {
   });
 };
 
+// ==================== Canned Responses APIs ====================
+
+export type CannedResponsePayload = Omit<import('../types').CannedResponse, 'id' | 'created_at' | 'updated_at'>;
+
+/** GET /api/canned-responses/ - every page (the library is small and filtered client-side) */
+export const getAllCannedResponsesAPI = async () => {
+  return fetchAllPaginatedPages<import('../types').CannedResponse>('/canned-responses/?ordering=title');
+};
+
+/** POST /api/canned-responses/ */
+export const createCannedResponseAPI = async (payload: CannedResponsePayload) => {
+  return apiRequest<import('../types').CannedResponse>('/canned-responses/', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+};
+
+/** PATCH /api/canned-responses/{id}/ */
+export const updateCannedResponseAPI = async (id: number, payload: Partial<CannedResponsePayload>) => {
+  return apiRequest<import('../types').CannedResponse>(`/canned-responses/${id}/`, {
+    method: 'PATCH',
+    body: JSON.stringify(payload),
+  });
+};
+
+/** DELETE /api/canned-responses/{id}/ */
+export const deleteCannedResponseAPI = async (id: number) => {
+  return apiRequest<void>(`/canned-responses/${id}/`, { method: 'DELETE' });
+};
+
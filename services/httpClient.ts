@@ -9,6 +9,7 @@ import {
   type ApiError,
 } from './apiEnvelope';
 import { notifyAdminMaintenanceMode } from '../utils/maintenanceMode';
+import { notifyAdminSessionEnded } from '../utils/sessionEvents';
 
 /** Prefer canonical /api/v1/; accepts legacy VITE_API_URL ending in /api. */
 export function normalizeAdminApiBaseUrl(raw: string): string {
@@ -94,11 +95,13 @@ adminHttp.interceptors.request.use((config) => {
   return config;
 });
 
+/** A 401 from these means bad credentials, not an expired token, so it must not refresh or end the session. */
 function isAuthNoRetryPath(path: string): boolean {
   return (
     path.includes('auth/login') ||
     path.includes('auth/refresh') ||
-    path.includes('auth/impersonate-exchange')
+    path.includes('auth/impersonate-exchange') ||
+    path.includes('auth/verify-password')
   );
 }
 
@@ -119,6 +122,16 @@ adminHttp.interceptors.response.use(
     const status = error.response?.status;
     const path = originalRequest?.url || '';
 
+    // A revoked session cannot be refreshed (its refresh token is blacklisted too), so end it right away
+    if (status === 401 && !isAuthNoRetryPath(path)) {
+      const parsed = parseErrorPayload(error.response?.data, status);
+      if (parsed.code === 'session_revoked') {
+        clearAuthStorage();
+        notifyAdminSessionEnded('revoked');
+        throwApiError(status, error.response?.data);
+      }
+    }
+
     if (status === 401 && originalRequest && !originalRequest._retry && !isAuthNoRetryPath(path)) {
       originalRequest._retry = true;
       try {
@@ -126,6 +139,7 @@ adminHttp.interceptors.response.use(
         return adminHttp.request(originalRequest);
       } catch {
         clearAuthStorage();
+        notifyAdminSessionEnded('expired');
         throw new Error('Session expired. Please login again.');
       }
     }
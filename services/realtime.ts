@@ -0,0 +1,274 @@
+/**
+ * Shared realtime client: one server event stream (SSE, or WebSocket for ws:// URLs) for the whole panel.
+ * Reconnects with exponential backoff; while the stream is down, emits a `resync` tick on an interval so
+ * subscribers fall back to polling the REST API. A `resync` is also emitted after every reconnect,
+ * since events sent while disconnected are not replayed.
+ */
+import { ADMIN_API_BASE_URL } from './httpClient';
+import { unwrapApiData } from './apiEnvelope';
+import { createRealtimeTicketAPI } from './api';
+import type { WhatsAppMessage, WhatsAppMessageStatus } from '../types';
+
+export type RealtimeEvent =
+  | { type: 'ticket.created'; ticket: Record<string, any> }
+  | { type: 'ticket.status_changed'; ticket_id: number; status: string; company_id?: number | null }
+  /** New thread entry; `ticket_status` is set when the message changed the status (e.g. a tenant reply reopening it). */
+  | {
+      type: 'ticket.message_created';
+      ticket_id: number;
+      company_id?: number | null;
+      message: Record<string, any>;
+      ticket_status?: string;
+    }
+  | {
+      type: 'whatsapp.message_received';
+      company_id: number;
+      company_name?: string;
+      message: WhatsAppMessage;
+    }
+  /** Webhook receipt for an outbound message (sent, delivered, read or failed) */
+  | {
+      type: 'whatsapp.message_status';
+      company_id: number;
+      message_id: number;
+      whatsapp_message_id?: string | null;
+      status: WhatsAppMessageStatus;
+      error_message?: string | null;
+      timestamp?: string;
+    }
+  | {
+      type: 'payment.succeeded' | 'payment.failed';
+      payment_id: number;
+      company_id: number;
+      company_name?: string;
+      amount?: number | string;
+      currency?: string;
+    }
+  | { type: 'maintenance.toggled'; maintenance_mode: boolean; message?: string }
+  /** Row for the header notification center, same shape as `/notifications/` results. */
+  | { type: 'notification.created'; notification: Record<string, any> }
+  /** Synthetic: refetch from the API (polling fallback tick, or just reconnected). */
+  | { type: 'resync' };
+
+export type RealtimeEventType = RealtimeEvent['type'];
+export type RealtimeEventOf<T extends RealtimeEventType> = Extract<RealtimeEvent, { type: T }>;
+
+/** `polling`: the stream is unavailable and `resync` ticks stand in for events. */
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'polling';
+
+const SERVER_EVENT_TYPES: RealtimeEventType[] = [
+  'ticket.created',
+  'ticket.status_changed',
+  'ticket.message_created',
+  'whatsapp.message_received',
+  'whatsapp.message_status',
+  'payment.succeeded',
+  'payment.failed',
+  'maintenance.toggled',
+  'notification.created',
+];
+
+/**
+ * `VITE_REALTIME_URL` overrides the default SSE endpoint (e.g. `http://localhost:4010/events` for `npm run mock:realtime`).
+ * The stream URL carries only a short-lived ticket, never the JWT or API key, since query strings end up in proxy logs.
+ */
+export const REALTIME_URL =
+  import.meta.env.VITE_REALTIME_URL || (ADMIN_API_BASE_URL ? `${ADMIN_API_BASE_URL}/realtime/events/` : '');
+
+const BACKOFF_BASE_MS = 1_000;
+const BACKOFF_MAX_MS = 30_000;
+/** Failed attempts in a row before switching pages over to polling. */
+const FAILURES_BEFORE_POLLING = 3;
+export const REALTIME_POLL_INTERVAL_MS = 30_000;
+
+type Listener = (event: RealtimeEvent) => void;
+
+const listeners = new Map<RealtimeEventType, Set<Listener>>();
+const statusListeners = new Set<(status: RealtimeStatus) => void>();
+
+let status: RealtimeStatus = 'idle';
+let running = false;
+let source: EventSource | WebSocket | null = null;
+let failures = 0;
+let hasConnectedBefore = false;
+let reconnectTimer: number | undefined;
+let pollTimer: number | undefined;
+/** Bumped on every connect/stop so a ticket that arrives late does not open a stale stream. */
+let connectAttempt = 0;
+
+function setStatus(next: RealtimeStatus): void {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach((listener) => listener(next));
+}
+
+function emit(event: RealtimeEvent): void {
+  listeners.get(event.type)?.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Realtime listener failed:', error);
+    }
+  });
+}
+
+/** Parses one frame; accepts the bare event or the API envelope around it. Unknown types are dropped. */
+function parseEvent(raw: string): RealtimeEvent | null {
+  try {
+    const data = unwrapApiData<Record<string, unknown>>(JSON.parse(raw));
+    if (!data || typeof data.type !== 'string') return null;
+    if (!SERVER_EVENT_TYPES.includes(data.type as RealtimeEventType)) return null;
+    return data as unknown as RealtimeEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * EventSource and browser WebSockets cannot send headers, so the stream is opened with a single-use
+ * ticket fetched through the authenticated API instead of the access token itself.
+ */
+async function buildStreamUrl(): Promise<string> {
+  const { ticket } = await createRealtimeTicketAPI();
+  const url = new URL(REALTIME_URL, window.location.href);
+  url.searchParams.set('ticket', ticket);
+  return url.toString();
+}
+
+function startPolling(): void {
+  if (pollTimer !== undefined) return;
+  setStatus('polling');
+  emit({ type: 'resync' });
+  pollTimer = window.setInterval(() => emit({ type: 'resync' }), REALTIME_POLL_INTERVAL_MS);
+}
+
+function stopPolling(): void {
+  if (pollTimer === undefined) return;
+  window.clearInterval(pollTimer);
+  pollTimer = undefined;
+}
+
+function closeSource(): void {
+  if (!source) return;
+  const current = source;
+  source = null;
+  current.onopen = null;
+  current.onmessage = null;
+  current.onerror = null;
+  if ('onclose' in current) current.onclose = null;
+  current.close();
+}
+
+function scheduleReconnect(): void {
+  closeSource();
+  if (!running) return;
+  failures += 1;
+  if (failures >= FAILURES_BEFORE_POLLING) {
+    startPolling();
+  } else if (status !== 'polling') {
+    setStatus('connecting');
+  }
+  // Full jitter keeps many open tabs from reconnecting in lockstep after a server restart
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (failures - 1));
+  const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  window.clearTimeout(reconnectTimer);
+  reconnectTimer = window.setTimeout(() => void connect(), delay);
+}
+
+function handleOpen(): void {
+  failures = 0;
+  stopPolling();
+  setStatus('open');
+  if (hasConnectedBefore) emit({ type: 'resync' });
+  hasConnectedBefore = true;
+}
+
+function handleMessage(raw: unknown): void {
+  if (typeof raw !== 'string') return;
+  const event = parseEvent(raw);
+  if (event) emit(event);
+}
+
+async function connect(): Promise<void> {
+  if (!running) return;
+  const attempt = ++connectAttempt;
+  const useWebSocket = /^wss?:\/\//i.test(REALTIME_URL);
+  const supported = useWebSocket ? typeof WebSocket !== 'undefined' : typeof EventSource !== 'undefined';
+  if (!REALTIME_URL || !supported) {
+    startPolling();
+    return;
+  }
+  if (status !== 'polling') setStatus('connecting');
+  try {
+    const streamUrl = await buildStreamUrl();
+    if (!running || attempt !== connectAttempt) return;
+    if (useWebSocket) {
+      const ws = new WebSocket(streamUrl);
+      ws.onopen = handleOpen;
+      ws.onmessage = (e) => handleMessage(e.data);
+      ws.onerror = () => ws.close();
+      ws.onclose = scheduleReconnect;
+      source = ws;
+    } else {
+      const es = new EventSource(streamUrl);
+      es.onopen = handleOpen;
+      es.onmessage = (e) => handleMessage(e.data);
+      // EventSource retries on its own but without backoff or a fresh ticket; take over instead
+      es.onerror = scheduleReconnect;
+      source = es;
+    }
+  } catch (error) {
+    if (!running || attempt !== connectAttempt) return;
+    console.error('Realtime connection failed:', error);
+    scheduleReconnect();
+  }
+}
+
+/** Opens the stream for the signed-in admin. Safe to call more than once. */
+export function startRealtime(): void {
+  if (running || typeof window === 'undefined') return;
+  running = true;
+  failures = 0;
+  hasConnectedBefore = false;
+  void connect();
+}
+
+/** Closes the stream and stops polling (sign-out). */
+export function stopRealtime(): void {
+  running = false;
+  connectAttempt += 1;
+  window.clearTimeout(reconnectTimer);
+  stopPolling();
+  closeSource();
+  setStatus('idle');
+}
+
+/** Reconnect now, e.g. after the access token was refreshed or the browser came back online. */
+export function reconnectRealtime(): void {
+  if (!running) return;
+  window.clearTimeout(reconnectTimer);
+  closeSource();
+  failures = 0;
+  void connect();
+}
+
+export function getRealtimeStatus(): RealtimeStatus {
+  return status;
+}
+
+export function subscribeRealtime<T extends RealtimeEventType>(
+  types: T[],
+  listener: (event: RealtimeEventOf<T>) => void,
+): () => void {
+  const wrapped = listener as Listener;
+  types.forEach((type) => {
+    if (!listeners.has(type)) listeners.set(type, new Set());
+    listeners.get(type)!.add(wrapped);
+  });
+  return () => types.forEach((type) => listeners.get(type)?.delete(wrapped));
+}
+
+export function subscribeRealtimeStatus(listener: (status: RealtimeStatus) => void): () => void {
+  statusListeners.add(listener);
+  return () => statusListeners.delete(listener);
+}
@@ -1,17 +1,163 @@
 
-export type Page = 'Dashboard' | 'Tenants' | 'AddTenant' | 'TenantWhatsApp' | 'Subscriptions' | 'Reports' | 'Communication' | 'Content' | 'Settings' | 'PaymentGateways' | 'SupportTickets';
+export type Page = 'Dashboard' | 'Tenants' | 'AddTenant' | 'TenantWhatsApp' | 'Subscriptions' | 'Reports' | 'Communication' | 'Content' | 'Settings' | 'PaymentGateways' | 'SupportTickets' | 'AccountSecurity';
 
 export type TicketStatus = 'open' | 'in_progress' | 'closed';
 
+export type TicketPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export type TicketCategory = 'billing' | 'technical' | 'account' | 'whatsapp' | 'feature_request' | 'other';
+
 export interface SupportTicket {
   id: number;
   title: string;
   description: string;
   status: TicketStatus;
+  priority?: TicketPriority;
+  category?: TicketCategory | null;
+  /** User id of the assigned admin (limited admins are assigned by their `user.id`) */
+  assigned_to?: number | null;
+  assigned_to_username?: string | null;
+  /** First non-internal staff reply; stops the first-response SLA clock */
+  first_response_at?: string | null;
+  /** When the ticket was last closed; stops the resolution SLA clock */
+  resolved_at?: string | null;
+  company?: number;
   company_name?: string;
   created_by_username?: string;
   created_at: string;
   updated_at: string;
+  /** Screenshots attached when the tenant opened the ticket */
+  attachments?: TicketAttachment[];
+  messages_count?: number;
+  last_message_at?: string | null;
+}
+
+export interface TicketAttachment {
+  id: number;
+  url: string;
+  name?: string;
+  content_type?: string;
+  size?: number;
+}
+
+/** SLA targets for one priority, in minutes from ticket creation */
+export interface TicketSlaTarget {
+  first_response_minutes: number;
+  resolution_minutes: number;
+}
+
+/** System settings `ticket_sla_targets` */
+export type TicketSlaTargets = Record<TicketPriority, TicketSlaTarget>;
+
+/**
+ * `on_track` / `at_risk` / `breached` while a target is still running; `met` once both targets were reached in time.
+ * A closed ticket that missed either target stays `breached`.
+ */
+export type TicketSlaState = 'on_track' | 'at_risk' | 'breached' | 'met';
+
+/** `staff`: platform admins; `tenant`: users of the company that opened the ticket */
+export type TicketMessageAuthorRole = 'staff' | 'tenant';
+
+/** One entry in a ticket thread (GET /support-tickets/{id}/messages/) */
+export interface TicketMessage {
+  id: number;
+  ticket: number;
+  author_name: string;
+  author_role: TicketMessageAuthorRole;
+  body: string;
+  /** Internal notes are only visible to platform staff and never notify the tenant */
+  is_internal: boolean;
+  attachments: TicketAttachment[];
+  /** Channels the tenant was notified on for this reply */
+  notified_via?: Array<'email' | 'whatsapp'>;
+  created_at: string;
+}
+
+/** Where a canned response is offered: the tenant WhatsApp composer, ticket replies, or both */
+export type CannedResponseScope = 'all' | 'whatsapp' | 'tickets';
+
+/** Saved reply (GET /canned-responses/); bodies may contain `{{variable}}` placeholders filled from the tenant record */
+export interface CannedResponse {
+  id: number;
+  title: string;
+  body_en: string;
+  body_ar: string;
+  scope: CannedResponseScope;
+  /** Macro: status applied to the ticket together with the reply (ticket replies only) */
+  set_ticket_status?: TicketStatus | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** Receipt state of an outbound message, advanced by Meta webhook status updates */
+export type WhatsAppMessageStatus = 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export type WhatsAppMediaType = 'image' | 'document' | 'audio' | 'video';
+
+/** Thread row (GET /companies/{id}/admin-whatsapp/messages/) */
+export interface WhatsAppMessage {
+  id: number;
+  direction: 'inbound' | 'outbound';
+  /** Text, or the caption of a media message (may be empty) */
+  body: string;
+  created_at: string;
+  whatsapp_message_id?: string | null;
+  media_type?: WhatsAppMediaType | null;
+  /** Proxied through the API, since Meta media links need the access token */
+  media_url?: string | null;
+  media_filename?: string | null;
+  media_mime_type?: string | null;
+  media_size?: number | null;
+  /** Outbound only */
+  status?: WhatsAppMessageStatus | null;
+  status_updated_at?: string | null;
+  /** Meta's reason when `status` is `failed` */
+  error_message?: string | null;
+}
+
+/** Inbox row (GET /admin-whatsapp/conversations/): one company's thread with the platform WhatsApp number */
+export interface WhatsAppConversation {
+  company_id: number;
+  company_name: string;
+  owner_phone?: string | null;
+  last_message_body: string;
+  last_message_direction: 'inbound' | 'outbound';
+  last_message_media_type?: WhatsAppMediaType | null;
+  last_message_at: string;
+  /** Inbound messages not yet opened by any admin */
+  unread_count: number;
+  /** Last message is from the tenant and nobody replied or marked the thread handled since */
+  awaiting_reply: boolean;
+  handled_at?: string | null;
+  handled_by_username?: string | null;
+  /** Newest message body matching `search`, only present on searched lists */
+  matched_body?: string | null;
+}
+
+export type WhatsAppTemplateCategory = 'UTILITY' | 'MARKETING' | 'AUTHENTICATION';
+
+export type WhatsAppTemplateStatus = 'APPROVED' | 'PENDING' | 'REJECTED' | 'PAUSED' | 'DISABLED';
+
+/** Message template synced from Meta (GET /settings/platform-whatsapp/templates/) */
+export interface WhatsAppTemplate {
+  id: number;
+  name: string;
+  /** Meta language code, e.g. `en_US` or `ar` */
+  language: string;
+  category: WhatsAppTemplateCategory;
+  status: WhatsAppTemplateStatus;
+  /** Body text with Meta's numbered `{{1}}` slots */
+  body: string;
+  header_text?: string | null;
+  footer_text?: string | null;
+  synced_at?: string | null;
+}
+
+/** Meta's 24-hour customer service window for one company's thread; free-form text is only accepted while open */
+export interface WhatsAppSessionWindow {
+  is_open: boolean;
+  last_inbound_at: string | null;
+  expires_at: string | null;
 }
 
 export enum TenantStatus {
@@ -106,6 +252,141 @@ export interface Invoice {
     planName: string;
     createdAt?: string;
     paymentId?: number | null;
+    /** Amount before discount; equals `amount` when no coupon was applied. */
+    subtotal?: number;
+    discountAmount?: number;
+    couponCode?: string | null;
+}
+
+export type CouponDiscountType = 'percent' | 'fixed';
+
+/** `once`: only the first payment of a subscription is discounted; `recurring`: every payment. */
+export type CouponDuration = 'once' | 'recurring';
+
+export interface Coupon {
+    id: number;
+    code: string;
+    description: string;
+    discountType: CouponDiscountType;
+    /** Percent (0-100) or a fixed USD amount, depending on `discountType`. */
+    value: number;
+    /** Plans the code applies to; empty means every paid plan. */
+    planIds: number[];
+    maxRedemptions: number | null;
+    timesRedeemed: number;
+    /** YYYY-MM-DD; the coupon stops applying after this day. */
+    expiresAt: string | null;
+    duration: CouponDuration;
+    isActive: boolean;
+    createdAt?: string;
+}
+
+/** What a dunning step does when it fires; `deactivate` switches the tenant's subscription off. */
+export type DunningAction = 'email' | 'whatsapp' | 'sms' | 'deactivate';
+
+export interface DunningStep {
+    /** Days after the payment failed (or went pending). */
+    day: number;
+    action: DunningAction;
+    enabled: boolean;
+}
+
+export interface DunningSchedule {
+    enabled: boolean;
+    steps: DunningStep[];
+}
+
+export interface DunningCase {
+    id: number;
+    companyId: number;
+    companyName: string;
+    paymentId: number | null;
+    amount: number;
+    currency: string;
+    paymentStatus: 'failed' | 'pending';
+    status: 'active' | 'paused' | 'resolved' | 'deactivated';
+    /**
+     * Day offset of the last step that ran (null before the first one). Days are unique within a schedule,
+     * so this keeps pointing at the same step when steps are added, removed or reordered.
+     */
+    currentStepDay: number | null;
+    /** Action of that step as it ran, so it can still be shown after the step is removed from the schedule. */
+    currentStepAction: DunningAction | null;
+    startedAt: string;
+    nextActionAt: string | null;
+    lastActionAt: string | null;
+}
+
+/** A signed-in admin device (one refresh token family) as reported by `/auth/sessions/`. */
+export interface AdminSession {
+    id: string;
+    userId: number;
+    username: string;
+    userAgent: string;
+    ipAddress: string;
+    location: string;
+    createdAt: string;
+    lastActivityAt: string;
+    isCurrent: boolean;
+}
+
+export type AdminNotificationType =
+    | 'ticket_created'
+    | 'payment_failed'
+    | 'subscription_expiring'
+    | 'backup_failed'
+    | 'gateway_test_failed';
+
+/** Entry in the header notification center; text is rendered client-side from `type` + `params`. */
+export interface AdminNotification {
+    id: number;
+    type: AdminNotificationType;
+    /** Values for the message placeholders, e.g. `{ company: 'Acme', days: 3 }`. */
+    params: Record<string, string | number>;
+    /** Server-provided text, used when the type is unknown to this build. */
+    message: string;
+    /** Relative path in this panel; derived from the type when the server omits it. */
+    link: string | null;
+    companyId: number | null;
+    createdAt: string;
+    readAt: string | null;
+}
+
+export type ImpersonationStatus = 'active' | 'expired' | 'revoked' | 'ended';
+
+/** One impersonation of a company owner, from start to expiry or revocation. */
+export interface ImpersonationSession {
+    id: number;
+    adminId: number;
+    adminUsername: string;
+    companyId: number;
+    companyName: string;
+    targetUsername: string;
+    reason: string;
+    ticketId: number | null;
+    ticketTitle: string;
+    durationMinutes: number;
+    startedAt: string;
+    expiresAt: string;
+    /** When the session actually stopped (expiry, revocation or the CRM logging out); empty while active. */
+    endedAt: string;
+    endedByUsername: string;
+    status: ImpersonationStatus;
+    ipAddress: string;
+    userAgent: string;
+    location: string;
+}
+
+export interface CouponRedemption {
+    id: number;
+    couponId: number;
+    couponCode: string;
+    companyName: string;
+    planName: string;
+    invoiceNumber: string;
+    discountAmount: number;
+    currency: string;
+    redeemedAt: string;
 }
 
 /** Platform billing / PDF branding (singleton). */
@@ -142,6 +423,82 @@ export interface Broadcast {
     createdAt: string;
     scheduledAt?: string | null;
     sentAt?: string | null;
+    /** Delivery counters for sent email/push broadcasts; absent for SMS and unsent ones. */
+    stats?: BroadcastDeliveryStats | null;
+    /** Set when this broadcast re-sends the failed recipients of an earlier one. */
+    resendOf?: number | null;
+}
+
+/** Where one recipient's copy of a broadcast got to; opened and clicked imply delivered. */
+export type BroadcastRecipientStatus = 'queued' | 'delivered' | 'bounced' | 'opened' | 'clicked' | 'failed';
+
+/** Recipients by their current status, so the counters add up to `total`. */
+export interface BroadcastDeliveryStats {
+    total: number;
+    queued: number;
+    delivered: number;
+    bounced: number;
+    opened: number;
+    clicked: number;
+    failed: number;
+    /** Most common bounce/failure reasons, largest first. */
+    failure_reasons: { reason: string; count: number }[];
+}
+
+export interface BroadcastRecipient {
+    id: number;
+    user_id?: number | null;
+    name: string;
+    email?: string | null;
+    company_id?: number | null;
+    company_name?: string | null;
+    status: BroadcastRecipientStatus;
+    error_message?: string | null;
+    updated_at?: string | null;
+}
+
+/** One broadcast in the delivery trend (GET /broadcasts/delivery-trend/), oldest first. */
+export interface BroadcastDeliveryTrendPoint {
+    broadcast_id: number;
+    subject: string;
+    broadcast_type: BroadcastType;
+    sent_at: string;
+    total: number;
+    delivered: number;
+    opened: number;
+    clicked: number;
+    bounced: number;
+    failed: number;
+}
+
+/** Delivery channel an audience is resolved for; decides which contact detail makes a recipient reachable. */
+export type BroadcastChannel = BroadcastType | 'sms';
+
+export interface BroadcastAudienceRecipient {
+    id: number;
+    name: string;
+    email?: string | null;
+    phone?: string | null;
+    company_name?: string | null;
+    role?: string | null;
+    /** Has the email address, push token or phone number the channel needs. */
+    reachable: boolean;
+}
+
+/** Resolved recipients for a set of targets (POST /broadcasts/preview-audience/). */
+export interface BroadcastAudiencePreview {
+    channel: BroadcastChannel;
+    /** Recipients per target before de-duplication, in request order. */
+    per_target: { target: string; count: number; reachable: number }[];
+    /** Unique recipients across all targets. */
+    total: number;
+    reachable: number;
+    unreachable: number;
+    /** Recipients matched by more than one target, counted once in `total`. */
+    duplicates: number;
+    sample: BroadcastAudienceRecipient[];
+    /** A few of the recipients that will be skipped, for the warning. */
+    unreachable_sample?: BroadcastAudienceRecipient[];
 }
 
 export interface AdminUser {
@@ -174,6 +531,40 @@ export interface LimitedAdmin {
     can_manage_content: boolean;
     can_manage_settings: boolean;
     can_manage_limited_admins: boolean;
+    can_manage_support_tickets?: boolean;
+    /** Assigned role; when set it replaces the `can_*` flags above. */
+    role?: number | null;
+    role_name?: string | null;
+}
+
+/** Areas of the panel a role grants access to. */
+export type PermissionResource =
+    | 'dashboard'
+    | 'tenants'
+    | 'subscriptions'
+    | 'paymentGateways'
+    | 'reports'
+    | 'communication'
+    | 'content'
+    | 'settings'
+    | 'limitedAdmins'
+    | 'supportTickets';
+
+/** Cumulative: `delete` implies `write`, which implies `read`. */
+export type PermissionLevel = 'none' | 'read' | 'write' | 'delete';
+
+/** Sensitive operations granted separately from the resource levels. */
+export type PermissionAction = 'impersonate' | 'restoreBackup' | 'editGatewaySecrets';
+
+export interface AdminRole {
+    id: number;
+    name: string;
+    description: string;
+    resources: Record<PermissionResource, PermissionLevel>;
+    actions: PermissionAction[];
+    /** Companies the role is limited to; null means all companies. */
+    companyIds: number[] | null;
+    adminCount: number;
 }
 
 export interface GuideCategory {
@@ -229,6 +620,20 @@ export interface AuditLog {
     user: string;
     action: { key: string; params: Record<string, string | number> };
     timestamp: string;
+    /** Set on entries recorded in this browser; matches the server row's `client_id`. */
+    clientId?: string;
+    /** True while the entry is queued locally and not yet stored on the server. */
+    pending?: boolean;
+    /** Field-level before/after values (metadata `changes`), present on update actions. */
+    changes?: Record<string, { before: unknown; after: unknown }>;
+    /** Company the action touched (metadata `company_id`). */
+    companyId?: number;
+}
+
+/** Optional structured details recorded alongside an audit entry's message params. */
+export interface AuditLogDetails {
+    changes?: Record<string, { before: unknown; after: unknown }>;
+    companyId?: number;
 }
 
 export type BackupStatus = 'in_progress' | 'completed' | 'failed';
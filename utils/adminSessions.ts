@@ -0,0 +1,46 @@
+import { AdminSession } from '../types';
+
+/** Map an `/auth/sessions/` row to `AdminSession`. */
+export const mapApiAdminSession = (row: any): AdminSession => ({
+  id: String(row.id ?? row.jti ?? ''),
+  userId: Number(row.user ?? row.user_id ?? 0),
+  username: row.username || row.user_username || '',
+  userAgent: row.user_agent || '',
+  ipAddress: row.ip_address || row.ip || '',
+  location: row.location || '',
+  createdAt: row.created_at || '',
+  lastActivityAt: row.last_activity_at || row.last_seen_at || row.created_at || '',
+  isCurrent: row.is_current === true,
+});
+
+/** "Chrome on Windows" style label from a user agent; empty parts are dropped. */
+export const describeUserAgent = (userAgent: string): { browser: string; os: string } => {
+  const ua = userAgent || '';
+  const browser =
+    /Edg\//.test(ua) ? 'Edge'
+      : /OPR\/|Opera/.test(ua) ? 'Opera'
+        : /Firefox\//.test(ua) ? 'Firefox'
+          : /Chrome\//.test(ua) ? 'Chrome'
+            : /Safari\//.test(ua) ? 'Safari'
+              : '';
+  const os =
+    /Windows/.test(ua) ? 'Windows'
+      : /iPhone|iPad|iPod/.test(ua) ? 'iOS'
+        : /Android/.test(ua) ? 'Android'
+          : /Mac OS X|Macintosh/.test(ua) ? 'macOS'
+            : /Linux/.test(ua) ? 'Linux'
+              : '';
+  return { browser, os };
+};
+
+/** Whole days / hours / minutes elapsed since `iso` (token age); null for missing or unparsable dates. */
+export const elapsedParts = (iso: string, now: Date = new Date()): { days: number; hours: number; minutes: number } | null => {
+  const start = new Date(iso).getTime();
+  if (!iso || Number.isNaN(start)) return null;
+  const totalMinutes = Math.max(0, Math.floor((now.getTime() - start) / 60000));
+  return {
+    days: Math.floor(totalMinutes / 1440),
+    hours: Math.floor((totalMinutes % 1440) / 60),
+    minutes: totalMinutes % 60,
+  };
+};
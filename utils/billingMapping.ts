@@ -0,0 +1,146 @@
+import { Coupon, CouponRedemption, Invoice, Payment, PaymentStatus, type InvoicePaymentStatus } from '../types';
+
+/**
+ * Billing row mappers and status badges, shared by the Subscriptions tabs and the tenant detail page.
+ */
+
+/** Map an API payment row to the panel's `Payment` shape. */
+export const mapApiPayment = (payment: any): Payment => {
+  // Backend PaymentStatus enum values: 'completed', 'pending', 'failed', 'canceled'
+  // Map to frontend PaymentStatus enum
+  const paymentStatus = payment.payment_status?.toLowerCase() || '';
+  let status: PaymentStatus;
+  
+  switch (paymentStatus) {
+    case 'completed':
+    case 'successful':
+    case 'success':
+      status = PaymentStatus.Successful;
+      break;
+    case 'pending':
+      status = PaymentStatus.Pending;
+      break;
+    case 'canceled':
+    case 'cancelled':
+      status = PaymentStatus.Canceled;
+      break;
+    case 'failed':
+    default:
+      status = PaymentStatus.Failed;
+      break;
+  }
+  
+  const amountUsd = payment.amount_usd != null ? parseFloat(payment.amount_usd) : null;
+  return {
+    id: payment.id.toString(), // API field: id
+    companyName: payment.subscription_company_name || 'Unknown', // From subscription relation
+    amount: parseFloat(payment.amount || 0), // API field: amount (original currency)
+    amountUsd, // Display in USD
+    currency: (payment.currency || 'USD').toUpperCase(),
+    plan: payment.subscription_plan_name || 'Unknown', // From subscription relation
+    status: status,
+    date: payment.created_at ? new Date(payment.created_at).toISOString().split('T')[0] : '', // API field: created_at
+  };
+};
+
+export function normalizeInvoicePaymentStatus(raw: string | undefined): InvoicePaymentStatus {
+  const s = (raw || '').toLowerCase();
+  if (s === 'completed') return 'completed';
+  if (s === 'pending') return 'pending';
+  if (s === 'failed') return 'failed';
+  if (s === 'canceled' || s === 'cancelled') return 'canceled';
+  return 'pending';
+}
+
+export function invoiceStatusLabelKey(ps: InvoicePaymentStatus): 'Successful' | 'Pending' | 'Failed' | 'Canceled' {
+  switch (ps) {
+    case 'completed':
+      return 'Successful';
+    case 'pending':
+      return 'Pending';
+    case 'failed':
+      return 'Failed';
+    case 'canceled':
+      return 'Canceled';
+    default:
+      return 'Pending';
+  }
+}
+
+/** Map an API invoice row to the panel's `Invoice` shape. */
+export const mapApiInvoice = (invoice: any): Invoice => {
+  const amount = parseFloat(invoice.amount || 0);
+  const discountAmount = parseFloat(invoice.discount_amount || 0) || 0;
+  return {
+    numericId: invoice.id,
+    id: invoice.invoice_number || `inv_${invoice.id}`,
+    companyName: invoice.company_name || 'Unknown',
+    amount,
+    currency: (invoice.currency || 'USD').toUpperCase(),
+    dueDate: invoice.due_date ? new Date(invoice.due_date).toISOString().split('T')[0] : '',
+    paymentStatus: normalizeInvoicePaymentStatus(invoice.payment_status),
+    lineDescription: invoice.line_description || '',
+    planName: invoice.plan_name || '',
+    createdAt: invoice.created_at,
+    paymentId: invoice.payment ?? null,
+    subtotal: invoice.subtotal != null ? parseFloat(invoice.subtotal) : amount + discountAmount,
+    discountAmount,
+    couponCode: invoice.coupon_code || null,
+  };
+};
+
+export const paymentStatusColors: Record<PaymentStatus, string> = {
+  [PaymentStatus.Successful]: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  [PaymentStatus.Failed]: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  [PaymentStatus.Pending]: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  [PaymentStatus.Canceled]: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+export const invoicePaymentStatusColors: Record<InvoicePaymentStatus, string> = {
+  completed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  canceled: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+/** Map an API coupon row to the panel's `Coupon` shape. */
+export const mapApiCoupon = (coupon: any): Coupon => ({
+  id: coupon.id,
+  code: coupon.code || '',
+  description: coupon.description || '',
+  discountType: coupon.discount_type === 'fixed' ? 'fixed' : 'percent',
+  value: parseFloat(coupon.value || 0),
+  planIds: Array.isArray(coupon.plans) ? coupon.plans.map(Number) : [],
+  maxRedemptions: coupon.max_redemptions != null ? Number(coupon.max_redemptions) : null,
+  timesRedeemed: Number(coupon.times_redeemed || 0),
+  expiresAt: coupon.expires_at ? String(coupon.expires_at).slice(0, 10) : null,
+  duration: coupon.duration === 'recurring' ? 'recurring' : 'once',
+  isActive: coupon.is_active !== false,
+  createdAt: coupon.created_at,
+});
+
+/** API payload for create / update; `timesRedeemed` is server-owned and never sent. */
+export const couponToApiPayload = (coupon: Omit<Coupon, 'id' | 'timesRedeemed'>): Record<string, unknown> => ({
+  code: coupon.code,
+  description: coupon.description,
+  discount_type: coupon.discountType,
+  value: coupon.value,
+  plans: coupon.planIds,
+  max_redemptions: coupon.maxRedemptions,
+  expires_at: coupon.expiresAt,
+  duration: coupon.duration,
+  is_active: coupon.isActive,
+});
+
+/** Map an API coupon redemption row to the panel's `CouponRedemption` shape. */
+export const mapApiCouponRedemption = (row: any): CouponRedemption => ({
+  id: row.id,
+  couponId: Number(row.coupon),
+  couponCode: row.coupon_code || '',
+  companyName: row.company_name || 'Unknown',
+  planName: row.plan_name || '',
+  invoiceNumber: row.invoice_number || '',
+  discountAmount: parseFloat(row.discount_amount || 0),
+  currency: (row.currency || 'USD').toUpperCase(),
+  redeemedAt: row.created_at || row.redeemed_at || '',
+});
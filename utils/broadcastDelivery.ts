@@ -0,0 +1,17 @@
+import type { BroadcastDeliveryStats } from '../types';
+
+/** Whole-number share of `part` in `total`; 0 when nothing was sent. */
+export const deliveryPercent = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 100) : 0);
+
+type StatusCounts = Pick<BroadcastDeliveryStats, 'delivered' | 'opened' | 'clicked'>;
+
+/** Counters are per current status; a click was also opened and delivered, so roll them up for rates. */
+export const cumulativeDelivery = ({ delivered, opened, clicked }: StatusCounts) => ({
+  delivered: delivered + opened + clicked,
+  opened: opened + clicked,
+  clicked,
+});
+
+/** Recipients a "resend to failed" broadcast would go to. */
+export const failedRecipientCount = (stats: BroadcastDeliveryStats | null | undefined) =>
+  stats ? stats.bounced + stats.failed : 0;
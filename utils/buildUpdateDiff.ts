@@ -80,3 +80,53 @@ export function buildUpdateDiff(
 
   return diff;
 }
+
+/** Field-level before/after pairs stored in audit metadata under `changes`. */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+const SECRET_FIELD_PATTERN = /password|secret|token|server_?key|client_?key/i;
+const REDACTED_VALUE = '••••••';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Turn a buildUpdateDiff payload into before/after pairs for the audit log.
+ * Nested objects (e.g. gateway `config`) are flattened to dotted paths so only changed leaves appear;
+ * secret-looking fields keep the fact they changed but never their values.
+ */
+export function buildAuditChanges(
+  initial: Record<string, unknown>,
+  diff: Record<string, unknown>,
+  prefix = ''
+): AuditChanges {
+  const changes: AuditChanges = {};
+
+  for (const [key, after] of Object.entries(diff)) {
+    const before = initial?.[key];
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (isPlainObject(after) && (isPlainObject(before) || before == null)) {
+      const nested = buildAuditChanges(
+        (before as Record<string, unknown>) ?? {},
+        buildUpdateDiff((before as Record<string, unknown>) ?? {}, after),
+        path
+      );
+      Object.assign(changes, nested);
+      continue;
+    }
+
+    if (SECRET_FIELD_PATTERN.test(key)) {
+      changes[path] = {
+        before: normalizeEmpty(before) === null ? null : REDACTED_VALUE,
+        after: normalizeEmpty(after) === null ? null : REDACTED_VALUE,
+      };
+      continue;
+    }
+
+    changes[path] = { before: before ?? null, after: after ?? null };
+  }
+
+  return changes;
+}
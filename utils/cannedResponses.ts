@@ -0,0 +1,85 @@
+import { CannedResponse, CannedResponseScope } from '../types';
+import { ApiPlanRow, mapCompaniesToTenants } from './tenantMapping';
+import { withLatinDigits } from './latinNumerals';
+
+/** Placeholders a canned response body may use, written as `{{name}}`. */
+export const CANNED_RESPONSE_VARIABLES = ['company_name', 'owner_name', 'plan', 'end_date'] as const;
+export type CannedResponseVariable = (typeof CANNED_RESPONSE_VARIABLES)[number];
+
+export type CannedResponseLanguage = 'en' | 'ar';
+
+export const CANNED_RESPONSE_SCOPES: CannedResponseScope[] = ['all', 'whatsapp', 'tickets'];
+
+const PLACEHOLDER_RE = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+export const cannedResponseMatchesScope = (response: CannedResponse, scope: Exclude<CannedResponseScope, 'all'>) =>
+  response.scope === 'all' || response.scope === scope;
+
+/** Body in the requested language, falling back to the other one when it was left empty. */
+export const cannedResponseBody = (response: CannedResponse, language: CannedResponseLanguage) =>
+  (language === 'ar' ? response.body_ar || response.body_en : response.body_en || response.body_ar) || '';
+
+export const usesCannedResponseVariables = (text: string) => new RegExp(PLACEHOLDER_RE.source).test(text);
+
+/**
+ * Variable values for one tenant. `company` is a `/companies/{id}/` row; the plan and end date
+ * come from its latest active subscription, like the tenants list.
+ */
+export const buildCannedResponseValues = (
+  company: Record<string, any>,
+  subscriptions: any[],
+  plans: ApiPlanRow[],
+  language: CannedResponseLanguage,
+): Partial<Record<CannedResponseVariable, string>> => {
+  const tenant = mapCompaniesToTenants([company], subscriptions, plans, language)[0];
+  const ownerName = [company.owner_first_name, company.owner_last_name].filter(Boolean).join(' ').trim();
+  const endDate = tenant?.endDate
+    ? new Date(tenant.endDate).toLocaleDateString(language === 'ar' ? 'ar-EG' : 'en-US', withLatinDigits({ dateStyle: 'long' }))
+    : '';
+  return {
+    company_name: tenant?.name || '',
+    owner_name: ownerName || company.owner_name || tenant?.owner_username || '',
+    plan: tenant?.currentPlan || '',
+    end_date: endDate,
+  };
+};
+
+/** Replaces known placeholders that have a value; anything else is left in place and reported. */
+export const fillCannedResponse = (
+  text: string,
+  values: Partial<Record<CannedResponseVariable, string>>,
+): { text: string; unresolved: string[] } => {
+  const unresolved = new Set<string>();
+  const filled = text.replace(PLACEHOLDER_RE, (match, name: string) => {
+    const value = values[name as CannedResponseVariable];
+    if (value) return value;
+    unresolved.add(name);
+    return match;
+  });
+  return { text: filled, unresolved: Array.from(unresolved) };
+};
+
+type InputLike = HTMLInputElement | HTMLTextAreaElement;
+
+/** Inserts `text` at the caret (replacing any selection) and puts the caret after it. */
+export function insertTextAtCursor(
+  el: InputLike | null,
+  value: string,
+  text: string,
+  setValue: (next: string) => void
+): void {
+  const start = el?.selectionStart ?? value.length;
+  const end = el?.selectionEnd ?? value.length;
+  const next = value.slice(0, start) + text + value.slice(end);
+  const caret = start + text.length;
+  setValue(next);
+  requestAnimationFrame(() => {
+    if (!el) return;
+    el.focus();
+    try {
+      el.setSelectionRange(caret, caret);
+    } catch {
+      /* ignore */
+    }
+  });
+}
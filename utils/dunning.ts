@@ -0,0 +1,90 @@
+import { DunningAction, DunningCase, DunningSchedule, DunningStep } from '../types';
+
+/**
+ * Dunning schedule / case mapping shared by the Subscriptions dunning queue and the tenant detail page.
+ * The backend runs the schedule; the panel only configures it and reflects where each case stands.
+ */
+
+export const DUNNING_ACTIONS: DunningAction[] = ['email', 'whatsapp', 'sms', 'deactivate'];
+
+export const DEFAULT_DUNNING_SCHEDULE: DunningSchedule = {
+  enabled: true,
+  steps: [
+    { day: 1, action: 'email', enabled: true },
+    { day: 3, action: 'whatsapp', enabled: true },
+    { day: 7, action: 'sms', enabled: true },
+    { day: 14, action: 'deactivate', enabled: true },
+  ],
+};
+
+const mapApiStep = (step: any): DunningStep => ({
+  day: Number(step?.day ?? 0),
+  action: DUNNING_ACTIONS.includes(step?.action) ? step.action : 'email',
+  enabled: step?.enabled !== false,
+});
+
+/** Map `GET /settings/dunning/1/`; falls back to the default schedule when none is saved yet. */
+export const mapApiDunningSchedule = (raw: any): DunningSchedule => {
+  const steps = Array.isArray(raw?.steps) ? raw.steps.map(mapApiStep) : DEFAULT_DUNNING_SCHEDULE.steps;
+  return { enabled: raw?.enabled !== false, steps };
+};
+
+export const dunningScheduleToApiPayload = (schedule: DunningSchedule): Record<string, unknown> => ({
+  enabled: schedule.enabled,
+  steps: [...schedule.steps].sort((a, b) => a.day - b.day),
+});
+
+/**
+ * Translation key of the first problem in a schedule, or null when it can be saved.
+ * Days must be unique and non-negative, and deactivation can only be the last step.
+ */
+export const validateDunningSchedule = (schedule: DunningSchedule): string | null => {
+  const steps = [...schedule.steps].sort((a, b) => a.day - b.day);
+  if (steps.length === 0) return 'subscriptions.dunning.validation.empty';
+  if (steps.some((step) => !Number.isInteger(step.day) || step.day < 0)) return 'subscriptions.dunning.validation.day';
+  if (new Set(steps.map((step) => step.day)).size !== steps.length) return 'subscriptions.dunning.validation.duplicateDay';
+  const deactivateIndex = steps.findIndex((step) => step.action === 'deactivate');
+  if (deactivateIndex !== -1 && deactivateIndex !== steps.length - 1) return 'subscriptions.dunning.validation.deactivateLast';
+  return null;
+};
+
+/** Map an API dunning case row to the panel's `DunningCase` shape. */
+export const mapApiDunningCase = (row: any): DunningCase => ({
+  id: row.id,
+  companyId: Number(row.company),
+  companyName: row.company_name || 'Unknown',
+  paymentId: row.payment != null ? Number(row.payment) : null,
+  amount: parseFloat(row.amount || 0),
+  currency: (row.currency || 'USD').toUpperCase(),
+  paymentStatus: String(row.payment_status || 'failed').toLowerCase() === 'pending' ? 'pending' : 'failed',
+  status: ['paused', 'resolved', 'deactivated'].includes(row.status) ? row.status : 'active',
+  currentStepDay: row.current_step_day != null ? Number(row.current_step_day) : null,
+  currentStepAction: DUNNING_ACTIONS.includes(row.current_step_action) ? row.current_step_action : null,
+  startedAt: row.started_at || row.created_at || '',
+  nextActionAt: row.next_action_at || null,
+  lastActionAt: row.last_action_at || null,
+});
+
+/** The first enabled step after the day the case last acted on; undefined once it has run them all. */
+export const nextDunningStep = (dunningCase: DunningCase, schedule: DunningSchedule): DunningStep | undefined => {
+  const lastDay = dunningCase.currentStepDay ?? -1;
+  return [...schedule.steps]
+    .sort((a, b) => a.day - b.day)
+    .find((step) => step.enabled && step.day > lastDay);
+};
+
+/** The step that last ran, looked up by day; falls back to what the case recorded if the schedule dropped it. */
+export const currentDunningStep = (dunningCase: DunningCase, schedule: DunningSchedule): DunningStep | undefined => {
+  const { currentStepDay: day, currentStepAction: action } = dunningCase;
+  if (day == null) return undefined;
+  const step = schedule.steps.find((row) => row.day === day);
+  if (step) return step;
+  return action ? { day, action, enabled: true } : undefined;
+};
+
+export const dunningStatusColors: Record<DunningCase['status'], string> = {
+  active: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  paused: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  resolved: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  deactivated: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
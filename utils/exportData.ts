@@ -0,0 +1,311 @@
+import { withLatinDigits } from './latinNumerals';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportCellValue = string | number | boolean | null | undefined;
+
+/** One selectable export column; `label` is the already-localized header. */
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => ExportCellValue;
+}
+
+const CSV_MIME = 'text/csv;charset=utf-8;';
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const exportLocale = (language: string) => (language === 'ar' ? 'ar-EG' : 'en-US');
+
+/**
+ * Date / date-time formatter for export cells. Always emits Latin digits so
+ * spreadsheets can parse the values regardless of the UI language.
+ */
+export const createExportDateFormatter = (language: string, withTime = false) => {
+  const formatter = new Intl.DateTimeFormat(
+    exportLocale(language),
+    withLatinDigits<Intl.DateTimeFormatOptions>(
+      withTime
+        ? { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' }
+        : { year: 'numeric', month: '2-digit', day: '2-digit' },
+    ),
+  );
+  return (value?: string | null): string => {
+    if (!value) return '';
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? String(value) : formatter.format(date);
+  };
+};
+
+const formatCsvNumber = (value: number, language: string) =>
+  value.toLocaleString(exportLocale(language), withLatinDigits({ useGrouping: false, maximumFractionDigits: 2 }));
+
+/** Tenant-supplied text like `=HYPERLINK(...)` must not run as a formula when the file is opened. */
+const neutralizeFormula = (value: string) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+const escapeCsvCell = (value: string) => {
+  const safe = neutralizeFormula(value);
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const toCsvCell = (value: ExportCellValue, language: string): string => {
+  if (value == null) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? formatCsvNumber(value, language) : '';
+  return escapeCsvCell(String(value));
+};
+
+const buildCsvBlob = (headers: string[], rows: ExportCellValue[][], language: string): Blob => {
+  const lines = [
+    headers.map((header) => escapeCsvCell(header)).join(','),
+    ...rows.map((row) => row.map((cell) => toCsvCell(cell, language)).join(',')),
+  ];
+  // BOM so Excel opens UTF-8 (Arabic) content correctly.
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: CSV_MIME });
+};
+
+// ==================== XLSX (minimal SpreadsheetML package) ====================
+
+const escapeXml = (value: string) =>
+  value
+    // Strip control characters that are invalid in XML 1.0.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnLetter = (index: number): string => {
+  let n = index + 1;
+  let letters = '';
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letters = String.fromCharCode(65 + rem) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+};
+
+const toXlsxCell = (value: ExportCellValue, ref: string, style = 0): string => {
+  const s = style ? ` s="${style}"` : '';
+  if (value == null || value === '') return `<c r="${ref}"${s}/>`;
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  if (typeof value === 'boolean') return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(neutralizeFormula(String(value)))}</t></is></c>`;
+};
+
+const buildSheetXml = (headers: string[], rows: ExportCellValue[][], rightToLeft: boolean): string => {
+  const allRows = [headers, ...rows];
+  const rowXml = allRows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((cell, colIndex) => toXlsxCell(cell, `${columnLetter(colIndex)}${rowIndex + 1}`, rowIndex === 0 ? 1 : 0))
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+  const cols = headers
+    .map((header, index) => {
+      const longest = Math.max(header.length, ...rows.map((row) => String(row[index] ?? '').length));
+      const width = Math.min(60, Math.max(10, longest + 2));
+      return `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`;
+    })
+    .join('');
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetViews><sheetView workbookViewId="0"${rightToLeft ? ' rightToLeft="1"' : ''}>` +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${rowXml}</sheetData>` +
+    '</worksheet>'
+  );
+};
+
+const buildWorkbookFiles = (sheetName: string, sheetXml: string): Array<{ name: string; content: string }> => [
+  {
+    name: '[Content_Types].xml',
+    content:
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>',
+  },
+  {
+    name: '_rels/.rels',
+    content:
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+  },
+  {
+    name: 'xl/workbook.xml',
+    content:
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+  },
+  {
+    name: 'xl/_rels/workbook.xml.rels',
+    content:
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>',
+  },
+  {
+    name: 'xl/styles.xml',
+    // Style 0 = default, style 1 = bold header row.
+    content:
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>',
+  },
+  { name: 'xl/worksheets/sheet1.xml', content: sheetXml },
+];
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n += 1) {
+      let c = n;
+      for (let k = 0; k < 8; k += 1) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i += 1) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** Pack files into an uncompressed (STORE) zip archive — enough for an .xlsx package. */
+const buildZip = (files: Array<{ name: string; content: string }>): Uint8Array => {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach((file) => {
+    const nameBytes = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true); // UTF-8 file names
+    lv.setUint16(8, 0, true); // stored
+    lv.setUint16(10, dosTime, true);
+    lv.setUint16(12, dosDate, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, dosTime, true);
+    cv.setUint16(14, dosDate, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let cursor = 0;
+  parts.forEach((part) => {
+    out.set(part, cursor);
+    cursor += part.length;
+  });
+  return out;
+};
+
+const buildXlsxBlob = (headers: string[], rows: ExportCellValue[][], sheetName: string, rightToLeft: boolean): Blob => {
+  // Excel sheet names: max 31 chars, no []:*?/\
+  const safeSheetName = sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1';
+  const zip = buildZip(buildWorkbookFiles(safeSheetName, buildSheetXml(headers, rows, rightToLeft)));
+  return new Blob([zip], { type: XLSX_MIME });
+};
+
+// ==================== Public API ====================
+
+export interface ExportTableOptions<T> {
+  /** File name without extension; a date suffix is appended. */
+  filename: string;
+  format: ExportFormat;
+  columns: ExportColumn<T>[];
+  rows: T[];
+  language: string;
+  /** Worksheet title for XLSX (defaults to `filename`). */
+  sheetName?: string;
+}
+
+/** Build a CSV or XLSX file from `rows` using the selected `columns` and trigger a browser download. */
+export const exportTable = <T>({
+  filename,
+  format,
+  columns,
+  rows,
+  language,
+  sheetName,
+}: ExportTableOptions<T>) => {
+  const headers = columns.map((column) => column.label);
+  const matrix = rows.map((row) => columns.map((column) => column.value(row)));
+  const blob =
+    format === 'xlsx'
+      ? buildXlsxBlob(headers, matrix, sheetName || filename, language === 'ar')
+      : buildCsvBlob(headers, matrix, language);
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}-${stamp}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,50 @@
+import { ImpersonationSession, ImpersonationStatus } from '../types';
+
+/** Durations offered in the impersonate dialog; anything above the configured maximum is hidden. */
+export const IMPERSONATION_DURATION_OPTIONS = [15, 30, 60, 120, 240, 480];
+export const DEFAULT_IMPERSONATION_MINUTES = 60;
+export const DEFAULT_IMPERSONATION_MAX_MINUTES = 240;
+
+const STATUSES: ImpersonationStatus[] = ['active', 'expired', 'revoked', 'ended'];
+
+/**
+ * Status shown in the panel. A row the API still calls active but whose expiry has passed
+ * is reported as expired, so the revoke button does not linger until the next refresh.
+ */
+const resolveStatus = (row: any, now: Date): ImpersonationStatus => {
+  const raw = STATUSES.includes(row.status) ? (row.status as ImpersonationStatus) : 'ended';
+  if (raw === 'active' && row.expires_at && new Date(row.expires_at).getTime() <= now.getTime()) return 'expired';
+  return raw;
+};
+
+/** Map an `/auth/impersonations/` row to `ImpersonationSession`. */
+export const mapApiImpersonationSession = (row: any, now: Date = new Date()): ImpersonationSession => ({
+  id: Number(row.id),
+  adminId: Number(row.admin ?? row.impersonator ?? 0),
+  adminUsername: row.admin_username || row.impersonator_username || '',
+  companyId: Number(row.company ?? row.company_id ?? 0),
+  companyName: row.company_name || '',
+  targetUsername: row.target_username || row.user_username || '',
+  reason: row.reason || '',
+  ticketId: row.ticket != null ? Number(row.ticket) : null,
+  ticketTitle: row.ticket_title || '',
+  durationMinutes: Number(row.duration_minutes) || 0,
+  startedAt: row.started_at || row.created_at || '',
+  expiresAt: row.expires_at || '',
+  endedAt: row.ended_at || '',
+  endedByUsername: row.ended_by_username || row.revoked_by_username || '',
+  status: resolveStatus(row, now),
+  ipAddress: row.ip_address || '',
+  userAgent: row.user_agent || '',
+  location: row.location || '',
+});
+
+/** Minutes the session actually lasted (or has lasted so far when still active). */
+export const impersonationMinutesUsed = (session: ImpersonationSession, now: Date = new Date()): number | null => {
+  const start = new Date(session.startedAt).getTime();
+  if (!session.startedAt || Number.isNaN(start)) return null;
+  const endIso = session.endedAt || (session.status === 'active' ? '' : session.expiresAt);
+  const end = endIso ? new Date(endIso).getTime() : now.getTime();
+  if (Number.isNaN(end)) return null;
+  return Math.max(0, Math.round((end - start) / 60000));
+};
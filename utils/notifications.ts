@@ -0,0 +1,72 @@
+import { AdminNotification, AdminNotificationType } from '../types';
+import type { AlertVariant } from '../context/AlertContext';
+
+export const NOTIFICATION_TYPES: AdminNotificationType[] = [
+  'ticket_created',
+  'payment_failed',
+  'subscription_expiring',
+  'backup_failed',
+  'gateway_test_failed',
+];
+
+/** Icon, accent and toast variant per type, shared by the dropdown, the preferences list and toasts. */
+export const NOTIFICATION_TYPE_STYLES: Record<AdminNotificationType, { icon: string; className: string; variant: AlertVariant }> = {
+  ticket_created: { icon: 'supportTickets', className: 'bg-blue-100 text-blue-600 dark:bg-blue-900/40 dark:text-blue-300', variant: 'info' },
+  payment_failed: { icon: 'cash', className: 'bg-red-100 text-red-600 dark:bg-red-900/40 dark:text-red-300', variant: 'error' },
+  subscription_expiring: { icon: 'clock', className: 'bg-amber-100 text-amber-600 dark:bg-amber-900/40 dark:text-amber-300', variant: 'warning' },
+  backup_failed: { icon: 'alert', className: 'bg-red-100 text-red-600 dark:bg-red-900/40 dark:text-red-300', variant: 'error' },
+  gateway_test_failed: { icon: 'alert', className: 'bg-amber-100 text-amber-600 dark:bg-amber-900/40 dark:text-amber-300', variant: 'warning' },
+};
+
+const isNotificationType = (value: unknown): value is AdminNotificationType =>
+  NOTIFICATION_TYPES.includes(value as AdminNotificationType);
+
+/** Deep link for a notification when the server does not send one. */
+const defaultLink = (type: AdminNotificationType, params: Record<string, string | number>, companyId: number | null): string | null => {
+  switch (type) {
+    case 'ticket_created':
+      return params.title ? `/support-tickets?q=${encodeURIComponent(String(params.title))}` : '/support-tickets';
+    case 'payment_failed':
+      return `/subscriptions?tab=payments${params.company ? `&q=${encodeURIComponent(String(params.company))}` : ''}`;
+    case 'subscription_expiring':
+      return companyId ? `/tenants/${companyId}` : '/subscriptions?tab=subscriptions';
+    case 'backup_failed':
+      return '/settings?tab=security';
+    case 'gateway_test_failed':
+      return '/payment-gateways';
+    default:
+      return null;
+  }
+};
+
+/** A path within the panel; `//host` and `/\host` are treated by browsers as links to another site. */
+const isInAppPath = (link: unknown): link is string =>
+  typeof link === 'string' && link.startsWith('/') && !link.startsWith('//') && !link.startsWith('/\\');
+
+/** Map a `/notifications/` row (or a realtime `notification.created` payload) to `AdminNotification`. */
+export const mapApiNotification = (row: any): AdminNotification => {
+  const type = isNotificationType(row.type) ? row.type : ('' as AdminNotificationType);
+  const params: Record<string, string | number> = row.params && typeof row.params === 'object' ? row.params : {};
+  const companyId = row.company != null ? Number(row.company) : row.company_id != null ? Number(row.company_id) : null;
+  // Only in-app paths are followed; anything else falls back to the per-type page
+  const link = isInAppPath(row.link) ? row.link : defaultLink(type, params, companyId);
+  return {
+    id: Number(row.id),
+    type,
+    params,
+    message: row.message || '',
+    link,
+    companyId,
+    createdAt: row.created_at || '',
+    readAt: row.read_at || null,
+  };
+};
+
+/** Localized text: `notifications.message.<type>` with `{param}` placeholders, else the server text. */
+export const formatNotificationMessage = (notification: AdminNotification, t: (key: string) => string): string => {
+  if (!notification.type) return notification.message;
+  return Object.entries(notification.params).reduce(
+    (text, [key, value]) => text.split(`{${key}}`).join(String(value)),
+    t(`notifications.message.${notification.type}`),
+  );
+};
@@ -0,0 +1,115 @@
+import { AdminRole, PermissionAction, PermissionLevel, PermissionResource } from '../types';
+
+/**
+ * Role-based permissions for limited admins. A role grants a level per resource plus separate action
+ * flags and an optional company scope. Admins without a role keep the legacy `can_*` booleans, which
+ * are translated to full access on the matching resource.
+ */
+
+export const PERMISSION_RESOURCES: PermissionResource[] = [
+  'dashboard',
+  'tenants',
+  'subscriptions',
+  'paymentGateways',
+  'reports',
+  'communication',
+  'content',
+  'supportTickets',
+  'settings',
+  'limitedAdmins',
+];
+
+export const PERMISSION_LEVELS: PermissionLevel[] = ['none', 'read', 'write', 'delete'];
+
+export const PERMISSION_ACTIONS: PermissionAction[] = ['impersonate', 'restoreBackup', 'editGatewaySecrets'];
+
+export type LegacyPermissionFlag =
+  | 'can_view_dashboard'
+  | 'can_manage_tenants'
+  | 'can_manage_subscriptions'
+  | 'can_manage_payment_gateways'
+  | 'can_view_reports'
+  | 'can_manage_communication'
+  | 'can_manage_content'
+  | 'can_manage_settings'
+  | 'can_manage_limited_admins'
+  | 'can_manage_support_tickets';
+
+export const LEGACY_FLAG_RESOURCE: Record<LegacyPermissionFlag, PermissionResource> = {
+  can_view_dashboard: 'dashboard',
+  can_manage_tenants: 'tenants',
+  can_manage_subscriptions: 'subscriptions',
+  can_manage_payment_gateways: 'paymentGateways',
+  can_view_reports: 'reports',
+  can_manage_communication: 'communication',
+  can_manage_content: 'content',
+  can_manage_settings: 'settings',
+  can_manage_limited_admins: 'limitedAdmins',
+  can_manage_support_tickets: 'supportTickets',
+};
+
+export const levelAllows = (granted: PermissionLevel | undefined, needed: PermissionLevel): boolean =>
+  PERMISSION_LEVELS.indexOf(granted ?? 'none') >= PERMISSION_LEVELS.indexOf(needed);
+
+export const emptyResourceLevels = (): Record<PermissionResource, PermissionLevel> =>
+  PERMISSION_RESOURCES.reduce(
+    (acc, resource) => ({ ...acc, [resource]: 'none' }),
+    {} as Record<PermissionResource, PermissionLevel>,
+  );
+
+export interface EffectivePermissions {
+  resources: Record<PermissionResource, PermissionLevel>;
+  actions: PermissionAction[];
+  companyIds: number[] | null;
+}
+
+/**
+ * Legacy flags only ever gated whole pages, so a granted flag means full access there. Impersonation
+ * stayed super-admin only; backup restore and gateway secrets came with the settings / gateways pages.
+ */
+export const permissionsFromLegacyFlags = (flags: Partial<Record<LegacyPermissionFlag, boolean>>): EffectivePermissions => {
+  const resources = emptyResourceLevels();
+  (Object.keys(LEGACY_FLAG_RESOURCE) as LegacyPermissionFlag[]).forEach((flag) => {
+    if (flags[flag]) resources[LEGACY_FLAG_RESOURCE[flag]] = 'delete';
+  });
+  const actions: PermissionAction[] = [];
+  if (flags.can_manage_settings) actions.push('restoreBackup');
+  if (flags.can_manage_payment_gateways) actions.push('editGatewaySecrets');
+  return { resources, actions, companyIds: null };
+};
+
+/** Resource and action keys are camelCase here and snake_case on the API. */
+const toSnakeCase = (key: string) => key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+
+const toLevel = (value: unknown): PermissionLevel =>
+  PERMISSION_LEVELS.includes(value as PermissionLevel) ? (value as PermissionLevel) : 'none';
+
+/** Map an `/admin-roles/` row (snake_case resource keys) to `AdminRole`. */
+export const mapApiRole = (row: any): AdminRole => {
+  const rawResources = (row?.resources && typeof row.resources === 'object' ? row.resources : {}) as Record<string, unknown>;
+  const resources = emptyResourceLevels();
+  PERMISSION_RESOURCES.forEach((resource) => {
+    resources[resource] = toLevel(rawResources[toSnakeCase(resource)] ?? rawResources[resource]);
+  });
+  const rawActions: unknown[] = Array.isArray(row?.actions) ? row.actions : [];
+  const actions = PERMISSION_ACTIONS.filter((action) => rawActions.includes(action) || rawActions.includes(toSnakeCase(action)));
+  return {
+    id: row.id,
+    name: row.name || '',
+    description: row.description || '',
+    resources,
+    actions,
+    companyIds: Array.isArray(row?.company_ids) ? row.company_ids.map(Number) : null,
+    adminCount: Number(row.admin_count ?? 0),
+  };
+};
+
+export const roleToApiPayload = (role: Omit<AdminRole, 'id' | 'adminCount'>): Record<string, unknown> => ({
+  name: role.name.trim(),
+  description: role.description.trim(),
+  resources: Object.fromEntries(
+    PERMISSION_RESOURCES.map((resource) => [toSnakeCase(resource), role.resources[resource]]),
+  ),
+  actions: role.actions.map(toSnakeCase),
+  company_ids: role.companyIds,
+});
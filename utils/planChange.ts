@@ -0,0 +1,89 @@
+import { Plan } from '../types';
+import { BillingCycle, daysBetween, expectedRenewalUsd } from './subscriptionTimeline';
+
+export type PlanChangeDirection = 'upgrade' | 'downgrade' | 'lateral';
+
+export type EntitlementValue = number | boolean | 'unlimited' | null;
+
+export type EntitlementDiffRow = {
+  kind: 'limit' | 'feature';
+  key: string;
+  from: EntitlementValue;
+  to: EntitlementValue;
+  /** +1 when the target plan grants more, -1 when it grants less, 0 when unchanged. */
+  change: -1 | 0 | 1;
+};
+
+export type ProrationPreview = {
+  cycle: BillingCycle;
+  totalDays: number;
+  remainingDays: number;
+  /** Unused value of the current plan for the rest of the period (USD). */
+  credit: number;
+  /** Cost of the target plan for the rest of the period (USD). */
+  charge: number;
+  /** `charge - credit`: positive is owed by the tenant, negative is owed to the tenant. */
+  net: number;
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/** Tier decides direction; plans without a tier difference fall back to price. */
+export const planChangeDirection = (from: Plan, to: Plan, cycle: BillingCycle): PlanChangeDirection => {
+  const tierDelta = (to.tier ?? 0) - (from.tier ?? 0);
+  if (tierDelta !== 0) return tierDelta > 0 ? 'upgrade' : 'downgrade';
+  const priceDelta = expectedRenewalUsd(to, cycle) - expectedRenewalUsd(from, cycle);
+  if (priceDelta === 0) return 'lateral';
+  return priceDelta > 0 ? 'upgrade' : 'downgrade';
+};
+
+const compareLimit = (from: EntitlementValue, to: EntitlementValue): -1 | 0 | 1 => {
+  if (from === to) return 0;
+  if (to === 'unlimited') return 1;
+  if (from === 'unlimited') return -1;
+  const a = typeof from === 'number' ? from : 0;
+  const b = typeof to === 'number' ? to : 0;
+  return a === b ? 0 : b > a ? 1 : -1;
+};
+
+/** Limits and feature flags that differ between the two plans (unchanged rows are left out). */
+export const diffPlanEntitlements = (from: Plan, to: Plan): EntitlementDiffRow[] => {
+  const rows: EntitlementDiffRow[] = [];
+  const fromLimits = from.entitlementsLimits || {};
+  const toLimits = to.entitlementsLimits || {};
+  new Set([...Object.keys(fromLimits), ...Object.keys(toLimits)]).forEach((key) => {
+    const before = fromLimits[key] ?? null;
+    const after = toLimits[key] ?? null;
+    const change = compareLimit(before, after);
+    if (change !== 0) rows.push({ kind: 'limit', key, from: before, to: after, change });
+  });
+  const fromFeatures = from.entitlementsFeatures || {};
+  const toFeatures = to.entitlementsFeatures || {};
+  new Set([...Object.keys(fromFeatures), ...Object.keys(toFeatures)]).forEach((key) => {
+    const before = !!fromFeatures[key];
+    const after = !!toFeatures[key];
+    if (before !== after) rows.push({ kind: 'feature', key, from: before, to: after, change: after ? 1 : -1 });
+  });
+  return rows;
+};
+
+/**
+ * Day-based proration for switching plans on `changeDate` inside the current period
+ * (`startDate`..`endDate`), with both plans priced on the subscription's billing cycle.
+ * This is the preview; the server recomputes the same figures when the change is applied.
+ */
+export const computeProration = (
+  from: Plan,
+  to: Plan,
+  startDate: string,
+  endDate: string,
+  changeDate: string,
+  cycle: BillingCycle,
+): ProrationPreview => {
+  const totalDays = Math.max(1, daysBetween(startDate, endDate));
+  const remainingDays = Math.min(totalDays, Math.max(0, daysBetween(changeDate, endDate)));
+  const ratio = remainingDays / totalDays;
+  const credit = roundCents(expectedRenewalUsd(from, cycle) * ratio);
+  const charge = roundCents(expectedRenewalUsd(to, cycle) * ratio);
+  return { cycle, totalDays, remainingDays, credit, charge, net: roundCents(charge - credit) };
+};
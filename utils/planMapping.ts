@@ -0,0 +1,63 @@
+import { Plan } from '../types';
+
+/**
+ * Plan row mapping shared by the Subscriptions page and the plan-change flow.
+ */
+
+export function classifyPlanTypeFromApi(plan: {
+  price_monthly?: string | number;
+  price_yearly?: string | number;
+  trial_days?: number;
+}): 'Paid' | 'Trial' | 'Free' {
+  const pm = parseFloat(String(plan.price_monthly ?? 0)) || 0;
+  const py = parseFloat(String(plan.price_yearly ?? 0)) || 0;
+  const td = Number(plan.trial_days ?? 0) || 0;
+  if (pm > 0 || py > 0) return 'Paid';
+  if (td > 0) return 'Trial';
+  return 'Free';
+}
+
+export const CANONICAL_PLAN_FEATURE_KEYS = [
+  'integration_meta',
+  'integration_tiktok',
+  'integration_whatsapp',
+  'integration_twilio',
+  'integration_otpiq',
+  'integration_openai',
+  'integration_api',
+  'integration_mujeb',
+  'integration_pbx',
+] as const;
+
+export function sanitizePlanFeatures(raw: unknown): Record<string, boolean> {
+  const source = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  return Object.fromEntries(
+    CANONICAL_PLAN_FEATURE_KEYS.map((key) => [key, source[key] === undefined ? true : !!source[key]])
+  ) as Record<string, boolean>;
+}
+
+/** Map an API plan row to the panel's `Plan` shape. */
+export const mapApiPlan = (plan: any): Plan => ({
+  id: plan.id,
+  name: plan.name, // API field: name
+  nameAr: plan.name_ar || '', // API field: name_ar
+  type: classifyPlanTypeFromApi(plan),
+  priceMonthly: parseFloat(plan.price_monthly || 0), // API field: price_monthly
+  priceYearly: parseFloat(plan.price_yearly || 0), // API field: price_yearly
+  trialDays: plan.trial_days || 0, // API field: trial_days
+  users: (plan.limits?.max_employees ?? plan.users ?? 'unlimited') as number | 'unlimited',
+  clients: (plan.limits?.max_clients ?? plan.clients ?? 'unlimited') as number | 'unlimited',
+  features: plan.description || '', // API field: description
+  featuresAr: plan.description_ar || '', // API field: description_ar (if available)
+  entitlementsFeatures: sanitizePlanFeatures(plan.features),
+  entitlementsLimits: {
+    max_employees: plan.limits?.max_employees ?? plan.users ?? null,
+    max_clients: plan.limits?.max_clients ?? plan.clients ?? null,
+    max_deals: plan.limits?.max_deals ?? null,
+    max_storage_bytes: plan.limits?.max_storage_bytes ?? (1 * 1024 * 1024 * 1024),
+    max_file_size_bytes: plan.limits?.max_file_size_bytes ?? (20 * 1024 * 1024),
+  },
+  entitlementsUsageLimitsMonthly: plan.usage_limits_monthly || {},
+  tier: typeof plan.tier === 'number' ? plan.tier : 0,
+  visible: plan.visible !== false, // API field: visible
+});
@@ -0,0 +1,23 @@
+export const ADMIN_SESSION_ENDED_EVENT = 'admin-session-ended';
+
+/** `revoked`: the server killed this session (remote sign-out); `expired`: the refresh token no longer works. */
+export type AdminSessionEndReason = 'revoked' | 'expired';
+
+export function notifyAdminSessionEnded(reason: AdminSessionEndReason): void {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(
+    new CustomEvent(ADMIN_SESSION_ENDED_EVENT, { detail: { reason } }),
+  );
+}
+
+export function subscribeAdminSessionEnded(
+  listener: (reason: AdminSessionEndReason) => void,
+): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const handler = (e: Event) => {
+    const detail = (e as CustomEvent<{ reason?: AdminSessionEndReason }>).detail;
+    listener(detail?.reason === 'revoked' ? 'revoked' : 'expired');
+  };
+  window.addEventListener(ADMIN_SESSION_ENDED_EVENT, handler);
+  return () => window.removeEventListener(ADMIN_SESSION_ENDED_EVENT, handler);
+}
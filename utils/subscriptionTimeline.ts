@@ -0,0 +1,150 @@
+import { Payment, Plan } from '../types';
+
+/** Subscription row as returned by `GET /subscriptions/`. */
+export type ApiSubscriptionRow = {
+  id: number;
+  company: number;
+  plan: number;
+  start_date: string;
+  end_date: string;
+  is_active: boolean;
+  company_name?: string;
+  /** Stored since plan changes were added; older rows leave it empty. */
+  billing_cycle?: BillingCycle | null;
+};
+
+export type BillingCycle = 'monthly' | 'yearly';
+
+export type TimelineEvent =
+  | {
+      kind: 'period';
+      date: string;
+      endDate: string;
+      subscriptionId: number;
+      planId: number;
+      isTrial: boolean;
+      isActive: boolean;
+      cycle: BillingCycle;
+    }
+  | { kind: 'planChange'; date: string; fromPlanId: number; toPlanId: number }
+  | { kind: 'gap'; date: string; endDate: string; days: number }
+  | { kind: 'payment'; date: string; payment: Payment };
+
+export type RenewalRow = {
+  subscriptionId: number;
+  companyId: number;
+  companyName: string;
+  planId: number;
+  endDate: string;
+  daysLeft: number;
+  cycle: BillingCycle;
+  isTrial: boolean;
+  expectedUsd: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (value: string) => String(value || '').slice(0, 10);
+
+const dayNumber = (isoDay: string) => Math.floor(Date.parse(`${toDay(isoDay)}T00:00:00Z`) / DAY_MS);
+
+export const daysBetween = (from: string, to: string) => dayNumber(to) - dayNumber(from);
+
+/**
+ * Fallback for subscriptions that predate the stored `billing_cycle`: infer it from the period length,
+ * anything close to a year (or longer) renews yearly, everything else monthly.
+ */
+export const inferBillingCycle = (startDate: string, endDate: string): BillingCycle =>
+  daysBetween(startDate, endDate) >= 330 ? 'yearly' : 'monthly';
+
+/**
+ * The stored cycle wins: a plan change leaves a shortened period behind that would otherwise
+ * read as monthly even on a yearly subscription.
+ */
+export const subscriptionBillingCycle = (
+  sub: Pick<ApiSubscriptionRow, 'start_date' | 'end_date' | 'billing_cycle'>,
+): BillingCycle => sub.billing_cycle || inferBillingCycle(sub.start_date, sub.end_date);
+
+const isTrialPlan = (plan?: Plan) => !!plan && plan.type !== 'Paid';
+
+/** Expected charge for the next period on this plan, in USD. Trials and free plans renew at 0. */
+export const expectedRenewalUsd = (plan: Plan | undefined, cycle: BillingCycle) => {
+  if (!plan || isTrialPlan(plan)) return 0;
+  return cycle === 'yearly' ? plan.priceYearly : plan.priceMonthly;
+};
+
+/**
+ * One company's history in date order: each subscription period, a plan change wherever consecutive
+ * periods switch plan, a gap wherever coverage lapsed for a day or more, and the payments taken.
+ * `payments` must already be narrowed to this company's subscriptions.
+ */
+export const buildCompanyTimeline = (
+  subscriptions: ApiSubscriptionRow[],
+  payments: Payment[],
+  plans: Plan[],
+): TimelineEvent[] => {
+  const planById = new Map(plans.map((plan) => [plan.id, plan]));
+  const periods = [...subscriptions]
+    .filter((sub) => sub.start_date)
+    .sort((a, b) => toDay(a.start_date).localeCompare(toDay(b.start_date)));
+
+  const events: TimelineEvent[] = [];
+  periods.forEach((sub, index) => {
+    const previous = periods[index - 1];
+    if (previous) {
+      const gapDays = daysBetween(previous.end_date, sub.start_date) - 1;
+      if (previous.end_date && gapDays >= 1) {
+        events.push({ kind: 'gap', date: toDay(previous.end_date), endDate: toDay(sub.start_date), days: gapDays });
+      }
+      if (previous.plan !== sub.plan) {
+        events.push({ kind: 'planChange', date: toDay(sub.start_date), fromPlanId: previous.plan, toPlanId: sub.plan });
+      }
+    }
+    events.push({
+      kind: 'period',
+      date: toDay(sub.start_date),
+      endDate: toDay(sub.end_date),
+      subscriptionId: sub.id,
+      planId: sub.plan,
+      isTrial: isTrialPlan(planById.get(sub.plan)),
+      isActive: sub.is_active,
+      cycle: subscriptionBillingCycle(sub),
+    });
+  });
+  payments.forEach((payment) => {
+    if (payment.date) events.push({ kind: 'payment', date: payment.date, payment });
+  });
+
+  // Newest first; on the same day show the period before its plan change / payments.
+  const order: Record<TimelineEvent['kind'], number> = { period: 0, planChange: 1, payment: 2, gap: 3 };
+  return events.sort((a, b) => b.date.localeCompare(a.date) || order[a.kind] - order[b.kind]);
+};
+
+/** Active subscriptions whose end date falls within the next `windowDays` days (today included). */
+export const buildRenewalForecast = (
+  subscriptions: ApiSubscriptionRow[],
+  plans: Plan[],
+  windowDays: number,
+  today: string,
+): RenewalRow[] => {
+  const planById = new Map(plans.map((plan) => [plan.id, plan]));
+  return subscriptions
+    .filter((sub) => sub.is_active && sub.end_date)
+    .map((sub) => {
+      const plan = planById.get(sub.plan);
+      const cycle = subscriptionBillingCycle(sub);
+      return {
+        subscriptionId: sub.id,
+        companyId: sub.company,
+        companyName: sub.company_name || `#${sub.company}`,
+        planId: sub.plan,
+        endDate: toDay(sub.end_date),
+        daysLeft: daysBetween(today, sub.end_date),
+        cycle,
+        isTrial: isTrialPlan(plan),
+        expectedUsd: expectedRenewalUsd(plan, cycle),
+      };
+    })
+    .filter((row) => row.daysLeft >= 0 && row.daysLeft <= windowDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft || a.companyName.localeCompare(b.companyName));
+};
@@ -0,0 +1,80 @@
+import { Tenant, TenantStatus } from '../types';
+
+export type ApiPlanRow = { id: number; name?: string; name_ar?: string };
+
+/**
+ * Join companies with their latest active subscription and plan to build the tenant rows.
+ * Shared by the app-level tenants list and the tenants export.
+ */
+export const mapCompaniesToTenants = (
+  companies: any[],
+  subscriptions: any[],
+  plans: ApiPlanRow[],
+  language: string,
+): Tenant[] => {
+  // Create a map of company_id -> active subscription
+  const subscriptionMap = new Map();
+  subscriptions.forEach((sub: any) => {
+    if (sub.is_active && (!subscriptionMap.has(sub.company) || 
+        new Date(sub.end_date) > new Date(subscriptionMap.get(sub.company)?.end_date || 0))) {
+      subscriptionMap.set(sub.company, sub);
+    }
+  });
+
+  // Map companies to tenants using API field names
+  return companies.map((company: any) => {
+    const subscription = subscriptionMap.get(company.id);
+    const endDate = subscription?.end_date 
+      ? new Date(subscription.end_date).toISOString().split('T')[0]
+      : undefined;
+    const startDate = subscription?.start_date
+      ? new Date(subscription.start_date).toISOString().split('T')[0]
+      : company.created_at ? new Date(company.created_at).toISOString().split('T')[0] : undefined;
+
+    // Determine status based on API subscription data
+    let status = TenantStatus.Deactivated;
+    if (subscription) {
+      if (subscription.is_active) {
+        const now = new Date();
+        const end = new Date(subscription.end_date);
+        if (end < now) {
+          status = TenantStatus.Expired;
+        } else {
+          status = TenantStatus.Active;
+        }
+      } else {
+        status = TenantStatus.Deactivated;
+      }
+    }
+
+    // Get plan name with Arabic support
+    let currentPlan = '';
+    if (subscription?.plan) {
+      const plan = plans.find((p) => p.id === subscription.plan);
+      if (plan) {
+        currentPlan = language === 'ar' && plan.name_ar?.trim() ? plan.name_ar : plan.name;
+      } else {
+        currentPlan = subscription.plan_name || '';
+      }
+    }
+
+    return {
+      id: company.id,
+      name: company.name,
+      domain: company.domain,
+      specialization: company.specialization,
+      owner: company.owner,
+      owner_username: company.owner_username,
+      owner_email: company.owner_email,
+      owner_phone: company.owner_phone,
+      created_at: company.created_at,
+      updated_at: company.updated_at,
+      freeTrialConsumed: Boolean(company.free_trial_consumed),
+      // Legacy fields from subscriptions
+      currentPlan: currentPlan,
+      status: status,
+      startDate: startDate,
+      endDate: endDate,
+    };
+  });
+};
@@ -0,0 +1,168 @@
+import {
+  SupportTicket,
+  TicketCategory,
+  TicketPriority,
+  TicketSlaState,
+  TicketSlaTargets,
+} from '../types';
+
+export const TICKET_PRIORITIES: TicketPriority[] = ['low', 'normal', 'high', 'urgent'];
+export const TICKET_CATEGORIES: TicketCategory[] = ['billing', 'technical', 'account', 'whatsapp', 'feature_request', 'other'];
+export const TICKET_SLA_STATES: TicketSlaState[] = ['on_track', 'at_risk', 'breached', 'met'];
+
+export const TICKET_PRIORITY_STYLES: Record<TicketPriority, string> = {
+  low: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  normal: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200',
+  high: 'bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-200',
+  urgent: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200',
+};
+
+export const TICKET_SLA_STATE_STYLES: Record<TicketSlaState, string> = {
+  on_track: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200',
+  at_risk: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200',
+  breached: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200',
+  met: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+/** Used until `ticket_sla_targets` is saved in system settings, and for priorities missing from it. */
+export const DEFAULT_TICKET_SLA_TARGETS: TicketSlaTargets = {
+  low: { first_response_minutes: 24 * 60, resolution_minutes: 5 * 24 * 60 },
+  normal: { first_response_minutes: 8 * 60, resolution_minutes: 3 * 24 * 60 },
+  high: { first_response_minutes: 2 * 60, resolution_minutes: 24 * 60 },
+  urgent: { first_response_minutes: 30, resolution_minutes: 8 * 60 },
+};
+
+/** A running clock turns `at_risk` once less than this share of its target is left. */
+const AT_RISK_FRACTION = 0.25;
+
+const positiveMinutes = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : fallback;
+};
+
+/** `ticket_sla_targets` from system settings, with defaults filled in per priority. */
+export const normalizeSlaTargets = (raw: unknown): TicketSlaTargets => {
+  const source = raw && typeof raw === 'object' ? (raw as Record<string, any>) : {};
+  return TICKET_PRIORITIES.reduce((acc, priority) => {
+    const fallback = DEFAULT_TICKET_SLA_TARGETS[priority];
+    acc[priority] = {
+      first_response_minutes: positiveMinutes(source[priority]?.first_response_minutes, fallback.first_response_minutes),
+      resolution_minutes: positiveMinutes(source[priority]?.resolution_minutes, fallback.resolution_minutes),
+    };
+    return acc;
+  }, {} as TicketSlaTargets);
+};
+
+export const ticketPriority = (ticket: Pick<SupportTicket, 'priority'>): TicketPriority =>
+  ticket.priority && TICKET_PRIORITIES.includes(ticket.priority) ? ticket.priority : 'normal';
+
+export interface TicketSla {
+  state: TicketSlaState;
+  /** Target whose clock is running, or null once the ticket is closed. */
+  phase: 'first_response' | 'resolution' | null;
+  dueAt: Date | null;
+  /** Milliseconds until `dueAt`; negative when overdue. */
+  remainingMs: number | null;
+  /** null while the target is still pending. */
+  firstResponseMet: boolean | null;
+  resolutionMet: boolean | null;
+}
+
+const time = (iso: string | null | undefined) => {
+  const ms = iso ? new Date(iso).getTime() : NaN;
+  return Number.isNaN(ms) ? null : ms;
+};
+
+type SlaTicket = Pick<SupportTicket, 'status' | 'priority' | 'created_at' | 'updated_at' | 'first_response_at' | 'resolved_at'>;
+
+/**
+ * SLA position of a ticket. Clocks run from `created_at`; closing a ticket without a staff reply
+ * counts as its first response. Tickets closed before `resolved_at` existed fall back to `updated_at`.
+ */
+export const computeTicketSla = (ticket: SlaTicket, targets: TicketSlaTargets, now: Date = new Date()): TicketSla => {
+  const created = time(ticket.created_at);
+  if (created == null) {
+    return { state: 'on_track', phase: null, dueAt: null, remainingMs: null, firstResponseMet: null, resolutionMet: null };
+  }
+  const target = targets[ticketPriority(ticket)];
+  const firstResponseDue = created + target.first_response_minutes * 60_000;
+  const resolutionDue = created + target.resolution_minutes * 60_000;
+  const closed = ticket.status === 'closed';
+  const resolvedAt = closed ? time(ticket.resolved_at) ?? time(ticket.updated_at) : null;
+  const respondedAt = time(ticket.first_response_at) ?? resolvedAt;
+
+  const firstResponseMet = respondedAt != null ? respondedAt <= firstResponseDue : null;
+  const resolutionMet = closed && resolvedAt != null ? resolvedAt <= resolutionDue : null;
+
+  if (closed) {
+    const state = firstResponseMet === false || resolutionMet === false ? 'breached' : 'met';
+    return { state, phase: null, dueAt: null, remainingMs: null, firstResponseMet, resolutionMet };
+  }
+
+  const phase = respondedAt == null ? 'first_response' : 'resolution';
+  const due = phase === 'first_response' ? firstResponseDue : resolutionDue;
+  const targetMs = (phase === 'first_response' ? target.first_response_minutes : target.resolution_minutes) * 60_000;
+  const remainingMs = due - now.getTime();
+  let state: TicketSlaState = 'on_track';
+  if (firstResponseMet === false || remainingMs < 0) state = 'breached';
+  else if (remainingMs < targetMs * AT_RISK_FRACTION) state = 'at_risk';
+  return { state, phase, dueAt: new Date(due), remainingMs, firstResponseMet, resolutionMet };
+};
+
+/** Compact duration such as `2d 4h`, `3h 15m` or `12m`, using the `tickets.sla.unit.*` templates. */
+export const formatSlaDuration = (ms: number, t: (key: string) => string): string => {
+  const totalMinutes = Math.max(0, Math.round(Math.abs(ms) / 60_000));
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  const unit = (key: 'days' | 'hours' | 'minutes', count: number) => t(`tickets.sla.unit.${key}`).replace('{count}', String(count));
+  if (days > 0) return hours > 0 ? `${unit('days', days)} ${unit('hours', hours)}` : unit('days', days);
+  if (hours > 0) return minutes > 0 ? `${unit('hours', hours)} ${unit('minutes', minutes)}` : unit('hours', hours);
+  return unit('minutes', minutes);
+};
+
+export interface TicketSlaSummaryRow {
+  priority: TicketPriority | 'all';
+  total: number;
+  /** Tickets whose first-response target has been decided (met or missed). */
+  firstResponseMeasured: number;
+  firstResponseMet: number;
+  resolutionMeasured: number;
+  resolutionMet: number;
+  /** Open tickets currently past a target. */
+  openBreached: number;
+}
+
+/** Compliance per priority plus an `all` row, for the SLA report. */
+export const summarizeTicketSla = (tickets: SlaTicket[], targets: TicketSlaTargets, now: Date = new Date()): TicketSlaSummaryRow[] => {
+  const empty = (priority: TicketSlaSummaryRow['priority']): TicketSlaSummaryRow => ({
+    priority,
+    total: 0,
+    firstResponseMeasured: 0,
+    firstResponseMet: 0,
+    resolutionMeasured: 0,
+    resolutionMet: 0,
+    openBreached: 0,
+  });
+  const rows = new Map<TicketSlaSummaryRow['priority'], TicketSlaSummaryRow>(
+    [...TICKET_PRIORITIES, 'all' as const].map((priority) => [priority, empty(priority)]),
+  );
+  tickets.forEach((ticket) => {
+    const sla = computeTicketSla(ticket, targets, now);
+    // A pending first response that is already overdue counts as missed
+    const firstResponseMet = sla.firstResponseMet ?? (sla.phase === 'first_response' && sla.state === 'breached' ? false : null);
+    [rows.get(ticketPriority(ticket))!, rows.get('all')!].forEach((row) => {
+      row.total += 1;
+      if (firstResponseMet != null) {
+        row.firstResponseMeasured += 1;
+        if (firstResponseMet) row.firstResponseMet += 1;
+      }
+      if (sla.resolutionMet != null) {
+        row.resolutionMeasured += 1;
+        if (sla.resolutionMet) row.resolutionMet += 1;
+      }
+      if (sla.phase && sla.state === 'breached') row.openBreached += 1;
+    });
+  });
+  return Array.from(rows.values());
+};
@@ -0,0 +1,48 @@
+import type { WhatsAppMediaType, WhatsAppMessage, WhatsAppMessageStatus } from '../types';
+
+/** Meta Cloud API upload limits per media type. */
+export const WHATSAPP_MEDIA_MAX_BYTES: Record<WhatsAppMediaType, number> = {
+  image: 5 * 1024 * 1024,
+  audio: 16 * 1024 * 1024,
+  video: 16 * 1024 * 1024,
+  document: 100 * 1024 * 1024,
+};
+
+/** What the chat lets admins attach; Meta only accepts JPEG/PNG images and these audio containers. */
+export const WHATSAPP_MEDIA_ACCEPT =
+  'image/jpeg,image/png,audio/aac,audio/mp4,audio/mpeg,audio/amr,audio/ogg,application/pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt,.csv';
+
+export const whatsappMediaTypeForMime = (mime: string): WhatsAppMediaType => {
+  if (mime === 'image/jpeg' || mime === 'image/png') return 'image';
+  if (mime.startsWith('audio/')) return 'audio';
+  if (mime.startsWith('video/')) return 'video';
+  return 'document';
+};
+
+export const formatMediaSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/** Order receipts advance in; webhooks can arrive out of order, so a status never moves backwards. */
+const STATUS_RANK: Record<WhatsAppMessageStatus, number> = {
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+};
+
+/** Applies a webhook receipt to a thread row, ignoring stale ones. */
+export const applyWhatsAppStatus = (
+  message: WhatsAppMessage,
+  status: WhatsAppMessageStatus,
+  extra: { error_message?: string | null; timestamp?: string } = {},
+): WhatsAppMessage => {
+  const current = message.status ?? 'pending';
+  if (STATUS_RANK[status] <= STATUS_RANK[current]) return message;
+  return {
+    ...message,
+    status,
+    status_updated_at: extra.timestamp ?? new Date().toISOString(),
+    error_message: status === 'failed' ? extra.error_message ?? message.error_message ?? null : message.error_message,
+  };
+};
@@ -0,0 +1,34 @@
+import type { WhatsAppSessionWindow, WhatsAppTemplate } from '../types';
+
+/** Meta's customer service window: free-form replies are allowed for 24h after the tenant's last message. */
+export const WHATSAPP_SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const SLOT_RE = /\{\{\s*(\d+)\s*\}\}/g;
+
+/** Number of `{{n}}` parameters the template body expects (Meta numbers them from 1). */
+export const templateSlotCount = (body: string): number => {
+  let max = 0;
+  for (const match of body.matchAll(SLOT_RE)) {
+    max = Math.max(max, Number(match[1]));
+  }
+  return max;
+};
+
+/** Body with filled slots substituted; empty slots stay as `{{n}}` so the preview shows what is missing. */
+export const fillTemplateBody = (body: string, parameters: string[]): string =>
+  body.replace(SLOT_RE, (match, n: string) => parameters[Number(n) - 1]?.trim() || match);
+
+export const templateLabel = (template: WhatsAppTemplate) => `${template.name} (${template.language})`;
+
+/** Window as if a tenant message arrived at `inboundAt`, for live updates between server checks. */
+export const sessionWindowFromInbound = (inboundAt: string): WhatsAppSessionWindow => {
+  const expires = new Date(new Date(inboundAt).getTime() + WHATSAPP_SESSION_WINDOW_MS);
+  return { is_open: expires.getTime() > Date.now(), last_inbound_at: inboundAt, expires_at: expires.toISOString() };
+};
+
+/** Open only until `expires_at`, so a page left open does not keep offering free-form text. */
+export const isSessionWindowOpen = (session: WhatsAppSessionWindow | null, now: Date): boolean => {
+  if (!session?.is_open) return false;
+  if (!session.expires_at) return true;
+  return new Date(session.expires_at).getTime() > now.getTime();
+};
@@ -7,6 +7,8 @@ interface ImportMetaEnv {
   readonly VITE_API_KEY_ADMIN?: string;
   readonly VITE_API_KEY?: string;
   readonly VITE_CRM_APP_URL?: string;
+  /** Realtime event stream; defaults to `${VITE_API_URL}/realtime/events/` (SSE). `ws://` / `wss://` URLs use a WebSocket. */
+  readonly VITE_REALTIME_URL?: string;
   readonly VITE_BASE_DOMAIN?: string;
   readonly GEMINI_API_KEY?: string;
 }